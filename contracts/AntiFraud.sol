@@ -2,12 +2,27 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+
+interface ITaskManager {
+    function getTaskCreator(uint256 taskId) external view returns (address);
+}
+
+interface IBountyPool {
+    function depositPlatformFees() external payable;
+}
 
 /**
  * @title AntiFraud
  * @notice Implements anti-fraud mechanisms including rate limiting, stake forfeiture, and duplicate detection
  */
-contract AntiFraud is Ownable {
+contract AntiFraud is Ownable, ReentrancyGuard {
+    // Enums
+    enum ForfeitDestination {
+        FEE_POOL,
+        TASK_CREATOR
+    }
+
     // Structs
     struct SubmissionRecord {
         uint256 timestamp;
@@ -24,6 +39,7 @@ contract AntiFraud is Ownable {
     uint256 public constant MAX_SUBMISSIONS_PER_DAY = 20;
     uint256 public constant DUPLICATE_SIMILARITY_THRESHOLD = 95; // 95%
     uint256 public constant ONE_DAY = 1 days;
+    uint256 public constant STAKE_WITHDRAWAL_COOLDOWN = 7 days;
 
     // State variables
     mapping(address => DailySubmissionCount) public workerDailySubmissions;
@@ -31,10 +47,17 @@ contract AntiFraud is Ownable {
     mapping(string => bool) public usedImageHashes;
     mapping(string => address) public imageHashToWorker;
     mapping(address => uint256) public workerStakes;
+    mapping(address => uint256) public lockedStakes; // worker => collateral backing open claims
+    mapping(uint256 => mapping(address => uint256)) public claimStakes; // taskId => worker => collateral locked by the claim
+    mapping(address => uint256) public stakeWithdrawalRequestedAt;
+    mapping(address => uint256) public pendingWithdrawals; // task creator => credited forfeits
+    uint256 public forfeitedFees; // forfeits owed to the BountyPool fee pool
     mapping(address => bool) public blacklistedWorkers;
+    ForfeitDestination public forfeitDestination;
     
     address public verificationContractAddress;
     address public taskManagerAddress;
+    address public bountyPoolAddress;
 
     // Events
     event SubmissionRecorded(
@@ -61,6 +84,55 @@ contract AntiFraud is Ownable {
         uint256 amount,
         string reason
     );
+
+    event StakeDeposited(
+        address indexed worker,
+        uint256 amount,
+        uint256 totalStake
+    );
+
+    event StakeWithdrawalRequested(
+        address indexed worker,
+        uint256 availableAt
+    );
+
+    event StakeWithdrawn(
+        address indexed worker,
+        uint256 amount
+    );
+
+    event StakeLocked(
+        address indexed worker,
+        uint256 indexed taskId,
+        uint256 amount
+    );
+
+    event StakeReleased(
+        address indexed worker,
+        uint256 indexed taskId,
+        uint256 amount
+    );
+
+    event ForfeitedStakeCredited(
+        address indexed worker,
+        uint256 indexed taskId,
+        address indexed recipient,
+        uint256 amount
+    );
+
+    event ForfeitWithdrawn(
+        address indexed account,
+        uint256 amount
+    );
+
+    event ForfeitedFeesSwept(
+        address indexed bountyPool,
+        uint256 amount
+    );
+
+    event ForfeitDestinationUpdated(
+        ForfeitDestination destination
+    );
     
     event WorkerBlacklisted(
         address indexed worker,
@@ -78,7 +150,12 @@ contract AntiFraud is Ownable {
     error WorkerBlacklistedError(address worker);
     error UnauthorizedCaller(address caller);
     error InvalidAddress(address addr);
-    error NoStakeToForfeit(address worker);
+    error InvalidAmount();
+    error NoWithdrawalRequested(address worker);
+    error StakeCooldownActive(address worker, uint256 timeRemaining);
+    error InsufficientStakeBalance(address worker, uint256 requested, uint256 available);
+    error TransferFailed(address recipient, uint256 amount);
+    error NothingToWithdraw(address account);
 
     // Modifiers
     modifier onlyVerificationContract() {
@@ -133,6 +210,127 @@ contract AntiFraud is Ownable {
         taskManagerAddress = _taskManager;
     }
 
+    /**
+     * @notice Set the BountyPool contract address that receives forfeits sent to the fee pool
+     * @param _bountyPool Address of BountyPool contract
+     */
+    function setBountyPool(address _bountyPool) external onlyOwner {
+        if (_bountyPool == address(0)) {
+            revert InvalidAddress(_bountyPool);
+        }
+        bountyPoolAddress = _bountyPool;
+    }
+
+    /**
+     * @notice Choose where forfeited collateral is sent
+     * @param destination FEE_POOL or TASK_CREATOR
+     */
+    function setForfeitDestination(ForfeitDestination destination) external onlyOwner {
+        forfeitDestination = destination;
+        emit ForfeitDestinationUpdated(destination);
+    }
+
+    /**
+     * @notice Post refundable collateral
+     * @dev Depositing again cancels any pending withdrawal request
+     */
+    function depositStake() external payable nonReentrant {
+        if (msg.value == 0) {
+            revert InvalidAmount();
+        }
+
+        workerStakes[msg.sender] += msg.value;
+        stakeWithdrawalRequestedAt[msg.sender] = 0;
+
+        emit StakeDeposited(msg.sender, msg.value, workerStakes[msg.sender]);
+    }
+
+    /**
+     * @notice Start the cooldown after which collateral can be withdrawn
+     * @dev Collateral locked by open claims stays locked during and after the cooldown
+     */
+    function requestStakeWithdrawal() external {
+        if (workerStakes[msg.sender] == 0) {
+            revert InsufficientStakeBalance(msg.sender, 0, 0);
+        }
+
+        stakeWithdrawalRequestedAt[msg.sender] = block.timestamp;
+
+        emit StakeWithdrawalRequested(msg.sender, block.timestamp + STAKE_WITHDRAWAL_COOLDOWN);
+    }
+
+    /**
+     * @notice Withdraw collateral not locked by open claims once the cooldown has passed
+     * @param amount Amount to withdraw
+     */
+    function withdrawStake(uint256 amount) external nonReentrant {
+        uint256 requestedAt = stakeWithdrawalRequestedAt[msg.sender];
+
+        if (requestedAt == 0) {
+            revert NoWithdrawalRequested(msg.sender);
+        }
+
+        uint256 availableAt = requestedAt + STAKE_WITHDRAWAL_COOLDOWN;
+        if (block.timestamp < availableAt) {
+            revert StakeCooldownActive(msg.sender, availableAt - block.timestamp);
+        }
+
+        uint256 available = workerStakes[msg.sender] - lockedStakes[msg.sender];
+        if (amount == 0 || amount > available) {
+            revert InsufficientStakeBalance(msg.sender, amount, available);
+        }
+
+        workerStakes[msg.sender] -= amount;
+        stakeWithdrawalRequestedAt[msg.sender] = 0;
+
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        if (!success) {
+            revert TransferFailed(msg.sender, amount);
+        }
+
+        emit StakeWithdrawn(msg.sender, amount);
+    }
+
+    /**
+     * @notice Lock part of a worker's collateral to back a claim
+     * @dev Locked collateral cannot back another claim or be withdrawn until released or forfeited
+     * @param worker Address of the worker
+     * @param taskId ID of the claimed task
+     * @param amount Collateral the task requires
+     */
+    function lockStake(address worker, uint256 taskId, uint256 amount) external onlyTaskManager {
+        uint256 available = workerStakes[worker] - lockedStakes[worker];
+        if (amount > available) {
+            revert InsufficientStakeBalance(worker, amount, available);
+        }
+
+        lockedStakes[worker] += amount;
+        claimStakes[taskId][worker] += amount;
+
+        emit StakeLocked(worker, taskId, amount);
+    }
+
+    /**
+     * @notice Unlock the collateral backing a claim that ended without a rejection
+     * @param worker Address of the worker
+     * @param taskId ID of the task
+     * @return amount The amount released
+     */
+    function releaseStake(address worker, uint256 taskId) external onlyAuthorizedContracts returns (uint256) {
+        uint256 amount = claimStakes[taskId][worker];
+
+        if (amount == 0) {
+            return 0;
+        }
+
+        claimStakes[taskId][worker] = 0;
+        lockedStakes[worker] -= amount;
+
+        emit StakeReleased(worker, taskId, amount);
+
+        return amount;
+    }
+
     /**
      * @notice Check and record submission for rate limiting
      * @param worker Address of the worker
@@ -241,27 +439,122 @@ contract AntiFraud is Ownable {
     }
 
     /**
-     * @notice Forfeit worker's stake on rejected submission
+     * @notice Forfeit the collateral a worker locked for a claim whose submission was rejected
+     * @dev Claims without locked collateral are skipped so rejections always settle
      * @param worker Address of the worker
+     * @param taskId ID of the task the rejected submission belongs to
      * @param reason Reason for forfeiture
+     * @return amount The amount forfeited
      */
     function forfeitStake(
         address worker,
+        uint256 taskId,
         string memory reason
-    ) external onlyVerificationContract {
-        uint256 stakeAmount = workerStakes[worker];
+    ) external nonReentrant onlyVerificationContract returns (uint256) {
+        uint256 amount = claimStakes[taskId][worker];
         
-        if (stakeAmount == 0) {
-            revert NoStakeToForfeit(worker);
+        if (amount == 0) {
+            return 0;
         }
 
-        // Reset stake
-        workerStakes[worker] = 0;
+        claimStakes[taskId][worker] = 0;
+        lockedStakes[worker] -= amount;
+        workerStakes[worker] -= amount;
 
-        emit StakeForfeited(worker, stakeAmount, reason);
+        emit StakeForfeited(worker, amount, reason);
+
+        address recipient = _creditForfeit(taskId, amount);
+
+        emit ForfeitedStakeCredited(worker, taskId, recipient, amount);
 
         // Consider blacklisting if multiple forfeitures
         // This is a simplified version; production should track forfeiture count
+
+        return amount;
+    }
+
+    /**
+     * @notice Credit forfeited collateral to the task creator or the fee pool
+     * @dev Nothing is transferred here so a forfeit can never block consensus settlement
+     * @param taskId ID of the task
+     * @param amount Amount forfeited
+     * @return recipient The creator credited, or the BountyPool the fees are owed to
+     */
+    function _creditForfeit(uint256 taskId, uint256 amount) private returns (address) {
+        if (forfeitDestination == ForfeitDestination.TASK_CREATOR) {
+            address creator = ITaskManager(taskManagerAddress).getTaskCreator(taskId);
+            pendingWithdrawals[creator] += amount;
+            return creator;
+        }
+
+        forfeitedFees += amount;
+        return bountyPoolAddress;
+    }
+
+    /**
+     * @notice Withdraw forfeited collateral credited to a task creator
+     */
+    function withdraw() external nonReentrant {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        if (amount == 0) {
+            revert NothingToWithdraw(msg.sender);
+        }
+
+        pendingWithdrawals[msg.sender] = 0;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        if (!success) {
+            revert TransferFailed(msg.sender, amount);
+        }
+
+        emit ForfeitWithdrawn(msg.sender, amount);
+    }
+
+    /**
+     * @notice Move forfeits owed to the fee pool into the BountyPool
+     * @dev Permissionless so keepers can sweep without the owner
+     * @return amount The amount swept
+     */
+    function sweepForfeitedFees() external nonReentrant returns (uint256 amount) {
+        if (bountyPoolAddress == address(0)) {
+            revert InvalidAddress(bountyPoolAddress);
+        }
+
+        amount = forfeitedFees;
+        if (amount == 0) {
+            revert InvalidAmount();
+        }
+
+        forfeitedFees = 0;
+        IBountyPool(bountyPoolAddress).depositPlatformFees{value: amount}();
+
+        emit ForfeitedFeesSwept(bountyPoolAddress, amount);
+    }
+
+    /**
+     * @notice Get a task creator's withdrawable forfeits
+     * @param account Address to check
+     * @return amount The credited balance
+     */
+    function withdrawable(address account) external view returns (uint256) {
+        return pendingWithdrawals[account];
+    }
+
+    /**
+     * @notice Get a worker's posted collateral
+     * @param worker Address of the worker
+     * @return stake The collateral amount, including any locked by open claims
+     */
+    function getWorkerStake(address worker) external view returns (uint256) {
+        return workerStakes[worker];
+    }
+
+    /**
+     * @notice Get the collateral a worker can still lock for new claims or withdraw
+     * @param worker Address of the worker
+     * @return stake The unlocked collateral amount
+     */
+    function getAvailableStake(address worker) external view returns (uint256) {
+        return workerStakes[worker] - lockedStakes[worker];
     }
 
     /**
@@ -3,12 +3,28 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./TaskTypes.sol";
+
+interface ITaskManager {
+    function getTaskCategory(uint256 taskId) external view returns (TaskCategory);
+}
+
+interface IReputationContract {
+    function getReputationMultiplier(address user, TaskCategory category) external view returns (uint256);
+}
 
 /**
  * @title BountyPool
  * @notice Manages escrow of funds, reward distribution, and platform fees
+ * @dev Tasks are funded either in native CELO or in an allowlisted ERC-20 token.
+ *      Every payout for a task is made in the token the task was funded with.
+ *      Worker rewards and creator refunds are credited and withdrawn by the recipient.
  */
 contract BountyPool is Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
     // Constants
     uint256 public constant PLATFORM_FEE_PERCENTAGE = 250; // 2.5% (basis points)
     uint256 public constant EXPIRED_TASK_FEE_PERCENTAGE = 500; // 5% (basis points)
@@ -16,17 +32,47 @@ contract BountyPool is Ownable, ReentrancyGuard {
 
     // State variables
     mapping(uint256 => uint256) public taskBounties;
+    mapping(uint256 => address) public taskTokens; // address(0) = native CELO
+    mapping(address => bool) public allowedTokens;
+    mapping(address => uint256) public accumulatedTokenFees;
+    mapping(address => uint256) public bonusReserves; // token => platform-funded reputation bonus reserve
+    mapping(address => mapping(address => uint256)) public pendingWithdrawals; // account => token => credited balance
+    mapping(uint256 => uint256) public campaignBudgets; // campaignId => budget not yet allocated to tasks
+    mapping(uint256 => address) public campaignTokens;  // address(0) = native CELO
+    mapping(uint256 => uint256) public taskCampaigns;   // taskId => campaignId, 0 for standalone tasks
+    mapping(uint256 => uint256) public campaignSpent;
+    mapping(uint256 => uint256) public campaignRefunded;
     uint256 public accumulatedFees;
     address public taskManagerAddress;
     address public verificationContractAddress;
+    address public reputationContractAddress;
 
     // Events
     event BountyDeposited(uint256 indexed taskId, address indexed creator, uint256 amount);
+    event TokenBountyDeposited(uint256 indexed taskId, address indexed creator, address indexed token, uint256 amount);
     event RewardDistributed(uint256 indexed taskId, address indexed worker, uint256 amount, uint256 fee);
     event BountyRefunded(uint256 indexed taskId, address indexed creator, uint256 amount, uint256 fee);
     event PlatformFeesWithdrawn(address indexed owner, uint256 amount);
+    event PlatformFeesDeposited(address indexed from, uint256 amount);
+    event PlatformTokenFeesWithdrawn(address indexed owner, address indexed token, uint256 amount);
+    event TokenAllowlistUpdated(address indexed token, bool allowed);
+    event BonusReserveFunded(address indexed token, uint256 amount, uint256 reserveBalance);
+    event BonusReserveWithdrawn(address indexed token, uint256 amount, uint256 reserveBalance);
+    event ReputationBonusPaid(
+        uint256 indexed taskId,
+        address indexed worker,
+        address indexed token,
+        uint256 bonus,
+        uint256 reserveBalance
+    );
+    event CampaignBudgetDeposited(uint256 indexed campaignId, address indexed creator, address indexed token, uint256 amount);
+    event CampaignBudgetAllocated(uint256 indexed campaignId, uint256 indexed taskId, uint256 amount);
+    event CampaignBudgetRefunded(uint256 indexed campaignId, address indexed creator, uint256 amount, uint256 fee);
+    event EarningsCredited(address indexed account, address indexed token, uint256 amount);
+    event EarningsWithdrawn(address indexed account, address indexed token, uint256 amount);
     event TaskManagerUpdated(address indexed newTaskManager);
     event VerificationContractUpdated(address indexed newVerificationContract);
+    event ReputationContractUpdated(address indexed newReputationContract);
 
     // Custom errors
     error InsufficientBounty(uint256 taskId, uint256 required, uint256 available);
@@ -34,6 +80,11 @@ contract BountyPool is Ownable, ReentrancyGuard {
     error TransferFailed(address recipient, uint256 amount);
     error InvalidAddress(address addr);
     error NoFeesToWithdraw();
+    error TokenNotAllowed(address token);
+    error TokenMismatch(uint256 taskId, address expected, address provided);
+    error InsufficientBonusReserve(address token, uint256 requested, uint256 available);
+    error NothingToWithdraw(address account, address token);
+    error InsufficientCampaignBudget(uint256 campaignId, uint256 required, uint256 available);
 
     // Modifiers
     modifier onlyTaskManager() {
@@ -76,15 +127,155 @@ contract BountyPool is Ownable, ReentrancyGuard {
         emit VerificationContractUpdated(_verificationContract);
     }
 
+    /**
+     * @notice Set the ReputationContract address used for bonus multipliers
+     * @param _reputationContract Address of ReputationContract
+     */
+    function setReputationContract(address _reputationContract) external onlyOwner {
+        if (_reputationContract == address(0)) {
+            revert InvalidAddress(_reputationContract);
+        }
+        reputationContractAddress = _reputationContract;
+        emit ReputationContractUpdated(_reputationContract);
+    }
+
+    /**
+     * @notice Add or remove an ERC-20 token from the funding allowlist
+     * @param token Address of the ERC-20 token
+     * @param allowed Whether the token may be used to fund tasks
+     */
+    function setTokenAllowed(address token, bool allowed) external onlyOwner {
+        if (token == address(0)) {
+            revert InvalidAddress(token);
+        }
+        allowedTokens[token] = allowed;
+        emit TokenAllowlistUpdated(token, allowed);
+    }
+
     /**
      * @notice Deposit bounty for a task
      * @param taskId The ID of the task
      */
     function depositBounty(uint256 taskId) external payable onlyTaskManager {
+        if (taskBounties[taskId] > 0 && taskTokens[taskId] != address(0)) {
+            revert TokenMismatch(taskId, taskTokens[taskId], address(0));
+        }
+
         taskBounties[taskId] += msg.value;
         emit BountyDeposited(taskId, tx.origin, msg.value);
     }
 
+    /**
+     * @notice Deposit an ERC-20 bounty for a task
+     * @dev The creator must have approved this contract for `amount` beforehand
+     * @param taskId The ID of the task
+     * @param token Address of the allowlisted ERC-20 token
+     * @param creator Address the tokens are pulled from
+     * @param amount Amount of tokens to escrow
+     */
+    function depositTokenBounty(
+        uint256 taskId,
+        address token,
+        address creator,
+        uint256 amount
+    ) external nonReentrant onlyTaskManager {
+        if (!allowedTokens[token]) {
+            revert TokenNotAllowed(token);
+        }
+
+        if (taskBounties[taskId] > 0 && taskTokens[taskId] != token) {
+            revert TokenMismatch(taskId, taskTokens[taskId], token);
+        }
+
+        taskTokens[taskId] = token;
+        taskBounties[taskId] += amount;
+
+        IERC20(token).safeTransferFrom(creator, address(this), amount);
+
+        emit TokenBountyDeposited(taskId, creator, token, amount);
+    }
+
+    /**
+     * @notice Deposit a native CELO campaign budget
+     * @param campaignId The ID of the campaign
+     */
+    function depositCampaignBudget(uint256 campaignId) external payable onlyTaskManager {
+        campaignBudgets[campaignId] += msg.value;
+        emit CampaignBudgetDeposited(campaignId, tx.origin, address(0), msg.value);
+    }
+
+    /**
+     * @notice Deposit an ERC-20 campaign budget
+     * @dev The creator must have approved this contract for `amount` beforehand
+     * @param campaignId The ID of the campaign
+     * @param token Address of the allowlisted ERC-20 token
+     * @param creator Address the tokens are pulled from
+     * @param amount Amount of tokens to deposit
+     */
+    function depositTokenCampaignBudget(
+        uint256 campaignId,
+        address token,
+        address creator,
+        uint256 amount
+    ) external nonReentrant onlyTaskManager {
+        if (!allowedTokens[token]) {
+            revert TokenNotAllowed(token);
+        }
+
+        campaignTokens[campaignId] = token;
+        campaignBudgets[campaignId] += amount;
+
+        IERC20(token).safeTransferFrom(creator, address(this), amount);
+
+        emit CampaignBudgetDeposited(campaignId, creator, token, amount);
+    }
+
+    /**
+     * @notice Move part of a campaign budget into a task's escrow
+     * @param campaignId The ID of the campaign
+     * @param taskId The ID of the campaign's new task
+     * @param amount Amount to escrow for the task
+     */
+    function allocateCampaignBudget(uint256 campaignId, uint256 taskId, uint256 amount) external onlyTaskManager {
+        if (campaignBudgets[campaignId] < amount) {
+            revert InsufficientCampaignBudget(campaignId, amount, campaignBudgets[campaignId]);
+        }
+
+        campaignBudgets[campaignId] -= amount;
+        taskBounties[taskId] += amount;
+        taskTokens[taskId] = campaignTokens[campaignId];
+        taskCampaigns[taskId] = campaignId;
+
+        emit CampaignBudgetAllocated(campaignId, taskId, amount);
+    }
+
+    /**
+     * @notice Refund a campaign's unallocated budget with the 5% refund fee
+     * @param campaignId The ID of the campaign
+     * @param creator Address of the campaign creator
+     * @param amount Amount to refund
+     */
+    function refundCampaignBudget(
+        uint256 campaignId,
+        address creator,
+        uint256 amount
+    ) external nonReentrant onlyTaskManager {
+        if (campaignBudgets[campaignId] < amount) {
+            revert InsufficientCampaignBudget(campaignId, amount, campaignBudgets[campaignId]);
+        }
+
+        uint256 platformFee = (amount * EXPIRED_TASK_FEE_PERCENTAGE) / BASIS_POINTS;
+        address token = campaignTokens[campaignId];
+
+        campaignBudgets[campaignId] -= amount;
+        campaignRefunded[campaignId] += amount;
+
+        _accrueFee(token, platformFee);
+        _credit(token, creator, amount - platformFee);
+
+        emit CampaignBudgetRefunded(campaignId, creator, amount - platformFee, platformFee);
+    }
+
     /**
      * @notice Distribute reward to a worker
      * @param taskId The ID of the task
@@ -106,19 +297,99 @@ contract BountyPool is Ownable, ReentrancyGuard {
 
         // Update bounty balance
         taskBounties[taskId] -= amount;
+        if (taskCampaigns[taskId] != 0) {
+            campaignSpent[taskCampaigns[taskId]] += amount;
+        }
         
         // Accumulate platform fee
-        accumulatedFees += platformFee;
+        _accrueFee(taskTokens[taskId], platformFee);
 
-        // Transfer reward to worker
-        (bool success, ) = payable(worker).call{value: workerReward}("");
-        if (!success) {
-            revert TransferFailed(worker, workerReward);
-        }
+        // Top up badge holders from the bonus reserve, never from task escrow
+        uint256 bonus = _drawReputationBonus(taskId, worker, amount);
+
+        // Credit reward to worker
+        _credit(taskTokens[taskId], worker, workerReward + bonus);
 
         emit RewardDistributed(taskId, worker, workerReward, platformFee);
     }
 
+    /**
+     * @notice Fund the native CELO reputation bonus reserve
+     */
+    function fundBonusReserve() external payable onlyOwner {
+        bonusReserves[address(0)] += msg.value;
+        emit BonusReserveFunded(address(0), msg.value, bonusReserves[address(0)]);
+    }
+
+    /**
+     * @notice Fund the reputation bonus reserve for an allowlisted ERC-20 token
+     * @dev The owner must have approved this contract for `amount` beforehand
+     * @param token Address of the ERC-20 token
+     * @param amount Amount of tokens to add to the reserve
+     */
+    function fundTokenBonusReserve(address token, uint256 amount) external nonReentrant onlyOwner {
+        if (!allowedTokens[token]) {
+            revert TokenNotAllowed(token);
+        }
+
+        bonusReserves[token] += amount;
+
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+
+        emit BonusReserveFunded(token, amount, bonusReserves[token]);
+    }
+
+    /**
+     * @notice Withdraw unused funds from a reputation bonus reserve
+     * @param token Token address, or address(0) for native CELO
+     * @param amount Amount to withdraw
+     */
+    function withdrawBonusReserve(address token, uint256 amount) external nonReentrant onlyOwner {
+        if (bonusReserves[token] < amount) {
+            revert InsufficientBonusReserve(token, amount, bonusReserves[token]);
+        }
+
+        bonusReserves[token] -= amount;
+
+        _transferOut(token, owner(), amount);
+
+        emit BonusReserveWithdrawn(token, amount, bonusReserves[token]);
+    }
+
+    /**
+     * @notice Take a worker's reputation multiplier bonus out of the bonus reserve
+     * @dev Pays whatever the reserve can cover so a depleted reserve never blocks rewards
+     * @param taskId The ID of the task
+     * @param worker Address of the worker
+     * @param amount Base reward amount the multiplier applies to
+     * @return bonus The bonus drawn from the reserve
+     */
+    function _drawReputationBonus(uint256 taskId, address worker, uint256 amount) private returns (uint256) {
+        address token = taskTokens[taskId];
+        uint256 reserve = bonusReserves[token];
+
+        if (reserve == 0 || reputationContractAddress == address(0)) {
+            return 0;
+        }
+
+        TaskCategory category = ITaskManager(taskManagerAddress).getTaskCategory(taskId);
+        uint256 multiplier = IReputationContract(reputationContractAddress).getReputationMultiplier(worker, category);
+        if (multiplier <= BASIS_POINTS) {
+            return 0;
+        }
+
+        uint256 bonus = (amount * (multiplier - BASIS_POINTS)) / BASIS_POINTS;
+        if (bonus > reserve) {
+            bonus = reserve;
+        }
+
+        bonusReserves[token] = reserve - bonus;
+
+        emit ReputationBonusPaid(taskId, worker, token, bonus, reserve - bonus);
+
+        return bonus;
+    }
+
     /**
      * @notice Refund bounty for an expired task
      * @param taskId The ID of the task
@@ -130,29 +401,104 @@ contract BountyPool is Ownable, ReentrancyGuard {
         address creator,
         uint256 amount
     ) external nonReentrant onlyTaskManager {
+        // Calculate platform fee for expired task (5%)
+        _refund(taskId, creator, amount, (amount * EXPIRED_TASK_FEE_PERCENTAGE) / BASIS_POINTS);
+    }
+
+    /**
+     * @notice Refund the escrow a completed task did not pay out, without the expiry fee
+     * @param taskId The ID of the task
+     * @param creator Address of the task creator
+     * @param amount Amount to refund
+     */
+    function refundCompletedBounty(
+        uint256 taskId,
+        address creator,
+        uint256 amount
+    ) external nonReentrant onlyTaskManager {
+        _refund(taskId, creator, amount, 0);
+    }
+
+    /**
+     * @notice Release escrow back to a task's creator, keeping a platform fee
+     * @param taskId The ID of the task
+     * @param creator Address of the task creator
+     * @param amount Amount released from escrow
+     * @param platformFee Part of amount kept as a platform fee
+     */
+    function _refund(uint256 taskId, address creator, uint256 amount, uint256 platformFee) private {
         if (taskBounties[taskId] < amount) {
             revert InsufficientBounty(taskId, amount, taskBounties[taskId]);
         }
 
-        // Calculate platform fee for expired task (5%)
-        uint256 platformFee = (amount * EXPIRED_TASK_FEE_PERCENTAGE) / BASIS_POINTS;
         uint256 refundAmount = amount - platformFee;
 
         // Update bounty balance
         taskBounties[taskId] -= amount;
+        if (taskCampaigns[taskId] != 0) {
+            campaignRefunded[taskCampaigns[taskId]] += amount;
+        }
         
         // Accumulate platform fee
-        accumulatedFees += platformFee;
+        _accrueFee(taskTokens[taskId], platformFee);
 
-        // Transfer refund to creator
-        (bool success, ) = payable(creator).call{value: refundAmount}("");
-        if (!success) {
-            revert TransferFailed(creator, refundAmount);
-        }
+        // Credit refund to creator
+        _credit(taskTokens[taskId], creator, refundAmount);
 
         emit BountyRefunded(taskId, creator, refundAmount, platformFee);
     }
 
+    /**
+     * @notice Withdraw credited native CELO earnings
+     */
+    function withdraw() external nonReentrant {
+        _withdraw(address(0));
+    }
+
+    /**
+     * @notice Withdraw credited ERC-20 earnings
+     * @param token Address of the ERC-20 token
+     */
+    function withdrawToken(address token) external nonReentrant {
+        _withdraw(token);
+    }
+
+    /**
+     * @notice Send an account its full credited balance of a token
+     * @param token Token address, or address(0) for native CELO
+     */
+    function _withdraw(address token) private {
+        uint256 amount = pendingWithdrawals[msg.sender][token];
+        if (amount == 0) {
+            revert NothingToWithdraw(msg.sender, token);
+        }
+
+        pendingWithdrawals[msg.sender][token] = 0;
+
+        _transferOut(token, msg.sender, amount);
+
+        emit EarningsWithdrawn(msg.sender, token, amount);
+    }
+
+    /**
+     * @notice Credit a payout for the recipient to withdraw later
+     * @param token Token address, or address(0) for native CELO
+     * @param recipient Address being credited
+     * @param amount Amount to credit
+     */
+    function _credit(address token, address recipient, uint256 amount) private {
+        pendingWithdrawals[recipient][token] += amount;
+        emit EarningsCredited(recipient, token, amount);
+    }
+
+    /**
+     * @notice Add native CELO to the platform fee pool, e.g. forfeited worker collateral
+     */
+    function depositPlatformFees() external payable {
+        accumulatedFees += msg.value;
+        emit PlatformFeesDeposited(msg.sender, msg.value);
+    }
+
     /**
      * @notice Withdraw accumulated platform fees
      */
@@ -173,6 +519,54 @@ contract BountyPool is Ownable, ReentrancyGuard {
         emit PlatformFeesWithdrawn(owner(), amount);
     }
 
+    /**
+     * @notice Withdraw accumulated platform fees for an ERC-20 token
+     * @param token Address of the ERC-20 token
+     */
+    function withdrawTokenFees(address token) external nonReentrant onlyOwner {
+        uint256 amount = accumulatedTokenFees[token];
+
+        if (amount == 0) {
+            revert NoFeesToWithdraw();
+        }
+
+        accumulatedTokenFees[token] = 0;
+
+        IERC20(token).safeTransfer(owner(), amount);
+
+        emit PlatformTokenFeesWithdrawn(owner(), token, amount);
+    }
+
+    /**
+     * @notice Add a platform fee to the balance of the token it was paid in
+     * @param token Token address, or address(0) for native CELO
+     * @param fee Fee amount
+     */
+    function _accrueFee(address token, uint256 fee) private {
+        if (token == address(0)) {
+            accumulatedFees += fee;
+        } else {
+            accumulatedTokenFees[token] += fee;
+        }
+    }
+
+    /**
+     * @notice Send native CELO or ERC-20 tokens out of the pool
+     * @param token Token address, or address(0) for native CELO
+     * @param recipient Address receiving the funds
+     * @param amount Amount to send
+     */
+    function _transferOut(address token, address recipient, uint256 amount) private {
+        if (token == address(0)) {
+            (bool success, ) = payable(recipient).call{value: amount}("");
+            if (!success) {
+                revert TransferFailed(recipient, amount);
+            }
+        } else {
+            IERC20(token).safeTransfer(recipient, amount);
+        }
+    }
+
     /**
      * @notice Get bounty amount for a task
      * @param taskId The ID of the task
@@ -182,6 +576,62 @@ contract BountyPool is Ownable, ReentrancyGuard {
         return taskBounties[taskId];
     }
 
+    /**
+     * @notice Get an account's withdrawable native CELO earnings
+     * @param account Address to check
+     * @return amount The credited balance
+     */
+    function withdrawable(address account) external view returns (uint256) {
+        return pendingWithdrawals[account][address(0)];
+    }
+
+    /**
+     * @notice Get an account's withdrawable earnings in an ERC-20 token
+     * @param account Address to check
+     * @param token Address of the ERC-20 token
+     * @return amount The credited balance
+     */
+    function withdrawableToken(address account, address token) external view returns (uint256) {
+        return pendingWithdrawals[account][token];
+    }
+
+    /**
+     * @notice Get a campaign's budget not yet allocated to tasks
+     * @param campaignId The ID of the campaign
+     * @return amount The unallocated budget
+     */
+    function getCampaignBudget(uint256 campaignId) external view returns (uint256) {
+        return campaignBudgets[campaignId];
+    }
+
+    /**
+     * @notice Get how much of a campaign's budget has been paid out or refunded
+     * @param campaignId The ID of the campaign
+     * @return spent Bounty paid for verified submissions, before platform fees
+     * @return refunded Budget and task escrow returned to the creator, before platform fees
+     */
+    function getCampaignSpending(uint256 campaignId) external view returns (uint256 spent, uint256 refunded) {
+        return (campaignSpent[campaignId], campaignRefunded[campaignId]);
+    }
+
+    /**
+     * @notice Get the reputation bonus reserve balance for a token
+     * @param token Token address, or address(0) for native CELO
+     * @return balance The reserve balance
+     */
+    function getBonusReserve(address token) external view returns (uint256) {
+        return bonusReserves[token];
+    }
+
+    /**
+     * @notice Get the token a task was funded with
+     * @param taskId The ID of the task
+     * @return token The token address, or address(0) for native CELO
+     */
+    function getTaskToken(uint256 taskId) external view returns (address) {
+        return taskTokens[taskId];
+    }
+
     /**
      * @notice Get accumulated platform fees
      * @return amount The accumulated fees
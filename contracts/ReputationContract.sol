@@ -2,21 +2,13 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "./TaskTypes.sol";
 
 /**
  * @title ReputationContract
  * @notice Tracks worker and verifier reputation scores
  */
 contract ReputationContract is Ownable {
-    // Enums
-    enum TaskCategory {
-        PHOTO_VERIFICATION,
-        LOCATION_CHECK,
-        SURVEY,
-        PRICE_MONITORING,
-        BUSINESS_HOURS
-    }
-
     // Structs
     struct CategoryStats {
         uint256 successCount;
@@ -30,6 +22,7 @@ contract ReputationContract is Ownable {
         uint256 tasksRejected;
         uint256 verificationsPerformed;
         uint256 accurateVerifications;
+        uint256 claimsAbandoned;
         mapping(TaskCategory => CategoryStats) categoryStats;
     }
 
@@ -54,6 +47,7 @@ contract ReputationContract is Ownable {
     event ReputationInitialized(address indexed user, uint256 initialScore);
     event WorkerReputationUpdated(address indexed worker, bool successful, uint256 newScore);
     event VerifierReputationUpdated(address indexed verifier, bool accurate, uint256 newScore);
+    event AbandonedClaimRecorded(address indexed worker, uint256 newScore);
     event CategoryBadgeAwarded(address indexed worker, TaskCategory category);
     event VerificationContractUpdated(address indexed newContract);
     event TaskManagerUpdated(address indexed newContract);
@@ -118,7 +112,7 @@ contract ReputationContract is Ownable {
     function initializeReputation(address user) external {
         ReputationData storage rep = reputations[user];
         
-        if (rep.score != 0) {
+        if (!_isNewUser(rep)) {
             revert ReputationAlreadyInitialized(user);
         }
 
@@ -138,8 +132,8 @@ contract ReputationContract is Ownable {
     ) external onlyVerificationContract {
         ReputationData storage rep = reputations[worker];
         
-        // Initialize if first time (check if never had any tasks)
-        if (rep.score == 0 && rep.tasksCompleted == 0 && rep.tasksRejected == 0) {
+        // Initialize if first time
+        if (_isNewUser(rep)) {
             rep.score = INITIAL_REPUTATION;
         }
 
@@ -164,6 +158,29 @@ contract ReputationContract is Ownable {
         emit WorkerReputationUpdated(worker, successful, rep.score);
     }
 
+    /**
+     * @notice Penalise a worker who claimed a task and never submitted
+     * @param worker Address of the worker
+     */
+    function recordAbandonedClaim(address worker) external onlyTaskManager {
+        ReputationData storage rep = reputations[worker];
+
+        // Initialize if first time
+        if (_isNewUser(rep)) {
+            rep.score = INITIAL_REPUTATION;
+        }
+
+        // Decrease reputation (floored at MIN_REPUTATION)
+        if (rep.score >= REPUTATION_DECREASE) {
+            rep.score -= REPUTATION_DECREASE;
+        } else {
+            rep.score = MIN_REPUTATION;
+        }
+        rep.claimsAbandoned++;
+
+        emit AbandonedClaimRecorded(worker, rep.score);
+    }
+
     /**
      * @notice Update worker reputation with category tracking
      * @param worker Address of the worker
@@ -177,8 +194,8 @@ contract ReputationContract is Ownable {
     ) external onlyAuthorizedContracts {
         ReputationData storage rep = reputations[worker];
         
-        // Initialize if first time (check if never had any tasks)
-        if (rep.score == 0 && rep.tasksCompleted == 0 && rep.tasksRejected == 0) {
+        // Initialize if first time
+        if (_isNewUser(rep)) {
             rep.score = INITIAL_REPUTATION;
         }
 
@@ -226,8 +243,8 @@ contract ReputationContract is Ownable {
     ) external onlyVerificationContract {
         ReputationData storage rep = reputations[verifier];
         
-        // Initialize if first time (check if never performed verifications)
-        if (rep.score == 0 && rep.verificationsPerformed == 0) {
+        // Initialize if first time
+        if (_isNewUser(rep)) {
             rep.score = INITIAL_REPUTATION;
         }
 
@@ -253,6 +270,21 @@ contract ReputationContract is Ownable {
         emit VerifierReputationUpdated(verifier, accurateVote, rep.score);
     }
 
+    /**
+     * @notice Check whether a user has no recorded score or activity yet
+     * @dev A score of 0 alone is not enough: penalties can floor an active user at MIN_REPUTATION
+     * @param rep Reputation data of the user
+     * @return isNew True if the user should start from INITIAL_REPUTATION
+     */
+    function _isNewUser(ReputationData storage rep) private view returns (bool) {
+        return
+            rep.score == 0 &&
+            rep.tasksCompleted == 0 &&
+            rep.tasksRejected == 0 &&
+            rep.verificationsPerformed == 0 &&
+            rep.claimsAbandoned == 0;
+    }
+
     /**
      * @notice Check if a badge should be awarded
      * @param stats Category statistics
@@ -274,12 +306,8 @@ contract ReputationContract is Ownable {
      */
     function getReputationScore(address user) external view returns (uint256) {
         ReputationData storage rep = reputations[user];
-        // If score is 0 and user has never had any activity, return initial reputation
-        // Otherwise return actual score (which could be 0 if they reached minimum)
-        if (rep.score == 0 && rep.tasksCompleted == 0 && rep.tasksRejected == 0 && rep.verificationsPerformed == 0) {
-            return INITIAL_REPUTATION;
-        }
-        return rep.score;
+        // New users start at the initial reputation; active users can legitimately sit at 0
+        return _isNewUser(rep) ? INITIAL_REPUTATION : rep.score;
     }
 
     /**
@@ -299,13 +327,22 @@ contract ReputationContract is Ownable {
         uint256 accurateVerifications
     ) {
         ReputationData storage rep = reputations[user];
-        score = rep.score == 0 ? INITIAL_REPUTATION : rep.score;
+        score = _isNewUser(rep) ? INITIAL_REPUTATION : rep.score;
         tasksCompleted = rep.tasksCompleted;
         tasksRejected = rep.tasksRejected;
         verificationsPerformed = rep.verificationsPerformed;
         accurateVerifications = rep.accurateVerifications;
     }
 
+    /**
+     * @notice Get how many claims a worker has abandoned or let time out
+     * @param user Address of the user
+     * @return count Number of abandoned claims
+     */
+    function getAbandonedClaims(address user) external view returns (uint256) {
+        return reputations[user].claimsAbandoned;
+    }
+
     /**
      * @notice Check if user has a category badge
      * @param user Address of the user
@@ -357,10 +394,8 @@ contract ReputationContract is Ownable {
      * @return hasPriority True if user has priority access
      */
     function hasPriorityAccess(address user) external view returns (bool) {
-        uint256 score = reputations[user].score;
-        if (score == 0) {
-            score = INITIAL_REPUTATION;
-        }
+        ReputationData storage rep = reputations[user];
+        uint256 score = _isNewUser(rep) ? INITIAL_REPUTATION : rep.score;
         return score >= HIGH_REPUTATION_THRESHOLD;
     }
 
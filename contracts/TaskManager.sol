@@ -3,6 +3,8 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./TaskTypes.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 
 interface IAntiFraud {
     function checkAndRecordSubmission(
@@ -11,6 +13,49 @@ interface IAntiFraud {
         string memory imageHash,
         bytes32 metadataHash
     ) external returns (bool);
+
+    function lockStake(address worker, uint256 taskId, uint256 amount) external;
+    function releaseStake(address worker, uint256 taskId) external returns (uint256);
+}
+
+interface IBountyPool {
+    function depositBounty(uint256 taskId) external payable;
+    function depositTokenBounty(uint256 taskId, address token, address creator, uint256 amount) external;
+    function refundBounty(uint256 taskId, address creator, uint256 amount) external;
+    function refundCompletedBounty(uint256 taskId, address creator, uint256 amount) external;
+    function getTaskBounty(uint256 taskId) external view returns (uint256);
+    function getTaskToken(uint256 taskId) external view returns (address);
+    function depositCampaignBudget(uint256 campaignId) external payable;
+    function depositTokenCampaignBudget(uint256 campaignId, address token, address creator, uint256 amount) external;
+    function allocateCampaignBudget(uint256 campaignId, uint256 taskId, uint256 amount) external;
+    function refundCampaignBudget(uint256 campaignId, address creator, uint256 amount) external;
+    function getCampaignBudget(uint256 campaignId) external view returns (uint256);
+    function getCampaignSpending(uint256 campaignId) external view returns (uint256 spent, uint256 refunded);
+}
+
+interface IVerificationContract {
+    struct Location {
+        int256 latitude;
+        int256 longitude;
+        uint256 radius;
+    }
+
+    function createSubmission(
+        uint256 taskId,
+        address worker,
+        string memory ipfsHash,
+        Location memory location,
+        uint256 bountyAmount,
+        TaskCategory category
+    ) external returns (uint256);
+
+    function getReservedBounty(uint256 taskId) external view returns (uint256);
+}
+
+interface IReputationContract {
+    function getReputationScore(address user) external view returns (uint256);
+    function hasCategoryBadge(address user, TaskCategory category) external view returns (bool);
+    function recordAbandonedClaim(address worker) external;
 }
 
 /**
@@ -19,14 +64,6 @@ interface IAntiFraud {
  */
 contract TaskManager is Ownable, ReentrancyGuard {
     // Enums
-    enum TaskCategory {
-        PHOTO_VERIFICATION,
-        LOCATION_CHECK,
-        SURVEY,
-        PRICE_MONITORING,
-        BUSINESS_HOURS
-    }
-
     enum TaskStatus {
         ACTIVE,
         IN_PROGRESS,
@@ -47,6 +84,7 @@ contract TaskManager is Ownable, ReentrancyGuard {
         bool requiresLocation;
         uint256 minReputation;
         TaskCategory requiredBadge;
+        bool requiresBadge; // requiredBadge is only enforced when set
     }
 
     struct Task {
@@ -71,6 +109,52 @@ contract TaskManager is Ownable, ReentrancyGuard {
         bool completed;
     }
 
+    // Shared settings for every location task in a campaign
+    struct CampaignParams {
+        string description;
+        TaskCategory category;
+        uint256 bountyAmount; // Per worker, per location
+        uint256 workersPerLocation;
+        uint256 deadline;
+        TaskRequirements requirements;
+    }
+
+    struct Campaign {
+        uint256 id;
+        address creator;
+        CampaignParams params;
+        uint256 budget;    // Total funded
+        uint256 allocated; // Moved from the campaign pot into task escrow
+        bool closed;
+    }
+
+    struct CampaignReport {
+        uint256 budget;
+        uint256 allocated;
+        uint256 unallocated;
+        uint256 spent;     // Bounty paid out for verified submissions
+        uint256 refunded;  // Returned to the creator, before platform fees
+        uint256 remaining; // Budget neither spent nor refunded
+        uint256 taskCount;
+    }
+
+    // Recurrence for a schedule; occurrence n opens at startTime + n * interval
+    struct ScheduleTiming {
+        uint256 startTime;
+        uint256 interval;
+        uint256 taskDuration; // Each occurrence's deadline is its start time plus this
+        uint256 occurrences;
+    }
+
+    // A recurring task backed by a campaign pot that pre-funds every occurrence
+    struct Schedule {
+        uint256 id;
+        uint256 campaignId;
+        Location location;
+        ScheduleTiming timing;
+        uint256 nextOccurrence; // Index of the next occurrence to spawn
+    }
+
     // Constants
     uint256 public constant MINIMUM_BOUNTY = 0.5 ether; // 0.5 cUSD
     uint256 public constant MAX_ACTIVE_TASKS_PER_WORKER = 3;
@@ -78,12 +162,30 @@ contract TaskManager is Ownable, ReentrancyGuard {
 
     // State variables
     uint256 private taskIdCounter;
-    mapping(uint256 => Task) public tasks;
-    mapping(address => uint256[]) public workerActiveTasks;
+    mapping(uint256 => Task) private tasks;
+    mapping(address => uint256[]) private workerActiveTasks;
     mapping(uint256 => mapping(address => TaskClaim)) public taskClaims;
-    mapping(uint256 => address[]) public taskWorkers;
+    mapping(uint256 => address[]) private taskWorkers;
+    mapping(uint256 => mapping(address => uint256)) public submissionIds;
+    mapping(uint256 => uint256) public taskRequiredStake;
+    uint256 private campaignIdCounter; // Campaign IDs start at 1
+    mapping(uint256 => Campaign) private campaigns;
+    mapping(uint256 => uint256[]) private campaignTasks;
+    uint256 private scheduleIdCounter; // Schedule IDs start at 1
+    mapping(uint256 => Schedule) private schedules;
+    mapping(uint256 => uint256) private campaignSchedules; // campaignId => backing schedule, 0 if none
+    mapping(TaskStatus => uint256[]) private tasksByStatus;
+    mapping(uint256 => uint256) private taskStatusIndex; // Position in tasksByStatus[task.status]
+    mapping(address => uint256[]) private creatorTasks;
+
+    // Workers below this reputation must post collateralForLowReputation to claim any task
+    uint256 public lowReputationThreshold;
+    uint256 public collateralForLowReputation;
     
     address public antiFraudAddress;
+    address public bountyPoolAddress;
+    address public verificationContractAddress;
+    address public reputationContractAddress;
 
     // Events
     event TaskCreated(
@@ -94,6 +196,44 @@ contract TaskManager is Ownable, ReentrancyGuard {
         uint256 deadline
     );
     
+    event CampaignCreated(
+        uint256 indexed campaignId,
+        address indexed creator,
+        TaskCategory category,
+        uint256 bountyAmount,
+        uint256 budget
+    );
+
+    event CampaignTaskAdded(
+        uint256 indexed campaignId,
+        uint256 indexed taskId
+    );
+
+    event CampaignClosed(
+        uint256 indexed campaignId,
+        uint256 refundedBudget
+    );
+
+    event ScheduleCreated(
+        uint256 indexed scheduleId,
+        uint256 indexed campaignId,
+        address indexed creator,
+        uint256 startTime,
+        uint256 interval,
+        uint256 occurrences
+    );
+
+    event ScheduleOccurrenceSpawned(
+        uint256 indexed scheduleId,
+        uint256 occurrence,
+        uint256 indexed taskId
+    );
+
+    event ScheduleOccurrenceSkipped(
+        uint256 indexed scheduleId,
+        uint256 occurrence
+    );
+
     event TaskClaimed(
         uint256 indexed taskId,
         address indexed worker,
@@ -107,11 +247,65 @@ contract TaskManager is Ownable, ReentrancyGuard {
         uint256 submittedAt
     );
     
+    event ClaimReleased(
+        uint256 indexed taskId,
+        address indexed worker,
+        bool timedOut
+    );
+
     event TaskExpired(
         uint256 indexed taskId,
         uint256 expiredAt
     );
 
+    event SubmissionVerified(
+        uint256 indexed taskId,
+        uint256 verifiedCount
+    );
+
+    event TaskCompleted(
+        uint256 indexed taskId,
+        uint256 completedAt
+    );
+
+    event TaskCancelled(
+        uint256 indexed taskId,
+        uint256 cancelledAt
+    );
+
+    event TaskDeadlineExtended(
+        uint256 indexed taskId,
+        uint256 newDeadline
+    );
+
+    event TaskBountyIncreased(
+        uint256 indexed taskId,
+        uint256 newBountyAmount,
+        uint256 addedFunding
+    );
+
+    event TaskWorkerSlotsAdded(
+        uint256 indexed taskId,
+        uint256 newMaxWorkers,
+        uint256 addedFunding
+    );
+
+    event TaskStakeRequirementUpdated(
+        uint256 indexed taskId,
+        uint256 requiredStake
+    );
+
+    event CollateralTierUpdated(
+        uint256 reputationThreshold,
+        uint256 requiredStake
+    );
+
+    event BountyReclaimed(
+        uint256 indexed taskId,
+        address indexed creator,
+        uint256 amount
+    );
+
     // Custom errors
     error InsufficientBounty(uint256 provided, uint256 required);
     error TaskNotActive(uint256 taskId);
@@ -122,6 +316,29 @@ contract TaskManager is Ownable, ReentrancyGuard {
     error UnauthorizedAccess(address caller);
     error InvalidTaskId(uint256 taskId);
     error TaskNotClaimed(address worker, uint256 taskId);
+    error SubmissionAlreadyMade(uint256 taskId, address worker);
+    error InsufficientFunding(uint256 provided, uint256 required);
+    error BountyPoolNotSet();
+    error VerificationContractNotSet();
+    error SubmissionNotFound(address worker, uint256 taskId);
+    error TaskHasClaims(uint256 taskId);
+    error TaskNotClosed(uint256 taskId);
+    error NothingToReclaim(uint256 taskId);
+    error ReputationContractNotSet();
+    error InsufficientReputation(address worker, uint256 score, uint256 required);
+    error MissingCategoryBadge(address worker, TaskCategory badge);
+    error AntiFraudNotSet();
+    error DeadlineNotExtended(uint256 newDeadline, uint256 currentDeadline);
+    error BountyNotIncreased(uint256 newBountyAmount, uint256 currentBountyAmount);
+    error InvalidWorkerSlots(uint256 additionalWorkers);
+    error NativeValueNotAccepted(uint256 value);
+    error InvalidCampaignId(uint256 campaignId);
+    error CampaignNotOpen(uint256 campaignId);
+    error InsufficientCampaignBudget(uint256 required, uint256 available);
+    error InvalidScheduleId(uint256 scheduleId);
+    error InvalidSchedule();
+    error NoOccurrenceDue(uint256 scheduleId, uint256 nextOccurrence);
+    error ScheduleBackedCampaign(uint256 campaignId, uint256 scheduleId);
 
     constructor() Ownable(msg.sender) {}
 
@@ -135,10 +352,49 @@ contract TaskManager is Ownable, ReentrancyGuard {
     }
 
     /**
-     * @notice Create a new task
+     * @notice Set the BountyPool contract address
+     * @param _bountyPool Address of BountyPool contract
+     */
+    function setBountyPool(address _bountyPool) external onlyOwner {
+        require(_bountyPool != address(0), "Invalid address");
+        bountyPoolAddress = _bountyPool;
+    }
+
+    /**
+     * @notice Set the VerificationContract address
+     * @param _verificationContract Address of VerificationContract
+     */
+    function setVerificationContract(address _verificationContract) external onlyOwner {
+        require(_verificationContract != address(0), "Invalid address");
+        verificationContractAddress = _verificationContract;
+    }
+
+    /**
+     * @notice Set the ReputationContract address
+     * @param _reputationContract Address of ReputationContract
+     */
+    function setReputationContract(address _reputationContract) external onlyOwner {
+        require(_reputationContract != address(0), "Invalid address");
+        reputationContractAddress = _reputationContract;
+    }
+
+    /**
+     * @notice Require workers below a reputation threshold to post collateral before claiming
+     * @param reputationThreshold Workers with a lower score need collateral (0 disables the tier)
+     * @param requiredStake Collateral required from those workers
+     */
+    function setCollateralTier(uint256 reputationThreshold, uint256 requiredStake) external onlyOwner {
+        lowReputationThreshold = reputationThreshold;
+        collateralForLowReputation = requiredStake;
+        emit CollateralTierUpdated(reputationThreshold, requiredStake);
+    }
+
+    /**
+     * @notice Create a new task and escrow its full bounty in BountyPool
+     * @dev msg.value must cover bountyAmount * maxWorkers
      * @param description Task description
      * @param category Task category
-     * @param bountyAmount Reward amount in wei
+     * @param bountyAmount Reward amount per worker in wei
      * @param maxWorkers Maximum number of workers
      * @param location Task location with radius
      * @param deadline Task deadline timestamp
@@ -153,20 +409,104 @@ contract TaskManager is Ownable, ReentrancyGuard {
         Location memory location,
         uint256 deadline,
         TaskRequirements memory requirements
-    ) external payable returns (uint256) {
-        if (bountyAmount < MINIMUM_BOUNTY) {
-            revert InsufficientBounty(bountyAmount, MINIMUM_BOUNTY);
+    ) external payable nonReentrant returns (uint256) {
+        _validateNewTask(bountyAmount, MINIMUM_BOUNTY, deadline);
+
+        uint256 requiredFunding = bountyAmount * maxWorkers;
+        if (msg.value < requiredFunding) {
+            revert InsufficientFunding(msg.value, requiredFunding);
+        }
+
+        uint256 taskId = _storeTask(msg.sender, description, category, bountyAmount, maxWorkers, location, deadline, requirements);
+
+        // Escrow the full bounty for all worker slots
+        IBountyPool(bountyPoolAddress).depositBounty{value: msg.value}(taskId);
+
+        emit TaskCreated(taskId, msg.sender, category, bountyAmount, deadline);
+
+        return taskId;
+    }
+
+    /**
+     * @notice Create a new task funded with an allowlisted ERC-20 stablecoin
+     * @dev The creator must approve BountyPool for bountyAmount * maxWorkers first
+     * @param description Task description
+     * @param category Task category
+     * @param bountyAmount Reward amount per worker in token units
+     * @param maxWorkers Maximum number of workers
+     * @param location Task location with radius
+     * @param deadline Task deadline timestamp
+     * @param requirements Task requirements
+     * @param token Address of the ERC-20 token used for the bounty
+     * @return taskId The ID of the created task
+     */
+    function createTaskWithToken(
+        string memory description,
+        TaskCategory category,
+        uint256 bountyAmount,
+        uint256 maxWorkers,
+        Location memory location,
+        uint256 deadline,
+        TaskRequirements memory requirements,
+        address token
+    ) external nonReentrant returns (uint256) {
+        _validateNewTask(bountyAmount, _minimumTokenBounty(token), deadline);
+
+        uint256 taskId = _storeTask(msg.sender, description, category, bountyAmount, maxWorkers, location, deadline, requirements);
+
+        // Pull the full bounty for all worker slots into escrow
+        IBountyPool(bountyPoolAddress).depositTokenBounty(taskId, token, msg.sender, bountyAmount * maxWorkers);
+
+        emit TaskCreated(taskId, msg.sender, category, bountyAmount, deadline);
+
+        return taskId;
+    }
+
+    /**
+     * @notice Validate the parameters shared by every new task
+     * @param bountyAmount Reward amount per worker
+     * @param minimumBounty Minimum bounty in the funding token's units
+     * @param deadline Task deadline timestamp
+     */
+    function _validateNewTask(uint256 bountyAmount, uint256 minimumBounty, uint256 deadline) private view {
+        if (bountyAmount < minimumBounty) {
+            revert InsufficientBounty(bountyAmount, minimumBounty);
         }
         
         if (deadline <= block.timestamp) {
             revert DeadlineExpired(0, deadline);
         }
 
+        if (bountyPoolAddress == address(0)) {
+            revert BountyPoolNotSet();
+        }
+    }
+
+    /**
+     * @notice Store a new task
+     * @dev Rejects tasks without a worker slot, which could never be claimed or completed
+     * @param creator Address the task belongs to
+     * @return taskId The ID of the stored task
+     */
+    function _storeTask(
+        address creator,
+        string memory description,
+        TaskCategory category,
+        uint256 bountyAmount,
+        uint256 maxWorkers,
+        Location memory location,
+        uint256 deadline,
+        TaskRequirements memory requirements
+    ) private returns (uint256) {
+        if (maxWorkers == 0) {
+            revert InvalidWorkerSlots(0);
+        }
+
         uint256 taskId = taskIdCounter++;
 
         tasks[taskId] = Task({
             id: taskId,
-            creator: msg.sender,
+            creator: creator,
             description: description,
             category: category,
             bountyAmount: bountyAmount,
@@ -180,95 +520,625 @@ contract TaskManager is Ownable, ReentrancyGuard {
             createdAt: block.timestamp
         });
 
-        emit TaskCreated(taskId, msg.sender, category, bountyAmount, deadline);
+        _indexTaskStatus(taskId, TaskStatus.ACTIVE);
+        creatorTasks[creator].push(taskId);
 
         return taskId;
     }
 
+    /**
+     * @notice Move a task to a new status and keep the status index in sync
+     * @param task The task
+     * @param status The new status
+     */
+    function _setTaskStatus(Task storage task, TaskStatus status) private {
+        uint256[] storage current = tasksByStatus[task.status];
+        uint256 index = taskStatusIndex[task.id];
+        uint256 lastTaskId = current[current.length - 1];
+
+        current[index] = lastTaskId;
+        taskStatusIndex[lastTaskId] = index;
+        current.pop();
+
+        _indexTaskStatus(task.id, status);
+        task.status = status;
+    }
+
+    /**
+     * @notice Append a task to a status index
+     * @param taskId The ID of the task
+     * @param status The task's status
+     */
+    function _indexTaskStatus(uint256 taskId, TaskStatus status) private {
+        taskStatusIndex[taskId] = tasksByStatus[status].length;
+        tasksByStatus[status].push(taskId);
+    }
+
+    /**
+     * @notice Scale MINIMUM_BOUNTY (18 decimals) to a token's decimals
+     * @param token Address of the ERC-20 token
+     * @return minimum The minimum bounty in token units
+     */
+    function _minimumTokenBounty(address token) private view returns (uint256) {
+        uint8 decimals = IERC20Metadata(token).decimals();
+        if (decimals >= 18) {
+            return MINIMUM_BOUNTY * (10 ** (decimals - 18));
+        }
+        return MINIMUM_BOUNTY / (10 ** (18 - decimals));
+    }
+
+    /**
+     * @notice Create a campaign funded in native CELO and one task per location
+     * @dev msg.value is the campaign budget; it must cover the first batch of locations
+     *      and the rest stays in the campaign pot for addCampaignLocations
+     * @param params Shared task settings
+     * @param locations One task is created per location
+     * @return campaignId The ID of the created campaign
+     */
+    function createCampaign(
+        CampaignParams memory params,
+        Location[] memory locations
+    ) external payable nonReentrant returns (uint256) {
+        _validateNewTask(params.bountyAmount, MINIMUM_BOUNTY, params.deadline);
+
+        uint256 campaignId = _storeCampaign(params, msg.value);
+        IBountyPool(bountyPoolAddress).depositCampaignBudget{value: msg.value}(campaignId);
+
+        _addCampaignTasks(campaignId, locations);
+
+        return campaignId;
+    }
+
+    /**
+     * @notice Create a campaign funded in an allowlisted ERC-20 token
+     * @dev The creator must have approved BountyPool for `budget` beforehand
+     * @param params Shared task settings, with bountyAmount in token units
+     * @param locations One task is created per location
+     * @param token Address of the ERC-20 token
+     * @param budget Campaign budget in token units
+     * @return campaignId The ID of the created campaign
+     */
+    function createCampaignWithToken(
+        CampaignParams memory params,
+        Location[] memory locations,
+        address token,
+        uint256 budget
+    ) external nonReentrant returns (uint256) {
+        _validateNewTask(params.bountyAmount, _minimumTokenBounty(token), params.deadline);
+
+        uint256 campaignId = _storeCampaign(params, budget);
+        IBountyPool(bountyPoolAddress).depositTokenCampaignBudget(campaignId, token, msg.sender, budget);
+
+        _addCampaignTasks(campaignId, locations);
+
+        return campaignId;
+    }
+
+    /**
+     * @notice Add location tasks to a campaign, drawing their escrow from the campaign pot
+     * @dev Not allowed on schedule-backed campaigns, whose pot pre-funds future occurrences
+     * @param campaignId The ID of the campaign
+     * @param locations One task is created per location
+     */
+    function addCampaignLocations(uint256 campaignId, Location[] memory locations) external nonReentrant {
+        Campaign storage campaign = _getOpenCampaignForCreator(campaignId);
+
+        uint256 scheduleId = campaignSchedules[campaignId];
+        if (scheduleId != 0) {
+            revert ScheduleBackedCampaign(campaignId, scheduleId);
+        }
+
+        if (block.timestamp >= campaign.params.deadline) {
+            revert DeadlineExpired(0, campaign.params.deadline);
+        }
+
+        _addCampaignTasks(campaignId, locations);
+    }
+
+    /**
+     * @notice Close a campaign and refund its unallocated budget
+     * @dev Tasks already created keep their escrow and follow the normal task lifecycle
+     * @param campaignId The ID of the campaign
+     * @return refunded The unallocated budget refunded, before platform fees
+     */
+    function closeCampaign(uint256 campaignId) external nonReentrant returns (uint256 refunded) {
+        Campaign storage campaign = _getOpenCampaignForCreator(campaignId);
+
+        campaign.closed = true;
+
+        refunded = IBountyPool(bountyPoolAddress).getCampaignBudget(campaignId);
+        if (refunded > 0) {
+            IBountyPool(bountyPoolAddress).refundCampaignBudget(campaignId, msg.sender, refunded);
+        }
+
+        emit CampaignClosed(campaignId, refunded);
+    }
+
+    /**
+     * @notice Store a new campaign
+     * @param params Shared task settings
+     * @param budget Total campaign budget
+     * @return campaignId The ID of the stored campaign
+     */
+    function _storeCampaign(CampaignParams memory params, uint256 budget) private returns (uint256) {
+        if (params.workersPerLocation == 0) {
+            revert InvalidWorkerSlots(0);
+        }
+
+        uint256 campaignId = ++campaignIdCounter;
+
+        Campaign storage campaign = campaigns[campaignId];
+        campaign.id = campaignId;
+        campaign.creator = msg.sender;
+        campaign.params = params;
+        campaign.budget = budget;
+
+        emit CampaignCreated(campaignId, msg.sender, params.category, params.bountyAmount, budget);
+
+        return campaignId;
+    }
+
+    /**
+     * @notice Create one task per location and move its escrow out of the campaign pot
+     * @param campaignId The ID of the campaign
+     * @param locations Task locations
+     */
+    function _addCampaignTasks(uint256 campaignId, Location[] memory locations) private {
+        CampaignParams storage params = campaigns[campaignId].params;
+
+        uint256 required = params.bountyAmount * params.workersPerLocation * locations.length;
+        uint256 available = IBountyPool(bountyPoolAddress).getCampaignBudget(campaignId);
+        if (required > available) {
+            revert InsufficientCampaignBudget(required, available);
+        }
+
+        for (uint256 i = 0; i < locations.length; i++) {
+            _spawnCampaignTask(campaignId, locations[i], params.deadline);
+        }
+    }
+
+    /**
+     * @notice Create a task from a campaign's shared settings and escrow it from the campaign pot
+     * @dev The task belongs to the campaign creator, whoever triggers it
+     * @param campaignId The ID of the campaign
+     * @param location Task location
+     * @param deadline Task deadline timestamp
+     * @return taskId The ID of the created task
+     */
+    function _spawnCampaignTask(
+        uint256 campaignId,
+        Location memory location,
+        uint256 deadline
+    ) private returns (uint256 taskId) {
+        Campaign storage campaign = campaigns[campaignId];
+        CampaignParams storage params = campaign.params;
+        uint256 escrow = params.bountyAmount * params.workersPerLocation;
+
+        taskId = _storeTask(
+            campaign.creator,
+            params.description,
+            params.category,
+            params.bountyAmount,
+            params.workersPerLocation,
+            location,
+            deadline,
+            params.requirements
+        );
+
+        IBountyPool(bountyPoolAddress).allocateCampaignBudget(campaignId, taskId, escrow);
+        campaign.allocated += escrow;
+        campaignTasks[campaignId].push(taskId);
+
+        emit TaskCreated(taskId, campaign.creator, params.category, params.bountyAmount, deadline);
+        emit CampaignTaskAdded(campaignId, taskId);
+    }
+
+    /**
+     * @notice Load a campaign the caller created that has not been closed
+     * @param campaignId The ID of the campaign
+     * @return campaign The campaign
+     */
+    function _getOpenCampaignForCreator(uint256 campaignId) private view returns (Campaign storage campaign) {
+        campaign = campaigns[campaignId];
+
+        if (campaign.id == 0) {
+            revert InvalidCampaignId(campaignId);
+        }
+
+        if (msg.sender != campaign.creator) {
+            revert UnauthorizedAccess(msg.sender);
+        }
+
+        if (campaign.closed) {
+            revert CampaignNotOpen(campaignId);
+        }
+    }
+
+    /**
+     * @notice Create a recurring task funded in native CELO
+     * @dev msg.value pre-funds every occurrence. The schedule is backed by a campaign, so
+     *      closeCampaign cancels the remaining occurrences and refunds them
+     * @param params Shared task settings; deadline is derived from the timing and ignored
+     * @param location Location of every occurrence
+     * @param timing Start time, interval, per-occurrence duration and occurrence count
+     * @return scheduleId The ID of the created schedule
+     */
+    function createSchedule(
+        CampaignParams memory params,
+        Location memory location,
+        ScheduleTiming memory timing
+    ) external payable nonReentrant returns (uint256) {
+        uint256 requiredFunding = _prepareSchedule(params, timing, MINIMUM_BOUNTY);
+        if (msg.value < requiredFunding) {
+            revert InsufficientFunding(msg.value, requiredFunding);
+        }
+
+        uint256 campaignId = _storeCampaign(params, msg.value);
+        IBountyPool(bountyPoolAddress).depositCampaignBudget{value: msg.value}(campaignId);
+
+        return _storeSchedule(campaignId, location, timing);
+    }
+
+    /**
+     * @notice Create a recurring task funded in an allowlisted ERC-20 token
+     * @dev The creator must approve BountyPool for bountyAmount * workersPerLocation * occurrences first
+     * @param params Shared task settings, with bountyAmount in token units
+     * @param location Location of every occurrence
+     * @param timing Start time, interval, per-occurrence duration and occurrence count
+     * @param token Address of the ERC-20 token
+     * @return scheduleId The ID of the created schedule
+     */
+    function createScheduleWithToken(
+        CampaignParams memory params,
+        Location memory location,
+        ScheduleTiming memory timing,
+        address token
+    ) external nonReentrant returns (uint256) {
+        uint256 requiredFunding = _prepareSchedule(params, timing, _minimumTokenBounty(token));
+
+        uint256 campaignId = _storeCampaign(params, requiredFunding);
+        IBountyPool(bountyPoolAddress).depositTokenCampaignBudget(campaignId, token, msg.sender, requiredFunding);
+
+        return _storeSchedule(campaignId, location, timing);
+    }
+
+    /**
+     * @notice Spawn a task for every occurrence whose start time has arrived
+     * @dev Callable by anyone, so keepers can drive schedules. Occurrences whose whole
+     *      window passed before anyone spawned them are skipped and stay in the campaign pot
+     * @param scheduleId The ID of the schedule
+     * @return spawned Number of tasks created
+     */
+    function spawnDue(uint256 scheduleId) external nonReentrant returns (uint256 spawned) {
+        Schedule storage schedule = schedules[scheduleId];
+        if (schedule.id == 0) {
+            revert InvalidScheduleId(scheduleId);
+        }
+
+        uint256 campaignId = schedule.campaignId;
+        if (campaigns[campaignId].closed) {
+            revert CampaignNotOpen(campaignId);
+        }
+
+        ScheduleTiming memory timing = schedule.timing;
+        uint256 occurrence = schedule.nextOccurrence;
+
+        while (occurrence < timing.occurrences) {
+            uint256 startTime = timing.startTime + occurrence * timing.interval;
+            if (startTime > block.timestamp) {
+                break;
+            }
+
+            uint256 deadline = startTime + timing.taskDuration;
+            if (deadline > block.timestamp) {
+                uint256 taskId = _spawnCampaignTask(campaignId, schedule.location, deadline);
+                emit ScheduleOccurrenceSpawned(scheduleId, occurrence, taskId);
+                spawned++;
+            } else {
+                emit ScheduleOccurrenceSkipped(scheduleId, occurrence);
+            }
+
+            occurrence++;
+        }
+
+        if (occurrence == schedule.nextOccurrence) {
+            revert NoOccurrenceDue(scheduleId, occurrence);
+        }
+
+        schedule.nextOccurrence = occurrence;
+    }
+
+    /**
+     * @notice Validate a schedule and derive its campaign deadline
+     * @dev Sets params.deadline to the last occurrence's deadline
+     * @param params Shared task settings
+     * @param timing Schedule timing
+     * @param minimumBounty Minimum bounty in the funding token's units
+     * @return requiredFunding Escrow for every occurrence
+     */
+    function _prepareSchedule(
+        CampaignParams memory params,
+        ScheduleTiming memory timing,
+        uint256 minimumBounty
+    ) private view returns (uint256) {
+        if (timing.occurrences == 0 || timing.taskDuration == 0 || (timing.occurrences > 1 && timing.interval == 0)) {
+            revert InvalidSchedule();
+        }
+
+        params.deadline = timing.startTime + (timing.occurrences - 1) * timing.interval + timing.taskDuration;
+        _validateNewTask(params.bountyAmount, minimumBounty, params.deadline);
+
+        return params.bountyAmount * params.workersPerLocation * timing.occurrences;
+    }
+
+    /**
+     * @notice Store a new schedule for a funded campaign
+     * @param campaignId The ID of the backing campaign
+     * @param location Location of every occurrence
+     * @param timing Schedule timing
+     * @return scheduleId The ID of the stored schedule
+     */
+    function _storeSchedule(
+        uint256 campaignId,
+        Location memory location,
+        ScheduleTiming memory timing
+    ) private returns (uint256) {
+        uint256 scheduleId = ++scheduleIdCounter;
+
+        Schedule storage schedule = schedules[scheduleId];
+        schedule.id = scheduleId;
+        schedule.campaignId = campaignId;
+        schedule.location = location;
+        schedule.timing = timing;
+        campaignSchedules[campaignId] = scheduleId;
+
+        emit ScheduleCreated(scheduleId, campaignId, msg.sender, timing.startTime, timing.interval, timing.occurrences);
+
+        return scheduleId;
+    }
+
     /**
      * @notice Claim a task
      * @param taskId The ID of the task to claim
      * @return success True if claim was successful
      */
     function claimTask(uint256 taskId) external nonReentrant returns (bool) {
-        Task storage task = tasks[taskId];
-        
-        if (task.id != taskId) {
-            revert InvalidTaskId(taskId);
-        }
+        Task storage task = _getTask(taskId);
         
-        if (task.status != TaskStatus.ACTIVE) {
+        // Later workers claim while the task is already in progress
+        if (task.status != TaskStatus.ACTIVE && task.status != TaskStatus.IN_PROGRESS) {
             revert TaskNotActive(taskId);
         }
         
         if (block.timestamp > task.deadline) {
             revert DeadlineExpired(taskId, task.deadline);
         }
-        
-        if (taskClaims[taskId][msg.sender].worker != address(0)) {
-            revert WorkerAlreadyClaimed(msg.sender, taskId);
+        
+        if (taskClaims[taskId][msg.sender].worker != address(0)) {
+            revert WorkerAlreadyClaimed(msg.sender, taskId);
+        }
+        
+        if (workerActiveTasks[msg.sender].length >= MAX_ACTIVE_TASKS_PER_WORKER) {
+            revert MaxActiveTasksReached(msg.sender);
+        }
+
+        _checkRequirements(task.requirements, msg.sender);
+
+        // Check if max workers reached
+        if (taskWorkers[taskId].length >= task.maxWorkers) {
+            revert TaskNotActive(taskId);
+        }
+
+        _lockCollateral(taskId, msg.sender);
+
+        // Create claim
+        taskClaims[taskId][msg.sender] = TaskClaim({
+            worker: msg.sender,
+            claimedAt: block.timestamp,
+            completed: false
+        });
+
+        // Add to worker's active tasks
+        workerActiveTasks[msg.sender].push(taskId);
+        
+        // Add to task workers
+        taskWorkers[taskId].push(msg.sender);
+
+        // Update task status if first claim
+        if (task.status == TaskStatus.ACTIVE && taskWorkers[taskId].length > 0) {
+            _setTaskStatus(task, TaskStatus.IN_PROGRESS);
+        }
+
+        emit TaskClaimed(taskId, msg.sender, block.timestamp);
+
+        return true;
+    }
+
+    /**
+     * @notice Give up a claim before submitting, freeing the slot for another worker
+     * @dev Counts as a no-show for reputation, the same as letting the claim time out
+     * @param taskId The ID of the task
+     */
+    function abandonClaim(uint256 taskId) external nonReentrant {
+        TaskClaim storage claim = taskClaims[taskId][msg.sender];
+
+        if (claim.worker == address(0) || claim.completed) {
+            revert TaskNotClaimed(msg.sender, taskId);
+        }
+
+        _releaseClaim(taskId, msg.sender, false);
+    }
+
+    /**
+     * @notice Release every claim on a task that passed TASK_COMPLETION_TIMEOUT without a submission
+     * @dev Permissionless so keepers or other workers can free stuck slots
+     * @param taskId The ID of the task
+     * @return released Number of claims released
+     */
+    function releaseExpiredClaims(uint256 taskId) external nonReentrant returns (uint256 released) {
+        _getTask(taskId);
+
+        address[] storage workers = taskWorkers[taskId];
+
+        // Walk backwards so swap-and-pop removals never skip a worker
+        for (uint256 i = workers.length; i > 0; i--) {
+            TaskClaim storage claim = taskClaims[taskId][workers[i - 1]];
+            if (!claim.completed && block.timestamp > claim.claimedAt + TASK_COMPLETION_TIMEOUT) {
+                _releaseClaim(taskId, workers[i - 1], true);
+                released++;
+            }
+        }
+    }
+
+    /**
+     * @notice Drop an unfinished claim, free the worker's and the task's slots and penalise the no-show
+     * @param taskId The ID of the task
+     * @param worker Worker address
+     * @param timedOut True when released for passing TASK_COMPLETION_TIMEOUT
+     */
+    function _releaseClaim(uint256 taskId, address worker, bool timedOut) private {
+        Task storage task = tasks[taskId];
+
+        delete taskClaims[taskId][worker];
+        _removeActiveTask(worker, taskId);
+        _removeTaskWorker(taskId, worker);
+
+        // Reopen the task once its last claim is gone
+        if (task.status == TaskStatus.IN_PROGRESS && taskWorkers[taskId].length == 0) {
+            _setTaskStatus(task, TaskStatus.ACTIVE);
+        }
+
+        if (antiFraudAddress != address(0)) {
+            IAntiFraud(antiFraudAddress).releaseStake(worker, taskId);
+        }
+
+        if (reputationContractAddress != address(0)) {
+            IReputationContract(reputationContractAddress).recordAbandonedClaim(worker);
+        }
+
+        emit ClaimReleased(taskId, worker, timedOut);
+    }
+
+    /**
+     * @notice Check a worker's reputation and badges against a task's requirements
+     * @param requirements Task requirements
+     * @param worker Worker address
+     */
+    function _checkRequirements(TaskRequirements storage requirements, address worker) private view {
+        if (requirements.minReputation == 0 && !requirements.requiresBadge) {
+            return;
+        }
+
+        if (reputationContractAddress == address(0)) {
+            revert ReputationContractNotSet();
+        }
+
+        IReputationContract reputation = IReputationContract(reputationContractAddress);
+
+        uint256 score = reputation.getReputationScore(worker);
+        if (score < requirements.minReputation) {
+            revert InsufficientReputation(worker, score, requirements.minReputation);
         }
-        
-        if (workerActiveTasks[msg.sender].length >= MAX_ACTIVE_TASKS_PER_WORKER) {
-            revert MaxActiveTasksReached(msg.sender);
+
+        if (requirements.requiresBadge && !reputation.hasCategoryBadge(worker, requirements.requiredBadge)) {
+            revert MissingCategoryBadge(worker, requirements.requiredBadge);
         }
+    }
 
-        // Check if max workers reached
-        if (taskWorkers[taskId].length >= task.maxWorkers) {
-            revert TaskNotActive(taskId);
+    /**
+     * @notice Lock the collateral the task and the worker's reputation tier require for this claim
+     * @dev Collateral already backing other open claims does not count
+     * @param taskId The ID of the task
+     * @param worker Worker address
+     */
+    function _lockCollateral(uint256 taskId, address worker) private {
+        uint256 required = getRequiredStake(taskId, worker);
+        if (required == 0) {
+            return;
         }
 
-        // Create claim
-        taskClaims[taskId][msg.sender] = TaskClaim({
-            worker: msg.sender,
-            claimedAt: block.timestamp,
-            completed: false
-        });
+        if (antiFraudAddress == address(0)) {
+            revert AntiFraudNotSet();
+        }
 
-        // Add to worker's active tasks
-        workerActiveTasks[msg.sender].push(taskId);
-        
-        // Add to task workers
-        taskWorkers[taskId].push(msg.sender);
+        // Reverts with InsufficientStakeBalance when the unlocked collateral falls short
+        IAntiFraud(antiFraudAddress).lockStake(worker, taskId, required);
+    }
 
-        // Update task status if first claim
-        if (task.status == TaskStatus.ACTIVE && taskWorkers[taskId].length > 0) {
-            task.status = TaskStatus.IN_PROGRESS;
+    /**
+     * @notice Require workers to post collateral before claiming a task
+     * @dev Only allowed before anyone has claimed the task
+     * @param taskId The ID of the task
+     * @param requiredStake Collateral required from each worker
+     */
+    function setTaskRequiredStake(uint256 taskId, uint256 requiredStake) external {
+        Task storage task = _getTask(taskId);
+
+        if (msg.sender != task.creator) {
+            revert UnauthorizedAccess(msg.sender);
         }
 
-        emit TaskClaimed(taskId, msg.sender, block.timestamp);
+        if (taskWorkers[taskId].length > 0) {
+            revert TaskHasClaims(taskId);
+        }
 
-        return true;
+        taskRequiredStake[taskId] = requiredStake;
+
+        emit TaskStakeRequirementUpdated(taskId, requiredStake);
+    }
+
+    /**
+     * @notice Get the collateral a worker must have posted to claim a task
+     * @param taskId The ID of the task
+     * @param worker Worker address
+     * @return requiredStake The larger of the task's and the reputation tier's requirement
+     */
+    function getRequiredStake(uint256 taskId, address worker) public view returns (uint256) {
+        uint256 required = taskRequiredStake[taskId];
+
+        if (collateralForLowReputation > required && reputationContractAddress != address(0)) {
+            uint256 score = IReputationContract(reputationContractAddress).getReputationScore(worker);
+            if (score < lowReputationThreshold) {
+                required = collateralForLowReputation;
+            }
+        }
+
+        return required;
     }
 
     /**
-     * @notice Submit task completion
+     * @notice Submit task completion and register it for peer verification
      * @param taskId The ID of the task
      * @param ipfsHash IPFS hash of submission data
      * @param submissionLocation Location where task was completed
-     * @return submissionId The ID of the submission
+     * @return submissionId The VerificationContract submission ID
      */
     function submitTaskCompletion(
         uint256 taskId,
         string memory ipfsHash,
         Location memory submissionLocation
     ) external nonReentrant returns (uint256) {
-        Task storage task = tasks[taskId];
-        
-        if (task.id != taskId) {
-            revert InvalidTaskId(taskId);
-        }
+        Task storage task = _getTask(taskId);
+        TaskClaim storage claim = taskClaims[taskId][msg.sender];
         
-        if (taskClaims[taskId][msg.sender].worker == address(0)) {
+        if (claim.worker == address(0)) {
             revert TaskNotClaimed(msg.sender, taskId);
         }
+
+        // One submission per claim: each one reserves and pays out a full bounty
+        if (claim.completed) {
+            revert SubmissionAlreadyMade(taskId, msg.sender);
+        }
         
         if (block.timestamp > task.deadline) {
             revert DeadlineExpired(taskId, task.deadline);
         }
 
+        if (verificationContractAddress == address(0)) {
+            revert VerificationContractNotSet();
+        }
+
         // Check if claim has expired (24 hours)
-        TaskClaim storage claim = taskClaims[taskId][msg.sender];
         if (block.timestamp > claim.claimedAt + TASK_COMPLETION_TIMEOUT) {
             revert DeadlineExpired(taskId, claim.claimedAt + TASK_COMPLETION_TIMEOUT);
         }
@@ -313,7 +1183,20 @@ contract TaskManager is Ownable, ReentrancyGuard {
         // Increment submission count
         task.submissionCount++;
 
-        uint256 submissionId = task.submissionCount;
+        // Queue the submission for peer verification with the per-worker bounty and category
+        uint256 submissionId = IVerificationContract(verificationContractAddress).createSubmission(
+            taskId,
+            msg.sender,
+            ipfsHash,
+            IVerificationContract.Location({
+                latitude: submissionLocation.latitude,
+                longitude: submissionLocation.longitude,
+                radius: submissionLocation.radius
+            }),
+            task.bountyAmount,
+            task.category
+        );
+        submissionIds[taskId][msg.sender] = submissionId;
 
         emit TaskSubmitted(taskId, msg.sender, ipfsHash, block.timestamp);
 
@@ -321,32 +1204,276 @@ contract TaskManager is Ownable, ReentrancyGuard {
     }
 
     /**
-     * @notice Expire a task that has passed its deadline
+     * @notice Record a submission that reached VERIFIED consensus
+     * @dev Completes the task once verified results fill every worker slot and refunds
+     *      escrow not reserved for verified submissions still awaiting payout
+     * @param taskId The ID of the task
+     */
+    function recordVerifiedSubmission(uint256 taskId) external nonReentrant {
+        if (msg.sender != verificationContractAddress) {
+            revert UnauthorizedAccess(msg.sender);
+        }
+
+        Task storage task = _getTask(taskId);
+
+        task.verifiedCount++;
+
+        emit SubmissionVerified(taskId, task.verifiedCount);
+
+        if (
+            task.verifiedCount >= task.maxWorkers &&
+            (task.status == TaskStatus.ACTIVE || task.status == TaskStatus.IN_PROGRESS)
+        ) {
+            _setTaskStatus(task, TaskStatus.COMPLETED);
+
+            emit TaskCompleted(taskId, block.timestamp);
+
+            _refundUnreservedBounty(taskId);
+        }
+    }
+
+    /**
+     * @notice Expire a task that has passed its deadline and refund its unspent escrow
+     * @dev Bounty reserved for submissions still awaiting verification stays in escrow
      * @param taskId The ID of the task to expire
      * @return success True if expiration was successful
      */
-    function expireTask(uint256 taskId) external returns (bool) {
-        Task storage task = tasks[taskId];
-        
-        if (task.id != taskId) {
-            revert InvalidTaskId(taskId);
-        }
+    function expireTask(uint256 taskId) external nonReentrant returns (bool) {
+        Task storage task = _getTask(taskId);
         
         if (block.timestamp <= task.deadline) {
             revert DeadlineExpired(taskId, task.deadline);
         }
         
-        if (task.status == TaskStatus.EXPIRED || task.status == TaskStatus.COMPLETED) {
+        if (
+            task.status == TaskStatus.EXPIRED ||
+            task.status == TaskStatus.COMPLETED ||
+            task.status == TaskStatus.CANCELLED
+        ) {
             return false;
         }
 
-        task.status = TaskStatus.EXPIRED;
+        _setTaskStatus(task, TaskStatus.EXPIRED);
 
         emit TaskExpired(taskId, block.timestamp);
 
+        _refundUnreservedBounty(taskId);
+
         return true;
     }
 
+    /**
+     * @notice Cancel a task that nobody has claimed and refund its escrow
+     * @param taskId The ID of the task to cancel
+     */
+    function cancelTask(uint256 taskId) external nonReentrant {
+        Task storage task = _getTask(taskId);
+
+        if (msg.sender != task.creator) {
+            revert UnauthorizedAccess(msg.sender);
+        }
+
+        if (taskWorkers[taskId].length > 0) {
+            revert TaskHasClaims(taskId);
+        }
+
+        if (task.status != TaskStatus.ACTIVE) {
+            revert TaskNotActive(taskId);
+        }
+
+        _setTaskStatus(task, TaskStatus.CANCELLED);
+
+        emit TaskCancelled(taskId, block.timestamp);
+
+        _refundUnreservedBounty(taskId);
+    }
+
+    /**
+     * @notice Push back an open task's deadline
+     * @dev Also revives a task whose deadline passed before anyone called expireTask
+     * @param taskId The ID of the task
+     * @param newDeadline New deadline timestamp
+     */
+    function extendDeadline(uint256 taskId, uint256 newDeadline) external {
+        Task storage task = _getOpenTaskForCreator(taskId);
+
+        if (newDeadline <= task.deadline || newDeadline <= block.timestamp) {
+            revert DeadlineNotExtended(newDeadline, task.deadline);
+        }
+
+        task.deadline = newDeadline;
+
+        emit TaskDeadlineExtended(taskId, newDeadline);
+    }
+
+    /**
+     * @notice Raise an open task's per-worker bounty
+     * @dev The creator funds the increase for every slot without a submission yet, in the
+     *      task's funding token; token top-ups must be approved to BountyPool beforehand
+     * @param taskId The ID of the task
+     * @param newBountyAmount New reward amount per worker
+     */
+    function increaseBounty(uint256 taskId, uint256 newBountyAmount) external payable nonReentrant {
+        Task storage task = _getOpenTaskForCreator(taskId);
+
+        if (newBountyAmount <= task.bountyAmount) {
+            revert BountyNotIncreased(newBountyAmount, task.bountyAmount);
+        }
+
+        // Saturates so a task with every slot submitted can still be raised without funding
+        uint256 openSlots = task.submissionCount < task.maxWorkers ? task.maxWorkers - task.submissionCount : 0;
+        uint256 funded = _fundTopUp(taskId, (newBountyAmount - task.bountyAmount) * openSlots);
+
+        task.bountyAmount = newBountyAmount;
+
+        emit TaskBountyIncreased(taskId, newBountyAmount, funded);
+    }
+
+    /**
+     * @notice Open more worker slots on an open task
+     * @dev The creator funds the current per-worker bounty for each new slot
+     * @param taskId The ID of the task
+     * @param additionalWorkers Number of slots to add
+     */
+    function addWorkerSlots(uint256 taskId, uint256 additionalWorkers) external payable nonReentrant {
+        Task storage task = _getOpenTaskForCreator(taskId);
+
+        if (additionalWorkers == 0) {
+            revert InvalidWorkerSlots(additionalWorkers);
+        }
+
+        uint256 funded = _fundTopUp(taskId, task.bountyAmount * additionalWorkers);
+
+        task.maxWorkers += additionalWorkers;
+
+        emit TaskWorkerSlotsAdded(taskId, task.maxWorkers, funded);
+    }
+
+    /**
+     * @notice Load an existing task
+     * @param taskId The ID of the task
+     * @return task The task
+     */
+    function _getTask(uint256 taskId) private view returns (Task storage task) {
+        task = tasks[taskId];
+
+        if (task.id != taskId) {
+            revert InvalidTaskId(taskId);
+        }
+    }
+
+    /**
+     * @notice Load a task the caller created that is still accepting work
+     * @param taskId The ID of the task
+     * @return task The task
+     */
+    function _getOpenTaskForCreator(uint256 taskId) private view returns (Task storage task) {
+        task = _getTask(taskId);
+
+        if (msg.sender != task.creator) {
+            revert UnauthorizedAccess(msg.sender);
+        }
+
+        if (task.status != TaskStatus.ACTIVE && task.status != TaskStatus.IN_PROGRESS) {
+            revert TaskNotActive(taskId);
+        }
+    }
+
+    /**
+     * @notice Escrow additional funding for a task in the token it was created with
+     * @param taskId The ID of the task
+     * @param amount Minimum additional funding
+     * @return funded The amount escrowed
+     */
+    function _fundTopUp(uint256 taskId, uint256 amount) private returns (uint256) {
+        address token = IBountyPool(bountyPoolAddress).getTaskToken(taskId);
+
+        if (token == address(0)) {
+            if (msg.value < amount) {
+                revert InsufficientFunding(msg.value, amount);
+            }
+            IBountyPool(bountyPoolAddress).depositBounty{value: msg.value}(taskId);
+            return msg.value;
+        }
+
+        if (msg.value > 0) {
+            revert NativeValueNotAccepted(msg.value);
+        }
+        IBountyPool(bountyPoolAddress).depositTokenBounty(taskId, token, msg.sender, amount);
+        return amount;
+    }
+
+    /**
+     * @notice Reclaim escrow released after a closed task's pending submissions were settled
+     * @param taskId The ID of the task
+     * @return amount The amount refunded, before platform fees
+     */
+    function reclaimBounty(uint256 taskId) external nonReentrant returns (uint256) {
+        Task storage task = _getTask(taskId);
+
+        if (msg.sender != task.creator) {
+            revert UnauthorizedAccess(msg.sender);
+        }
+
+        if (
+            task.status != TaskStatus.EXPIRED &&
+            task.status != TaskStatus.CANCELLED &&
+            task.status != TaskStatus.COMPLETED
+        ) {
+            revert TaskNotClosed(taskId);
+        }
+
+        uint256 amount = _refundUnreservedBounty(taskId);
+        if (amount == 0) {
+            revert NothingToReclaim(taskId);
+        }
+
+        return amount;
+    }
+
+    /**
+     * @notice Get the escrow a closed task's creator can currently reclaim
+     * @param taskId The ID of the task
+     * @return amount Refundable escrow, before platform fees
+     */
+    function getReclaimableBounty(uint256 taskId) public view returns (uint256) {
+        TaskStatus status = tasks[taskId].status;
+        if (status != TaskStatus.EXPIRED && status != TaskStatus.CANCELLED && status != TaskStatus.COMPLETED) {
+            return 0;
+        }
+
+        uint256 escrowed = IBountyPool(bountyPoolAddress).getTaskBounty(taskId);
+        uint256 reserved = verificationContractAddress == address(0)
+            ? 0
+            : IVerificationContract(verificationContractAddress).getReservedBounty(taskId);
+
+        return escrowed > reserved ? escrowed - reserved : 0;
+    }
+
+    /**
+     * @notice Refund a closed task's escrow that is not reserved for pending submissions
+     * @dev Expired and cancelled tasks pay the refund fee; a completed task's leftover is returned in full
+     * @param taskId The ID of the task
+     * @return amount The amount refunded, before platform fees
+     */
+    function _refundUnreservedBounty(uint256 taskId) private returns (uint256) {
+        uint256 amount = getReclaimableBounty(taskId);
+        if (amount == 0) {
+            return 0;
+        }
+
+        address creator = tasks[taskId].creator;
+        if (tasks[taskId].status == TaskStatus.COMPLETED) {
+            IBountyPool(bountyPoolAddress).refundCompletedBounty(taskId, creator, amount);
+        } else {
+            IBountyPool(bountyPoolAddress).refundBounty(taskId, creator, amount);
+        }
+
+        emit BountyReclaimed(taskId, creator, amount);
+
+        return amount;
+    }
+
     /**
      * @notice Check if a location is within the required radius
      * @param required Required location
@@ -389,6 +1516,22 @@ contract TaskManager is Ownable, ReentrancyGuard {
         }
     }
 
+    /**
+     * @notice Remove a worker from a task's workers
+     * @param taskId Task ID
+     * @param worker Worker address to remove
+     */
+    function _removeTaskWorker(uint256 taskId, address worker) private {
+        address[] storage workers = taskWorkers[taskId];
+        for (uint256 i = 0; i < workers.length; i++) {
+            if (workers[i] == worker) {
+                workers[i] = workers[workers.length - 1];
+                workers.pop();
+                break;
+            }
+        }
+    }
+
     /**
      * @notice Get task details
      * @param taskId The ID of the task
@@ -398,6 +1541,140 @@ contract TaskManager is Ownable, ReentrancyGuard {
         return tasks[taskId];
     }
 
+    /**
+     * @notice Get the number of tasks ever created
+     * @return count The task count
+     */
+    function getTaskCount() external view returns (uint256) {
+        return taskIdCounter;
+    }
+
+    /**
+     * @notice Get a page of task IDs with a given status, most recently indexed first
+     * @dev Tasks are moved between status indexes by swap-and-pop, so a page can shift
+     *      when tasks change status between calls
+     * @param status The task status
+     * @param offset Number of tasks to skip
+     * @param limit Maximum number of tasks to return
+     * @return page Task IDs in the page
+     * @return total Number of tasks with the status
+     */
+    function getTasksByStatus(
+        TaskStatus status,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory page, uint256 total) {
+        return _getTaskPage(tasksByStatus[status], offset, limit);
+    }
+
+    /**
+     * @notice Get a page of a creator's task IDs, newest first
+     * @param creator Creator address
+     * @param offset Number of tasks to skip
+     * @param limit Maximum number of tasks to return
+     * @return page Task IDs in the page
+     * @return total Number of tasks the creator has created
+     */
+    function getTasksByCreator(
+        address creator,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory page, uint256 total) {
+        return _getTaskPage(creatorTasks[creator], offset, limit);
+    }
+
+    /**
+     * @notice Read a page of task IDs from an index, starting at its end
+     * @param taskIds The task index
+     * @param offset Number of tasks to skip from the end
+     * @param limit Maximum number of tasks to return
+     * @return page Task IDs in the page
+     * @return total Length of the index
+     */
+    function _getTaskPage(
+        uint256[] storage taskIds,
+        uint256 offset,
+        uint256 limit
+    ) private view returns (uint256[] memory page, uint256 total) {
+        total = taskIds.length;
+        uint256 count = offset >= total ? 0 : total - offset;
+        if (count > limit) {
+            count = limit;
+        }
+
+        page = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = taskIds[total - 1 - offset - i];
+        }
+    }
+
+    /**
+     * @notice Get a campaign's settings and funding
+     * @param campaignId The ID of the campaign
+     * @return campaign The campaign details
+     */
+    function getCampaign(uint256 campaignId) external view returns (Campaign memory) {
+        return campaigns[campaignId];
+    }
+
+    /**
+     * @notice Get the tasks created for a campaign
+     * @param campaignId The ID of the campaign
+     * @return taskIds Array of task IDs
+     */
+    function getCampaignTasks(uint256 campaignId) external view returns (uint256[] memory) {
+        return campaignTasks[campaignId];
+    }
+
+    /**
+     * @notice Report how much of a campaign's budget has been spent and how much remains
+     * @param campaignId The ID of the campaign
+     * @return report Budget, allocation, spending and remaining totals
+     */
+    function getCampaignReport(uint256 campaignId) external view returns (CampaignReport memory report) {
+        Campaign storage campaign = campaigns[campaignId];
+        if (campaign.id == 0) {
+            revert InvalidCampaignId(campaignId);
+        }
+
+        (uint256 spent, uint256 refunded) = IBountyPool(bountyPoolAddress).getCampaignSpending(campaignId);
+
+        report.budget = campaign.budget;
+        report.allocated = campaign.allocated;
+        report.unallocated = IBountyPool(bountyPoolAddress).getCampaignBudget(campaignId);
+        report.spent = spent;
+        report.refunded = refunded;
+        report.remaining = campaign.budget - spent - refunded;
+        report.taskCount = campaignTasks[campaignId].length;
+    }
+
+    /**
+     * @notice Get a schedule's location, timing and progress
+     * @param scheduleId The ID of the schedule
+     * @return schedule The schedule details
+     */
+    function getSchedule(uint256 scheduleId) external view returns (Schedule memory) {
+        return schedules[scheduleId];
+    }
+
+    /**
+     * @notice Get a task's creator
+     * @param taskId The ID of the task
+     * @return creator The creator address
+     */
+    function getTaskCreator(uint256 taskId) external view returns (address) {
+        return tasks[taskId].creator;
+    }
+
+    /**
+     * @notice Get a task's category
+     * @param taskId The ID of the task
+     * @return category The task category
+     */
+    function getTaskCategory(uint256 taskId) external view returns (TaskCategory) {
+        return tasks[taskId].category;
+    }
+
     /**
      * @notice Get worker's active tasks
      * @param worker Worker address
@@ -425,4 +1702,43 @@ contract TaskManager is Ownable, ReentrancyGuard {
     function hasWorkerClaimed(uint256 taskId, address worker) external view returns (bool) {
         return taskClaims[taskId][worker].worker != address(0);
     }
+
+    /**
+     * @notice Check whether a worker meets a task's reputation and badge requirements
+     * @param taskId Task ID
+     * @param worker Worker address
+     * @return score The worker's reputation score
+     * @return meetsReputation True if the score satisfies minReputation
+     * @return hasRequiredBadge True if no badge is required or the worker holds it
+     */
+    function getClaimEligibility(uint256 taskId, address worker) external view returns (
+        uint256 score,
+        bool meetsReputation,
+        bool hasRequiredBadge
+    ) {
+        TaskRequirements storage requirements = tasks[taskId].requirements;
+
+        if (reputationContractAddress == address(0)) {
+            return (0, requirements.minReputation == 0, !requirements.requiresBadge);
+        }
+
+        IReputationContract reputation = IReputationContract(reputationContractAddress);
+        score = reputation.getReputationScore(worker);
+        meetsReputation = score >= requirements.minReputation;
+        hasRequiredBadge = !requirements.requiresBadge ||
+            reputation.hasCategoryBadge(worker, requirements.requiredBadge);
+    }
+
+    /**
+     * @notice Get the VerificationContract submission ID for a worker's submission
+     * @param taskId Task ID
+     * @param worker Worker address
+     * @return submissionId The submission ID
+     */
+    function getSubmissionId(uint256 taskId, address worker) external view returns (uint256) {
+        if (!taskClaims[taskId][worker].completed) {
+            revert SubmissionNotFound(worker, taskId);
+        }
+        return submissionIds[taskId][worker];
+    }
 }
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @notice Task categories shared by TaskManager, ReputationContract and VerificationContract
+ * @dev Category indexes are stored on-chain (tasks, badges), so only ever append new values
+ */
+enum TaskCategory {
+    PHOTO_VERIFICATION,
+    LOCATION_CHECK,
+    SURVEY,
+    PRICE_MONITORING,
+    BUSINESS_HOURS
+}
@@ -3,18 +3,24 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./TaskTypes.sol";
 
 interface IBountyPool {
     function distributeReward(uint256 taskId, address worker, uint256 amount) external;
 }
 
 interface IReputationContract {
-    function updateWorkerReputation(address worker, bool successful) external;
+    function updateWorkerReputationWithCategory(address worker, TaskCategory category, bool successful) external;
     function updateVerifierReputation(address verifier, bool accurateVote) external;
 }
 
 interface IAntiFraud {
-    function forfeitStake(address worker, string memory reason) external;
+    function forfeitStake(address worker, uint256 taskId, string memory reason) external returns (uint256);
+    function releaseStake(address worker, uint256 taskId) external returns (uint256);
+}
+
+interface ITaskManager {
+    function recordVerifiedSubmission(uint256 taskId) external;
 }
 
 /**
@@ -50,6 +56,7 @@ contract VerificationContract is Ownable, ReentrancyGuard {
         uint256 totalVotes;
         uint256 bountyAmount;
         bool rewardDistributed;
+        TaskCategory category;
     }
 
     struct Vote {
@@ -66,6 +73,7 @@ contract VerificationContract is Ownable, ReentrancyGuard {
     uint256 public constant VERIFICATION_REWARD_PERCENTAGE = 1000; // 10% (basis points)
     uint256 public constant BASIS_POINTS = 10000;
     uint256 public constant REWARD_DISTRIBUTION_DELAY = 5 minutes;
+    uint256 public constant DISPUTE_RESOLUTION_TIMEOUT = 7 days;
 
     // State variables
     uint256 private submissionIdCounter;
@@ -73,6 +81,14 @@ contract VerificationContract is Ownable, ReentrancyGuard {
     mapping(uint256 => mapping(address => Vote)) public verificationVotes;
     mapping(uint256 => address[]) public submissionVerifiers;
     mapping(uint256 => uint256) public consensusReachedAt;
+    mapping(uint256 => uint256) public reservedBounty; // taskId => bounty locked by unsettled submissions
+    mapping(uint256 => mapping(address => bool)) public hasSubmitted; // taskId => worker => submission created
+    mapping(uint256 => uint256) public disputedAt;
+    mapping(address => bool) public arbiters;
+    uint256 public contestedMargin; // a consensus won by this many votes or fewer is escalated; 0 never escalates
+    uint256 public verifierRewardPool; // declared funding for rewards that slashed stakes cannot cover
+    uint256 public slashedStakeSurplus; // slashed stakes and rounding dust left after paying rewards
+    mapping(address => uint256) public pendingWithdrawals; // verifier => credited stake and rewards
     
     address public bountyPoolAddress;
     address public reputationContractAddress;
@@ -121,11 +137,61 @@ contract VerificationContract is Ownable, ReentrancyGuard {
         uint256 currentVotes
     );
 
+    event DisputeResolved(
+        uint256 indexed submissionId,
+        address indexed arbiter, // address(0) when settled by the timeout fallback
+        bool approved
+    );
+
+    event ArbiterUpdated(
+        address indexed arbiter,
+        bool enabled
+    );
+
+    event ContestedMarginUpdated(uint256 margin);
+
+    event SlashedStakesAllocated(
+        uint256 indexed submissionId,
+        uint256 slashedAmount,
+        uint256 rewardPoolUsed,
+        uint256 surplus
+    );
+
+    event VerifierRewardPoolFunded(
+        address indexed from,
+        uint256 amount,
+        uint256 poolBalance
+    );
+
+    event VerifierRewardPoolWithdrawn(
+        address indexed to,
+        uint256 amount,
+        uint256 poolBalance
+    );
+
+    event EarningsCredited(
+        address indexed account,
+        uint256 amount
+    );
+
+    event EarningsWithdrawn(
+        address indexed account,
+        uint256 amount
+    );
+
+    event SlashedStakeSurplusWithdrawn(
+        address indexed to,
+        uint256 amount,
+        uint256 remainingSurplus
+    );
+
     // Custom errors
     error InsufficientStake(uint256 provided, uint256 required);
     error AlreadyVoted(address verifier, uint256 submissionId);
+    error AlreadyStaked(address verifier, uint256 submissionId);
     error SubmissionNotFound(uint256 submissionId);
     error AlreadyVerified(uint256 submissionId);
+    error DuplicateSubmission(uint256 taskId, address worker);
     error ConsensusNotReached(uint256 submissionId);
     error MaxVerifiersReached(uint256 submissionId);
     error RewardAlreadyDistributed(uint256 submissionId);
@@ -133,6 +199,12 @@ contract VerificationContract is Ownable, ReentrancyGuard {
     error UnauthorizedCaller(address caller);
     error InvalidAddress(address addr);
     error WorkerCannotVerifyOwnSubmission(address worker);
+    error NotDisputed(uint256 submissionId);
+    error InvalidContestedMargin(uint256 margin);
+    error DisputeTimeoutNotReached(uint256 submissionId, uint256 timeRemaining);
+    error InsufficientBalance(uint256 requested, uint256 available);
+    error NothingToWithdraw(address account);
+    error TransferFailed(address recipient, uint256 amount);
 
     // Modifiers
     modifier onlyTaskManager() {
@@ -188,6 +260,34 @@ contract VerificationContract is Ownable, ReentrancyGuard {
         antiFraudAddress = _antiFraud;
     }
 
+    /**
+     * @notice Add or remove a dispute arbiter
+     * @param arbiter Address of the arbiter
+     * @param enabled Whether the address may rule on disputes
+     */
+    function setArbiter(address arbiter, bool enabled) external onlyOwner {
+        if (arbiter == address(0)) {
+            revert InvalidAddress(arbiter);
+        }
+        arbiters[arbiter] = enabled;
+        emit ArbiterUpdated(arbiter, enabled);
+    }
+
+    /**
+     * @notice Set how close a consensus may be before it is escalated to an arbiter
+     * @dev Behaviour change when raised above the default of 0: the first side to reach
+     *      CONSENSUS_THRESHOLD then no longer settles on its own if the other side is within
+     *      `margin` votes. With 1, every 3-2 split goes to dispute while 3-0 and 3-1 still settle.
+     * @param margin Largest winning margin that is escalated, below CONSENSUS_THRESHOLD
+     */
+    function setContestedMargin(uint256 margin) external onlyOwner {
+        if (margin >= CONSENSUS_THRESHOLD) {
+            revert InvalidContestedMargin(margin);
+        }
+        contestedMargin = margin;
+        emit ContestedMarginUpdated(margin);
+    }
+
     /**
      * @notice Create a new submission
      * @param taskId The ID of the task
@@ -195,6 +295,7 @@ contract VerificationContract is Ownable, ReentrancyGuard {
      * @param ipfsHash IPFS hash of submission data
      * @param location Location of submission
      * @param bountyAmount Bounty amount for the task
+     * @param category Category of the task, used for badge tracking
      * @return submissionId The ID of the created submission
      */
     function createSubmission(
@@ -202,8 +303,14 @@ contract VerificationContract is Ownable, ReentrancyGuard {
         address worker,
         string memory ipfsHash,
         Location memory location,
-        uint256 bountyAmount
+        uint256 bountyAmount,
+        TaskCategory category
     ) external onlyTaskManager returns (uint256) {
+        if (hasSubmitted[taskId][worker]) {
+            revert DuplicateSubmission(taskId, worker);
+        }
+        hasSubmitted[taskId][worker] = true;
+
         uint256 submissionId = submissionIdCounter++;
 
         submissions[submissionId] = Submission({
@@ -218,9 +325,13 @@ contract VerificationContract is Ownable, ReentrancyGuard {
             rejectionCount: 0,
             totalVotes: 0,
             bountyAmount: bountyAmount,
-            rewardDistributed: false
+            rewardDistributed: false,
+            category: category
         });
 
+        // Keep this submission's bounty out of any refund until it settles
+        reservedBounty[taskId] += bountyAmount;
+
         emit SubmissionCreated(submissionId, taskId, worker, ipfsHash);
 
         return submissionId;
@@ -237,13 +348,20 @@ contract VerificationContract is Ownable, ReentrancyGuard {
             revert SubmissionNotFound(submissionId);
         }
         
-        if (submission.status != VerificationStatus.PENDING && submission.status != VerificationStatus.DISPUTED) {
+        // Disputed submissions no longer take votes, so a new stake could never be used
+        if (submission.status != VerificationStatus.PENDING) {
             revert AlreadyVerified(submissionId);
         }
         
-        if (verificationVotes[submissionId][msg.sender].hasVoted) {
+        Vote storage vote = verificationVotes[submissionId][msg.sender];
+
+        if (vote.hasVoted) {
             revert AlreadyVoted(msg.sender, submissionId);
         }
+
+        if (vote.stake > 0) {
+            revert AlreadyStaked(msg.sender, submissionId);
+        }
         
         if (submissionVerifiers[submissionId].length >= MAX_VERIFIERS) {
             revert MaxVerifiersReached(submissionId);
@@ -258,7 +376,7 @@ contract VerificationContract is Ownable, ReentrancyGuard {
         }
 
         // Record stake
-        verificationVotes[submissionId][msg.sender].stake = msg.value;
+        vote.stake = msg.value;
         submissionVerifiers[submissionId].push(msg.sender);
 
         emit VerificationStaked(submissionId, msg.sender, msg.value);
@@ -290,6 +408,12 @@ contract VerificationContract is Ownable, ReentrancyGuard {
             revert AlreadyVoted(msg.sender, submissionId);
         }
 
+        // Votes only count while the outcome is open; settled and disputed
+        // submissions are final or awaiting an arbiter
+        if (submission.status != VerificationStatus.PENDING) {
+            revert AlreadyVerified(submissionId);
+        }
+
         // Record vote
         vote.hasVoted = true;
         vote.approved = approved;
@@ -311,33 +435,127 @@ contract VerificationContract is Ownable, ReentrancyGuard {
 
     /**
      * @notice Check if consensus has been reached
+     * @dev A side reaching CONSENSUS_THRESHOLD settles the submission unless the other side
+     *      is within contestedMargin votes (e.g. 3-2 with a margin of 1), in which case an arbiter decides
      * @param submissionId The ID of the submission
      */
     function _checkConsensus(uint256 submissionId) private {
         Submission storage submission = submissions[submissionId];
+        uint256 approvals = submission.approvalCount;
+        uint256 rejections = submission.rejectionCount;
+
+        if (approvals < CONSENSUS_THRESHOLD && rejections < CONSENSUS_THRESHOLD) {
+            return;
+        }
+
+        uint256 margin = approvals > rejections ? approvals - rejections : rejections - approvals;
+        if (margin <= contestedMargin) {
+            submission.status = VerificationStatus.DISPUTED;
+            disputedAt[submissionId] = block.timestamp;
+            emit DisputeEscalated(submissionId, submission.totalVotes);
+            return;
+        }
+
+        _settle(submissionId, approvals > rejections);
+    }
+
+    /**
+     * @notice Issue the final ruling on a disputed submission
+     * @param submissionId The ID of the submission
+     * @param approved Whether the submission is approved
+     */
+    function resolveDispute(uint256 submissionId, bool approved) external nonReentrant {
+        if (!arbiters[msg.sender]) {
+            revert UnauthorizedCaller(msg.sender);
+        }
+
+        _requireDisputed(submissionId);
+
+        _settle(submissionId, approved);
+
+        emit DisputeResolved(submissionId, msg.sender, approved);
+    }
+
+    /**
+     * @notice Settle a dispute no arbiter ruled on within DISPUTE_RESOLUTION_TIMEOUT
+     * @dev Falls back to the simple majority of votes cast; a tie rejects the submission
+     * @param submissionId The ID of the submission
+     */
+    function resolveExpiredDispute(uint256 submissionId) external nonReentrant {
+        _requireDisputed(submissionId);
+
+        uint256 resolvableAt = disputedAt[submissionId] + DISPUTE_RESOLUTION_TIMEOUT;
+        if (block.timestamp < resolvableAt) {
+            revert DisputeTimeoutNotReached(submissionId, resolvableAt - block.timestamp);
+        }
+
+        Submission storage submission = submissions[submissionId];
+        bool approved = submission.approvalCount > submission.rejectionCount;
+
+        _settle(submissionId, approved);
+
+        emit DisputeResolved(submissionId, address(0), approved);
+    }
+
+    /**
+     * @notice Revert unless a submission exists and is awaiting a dispute ruling
+     * @param submissionId The ID of the submission
+     */
+    function _requireDisputed(uint256 submissionId) private view {
+        Submission storage submission = submissions[submissionId];
+
+        if (submission.id != submissionId) {
+            revert SubmissionNotFound(submissionId);
+        }
+
+        if (submission.status != VerificationStatus.DISPUTED) {
+            revert NotDisputed(submissionId);
+        }
+    }
+
+    /**
+     * @notice Record the final outcome of a submission, whether reached by
+     *         consensus or by dispute ruling
+     * @param submissionId The ID of the submission
+     * @param approved Whether the submission is approved
+     */
+    function _settle(uint256 submissionId, bool approved) private {
+        Submission storage submission = submissions[submissionId];
 
-        // Check if consensus threshold reached
-        if (submission.approvalCount >= CONSENSUS_THRESHOLD) {
+        if (approved) {
             submission.status = VerificationStatus.VERIFIED;
             consensusReachedAt[submissionId] = block.timestamp;
             emit ConsensusReached(submissionId, VerificationStatus.VERIFIED, block.timestamp);
             
-            // Update worker reputation
+            // Update worker reputation and category stats
             if (reputationContractAddress != address(0)) {
-                IReputationContract(reputationContractAddress).updateWorkerReputation(
+                IReputationContract(reputationContractAddress).updateWorkerReputationWithCategory(
                     submission.worker,
+                    submission.category,
                     true
                 );
             }
-        } else if (submission.rejectionCount >= CONSENSUS_THRESHOLD) {
+
+            // Return the collateral that backed the claim
+            if (antiFraudAddress != address(0)) {
+                IAntiFraud(antiFraudAddress).releaseStake(submission.worker, submission.taskId);
+            }
+
+            // Let TaskManager count the result and complete the task once every slot is verified
+            if (taskManagerAddress != address(0)) {
+                ITaskManager(taskManagerAddress).recordVerifiedSubmission(submission.taskId);
+            }
+        } else {
             submission.status = VerificationStatus.REJECTED;
             consensusReachedAt[submissionId] = block.timestamp;
+            reservedBounty[submission.taskId] -= submission.bountyAmount;
             emit ConsensusReached(submissionId, VerificationStatus.REJECTED, block.timestamp);
             
-            // Update worker reputation
+            // Update worker reputation and category stats
             if (reputationContractAddress != address(0)) {
-                IReputationContract(reputationContractAddress).updateWorkerReputation(
+                IReputationContract(reputationContractAddress).updateWorkerReputationWithCategory(
                     submission.worker,
+                    submission.category,
                     false
                 );
             }
@@ -346,13 +564,10 @@ contract VerificationContract is Ownable, ReentrancyGuard {
             if (antiFraudAddress != address(0)) {
                 IAntiFraud(antiFraudAddress).forfeitStake(
                     submission.worker,
+                    submission.taskId,
                     "Submission rejected by consensus"
                 );
             }
-        } else if (submission.totalVotes >= MAX_VERIFIERS) {
-            // Escalation: max verifiers reached without consensus
-            submission.status = VerificationStatus.DISPUTED;
-            emit DisputeEscalated(submissionId, submission.totalVotes);
         }
     }
 
@@ -384,6 +599,7 @@ contract VerificationContract is Ownable, ReentrancyGuard {
 
         // Distribute worker reward if verified
         if (submission.status == VerificationStatus.VERIFIED && bountyPoolAddress != address(0)) {
+            reservedBounty[submission.taskId] -= submission.bountyAmount;
             IBountyPool(bountyPoolAddress).distributeReward(
                 submission.taskId,
                 submission.worker,
@@ -398,31 +614,55 @@ contract VerificationContract is Ownable, ReentrancyGuard {
 
     /**
      * @notice Distribute rewards to verifiers
+     * @dev Majority voters get their stake back plus up to 10% reward, funded pro rata from
+     *      the slashed minority stakes first and the verifier reward pool second. Stakers who
+     *      never voted get their stake back without a reward.
      * @param submissionId The ID of the submission
      */
     function _distributeVerifierRewards(uint256 submissionId) private {
         Submission storage submission = submissions[submissionId];
         address[] memory verifiers = submissionVerifiers[submissionId];
-        
-        uint256 totalReward = 0;
         bool consensusApproved = submission.status == VerificationStatus.VERIFIED;
 
+        uint256 majorityStake = 0;
+        uint256 slashedAmount = 0;
+        for (uint256 i = 0; i < verifiers.length; i++) {
+            Vote storage vote = verificationVotes[submissionId][verifiers[i]];
+            if (!vote.hasVoted) continue;
+
+            if (vote.approved == consensusApproved) {
+                majorityStake += vote.stake;
+            } else {
+                slashedAmount += vote.stake;
+            }
+        }
+
+        (uint256 rewardBudget, uint256 rewardPoolUsed) = _allocateRewardBudget(majorityStake, slashedAmount);
+
+        uint256 totalReward = 0;
+        uint256 rewardsPaid = 0;
         for (uint256 i = 0; i < verifiers.length; i++) {
             address verifier = verifiers[i];
             Vote storage vote = verificationVotes[submissionId][verifier];
-            
-            if (!vote.hasVoted) continue;
+
+            if (!vote.hasVoted) {
+                // Staked but never voted before settlement: return the stake only
+                if (vote.stake > 0) {
+                    totalReward += vote.stake;
+                    _credit(verifier, vote.stake);
+                }
+                continue;
+            }
 
             // Reward verifiers who voted with consensus
             bool votedWithConsensus = vote.approved == consensusApproved;
             
             if (votedWithConsensus) {
-                // Return stake + 10% reward
-                uint256 reward = vote.stake + (vote.stake * VERIFICATION_REWARD_PERCENTAGE / BASIS_POINTS);
-                totalReward += reward;
-                
-                (bool success, ) = payable(verifier).call{value: reward}("");
-                require(success, "Verifier reward transfer failed");
+                // Return stake + pro rata share of the reward budget
+                uint256 share = rewardBudget * vote.stake / majorityStake;
+                rewardsPaid += share;
+                totalReward += vote.stake + share;
+                _credit(verifier, vote.stake + share);
                 
                 // Update verifier reputation
                 if (reputationContractAddress != address(0)) {
@@ -432,8 +672,7 @@ contract VerificationContract is Ownable, ReentrancyGuard {
                     );
                 }
             } else {
-                // Forfeit stake for incorrect vote
-                // Stake remains in contract as penalty
+                // Forfeit stake for incorrect vote; it funds the majority rewards above
                 
                 // Update verifier reputation
                 if (reputationContractAddress != address(0)) {
@@ -445,9 +684,125 @@ contract VerificationContract is Ownable, ReentrancyGuard {
             }
         }
 
+        uint256 surplus = slashedAmount + rewardPoolUsed - rewardsPaid;
+        slashedStakeSurplus += surplus;
+
+        emit SlashedStakesAllocated(submissionId, slashedAmount, rewardPoolUsed, surplus);
         emit VerificationRewardsDistributed(submissionId, totalReward);
     }
 
+    /**
+     * @notice Work out the reward budget for majority verifiers
+     * @param majorityStake Total stake of verifiers who voted with consensus
+     * @param slashedAmount Total stake forfeited by minority verifiers
+     * @return rewardBudget Amount to split pro rata among majority verifiers
+     * @return rewardPoolUsed Amount drawn from the verifier reward pool
+     */
+    function _allocateRewardBudget(
+        uint256 majorityStake,
+        uint256 slashedAmount
+    ) private returns (uint256 rewardBudget, uint256 rewardPoolUsed) {
+        uint256 target = majorityStake * VERIFICATION_REWARD_PERCENTAGE / BASIS_POINTS;
+        if (slashedAmount >= target) {
+            return (target, 0);
+        }
+
+        uint256 shortfall = target - slashedAmount;
+        rewardPoolUsed = shortfall < verifierRewardPool ? shortfall : verifierRewardPool;
+        verifierRewardPool -= rewardPoolUsed;
+        rewardBudget = slashedAmount + rewardPoolUsed;
+    }
+
+    /**
+     * @notice Credit a verifier payout for the verifier to withdraw later
+     * @param account Address being credited
+     * @param amount Amount to credit
+     */
+    function _credit(address account, uint256 amount) private {
+        pendingWithdrawals[account] += amount;
+        emit EarningsCredited(account, amount);
+    }
+
+    /**
+     * @notice Withdraw credited stakes and verification rewards
+     */
+    function withdraw() external nonReentrant {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        if (amount == 0) {
+            revert NothingToWithdraw(msg.sender);
+        }
+
+        pendingWithdrawals[msg.sender] = 0;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        if (!success) {
+            revert TransferFailed(msg.sender, amount);
+        }
+
+        emit EarningsWithdrawn(msg.sender, amount);
+    }
+
+    /**
+     * @notice Add funds to the verifier reward pool
+     */
+    function fundVerifierRewardPool() public payable {
+        verifierRewardPool += msg.value;
+        emit VerifierRewardPoolFunded(msg.sender, msg.value, verifierRewardPool);
+    }
+
+    /**
+     * @notice Withdraw unused funds from the verifier reward pool
+     * @param amount Amount to withdraw
+     */
+    function withdrawVerifierRewardPool(uint256 amount) external onlyOwner nonReentrant {
+        if (amount > verifierRewardPool) {
+            revert InsufficientBalance(amount, verifierRewardPool);
+        }
+
+        verifierRewardPool -= amount;
+        (bool success, ) = payable(owner()).call{value: amount}("");
+        if (!success) {
+            revert TransferFailed(owner(), amount);
+        }
+
+        emit VerifierRewardPoolWithdrawn(owner(), amount, verifierRewardPool);
+    }
+
+    /**
+     * @notice Withdraw slashed stakes left over after paying verifier rewards
+     * @param amount Amount to withdraw
+     */
+    function withdrawSlashedStakeSurplus(uint256 amount) external onlyOwner nonReentrant {
+        if (amount > slashedStakeSurplus) {
+            revert InsufficientBalance(amount, slashedStakeSurplus);
+        }
+
+        slashedStakeSurplus -= amount;
+        (bool success, ) = payable(owner()).call{value: amount}("");
+        if (!success) {
+            revert TransferFailed(owner(), amount);
+        }
+
+        emit SlashedStakeSurplusWithdrawn(owner(), amount, slashedStakeSurplus);
+    }
+
+    /**
+     * @notice Get a verifier's withdrawable stakes and rewards
+     * @param account Address to check
+     * @return amount The credited balance
+     */
+    function withdrawable(address account) external view returns (uint256) {
+        return pendingWithdrawals[account];
+    }
+
+    /**
+     * @notice Get the bounty locked by a task's pending, disputed or unpaid verified submissions
+     * @param taskId The ID of the task
+     * @return amount The reserved bounty amount
+     */
+    function getReservedBounty(uint256 taskId) external view returns (uint256) {
+        return reservedBounty[taskId];
+    }
+
     /**
      * @notice Get submission details
      * @param submissionId The ID of the submission
@@ -488,7 +843,9 @@ contract VerificationContract is Ownable, ReentrancyGuard {
     }
 
     /**
-     * @notice Receive function to accept ETH
+     * @notice Receive function to accept ETH; plain transfers fund the verifier reward pool
      */
-    receive() external payable {}
+    receive() external payable {
+        fundVerifierRewardPool();
+    }
 }
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title MockTaskManager
+ * @notice Records VerificationContract's verified-submission callbacks so consensus
+ *         can be tested without running the full task lifecycle
+ */
+contract MockTaskManager {
+    mapping(uint256 => uint256) public verifiedCounts;
+
+    function recordVerifiedSubmission(uint256 taskId) external {
+        verifiedCounts[taskId]++;
+    }
+}
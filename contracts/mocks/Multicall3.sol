@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title Multicall3
+ * @notice Hardhat stand-in for the canonical Multicall3 deployment on Celo
+ *         (0xcA11bde05977b3631167028862bE2a173976CA11). Only aggregate3 is provided,
+ *         with the same ABI, so the frontends batch reads the same way on every network
+ */
+contract Multicall3 {
+    struct Call3 {
+        address target;
+        bool allowFailure;
+        bytes callData;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    error CallFailed(uint256 index);
+
+    /**
+     * @notice Run calls in order and return every result
+     * @param calls Calls to make; a failing call reverts the batch unless allowFailure is set
+     * @return returnData One result per call
+     */
+    function aggregate3(Call3[] calldata calls) external payable returns (Result[] memory returnData) {
+        returnData = new Result[](calls.length);
+
+        for (uint256 i = 0; i < calls.length; i++) {
+            (bool success, bytes memory data) = calls[i].target.call(calls[i].callData);
+            if (!success && !calls[i].allowFailure) {
+                revert CallFailed(i);
+            }
+            returnData[i] = Result(success, data);
+        }
+    }
+}
@@ -1,6 +1,6 @@
 import { expect } from "chai";
 import hre from "hardhat";
-import { TaskManager, BountyPool, VerificationContract, ReputationContract, AntiFraud } from "../typechain-types";
+import { TaskManager, BountyPool, VerificationContract, ReputationContract, AntiFraud, MockERC20, MockTaskManager, Multicall3 } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 
 const { ethers } = hre;
@@ -21,6 +21,7 @@ describe("Core Smart Contracts", function () {
 
   const MINIMUM_BOUNTY = ethers.parseEther("0.5");
   const VERIFICATION_STAKE = ethers.parseEther("0.1");
+  const TASK_ESCROW = MINIMUM_BOUNTY * BigInt(5); // Bounty for 5 worker slots
 
   beforeEach(async function () {
     [owner, creator, worker1, worker2, verifier1, verifier2, verifier3] = await ethers.getSigners();
@@ -42,6 +43,9 @@ describe("Core Smart Contracts", function () {
     antiFraud = await AntiFraudFactory.deploy();
 
     // Set up contract addresses
+    await taskManager.setBountyPool(await bountyPool.getAddress());
+    await taskManager.setVerificationContract(await verificationContract.getAddress());
+    await taskManager.setReputationContract(await reputationContract.getAddress());
     await bountyPool.setTaskManager(await taskManager.getAddress());
     await bountyPool.setVerificationContract(await verificationContract.getAddress());
     await verificationContract.setBountyPool(await bountyPool.getAddress());
@@ -59,7 +63,7 @@ describe("Core Smart Contracts", function () {
       const maxWorkers = 5;
       const location = { latitude: 40748817, longitude: -73985428, radius: 100 };
       const deadline = Math.floor(Date.now() / 1000) + 86400; // 24 hours from now
-      const requirements = { photoCount: 1, requiresLocation: true, minReputation: 0, requiredBadge: 0 };
+      const requirements = { photoCount: 1, requiresLocation: true, minReputation: 0, requiredBadge: 0, requiresBadge: false };
 
       await expect(
         taskManager.connect(creator).createTask(
@@ -70,7 +74,7 @@ describe("Core Smart Contracts", function () {
           location,
           deadline,
           requirements,
-          { value: bountyAmount }
+          { value: bountyAmount * BigInt(maxWorkers) }
         )
       ).to.emit(taskManager, "TaskCreated");
 
@@ -79,6 +83,63 @@ describe("Core Smart Contracts", function () {
       expect(task.bountyAmount).to.equal(bountyAmount);
     });
 
+    it("Should escrow the full bounty in BountyPool on creation", async function () {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+
+      await expect(
+        taskManager.connect(creator).createTask(
+          "Escrowed task",
+          0,
+          MINIMUM_BOUNTY,
+          5,
+          { latitude: 0, longitude: 0, radius: 100 },
+          deadline,
+          { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+          { value: TASK_ESCROW }
+        )
+      ).to.emit(bountyPool, "BountyDeposited")
+        .withArgs(0, creator.address, TASK_ESCROW);
+
+      expect(await bountyPool.getTaskBounty(0)).to.equal(TASK_ESCROW);
+      expect(await ethers.provider.getBalance(await taskManager.getAddress())).to.equal(0);
+    });
+
+    it("Should reject underfunded tasks", async function () {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+
+      await expect(
+        taskManager.connect(creator).createTask(
+          "Underfunded task",
+          0,
+          MINIMUM_BOUNTY,
+          5,
+          { latitude: 0, longitude: 0, radius: 100 },
+          deadline,
+          { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+          { value: MINIMUM_BOUNTY }
+        )
+      ).to.be.revertedWithCustomError(taskManager, "InsufficientFunding")
+        .withArgs(MINIMUM_BOUNTY, TASK_ESCROW);
+    });
+
+    it("Should reject tasks without worker slots", async function () {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+
+      await expect(
+        taskManager.connect(creator).createTask(
+          "Slotless task",
+          0,
+          MINIMUM_BOUNTY,
+          0,
+          { latitude: 0, longitude: 0, radius: 100 },
+          deadline,
+          { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+          { value: MINIMUM_BOUNTY }
+        )
+      ).to.be.revertedWithCustomError(taskManager, "InvalidWorkerSlots")
+        .withArgs(0);
+    });
+
     it("Should allow worker to claim available task", async function () {
       const deadline = Math.floor(Date.now() / 1000) + 86400;
       await taskManager.connect(creator).createTask(
@@ -88,8 +149,8 @@ describe("Core Smart Contracts", function () {
         5,
         { latitude: 0, longitude: 0, radius: 100 },
         deadline,
-        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0 },
-        { value: MINIMUM_BOUNTY }
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: TASK_ESCROW }
       );
 
       await expect(taskManager.connect(worker1).claimTask(0))
@@ -111,26 +172,762 @@ describe("Core Smart Contracts", function () {
           5,
           { latitude: 0, longitude: 0, radius: 100 },
           deadline,
-          { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0 },
-          { value: MINIMUM_BOUNTY }
+          { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+          { value: TASK_ESCROW }
         );
         await taskManager.connect(worker1).claimTask(i);
       }
 
-      // Try to claim 4th task
-      await taskManager.connect(creator).createTask(
-        "Task 4",
-        0,
-        MINIMUM_BOUNTY,
-        5,
-        { latitude: 0, longitude: 0, radius: 100 },
-        deadline,
-        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0 },
-        { value: MINIMUM_BOUNTY }
-      );
+      // Try to claim 4th task
+      await taskManager.connect(creator).createTask(
+        "Task 4",
+        0,
+        MINIMUM_BOUNTY,
+        5,
+        { latitude: 0, longitude: 0, radius: 100 },
+        deadline,
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: TASK_ESCROW }
+      );
+
+      await expect(taskManager.connect(worker1).claimTask(3))
+        .to.be.revertedWithCustomError(taskManager, "MaxActiveTasksReached");
+    });
+
+    it("Should gate claims on minReputation", async function () {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+      for (const minReputation of [60, 50]) {
+        await taskManager.connect(creator).createTask(
+          `Needs reputation ${minReputation}`,
+          0,
+          MINIMUM_BOUNTY,
+          5,
+          { latitude: 0, longitude: 0, radius: 100 },
+          deadline,
+          { photoCount: 1, requiresLocation: false, minReputation, requiredBadge: 0, requiresBadge: false },
+          { value: TASK_ESCROW }
+        );
+      }
+
+      // New workers start at the initial reputation of 50
+      await expect(taskManager.connect(worker1).claimTask(0))
+        .to.be.revertedWithCustomError(taskManager, "InsufficientReputation")
+        .withArgs(worker1.address, 50, 60);
+
+      await expect(taskManager.connect(worker1).claimTask(1))
+        .to.emit(taskManager, "TaskClaimed");
+
+      const eligibility = await taskManager.getClaimEligibility(0, worker1.address);
+      expect(eligibility.score).to.equal(50);
+      expect(eligibility.meetsReputation).to.equal(false);
+      expect(eligibility.hasRequiredBadge).to.equal(true);
+    });
+
+    it("Should gate claims on requiredBadge", async function () {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+      await taskManager.connect(creator).createTask(
+        "Badge holders only",
+        3,
+        MINIMUM_BOUNTY,
+        5,
+        { latitude: 0, longitude: 0, radius: 100 },
+        deadline,
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 3, requiresBadge: true },
+        { value: TASK_ESCROW }
+      );
+
+      await expect(taskManager.connect(worker1).claimTask(0))
+        .to.be.revertedWithCustomError(taskManager, "MissingCategoryBadge")
+        .withArgs(worker1.address, 3);
+
+      expect((await taskManager.getClaimEligibility(0, worker1.address)).hasRequiredBadge).to.equal(false);
+    });
+
+    it("Should register submissions with VerificationContract", async function () {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+      await taskManager.connect(creator).createTask(
+        "Test task",
+        0,
+        MINIMUM_BOUNTY,
+        5,
+        { latitude: 0, longitude: 0, radius: 100 },
+        deadline,
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: TASK_ESCROW }
+      );
+      await taskManager.connect(worker1).claimTask(0);
+
+      await expect(
+        taskManager.connect(worker1).submitTaskCompletion(0, "QmSubmission", { latitude: 0, longitude: 0, radius: 0 })
+      ).to.emit(verificationContract, "SubmissionCreated")
+        .withArgs(0, 0, worker1.address, "QmSubmission");
+
+      const submissionId = await taskManager.getSubmissionId(0, worker1.address);
+      const submission = await verificationContract.getSubmission(submissionId);
+      expect(submission.worker).to.equal(worker1.address);
+      expect(submission.bountyAmount).to.equal(MINIMUM_BOUNTY);
+
+      await expect(
+        taskManager.getSubmissionId(0, worker2.address)
+      ).to.be.revertedWithCustomError(taskManager, "SubmissionNotFound");
+    });
+
+    it("Should reject a second submission for the same claim", async function () {
+      const deadline = (await ethers.provider.getBlock("latest"))!.timestamp + 86400;
+      await taskManager.connect(creator).createTask(
+        "Resubmitted task",
+        0,
+        MINIMUM_BOUNTY,
+        5,
+        { latitude: 0, longitude: 0, radius: 100 },
+        deadline,
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: TASK_ESCROW }
+      );
+      await taskManager.connect(worker1).claimTask(0);
+      await taskManager.connect(worker1).submitTaskCompletion(0, "QmFirst", { latitude: 0, longitude: 0, radius: 0 });
+
+      await expect(
+        taskManager.connect(worker1).submitTaskCompletion(0, "QmSecond", { latitude: 0, longitude: 0, radius: 0 })
+      ).to.be.revertedWithCustomError(taskManager, "SubmissionAlreadyMade")
+        .withArgs(0, worker1.address);
+
+      // Only the first submission holds a bounty reservation
+      expect(await taskManager.getSubmissionId(0, worker1.address)).to.equal(0);
+      expect((await taskManager.getTask(0)).submissionCount).to.equal(1);
+      expect(await verificationContract.reservedBounty(0)).to.equal(MINIMUM_BOUNTY);
+    });
+
+    it("Should refund unreserved escrow on expiry and keep pending bounty reserved", async function () {
+      const snapshot = await ethers.provider.send("evm_snapshot", []);
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+
+      await taskManager.connect(creator).createTask(
+        "Expiring task",
+        0,
+        MINIMUM_BOUNTY,
+        5,
+        { latitude: 0, longitude: 0, radius: 100 },
+        now + 3600,
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: TASK_ESCROW }
+      );
+      await taskManager.connect(worker1).claimTask(0);
+      await taskManager.connect(worker1).submitTaskCompletion(0, "QmPending", { latitude: 0, longitude: 0, radius: 0 });
+
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+
+      const unreserved = TASK_ESCROW - MINIMUM_BOUNTY;
+      const fee = (unreserved * BigInt(500)) / BigInt(10000);
+
+      await expect(taskManager.expireTask(0))
+        .to.emit(bountyPool, "BountyRefunded")
+        .withArgs(0, creator.address, unreserved - fee, fee);
+
+      expect((await taskManager.getTask(0)).status).to.equal(3); // EXPIRED
+      expect(await bountyPool.getTaskBounty(0)).to.equal(MINIMUM_BOUNTY);
+      expect(await taskManager.getReclaimableBounty(0)).to.equal(0);
+
+      await expect(
+        taskManager.connect(creator).reclaimBounty(0)
+      ).to.be.revertedWithCustomError(taskManager, "NothingToReclaim");
+
+      await ethers.provider.send("evm_revert", [snapshot]);
+    });
+
+    it("Should let the creator cancel an unclaimed task for a refund", async function () {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+      for (let i = 0; i < 2; i++) {
+        await taskManager.connect(creator).createTask(
+          `Task ${i}`,
+          0,
+          MINIMUM_BOUNTY,
+          5,
+          { latitude: 0, longitude: 0, radius: 100 },
+          deadline,
+          { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+          { value: TASK_ESCROW }
+        );
+      }
+      await taskManager.connect(worker1).claimTask(1);
+
+      await expect(
+        taskManager.connect(worker1).cancelTask(0)
+      ).to.be.revertedWithCustomError(taskManager, "UnauthorizedAccess");
+
+      const fee = (TASK_ESCROW * BigInt(500)) / BigInt(10000);
+      await expect(taskManager.connect(creator).cancelTask(0))
+        .to.emit(taskManager, "TaskCancelled")
+        .and.to.emit(bountyPool, "BountyRefunded")
+        .withArgs(0, creator.address, TASK_ESCROW - fee, fee);
+
+      expect((await taskManager.getTask(0)).status).to.equal(4); // CANCELLED
+      expect(await bountyPool.getTaskBounty(0)).to.equal(0);
+
+      await expect(
+        taskManager.connect(creator).cancelTask(1)
+      ).to.be.revertedWithCustomError(taskManager, "TaskHasClaims");
+    });
+
+    it("Should free both slots and penalise the worker when a claim is abandoned", async function () {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+      await taskManager.connect(creator).createTask(
+        "Single slot task",
+        0,
+        MINIMUM_BOUNTY,
+        1,
+        { latitude: 0, longitude: 0, radius: 100 },
+        deadline,
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: MINIMUM_BOUNTY }
+      );
+      await taskManager.connect(worker1).claimTask(0);
+
+      await expect(
+        taskManager.connect(worker2).abandonClaim(0)
+      ).to.be.revertedWithCustomError(taskManager, "TaskNotClaimed");
+
+      await expect(taskManager.connect(worker1).abandonClaim(0))
+        .to.emit(taskManager, "ClaimReleased")
+        .withArgs(0, worker1.address, false)
+        .and.to.emit(reputationContract, "AbandonedClaimRecorded")
+        .withArgs(worker1.address, 45);
+
+      expect(await taskManager.getWorkerActiveTasks(worker1.address)).to.be.empty;
+      expect(await taskManager.getTaskWorkers(0)).to.be.empty;
+      expect((await taskManager.getTask(0)).status).to.equal(0); // ACTIVE again
+      expect(await reputationContract.getAbandonedClaims(worker1.address)).to.equal(1);
+
+      await taskManager.connect(worker2).claimTask(0);
+      expect(await taskManager.getTaskWorkers(0)).to.deep.equal([worker2.address]);
+    });
+
+    it("Should let anyone release claims that passed the completion timeout", async function () {
+      const snapshot = await ethers.provider.send("evm_snapshot", []);
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      await taskManager.connect(creator).createTask(
+        "Two slot task",
+        0,
+        MINIMUM_BOUNTY,
+        2,
+        { latitude: 0, longitude: 0, radius: 100 },
+        now + 3 * 86400,
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: MINIMUM_BOUNTY * BigInt(2) }
+      );
+      await taskManager.connect(worker1).claimTask(0);
+      await taskManager.connect(worker2).claimTask(0);
+      await taskManager.connect(worker1).submitTaskCompletion(0, "QmDone", { latitude: 0, longitude: 0, radius: 0 });
+
+      expect(await taskManager.releaseExpiredClaims.staticCall(0)).to.equal(0);
+
+      await ethers.provider.send("evm_increaseTime", [24 * 3600 + 1]);
+      await ethers.provider.send("evm_mine", []);
+
+      // The submitted claim is kept; only the no-show is released
+      await expect(taskManager.connect(verifier1).releaseExpiredClaims(0))
+        .to.emit(taskManager, "ClaimReleased")
+        .withArgs(0, worker2.address, true);
+
+      expect(await taskManager.getTaskWorkers(0)).to.deep.equal([worker1.address]);
+      expect(await taskManager.getWorkerActiveTasks(worker2.address)).to.be.empty;
+      expect(await taskManager.hasWorkerClaimed(0, worker2.address)).to.be.false;
+      expect(await reputationContract.getAbandonedClaims(worker2.address)).to.equal(1);
+      expect(await reputationContract.getAbandonedClaims(worker1.address)).to.equal(0);
+
+      await ethers.provider.send("evm_revert", [snapshot]);
+    });
+
+    it("Should complete the task and refund leftover escrow once every slot is verified", async function () {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+      const overfunding = MINIMUM_BOUNTY;
+      await taskManager.connect(creator).createTask(
+        "Single slot task",
+        0,
+        MINIMUM_BOUNTY,
+        1,
+        { latitude: 0, longitude: 0, radius: 100 },
+        deadline,
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: MINIMUM_BOUNTY + overfunding }
+      );
+      await taskManager.connect(worker1).claimTask(0);
+      await taskManager.connect(worker1).submitTaskCompletion(0, "QmDone", { latitude: 0, longitude: 0, radius: 0 });
+
+      await expect(
+        taskManager.connect(worker1).recordVerifiedSubmission(0)
+      ).to.be.revertedWithCustomError(taskManager, "UnauthorizedAccess");
+
+      for (const verifier of [verifier1, verifier2]) {
+        await verificationContract.connect(verifier).stakeForVerification(0, { value: VERIFICATION_STAKE });
+        await verificationContract.connect(verifier).submitVerification(0, true, "");
+      }
+      await verificationContract.connect(verifier3).stakeForVerification(0, { value: VERIFICATION_STAKE });
+
+      // A completed task's leftover comes back in full, without the expiry fee
+      await expect(verificationContract.connect(verifier3).submitVerification(0, true, ""))
+        .to.emit(taskManager, "SubmissionVerified").withArgs(0, 1)
+        .and.to.emit(taskManager, "TaskCompleted")
+        .and.to.emit(bountyPool, "BountyRefunded").withArgs(0, creator.address, overfunding, 0);
+      expect(await bountyPool.withdrawable(creator.address)).to.equal(overfunding);
+      expect(await bountyPool.getAccumulatedFees()).to.equal(0);
+
+      const task = await taskManager.getTask(0);
+      expect(task.verifiedCount).to.equal(1);
+      expect(task.status).to.equal(2); // COMPLETED
+
+      // The verified worker's bounty stays escrowed for payout
+      expect(await bountyPool.getTaskBounty(0)).to.equal(MINIMUM_BOUNTY);
+      expect(await taskManager.getReclaimableBounty(0)).to.equal(0);
+    });
+
+    it("Should not let one worker complete a multi-slot task", async function () {
+      const deadline = (await ethers.provider.getBlock("latest"))!.timestamp + 86400;
+      await taskManager.connect(creator).createTask(
+        "Two slot task",
+        0,
+        MINIMUM_BOUNTY,
+        2,
+        { latitude: 0, longitude: 0, radius: 100 },
+        deadline,
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: MINIMUM_BOUNTY * BigInt(2) }
+      );
+      await taskManager.connect(worker1).claimTask(0);
+      await taskManager.connect(worker1).submitTaskCompletion(0, "QmDone", { latitude: 0, longitude: 0, radius: 0 });
+
+      for (const verifier of [verifier1, verifier2, verifier3]) {
+        await verificationContract.connect(verifier).stakeForVerification(0, { value: VERIFICATION_STAKE });
+        await verificationContract.connect(verifier).submitVerification(0, true, "");
+      }
+
+      // The verified worker can neither resubmit nor claim the second slot
+      await expect(
+        taskManager.connect(worker1).submitTaskCompletion(0, "QmAgain", { latitude: 0, longitude: 0, radius: 0 })
+      ).to.be.revertedWithCustomError(taskManager, "SubmissionAlreadyMade");
+      await expect(taskManager.connect(worker1).claimTask(0))
+        .to.be.revertedWithCustomError(taskManager, "WorkerAlreadyClaimed");
+
+      const task = await taskManager.getTask(0);
+      expect(task.verifiedCount).to.equal(1);
+      expect(task.status).to.not.equal(2); // COMPLETED
+      expect(await bountyPool.getTaskBounty(0)).to.equal(MINIMUM_BOUNTY * BigInt(2));
+    });
+
+    describe("Creator task management", function () {
+      let deadline: number;
+
+      beforeEach(async function () {
+        deadline = Math.floor(Date.now() / 1000) + 86400;
+        await taskManager.connect(creator).createTask(
+          "Editable task",
+          0,
+          MINIMUM_BOUNTY,
+          2,
+          { latitude: 0, longitude: 0, radius: 100 },
+          deadline,
+          { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+          { value: MINIMUM_BOUNTY * BigInt(2) }
+        );
+      });
+
+      it("Should let only the creator extend the deadline", async function () {
+        await expect(
+          taskManager.connect(worker1).extendDeadline(0, deadline + 3600)
+        ).to.be.revertedWithCustomError(taskManager, "UnauthorizedAccess");
+
+        await expect(
+          taskManager.connect(creator).extendDeadline(0, deadline - 3600)
+        ).to.be.revertedWithCustomError(taskManager, "DeadlineNotExtended")
+          .withArgs(deadline - 3600, deadline);
+
+        await expect(taskManager.connect(creator).extendDeadline(0, deadline + 3600))
+          .to.emit(taskManager, "TaskDeadlineExtended")
+          .withArgs(0, deadline + 3600);
+        expect((await taskManager.getTask(0)).deadline).to.equal(deadline + 3600);
+      });
+
+      it("Should fund a bounty increase for slots without a submission", async function () {
+        await taskManager.connect(worker1).claimTask(0);
+        await taskManager.connect(worker1).submitTaskCompletion(0, "QmDone", { latitude: 0, longitude: 0, radius: 0 });
+
+        const newBounty = MINIMUM_BOUNTY * BigInt(2);
+        const topUp = newBounty - MINIMUM_BOUNTY; // one open slot left
+
+        await expect(
+          taskManager.connect(creator).increaseBounty(0, newBounty, { value: topUp - BigInt(1) })
+        ).to.be.revertedWithCustomError(taskManager, "InsufficientFunding")
+          .withArgs(topUp - BigInt(1), topUp);
+
+        await expect(
+          taskManager.connect(creator).increaseBounty(0, MINIMUM_BOUNTY)
+        ).to.be.revertedWithCustomError(taskManager, "BountyNotIncreased");
+
+        await expect(taskManager.connect(creator).increaseBounty(0, newBounty, { value: topUp }))
+          .to.emit(taskManager, "TaskBountyIncreased")
+          .withArgs(0, newBounty, topUp);
+
+        expect((await taskManager.getTask(0)).bountyAmount).to.equal(newBounty);
+        expect(await bountyPool.getTaskBounty(0)).to.equal(MINIMUM_BOUNTY * BigInt(2) + topUp);
+      });
+
+      it("Should raise the bounty without funding once every slot has a submission", async function () {
+        for (const worker of [worker1, worker2]) {
+          await taskManager.connect(worker).claimTask(0);
+          await taskManager.connect(worker).submitTaskCompletion(0, `Qm${worker.address}`, { latitude: 0, longitude: 0, radius: 0 });
+        }
+        expect((await taskManager.getTask(0)).submissionCount).to.equal(2);
+
+        const newBounty = MINIMUM_BOUNTY * BigInt(2);
+        await expect(taskManager.connect(creator).increaseBounty(0, newBounty))
+          .to.emit(taskManager, "TaskBountyIncreased")
+          .withArgs(0, newBounty, 0);
+        expect((await taskManager.getTask(0)).bountyAmount).to.equal(newBounty);
+        expect(await bountyPool.getTaskBounty(0)).to.equal(MINIMUM_BOUNTY * BigInt(2));
+      });
+
+      it("Should fund and open additional worker slots", async function () {
+        await expect(
+          taskManager.connect(creator).addWorkerSlots(0, 0)
+        ).to.be.revertedWithCustomError(taskManager, "InvalidWorkerSlots");
+
+        await expect(taskManager.connect(creator).addWorkerSlots(0, 3, { value: MINIMUM_BOUNTY * BigInt(3) }))
+          .to.emit(taskManager, "TaskWorkerSlotsAdded")
+          .withArgs(0, 5, MINIMUM_BOUNTY * BigInt(3));
+
+        expect((await taskManager.getTask(0)).maxWorkers).to.equal(5);
+        expect(await bountyPool.getTaskBounty(0)).to.equal(MINIMUM_BOUNTY * BigInt(5));
+
+        await taskManager.connect(creator).cancelTask(0);
+        await expect(
+          taskManager.connect(creator).addWorkerSlots(0, 1, { value: MINIMUM_BOUNTY })
+        ).to.be.revertedWithCustomError(taskManager, "TaskNotActive");
+      });
+    });
+
+    describe("Task queries", function () {
+      beforeEach(async function () {
+        const deadline = Math.floor(Date.now() / 1000) + 86400;
+        for (let i = 0; i < 3; i++) {
+          await taskManager.connect(creator).createTask(
+            `Indexed task ${i}`,
+            0,
+            MINIMUM_BOUNTY,
+            1,
+            { latitude: 0, longitude: 0, radius: 100 },
+            deadline,
+            { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+            { value: MINIMUM_BOUNTY }
+          );
+        }
+      });
+
+      it("Should count tasks and page a creator's tasks newest first", async function () {
+        expect(await taskManager.getTaskCount()).to.equal(3);
+
+        let [page, total] = await taskManager.getTasksByCreator(creator.address, 0, 2);
+        expect(page).to.deep.equal([BigInt(2), BigInt(1)]);
+        expect(total).to.equal(3);
+
+        [page, total] = await taskManager.getTasksByCreator(creator.address, 2, 2);
+        expect(page).to.deep.equal([BigInt(0)]);
+
+        [page, total] = await taskManager.getTasksByCreator(worker1.address, 0, 10);
+        expect(page).to.deep.equal([]);
+        expect(total).to.equal(0);
+      });
+
+      it("Should keep the status index in sync as tasks change status", async function () {
+        await taskManager.connect(worker1).claimTask(1);
+        await taskManager.connect(creator).cancelTask(0);
+
+        let [page, total] = await taskManager.getTasksByStatus(0, 0, 10); // ACTIVE
+        expect(page).to.deep.equal([BigInt(2)]);
+        expect(total).to.equal(1);
+        [page] = await taskManager.getTasksByStatus(1, 0, 10); // IN_PROGRESS
+        expect(page).to.deep.equal([BigInt(1)]);
+        [page] = await taskManager.getTasksByStatus(4, 0, 10); // CANCELLED
+        expect(page).to.deep.equal([BigInt(0)]);
+
+        await taskManager.connect(worker1).abandonClaim(1);
+
+        [page, total] = await taskManager.getTasksByStatus(0, 0, 1);
+        expect(page).to.deep.equal([BigInt(1)]);
+        expect(total).to.equal(2);
+        [page] = await taskManager.getTasksByStatus(0, 1, 1);
+        expect(page).to.deep.equal([BigInt(2)]);
+        [page, total] = await taskManager.getTasksByStatus(1, 0, 10);
+        expect(page).to.deep.equal([]);
+        expect(total).to.equal(0);
+      });
+    });
+
+    describe("Campaigns", function () {
+      const WORKERS_PER_LOCATION = 2;
+      const ESCROW_PER_LOCATION = MINIMUM_BOUNTY * BigInt(WORKERS_PER_LOCATION);
+      const CAMPAIGN_BUDGET = ESCROW_PER_LOCATION * BigInt(4);
+      const shops = [
+        { latitude: 40748817, longitude: -73985428, radius: 100 },
+        { latitude: 40758896, longitude: -73985130, radius: 100 },
+        { latitude: 40712776, longitude: -74005974, radius: 100 },
+      ];
+      let params: {
+        description: string;
+        category: number;
+        bountyAmount: bigint;
+        workersPerLocation: number;
+        deadline: number;
+        requirements: { photoCount: number; requiresLocation: boolean; minReputation: number; requiredBadge: number; requiresBadge: boolean };
+      };
+
+      beforeEach(async function () {
+        params = {
+          description: "Check the price of a 1L milk carton",
+          category: 3, // PRICE_MONITORING
+          bountyAmount: MINIMUM_BOUNTY,
+          workersPerLocation: WORKERS_PER_LOCATION,
+          deadline: Math.floor(Date.now() / 1000) + 86400,
+          requirements: { photoCount: 1, requiresLocation: true, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        };
+      });
+
+      it("Should create one task per location from a single funded budget", async function () {
+        await expect(
+          taskManager.connect(creator).createCampaign(params, shops.slice(0, 2), { value: CAMPAIGN_BUDGET })
+        ).to.emit(taskManager, "CampaignCreated")
+          .withArgs(1, creator.address, params.category, MINIMUM_BOUNTY, CAMPAIGN_BUDGET)
+          .and.to.emit(bountyPool, "CampaignBudgetAllocated")
+          .withArgs(1, 1, ESCROW_PER_LOCATION);
+
+        expect(await taskManager.getCampaignTasks(1)).to.deep.equal([BigInt(0), BigInt(1)]);
+        const task = await taskManager.getTask(1);
+        expect(task.creator).to.equal(creator.address);
+        expect(task.description).to.equal(params.description);
+        expect(task.maxWorkers).to.equal(WORKERS_PER_LOCATION);
+        expect(task.location.latitude).to.equal(shops[1].latitude);
+
+        expect(await bountyPool.getTaskBounty(0)).to.equal(ESCROW_PER_LOCATION);
+        expect(await bountyPool.taskCampaigns(1)).to.equal(1);
+        expect(await bountyPool.getCampaignBudget(1)).to.equal(CAMPAIGN_BUDGET - ESCROW_PER_LOCATION * BigInt(2));
+      });
+
+      it("Should reject campaigns whose budget does not cover their locations", async function () {
+        await expect(
+          taskManager.connect(creator).createCampaign(params, shops, { value: ESCROW_PER_LOCATION * BigInt(2) })
+        ).to.be.revertedWithCustomError(taskManager, "InsufficientCampaignBudget")
+          .withArgs(ESCROW_PER_LOCATION * BigInt(3), ESCROW_PER_LOCATION * BigInt(2));
+
+        await expect(
+          taskManager.connect(creator).createCampaign({ ...params, workersPerLocation: 0 }, shops, { value: CAMPAIGN_BUDGET })
+        ).to.be.revertedWithCustomError(taskManager, "InvalidWorkerSlots");
+      });
+
+      it("Should let the creator add locations while the pot lasts", async function () {
+        await taskManager.connect(creator).createCampaign(params, shops.slice(0, 2), { value: CAMPAIGN_BUDGET });
+
+        await expect(
+          taskManager.connect(worker1).addCampaignLocations(1, [shops[2]])
+        ).to.be.revertedWithCustomError(taskManager, "UnauthorizedAccess");
+
+        await expect(taskManager.connect(creator).addCampaignLocations(1, [shops[2]]))
+          .to.emit(taskManager, "CampaignTaskAdded")
+          .withArgs(1, 2);
+
+        await expect(
+          taskManager.connect(creator).addCampaignLocations(1, shops.slice(0, 2))
+        ).to.be.revertedWithCustomError(taskManager, "InsufficientCampaignBudget")
+          .withArgs(ESCROW_PER_LOCATION * BigInt(2), ESCROW_PER_LOCATION);
+
+        expect((await taskManager.getCampaign(1)).allocated).to.equal(ESCROW_PER_LOCATION * BigInt(3));
+      });
+
+      it("Should report budget spent and remaining across the campaign", async function () {
+        await taskManager.connect(creator).createCampaign(params, shops.slice(0, 2), { value: CAMPAIGN_BUDGET });
+
+        await bountyPool.setVerificationContract(owner.address);
+        await bountyPool.connect(owner).distributeReward(1, worker1.address, MINIMUM_BOUNTY);
+
+        let report = await taskManager.getCampaignReport(1);
+        expect(report.budget).to.equal(CAMPAIGN_BUDGET);
+        expect(report.allocated).to.equal(ESCROW_PER_LOCATION * BigInt(2));
+        expect(report.unallocated).to.equal(ESCROW_PER_LOCATION * BigInt(2));
+        expect(report.spent).to.equal(MINIMUM_BOUNTY);
+        expect(report.remaining).to.equal(CAMPAIGN_BUDGET - MINIMUM_BOUNTY);
+        expect(report.taskCount).to.equal(2);
+
+        await taskManager.connect(creator).closeCampaign(1);
+
+        report = await taskManager.getCampaignReport(1);
+        expect(report.unallocated).to.equal(0);
+        expect(report.refunded).to.equal(ESCROW_PER_LOCATION * BigInt(2));
+        expect(report.remaining).to.equal(ESCROW_PER_LOCATION * BigInt(2) - MINIMUM_BOUNTY);
+      });
+
+      it("Should refund the unallocated budget when the campaign closes", async function () {
+        await taskManager.connect(creator).createCampaign(params, [shops[0]], { value: CAMPAIGN_BUDGET });
+
+        const unallocated = CAMPAIGN_BUDGET - ESCROW_PER_LOCATION;
+        const fee = (unallocated * BigInt(500)) / BigInt(10000);
+
+        await expect(taskManager.connect(creator).closeCampaign(1))
+          .to.emit(taskManager, "CampaignClosed")
+          .withArgs(1, unallocated)
+          .and.to.emit(bountyPool, "CampaignBudgetRefunded")
+          .withArgs(1, creator.address, unallocated - fee, fee);
+
+        expect(await bountyPool.withdrawable(creator.address)).to.equal(unallocated - fee);
+        expect(await bountyPool.getTaskBounty(0)).to.equal(ESCROW_PER_LOCATION);
+
+        await expect(
+          taskManager.connect(creator).addCampaignLocations(1, [shops[1]])
+        ).to.be.revertedWithCustomError(taskManager, "CampaignNotOpen")
+          .withArgs(1);
+        await expect(
+          taskManager.connect(creator).closeCampaign(2)
+        ).to.be.revertedWithCustomError(taskManager, "InvalidCampaignId")
+          .withArgs(2);
+      });
+    });
+
+    describe("Schedules", function () {
+      const WEEK = 7 * 24 * 3600;
+      const DAY = 24 * 3600;
+      const OCCURRENCES = 3;
+      const ESCROW_PER_OCCURRENCE = MINIMUM_BOUNTY * BigInt(2);
+      const SCHEDULE_BUDGET = ESCROW_PER_OCCURRENCE * BigInt(OCCURRENCES);
+      const shop = { latitude: 40748817, longitude: -73985428, radius: 100 };
+      const params = {
+        description: "Check whether the bakery is open on Monday morning",
+        category: 4, // BUSINESS_HOURS
+        bountyAmount: MINIMUM_BOUNTY,
+        workersPerLocation: 2,
+        deadline: 0, // Derived from the timing
+        requirements: { photoCount: 1, requiresLocation: true, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+      };
+      let snapshot: string;
+      let startTime: number;
+
+      beforeEach(async function () {
+        snapshot = await ethers.provider.send("evm_snapshot", []);
+        startTime = (await ethers.provider.getBlock("latest"))!.timestamp + 3600;
+      });
+
+      afterEach(async function () {
+        await ethers.provider.send("evm_revert", [snapshot]);
+      });
+
+      const timing = (occurrences: number = OCCURRENCES) => ({
+        startTime,
+        interval: WEEK,
+        taskDuration: DAY,
+        occurrences,
+      });
+
+      it("Should pre-fund every occurrence in a backing campaign", async function () {
+        await expect(
+          taskManager.connect(creator).createSchedule(params, shop, timing(), { value: SCHEDULE_BUDGET - BigInt(1) })
+        ).to.be.revertedWithCustomError(taskManager, "InsufficientFunding")
+          .withArgs(SCHEDULE_BUDGET - BigInt(1), SCHEDULE_BUDGET);
+
+        await expect(
+          taskManager.connect(creator).createSchedule(params, shop, timing(0), { value: SCHEDULE_BUDGET })
+        ).to.be.revertedWithCustomError(taskManager, "InvalidSchedule");
+
+        await expect(taskManager.connect(creator).createSchedule(params, shop, timing(), { value: SCHEDULE_BUDGET }))
+          .to.emit(taskManager, "ScheduleCreated")
+          .withArgs(1, 1, creator.address, startTime, WEEK, OCCURRENCES);
+
+        const schedule = await taskManager.getSchedule(1);
+        expect(schedule.campaignId).to.equal(1);
+        expect(schedule.nextOccurrence).to.equal(0);
 
-      await expect(taskManager.connect(worker1).claimTask(3))
-        .to.be.revertedWithCustomError(taskManager, "MaxActiveTasksReached");
+        const campaign = await taskManager.getCampaign(1);
+        expect(campaign.params.deadline).to.equal(startTime + 2 * WEEK + DAY);
+        expect(await bountyPool.getCampaignBudget(1)).to.equal(SCHEDULE_BUDGET);
+
+        await expect(taskManager.connect(worker1).spawnDue(1))
+          .to.be.revertedWithCustomError(taskManager, "NoOccurrenceDue")
+          .withArgs(1, 0);
+      });
+
+      it("Should let anyone spawn an occurrence once its start time arrives", async function () {
+        await taskManager.connect(creator).createSchedule(params, shop, timing(), { value: SCHEDULE_BUDGET });
+
+        await ethers.provider.send("evm_increaseTime", [3600]);
+        await ethers.provider.send("evm_mine", []);
+
+        await expect(taskManager.connect(worker2).spawnDue(1))
+          .to.emit(taskManager, "ScheduleOccurrenceSpawned")
+          .withArgs(1, 0, 0)
+          .and.to.emit(taskManager, "TaskCreated")
+          .withArgs(0, creator.address, params.category, MINIMUM_BOUNTY, startTime + DAY);
+
+        const task = await taskManager.getTask(0);
+        expect(task.creator).to.equal(creator.address);
+        expect(task.deadline).to.equal(startTime + DAY);
+        expect(await bountyPool.getTaskBounty(0)).to.equal(ESCROW_PER_OCCURRENCE);
+
+        await expect(taskManager.connect(worker2).spawnDue(1))
+          .to.be.revertedWithCustomError(taskManager, "NoOccurrenceDue")
+          .withArgs(1, 1);
+
+        await ethers.provider.send("evm_increaseTime", [WEEK]);
+        await ethers.provider.send("evm_mine", []);
+
+        await expect(taskManager.connect(worker2).spawnDue(1))
+          .to.emit(taskManager, "ScheduleOccurrenceSpawned")
+          .withArgs(1, 1, 1);
+        expect((await taskManager.getSchedule(1)).nextOccurrence).to.equal(2);
+        expect(await bountyPool.getCampaignBudget(1)).to.equal(ESCROW_PER_OCCURRENCE);
+      });
+
+      it("Should keep the pot of a schedule-backed campaign for its occurrences", async function () {
+        await taskManager.connect(creator).createSchedule(params, shop, timing(), { value: SCHEDULE_BUDGET });
+
+        await expect(taskManager.connect(creator).addCampaignLocations(1, [shop]))
+          .to.be.revertedWithCustomError(taskManager, "ScheduleBackedCampaign")
+          .withArgs(1, 1);
+        expect(await bountyPool.getCampaignBudget(1)).to.equal(SCHEDULE_BUDGET);
+
+        // Every occurrence still spawns from the untouched pot
+        for (let occurrence = 0; occurrence < OCCURRENCES; occurrence++) {
+          await ethers.provider.send("evm_increaseTime", [occurrence === 0 ? 3600 : WEEK]);
+          await ethers.provider.send("evm_mine", []);
+
+          await expect(taskManager.spawnDue(1))
+            .to.emit(taskManager, "ScheduleOccurrenceSpawned")
+            .withArgs(1, occurrence, occurrence);
+        }
+        expect(await bountyPool.getCampaignBudget(1)).to.equal(0);
+      });
+
+      it("Should skip missed occurrences and refund them when the schedule is closed", async function () {
+        await taskManager.connect(creator).createSchedule(params, shop, timing(), { value: SCHEDULE_BUDGET });
+
+        // The keeper misses the first occurrence's whole window
+        await ethers.provider.send("evm_increaseTime", [3600 + WEEK]);
+        await ethers.provider.send("evm_mine", []);
+
+        await expect(taskManager.spawnDue(1))
+          .to.emit(taskManager, "ScheduleOccurrenceSkipped")
+          .withArgs(1, 0)
+          .and.to.emit(taskManager, "ScheduleOccurrenceSpawned")
+          .withArgs(1, 1, 0);
+        expect(await taskManager.getCampaignTasks(1)).to.deep.equal([BigInt(0)]);
+
+        const unspawned = ESCROW_PER_OCCURRENCE * BigInt(2);
+        await expect(taskManager.connect(creator).closeCampaign(1))
+          .to.emit(taskManager, "CampaignClosed")
+          .withArgs(1, unspawned);
+
+        await expect(taskManager.spawnDue(1))
+          .to.be.revertedWithCustomError(taskManager, "CampaignNotOpen")
+          .withArgs(1);
+        await expect(taskManager.spawnDue(2))
+          .to.be.revertedWithCustomError(taskManager, "InvalidScheduleId")
+          .withArgs(2);
+      });
     });
   });
 
@@ -168,19 +965,39 @@ describe("Core Smart Contracts", function () {
       // Deposit bounty first
       await bountyPool.connect(owner).depositBounty(taskId, { value: amount });
 
-      const workerBalanceBefore = await ethers.provider.getBalance(worker1.address);
-      
       // Distribute reward
       await bountyPool.connect(owner).distributeReward(taskId, worker1.address, amount);
 
-      const workerBalanceAfter = await ethers.provider.getBalance(worker1.address);
       const platformFee = (amount * BigInt(250)) / BigInt(10000);
       const expectedReward = amount - platformFee;
 
-      expect(workerBalanceAfter - workerBalanceBefore).to.equal(expectedReward);
+      expect(await bountyPool.withdrawable(worker1.address)).to.equal(expectedReward);
       expect(await bountyPool.getAccumulatedFees()).to.equal(platformFee);
     });
 
+    it("Should let workers withdraw credited rewards", async function () {
+      const taskId = 1;
+      const amount = MINIMUM_BOUNTY;
+
+      await bountyPool.setVerificationContract(owner.address);
+      await bountyPool.setTaskManager(owner.address);
+      await bountyPool.connect(owner).depositBounty(taskId, { value: amount });
+
+      await expect(bountyPool.connect(owner).distributeReward(taskId, worker1.address, amount))
+        .to.emit(bountyPool, "EarningsCredited");
+
+      const credited = await bountyPool.withdrawable(worker1.address);
+      const withdrawal = bountyPool.connect(worker1).withdraw();
+      await expect(withdrawal).to.changeEtherBalance(worker1, credited);
+      await expect(withdrawal).to.emit(bountyPool, "EarningsWithdrawn")
+        .withArgs(worker1.address, ethers.ZeroAddress, credited);
+
+      expect(await bountyPool.withdrawable(worker1.address)).to.equal(0);
+      await expect(bountyPool.connect(worker1).withdraw())
+        .to.be.revertedWithCustomError(bountyPool, "NothingToWithdraw")
+        .withArgs(worker1.address, ethers.ZeroAddress);
+    });
+
     it("Should refund bounty with 5% platform fee on expired task", async function () {
       const taskId = 2;
       const amount = MINIMUM_BOUNTY;
@@ -190,22 +1007,14 @@ describe("Core Smart Contracts", function () {
       // Deposit bounty first
       await bountyPool.connect(owner).depositBounty(taskId, { value: amount });
 
-      const creatorBalanceBefore = await ethers.provider.getBalance(creator.address);
-      
       // Refund bounty
-      const tx = await bountyPool.connect(owner).refundBounty(taskId, creator.address, amount);
-      const receipt = await tx.wait();
-      const gasUsed = receipt!.gasUsed * receipt!.gasPrice;
+      await bountyPool.connect(owner).refundBounty(taskId, creator.address, amount);
 
-      const creatorBalanceAfter = await ethers.provider.getBalance(creator.address);
       const platformFee = (amount * BigInt(500)) / BigInt(10000); // 5%
       const expectedRefund = amount - platformFee;
 
-      // Creator balance should increase by refund amount (no gas cost since owner called it)
-      expect(creatorBalanceAfter - creatorBalanceBefore).to.equal(expectedRefund);
-      
-      // Suppress unused variable warning
-      void gasUsed;
+      // Refund is credited to the creator for withdrawal
+      expect(await bountyPool.withdrawable(creator.address)).to.equal(expectedRefund);
     });
 
     it("Should allow owner to withdraw platform fees", async function () {
@@ -254,6 +1063,154 @@ describe("Core Smart Contracts", function () {
         bountyPool.connect(owner).distributeReward(taskId, worker1.address, amount)
       ).to.be.revertedWithCustomError(bountyPool, "InsufficientBounty");
     });
+
+    it("Should pay badge holders the reputation multiplier from the bonus reserve", async function () {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+      await taskManager.connect(creator).createTask(
+        "Price check",
+        3, // PRICE_MONITORING
+        MINIMUM_BOUNTY,
+        5,
+        { latitude: 0, longitude: 0, radius: 100 },
+        deadline,
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: TASK_ESCROW }
+      );
+
+      // Earn the PRICE_MONITORING badge for worker1
+      await reputationContract.setVerificationContract(owner.address);
+      for (let i = 0; i < 10; i++) {
+        await reputationContract.connect(owner).updateWorkerReputationWithCategory(worker1.address, 3, true);
+      }
+
+      const reserve = ethers.parseEther("1.0");
+      await bountyPool.setReputationContract(await reputationContract.getAddress());
+      await expect(bountyPool.fundBonusReserve({ value: reserve }))
+        .to.emit(bountyPool, "BonusReserveFunded")
+        .withArgs(ethers.ZeroAddress, reserve, reserve);
+
+      await bountyPool.setVerificationContract(owner.address);
+
+      const bonus = (MINIMUM_BOUNTY * BigInt(1000)) / BigInt(10000); // 10%
+      const platformFee = (MINIMUM_BOUNTY * BigInt(250)) / BigInt(10000);
+      await expect(bountyPool.connect(owner).distributeReward(0, worker1.address, MINIMUM_BOUNTY))
+        .to.emit(bountyPool, "ReputationBonusPaid")
+        .withArgs(0, worker1.address, ethers.ZeroAddress, bonus, reserve - bonus);
+
+      expect(await bountyPool.withdrawable(worker1.address))
+        .to.equal(MINIMUM_BOUNTY - platformFee + bonus);
+
+      // The bonus comes out of the reserve, leaving the task's escrow untouched
+      expect(await bountyPool.getTaskBounty(0)).to.equal(TASK_ESCROW - MINIMUM_BOUNTY);
+      expect(await bountyPool.getBonusReserve(ethers.ZeroAddress)).to.equal(reserve - bonus);
+
+      // Workers without the badge receive the flat reward
+      await expect(bountyPool.connect(owner).distributeReward(0, worker2.address, MINIMUM_BOUNTY))
+        .to.not.emit(bountyPool, "ReputationBonusPaid");
+    });
+
+    describe("Stablecoin escrow", function () {
+      let usdc: MockERC20;
+      const USDC_BOUNTY = BigInt(500_000); // 0.5 USDC (6 decimals)
+      const USDC_ESCROW = USDC_BOUNTY * BigInt(5);
+
+      const createUsdcTask = async (bountyAmount: bigint = USDC_BOUNTY) =>
+        taskManager.connect(creator).createTaskWithToken(
+          "Stablecoin task",
+          0,
+          bountyAmount,
+          5,
+          { latitude: 0, longitude: 0, radius: 100 },
+          Math.floor(Date.now() / 1000) + 86400,
+          { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+          await usdc.getAddress()
+        );
+
+      beforeEach(async function () {
+        const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+        usdc = await MockERC20Factory.deploy("USD Coin", "USDC", 6);
+
+        await usdc.mint(creator.address, USDC_ESCROW * BigInt(2));
+        await usdc.connect(creator).approve(await bountyPool.getAddress(), USDC_ESCROW * BigInt(2));
+        await bountyPool.setTokenAllowed(await usdc.getAddress(), true);
+      });
+
+      it("Should escrow an allowlisted token via approve + transferFrom", async function () {
+        await expect(createUsdcTask())
+          .to.emit(bountyPool, "TokenBountyDeposited")
+          .withArgs(0, creator.address, await usdc.getAddress(), USDC_ESCROW);
+
+        expect(await bountyPool.getTaskBounty(0)).to.equal(USDC_ESCROW);
+        expect(await bountyPool.getTaskToken(0)).to.equal(await usdc.getAddress());
+        expect(await usdc.balanceOf(await bountyPool.getAddress())).to.equal(USDC_ESCROW);
+      });
+
+      it("Should fund token task top-ups in the funding token", async function () {
+        await createUsdcTask();
+
+        await expect(
+          taskManager.connect(creator).addWorkerSlots(0, 1, { value: MINIMUM_BOUNTY })
+        ).to.be.revertedWithCustomError(taskManager, "NativeValueNotAccepted");
+
+        await expect(taskManager.connect(creator).addWorkerSlots(0, 1))
+          .to.emit(bountyPool, "TokenBountyDeposited")
+          .withArgs(0, creator.address, await usdc.getAddress(), USDC_BOUNTY);
+        expect(await bountyPool.getTaskBounty(0)).to.equal(USDC_ESCROW + USDC_BOUNTY);
+      });
+
+      it("Should reject tokens that are not allowlisted", async function () {
+        await bountyPool.setTokenAllowed(await usdc.getAddress(), false);
+
+        await expect(createUsdcTask())
+          .to.be.revertedWithCustomError(bountyPool, "TokenNotAllowed")
+          .withArgs(await usdc.getAddress());
+      });
+
+      it("Should scale the minimum bounty to the token's decimals", async function () {
+        await expect(createUsdcTask(USDC_BOUNTY - BigInt(1)))
+          .to.be.revertedWithCustomError(taskManager, "InsufficientBounty")
+          .withArgs(USDC_BOUNTY - BigInt(1), USDC_BOUNTY);
+      });
+
+      it("Should pay rewards, refunds and fees in the funding token", async function () {
+        await createUsdcTask();
+
+        await bountyPool.setVerificationContract(owner.address);
+        await bountyPool.setTaskManager(owner.address);
+
+        await bountyPool.connect(owner).distributeReward(0, worker1.address, USDC_BOUNTY);
+        const rewardFee = (USDC_BOUNTY * BigInt(250)) / BigInt(10000);
+        expect(await bountyPool.withdrawable(worker1.address)).to.equal(0);
+        expect(await bountyPool.withdrawableToken(worker1.address, await usdc.getAddress()))
+          .to.equal(USDC_BOUNTY - rewardFee);
+        await bountyPool.connect(worker1).withdrawToken(await usdc.getAddress());
+        expect(await usdc.balanceOf(worker1.address)).to.equal(USDC_BOUNTY - rewardFee);
+
+        const creatorBalanceBefore = await usdc.balanceOf(creator.address);
+        await bountyPool.connect(owner).refundBounty(0, creator.address, USDC_BOUNTY);
+        const refundFee = (USDC_BOUNTY * BigInt(500)) / BigInt(10000);
+        await bountyPool.connect(creator).withdrawToken(await usdc.getAddress());
+        expect(await usdc.balanceOf(creator.address) - creatorBalanceBefore).to.equal(USDC_BOUNTY - refundFee);
+
+        // Token fees are tracked separately from native CELO fees
+        expect(await bountyPool.getAccumulatedFees()).to.equal(0);
+        expect(await bountyPool.accumulatedTokenFees(await usdc.getAddress())).to.equal(rewardFee + refundFee);
+
+        await expect(bountyPool.connect(owner).withdrawTokenFees(await usdc.getAddress()))
+          .to.emit(bountyPool, "PlatformTokenFeesWithdrawn")
+          .withArgs(owner.address, await usdc.getAddress(), rewardFee + refundFee);
+        expect(await usdc.balanceOf(owner.address)).to.equal(rewardFee + refundFee);
+      });
+
+      it("Should reject native deposits into a token-funded task", async function () {
+        await createUsdcTask();
+        await bountyPool.setTaskManager(owner.address);
+
+        await expect(
+          bountyPool.connect(owner).depositBounty(0, { value: MINIMUM_BOUNTY })
+        ).to.be.revertedWithCustomError(bountyPool, "TokenMismatch");
+      });
+    });
   });
 
   describe("ReputationContract", function () {
@@ -285,6 +1242,23 @@ describe("Core Smart Contracts", function () {
       expect(score).to.equal(45); // 50 - 5
     });
 
+    it("Should keep an abandonment-floored score at 0 on the next verified task", async function () {
+      await reputationContract.setTaskManager(owner.address);
+
+      // 10 abandoned claims take the default 50 down to the floor
+      for (let i = 0; i < 10; i++) {
+        await reputationContract.connect(owner).recordAbandonedClaim(worker1.address);
+      }
+      expect(await reputationContract.getReputationScore(worker1.address)).to.equal(0);
+      await expect(
+        reputationContract.initializeReputation(worker1.address)
+      ).to.be.revertedWithCustomError(reputationContract, "ReputationAlreadyInitialized");
+
+      await reputationContract.connect(owner).updateWorkerReputationWithCategory(worker1.address, 0, true);
+      expect(await reputationContract.getReputationScore(worker1.address)).to.equal(5);
+      expect((await reputationContract.getReputationData(worker1.address)).score).to.equal(5);
+    });
+
     it("Should track category-specific success", async function () {
       await reputationContract.setTaskManager(owner.address);
       
@@ -533,8 +1507,8 @@ describe("Core Smart Contracts", function () {
         5,
         { latitude: 0, longitude: 0, radius: 100 },
         deadline,
-        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0 },
-        { value: MINIMUM_BOUNTY }
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: TASK_ESCROW }
       );
 
       // Claim and submit through TaskManager (which will call AntiFraud)
@@ -556,8 +1530,8 @@ describe("Core Smart Contracts", function () {
         5,
         { latitude: 0, longitude: 0, radius: 100 },
         deadline,
-        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0 },
-        { value: MINIMUM_BOUNTY }
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: TASK_ESCROW }
       );
 
       await taskManager.connect(worker1).claimTask(0);
@@ -585,8 +1559,8 @@ describe("Core Smart Contracts", function () {
           5,
           { latitude: 0, longitude: 0, radius: 100 },
           deadline,
-          { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0 },
-          { value: MINIMUM_BOUNTY }
+          { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+          { value: TASK_ESCROW }
         );
       }
 
@@ -621,8 +1595,8 @@ describe("Core Smart Contracts", function () {
           5,
           { latitude: 0, longitude: 0, radius: 100 },
           deadline,
-          { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0 },
-          { value: MINIMUM_BOUNTY }
+          { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+          { value: TASK_ESCROW }
         );
       }
       
@@ -662,8 +1636,8 @@ describe("Core Smart Contracts", function () {
         5,
         { latitude: 0, longitude: 0, radius: 100 },
         deadline,
-        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0 },
-        { value: MINIMUM_BOUNTY }
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: TASK_ESCROW }
       );
 
       await taskManager.connect(creator).createTask(
@@ -673,8 +1647,8 @@ describe("Core Smart Contracts", function () {
         5,
         { latitude: 0, longitude: 0, radius: 100 },
         deadline + 86400,
-        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0 },
-        { value: MINIMUM_BOUNTY }
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: TASK_ESCROW }
       );
 
       await taskManager.connect(worker1).claimTask(0);
@@ -711,8 +1685,8 @@ describe("Core Smart Contracts", function () {
         5,
         { latitude: 0, longitude: 0, radius: 100 },
         deadline,
-        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0 },
-        { value: MINIMUM_BOUNTY }
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: TASK_ESCROW }
       );
 
       await taskManager.connect(worker1).claimTask(0);
@@ -735,8 +1709,8 @@ describe("Core Smart Contracts", function () {
         5,
         { latitude: 0, longitude: 0, radius: 100 },
         deadline,
-        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0 },
-        { value: MINIMUM_BOUNTY }
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: TASK_ESCROW }
       );
 
       await taskManager.connect(worker1).claimTask(0);
@@ -764,8 +1738,8 @@ describe("Core Smart Contracts", function () {
         5,
         { latitude: 0, longitude: 0, radius: 100 },
         deadline,
-        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0 },
-        { value: MINIMUM_BOUNTY }
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: TASK_ESCROW }
       );
 
       const imageHash = "QmTest123";
@@ -793,6 +1767,202 @@ describe("Core Smart Contracts", function () {
       expect(await antiFraud.isWorkerBlacklisted(worker1.address)).to.be.false;
     });
 
+    describe("Worker collateral", function () {
+      const COLLATERAL = ethers.parseEther("0.2");
+
+      it("Should let workers deposit and withdraw collateral after the cooldown", async function () {
+        const snapshot = await ethers.provider.send("evm_snapshot", []);
+
+        await expect(antiFraud.connect(worker1).depositStake({ value: COLLATERAL }))
+          .to.emit(antiFraud, "StakeDeposited")
+          .withArgs(worker1.address, COLLATERAL, COLLATERAL);
+
+        await expect(
+          antiFraud.connect(worker1).withdrawStake(COLLATERAL)
+        ).to.be.revertedWithCustomError(antiFraud, "NoWithdrawalRequested");
+
+        await antiFraud.connect(worker1).requestStakeWithdrawal();
+        await expect(
+          antiFraud.connect(worker1).withdrawStake(COLLATERAL)
+        ).to.be.revertedWithCustomError(antiFraud, "StakeCooldownActive");
+
+        await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60]);
+        await ethers.provider.send("evm_mine", []);
+
+        await expect(antiFraud.connect(worker1).withdrawStake(COLLATERAL))
+          .to.emit(antiFraud, "StakeWithdrawn")
+          .withArgs(worker1.address, COLLATERAL);
+        expect(await antiFraud.getWorkerStake(worker1.address)).to.equal(0);
+
+        await ethers.provider.send("evm_revert", [snapshot]);
+      });
+
+      it("Should require task and reputation-tier collateral at claim time", async function () {
+        // Earlier suites advance chain time, so derive the deadline from the chain
+        const deadline = (await ethers.provider.getBlock("latest"))!.timestamp + 86400;
+        for (let i = 0; i < 2; i++) {
+          await taskManager.connect(creator).createTask(
+            `Collateral task ${i}`,
+            0,
+            MINIMUM_BOUNTY,
+            5,
+            { latitude: 0, longitude: 0, radius: 100 },
+            deadline,
+            { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+            { value: TASK_ESCROW }
+          );
+        }
+
+        await expect(taskManager.connect(creator).setTaskRequiredStake(0, COLLATERAL))
+          .to.emit(taskManager, "TaskStakeRequirementUpdated")
+          .withArgs(0, COLLATERAL);
+
+        await expect(taskManager.connect(worker1).claimTask(0))
+          .to.be.revertedWithCustomError(antiFraud, "InsufficientStakeBalance")
+          .withArgs(worker1.address, COLLATERAL, 0);
+
+        // New workers (reputation 50) fall into a tier requiring twice the collateral
+        await taskManager.setCollateralTier(60, COLLATERAL * BigInt(2));
+        expect(await taskManager.getRequiredStake(1, worker1.address)).to.equal(COLLATERAL * BigInt(2));
+
+        await antiFraud.connect(worker1).depositStake({ value: COLLATERAL });
+        await expect(taskManager.connect(worker1).claimTask(1))
+          .to.be.revertedWithCustomError(antiFraud, "InsufficientStakeBalance")
+          .withArgs(worker1.address, COLLATERAL * BigInt(2), COLLATERAL);
+
+        await antiFraud.connect(worker1).depositStake({ value: COLLATERAL });
+        await expect(taskManager.connect(worker1).claimTask(1)).to.emit(taskManager, "TaskClaimed");
+      });
+
+      it("Should lock collateral per claim so one stake cannot back several claims", async function () {
+        const deadline = (await ethers.provider.getBlock("latest"))!.timestamp + 86400;
+        for (let i = 0; i < 2; i++) {
+          await taskManager.connect(creator).createTask(
+            `Locked task ${i}`,
+            0,
+            MINIMUM_BOUNTY,
+            5,
+            { latitude: 0, longitude: 0, radius: 100 },
+            deadline,
+            { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+            { value: TASK_ESCROW }
+          );
+          await taskManager.connect(creator).setTaskRequiredStake(i, COLLATERAL);
+        }
+
+        await antiFraud.connect(worker1).depositStake({ value: COLLATERAL });
+        await expect(taskManager.connect(worker1).claimTask(0))
+          .to.emit(antiFraud, "StakeLocked")
+          .withArgs(worker1.address, 0, COLLATERAL);
+        expect(await antiFraud.getAvailableStake(worker1.address)).to.equal(0);
+
+        await expect(taskManager.connect(worker1).claimTask(1))
+          .to.be.revertedWithCustomError(antiFraud, "InsufficientStakeBalance")
+          .withArgs(worker1.address, COLLATERAL, 0);
+
+        // Locked collateral cannot be withdrawn either
+        const snapshot = await ethers.provider.send("evm_snapshot", []);
+        await antiFraud.connect(worker1).requestStakeWithdrawal();
+        await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60]);
+        await ethers.provider.send("evm_mine", []);
+        await expect(antiFraud.connect(worker1).withdrawStake(COLLATERAL))
+          .to.be.revertedWithCustomError(antiFraud, "InsufficientStakeBalance")
+          .withArgs(worker1.address, COLLATERAL, 0);
+        await ethers.provider.send("evm_revert", [snapshot]);
+
+        // Abandoning the first claim frees its collateral for the second
+        await expect(taskManager.connect(worker1).abandonClaim(0))
+          .to.emit(antiFraud, "StakeReleased")
+          .withArgs(worker1.address, 0, COLLATERAL);
+        await expect(taskManager.connect(worker1).claimTask(1)).to.emit(taskManager, "TaskClaimed");
+      });
+
+      it("Should forfeit only the collateral locked by the rejected claim", async function () {
+        const deadline = (await ethers.provider.getBlock("latest"))!.timestamp + 86400;
+        await taskManager.connect(creator).createTask(
+          "Forfeit task",
+          0,
+          MINIMUM_BOUNTY,
+          5,
+          { latitude: 0, longitude: 0, radius: 100 },
+          deadline,
+          { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+          { value: TASK_ESCROW }
+        );
+        await taskManager.connect(creator).setTaskRequiredStake(0, COLLATERAL);
+
+        await antiFraud.connect(worker1).depositStake({ value: COLLATERAL * BigInt(3) });
+        await taskManager.connect(worker1).claimTask(0);
+
+        await antiFraud.setVerificationContract(owner.address);
+        await expect(antiFraud.connect(owner).forfeitStake(worker1.address, 0, "Rejected"))
+          .to.emit(antiFraud, "StakeForfeited")
+          .withArgs(worker1.address, COLLATERAL, "Rejected");
+
+        expect(await antiFraud.getWorkerStake(worker1.address)).to.equal(COLLATERAL * BigInt(2));
+        expect(await antiFraud.getAvailableStake(worker1.address)).to.equal(COLLATERAL * BigInt(2));
+
+        // The lock is spent, so a second forfeit for the same claim takes nothing
+        await expect(antiFraud.connect(owner).forfeitStake(worker1.address, 0, "Rejected"))
+          .to.not.emit(antiFraud, "StakeForfeited");
+      });
+
+      it("Should credit forfeited collateral to the fee pool or the task creator", async function () {
+        const deadline = (await ethers.provider.getBlock("latest"))!.timestamp + 86400;
+        await taskManager.connect(creator).createTask(
+          "Forfeit task",
+          0,
+          MINIMUM_BOUNTY,
+          5,
+          { latitude: 0, longitude: 0, radius: 100 },
+          deadline,
+          { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+          { value: TASK_ESCROW }
+        );
+        await taskManager.connect(creator).setTaskRequiredStake(0, COLLATERAL);
+        await antiFraud.connect(worker1).depositStake({ value: COLLATERAL });
+        await antiFraud.connect(worker2).depositStake({ value: COLLATERAL });
+        await taskManager.connect(worker1).claimTask(0);
+        await taskManager.connect(worker2).claimTask(0);
+
+        await antiFraud.setVerificationContract(owner.address);
+
+        // Default destination: the platform fee pool, which settles even before a BountyPool is set
+        await expect(antiFraud.connect(owner).forfeitStake(worker1.address, 0, "Rejected"))
+          .to.emit(antiFraud, "ForfeitedStakeCredited")
+          .withArgs(worker1.address, 0, ethers.ZeroAddress, COLLATERAL);
+        expect(await antiFraud.forfeitedFees()).to.equal(COLLATERAL);
+
+        await expect(antiFraud.sweepForfeitedFees())
+          .to.be.revertedWithCustomError(antiFraud, "InvalidAddress");
+        await antiFraud.setBountyPool(await bountyPool.getAddress());
+        await expect(antiFraud.connect(worker2).sweepForfeitedFees())
+          .to.emit(antiFraud, "ForfeitedFeesSwept")
+          .withArgs(await bountyPool.getAddress(), COLLATERAL);
+        expect(await bountyPool.getAccumulatedFees()).to.equal(COLLATERAL);
+        expect(await antiFraud.forfeitedFees()).to.equal(0);
+
+        // Compensate the task creator instead, paid out when they withdraw
+        await antiFraud.setForfeitDestination(1); // TASK_CREATOR
+        const creatorBefore = await ethers.provider.getBalance(creator.address);
+        await expect(antiFraud.connect(owner).forfeitStake(worker2.address, 0, "Rejected"))
+          .to.emit(antiFraud, "ForfeitedStakeCredited")
+          .withArgs(worker2.address, 0, creator.address, COLLATERAL);
+        expect(await ethers.provider.getBalance(creator.address)).to.equal(creatorBefore);
+        expect(await antiFraud.withdrawable(creator.address)).to.equal(COLLATERAL);
+
+        await expect(antiFraud.connect(creator).withdraw())
+          .to.emit(antiFraud, "ForfeitWithdrawn")
+          .withArgs(creator.address, COLLATERAL);
+        await expect(antiFraud.connect(creator).withdraw())
+          .to.be.revertedWithCustomError(antiFraud, "NothingToWithdraw");
+
+        // Workers without collateral do not block settlement
+        await expect(antiFraud.connect(owner).forfeitStake(worker2.address, 1, "Rejected"))
+          .to.not.emit(antiFraud, "StakeForfeited");
+      });
+    });
+
     it("Should blacklist worker", async function () {
       expect(await antiFraud.isWorkerBlacklisted(worker1.address)).to.be.false;
 
@@ -815,8 +1985,8 @@ describe("Core Smart Contracts", function () {
         5,
         { latitude: 0, longitude: 0, radius: 100 },
         deadline,
-        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0 },
-        { value: MINIMUM_BOUNTY }
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: TASK_ESCROW }
       );
 
       await taskManager.connect(worker1).claimTask(0);
@@ -904,10 +2074,12 @@ describe("Core Smart Contracts", function () {
 
   describe("VerificationContract", function () {
     let submissionId: number;
+    let mockTaskManager: MockTaskManager;
     const taskId = 0;
     const ipfsHash = "QmTestHash123";
     const location = { latitude: 40748817, longitude: -73985428, radius: 100 };
     const bountyAmount = MINIMUM_BOUNTY;
+    const category = 3; // PRICE_MONITORING
 
     beforeEach(async function () {
       // Create a submission for testing
@@ -917,10 +2089,16 @@ describe("Core Smart Contracts", function () {
         worker1.address,
         ipfsHash,
         location,
-        bountyAmount
+        bountyAmount,
+        category
       );
       const receipt = await tx.wait();
       submissionId = 0; // First submission
+
+      // Consensus reports verified results back to TaskManager
+      const MockTaskManagerFactory = await ethers.getContractFactory("MockTaskManager");
+      mockTaskManager = await MockTaskManagerFactory.deploy();
+      await verificationContract.setTaskManager(await mockTaskManager.getAddress());
     });
 
     it("Should create a submission", async function () {
@@ -932,6 +2110,20 @@ describe("Core Smart Contracts", function () {
       expect(submission.status).to.equal(0); // PENDING
     });
 
+    it("Should accept only one submission per task and worker", async function () {
+      await verificationContract.setTaskManager(owner.address);
+
+      await expect(
+        verificationContract.connect(owner).createSubmission(taskId, worker1.address, "QmOtherHash", location, bountyAmount, category)
+      ).to.be.revertedWithCustomError(verificationContract, "DuplicateSubmission")
+        .withArgs(taskId, worker1.address);
+      expect(await verificationContract.reservedBounty(taskId)).to.equal(bountyAmount);
+
+      await expect(
+        verificationContract.connect(owner).createSubmission(taskId, worker2.address, "QmOtherHash", location, bountyAmount, category)
+      ).to.emit(verificationContract, "SubmissionCreated");
+    });
+
     it("Should accept verification stake", async function () {
       await expect(
         verificationContract.connect(verifier1).stakeForVerification(submissionId, {
@@ -978,6 +2170,23 @@ describe("Core Smart Contracts", function () {
       ).to.be.revertedWithCustomError(verificationContract, "AlreadyVoted");
     });
 
+    it("Should reject a second stake from a verifier who has not voted yet", async function () {
+      await verificationContract.connect(verifier1).stakeForVerification(submissionId, {
+        value: VERIFICATION_STAKE
+      });
+
+      await expect(
+        verificationContract.connect(verifier1).stakeForVerification(submissionId, {
+          value: VERIFICATION_STAKE * BigInt(2)
+        })
+      ).to.be.revertedWithCustomError(verificationContract, "AlreadyStaked")
+        .withArgs(verifier1.address, submissionId);
+
+      const vote = await verificationContract.getVote(submissionId, verifier1.address);
+      expect(vote.stake).to.equal(VERIFICATION_STAKE);
+      expect(await verificationContract.getSubmissionVerifiers(submissionId)).to.deep.equal([verifier1.address]);
+    });
+
     it("Should submit verification vote", async function () {
       await verificationContract.connect(verifier1).stakeForVerification(submissionId, {
         value: VERIFICATION_STAKE
@@ -1015,6 +2224,23 @@ describe("Core Smart Contracts", function () {
       const submission = await verificationContract.getSubmission(submissionId);
       expect(submission.status).to.equal(1); // VERIFIED
       expect(submission.approvalCount).to.equal(3);
+      expect(await mockTaskManager.verifiedCounts(taskId)).to.equal(1);
+    });
+
+    it("Should track category stats for the submission's task category on consensus", async function () {
+      for (const verifier of [verifier1, verifier2, verifier3]) {
+        await verificationContract.connect(verifier).stakeForVerification(submissionId, {
+          value: VERIFICATION_STAKE
+        });
+        await verificationContract.connect(verifier).submitVerification(submissionId, true, "");
+      }
+
+      const stats = await reputationContract.getCategoryStats(worker1.address, category);
+      expect(stats.successCount).to.equal(1);
+      expect(stats.totalCount).to.equal(1);
+
+      const otherStats = await reputationContract.getCategoryStats(worker1.address, 0);
+      expect(otherStats.totalCount).to.equal(0);
     });
 
     it("Should reach consensus with 3 rejections", async function () {
@@ -1036,6 +2262,7 @@ describe("Core Smart Contracts", function () {
       const submission = await verificationContract.getSubmission(submissionId);
       expect(submission.status).to.equal(2); // REJECTED
       expect(submission.rejectionCount).to.equal(3);
+      expect(await mockTaskManager.verifiedCounts(taskId)).to.equal(0);
     });
 
     it("Should enforce 5-minute delay before reward distribution", async function () {
@@ -1078,17 +2305,20 @@ describe("Core Smart Contracts", function () {
       await bountyPool.setTaskManager(owner.address);
       await bountyPool.connect(owner).depositBounty(taskId, { value: bountyAmount });
 
-      const verifier1BalanceBefore = await ethers.provider.getBalance(verifier1.address);
-
       await expect(
         verificationContract.distributeVerificationRewards(submissionId)
       ).to.emit(verificationContract, "VerificationRewardsDistributed");
 
-      const verifier1BalanceAfter = await ethers.provider.getBalance(verifier1.address);
-      
-      // Verifier should receive stake + 10% reward
+      // Verifier should be credited stake + 10% reward
       const expectedReward = VERIFICATION_STAKE + (VERIFICATION_STAKE * BigInt(10) / BigInt(100));
-      expect(verifier1BalanceAfter - verifier1BalanceBefore).to.equal(expectedReward);
+      expect(await verificationContract.withdrawable(verifier1.address)).to.equal(expectedReward);
+
+      const withdrawal = verificationContract.connect(verifier1).withdraw();
+      await expect(withdrawal).to.changeEtherBalance(verifier1, expectedReward);
+      await expect(withdrawal).to.emit(verificationContract, "EarningsWithdrawn")
+        .withArgs(verifier1.address, expectedReward);
+      await expect(verificationContract.connect(verifier1).withdraw())
+        .to.be.revertedWithCustomError(verificationContract, "NothingToWithdraw");
 
       const submission = await verificationContract.getSubmission(submissionId);
       expect(submission.rewardDistributed).to.be.true;
@@ -1128,14 +2358,10 @@ describe("Core Smart Contracts", function () {
       await bountyPool.setTaskManager(owner.address);
       await bountyPool.connect(owner).depositBounty(taskId, { value: bountyAmount });
 
-      const verifier3BalanceBefore = await ethers.provider.getBalance(verifier3.address);
-
       await verificationContract.distributeVerificationRewards(submissionId);
 
-      const verifier3BalanceAfter = await ethers.provider.getBalance(verifier3.address);
-      
       // Verifier3 voted incorrectly, should not receive reward
-      expect(verifier3BalanceAfter).to.equal(verifier3BalanceBefore);
+      expect(await verificationContract.withdrawable(verifier3.address)).to.equal(0);
     });
 
     it("Should prevent reward distribution twice", async function () {
@@ -1166,33 +2392,246 @@ describe("Core Smart Contracts", function () {
       ).to.be.revertedWithCustomError(verificationContract, "RewardAlreadyDistributed");
     });
 
-    it("Should escalate to dispute with max verifiers without consensus", async function () {
-      // Get 7 verifiers
+    describe("Slashed stake accounting", function () {
+      const fullReward = VERIFICATION_STAKE / 10n;
+
+      async function reachConsensus(rejecters: number) {
+        const signers = await ethers.getSigners();
+        const voters = [verifier1, verifier2, verifier3, ...signers.slice(7, 7 + rejecters)];
+        for (const voter of voters) {
+          await verificationContract.connect(voter).stakeForVerification(submissionId, { value: VERIFICATION_STAKE });
+        }
+        // Rejecters vote first so consensus is reached on the third approval
+        for (const voter of voters.slice(3)) {
+          await verificationContract.connect(voter).submitVerification(submissionId, false, "");
+        }
+        for (const voter of voters.slice(0, 3)) {
+          await verificationContract.connect(voter).submitVerification(submissionId, true, "");
+        }
+
+        await ethers.provider.send("evm_increaseTime", [300]);
+        await ethers.provider.send("evm_mine", []);
+        await bountyPool.setTaskManager(owner.address);
+        await bountyPool.connect(owner).depositBounty(taskId, { value: bountyAmount });
+      }
+
+      it("Should fund majority rewards from minority stakes and keep the surplus", async function () {
+        await reachConsensus(1);
+
+        const slashedSurplus = VERIFICATION_STAKE - fullReward * 3n;
+        await expect(verificationContract.distributeVerificationRewards(submissionId))
+          .to.emit(verificationContract, "SlashedStakesAllocated")
+          .withArgs(submissionId, VERIFICATION_STAKE, 0, slashedSurplus);
+
+        expect(await verificationContract.withdrawable(verifier1.address)).to.equal(VERIFICATION_STAKE + fullReward);
+        expect(await verificationContract.slashedStakeSurplus()).to.equal(slashedSurplus);
+      });
+
+      it("Should cover the shortfall from the reward pool and pay pro rata when it runs dry", async function () {
+        const poolFunding = fullReward; // covers one third of the 3 full rewards
+        await expect(verificationContract.fundVerifierRewardPool({ value: poolFunding }))
+          .to.emit(verificationContract, "VerifierRewardPoolFunded")
+          .withArgs(owner.address, poolFunding, poolFunding);
+
+        await reachConsensus(0);
+
+        await expect(verificationContract.distributeVerificationRewards(submissionId))
+          .to.emit(verificationContract, "SlashedStakesAllocated")
+          .withArgs(submissionId, 0, poolFunding, 1n);
+
+        expect(await verificationContract.withdrawable(verifier2.address)).to.equal(VERIFICATION_STAKE + poolFunding / 3n);
+        expect(await verificationContract.verifierRewardPool()).to.equal(0);
+      });
+
+      it("Should let only the owner withdraw leftover funds", async function () {
+        await reachConsensus(1);
+        await verificationContract.distributeVerificationRewards(submissionId);
+        await verificationContract.fundVerifierRewardPool({ value: fullReward });
+
+        const surplus = await verificationContract.slashedStakeSurplus();
+        await expect(
+          verificationContract.connect(verifier1).withdrawSlashedStakeSurplus(surplus)
+        ).to.be.revertedWithCustomError(verificationContract, "OwnableUnauthorizedAccount");
+        await expect(
+          verificationContract.withdrawSlashedStakeSurplus(surplus + 1n)
+        ).to.be.revertedWithCustomError(verificationContract, "InsufficientBalance");
+
+        await expect(verificationContract.withdrawSlashedStakeSurplus(surplus))
+          .to.emit(verificationContract, "SlashedStakeSurplusWithdrawn")
+          .withArgs(owner.address, surplus, 0);
+        await expect(verificationContract.withdrawVerifierRewardPool(fullReward))
+          .to.emit(verificationContract, "VerifierRewardPoolWithdrawn")
+          .withArgs(owner.address, fullReward, 0);
+      });
+    });
+
+    it("Should settle a 3-2 split by default", async function () {
+      const signers = await ethers.getSigners();
+      const verifiers = signers.slice(5, 10);
+      const votes = [true, true, false, false, false];
+
+      for (let i = 0; i < votes.length; i++) {
+        await verificationContract.connect(verifiers[i]).stakeForVerification(submissionId, { value: VERIFICATION_STAKE });
+      }
+      for (let i = 0; i < votes.length - 1; i++) {
+        await verificationContract.connect(verifiers[i]).submitVerification(submissionId, votes[i], "");
+      }
+
+      expect(await verificationContract.contestedMargin()).to.equal(0);
+      await expect(
+        verificationContract.connect(verifiers[4]).submitVerification(submissionId, false, "")
+      ).to.emit(verificationContract, "ConsensusReached")
+        .and.not.to.emit(verificationContract, "DisputeEscalated");
+      expect((await verificationContract.getSubmission(submissionId)).status).to.equal(2); // REJECTED
+    });
+
+    it("Should let only the owner set the contested margin", async function () {
+      await expect(
+        verificationContract.connect(verifier1).setContestedMargin(1)
+      ).to.be.revertedWithCustomError(verificationContract, "OwnableUnauthorizedAccount");
+      await expect(
+        verificationContract.setContestedMargin(3)
+      ).to.be.revertedWithCustomError(verificationContract, "InvalidContestedMargin")
+        .withArgs(3);
+
+      await expect(verificationContract.setContestedMargin(1))
+        .to.emit(verificationContract, "ContestedMarginUpdated")
+        .withArgs(1);
+      expect(await verificationContract.contestedMargin()).to.equal(1);
+    });
+
+    it("Should escalate to dispute on a close split", async function () {
       const signers = await ethers.getSigners();
-      const verifiers = signers.slice(5, 12); // Get 7 verifiers
+      const verifiers = signers.slice(5, 11);
+      await verificationContract.setContestedMargin(1);
 
-      // Stake from all 7 verifiers
       for (const verifier of verifiers) {
         await verificationContract.connect(verifier).stakeForVerification(submissionId, {
           value: VERIFICATION_STAKE
         });
       }
 
-      // Vote with split decision (2 approve, 4 reject - no consensus yet)
-      for (let i = 0; i < 2; i++) {
-        await verificationContract.connect(verifiers[i]).submitVerification(submissionId, true, "");
-      }
-      for (let i = 2; i < 6; i++) {
-        await verificationContract.connect(verifiers[i]).submitVerification(submissionId, false, "");
-      }
+      // 2 approve, 2 reject - no side at the threshold yet
+      await verificationContract.connect(verifiers[0]).submitVerification(submissionId, true, "");
+      await verificationContract.connect(verifiers[1]).submitVerification(submissionId, true, "");
+      await verificationContract.connect(verifiers[2]).submitVerification(submissionId, false, "");
+      await verificationContract.connect(verifiers[3]).submitVerification(submissionId, false, "");
 
-      // 7th vote should trigger dispute (2 approve, 5 reject - still no consensus of 3)
+      // A 3-2 result is too close to settle on its own
       await expect(
-        verificationContract.connect(verifiers[6]).submitVerification(submissionId, true, "")
-      ).to.emit(verificationContract, "DisputeEscalated");
+        verificationContract.connect(verifiers[4]).submitVerification(submissionId, false, "")
+      ).to.emit(verificationContract, "DisputeEscalated")
+        .withArgs(submissionId, 5)
+        .and.not.to.emit(verificationContract, "ConsensusReached");
 
       const submission = await verificationContract.getSubmission(submissionId);
       expect(submission.status).to.equal(3); // DISPUTED
+
+      // Further votes wait for the arbiter, and no new stakes are taken
+      await expect(
+        verificationContract.connect(verifiers[5]).submitVerification(submissionId, true, "")
+      ).to.be.revertedWithCustomError(verificationContract, "AlreadyVerified");
+      await expect(
+        verificationContract.connect(signers[11]).stakeForVerification(submissionId, {
+          value: VERIFICATION_STAKE
+        })
+      ).to.be.revertedWithCustomError(verificationContract, "AlreadyVerified");
+    });
+
+    it("Should settle a 3-1 split without a dispute", async function () {
+      const signers = await ethers.getSigners();
+      const verifiers = signers.slice(5, 9);
+      // Escalation enabled: only splits within the margin go to the arbiter
+      await verificationContract.setContestedMargin(1);
+
+      for (const verifier of verifiers) {
+        await verificationContract.connect(verifier).stakeForVerification(submissionId, {
+          value: VERIFICATION_STAKE
+        });
+      }
+
+      await verificationContract.connect(verifiers[0]).submitVerification(submissionId, false, "");
+      await verificationContract.connect(verifiers[1]).submitVerification(submissionId, true, "");
+      await verificationContract.connect(verifiers[2]).submitVerification(submissionId, true, "");
+      await expect(
+        verificationContract.connect(verifiers[3]).submitVerification(submissionId, true, "")
+      ).to.emit(verificationContract, "ConsensusReached")
+        .and.not.to.emit(verificationContract, "DisputeEscalated");
+
+      expect((await verificationContract.getSubmission(submissionId)).status).to.equal(1); // VERIFIED
+    });
+
+    describe("Dispute resolution", function () {
+      let snapshot: string;
+
+      beforeEach(async function () {
+        snapshot = await ethers.provider.send("evm_snapshot", []);
+        await verificationContract.setContestedMargin(1);
+
+        // Two approvals against three rejections escalates the submission
+        const signers = await ethers.getSigners();
+        const votes = [true, true, false, false, false];
+        for (let i = 0; i < votes.length; i++) {
+          const verifier = [verifier1, verifier2, ...signers.slice(7, 10)][i];
+          await verificationContract.connect(verifier).stakeForVerification(submissionId, { value: VERIFICATION_STAKE });
+          await verificationContract.connect(verifier).submitVerification(submissionId, votes[i], "");
+        }
+        expect((await verificationContract.getSubmission(submissionId)).status).to.equal(3); // DISPUTED
+      });
+
+      afterEach(async function () {
+        // Undo the time travel so later Date.now()-based deadlines stay valid
+        await ethers.provider.send("evm_revert", [snapshot]);
+      });
+
+      it("Should settle a dispute on the arbiter's ruling", async function () {
+        await expect(
+          verificationContract.connect(verifier3).resolveDispute(submissionId, true)
+        ).to.be.revertedWithCustomError(verificationContract, "UnauthorizedCaller");
+
+        await verificationContract.setArbiter(verifier3.address, true);
+        await expect(verificationContract.connect(verifier3).resolveDispute(submissionId, true))
+          .to.emit(verificationContract, "DisputeResolved")
+          .withArgs(submissionId, verifier3.address, true)
+          .and.to.emit(verificationContract, "ConsensusReached");
+
+        const submission = await verificationContract.getSubmission(submissionId);
+        expect(submission.status).to.equal(1); // VERIFIED
+        expect((await reputationContract.getCategoryStats(worker1.address, category)).successCount).to.equal(1);
+        expect(await mockTaskManager.verifiedCounts(taskId)).to.equal(1);
+
+        await expect(
+          verificationContract.connect(verifier3).resolveDispute(submissionId, false)
+        ).to.be.revertedWithCustomError(verificationContract, "NotDisputed");
+
+        // Stakes settle as for normal consensus once the delay passes; the overruled
+        // rejecters fund the approvers' rewards
+        await ethers.provider.send("evm_increaseTime", [300]);
+        await ethers.provider.send("evm_mine", []);
+        await bountyPool.setTaskManager(owner.address);
+        await bountyPool.connect(owner).depositBounty(taskId, { value: bountyAmount });
+        await verificationContract.distributeVerificationRewards(submissionId);
+        const expectedReward = VERIFICATION_STAKE + (VERIFICATION_STAKE * BigInt(1000)) / BigInt(10000);
+        expect(await verificationContract.withdrawable(verifier1.address)).to.equal(expectedReward);
+        expect(await verificationContract.withdrawable((await ethers.getSigners())[7].address)).to.equal(0);
+      });
+
+      it("Should fall back to the vote majority after the timeout", async function () {
+        await expect(
+          verificationContract.resolveExpiredDispute(submissionId)
+        ).to.be.revertedWithCustomError(verificationContract, "DisputeTimeoutNotReached");
+
+        await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60]);
+        await ethers.provider.send("evm_mine", []);
+
+        // The 2-3 majority rejects the submission
+        await expect(verificationContract.resolveExpiredDispute(submissionId))
+          .to.emit(verificationContract, "DisputeResolved")
+          .withArgs(submissionId, ethers.ZeroAddress, false);
+
+        expect((await verificationContract.getSubmission(submissionId)).status).to.equal(2); // REJECTED
+        expect(await verificationContract.getReservedBounty(taskId)).to.equal(0);
+      });
     });
 
     it("Should prevent staking after max verifiers reached", async function () {
@@ -1243,4 +2682,55 @@ describe("Core Smart Contracts", function () {
       expect(await verificationContract.hasConsensus(submissionId)).to.be.true;
     });
   });
+
+  describe("Multicall3", function () {
+    let multicall: Multicall3;
+
+    beforeEach(async function () {
+      const Multicall3Factory = await ethers.getContractFactory("Multicall3");
+      multicall = await Multicall3Factory.deploy();
+    });
+
+    it("Should batch view calls and report failures in place", async function () {
+      await taskManager.connect(creator).createTask(
+        "Batched task",
+        0,
+        MINIMUM_BOUNTY,
+        5,
+        { latitude: 0, longitude: 0, radius: 100 },
+        (await ethers.provider.getBlock("latest"))!.timestamp + 86400,
+        { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false },
+        { value: TASK_ESCROW }
+      );
+
+      const calls = [
+        {
+          target: await taskManager.getAddress(),
+          allowFailure: false,
+          callData: taskManager.interface.encodeFunctionData("getTaskCount"),
+        },
+        {
+          target: await bountyPool.getAddress(),
+          allowFailure: false,
+          callData: bountyPool.interface.encodeFunctionData("getTaskBounty", [0]),
+        },
+        {
+          target: await taskManager.getAddress(),
+          allowFailure: true,
+          callData: taskManager.interface.encodeFunctionData("getCampaignReport", [1]),
+        },
+      ];
+
+      const results = await multicall.aggregate3.staticCall(calls);
+      expect(taskManager.interface.decodeFunctionResult("getTaskCount", results[0].returnData)[0]).to.equal(1);
+      expect(bountyPool.interface.decodeFunctionResult("getTaskBounty", results[1].returnData)[0]).to.equal(TASK_ESCROW);
+      expect(results[2].success).to.be.false;
+      expect(taskManager.interface.parseError(results[2].returnData)?.name).to.equal("InvalidCampaignId");
+
+      calls[2].allowFailure = false;
+      await expect(multicall.aggregate3.staticCall(calls))
+        .to.be.revertedWithCustomError(multicall, "CallFailed")
+        .withArgs(2);
+    });
+  });
 });
@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+export const CONTRACT_NAMES = [
+  'TaskManager',
+  'BountyPool',
+  'VerificationContract',
+  'ReputationContract',
+  'AntiFraud',
+] as const;
+
+export type ContractName = (typeof CONTRACT_NAMES)[number];
+
+export interface IndexerConfig {
+  rpcUrl: string;
+  chainId: string;
+  contracts: Record<ContractName, string>;
+  startBlock: number;
+  databasePath: string;
+  port: number;
+  pollIntervalMs: number;
+  blockBatchSize: number;
+  confirmations: number;
+  maxReorgDepth: number;
+}
+
+interface Deployment {
+  chainId: string;
+  contracts: Record<string, string>;
+  startBlock?: number;
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+// Addresses come from the deployments.json written by scripts/deploy.ts; relative paths
+// resolve against the working directory, i.e. indexer/ when started through npm
+export function loadConfig(): IndexerConfig {
+  const deploymentPath = path.resolve(process.env.DEPLOYMENTS_PATH || '../deployments.json');
+  if (!fs.existsSync(deploymentPath)) {
+    throw new Error(`Deployment file not found at ${deploymentPath}. Deploy the contracts or set DEPLOYMENTS_PATH.`);
+  }
+  const deployment: Deployment = JSON.parse(fs.readFileSync(deploymentPath, 'utf8'));
+
+  const contracts = {} as Record<ContractName, string>;
+  for (const name of CONTRACT_NAMES) {
+    if (!deployment.contracts[name]) {
+      throw new Error(`${name} address missing from ${deploymentPath}`);
+    }
+    contracts[name] = deployment.contracts[name];
+  }
+
+  return {
+    rpcUrl: process.env.RPC_URL || 'http://127.0.0.1:8545',
+    chainId: deployment.chainId,
+    contracts,
+    startBlock: numberFromEnv('START_BLOCK', deployment.startBlock ?? 0),
+    databasePath: path.resolve(process.env.DATABASE_PATH || `data/indexer-${deployment.chainId}.db`),
+    port: numberFromEnv('PORT', 4000),
+    pollIntervalMs: numberFromEnv('POLL_INTERVAL_MS', 2000),
+    blockBatchSize: numberFromEnv('BLOCK_BATCH_SIZE', 2000),
+    // Blocks kept behind the head before indexing; reorgs within the indexed range are rolled back regardless
+    confirmations: numberFromEnv('CONFIRMATIONS', 0),
+    maxReorgDepth: numberFromEnv('MAX_REORG_DEPTH', 256),
+  };
+}
@@ -0,0 +1,63 @@
+import { ethers } from 'ethers';
+import { TaskManager__factory } from '../typechain-types/factories/TaskManager.sol/TaskManager__factory';
+import { BountyPool__factory } from '../typechain-types/factories/BountyPool.sol/BountyPool__factory';
+import { VerificationContract__factory } from '../typechain-types/factories/VerificationContract.sol/VerificationContract__factory';
+import { ReputationContract__factory } from '../typechain-types/factories/ReputationContract__factory';
+import { AntiFraud__factory } from '../typechain-types/factories/AntiFraud.sol/AntiFraud__factory';
+import { ContractName, IndexerConfig } from './config';
+
+export function connectContracts(config: IndexerConfig, provider: ethers.Provider) {
+  return {
+    TaskManager: TaskManager__factory.connect(config.contracts.TaskManager, provider),
+    BountyPool: BountyPool__factory.connect(config.contracts.BountyPool, provider),
+    VerificationContract: VerificationContract__factory.connect(config.contracts.VerificationContract, provider),
+    ReputationContract: ReputationContract__factory.connect(config.contracts.ReputationContract, provider),
+    AntiFraud: AntiFraud__factory.connect(config.contracts.AntiFraud, provider),
+  };
+}
+
+export type Contracts = ReturnType<typeof connectContracts>;
+
+// Decoded log as stored in the events table; bigints are kept as decimal strings
+export interface IndexedEvent {
+  id: number;
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+  contract: ContractName;
+  name: string;
+  args: Record<string, any>;
+  snapshot: Record<string, any> | null;
+}
+
+// JSON-safe copy of decoded contract values
+export function toPlain(value: ethers.Result | Record<string, any>): Record<string, any> {
+  const object = value instanceof ethers.Result ? value.toObject(true) : value;
+  return JSON.parse(JSON.stringify(object, (_, item) => (typeof item === 'bigint' ? item.toString() : item)));
+}
+
+// Event args only describe what changed, so projections also record the task, submission or
+// campaign state as of the log's block. Reading it here keeps replays after a reorg offline.
+export async function readSnapshot(
+  contracts: Contracts,
+  contract: ContractName,
+  args: Record<string, any>,
+  blockTag: number
+): Promise<Record<string, any> | null> {
+  if (contract === 'TaskManager' && args.taskId !== undefined) {
+    const [task, token] = await Promise.all([
+      contracts.TaskManager.getTask(args.taskId, { blockTag }),
+      contracts.BountyPool.getTaskToken(args.taskId, { blockTag }),
+    ]);
+    return { task: toPlain(task), token };
+  }
+  if (contract === 'TaskManager' && args.campaignId !== undefined) {
+    const token = await contracts.BountyPool.campaignTokens(args.campaignId, { blockTag });
+    return { token };
+  }
+  if (contract === 'VerificationContract' && args.submissionId !== undefined) {
+    const submission = await contracts.VerificationContract.getSubmission(args.submissionId, { blockTag });
+    return { submission: toPlain(submission) };
+  }
+  return null;
+}
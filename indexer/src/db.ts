@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+
+// Amounts are stored as decimal TEXT: wei values overflow SQLite's 64-bit integers
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  -- Hashes of indexed blocks, compared against the chain to detect reorgs
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+
+  -- Raw decoded logs; every projection below is rebuilt from this table after a reorg
+  CREATE TABLE IF NOT EXISTS events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    contract TEXT NOT NULL,
+    name TEXT NOT NULL,
+    args TEXT NOT NULL,
+    snapshot TEXT,
+    UNIQUE (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_contract ON events (contract, name);
+
+  CREATE TABLE IF NOT EXISTS tasks (
+    id INTEGER PRIMARY KEY,
+    creator TEXT NOT NULL,
+    description TEXT NOT NULL,
+    category INTEGER NOT NULL,
+    bounty_amount TEXT NOT NULL,
+    max_workers INTEGER NOT NULL,
+    latitude INTEGER NOT NULL,
+    longitude INTEGER NOT NULL,
+    radius INTEGER NOT NULL,
+    deadline INTEGER NOT NULL,
+    status INTEGER NOT NULL,
+    submission_count INTEGER NOT NULL,
+    verified_count INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    token TEXT NOT NULL,
+    campaign_id INTEGER,
+    updated_block INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS tasks_by_status ON tasks (status, id);
+  CREATE INDEX IF NOT EXISTS tasks_by_creator ON tasks (creator, id);
+
+  CREATE TABLE IF NOT EXISTS campaigns (
+    id INTEGER PRIMARY KEY,
+    creator TEXT NOT NULL,
+    category INTEGER NOT NULL,
+    bounty_amount TEXT NOT NULL,
+    budget TEXT NOT NULL,
+    token TEXT NOT NULL,
+    task_count INTEGER NOT NULL,
+    closed INTEGER NOT NULL,
+    refunded_budget TEXT NOT NULL,
+    created_block INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS campaigns_by_creator ON campaigns (creator, id);
+
+  CREATE TABLE IF NOT EXISTS submissions (
+    id INTEGER PRIMARY KEY,
+    task_id INTEGER NOT NULL,
+    worker TEXT NOT NULL,
+    ipfs_hash TEXT NOT NULL,
+    status INTEGER NOT NULL,
+    approval_count INTEGER NOT NULL,
+    rejection_count INTEGER NOT NULL,
+    total_votes INTEGER NOT NULL,
+    bounty_amount TEXT NOT NULL,
+    reward_distributed INTEGER NOT NULL,
+    submitted_at INTEGER NOT NULL,
+    updated_block INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS submissions_by_task ON submissions (task_id, id);
+  CREATE INDEX IF NOT EXISTS submissions_by_worker ON submissions (worker, id);
+
+  CREATE TABLE IF NOT EXISTS votes (
+    submission_id INTEGER NOT NULL,
+    verifier TEXT NOT NULL,
+    stake TEXT NOT NULL,
+    approved INTEGER,
+    staked_at INTEGER NOT NULL,
+    voted_at INTEGER,
+    PRIMARY KEY (submission_id, verifier)
+  );
+  CREATE INDEX IF NOT EXISTS votes_by_verifier ON votes (verifier, submission_id);
+
+  -- Credits and withdrawals of the pull-payment balances in BountyPool and VerificationContract
+  CREATE TABLE IF NOT EXISTS earnings (
+    event_id INTEGER PRIMARY KEY,
+    account TEXT NOT NULL,
+    source TEXT NOT NULL,
+    token TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    tx_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS earnings_by_account ON earnings (account, event_id);
+
+  CREATE TABLE IF NOT EXISTS reputation_history (
+    event_id INTEGER PRIMARY KEY,
+    account TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    successful INTEGER,
+    score INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS reputation_by_account ON reputation_history (account, event_id);
+
+  CREATE TABLE IF NOT EXISTS badges (
+    account TEXT NOT NULL,
+    category INTEGER NOT NULL,
+    awarded_at INTEGER NOT NULL,
+    PRIMARY KEY (account, category)
+  );
+`;
+
+// Tables derived from events, in the order they are cleared before a replay
+export const PROJECTION_TABLES = [
+  'tasks',
+  'campaigns',
+  'submissions',
+  'votes',
+  'earnings',
+  'reputation_history',
+  'badges',
+];
+
+export function openDatabase(databasePath: string, chainId: string): Database.Database {
+  fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+  const db = new Database(databasePath);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  // A database file only ever holds one chain's history
+  const stored = db.prepare('SELECT value FROM meta WHERE key = ?').pluck().get('chainId') as string | undefined;
+  if (stored === undefined) {
+    db.prepare('INSERT INTO meta (key, value) VALUES (?, ?)').run('chainId', chainId);
+  } else if (stored !== chainId) {
+    db.close();
+    throw new Error(`${databasePath} was indexed from chain ${stored}, not ${chainId}. Use another DATABASE_PATH.`);
+  }
+
+  return db;
+}
@@ -0,0 +1,216 @@
+import Database from 'better-sqlite3';
+import { buildSchema } from 'graphql';
+import { Indexer } from './sync';
+import {
+  getEarnings,
+  getReputation,
+  getSubmission,
+  getTask,
+  listCampaigns,
+  listEvents,
+  listSubmissions,
+  listTasks,
+  listVotes,
+} from './queries';
+
+// Amounts are wei (or token base units) as decimal strings; coordinates are microdegrees
+export const schema = buildSchema(`
+  type Status {
+    chainId: String!
+    startBlock: Int!
+    indexedBlock: Int!
+    headBlock: Int
+  }
+
+  type Location {
+    latitude: Int!
+    longitude: Int!
+    radius: Int!
+  }
+
+  type Task {
+    id: Int!
+    creator: String!
+    description: String!
+    category: Int!
+    bountyAmount: String!
+    maxWorkers: Int!
+    location: Location!
+    deadline: Int!
+    status: Int!
+    submissionCount: Int!
+    verifiedCount: Int!
+    createdAt: Int!
+    token: String!
+    campaignId: Int
+    submissions: [Submission!]!
+  }
+
+  type TaskPage {
+    items: [Task!]!
+    total: Int!
+  }
+
+  type Campaign {
+    id: Int!
+    creator: String!
+    category: Int!
+    bountyAmount: String!
+    budget: String!
+    token: String!
+    taskCount: Int!
+    closed: Boolean!
+    refundedBudget: String!
+  }
+
+  type CampaignPage {
+    items: [Campaign!]!
+    total: Int!
+  }
+
+  type Submission {
+    id: Int!
+    taskId: Int!
+    worker: String!
+    ipfsHash: String!
+    status: Int!
+    approvalCount: Int!
+    rejectionCount: Int!
+    totalVotes: Int!
+    bountyAmount: String!
+    rewardDistributed: Boolean!
+    submittedAt: Int!
+    votes: [Vote!]!
+  }
+
+  type SubmissionPage {
+    items: [Submission!]!
+    total: Int!
+  }
+
+  type Vote {
+    submissionId: Int!
+    verifier: String!
+    stake: String!
+    approved: Boolean
+    stakedAt: Int!
+    votedAt: Int
+  }
+
+  type VotePage {
+    items: [Vote!]!
+    total: Int!
+  }
+
+  type EarningBalance {
+    source: String!
+    token: String!
+    credited: String!
+    withdrawn: String!
+    available: String!
+  }
+
+  type EarningEntry {
+    source: String!
+    token: String!
+    kind: String!
+    amount: String!
+    txHash: String!
+    timestamp: Int!
+  }
+
+  type Earnings {
+    balances: [EarningBalance!]!
+    entries: [EarningEntry!]!
+  }
+
+  type ReputationChange {
+    reason: String!
+    successful: Boolean
+    score: Int!
+    txHash: String!
+    timestamp: Int!
+  }
+
+  type Badge {
+    category: Int!
+    awardedAt: Int!
+  }
+
+  type Reputation {
+    account: String!
+    score: Int
+    history: [ReputationChange!]!
+    badges: [Badge!]!
+  }
+
+  type Event {
+    id: Int!
+    blockNumber: Int!
+    timestamp: Int!
+    txHash: String!
+    logIndex: Int!
+    contract: String!
+    name: String!
+    "Decoded event arguments as a JSON object"
+    args: String!
+  }
+
+  type EventPage {
+    items: [Event!]!
+    total: Int!
+  }
+
+  type Query {
+    status: Status!
+    tasks(status: Int, creator: String, campaignId: Int, offset: Int, limit: Int): TaskPage!
+    task(id: Int!): Task
+    campaigns(creator: String, offset: Int, limit: Int): CampaignPage!
+    submissions(taskId: Int, worker: String, status: Int, offset: Int, limit: Int): SubmissionPage!
+    submission(id: Int!): Submission
+    votes(submissionId: Int, verifier: String, offset: Int, limit: Int): VotePage!
+    earnings(account: String!): Earnings!
+    reputation(account: String!): Reputation!
+    events(contract: String, name: String, offset: Int, limit: Int): EventPage!
+  }
+`);
+
+// Nested lists are resolved lazily: graphql-js calls function-valued fields only when selected
+export function createRootValue(db: Database.Database, indexer: Indexer) {
+  const withVotes = <T extends { id: number }>(submission: T) => ({
+    ...submission,
+    votes: () => listVotes(db, { submissionId: submission.id }, { limit: 100 }).items,
+  });
+  const withSubmissions = <T extends { id: number }>(task: T) => ({
+    ...task,
+    submissions: () => listSubmissions(db, { taskId: task.id }, { limit: 100 }).items.map(withVotes),
+  });
+
+  return {
+    status: () => indexer.getStatus(),
+    tasks: ({ offset, limit, ...filters }: any) => {
+      const page = listTasks(db, filters, { offset, limit });
+      return { ...page, items: page.items.map(withSubmissions) };
+    },
+    task: ({ id }: { id: number }) => {
+      const task = getTask(db, id);
+      return task && withSubmissions(task);
+    },
+    campaigns: ({ offset, limit, ...filters }: any) => listCampaigns(db, filters, { offset, limit }),
+    submissions: ({ offset, limit, ...filters }: any) => {
+      const page = listSubmissions(db, filters, { offset, limit });
+      return { ...page, items: page.items.map(withVotes) };
+    },
+    submission: ({ id }: { id: number }) => {
+      const submission = getSubmission(db, id);
+      return submission && withVotes(submission);
+    },
+    votes: ({ offset, limit, ...filters }: any) => listVotes(db, filters, { offset, limit }),
+    earnings: ({ account }: { account: string }) => getEarnings(db, account),
+    reputation: ({ account }: { account: string }) => getReputation(db, account),
+    events: ({ offset, limit, ...filters }: any) => {
+      const page = listEvents(db, filters, { offset, limit });
+      return { ...page, items: page.items.map((event) => ({ ...event, args: JSON.stringify(event.args) })) };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { ethers } from 'ethers';
+import { loadConfig } from './config';
+import { connectContracts } from './contracts';
+import { openDatabase } from './db';
+import { createServer } from './server';
+import { Indexer } from './sync';
+
+async function main() {
+  const config = loadConfig();
+
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  const network = await provider.getNetwork();
+  if (network.chainId.toString() !== config.chainId) {
+    throw new Error(`RPC ${config.rpcUrl} is on chain ${network.chainId}, but the deployment is for chain ${config.chainId}`);
+  }
+
+  const db = openDatabase(config.databasePath, config.chainId);
+  const indexer = new Indexer(db, provider, connectContracts(config, provider), config);
+
+  console.log(`Indexing chain ${config.chainId} from block ${config.startBlock} into ${config.databasePath}`);
+  indexer.start();
+
+  const server = createServer(db, indexer).listen(config.port, () => {
+    console.log(`Indexer API listening on http://localhost:${config.port} (REST under /api, GraphQL at /graphql)`);
+  });
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close(() => {
+      db.close();
+      provider.destroy();
+      process.exit(0);
+    });
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,200 @@
+import Database from 'better-sqlite3';
+import { ethers } from 'ethers';
+import { IndexedEvent } from './contracts';
+import { PROJECTION_TABLES } from './db';
+
+type Handler = (db: Database.Database, event: IndexedEvent) => void;
+
+function upsertTask(db: Database.Database, event: IndexedEvent) {
+  const { task, token } = event.snapshot!;
+  db.prepare(`
+    INSERT INTO tasks (
+      id, creator, description, category, bounty_amount, max_workers, latitude, longitude, radius,
+      deadline, status, submission_count, verified_count, created_at, token, updated_block
+    ) VALUES (
+      @id, @creator, @description, @category, @bountyAmount, @maxWorkers, @latitude, @longitude, @radius,
+      @deadline, @status, @submissionCount, @verifiedCount, @createdAt, @token, @updatedBlock
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      description = excluded.description,
+      bounty_amount = excluded.bounty_amount,
+      max_workers = excluded.max_workers,
+      deadline = excluded.deadline,
+      status = excluded.status,
+      submission_count = excluded.submission_count,
+      verified_count = excluded.verified_count,
+      token = excluded.token,
+      updated_block = excluded.updated_block
+  `).run({
+    id: Number(task.id),
+    creator: task.creator,
+    description: task.description,
+    category: Number(task.category),
+    bountyAmount: task.bountyAmount,
+    maxWorkers: Number(task.maxWorkers),
+    latitude: Number(task.location.latitude),
+    longitude: Number(task.location.longitude),
+    radius: Number(task.location.radius),
+    deadline: Number(task.deadline),
+    status: Number(task.status),
+    submissionCount: Number(task.submissionCount),
+    verifiedCount: Number(task.verifiedCount),
+    createdAt: Number(task.createdAt),
+    token,
+    updatedBlock: event.blockNumber,
+  });
+}
+
+function upsertSubmission(db: Database.Database, event: IndexedEvent) {
+  const { submission } = event.snapshot!;
+  db.prepare(`
+    INSERT INTO submissions (
+      id, task_id, worker, ipfs_hash, status, approval_count, rejection_count, total_votes,
+      bounty_amount, reward_distributed, submitted_at, updated_block
+    ) VALUES (
+      @id, @taskId, @worker, @ipfsHash, @status, @approvalCount, @rejectionCount, @totalVotes,
+      @bountyAmount, @rewardDistributed, @submittedAt, @updatedBlock
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      status = excluded.status,
+      approval_count = excluded.approval_count,
+      rejection_count = excluded.rejection_count,
+      total_votes = excluded.total_votes,
+      reward_distributed = excluded.reward_distributed,
+      updated_block = excluded.updated_block
+  `).run({
+    id: Number(submission.id),
+    taskId: Number(submission.taskId),
+    worker: submission.worker,
+    ipfsHash: submission.ipfsHash,
+    status: Number(submission.status),
+    approvalCount: Number(submission.approvalCount),
+    rejectionCount: Number(submission.rejectionCount),
+    totalVotes: Number(submission.totalVotes),
+    bountyAmount: submission.bountyAmount,
+    rewardDistributed: submission.rewardDistributed ? 1 : 0,
+    submittedAt: Number(submission.timestamp),
+    updatedBlock: event.blockNumber,
+  });
+}
+
+function recordEarning(source: 'bounties' | 'verification', kind: 'credited' | 'withdrawn'): Handler {
+  return (db, event) => {
+    db.prepare(`
+      INSERT INTO earnings (event_id, account, source, token, kind, amount, tx_hash, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      event.id,
+      event.args.account,
+      source,
+      // VerificationContract only ever credits CELO
+      event.args.token ?? ethers.ZeroAddress,
+      kind,
+      event.args.amount,
+      event.txHash,
+      event.timestamp
+    );
+  };
+}
+
+// Arguments name the event fields holding the account, the optional outcome flag and the new score
+function recordReputation(reason: string, accountArg: string, outcomeArg: string | null, scoreArg: string): Handler {
+  return (db, event) => {
+    db.prepare(`
+      INSERT INTO reputation_history (event_id, account, reason, successful, score, tx_hash, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      event.id,
+      event.args[accountArg],
+      reason,
+      outcomeArg === null ? null : event.args[outcomeArg] ? 1 : 0,
+      Number(event.args[scoreArg]),
+      event.txHash,
+      event.timestamp
+    );
+  };
+}
+
+// Keyed by "<contract>.<event>"; events without a handler are only kept in the events table
+const HANDLERS: Record<string, Handler> = {
+  'TaskManager.CampaignCreated': (db, event) => {
+    db.prepare(`
+      INSERT INTO campaigns (id, creator, category, bounty_amount, budget, token, task_count, closed, refunded_budget, created_block)
+      VALUES (?, ?, ?, ?, ?, ?, 0, 0, '0', ?)
+    `).run(
+      Number(event.args.campaignId),
+      event.args.creator,
+      Number(event.args.category),
+      event.args.bountyAmount,
+      event.args.budget,
+      event.snapshot!.token,
+      event.blockNumber
+    );
+  },
+  'TaskManager.CampaignTaskAdded': (db, event) => {
+    upsertTask(db, event);
+    db.prepare('UPDATE tasks SET campaign_id = ? WHERE id = ?').run(Number(event.args.campaignId), Number(event.args.taskId));
+    db.prepare('UPDATE campaigns SET task_count = task_count + 1 WHERE id = ?').run(Number(event.args.campaignId));
+  },
+  'TaskManager.CampaignClosed': (db, event) => {
+    db.prepare('UPDATE campaigns SET closed = 1, refunded_budget = ? WHERE id = ?').run(
+      event.args.refundedBudget,
+      Number(event.args.campaignId)
+    );
+  },
+
+  'VerificationContract.VerificationStaked': (db, event) => {
+    upsertSubmission(db, event);
+    db.prepare(`
+      INSERT INTO votes (submission_id, verifier, stake, staked_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT (submission_id, verifier) DO UPDATE SET stake = excluded.stake, staked_at = excluded.staked_at
+    `).run(Number(event.args.submissionId), event.args.verifier, event.args.amount, event.timestamp);
+  },
+  'VerificationContract.VoteSubmitted': (db, event) => {
+    upsertSubmission(db, event);
+    db.prepare('UPDATE votes SET approved = ?, voted_at = ? WHERE submission_id = ? AND verifier = ?').run(
+      event.args.approved ? 1 : 0,
+      event.timestamp,
+      Number(event.args.submissionId),
+      event.args.verifier
+    );
+  },
+
+  'BountyPool.EarningsCredited': recordEarning('bounties', 'credited'),
+  'BountyPool.EarningsWithdrawn': recordEarning('bounties', 'withdrawn'),
+  'VerificationContract.EarningsCredited': recordEarning('verification', 'credited'),
+  'VerificationContract.EarningsWithdrawn': recordEarning('verification', 'withdrawn'),
+
+  'ReputationContract.ReputationInitialized': recordReputation('initialized', 'user', null, 'initialScore'),
+  'ReputationContract.WorkerReputationUpdated': recordReputation('task', 'worker', 'successful', 'newScore'),
+  'ReputationContract.VerifierReputationUpdated': recordReputation('verification', 'verifier', 'accurate', 'newScore'),
+  'ReputationContract.AbandonedClaimRecorded': recordReputation('abandoned', 'worker', null, 'newScore'),
+  'ReputationContract.CategoryBadgeAwarded': (db, event) => {
+    db.prepare('INSERT OR IGNORE INTO badges (account, category, awarded_at) VALUES (?, ?, ?)').run(
+      event.args.worker,
+      Number(event.args.category),
+      event.timestamp
+    );
+  },
+};
+
+export function applyEvent(db: Database.Database, event: IndexedEvent) {
+  const handler = HANDLERS[`${event.contract}.${event.name}`];
+  if (handler) {
+    handler(db, event);
+    return;
+  }
+
+  // Every other task or submission event only changes the entity's state
+  if (event.snapshot?.task) {
+    upsertTask(db, event);
+  } else if (event.snapshot?.submission) {
+    upsertSubmission(db, event);
+  }
+}
+
+export function resetProjections(db: Database.Database) {
+  for (const table of PROJECTION_TABLES) {
+    db.prepare(`DELETE FROM ${table}`).run();
+  }
+}
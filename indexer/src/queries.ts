@@ -0,0 +1,264 @@
+import Database from 'better-sqlite3';
+import { ethers } from 'ethers';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Invalid filter values; the REST API answers these with 400
+export class QueryError extends Error {}
+
+export interface PageOptions {
+  offset?: number | null;
+  limit?: number | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+}
+
+function normalizeAddress(value: string): string {
+  try {
+    return ethers.getAddress(value);
+  } catch {
+    throw new QueryError(`Invalid address: ${value}`);
+  }
+}
+
+function optionalAddress(value: string | null | undefined): string | undefined {
+  return value === undefined || value === null ? undefined : normalizeAddress(value);
+}
+
+// Runs a filtered, ordered page query; filters without a value are skipped
+function selectPage<T>(
+  db: Database.Database,
+  table: string,
+  filters: Record<string, string | number | null | undefined>,
+  orderBy: string,
+  options: PageOptions,
+  map: (row: any) => T
+): Page<T> {
+  const offset = options.offset ?? 0;
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1) {
+    throw new QueryError('offset must be a non-negative integer and limit a positive integer');
+  }
+
+  const conditions = Object.entries(filters).filter(([, value]) => value !== undefined && value !== null);
+  const where = conditions.length > 0 ? `WHERE ${conditions.map(([column]) => `${column} = ?`).join(' AND ')}` : '';
+  const values = conditions.map(([, value]) => value);
+
+  const total = db.prepare(`SELECT COUNT(*) FROM ${table} ${where}`).pluck().get(...values) as number;
+  const rows = db
+    .prepare(`SELECT * FROM ${table} ${where} ORDER BY ${orderBy} LIMIT ? OFFSET ?`)
+    .all(...values, Math.min(limit, MAX_PAGE_SIZE), offset);
+
+  return { items: rows.map(map), total };
+}
+
+function mapTask(row: any) {
+  return {
+    id: row.id,
+    creator: row.creator,
+    description: row.description,
+    category: row.category,
+    bountyAmount: row.bounty_amount,
+    maxWorkers: row.max_workers,
+    // Microdegrees, as stored on-chain
+    location: { latitude: row.latitude, longitude: row.longitude, radius: row.radius },
+    deadline: row.deadline,
+    status: row.status,
+    submissionCount: row.submission_count,
+    verifiedCount: row.verified_count,
+    createdAt: row.created_at,
+    token: row.token,
+    campaignId: row.campaign_id,
+  };
+}
+
+function mapCampaign(row: any) {
+  return {
+    id: row.id,
+    creator: row.creator,
+    category: row.category,
+    bountyAmount: row.bounty_amount,
+    budget: row.budget,
+    token: row.token,
+    taskCount: row.task_count,
+    closed: row.closed === 1,
+    refundedBudget: row.refunded_budget,
+  };
+}
+
+function mapSubmission(row: any) {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    worker: row.worker,
+    ipfsHash: row.ipfs_hash,
+    status: row.status,
+    approvalCount: row.approval_count,
+    rejectionCount: row.rejection_count,
+    totalVotes: row.total_votes,
+    bountyAmount: row.bounty_amount,
+    rewardDistributed: row.reward_distributed === 1,
+    submittedAt: row.submitted_at,
+  };
+}
+
+function mapVote(row: any) {
+  return {
+    submissionId: row.submission_id,
+    verifier: row.verifier,
+    stake: row.stake,
+    approved: row.approved === null ? null : row.approved === 1,
+    stakedAt: row.staked_at,
+    votedAt: row.voted_at,
+  };
+}
+
+export function listTasks(
+  db: Database.Database,
+  filters: { status?: number; creator?: string; campaignId?: number },
+  page: PageOptions
+) {
+  return selectPage(
+    db,
+    'tasks',
+    {
+      status: filters.status,
+      creator: optionalAddress(filters.creator),
+      campaign_id: filters.campaignId,
+    },
+    'id DESC',
+    page,
+    mapTask
+  );
+}
+
+export function getTask(db: Database.Database, id: number) {
+  const row = db.prepare('SELECT * FROM tasks WHERE id = ?').get(id);
+  return row ? mapTask(row) : null;
+}
+
+export function listCampaigns(db: Database.Database, filters: { creator?: string }, page: PageOptions) {
+  return selectPage(
+    db,
+    'campaigns',
+    { creator: optionalAddress(filters.creator) },
+    'id DESC',
+    page,
+    mapCampaign
+  );
+}
+
+export function listSubmissions(
+  db: Database.Database,
+  filters: { taskId?: number; worker?: string; status?: number },
+  page: PageOptions
+) {
+  return selectPage(
+    db,
+    'submissions',
+    {
+      task_id: filters.taskId,
+      worker: optionalAddress(filters.worker),
+      status: filters.status,
+    },
+    'id DESC',
+    page,
+    mapSubmission
+  );
+}
+
+export function getSubmission(db: Database.Database, id: number) {
+  const row = db.prepare('SELECT * FROM submissions WHERE id = ?').get(id);
+  return row ? mapSubmission(row) : null;
+}
+
+export function listVotes(db: Database.Database, filters: { submissionId?: number; verifier?: string }, page: PageOptions) {
+  return selectPage(
+    db,
+    'votes',
+    {
+      submission_id: filters.submissionId,
+      verifier: optionalAddress(filters.verifier),
+    },
+    'submission_id DESC, staked_at',
+    page,
+    mapVote
+  );
+}
+
+// Ledger of an account's credited rewards, refunds and stakes, with the balance still to withdraw
+export function getEarnings(db: Database.Database, account: string) {
+  const rows = db
+    .prepare('SELECT * FROM earnings WHERE account = ? ORDER BY event_id DESC')
+    .all(normalizeAddress(account)) as any[];
+
+  const balances = new Map<string, { source: string; token: string; credited: bigint; withdrawn: bigint }>();
+  for (const row of rows) {
+    const key = `${row.source}:${row.token}`;
+    const balance = balances.get(key) ?? { source: row.source, token: row.token, credited: 0n, withdrawn: 0n };
+    if (row.kind === 'credited') {
+      balance.credited += BigInt(row.amount);
+    } else {
+      balance.withdrawn += BigInt(row.amount);
+    }
+    balances.set(key, balance);
+  }
+
+  return {
+    balances: [...balances.values()].map((balance) => ({
+      source: balance.source,
+      token: balance.token,
+      credited: balance.credited.toString(),
+      withdrawn: balance.withdrawn.toString(),
+      available: (balance.credited - balance.withdrawn).toString(),
+    })),
+    entries: rows.map((row) => ({
+      source: row.source,
+      token: row.token,
+      kind: row.kind,
+      amount: row.amount,
+      txHash: row.tx_hash,
+      timestamp: row.timestamp,
+    })),
+  };
+}
+
+export function getReputation(db: Database.Database, account: string) {
+  const address = normalizeAddress(account);
+  const history = db
+    .prepare('SELECT * FROM reputation_history WHERE account = ? ORDER BY event_id DESC')
+    .all(address) as any[];
+  const badges = db
+    .prepare('SELECT category, awarded_at FROM badges WHERE account = ? ORDER BY category')
+    .all(address) as any[];
+
+  return {
+    account: address,
+    score: history.length > 0 ? history[0].score : null,
+    history: history.map((row) => ({
+      reason: row.reason,
+      successful: row.successful === null ? null : row.successful === 1,
+      score: row.score,
+      txHash: row.tx_hash,
+      timestamp: row.timestamp,
+    })),
+    badges: badges.map((row) => ({ category: row.category, awardedAt: row.awarded_at })),
+  };
+}
+
+export function listEvents(db: Database.Database, filters: { contract?: string; name?: string }, page: PageOptions) {
+  return selectPage(db, 'events', { contract: filters.contract, name: filters.name }, 'id DESC', page, (row) => ({
+    id: row.id,
+    blockNumber: row.block_number,
+    timestamp: row.timestamp,
+    txHash: row.tx_hash,
+    logIndex: row.log_index,
+    contract: row.contract,
+    name: row.name,
+    args: JSON.parse(row.args),
+  }));
+}
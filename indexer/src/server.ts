@@ -0,0 +1,146 @@
+import Database from 'better-sqlite3';
+import express, { NextFunction, Request, Response } from 'express';
+import { graphql } from 'graphql';
+import { createRootValue, schema } from './graphql';
+import { Indexer } from './sync';
+import {
+  getEarnings,
+  getReputation,
+  getSubmission,
+  getTask,
+  listCampaigns,
+  listEvents,
+  listSubmissions,
+  listTasks,
+  listVotes,
+  QueryError,
+} from './queries';
+
+function intParam(value: unknown, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (typeof value !== 'string' || value === '' || !Number.isInteger(parsed)) {
+    throw new QueryError(`${name} must be an integer`);
+  }
+  return parsed;
+}
+
+function stringParam(value: unknown, name: string): string | undefined {
+  if (value !== undefined && typeof value !== 'string') {
+    throw new QueryError(`${name} must be a single value`);
+  }
+  return value;
+}
+
+function pageParams(req: Request) {
+  return { offset: intParam(req.query.offset, 'offset'), limit: intParam(req.query.limit, 'limit') };
+}
+
+export function createServer(db: Database.Database, indexer: Indexer) {
+  const app = express();
+  const rootValue = createRootValue(db, indexer);
+
+  app.use(express.json());
+
+  // The frontends are served from their own dev servers
+  app.use((req, res, next) => {
+    res.header('Access-Control-Allow-Origin', '*');
+    res.header('Access-Control-Allow-Headers', 'Content-Type');
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(204);
+      return;
+    }
+    next();
+  });
+
+  app.get('/api/status', (_req, res) => {
+    res.json(indexer.getStatus());
+  });
+
+  app.get('/api/tasks', (req, res) => {
+    const filters = {
+      status: intParam(req.query.status, 'status'),
+      creator: stringParam(req.query.creator, 'creator'),
+      campaignId: intParam(req.query.campaignId, 'campaignId'),
+    };
+    res.json(listTasks(db, filters, pageParams(req)));
+  });
+
+  app.get('/api/tasks/:id', (req, res) => {
+    const task = getTask(db, intParam(req.params.id, 'id')!);
+    if (!task) {
+      res.status(404).json({ error: `Task ${req.params.id} not found` });
+      return;
+    }
+    res.json({ ...task, submissions: listSubmissions(db, { taskId: task.id }, { limit: 100 }).items });
+  });
+
+  app.get('/api/campaigns', (req, res) => {
+    res.json(listCampaigns(db, { creator: stringParam(req.query.creator, 'creator') }, pageParams(req)));
+  });
+
+  app.get('/api/submissions', (req, res) => {
+    const filters = {
+      taskId: intParam(req.query.taskId, 'taskId'),
+      worker: stringParam(req.query.worker, 'worker'),
+      status: intParam(req.query.status, 'status'),
+    };
+    res.json(listSubmissions(db, filters, pageParams(req)));
+  });
+
+  app.get('/api/submissions/:id', (req, res) => {
+    const submission = getSubmission(db, intParam(req.params.id, 'id')!);
+    if (!submission) {
+      res.status(404).json({ error: `Submission ${req.params.id} not found` });
+      return;
+    }
+    res.json({ ...submission, votes: listVotes(db, { submissionId: submission.id }, { limit: 100 }).items });
+  });
+
+  app.get('/api/votes', (req, res) => {
+    const filters = {
+      submissionId: intParam(req.query.submissionId, 'submissionId'),
+      verifier: stringParam(req.query.verifier, 'verifier'),
+    };
+    res.json(listVotes(db, filters, pageParams(req)));
+  });
+
+  app.get('/api/accounts/:address/earnings', (req, res) => {
+    res.json(getEarnings(db, req.params.address));
+  });
+
+  app.get('/api/accounts/:address/reputation', (req, res) => {
+    res.json(getReputation(db, req.params.address));
+  });
+
+  app.get('/api/events', (req, res) => {
+    const filters = {
+      contract: stringParam(req.query.contract, 'contract'),
+      name: stringParam(req.query.name, 'name'),
+    };
+    res.json(listEvents(db, filters, pageParams(req)));
+  });
+
+  app.post('/graphql', async (req, res) => {
+    const { query, variables, operationName } = req.body ?? {};
+    if (typeof query !== 'string') {
+      res.status(400).json({ errors: [{ message: 'Request body must contain a GraphQL query string' }] });
+      return;
+    }
+    const result = await graphql({ schema, source: query, rootValue, variableValues: variables, operationName });
+    res.json(result);
+  });
+
+  app.use((error: Error, _req: Request, res: Response, _next: NextFunction) => {
+    if (error instanceof QueryError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Request failed:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  });
+
+  return app;
+}
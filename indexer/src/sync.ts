@@ -0,0 +1,231 @@
+import Database from 'better-sqlite3';
+import { ethers } from 'ethers';
+import { ContractName, CONTRACT_NAMES, IndexerConfig } from './config';
+import { Contracts, IndexedEvent, readSnapshot, toPlain } from './contracts';
+import { applyEvent, resetProjections } from './projections';
+
+interface EventRow {
+  id: number;
+  block_number: number;
+  timestamp: number;
+  tx_hash: string;
+  contract: ContractName;
+  name: string;
+  args: string;
+  snapshot: string | null;
+}
+
+type PendingEvent = Omit<IndexedEvent, 'id'> & { blockHash: string; logIndex: number };
+
+export interface IndexerStatus {
+  chainId: string;
+  startBlock: number;
+  indexedBlock: number;
+  headBlock: number | null;
+}
+
+function toIndexedEvent(row: EventRow): IndexedEvent {
+  return {
+    id: row.id,
+    blockNumber: row.block_number,
+    timestamp: row.timestamp,
+    txHash: row.tx_hash,
+    contract: row.contract,
+    name: row.name,
+    args: JSON.parse(row.args),
+    snapshot: row.snapshot ? JSON.parse(row.snapshot) : null,
+  };
+}
+
+// Follows the platform contracts' logs into SQLite. Each poll first checks that the last indexed
+// block is still canonical; if not, everything after the newest surviving block is dropped and
+// the projections are replayed from the remaining events.
+export class Indexer {
+  private readonly contractsByAddress = new Map<string, { name: ContractName; contract: ethers.BaseContract }>();
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = false;
+  private headBlock: number | null = null;
+
+  constructor(
+    private db: Database.Database,
+    private provider: ethers.Provider,
+    private contracts: Contracts,
+    private config: IndexerConfig
+  ) {
+    for (const name of CONTRACT_NAMES) {
+      this.contractsByAddress.set(config.contracts[name].toLowerCase(), { name, contract: contracts[name] });
+    }
+  }
+
+  start() {
+    const loop = async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        console.error('Indexing failed, retrying on the next poll:', error);
+      }
+      if (!this.stopped) {
+        this.timer = setTimeout(loop, this.config.pollIntervalMs);
+      }
+    };
+    loop();
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+  }
+
+  getStatus(): IndexerStatus {
+    return {
+      chainId: this.config.chainId,
+      startBlock: this.config.startBlock,
+      indexedBlock: this.getIndexedBlock(),
+      headBlock: this.headBlock,
+    };
+  }
+
+  async poll() {
+    await this.rollbackReorgedBlocks();
+
+    this.headBlock = await this.provider.getBlockNumber();
+    const target = this.headBlock - this.config.confirmations;
+
+    for (let from = this.getIndexedBlock() + 1; from <= target && !this.stopped; ) {
+      const to = Math.min(target, from + this.config.blockBatchSize - 1);
+      await this.indexRange(from, to);
+      from = to + 1;
+    }
+  }
+
+  private getIndexedBlock(): number {
+    const value = this.db.prepare('SELECT value FROM meta WHERE key = ?').pluck().get('indexedBlock') as string | undefined;
+    return value === undefined ? this.config.startBlock - 1 : Number(value);
+  }
+
+  private setIndexedBlock(blockNumber: number) {
+    this.db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run('indexedBlock', String(blockNumber));
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number) {
+    const logs = await this.provider.getLogs({
+      address: CONTRACT_NAMES.map((name) => this.config.contracts[name]),
+      fromBlock,
+      toBlock,
+    });
+
+    const blocks = new Map<string, ethers.Block>();
+    const events: PendingEvent[] = [];
+    const blockHashes = new Map<number, string>();
+
+    for (const log of logs) {
+      const source = this.contractsByAddress.get(log.address.toLowerCase());
+      const parsed = source?.contract.interface.parseLog(log);
+      if (!source || !parsed) {
+        continue;
+      }
+
+      // Fetch by hash so a block replaced mid-range fails here instead of mixing forks
+      let block = blocks.get(log.blockHash);
+      if (!block) {
+        const fetched = await this.provider.getBlock(log.blockHash);
+        if (!fetched) {
+          throw new Error(`Block ${log.blockNumber} (${log.blockHash}) is no longer available; chain reorganised`);
+        }
+        block = fetched;
+        blocks.set(log.blockHash, block);
+      }
+
+      const args = toPlain(parsed.args);
+      events.push({
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        logIndex: log.index,
+        timestamp: block.timestamp,
+        txHash: log.transactionHash,
+        contract: source.name,
+        name: parsed.name,
+        args,
+        snapshot: await readSnapshot(this.contracts, source.name, args, log.blockNumber),
+      });
+      blockHashes.set(log.blockNumber, log.blockHash);
+    }
+
+    const end = await this.provider.getBlock(toBlock);
+    if (!end) {
+      throw new Error(`Block ${toBlock} is no longer available; chain reorganised`);
+    }
+    blockHashes.set(toBlock, end.hash!);
+
+    const insertEvent = this.db.prepare(`
+      INSERT INTO events (block_number, block_hash, timestamp, tx_hash, log_index, contract, name, args, snapshot)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertBlock = this.db.prepare('INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)');
+
+    this.db.transaction(() => {
+      for (const { blockHash, logIndex, ...event } of events) {
+        const { lastInsertRowid } = insertEvent.run(
+          event.blockNumber,
+          blockHash,
+          event.timestamp,
+          event.txHash,
+          logIndex,
+          event.contract,
+          event.name,
+          JSON.stringify(event.args),
+          event.snapshot ? JSON.stringify(event.snapshot) : null
+        );
+        applyEvent(this.db, { ...event, id: Number(lastInsertRowid) });
+      }
+
+      for (const [number, hash] of blockHashes) {
+        insertBlock.run(number, hash);
+      }
+      this.db.prepare('DELETE FROM blocks WHERE number < ?').run(toBlock - this.config.maxReorgDepth);
+      this.setIndexedBlock(toBlock);
+    })();
+
+    if (events.length > 0) {
+      console.log(`Indexed ${events.length} event(s) from blocks ${fromBlock}-${toBlock}`);
+    }
+  }
+
+  // Compares stored block hashes, newest first, until one still matches the chain
+  private async rollbackReorgedBlocks() {
+    const stored = this.db.prepare('SELECT number, hash FROM blocks ORDER BY number DESC').all() as { number: number; hash: string }[];
+    if (stored.length === 0) {
+      return;
+    }
+
+    let ancestor: number | null = null;
+    for (const block of stored) {
+      const onChain = await this.provider.getBlock(block.number);
+      if (onChain?.hash === block.hash) {
+        ancestor = block.number;
+        break;
+      }
+    }
+    if (ancestor === stored[0].number) {
+      return;
+    }
+
+    // Nothing within MAX_REORG_DEPTH survived (e.g. a restarted Hardhat node): reindex from scratch
+    const rewindTo = ancestor ?? this.config.startBlock - 1;
+    console.warn(`Chain reorganised: rolling back from block ${stored[0].number} to ${rewindTo}`);
+
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM events WHERE block_number > ?').run(rewindTo);
+      this.db.prepare('DELETE FROM blocks WHERE number > ?').run(rewindTo);
+      this.setIndexedBlock(rewindTo);
+
+      resetProjections(this.db);
+      const rows = this.db.prepare('SELECT * FROM events ORDER BY id').all() as EventRow[];
+      for (const row of rows) {
+        applyEvent(this.db, toIndexedEvent(row));
+      }
+    })();
+  }
+}
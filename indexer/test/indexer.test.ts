@@ -0,0 +1,263 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import Database from 'better-sqlite3';
+import { expect } from 'chai';
+import { ethers } from 'ethers';
+import hre from 'hardhat';
+import { TaskManager__factory } from '../typechain-types/factories/TaskManager.sol/TaskManager__factory';
+import { BountyPool__factory } from '../typechain-types/factories/BountyPool.sol/BountyPool__factory';
+import { VerificationContract__factory } from '../typechain-types/factories/VerificationContract.sol/VerificationContract__factory';
+import { ReputationContract__factory } from '../typechain-types/factories/ReputationContract__factory';
+import { AntiFraud__factory } from '../typechain-types/factories/AntiFraud.sol/AntiFraud__factory';
+import type { TaskManager, VerificationContract } from '../typechain-types';
+import { IndexerConfig } from '../src/config';
+import { connectContracts } from '../src/contracts';
+import { openDatabase } from '../src/db';
+import { getTask, listEvents, listSubmissions, listTasks, listVotes } from '../src/queries';
+import { createServer } from '../src/server';
+import { Indexer } from '../src/sync';
+
+// Runs against Hardhat's in-process network: `npm test` compiles the contracts and generates the
+// typings, then starts these tests through the repository's Hardhat, so no node or RPC is needed.
+const MINIMUM_BOUNTY = ethers.parseEther('0.5');
+const VERIFICATION_STAKE = ethers.parseEther('0.1');
+const NO_LOCATION = { latitude: 0, longitude: 0, radius: 0 };
+const REQUIREMENTS = { photoCount: 1, requiresLocation: false, minReputation: 0, requiredBadge: 0, requiresBadge: false };
+
+describe('Indexer', function () {
+  // No request cache: the same block number must be re-read after a reorg
+  const provider = new ethers.BrowserProvider(hre.network.provider as ethers.Eip1193Provider, undefined, {
+    cacheTimeout: -1,
+  });
+
+  let snapshot: string;
+  let creator: ethers.Signer;
+  let worker: ethers.Signer;
+  let verifier: ethers.Signer;
+  let taskManager: TaskManager;
+  let verificationContract: VerificationContract;
+  let db: Database.Database;
+  let indexer: Indexer;
+
+  async function createTask(description: string) {
+    const deadline = (await provider.getBlock('latest'))!.timestamp + 86400;
+    const tx = await taskManager
+      .connect(creator)
+      .createTask(description, 0, MINIMUM_BOUNTY, 1, { latitude: 0, longitude: 0, radius: 100 }, deadline, REQUIREMENTS, {
+        value: MINIMUM_BOUNTY,
+      });
+    await tx.wait();
+  }
+
+  before(async function () {
+    snapshot = await provider.send('evm_snapshot', []);
+    const owner = await provider.getSigner(0);
+    [creator, worker, verifier] = await Promise.all([1, 2, 3].map((index) => provider.getSigner(index)));
+    const startBlock = (await provider.getBlockNumber()) + 1;
+
+    taskManager = await new TaskManager__factory(owner).deploy();
+    const bountyPool = await new BountyPool__factory(owner).deploy();
+    verificationContract = await new VerificationContract__factory(owner).deploy();
+    const reputationContract = await new ReputationContract__factory(owner).deploy();
+    const antiFraud = await new AntiFraud__factory(owner).deploy();
+
+    const addresses = {
+      TaskManager: await taskManager.getAddress(),
+      BountyPool: await bountyPool.getAddress(),
+      VerificationContract: await verificationContract.getAddress(),
+      ReputationContract: await reputationContract.getAddress(),
+      AntiFraud: await antiFraud.getAddress(),
+    };
+
+    // Same wiring as scripts/deploy.ts
+    for (const tx of [
+      antiFraud.setTaskManager(addresses.TaskManager),
+      antiFraud.setVerificationContract(addresses.VerificationContract),
+      antiFraud.setBountyPool(addresses.BountyPool),
+      bountyPool.setTaskManager(addresses.TaskManager),
+      bountyPool.setVerificationContract(addresses.VerificationContract),
+      bountyPool.setReputationContract(addresses.ReputationContract),
+      verificationContract.setBountyPool(addresses.BountyPool),
+      verificationContract.setReputationContract(addresses.ReputationContract),
+      verificationContract.setTaskManager(addresses.TaskManager),
+      verificationContract.setAntiFraud(addresses.AntiFraud),
+      reputationContract.setVerificationContract(addresses.VerificationContract),
+      reputationContract.setTaskManager(addresses.TaskManager),
+      taskManager.setAntiFraud(addresses.AntiFraud),
+      taskManager.setBountyPool(addresses.BountyPool),
+      taskManager.setVerificationContract(addresses.VerificationContract),
+      taskManager.setReputationContract(addresses.ReputationContract),
+    ]) {
+      await (await tx).wait();
+    }
+
+    const config: IndexerConfig = {
+      rpcUrl: 'hardhat',
+      chainId: '31337',
+      contracts: addresses,
+      startBlock,
+      databasePath: ':memory:',
+      port: 0,
+      pollIntervalMs: 0,
+      blockBatchSize: 5,
+      confirmations: 0,
+      maxReorgDepth: 256,
+    };
+    db = openDatabase(config.databasePath, config.chainId);
+    indexer = new Indexer(db, provider, connectContracts(config, provider), config);
+  });
+
+  after(async function () {
+    db.close();
+    await provider.send('evm_revert', [snapshot]);
+  });
+
+  it('Should project task, submission and vote events into the query tables', async function () {
+    await createTask('Photograph the market entrance');
+    await (await taskManager.connect(worker).claimTask(0)).wait();
+    await (await taskManager.connect(worker).submitTaskCompletion(0, 'QmEntrance', NO_LOCATION)).wait();
+    await (await verificationContract.connect(verifier).stakeForVerification(0, { value: VERIFICATION_STAKE })).wait();
+    await (await verificationContract.connect(verifier).submitVerification(0, true, '')).wait();
+
+    await indexer.poll();
+
+    const status = indexer.getStatus();
+    expect(status.indexedBlock).to.equal(await provider.getBlockNumber());
+    expect(status.headBlock).to.equal(status.indexedBlock);
+
+    const task = getTask(db, 0)!;
+    expect(task.creator).to.equal(await creator.getAddress());
+    expect(task.description).to.equal('Photograph the market entrance');
+    expect(task.bountyAmount).to.equal(MINIMUM_BOUNTY.toString());
+    expect(task.submissionCount).to.equal(1);
+    expect(task.token).to.equal(ethers.ZeroAddress);
+
+    const submissions = listSubmissions(db, { taskId: 0 }, {});
+    expect(submissions.total).to.equal(1);
+    expect(submissions.items[0]).to.include({ worker: await worker.getAddress(), ipfsHash: 'QmEntrance', status: 0 });
+    expect(submissions.items[0].approvalCount).to.equal(1);
+
+    const votes = listVotes(db, { submissionId: 0 }, {});
+    expect(votes.items).to.have.lengthOf(1);
+    expect(votes.items[0]).to.include({ verifier: await verifier.getAddress(), stake: VERIFICATION_STAKE.toString(), approved: true });
+
+    expect(listEvents(db, { contract: 'TaskManager', name: 'TaskCreated' }, {}).total).to.equal(1);
+    expect(listEvents(db, { contract: 'VerificationContract', name: 'VoteSubmitted' }, {}).total).to.equal(1);
+
+    // Nothing new on the chain: a second poll leaves the tables as they are
+    const eventCount = listEvents(db, {}, {}).total;
+    await indexer.poll();
+    expect(listEvents(db, {}, {}).total).to.equal(eventCount);
+  });
+
+  it('Should roll back reorganised blocks and replay the surviving events', async function () {
+    const fork = await provider.send('evm_snapshot', []);
+    await createTask('Orphaned task');
+    await indexer.poll();
+    expect(getTask(db, 1)!.description).to.equal('Orphaned task');
+    const orphanedBlock = indexer.getStatus().indexedBlock;
+
+    // Replace the indexed block with a different one at the same height, then extend the chain
+    await provider.send('evm_revert', [fork]);
+    await createTask('Replacement task');
+    await createTask('Follow-up task');
+    expect(await provider.getBlockNumber()).to.equal(orphanedBlock + 1);
+
+    await indexer.poll();
+
+    expect(indexer.getStatus().indexedBlock).to.equal(orphanedBlock + 1);
+    expect(getTask(db, 1)!.description).to.equal('Replacement task');
+    expect(getTask(db, 2)!.description).to.equal('Follow-up task');
+    expect(listTasks(db, {}, {}).total).to.equal(3);
+
+    const created = listEvents(db, { contract: 'TaskManager', name: 'TaskCreated' }, {}).items;
+    expect(created.map((event) => event.args.taskId)).to.have.members(['0', '1', '2']);
+
+    // Rows rebuilt from the events that were already indexed before the fork
+    expect(getTask(db, 0)!.submissionCount).to.equal(1);
+    expect(listVotes(db, { submissionId: 0 }, {}).items[0].approved).to.equal(true);
+  });
+
+  describe('API', function () {
+    let server: Server;
+    let baseUrl: string;
+
+    before(async function () {
+      await indexer.poll();
+      server = createServer(db, indexer).listen(0);
+      await new Promise((resolve) => server.once('listening', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(function () {
+      server.close();
+    });
+
+    async function get(path: string) {
+      const response = await fetch(`${baseUrl}${path}`);
+      return { status: response.status, body: (await response.json()) as any };
+    }
+
+    async function query(source: string, variables?: Record<string, unknown>) {
+      const response = await fetch(`${baseUrl}/graphql`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: source, variables }),
+      });
+      return (await response.json()) as any;
+    }
+
+    it('Should serve the indexed state over REST', async function () {
+      const status = await get('/api/status');
+      expect(status.body).to.include({ chainId: '31337', indexedBlock: await provider.getBlockNumber() });
+
+      const creatorAddress = await creator.getAddress();
+      const tasks = await get(`/api/tasks?creator=${creatorAddress.toLowerCase()}&limit=2`);
+      expect(tasks.body.total).to.equal(3);
+      expect(tasks.body.items.map((task: any) => task.id)).to.deep.equal([2, 1]);
+
+      const task = await get('/api/tasks/0');
+      expect(task.body.submissions).to.have.lengthOf(1);
+      expect(task.body.submissions[0].ipfsHash).to.equal('QmEntrance');
+
+      const pending = await get(`/api/submissions?status=0&worker=${await worker.getAddress()}`);
+      expect(pending.body.items.map((submission: any) => submission.id)).to.deep.equal([0]);
+
+      const submission = await get('/api/submissions/0');
+      expect(submission.body.votes[0].verifier).to.equal(await verifier.getAddress());
+
+      expect((await get('/api/tasks/99')).status).to.equal(404);
+    });
+
+    it('Should reject malformed REST filters with 400', async function () {
+      const badStatus = await get('/api/tasks?status=open');
+      expect(badStatus.status).to.equal(400);
+      expect(badStatus.body.error).to.equal('status must be an integer');
+
+      expect((await get('/api/tasks?creator=0x1234')).status).to.equal(400);
+      expect((await get('/api/submissions?limit=0')).status).to.equal(400);
+    });
+
+    it('Should resolve GraphQL queries with nested submissions and votes', async function () {
+      const result = await query(
+        `query ($id: Int!) {
+          task(id: $id) { description submissions { ipfsHash votes { approved stake } } }
+          tasks(status: 0) { total }
+          status { indexedBlock }
+        }`,
+        { id: 0 }
+      );
+
+      expect(result.errors).to.be.undefined;
+      expect(result.data.task).to.deep.equal({
+        description: 'Photograph the market entrance',
+        submissions: [{ ipfsHash: 'QmEntrance', votes: [{ approved: true, stake: VERIFICATION_STAKE.toString() }] }],
+      });
+      expect(result.data.tasks.total).to.equal(2);
+      expect(result.data.status.indexedBlock).to.equal(await provider.getBlockNumber());
+
+      const invalid = await query('{ tasks(creator: "not-an-address") { total } }');
+      expect(invalid.errors[0].message).to.equal('Invalid address: not-an-address');
+    });
+  });
+});
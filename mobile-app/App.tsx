@@ -1,3 +1,4 @@
+import '@walletconnect/react-native-compat';
 import React, { useEffect } from 'react';
 import { Provider } from 'react-redux';
 import { NavigationContainer } from '@react-navigation/native';
@@ -7,10 +8,14 @@ import { StatusBar } from 'expo-status-bar';
 import { store } from './src/store';
 import TaskFeedScreen from './src/screens/TaskFeedScreen';
 import TaskDetailScreen from './src/screens/TaskDetailScreen';
+import SubmitTaskScreen from './src/screens/SubmitTaskScreen';
+import CreateTaskScreen from './src/screens/CreateTaskScreen';
 import WalletScreen from './src/screens/WalletScreen';
 import ProfileScreen from './src/screens/ProfileScreen';
 import VerificationScreen from './src/screens/VerificationScreen';
 import { blockchainService } from './src/services/blockchain';
+import { startLiveUpdates } from './src/store/liveUpdates';
+import { restoreWallet, disconnect } from './src/store/slices/walletSlice';
 
 const Tab = createBottomTabNavigator();
 const Stack = createStackNavigator();
@@ -20,6 +25,8 @@ function TaskStack() {
     <Stack.Navigator>
       <Stack.Screen name="TaskFeed" component={TaskFeedScreen} options={{ title: 'Tasks' }} />
       <Stack.Screen name="TaskDetail" component={TaskDetailScreen} options={{ title: 'Task Details' }} />
+      <Stack.Screen name="SubmitTask" component={SubmitTaskScreen} options={{ title: 'Submit Work' }} />
+      <Stack.Screen name="CreateTask" component={CreateTaskScreen} options={{ title: 'Create Task' }} />
     </Stack.Navigator>
   );
 }
@@ -38,9 +45,23 @@ function MainTabs() {
 export default function App() {
   useEffect(() => {
     // Initialize blockchain service
-    blockchainService.initialize().catch(console.error);
+    blockchainService
+      .initialize()
+      .then(() => store.dispatch(restoreWallet()))
+      .catch(console.error);
   }, []);
 
+  // Keep the store in step with account, network and disconnect changes made in the wallet app
+  useEffect(
+    () =>
+      blockchainService.onWalletChange((address) => {
+        store.dispatch(address ? restoreWallet() : disconnect());
+      }),
+    []
+  );
+
+  useEffect(() => store.dispatch(startLiveUpdates()), []);
+
   return (
     <Provider store={store}>
       <NavigationContainer>
@@ -0,0 +1,462 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+  Alert,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import MapView, { Circle, Marker, MapPressEvent } from 'react-native-maps';
+import DateTimePicker, { DateTimePickerAndroid, DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { ethers } from 'ethers';
+import { useDispatch, useSelector } from 'react-redux';
+import { useNavigation } from '@react-navigation/native';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import { RootState, AppDispatch } from '../store';
+import { createTask } from '../store/slices/taskSlice';
+import { blockchainService, StablecoinSymbol, TOKEN_DECIMALS } from '../services/blockchain';
+import { locationService } from '../services/location';
+
+type Currency = 'CELO' | StablecoinSymbol;
+
+const CATEGORIES = ['Photo Verification', 'Location Check', 'Survey', 'Price Monitoring', 'Business Hours'];
+const CURRENCIES: Currency[] = ['CELO', 'cUSD', 'USDC', 'USDT'];
+const RADIUS_PRESETS = [50, 100, 250, 500];
+
+// TaskManager.MINIMUM_BOUNTY, used until the deployed value has been read
+const DEFAULT_MINIMUM_BOUNTY = '0.5';
+// The contract rejects deadlines that have passed by the time the transaction is mined
+const DEADLINE_MARGIN_MS = 5 * 60 * 1000;
+
+export default function CreateTaskScreen() {
+  const navigation = useNavigation<StackNavigationProp<Record<string, object | undefined>>>();
+  const dispatch = useDispatch<AppDispatch>();
+  const { connected } = useSelector((state: RootState) => state.wallet);
+  const { loading } = useSelector((state: RootState) => state.tasks);
+
+  const mapRef = useRef<MapView>(null);
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState(0);
+  const [bountyAmount, setBountyAmount] = useState(DEFAULT_MINIMUM_BOUNTY);
+  const [currency, setCurrency] = useState<Currency>('cUSD');
+  const [maxWorkers, setMaxWorkers] = useState('5');
+  const [pin, setPin] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [radius, setRadius] = useState('100');
+  const [deadline, setDeadline] = useState(() => new Date(Date.now() + 24 * 60 * 60 * 1000));
+  const [showIosPicker, setShowIosPicker] = useState(false);
+  const [photoCount, setPhotoCount] = useState('1');
+  const [requiresLocation, setRequiresLocation] = useState(true);
+  const [minReputation, setMinReputation] = useState('0');
+  const [requiredBadge, setRequiredBadge] = useState<number | null>(null);
+  const [minimumBounty, setMinimumBounty] = useState(DEFAULT_MINIMUM_BOUNTY);
+
+  useEffect(() => {
+    loadMinimumBounty();
+    dropPinAtCurrentLocation();
+  }, []);
+
+  const loadMinimumBounty = async () => {
+    try {
+      const taskManager = blockchainService.getTaskManager();
+      // Defined in 18 decimals and scaled to each token's decimals, so the amount is the same in every currency
+      const minimum = await blockchainService.read(taskManager, 'MINIMUM_BOUNTY');
+      setMinimumBounty(ethers.formatEther(minimum));
+    } catch (error) {
+      console.error('Failed to load minimum bounty:', error);
+    }
+  };
+
+  const dropPinAtCurrentLocation = async () => {
+    try {
+      const location = await locationService.getCurrentLocation();
+      const coordinate = { latitude: location.latitude, longitude: location.longitude };
+      setPin(coordinate);
+      mapRef.current?.animateToRegion({ ...coordinate, latitudeDelta: 0.01, longitudeDelta: 0.01 });
+    } catch (error) {
+      console.error('Failed to get location:', error);
+    }
+  };
+
+  const handleMapPress = (event: MapPressEvent) => {
+    setPin(event.nativeEvent.coordinate);
+  };
+
+  // Android shows date and time as separate dialogs; iOS uses an inline picker
+  const openDeadlinePicker = () => {
+    if (Platform.OS !== 'android') {
+      setShowIosPicker(!showIosPicker);
+      return;
+    }
+    DateTimePickerAndroid.open({
+      value: deadline,
+      mode: 'date',
+      minimumDate: new Date(),
+      onChange: (event, date) => {
+        if (event.type !== 'set' || !date) return;
+        DateTimePickerAndroid.open({
+          value: date,
+          mode: 'time',
+          onChange: (timeEvent, time) => {
+            if (timeEvent.type === 'set' && time) {
+              setDeadline(time);
+            }
+          },
+        });
+      },
+    });
+  };
+
+  const handleIosDeadlineChange = (_event: DateTimePickerEvent, date?: Date) => {
+    if (date) {
+      setDeadline(date);
+    }
+  };
+
+  // Mirrors TaskManager's checks so the creator hears about problems before paying gas
+  const validate = (): string | null => {
+    if (!description.trim()) {
+      return 'Describe what workers need to do';
+    }
+    const decimals = currency === 'CELO' ? 18 : TOKEN_DECIMALS[currency];
+    let bountyUnits: bigint;
+    try {
+      bountyUnits = ethers.parseUnits(bountyAmount, decimals);
+    } catch {
+      return `Enter a valid ${currency} amount`;
+    }
+    if (bountyUnits < ethers.parseUnits(minimumBounty, decimals)) {
+      return `Minimum bounty is ${minimumBounty} ${currency}`;
+    }
+    if (!(parseInt(maxWorkers) >= 1)) {
+      return 'At least one worker is required';
+    }
+    if (!pin) {
+      return 'Tap the map to place the task location';
+    }
+    if (!(parseInt(radius) > 0)) {
+      return 'Radius must be greater than zero';
+    }
+    if (deadline.getTime() <= Date.now() + DEADLINE_MARGIN_MS) {
+      return 'Deadline must be at least a few minutes in the future';
+    }
+    return null;
+  };
+
+  const handleSubmit = async () => {
+    if (!connected) {
+      Alert.alert('Wallet', 'Please connect your wallet first');
+      navigation.navigate('Wallet');
+      return;
+    }
+    const problem = validate();
+    if (problem) {
+      Alert.alert('Check the task', problem);
+      return;
+    }
+
+    try {
+      const result = await dispatch(
+        createTask({
+          description: description.trim(),
+          category,
+          bountyAmount,
+          currency,
+          maxWorkers: parseInt(maxWorkers),
+          location: { latitude: pin!.latitude, longitude: pin!.longitude, radius: parseInt(radius) },
+          deadline: Math.floor(deadline.getTime() / 1000),
+          requirements: {
+            photoCount: parseInt(photoCount) || 0,
+            requiresLocation,
+            minReputation: parseInt(minReputation) || 0,
+            requiredBadge: requiredBadge ?? 0,
+            requiresBadge: requiredBadge !== null,
+          },
+        })
+      ).unwrap();
+
+      Alert.alert(
+        'Task created',
+        `Task ID: ${result.taskId}\n${result.escrowedAmount} ${result.currency} held in escrow.`,
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || error || 'Failed to create task');
+    }
+  };
+
+  const totalEscrow = (parseFloat(bountyAmount || '0') * parseInt(maxWorkers || '0')) || 0;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.label}>Description</Text>
+      <TextInput
+        style={[styles.input, styles.multiline]}
+        value={description}
+        onChangeText={setDescription}
+        placeholder="Describe what workers need to do..."
+        multiline
+      />
+
+      <Text style={styles.label}>Category</Text>
+      <View style={styles.chips}>
+        {CATEGORIES.map((name, index) => (
+          <TouchableOpacity
+            key={name}
+            style={[styles.chip, category === index && styles.chipActive]}
+            onPress={() => setCategory(index)}
+          >
+            <Text style={[styles.chipText, category === index && styles.chipTextActive]}>{name}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Bounty per worker</Text>
+      <View style={styles.row}>
+        <TextInput
+          style={[styles.input, styles.flex]}
+          value={bountyAmount}
+          onChangeText={setBountyAmount}
+          keyboardType="decimal-pad"
+        />
+        <View style={styles.chips}>
+          {CURRENCIES.map((symbol) => (
+            <TouchableOpacity
+              key={symbol}
+              style={[styles.chip, currency === symbol && styles.chipActive]}
+              onPress={() => setCurrency(symbol)}
+            >
+              <Text style={[styles.chipText, currency === symbol && styles.chipTextActive]}>{symbol}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+      <Text style={styles.hint}>
+        Minimum {minimumBounty} {currency}
+        {currency === 'CELO' ? '' : '. Stablecoin bounties need a token approval before the task is created'}
+      </Text>
+
+      <Text style={styles.label}>Max workers</Text>
+      <TextInput style={styles.input} value={maxWorkers} onChangeText={setMaxWorkers} keyboardType="number-pad" />
+
+      <Text style={styles.label}>Location (tap the map to move the pin)</Text>
+      <MapView ref={mapRef} style={styles.map} onPress={handleMapPress} showsUserLocation>
+        {pin && (
+          <>
+            <Marker coordinate={pin} draggable onDragEnd={(event) => setPin(event.nativeEvent.coordinate)} />
+            <Circle
+              center={pin}
+              radius={parseInt(radius) || 0}
+              strokeColor="#007AFF"
+              fillColor="rgba(0, 122, 255, 0.15)"
+            />
+          </>
+        )}
+      </MapView>
+      {pin && (
+        <Text style={styles.hint}>
+          {pin.latitude.toFixed(6)}, {pin.longitude.toFixed(6)}
+        </Text>
+      )}
+      <TouchableOpacity style={styles.secondaryButton} onPress={dropPinAtCurrentLocation}>
+        <Text style={styles.secondaryButtonText}>Use Current Location</Text>
+      </TouchableOpacity>
+
+      <Text style={styles.label}>Radius (meters)</Text>
+      <View style={styles.row}>
+        <TextInput
+          style={[styles.input, styles.flex]}
+          value={radius}
+          onChangeText={setRadius}
+          keyboardType="number-pad"
+        />
+        <View style={styles.chips}>
+          {RADIUS_PRESETS.map((preset) => (
+            <TouchableOpacity
+              key={preset}
+              style={[styles.chip, radius === String(preset) && styles.chipActive]}
+              onPress={() => setRadius(String(preset))}
+            >
+              <Text style={[styles.chipText, radius === String(preset) && styles.chipTextActive]}>{preset}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <Text style={styles.label}>Deadline</Text>
+      <TouchableOpacity style={styles.input} onPress={openDeadlinePicker}>
+        <Text>{deadline.toLocaleString()}</Text>
+      </TouchableOpacity>
+      {showIosPicker && (
+        <DateTimePicker
+          value={deadline}
+          mode="datetime"
+          display="inline"
+          minimumDate={new Date()}
+          onChange={handleIosDeadlineChange}
+        />
+      )}
+
+      <Text style={styles.label}>Requirements</Text>
+      <View style={styles.row}>
+        <View style={styles.flex}>
+          <Text style={styles.hint}>Photo count</Text>
+          <TextInput
+            style={styles.input}
+            value={photoCount}
+            onChangeText={setPhotoCount}
+            keyboardType="number-pad"
+          />
+        </View>
+        <View style={styles.flex}>
+          <Text style={styles.hint}>Min reputation</Text>
+          <TextInput
+            style={styles.input}
+            value={minReputation}
+            onChangeText={setMinReputation}
+            keyboardType="number-pad"
+          />
+        </View>
+      </View>
+      <View style={[styles.row, styles.switchRow]}>
+        <Text style={styles.flex}>Require location verification</Text>
+        <Switch value={requiresLocation} onValueChange={setRequiresLocation} />
+      </View>
+      <Text style={styles.hint}>Required badge</Text>
+      <View style={styles.chips}>
+        <TouchableOpacity
+          style={[styles.chip, requiredBadge === null && styles.chipActive]}
+          onPress={() => setRequiredBadge(null)}
+        >
+          <Text style={[styles.chipText, requiredBadge === null && styles.chipTextActive]}>None</Text>
+        </TouchableOpacity>
+        {CATEGORIES.map((name, index) => (
+          <TouchableOpacity
+            key={name}
+            style={[styles.chip, requiredBadge === index && styles.chipActive]}
+            onPress={() => setRequiredBadge(index)}
+          >
+            <Text style={[styles.chipText, requiredBadge === index && styles.chipTextActive]}>{name}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.submitButton, loading && styles.buttonDisabled]}
+        onPress={handleSubmit}
+        disabled={loading}
+      >
+        {loading ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.submitButtonText}>
+            Create Task ({totalEscrow} {currency} escrow)
+          </Text>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+    marginTop: 16,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  multiline: {
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  flex: {
+    flex: 1,
+  },
+  switchRow: {
+    marginVertical: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    color: '#007AFF',
+    fontSize: 14,
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  map: {
+    height: 240,
+    borderRadius: 8,
+  },
+  secondaryButton: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,436 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { LocationSubscription } from 'expo-location';
+import { useDispatch, useSelector } from 'react-redux';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { RootState, AppDispatch } from '../store';
+import { submitTask } from '../store/slices/taskSlice';
+import { blockchainService } from '../services/blockchain';
+import { cameraService, PhotoData } from '../services/camera';
+import { locationService, LocationData } from '../services/location';
+import { ipfsService } from '../services/ipfs';
+
+type SubmitStep = 'capture' | 'review' | 'uploading' | 'submitting';
+
+// GPS accuracy (metres) shown as good / fair; anything worse is poor
+const GOOD_ACCURACY = 20;
+const FAIR_ACCURACY = 50;
+
+export default function SubmitTaskScreen() {
+  const route = useRoute();
+  const navigation = useNavigation();
+  const dispatch = useDispatch<AppDispatch>();
+  const { taskId } = route.params as { taskId: number };
+  const { address } = useSelector((state: RootState) => state.wallet);
+  const cameraRef = useRef<CameraView>(null);
+  const [permission, requestPermission] = useCameraPermissions();
+  const [task, setTask] = useState<{
+    description: string;
+    photoCount: number;
+    requiresLocation: boolean;
+    location: { latitude: number; longitude: number; radius: number };
+  } | null>(null);
+  const [photos, setPhotos] = useState<PhotoData[]>([]);
+  const [location, setLocation] = useState<LocationData | null>(null);
+  const [capturing, setCapturing] = useState(false);
+  const [step, setStep] = useState<SubmitStep>('capture');
+
+  useEffect(() => {
+    loadTask();
+  }, [taskId]);
+
+  // Live GPS fix while the screen is open
+  useEffect(() => {
+    let mounted = true;
+    let subscription: LocationSubscription | null = null;
+    locationService
+      .watchLocation(setLocation, true)
+      .then((watch) => {
+        // Left the screen while the permission prompt or GPS start was still pending
+        if (mounted) {
+          subscription = watch;
+        } else {
+          watch.remove();
+        }
+      })
+      .catch((error) => {
+        if (mounted) {
+          Alert.alert('Location', error.message || 'Failed to read your location');
+        }
+      });
+    return () => {
+      mounted = false;
+      subscription?.remove();
+    };
+  }, []);
+
+  const loadTask = async () => {
+    try {
+      const taskManager = blockchainService.getTaskManager();
+      const taskData = await blockchainService.read(taskManager, 'getTask', taskId);
+      setTask({
+        description: taskData.description,
+        photoCount: Number(taskData.requirements.photoCount),
+        requiresLocation: taskData.requirements.requiresLocation,
+        location: {
+          latitude: Number(taskData.location.latitude) / 1e6,
+          longitude: Number(taskData.location.longitude) / 1e6,
+          radius: Number(taskData.location.radius),
+        },
+      });
+      if (Number(taskData.requirements.photoCount) === 0) {
+        setStep('review');
+      }
+    } catch (error) {
+      console.error('Failed to load task:', error);
+      Alert.alert('Error', 'Failed to load task');
+    }
+  };
+
+  const handleCapture = async () => {
+    if (!cameraRef.current || !task) return;
+    setCapturing(true);
+    try {
+      const picture = await cameraRef.current.takePictureAsync({ quality: 0.8 });
+      const uri = await cameraService.compressImage(picture.uri);
+      const captured = [
+        ...photos,
+        {
+          uri,
+          width: picture.width,
+          height: picture.height,
+          timestamp: Date.now(),
+          location: location ? { latitude: location.latitude, longitude: location.longitude } : undefined,
+        },
+      ];
+      setPhotos(captured);
+      if (captured.length >= task.photoCount) {
+        setStep('review');
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to capture photo');
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const handleRetake = (index: number) => {
+    setPhotos(photos.filter((_, i) => i !== index));
+    setStep('capture');
+  };
+
+  const handleSubmit = async () => {
+    if (!task) return;
+    if (!address) {
+      Alert.alert('Error', 'Please connect your wallet first');
+      return;
+    }
+
+    try {
+      setStep('uploading');
+      const files = await Promise.all(
+        photos.map(async (photo, index) => {
+          const blob = await (await fetch(photo.uri)).blob();
+          return new File([blob], `photo-${index + 1}.jpg`, { type: 'image/jpeg', lastModified: photo.timestamp });
+        })
+      );
+      const metadata = {
+        taskId,
+        worker: address,
+        photos: files.map((file) => file.name),
+        photoHashes: await Promise.all(photos.map((photo) => cameraService.generateImageHash(photo.uri))),
+        capturedAt: new Date(photos[0]?.timestamp ?? Date.now()).toISOString(),
+        latitude: location?.latitude ?? null,
+        longitude: location?.longitude ?? null,
+        accuracy: location?.accuracy ?? null,
+        submittedAt: new Date().toISOString(),
+      };
+      const ipfsHash = await ipfsService.uploadMultipleImages(files, metadata);
+
+      setStep('submitting');
+      // Contract format: coordinates scaled by 1e6, radius unused for submissions
+      const submissionLocation = {
+        latitude: BigInt(Math.floor((location?.latitude ?? 0) * 1e6)),
+        longitude: BigInt(Math.floor((location?.longitude ?? 0) * 1e6)),
+        radius: 0n,
+      };
+      await dispatch(submitTask({ taskId, ipfsHash, location: submissionLocation })).unwrap();
+
+      Alert.alert('Submitted', 'Your work will be paid out once verifiers approve it.');
+      navigation.goBack();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || error || 'Failed to submit task');
+      setStep('review');
+    }
+  };
+
+  if (!task) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  const distance = location
+    ? locationService.calculateDistance(
+        location.latitude,
+        location.longitude,
+        task.location.latitude,
+        task.location.longitude
+      )
+    : null;
+  const withinRadius = distance !== null && distance <= task.location.radius;
+  const locationOk = !task.requiresLocation || withinRadius;
+  const accuracyColor = !location?.accuracy
+    ? '#999'
+    : location.accuracy <= GOOD_ACCURACY
+      ? '#34C759'
+      : location.accuracy <= FAIR_ACCURACY
+        ? '#FF9500'
+        : '#FF3B30';
+  const busy = step === 'uploading' || step === 'submitting';
+
+  const locationPanel = (
+    <View style={styles.locationPanel}>
+      <View style={styles.row}>
+        <View style={[styles.accuracyDot, { backgroundColor: accuracyColor }]} />
+        <Text style={styles.locationText}>
+          {location
+            ? `GPS ±${location.accuracy ? Math.round(location.accuracy) : '?'} m`
+            : 'Waiting for GPS...'}
+        </Text>
+      </View>
+      {distance !== null && (
+        <Text style={[styles.locationText, { color: withinRadius ? '#34C759' : '#FF3B30' }]}>
+          {Math.round(distance)} m from task ({withinRadius ? 'inside' : 'outside'} {task.location.radius} m area)
+        </Text>
+      )}
+    </View>
+  );
+
+  if (step === 'capture') {
+    if (!permission) {
+      return <View style={styles.centered}><ActivityIndicator /></View>;
+    }
+    if (!permission.granted) {
+      return (
+        <View style={styles.centered}>
+          <Text style={styles.message}>Camera access is needed to photograph the task.</Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={requestPermission}>
+            <Text style={styles.primaryButtonText}>Allow camera</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.cameraContainer}>
+        <CameraView ref={cameraRef} style={styles.camera} facing="back" />
+        <View style={styles.cameraOverlay}>
+          {locationPanel}
+          <Text style={styles.photoCounter}>
+            Photo {photos.length + 1} of {Math.max(task.photoCount, 1)}
+          </Text>
+          <View style={styles.row}>
+            {photos.length > 0 && (
+              <TouchableOpacity style={styles.secondaryButton} onPress={() => setStep('review')}>
+                <Text style={styles.secondaryButtonText}>Review ({photos.length})</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.shutter} onPress={handleCapture} disabled={capturing}>
+              {capturing && <ActivityIndicator color="#007AFF" />}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.content}>
+        <Text style={styles.title}>{task.description}</Text>
+
+        <Text style={styles.label}>Photos ({photos.length}/{task.photoCount})</Text>
+        <ScrollView horizontal style={styles.thumbnails}>
+          {photos.map((photo, index) => (
+            <View key={photo.timestamp} style={styles.thumbnail}>
+              <Image source={{ uri: photo.uri }} style={styles.thumbnailImage} />
+              <TouchableOpacity onPress={() => handleRetake(index)} disabled={busy}>
+                <Text style={styles.retakeText}>Retake</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </ScrollView>
+        {photos.length < task.photoCount && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setStep('capture')} disabled={busy}>
+            <Text style={styles.secondaryButtonText}>Take {task.photoCount - photos.length} more</Text>
+          </TouchableOpacity>
+        )}
+
+        <Text style={styles.label}>Location</Text>
+        {locationPanel}
+        {task.requiresLocation && !withinRadius && (
+          <Text style={styles.warning}>Move inside the task area before submitting.</Text>
+        )}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, (busy || photos.length < task.photoCount || !locationOk) && styles.disabled]}
+          onPress={handleSubmit}
+          disabled={busy || photos.length < task.photoCount || !locationOk}
+        >
+          {busy && <ActivityIndicator color="#fff" />}
+          <Text style={styles.primaryButtonText}>
+            {step === 'uploading' ? 'Uploading to IPFS...' : step === 'submitting' ? 'Submitting...' : 'Upload & Submit'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  message: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+    marginTop: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  cameraContainer: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  camera: {
+    flex: 1,
+  },
+  cameraOverlay: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    padding: 16,
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  photoCounter: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginVertical: 12,
+  },
+  shutter: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#fff',
+    borderWidth: 4,
+    borderColor: '#ccc',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  locationPanel: {
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    borderRadius: 8,
+    padding: 8,
+    alignSelf: 'stretch',
+  },
+  accuracyDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  locationText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  thumbnails: {
+    flexGrow: 0,
+  },
+  thumbnail: {
+    marginRight: 8,
+    alignItems: 'center',
+  },
+  thumbnailImage: {
+    width: 100,
+    height: 100,
+    borderRadius: 8,
+  },
+  retakeText: {
+    color: '#007AFF',
+    marginTop: 4,
+  },
+  warning: {
+    color: '#FF3B30',
+    marginTop: 8,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    gap: 8,
+    backgroundColor: '#007AFF',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 24,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderColor: '#007AFF',
+    borderWidth: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+});
@@ -8,13 +8,15 @@ import {
   Alert,
 } from 'react-native';
 import { useDispatch, useSelector } from 'react-redux';
-import { useRoute } from '@react-navigation/native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { StackNavigationProp } from '@react-navigation/stack';
 import { RootState, AppDispatch } from '../store';
 import { claimTask } from '../store/slices/taskSlice';
 import { blockchainService } from '../services/blockchain';
 
 export default function TaskDetailScreen() {
   const route = useRoute();
+  const navigation = useNavigation<StackNavigationProp<Record<string, object>>>();
   const dispatch = useDispatch<AppDispatch>();
   const { taskId } = route.params as { taskId: number };
   const { claimedTasks, activeTasks } = useSelector((state: RootState) => state.tasks);
@@ -29,7 +31,7 @@ export default function TaskDetailScreen() {
   const loadTask = async () => {
     try {
       const taskManager = blockchainService.getTaskManager();
-      const taskData = await taskManager.getTask(taskId);
+      const taskData = await blockchainService.read(taskManager, 'getTask', taskId);
       setTask({
         id: Number(taskData.id),
         description: taskData.description,
@@ -110,9 +112,17 @@ export default function TaskDetailScreen() {
         )}
 
         {isClaimed && (
-          <View style={styles.claimedBadge}>
-            <Text style={styles.claimedText}>Task Claimed</Text>
-          </View>
+          <>
+            <View style={styles.claimedBadge}>
+              <Text style={styles.claimedText}>Task Claimed</Text>
+            </View>
+            <TouchableOpacity
+              style={styles.claimButton}
+              onPress={() => navigation.navigate('SubmitTask', { taskId })}
+            >
+              <Text style={styles.claimButtonText}>Submit Completion</Text>
+            </TouchableOpacity>
+          </>
         )}
       </View>
     </ScrollView>
@@ -6,18 +6,19 @@ import {
   StyleSheet,
   TouchableOpacity,
   RefreshControl,
+  ActivityIndicator,
 } from 'react-native';
 import { useDispatch, useSelector } from 'react-redux';
 import { useNavigation } from '@react-navigation/native';
 import { RootState, AppDispatch } from '../store';
-import { fetchTasks } from '../store/slices/taskSlice';
+import { fetchTasks, fetchMoreTasks } from '../store/slices/taskSlice';
 import type { Task } from '../store/slices/taskSlice';
 import TaskCard from '../components/TaskCard';
 
 export default function TaskFeedScreen() {
   const dispatch = useDispatch<AppDispatch>();
   const navigation = useNavigation();
-  const { tasks, loading } = useSelector((state: RootState) => state.tasks);
+  const { tasks, tasksCursor, loading, loadingMore } = useSelector((state: RootState) => state.tasks);
 
   useEffect(() => {
     dispatch(fetchTasks());
@@ -41,6 +42,13 @@ export default function TaskFeedScreen() {
         refreshControl={
           <RefreshControl refreshing={loading} onRefresh={() => dispatch(fetchTasks())} />
         }
+        onEndReached={() => {
+          if (tasksCursor && !loadingMore && !loading) {
+            dispatch(fetchMoreTasks());
+          }
+        }}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={loadingMore ? <ActivityIndicator style={styles.footer} /> : null}
         ListEmptyComponent={
           <View style={styles.empty}>
             <Text style={styles.emptyText}>No tasks available</Text>
@@ -48,6 +56,12 @@ export default function TaskFeedScreen() {
           </View>
         }
       />
+      <TouchableOpacity
+        style={styles.createButton}
+        onPress={() => navigation.navigate('CreateTask' as never)}
+      >
+        <Text style={styles.createButtonText}>+ Create Task</Text>
+      </TouchableOpacity>
     </View>
   );
 }
@@ -60,6 +74,24 @@ const styles = StyleSheet.create({
   list: {
     padding: 16,
   },
+  createButton: {
+    position: 'absolute',
+    right: 16,
+    bottom: 16,
+    backgroundColor: '#007AFF',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 24,
+    elevation: 4,
+  },
+  createButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  footer: {
+    paddingVertical: 16,
+  },
   empty: {
     flex: 1,
     justifyContent: 'center',
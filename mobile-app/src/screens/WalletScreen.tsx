@@ -2,11 +2,30 @@ import { useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState, AppDispatch } from '../store';
-import { fetchBalance, connectWallet } from '../store/slices/walletSlice';
+import {
+  fetchBalance,
+  connectExternalWallet,
+  switchNetwork,
+  disconnectWallet,
+} from '../store/slices/walletSlice';
+import { NetworkName } from '../services/blockchain';
+import { WalletId } from '../services/walletConnect';
+
+const WALLETS: { id: WalletId; name: string }[] = [
+  { id: 'valora', name: 'Valora' },
+  { id: 'minipay', name: 'MiniPay' },
+  { id: 'metamask', name: 'MetaMask' },
+  { id: 'other', name: 'Other wallet' },
+];
+
+const NETWORK_LABELS: Record<NetworkName, string> = {
+  alfajores: 'Alfajores',
+  celo: 'Celo',
+};
 
 export default function WalletScreen() {
   const dispatch = useDispatch<AppDispatch>();
-  const { address, balance, connected, loading } = useSelector(
+  const { address, balance, connected, network, loading } = useSelector(
     (state: RootState) => state.wallet
   );
 
@@ -16,10 +35,28 @@ export default function WalletScreen() {
     }
   }, [connected, dispatch]);
 
-  const handleConnect = () => {
-    // In production, integrate with Valora or WalletConnect
-    // For now, show placeholder
-    Alert.alert('Wallet Connection', 'Please integrate with Valora or WalletConnect');
+  const handleConnect = async (walletId: WalletId) => {
+    try {
+      await dispatch(connectExternalWallet(walletId)).unwrap();
+    } catch (error: any) {
+      Alert.alert('Wallet Connection', error?.message || error || 'Failed to connect wallet');
+    }
+  };
+
+  const handleSwitchNetwork = async (target: NetworkName) => {
+    if (target === network) return;
+    try {
+      await dispatch(switchNetwork(target)).unwrap();
+    } catch (error: any) {
+      Alert.alert('Network', error?.message || error || 'Failed to switch network');
+    }
+  };
+
+  const handleDisconnect = () => {
+    Alert.alert('Disconnect', 'Disconnect this wallet from the app?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Disconnect', style: 'destructive', onPress: () => dispatch(disconnectWallet()) },
+    ]);
   };
 
   return (
@@ -31,15 +68,17 @@ export default function WalletScreen() {
             <Text style={styles.subtitle}>
               Connect your wallet to start earning from tasks
             </Text>
-            <TouchableOpacity
-              style={styles.connectButton}
-              onPress={handleConnect}
-              disabled={loading}
-            >
-              <Text style={styles.connectButtonText}>
-                {loading ? 'Connecting...' : 'Connect Wallet'}
-              </Text>
-            </TouchableOpacity>
+            {WALLETS.map((wallet) => (
+              <TouchableOpacity
+                key={wallet.id}
+                style={[styles.connectButton, loading && styles.buttonDisabled]}
+                onPress={() => handleConnect(wallet.id)}
+                disabled={loading}
+              >
+                <Text style={styles.connectButtonText}>{wallet.name}</Text>
+              </TouchableOpacity>
+            ))}
+            {loading && <Text style={styles.subtitle}>Approve the connection in your wallet...</Text>}
           </View>
         ) : (
           <>
@@ -62,6 +101,28 @@ export default function WalletScreen() {
               <Text style={styles.sectionTitle}>Verified</Text>
               <Text style={styles.amount}>{balance} cUSD</Text>
             </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Network</Text>
+              <View style={styles.networkRow}>
+                {(Object.keys(NETWORK_LABELS) as NetworkName[]).map((name) => (
+                  <TouchableOpacity
+                    key={name}
+                    style={[styles.networkButton, name === network && styles.networkButtonActive]}
+                    onPress={() => handleSwitchNetwork(name)}
+                    disabled={loading}
+                  >
+                    <Text style={[styles.networkButtonText, name === network && styles.networkButtonTextActive]}>
+                      {NETWORK_LABELS[name]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <TouchableOpacity style={styles.disconnectButton} onPress={handleDisconnect}>
+              <Text style={styles.disconnectButtonText}>Disconnect</Text>
+            </TouchableOpacity>
           </>
         )}
       </View>
@@ -98,6 +159,10 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     minWidth: 200,
     alignItems: 'center',
+    marginBottom: 12,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
   },
   connectButtonText: {
     color: '#fff',
@@ -147,5 +212,40 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#333',
   },
+  networkRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  networkButton: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  networkButtonActive: {
+    backgroundColor: '#007AFF',
+  },
+  networkButtonText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  networkButtonTextActive: {
+    color: '#fff',
+  },
+  disconnectButton: {
+    padding: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  disconnectButtonText: {
+    color: '#FF3B30',
+    fontSize: 16,
+    fontWeight: '600',
+  },
 });
 
@@ -1,48 +1,133 @@
 import { ContractKit, newKitFromWeb3 } from '@celo/contractkit';
 import Web3 from 'web3';
 import { ethers } from 'ethers';
-import { TaskManager } from '../../typechain-types/contracts/TaskManager';
-import { TaskManager__factory } from '../../typechain-types/factories/contracts/TaskManager__factory';
-import { BountyPool } from '../../typechain-types/contracts/BountyPool';
-import { BountyPool__factory } from '../../typechain-types/factories/contracts/BountyPool__factory';
+import { TaskManager } from '../../typechain-types/contracts/TaskManager.sol/TaskManager';
+import { TaskManager__factory } from '../../typechain-types/factories/contracts/TaskManager.sol/TaskManager__factory';
+import { BountyPool } from '../../typechain-types/contracts/BountyPool.sol/BountyPool';
+import { BountyPool__factory } from '../../typechain-types/factories/contracts/BountyPool.sol/BountyPool__factory';
 import { ReputationContract } from '../../typechain-types/contracts/ReputationContract';
 import { ReputationContract__factory } from '../../typechain-types/factories/contracts/ReputationContract__factory';
 import { VerificationContract } from '../../typechain-types/contracts/VerificationContract.sol/VerificationContract';
 import { VerificationContract__factory } from '../../typechain-types/factories/contracts/VerificationContract.sol/VerificationContract__factory';
+import { MulticallBatcher, MULTICALL3_ADDRESS, ViewArgs, ViewResult } from './multicall';
+import { indexerService } from './indexer';
+import { ALFAJORES_CHAIN_ID, CELO_CHAIN_ID, WalletId, walletConnectService } from './walletConnect';
 
 const ALFAJORES_RPC = 'https://alfajores-forno.celo-testnet.org';
 const CELO_RPC = 'https://forno.celo.org';
+const EVENT_POLL_INTERVAL_MS = 15000;
+const WS_CONNECT_TIMEOUT_MS = 5000;
+
+// Websocket endpoints used for live contract events, keyed by chain ID
+const WS_RPC_URLS: Record<string, string> = {
+  '42220': 'wss://forno.celo.org/ws',
+  '44787': 'wss://alfajores-forno.celo-testnet.org/ws',
+};
+
+export type NetworkName = 'alfajores' | 'celo';
+
+const NETWORKS: Record<NetworkName, { chainId: number; rpcUrl: string }> = {
+  alfajores: { chainId: ALFAJORES_CHAIN_ID, rpcUrl: ALFAJORES_RPC },
+  celo: { chainId: CELO_CHAIN_ID, rpcUrl: CELO_RPC },
+};
+
+export type StablecoinSymbol = 'cUSD' | 'USDC' | 'USDT';
+
+// Decimals of the stablecoins accepted for task bounties
+export const TOKEN_DECIMALS: Record<StablecoinSymbol, number> = {
+  cUSD: 18,
+  USDC: 6,
+  USDT: 6,
+};
+
+const TOKEN_ADDRESSES: Record<NetworkName, Record<StablecoinSymbol, string>> = {
+  alfajores: {
+    cUSD: '0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1',
+    USDC: '0x2F25deB3848C207fc8E0c34035B3Ba7fC157602B',
+    USDT: '0xBba91F588d031469ABCCA566FE80fB1Ad8Ee3287',
+  },
+  celo: {
+    cUSD: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
+    USDC: '0xcebA9300f2b948710d2653dD7B07f33A8B32118C',
+    USDT: '0x48065fbBE25f71C9282ddf5e1cD6D6A887483D5e',
+  },
+};
+
+const ERC20_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+];
+
+export interface TaskRequirements {
+  photoCount: number;
+  requiresLocation: boolean;
+  minReputation: number;
+  requiredBadge: number;
+  requiresBadge: boolean;
+}
 
 export interface ContractAddresses {
   taskManager: string;
   bountyPool: string;
   reputationContract: string;
   verificationContract: string;
+  multicall?: string;
+}
+
+// Position in the open-task feed: an index in TaskManager's ACTIVE (0) or IN_PROGRESS (1) status set
+export interface TaskPageCursor {
+  status: 0 | 1;
+  offset: number;
+}
+
+// Callbacks for the contract events the app follows live
+export interface ContractEventHandlers {
+  onTaskCreated: (taskId: number, creator: string) => void;
+  onTaskClaimed: (taskId: number, worker: string) => void;
+  onTaskSubmitted: (taskId: number, worker: string) => void;
+  onVoteSubmitted: (submissionId: number, verifier: string, approved: boolean) => void;
+  onConsensusReached: (submissionId: number, status: number) => void;
 }
 
 class BlockchainService {
   private kit: ContractKit | null = null;
   private web3: Web3 | null = null;
   private provider: ethers.JsonRpcProvider | null = null;
-  private signer: ethers.Wallet | null = null;
+  // A raw key for local testing, or a WalletConnect session
+  private signer: ethers.Wallet | ethers.JsonRpcSigner | null = null;
+  private network: NetworkName = 'alfajores';
   private addresses: ContractAddresses | null = null;
   private taskManager: TaskManager | null = null;
   private bountyPool: BountyPool | null = null;
   private reputationContract: ReputationContract | null = null;
   private verificationContract: VerificationContract | null = null;
+  private reads: MulticallBatcher | null = null;
+  private eventHandlers: ContractEventHandlers | null = null;
+  private stopEventStream: (() => void) | null = null;
+  private eventStreamId = 0;
 
   async initialize(rpcUrl: string = ALFAJORES_RPC, addresses?: ContractAddresses) {
-    this.web3 = new Web3(rpcUrl);
-    this.kit = newKitFromWeb3(this.web3);
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.setRpc(rpcUrl);
     
     if (addresses) {
       this.addresses = addresses;
       await this.loadContracts();
+    } else {
+      // Move any event stream over to the new RPC
+      this.restartEventStream();
     }
   }
 
-  async connectWallet(privateKey?: string) {
+  private setRpc(rpcUrl: string) {
+    this.web3 = new Web3(rpcUrl);
+    this.kit = newKitFromWeb3(this.web3);
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.network = rpcUrl === CELO_RPC ? 'celo' : 'alfajores';
+  }
+
+  // Signs with a raw private key (local testing) or pairs with a mobile wallet over WalletConnect
+  async connectWallet(privateKey?: string, walletId: WalletId = 'other') {
     if (!this.kit || !this.provider) {
       throw new Error('Blockchain service not initialized');
     }
@@ -53,12 +138,111 @@ class BlockchainService {
       this.kit.defaultAccount = accounts[0];
       this.signer = new ethers.Wallet(privateKey, this.provider);
     } else {
-      // For mobile, use Valora or other wallet providers
-      // This is a placeholder - in production, integrate with Valora or WalletConnect
-      throw new Error('Wallet connection not implemented. Please provide private key for testing.');
+      const session = await walletConnectService.connect(walletId, NETWORKS[this.network].chainId);
+      await this.useWalletSession(session);
+    }
+
+    // Rebind the contracts so writes go through the new signer
+    if (this.addresses) {
+      await this.loadContracts();
     }
   }
 
+  private async useWalletSession(session: ethers.Eip1193Provider) {
+    const { chainId } = NETWORKS[this.network];
+    const walletProvider = new ethers.BrowserProvider(session);
+    if (Number((await walletProvider.getNetwork()).chainId) !== chainId) {
+      await walletConnectService.switchChain(chainId);
+    }
+    // Reads stay on the JSON-RPC provider; the wallet only signs and sends
+    this.signer = await new ethers.BrowserProvider(session, chainId).getSigner();
+    this.kit!.defaultAccount = await this.signer.getAddress();
+  }
+
+  // Reconnects the WalletConnect session persisted by a previous run, if there is one
+  async restoreWallet(): Promise<string | null> {
+    if (!walletConnectService.isConfigured()) {
+      return null;
+    }
+    const session = await walletConnectService.restoreSession();
+    if (!session) {
+      return null;
+    }
+    await this.useWalletSession(session);
+    if (this.addresses) {
+      await this.loadContracts();
+    }
+    return this.getAccount();
+  }
+
+  // Moves reads, events and the connected wallet to another Celo network.
+  // Contract addresses are kept; call setAddresses with that network's deployment if it differs.
+  async switchNetwork(network: NetworkName) {
+    const hadSession = this.signer instanceof ethers.JsonRpcSigner;
+    const privateKey = this.signer instanceof ethers.Wallet ? this.signer.privateKey : undefined;
+
+    if (hadSession) {
+      await walletConnectService.switchChain(NETWORKS[network].chainId);
+    }
+    this.setRpc(NETWORKS[network].rpcUrl);
+    this.signer = null;
+
+    if (privateKey || hadSession) {
+      await this.connectWallet(privateKey);
+    } else if (this.addresses) {
+      await this.loadContracts();
+    } else {
+      this.restartEventStream();
+    }
+  }
+
+  async disconnectWallet() {
+    if (this.signer instanceof ethers.JsonRpcSigner) {
+      await walletConnectService.disconnect();
+    }
+    await this.clearWallet();
+  }
+
+  private async clearWallet() {
+    this.signer = null;
+    if (this.kit) {
+      this.kit.defaultAccount = undefined;
+    }
+    if (this.addresses) {
+      await this.loadContracts();
+    }
+  }
+
+  getNetworkName(): NetworkName {
+    return this.network;
+  }
+
+  // Follows account, chain and disconnect changes made from inside the wallet app
+  onWalletChange(listener: (address: string | null) => void): () => void {
+    walletConnectService.setEventHandlers({
+      onAccountsChanged: (accounts) => {
+        const refresh = accounts.length > 0 ? this.restoreWallet() : this.clearWallet().then(() => null);
+        refresh.then(listener).catch((error) => console.error('Failed to follow wallet account change:', error));
+      },
+      onChainChanged: (chainId) => {
+        const network = (Object.keys(NETWORKS) as NetworkName[]).find((name) => NETWORKS[name].chainId === chainId);
+        if (!network || network === this.network) {
+          return;
+        }
+        this.switchNetwork(network)
+          .then(() => this.getAccount())
+          .then(listener)
+          .catch((error) => console.error('Failed to follow wallet network change:', error));
+      },
+      onDisconnect: () => {
+        this.clearWallet()
+          .then(() => listener(null))
+          .catch((error) => console.error('Failed to clear wallet session:', error));
+      },
+    });
+    return () => walletConnectService.setEventHandlers(null);
+  }
+
   async loadContracts() {
     if (!this.addresses || !this.provider) {
       throw new Error('Addresses not set or provider not initialized');
@@ -86,6 +270,142 @@ class BlockchainService {
       this.addresses.verificationContract,
       contractSigner
     );
+
+    this.reads = new MulticallBatcher(this.provider, this.addresses.multicall ?? MULTICALL3_ADDRESS);
+
+    // Listeners are bound to the previous provider and contracts, so rebuild them
+    this.restartEventStream();
+  }
+
+  // Delivers live contract events to the handlers until the returned function is called.
+  // Uses a websocket subscription when the chain has one, otherwise polls for logs.
+  subscribeToEvents(handlers: ContractEventHandlers): () => void {
+    this.eventHandlers = handlers;
+    this.restartEventStream();
+    return () => {
+      if (this.eventHandlers === handlers) {
+        this.eventHandlers = null;
+        this.closeEventStream();
+      }
+    };
+  }
+
+  private closeEventStream() {
+    // Invalidates streams that are still connecting
+    this.eventStreamId++;
+    this.stopEventStream?.();
+    this.stopEventStream = null;
+  }
+
+  private restartEventStream() {
+    this.closeEventStream();
+    if (!this.eventHandlers || !this.provider || !this.addresses) {
+      return;
+    }
+    this.openEventStream(this.provider, this.addresses, this.eventStreamId).catch((error) => {
+      console.error('Failed to subscribe to contract events:', error);
+    });
+  }
+
+  private async openEventStream(provider: ethers.Provider, addresses: ContractAddresses, streamId: number) {
+    const taskManager = this.getTaskManager();
+    const verificationContract = this.getVerificationContract();
+    const filter = {
+      address: [addresses.taskManager, addresses.verificationContract],
+      topics: [[
+        taskManager.interface.getEvent('TaskCreated').topicHash,
+        taskManager.interface.getEvent('TaskClaimed').topicHash,
+        taskManager.interface.getEvent('TaskSubmitted').topicHash,
+        verificationContract.interface.getEvent('VoteSubmitted').topicHash,
+        verificationContract.interface.getEvent('ConsensusReached').topicHash,
+      ]],
+    };
+
+    const { chainId } = await provider.getNetwork();
+    const wsProvider = await this.connectWebSocket(WS_RPC_URLS[chainId.toString()]);
+    if (wsProvider) {
+      await wsProvider.on(filter, (log: ethers.Log) => this.handleEventLog(log));
+      if (streamId !== this.eventStreamId) {
+        wsProvider.destroy();
+        return;
+      }
+      this.stopEventStream = () => wsProvider.destroy();
+      return;
+    }
+
+    console.warn('No websocket RPC available, polling for contract events');
+    let fromBlock = (await provider.getBlockNumber()) + 1;
+    if (streamId !== this.eventStreamId) {
+      return;
+    }
+
+    let polling = false;
+    const timer = setInterval(async () => {
+      if (polling) {
+        return;
+      }
+      polling = true;
+      try {
+        const toBlock = await provider.getBlockNumber();
+        if (toBlock >= fromBlock) {
+          const logs = await provider.getLogs({ ...filter, fromBlock, toBlock });
+          fromBlock = toBlock + 1;
+          logs.forEach((log) => this.handleEventLog(log));
+        }
+      } catch (error) {
+        console.error('Polling contract events failed:', error);
+      } finally {
+        polling = false;
+      }
+    }, EVENT_POLL_INTERVAL_MS);
+    this.stopEventStream = () => clearInterval(timer);
+  }
+
+  private async connectWebSocket(url: string | undefined): Promise<ethers.WebSocketProvider | null> {
+    if (!url) {
+      return null;
+    }
+    const wsProvider = new ethers.WebSocketProvider(url);
+    try {
+      await Promise.race([
+        wsProvider.getBlockNumber(),
+        new Promise((_, reject) => setTimeout(() => reject(new Error('Websocket connection timed out')), WS_CONNECT_TIMEOUT_MS)),
+      ]);
+      return wsProvider;
+    } catch (error) {
+      console.warn(`Websocket RPC ${url} unavailable:`, error);
+      wsProvider.destroy();
+      return null;
+    }
+  }
+
+  private handleEventLog(log: ethers.Log) {
+    const handlers = this.eventHandlers;
+    if (!handlers || !this.addresses) {
+      return;
+    }
+    const contract = log.address.toLowerCase() === this.addresses.taskManager.toLowerCase()
+      ? this.getTaskManager()
+      : this.getVerificationContract();
+    const event = contract.interface.parseLog(log);
+
+    switch (event?.name) {
+      case 'TaskCreated':
+        handlers.onTaskCreated(Number(event.args.taskId), event.args.creator);
+        break;
+      case 'TaskClaimed':
+        handlers.onTaskClaimed(Number(event.args.taskId), event.args.worker);
+        break;
+      case 'TaskSubmitted':
+        handlers.onTaskSubmitted(Number(event.args.taskId), event.args.worker);
+        break;
+      case 'VoteSubmitted':
+        handlers.onVoteSubmitted(Number(event.args.submissionId), event.args.verifier, event.args.approved);
+        break;
+      case 'ConsensusReached':
+        handlers.onConsensusReached(Number(event.args.submissionId), Number(event.args.status));
+        break;
+    }
   }
 
   setAddresses(addresses: ContractAddresses) {
@@ -123,6 +443,217 @@ class BlockchainService {
     return this.verificationContract;
   }
 
+  // View calls issued in the same tick are batched into one Multicall3 request
+  read<C extends ethers.BaseContract, K extends keyof C & string>(
+    contract: C,
+    method: K,
+    ...args: ViewArgs<C[K]>
+  ): Promise<ViewResult<C[K]>> {
+    if (!this.reads) {
+      throw new Error('Contracts not loaded');
+    }
+    return this.reads.read(contract, method, args);
+  }
+
+  // Open tasks are paged from the ACTIVE index first, then from IN_PROGRESS
+  async getOpenTasksPage(
+    cursor: TaskPageCursor,
+    limit: number
+  ): Promise<{ tasks: any[]; nextCursor: TaskPageCursor | null }> {
+    const tasks: any[] = [];
+    let { status, offset } = cursor;
+    let nextCursor: TaskPageCursor | null = null;
+
+    for (;;) {
+      const page = await this.getTasksByStatus(status, offset, limit - tasks.length);
+      tasks.push(...page.tasks);
+      offset += page.tasks.length;
+
+      if (offset < page.total) {
+        nextCursor = { status, offset };
+        break;
+      }
+      if (status === 1) {
+        break;
+      }
+      status = 1;
+      offset = 0;
+      if (tasks.length === limit) {
+        nextCursor = { status, offset };
+        break;
+      }
+    }
+
+    return { tasks: tasks.filter((task) => task !== null), nextCursor };
+  }
+
+  // Served by the indexer when one is configured, otherwise read from TaskManager's status index.
+  // Tasks that fail to load stay in the page as null so offsets keep matching the index.
+  private async getTasksByStatus(status: number, offset: number, limit: number): Promise<{ tasks: any[]; total: number }> {
+    if (indexerService) {
+      const page = await indexerService.getTasks({ status }, offset, limit);
+      const tasks = page.items.map((task) => ({
+        id: task.id,
+        creator: task.creator,
+        description: task.description,
+        category: task.category,
+        bountyAmount: task.bountyAmount,
+        maxWorkers: task.maxWorkers,
+        location: {
+          latitude: task.location.latitude / 1e6,
+          longitude: task.location.longitude / 1e6,
+          radius: task.location.radius,
+        },
+        deadline: task.deadline,
+        status: task.status,
+        submissionCount: task.submissionCount,
+        verifiedCount: task.verifiedCount,
+      }));
+      return { tasks, total: page.total };
+    }
+
+    const taskManager = this.getTaskManager();
+    const [taskIds, total] = await this.read(taskManager, 'getTasksByStatus', status, offset, limit);
+
+    const tasks = await Promise.all(
+      taskIds.map(Number).map(async (taskId) => {
+        try {
+          return await this.getFeedTask(taskId);
+        } catch (error) {
+          console.error(`Failed to fetch task ${taskId}:`, error);
+          return null;
+        }
+      })
+    );
+
+    return { tasks, total: Number(total) };
+  }
+
+  // A task in the shape the feed shows it
+  async getFeedTask(taskId: number) {
+    const task = await this.read(this.getTaskManager(), 'getTask', taskId);
+    return {
+      id: taskId,
+      creator: task.creator,
+      description: task.description,
+      category: Number(task.category),
+      bountyAmount: task.bountyAmount.toString(),
+      maxWorkers: Number(task.maxWorkers),
+      location: {
+        latitude: Number(task.location.latitude) / 1e6,
+        longitude: Number(task.location.longitude) / 1e6,
+        radius: Number(task.location.radius),
+      },
+      deadline: Number(task.deadline),
+      status: Number(task.status),
+      submissionCount: Number(task.submissionCount),
+      verifiedCount: Number(task.verifiedCount),
+    };
+  }
+
+  // Escrows bountyAmount for every worker slot and opens the task; stablecoin bounties
+  // are approved to the BountyPool first
+  async createTask(
+    description: string,
+    category: number,
+    bountyAmount: bigint,
+    currency: 'CELO' | StablecoinSymbol,
+    maxWorkers: number,
+    location: { latitude: bigint; longitude: bigint; radius: bigint },
+    deadline: number,
+    requirements: TaskRequirements
+  ): Promise<{ taskId: bigint; escrowedAmount: bigint }> {
+    if (!this.signer) {
+      throw new Error('Wallet not connected');
+    }
+
+    const address = await this.signer.getAddress();
+    const taskManager = this.getTaskManager();
+    const bountyPool = this.getBountyPool();
+    const totalEscrow = bountyAmount * BigInt(maxWorkers);
+
+    if (currency === 'CELO') {
+      const balance = await this.provider!.getBalance(address);
+      if (balance < totalEscrow) {
+        throw new Error(
+          `Insufficient funds. You need ${ethers.formatEther(totalEscrow)} CELO for the bounty escrow plus gas fees, but you only have ${ethers.formatEther(balance)} CELO.`
+        );
+      }
+
+      const tx = await taskManager.createTask(description, category, bountyAmount, maxWorkers, location, deadline, requirements, {
+        value: totalEscrow,
+      });
+      const receipt = await tx.wait();
+      const taskId = this.findCreatedTaskId(receipt, taskManager);
+      const deposit = this.findReceiptEvent(receipt, bountyPool.interface, 'BountyDeposited');
+      if (!deposit || (deposit.args[0] as bigint) !== taskId) {
+        throw new Error(`Task ${taskId} created but the bounty deposit could not be confirmed`);
+      }
+      return { taskId, escrowedAmount: deposit.args[2] as bigint };
+    }
+
+    const decimals = TOKEN_DECIMALS[currency];
+    const token = new ethers.Contract(TOKEN_ADDRESSES[this.network][currency], ERC20_ABI, this.signer);
+    const balance: bigint = await token.balanceOf(address);
+    if (balance < totalEscrow) {
+      throw new Error(
+        `Insufficient funds. You need ${ethers.formatUnits(totalEscrow, decimals)} ${currency} for the bounty escrow, but you only have ${ethers.formatUnits(balance, decimals)} ${currency}.`
+      );
+    }
+
+    // BountyPool pulls the escrow with transferFrom, so it needs an allowance first
+    const spender = await bountyPool.getAddress();
+    const allowance: bigint = await token.allowance(address, spender);
+    if (allowance < totalEscrow) {
+      const approval = await token.approve(spender, totalEscrow);
+      await approval.wait();
+    }
+
+    const tx = await taskManager.createTaskWithToken(
+      description,
+      category,
+      bountyAmount,
+      maxWorkers,
+      location,
+      deadline,
+      requirements,
+      await token.getAddress()
+    );
+    const receipt = await tx.wait();
+    const taskId = this.findCreatedTaskId(receipt, taskManager);
+    const deposit = this.findReceiptEvent(receipt, bountyPool.interface, 'TokenBountyDeposited');
+    if (!deposit || (deposit.args[0] as bigint) !== taskId) {
+      throw new Error(`Task ${taskId} created but the bounty deposit could not be confirmed`);
+    }
+    return { taskId, escrowedAmount: deposit.args[3] as bigint };
+  }
+
+  private findCreatedTaskId(receipt: ethers.TransactionReceipt | null, taskManager: TaskManager): bigint {
+    const taskCreated = this.findReceiptEvent(receipt, taskManager.interface, 'TaskCreated');
+    if (!taskCreated) {
+      throw new Error('Task created but could not extract task ID');
+    }
+    return taskCreated.args[0] as bigint;
+  }
+
+  private findReceiptEvent(
+    receipt: ethers.TransactionReceipt | null,
+    contractInterface: ethers.Interface,
+    eventName: string
+  ): ethers.LogDescription | null {
+    for (const log of receipt?.logs ?? []) {
+      try {
+        const parsed = contractInterface.parseLog(log);
+        if (parsed?.name === eventName) {
+          return parsed;
+        }
+      } catch {
+        // Log belongs to another contract
+      }
+    }
+    return null;
+  }
+
   async getAccount(): Promise<string | null> {
     if (!this.kit) return null;
     return this.kit.defaultAccount || null;
@@ -0,0 +1,51 @@
+// Client for the event indexer in indexer/. Set EXPO_PUBLIC_INDEXER_URL (e.g. http://192.168.1.10:4000)
+// to read task lists from it instead of the chain; leave it unset to read contracts directly.
+
+export interface IndexerPage<T> {
+  items: T[];
+  total: number;
+}
+
+// Amounts are wei strings and coordinates microdegrees, as stored on-chain
+export interface IndexedTask {
+  id: number;
+  creator: string;
+  description: string;
+  category: number;
+  bountyAmount: string;
+  maxWorkers: number;
+  location: { latitude: number; longitude: number; radius: number };
+  deadline: number;
+  status: number;
+  submissionCount: number;
+  verifiedCount: number;
+  createdAt: number;
+  token: string;
+  campaignId: number | null;
+}
+
+class IndexerService {
+  constructor(private baseUrl: string) {}
+
+  private async get<T>(path: string, params: Record<string, string | number | undefined>): Promise<T> {
+    const query = Object.entries(params)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+      .join('&');
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}?${query}`);
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`Indexer request failed: ${body?.error ?? response.statusText}`);
+    }
+    return response.json();
+  }
+
+  getTasks(filters: { status?: number; creator?: string }, offset: number, limit: number): Promise<IndexerPage<IndexedTask>> {
+    return this.get('/api/tasks', { ...filters, offset, limit });
+  }
+}
+
+const INDEXER_URL = process.env.EXPO_PUBLIC_INDEXER_URL;
+
+export const indexerService = INDEXER_URL ? new IndexerService(INDEXER_URL) : null;
@@ -8,8 +8,6 @@ export interface LocationData {
 }
 
 class LocationService {
-  private watchSubscription: Location.LocationSubscription | null = null;
-
   async requestPermissions(): Promise<boolean> {
     const { status } = await Location.requestForegroundPermissionsAsync();
     return status === 'granted';
@@ -33,35 +31,38 @@ class LocationService {
     };
   }
 
-  watchLocation(callback: (location: LocationData) => void) {
-    this.requestPermissions().then((hasPermission) => {
-      if (!hasPermission) {
-        throw new Error('Location permission not granted');
-      }
-
-      this.watchSubscription = Location.watchPositionAsync(
-        {
-          accuracy: Location.Accuracy.Balanced,
-          timeInterval: 30000, // Update every 30 seconds
-          distanceInterval: 10, // Update every 10 meters
-        },
-        (location) => {
-          callback({
-            latitude: location.coords.latitude,
-            longitude: location.coords.longitude,
-            accuracy: location.coords.accuracy || undefined,
-            timestamp: location.timestamp,
-          });
-        }
-      );
-    });
-  }
-
-  stopWatching() {
-    if (this.watchSubscription) {
-      this.watchSubscription.remove();
-      this.watchSubscription = null;
+  // highAccuracy trades battery for fast GPS fixes, e.g. while capturing a submission.
+  // Resolves to the watch's subscription; the caller removes it when it stops listening.
+  async watchLocation(
+    callback: (location: LocationData) => void,
+    highAccuracy: boolean = false
+  ): Promise<Location.LocationSubscription> {
+    const hasPermission = await this.requestPermissions();
+    if (!hasPermission) {
+      throw new Error('Location permission not granted');
     }
+
+    return Location.watchPositionAsync(
+      highAccuracy
+        ? {
+            accuracy: Location.Accuracy.BestForNavigation,
+            timeInterval: 2000, // Update every 2 seconds
+            distanceInterval: 1, // Update every meter
+          }
+        : {
+            accuracy: Location.Accuracy.Balanced,
+            timeInterval: 30000, // Update every 30 seconds
+            distanceInterval: 10, // Update every 10 meters
+          },
+      (location) => {
+        callback({
+          latitude: location.coords.latitude,
+          longitude: location.coords.longitude,
+          accuracy: location.coords.accuracy || undefined,
+          timestamp: location.timestamp,
+        });
+      }
+    );
   }
 
   calculateDistance(
@@ -0,0 +1,125 @@
+import { Linking } from 'react-native';
+import EthereumProvider from '@walletconnect/ethereum-provider';
+
+// WalletConnect v2 session with a mobile wallet. Sessions are persisted by the WalletConnect
+// client in AsyncStorage, so a paired wallet is picked up again on the next app start.
+// Set EXPO_PUBLIC_WALLETCONNECT_PROJECT_ID to a project ID from https://cloud.reown.com.
+
+export const CELO_CHAIN_ID = 42220;
+export const ALFAJORES_CHAIN_ID = 44787;
+
+const RPC_URLS: Record<number, string> = {
+  [CELO_CHAIN_ID]: 'https://forno.celo.org',
+  [ALFAJORES_CHAIN_ID]: 'https://alfajores-forno.celo-testnet.org',
+};
+
+export type WalletId = 'valora' | 'minipay' | 'metamask' | 'other';
+
+// Deep links that hand the pairing URI to a specific wallet; 'other' uses the bare wc: URI
+const WALLET_LINKS: Record<WalletId, (uri: string) => string> = {
+  valora: (uri) => `celo://wallet/wc?uri=${encodeURIComponent(uri)}`,
+  minipay: (uri) => uri,
+  metamask: (uri) => `metamask://wc?uri=${encodeURIComponent(uri)}`,
+  other: (uri) => uri,
+};
+
+export interface WalletSessionEvents {
+  onAccountsChanged: (accounts: string[]) => void;
+  onChainChanged: (chainId: number) => void;
+  onDisconnect: () => void;
+}
+
+class WalletConnectService {
+  private provider: EthereumProvider | null = null;
+  private initializing: Promise<EthereumProvider> | null = null;
+  private events: WalletSessionEvents | null = null;
+
+  private init(): Promise<EthereumProvider> {
+    if (this.provider) {
+      return Promise.resolve(this.provider);
+    }
+    if (!this.initializing) {
+      const projectId = process.env.EXPO_PUBLIC_WALLETCONNECT_PROJECT_ID;
+      if (!projectId) {
+        return Promise.reject(new Error('WalletConnect is not configured. Set EXPO_PUBLIC_WALLETCONNECT_PROJECT_ID.'));
+      }
+
+      this.initializing = EthereumProvider.init({
+        projectId,
+        showQrModal: false,
+        optionalChains: [ALFAJORES_CHAIN_ID, CELO_CHAIN_ID],
+        rpcMap: RPC_URLS,
+        metadata: {
+          name: 'MicroTaskBounty',
+          description: 'Earn cUSD for verified micro-tasks',
+          url: 'https://microtaskbounty.app',
+          icons: [],
+        },
+      })
+        .then((provider) => {
+          provider.on('accountsChanged', (accounts: string[]) => this.events?.onAccountsChanged(accounts));
+          provider.on('chainChanged', (chainId: string) => this.events?.onChainChanged(Number(chainId)));
+          provider.on('disconnect', () => this.events?.onDisconnect());
+          this.provider = provider;
+          return provider;
+        })
+        .finally(() => {
+          this.initializing = null;
+        });
+    }
+    return this.initializing;
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.EXPO_PUBLIC_WALLETCONNECT_PROJECT_ID;
+  }
+
+  setEventHandlers(events: WalletSessionEvents | null) {
+    this.events = events;
+  }
+
+  // Pairs with a wallet, opening it through a deep link to approve the session
+  async connect(walletId: WalletId, chainId: number): Promise<EthereumProvider> {
+    const provider = await this.init();
+    if (provider.session) {
+      return provider;
+    }
+
+    const openWallet = (uri: string) => {
+      Linking.openURL(WALLET_LINKS[walletId](uri)).catch(() => {
+        console.warn(`Could not open ${walletId}; is it installed?`);
+      });
+    };
+    provider.on('display_uri', openWallet);
+    try {
+      await provider.connect({ optionalChains: [chainId, ...Object.keys(RPC_URLS).map(Number)] });
+    } finally {
+      provider.removeListener('display_uri', openWallet);
+    }
+    return provider;
+  }
+
+  // The session persisted from a previous run, if the wallet still has it
+  async restoreSession(): Promise<EthereumProvider | null> {
+    const provider = await this.init();
+    return provider.session ? provider : null;
+  }
+
+  async switchChain(chainId: number): Promise<void> {
+    if (!this.provider?.session) {
+      return;
+    }
+    await this.provider.request({
+      method: 'wallet_switchEthereumChain',
+      params: [{ chainId: `0x${chainId.toString(16)}` }],
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.provider?.session) {
+      await this.provider.disconnect();
+    }
+  }
+}
+
+export const walletConnectService = new WalletConnectService();
@@ -0,0 +1,47 @@
+import type { AppDispatch, RootState } from './index';
+import { blockchainService } from '../services/blockchain';
+import { refreshTask } from './slices/taskSlice';
+import { fetchReputation } from './slices/userSlice';
+import { consensusReached, fetchPendingVerifications, voteRecorded } from './slices/verificationSlice';
+import { fetchBalance } from './slices/walletSlice';
+
+const isSameAddress = (a: string | null, b: string) => !!a && a.toLowerCase() === b.toLowerCase();
+
+// Keeps the store in sync with contract events; returns a function that stops listening
+export const startLiveUpdates = () => (dispatch: AppDispatch, getState: () => RootState) =>
+  blockchainService.subscribeToEvents({
+    onTaskCreated: (taskId) => {
+      dispatch(refreshTask({ taskId, isNew: true }));
+    },
+    onTaskClaimed: (taskId) => {
+      dispatch(refreshTask({ taskId }));
+    },
+    onTaskSubmitted: (taskId) => {
+      dispatch(refreshTask({ taskId }));
+      dispatch(fetchPendingVerifications());
+    },
+    onVoteSubmitted: (submissionId, _verifier, approved) => {
+      dispatch(voteRecorded({ submissionId, approved }));
+    },
+    onConsensusReached: async (submissionId, status) => {
+      dispatch(consensusReached({ submissionId, status }));
+      try {
+        const verificationContract = blockchainService.getVerificationContract();
+        const submission = await blockchainService.read(verificationContract, 'getSubmission', submissionId);
+        dispatch(refreshTask({ taskId: Number(submission.taskId) }));
+
+        // Rewards and reputation change for the worker and everyone who voted
+        const { address } = getState().wallet;
+        if (!address) {
+          return;
+        }
+        const vote = await blockchainService.read(verificationContract, 'getVote', submissionId, address);
+        if (isSameAddress(address, submission.worker) || vote.hasVoted) {
+          dispatch(fetchReputation(address));
+          dispatch(fetchBalance());
+        }
+      } catch (error) {
+        console.error(`Failed to refresh submission ${submissionId}:`, error);
+      }
+    },
+  });
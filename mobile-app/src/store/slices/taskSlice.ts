@@ -1,5 +1,12 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { blockchainService } from '../../services/blockchain';
+import { ethers } from 'ethers';
+import {
+  blockchainService,
+  StablecoinSymbol,
+  TaskPageCursor,
+  TaskRequirements,
+  TOKEN_DECIMALS,
+} from '../../services/blockchain';
 
 export interface Task {
   id: number;
@@ -20,8 +27,12 @@ export interface Task {
   distance?: number;
 }
 
+export const TASK_PAGE_SIZE = 20;
+
 interface TaskState {
   tasks: Task[];
+  tasksCursor: TaskPageCursor | null; // null once every open task is loaded
+  loadingMore: boolean;
   activeTasks: Task[];
   claimedTasks: number[];
   loading: boolean;
@@ -30,18 +41,49 @@ interface TaskState {
 
 const initialState: TaskState = {
   tasks: [],
+  tasksCursor: null,
+  loadingMore: false,
   activeTasks: [],
   claimedTasks: [],
   loading: false,
   error: null,
 };
 
-export const fetchTasks = createAsyncThunk('tasks/fetchTasks', async () => {
-  // In production, fetch from contract events or subgraph
-  // For now, return empty array
-  return [];
+export const fetchTasks = createAsyncThunk('tasks/fetchTasks', async (_, { rejectWithValue }) => {
+  try {
+    return await blockchainService.getOpenTasksPage({ status: 0, offset: 0 }, TASK_PAGE_SIZE);
+  } catch (error: any) {
+    return rejectWithValue(error.message || 'Failed to fetch tasks');
+  }
 });
 
+export const fetchMoreTasks = createAsyncThunk(
+  'tasks/fetchMoreTasks',
+  async (_, { getState, rejectWithValue }) => {
+    const { tasksCursor } = (getState() as { tasks: TaskState }).tasks;
+    if (!tasksCursor) {
+      return { tasks: [], nextCursor: null };
+    }
+    try {
+      return await blockchainService.getOpenTasksPage(tasksCursor, TASK_PAGE_SIZE);
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to fetch more tasks');
+    }
+  }
+);
+
+// Re-reads one task after a contract event; new tasks are added to the top of the feed
+export const refreshTask = createAsyncThunk(
+  'tasks/refreshTask',
+  async ({ taskId }: { taskId: number; isNew?: boolean }, { rejectWithValue }) => {
+    try {
+      return await blockchainService.getFeedTask(taskId);
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to refresh task');
+    }
+  }
+);
+
 export const claimTask = createAsyncThunk(
   'tasks/claimTask',
   async (taskId: number, { rejectWithValue }) => {
@@ -66,13 +108,78 @@ export const submitTask = createAsyncThunk(
       const taskManager = blockchainService.getTaskManager();
       const tx = await taskManager.submitTaskCompletion(taskId, ipfsHash, location);
       await tx.wait();
-      return { taskId, ipfsHash };
+
+      // Look up the verification queue entry created for this submission
+      const address = await blockchainService.getAccount();
+      const submissionId = address ? Number(await blockchainService.read(taskManager, 'getSubmissionId', taskId, address)) : null;
+
+      return { taskId, ipfsHash, submissionId };
     } catch (error: any) {
       return rejectWithValue(error.message);
     }
   }
 );
 
+export const createTask = createAsyncThunk(
+  'tasks/createTask',
+  async (
+    {
+      description,
+      category,
+      bountyAmount,
+      currency,
+      maxWorkers,
+      location,
+      deadline,
+      requirements,
+    }: {
+      description: string;
+      category: number;
+      bountyAmount: string;
+      currency: 'CELO' | StablecoinSymbol;
+      maxWorkers: number;
+      location: { latitude: number; longitude: number; radius: number };
+      deadline: number;
+      requirements: TaskRequirements;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      // Stablecoin bounties are denominated in the token's own decimals
+      const decimals = currency === 'CELO' ? 18 : TOKEN_DECIMALS[currency];
+      const bountyWei = ethers.parseUnits(bountyAmount, decimals);
+
+      // Convert location to contract format (scaled by 1e6)
+      const contractLocation = {
+        latitude: BigInt(Math.floor(location.latitude * 1e6)),
+        longitude: BigInt(Math.floor(location.longitude * 1e6)),
+        radius: BigInt(location.radius),
+      };
+
+      const { taskId, escrowedAmount } = await blockchainService.createTask(
+        description,
+        category,
+        bountyWei,
+        currency,
+        maxWorkers,
+        contractLocation,
+        deadline,
+        requirements
+      );
+
+      return {
+        taskId: Number(taskId),
+        description,
+        bountyAmount,
+        currency,
+        escrowedAmount: ethers.formatUnits(escrowedAmount, decimals),
+      };
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to create task');
+    }
+  }
+);
+
 const taskSlice = createSlice({
   name: 'tasks',
   initialState,
@@ -101,17 +208,58 @@ const taskSlice = createSlice({
       })
       .addCase(fetchTasks.fulfilled, (state, action) => {
         state.loading = false;
-        state.tasks = action.payload;
+        state.tasks = action.payload.tasks;
+        state.tasksCursor = action.payload.nextCursor;
       })
       .addCase(fetchTasks.rejected, (state, action) => {
         state.loading = false;
         state.error = action.error.message || 'Failed to fetch tasks';
       })
+      .addCase(fetchMoreTasks.pending, (state) => {
+        state.loadingMore = true;
+      })
+      .addCase(fetchMoreTasks.fulfilled, (state, action) => {
+        state.loadingMore = false;
+        // Status changes can shift a task into a later page, so skip ones already shown
+        const shown = new Set(state.tasks.map((task) => task.id));
+        state.tasks.push(...action.payload.tasks.filter((task) => !shown.has(task.id)));
+        state.tasksCursor = action.payload.nextCursor;
+      })
+      .addCase(fetchMoreTasks.rejected, (state, action) => {
+        state.loadingMore = false;
+        state.error = action.payload as string;
+      })
+      .addCase(refreshTask.fulfilled, (state, action) => {
+        const task = action.payload;
+        const index = state.tasks.findIndex((t) => t.id === task.id);
+        // The feed lists ACTIVE and IN_PROGRESS tasks
+        if (task.status > 1) {
+          if (index !== -1) {
+            state.tasks.splice(index, 1);
+          }
+        } else if (index !== -1) {
+          state.tasks[index] = { ...task, distance: state.tasks[index].distance };
+        } else if (action.meta.arg.isNew) {
+          state.tasks.unshift(task);
+        }
+      })
       .addCase(claimTask.fulfilled, (state, action) => {
         state.claimedTasks.push(action.payload);
       })
       .addCase(submitTask.fulfilled, (state, action) => {
         state.claimedTasks = state.claimedTasks.filter((id) => id !== action.payload.taskId);
+      })
+      .addCase(createTask.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(createTask.fulfilled, (state) => {
+        // The TaskCreated event adds the task to the feed
+        state.loading = false;
+      })
+      .addCase(createTask.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
       });
   },
 });
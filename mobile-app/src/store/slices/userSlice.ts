@@ -27,8 +27,10 @@ export const fetchReputation = createAsyncThunk(
   'user/fetchReputation',
   async (address: string) => {
     const reputationContract = blockchainService.getReputationContract();
-    const score = await reputationContract.getReputationScore(address);
-    const data = await reputationContract.getReputationData(address);
+    const [score, data] = await Promise.all([
+      blockchainService.read(reputationContract, 'getReputationScore', address),
+      blockchainService.read(reputationContract, 'getReputationData', address),
+    ]);
     return {
       score: Number(score),
       tasksCompleted: Number(data.tasksCompleted),
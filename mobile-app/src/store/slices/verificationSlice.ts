@@ -1,4 +1,4 @@
-import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { blockchainService } from '../../services/blockchain';
 
 interface Verification {
@@ -84,6 +84,27 @@ const verificationSlice = createSlice({
         state.pendingVerifications[index] = action.payload;
       }
     },
+    voteRecorded: (state, action: PayloadAction<{ submissionId: number; approved: boolean }>) => {
+      const { submissionId, approved } = action.payload;
+      [...state.pendingVerifications, ...state.myVerifications]
+        .filter((v) => v.id === submissionId)
+        .forEach((v) => {
+          if (approved) {
+            v.approvalCount++;
+          } else {
+            v.rejectionCount++;
+          }
+        });
+    },
+    consensusReached: (state, action: PayloadAction<{ submissionId: number; status: number }>) => {
+      const { submissionId, status } = action.payload;
+      state.pendingVerifications = state.pendingVerifications.filter((v) => v.id !== submissionId);
+      state.myVerifications
+        .filter((v) => v.id === submissionId)
+        .forEach((v) => {
+          v.status = status;
+        });
+    },
   },
   extraReducers: (builder) => {
     builder
@@ -99,7 +120,7 @@ const verificationSlice = createSlice({
   },
 });
 
-export const { addVerification, updateVerification } = verificationSlice.actions;
+export const { addVerification, updateVerification, voteRecorded, consensusReached } = verificationSlice.actions;
 export default verificationSlice.reducer;
 
 
@@ -1,5 +1,6 @@
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
-import { blockchainService } from '../../services/blockchain';
+import { blockchainService, NetworkName } from '../../services/blockchain';
+import type { WalletId } from '../../services/walletConnect';
 
 interface WalletState {
   address: string | null;
@@ -7,6 +8,7 @@ interface WalletState {
   pendingBalance: string;
   verifiedBalance: string;
   connected: boolean;
+  network: NetworkName;
   loading: boolean;
   error: string | null;
 }
@@ -17,6 +19,7 @@ const initialState: WalletState = {
   pendingBalance: '0',
   verifiedBalance: '0',
   connected: false,
+  network: 'alfajores',
   loading: false,
   error: null,
 };
@@ -35,6 +38,57 @@ export const connectWallet = createAsyncThunk(
   }
 );
 
+// Pairs with Valora, MiniPay, MetaMask Mobile or another wallet over WalletConnect
+export const connectExternalWallet = createAsyncThunk(
+  'wallet/connectExternal',
+  async (walletId: WalletId, { rejectWithValue }) => {
+    try {
+      await blockchainService.connectWallet(undefined, walletId);
+      const address = await blockchainService.getAccount();
+      const balance = await blockchainService.getBalance();
+      return { address, balance };
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to connect wallet');
+    }
+  }
+);
+
+// Picks up the WalletConnect session from the last run; resolves to null when there is none
+export const restoreWallet = createAsyncThunk('wallet/restore', async (_, { rejectWithValue }) => {
+  try {
+    const address = await blockchainService.restoreWallet();
+    if (!address) {
+      return null;
+    }
+    const balance = await blockchainService.getBalance();
+    return { address, balance, network: blockchainService.getNetworkName() };
+  } catch (error: any) {
+    return rejectWithValue(error.message || 'Failed to restore wallet session');
+  }
+});
+
+export const switchNetwork = createAsyncThunk(
+  'wallet/switchNetwork',
+  async (network: NetworkName, { rejectWithValue }) => {
+    try {
+      await blockchainService.switchNetwork(network);
+      const balance = await blockchainService.getBalance();
+      return { network, balance };
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to switch network');
+    }
+  }
+);
+
+export const disconnectWallet = createAsyncThunk('wallet/disconnectWallet', async (_, { dispatch, rejectWithValue }) => {
+  try {
+    await blockchainService.disconnectWallet();
+    dispatch(disconnect());
+  } catch (error: any) {
+    return rejectWithValue(error.message || 'Failed to disconnect wallet');
+  }
+});
+
 export const fetchBalance = createAsyncThunk('wallet/fetchBalance', async () => {
   const balance = await blockchainService.getBalance();
   return balance;
@@ -69,6 +123,41 @@ const walletSlice = createSlice({
         state.loading = false;
         state.error = action.payload as string;
       })
+      .addCase(connectExternalWallet.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(connectExternalWallet.fulfilled, (state, action) => {
+        state.loading = false;
+        state.address = action.payload.address;
+        state.balance = action.payload.balance;
+        state.connected = true;
+      })
+      .addCase(connectExternalWallet.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(restoreWallet.fulfilled, (state, action) => {
+        if (action.payload) {
+          state.address = action.payload.address;
+          state.balance = action.payload.balance;
+          state.network = action.payload.network;
+          state.connected = true;
+        }
+      })
+      .addCase(switchNetwork.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(switchNetwork.fulfilled, (state, action) => {
+        state.loading = false;
+        state.network = action.payload.network;
+        state.balance = action.payload.balance;
+      })
+      .addCase(switchNetwork.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
       .addCase(fetchBalance.fulfilled, (state, action) => {
         state.balance = action.payload;
       });
@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as introspection from "./introspection";
+export type { introspection };
 export type { ReentrancyGuard } from "./ReentrancyGuard";
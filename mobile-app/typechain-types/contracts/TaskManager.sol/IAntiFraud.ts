@@ -22,17 +22,32 @@ import type {
 } from "../../common";
 
 export interface IAntiFraudInterface extends Interface {
-  getFunction(nameOrSignature: "checkAndRecordSubmission"): FunctionFragment;
+  getFunction(
+    nameOrSignature: "checkAndRecordSubmission" | "lockStake" | "releaseStake"
+  ): FunctionFragment;
 
   encodeFunctionData(
     functionFragment: "checkAndRecordSubmission",
     values: [AddressLike, BigNumberish, string, BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "lockStake",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseStake",
+    values: [AddressLike, BigNumberish]
+  ): string;
 
   decodeFunctionResult(
     functionFragment: "checkAndRecordSubmission",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "lockStake", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseStake",
+    data: BytesLike
+  ): Result;
 }
 
 export interface IAntiFraud extends BaseContract {
@@ -89,6 +104,18 @@ export interface IAntiFraud extends BaseContract {
     "nonpayable"
   >;
 
+  lockStake: TypedContractMethod<
+    [worker: AddressLike, taskId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  releaseStake: TypedContractMethod<
+    [worker: AddressLike, taskId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
@@ -105,6 +132,20 @@ export interface IAntiFraud extends BaseContract {
     [boolean],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "lockStake"
+  ): TypedContractMethod<
+    [worker: AddressLike, taskId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "releaseStake"
+  ): TypedContractMethod<
+    [worker: AddressLike, taskId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
 
   filters: {};
 }
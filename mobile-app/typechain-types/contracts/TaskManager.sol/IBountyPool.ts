@@ -0,0 +1,333 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface IBountyPoolInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "allocateCampaignBudget"
+      | "depositBounty"
+      | "depositCampaignBudget"
+      | "depositTokenBounty"
+      | "depositTokenCampaignBudget"
+      | "getCampaignBudget"
+      | "getCampaignSpending"
+      | "getTaskBounty"
+      | "getTaskToken"
+      | "refundBounty"
+      | "refundCampaignBudget"
+      | "refundCompletedBounty"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "allocateCampaignBudget",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositBounty",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositCampaignBudget",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositTokenBounty",
+    values: [BigNumberish, AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositTokenCampaignBudget",
+    values: [BigNumberish, AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCampaignBudget",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCampaignSpending",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTaskBounty",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTaskToken",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refundBounty",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refundCampaignBudget",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refundCompletedBounty",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "allocateCampaignBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositBounty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositCampaignBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositTokenBounty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositTokenCampaignBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCampaignBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCampaignSpending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTaskBounty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTaskToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "refundBounty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "refundCampaignBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "refundCompletedBounty",
+    data: BytesLike
+  ): Result;
+}
+
+export interface IBountyPool extends BaseContract {
+  connect(runner?: ContractRunner | null): IBountyPool;
+  waitForDeployment(): Promise<this>;
+
+  interface: IBountyPoolInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  allocateCampaignBudget: TypedContractMethod<
+    [campaignId: BigNumberish, taskId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  depositBounty: TypedContractMethod<[taskId: BigNumberish], [void], "payable">;
+
+  depositCampaignBudget: TypedContractMethod<
+    [campaignId: BigNumberish],
+    [void],
+    "payable"
+  >;
+
+  depositTokenBounty: TypedContractMethod<
+    [
+      taskId: BigNumberish,
+      token: AddressLike,
+      creator: AddressLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  depositTokenCampaignBudget: TypedContractMethod<
+    [
+      campaignId: BigNumberish,
+      token: AddressLike,
+      creator: AddressLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getCampaignBudget: TypedContractMethod<
+    [campaignId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getCampaignSpending: TypedContractMethod<
+    [campaignId: BigNumberish],
+    [[bigint, bigint] & { spent: bigint; refunded: bigint }],
+    "view"
+  >;
+
+  getTaskBounty: TypedContractMethod<[taskId: BigNumberish], [bigint], "view">;
+
+  getTaskToken: TypedContractMethod<[taskId: BigNumberish], [string], "view">;
+
+  refundBounty: TypedContractMethod<
+    [taskId: BigNumberish, creator: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  refundCampaignBudget: TypedContractMethod<
+    [campaignId: BigNumberish, creator: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  refundCompletedBounty: TypedContractMethod<
+    [taskId: BigNumberish, creator: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "allocateCampaignBudget"
+  ): TypedContractMethod<
+    [campaignId: BigNumberish, taskId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "depositBounty"
+  ): TypedContractMethod<[taskId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "depositCampaignBudget"
+  ): TypedContractMethod<[campaignId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "depositTokenBounty"
+  ): TypedContractMethod<
+    [
+      taskId: BigNumberish,
+      token: AddressLike,
+      creator: AddressLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "depositTokenCampaignBudget"
+  ): TypedContractMethod<
+    [
+      campaignId: BigNumberish,
+      token: AddressLike,
+      creator: AddressLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getCampaignBudget"
+  ): TypedContractMethod<[campaignId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getCampaignSpending"
+  ): TypedContractMethod<
+    [campaignId: BigNumberish],
+    [[bigint, bigint] & { spent: bigint; refunded: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTaskBounty"
+  ): TypedContractMethod<[taskId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getTaskToken"
+  ): TypedContractMethod<[taskId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "refundBounty"
+  ): TypedContractMethod<
+    [taskId: BigNumberish, creator: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "refundCampaignBudget"
+  ): TypedContractMethod<
+    [campaignId: BigNumberish, creator: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "refundCompletedBounty"
+  ): TypedContractMethod<
+    [taskId: BigNumberish, creator: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  filters: {};
+}
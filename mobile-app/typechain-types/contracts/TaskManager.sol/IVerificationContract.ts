@@ -0,0 +1,154 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace IVerificationContract {
+  export type LocationStruct = {
+    latitude: BigNumberish;
+    longitude: BigNumberish;
+    radius: BigNumberish;
+  };
+
+  export type LocationStructOutput = [
+    latitude: bigint,
+    longitude: bigint,
+    radius: bigint
+  ] & { latitude: bigint; longitude: bigint; radius: bigint };
+}
+
+export interface IVerificationContractInterface extends Interface {
+  getFunction(
+    nameOrSignature: "createSubmission" | "getReservedBounty"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "createSubmission",
+    values: [
+      BigNumberish,
+      AddressLike,
+      string,
+      IVerificationContract.LocationStruct,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getReservedBounty",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "createSubmission",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getReservedBounty",
+    data: BytesLike
+  ): Result;
+}
+
+export interface IVerificationContract extends BaseContract {
+  connect(runner?: ContractRunner | null): IVerificationContract;
+  waitForDeployment(): Promise<this>;
+
+  interface: IVerificationContractInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  createSubmission: TypedContractMethod<
+    [
+      taskId: BigNumberish,
+      worker: AddressLike,
+      ipfsHash: string,
+      location: IVerificationContract.LocationStruct,
+      bountyAmount: BigNumberish,
+      category: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  getReservedBounty: TypedContractMethod<
+    [taskId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "createSubmission"
+  ): TypedContractMethod<
+    [
+      taskId: BigNumberish,
+      worker: AddressLike,
+      ipfsHash: string,
+      location: IVerificationContract.LocationStruct,
+      bountyAmount: BigNumberish,
+      category: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getReservedBounty"
+  ): TypedContractMethod<[taskId: BigNumberish], [bigint], "view">;
+
+  filters: {};
+}
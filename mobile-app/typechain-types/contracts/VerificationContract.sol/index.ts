@@ -4,4 +4,5 @@
 export type { IAntiFraud } from "./IAntiFraud";
 export type { IBountyPool } from "./IBountyPool";
 export type { IReputationContract } from "./IReputationContract";
+export type { ITaskManager } from "./ITaskManager";
 export type { VerificationContract } from "./VerificationContract";
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { MockERC20 } from "./MockERC20";
+export type { MockTaskManager } from "./MockTaskManager";
+export type { Multicall3 } from "./Multicall3";
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { IERC1155Errors__factory } from "./IERC1155Errors__factory";
+export { IERC20Errors__factory } from "./IERC20Errors__factory";
+export { IERC721Errors__factory } from "./IERC721Errors__factory";
@@ -1,4 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as introspection from "./introspection";
 export { ReentrancyGuard__factory } from "./ReentrancyGuard__factory";
@@ -16,6 +16,11 @@ const _abi = [
         name: "worker",
         type: "address",
       },
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
       {
         internalType: "string",
         name: "reason",
@@ -23,7 +28,37 @@ const _abi = [
       },
     ],
     name: "forfeitStake",
-    outputs: [],
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "releaseStake",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
     stateMutability: "nonpayable",
     type: "function",
   },
@@ -34,13 +34,18 @@ const _abi = [
         name: "worker",
         type: "address",
       },
+      {
+        internalType: "enum TaskCategory",
+        name: "category",
+        type: "uint8",
+      },
       {
         internalType: "bool",
         name: "successful",
         type: "bool",
       },
     ],
-    name: "updateWorkerReputation",
+    name: "updateWorkerReputationWithCategory",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -22,6 +22,7 @@ const DEMO_TASKS = [
       requiresLocation: true,
       minReputation: 0,
       requiredBadge: 0,
+      requiresBadge: false,
     },
   },
   {
@@ -40,6 +41,7 @@ const DEMO_TASKS = [
       requiresLocation: true,
       minReputation: 10,
       requiredBadge: 0,
+      requiresBadge: false,
     },
   },
   {
@@ -58,6 +60,7 @@ const DEMO_TASKS = [
       requiresLocation: true,
       minReputation: 0,
       requiredBadge: 0,
+      requiresBadge: false,
     },
   },
   {
@@ -76,6 +79,7 @@ const DEMO_TASKS = [
       requiresLocation: true,
       minReputation: 5,
       requiredBadge: 0,
+      requiresBadge: false,
     },
   },
   {
@@ -94,6 +98,7 @@ const DEMO_TASKS = [
       requiresLocation: true,
       minReputation: 0,
       requiredBadge: 0,
+      requiresBadge: false,
     },
   },
   {
@@ -112,6 +117,7 @@ const DEMO_TASKS = [
       requiresLocation: true,
       minReputation: 15,
       requiredBadge: 0,
+      requiresBadge: false,
     },
   },
   {
@@ -130,6 +136,7 @@ const DEMO_TASKS = [
       requiresLocation: true,
       minReputation: 0,
       requiredBadge: 0,
+      requiresBadge: false,
     },
   },
   {
@@ -148,10 +155,35 @@ const DEMO_TASKS = [
       requiresLocation: true,
       minReputation: 20,
       requiredBadge: 0,
+      requiresBadge: false,
     },
   },
 ];
 
+// Demo price-check campaign: one shared budget, one task per shop
+const DEMO_CAMPAIGN = {
+  description: "Record the shelf price of a 1L carton of whole milk",
+  category: 3, // PRICE_MONITORING
+  bountyAmount: "1.0",
+  workersPerLocation: 2,
+  deadlineHours: 48,
+  requirements: {
+    photoCount: 1,
+    requiresLocation: true,
+    minReputation: 0,
+    requiredBadge: 0,
+    requiresBadge: false,
+  },
+  locations: [
+    { latitude: 37.7793, longitude: -122.4192, radius: 50 },
+    { latitude: 37.7858, longitude: -122.4064, radius: 50 },
+    { latitude: 37.7699, longitude: -122.4468, radius: 50 },
+    { latitude: 37.7599, longitude: -122.4148, radius: 50 },
+  ],
+  // Leaves room for two more shops via addCampaignLocations
+  extraLocations: 2,
+};
+
 async function main() {
   // Load deployment info
   const deploymentPath = path.resolve(process.cwd(), "deployments.json");
@@ -194,7 +226,7 @@ async function main() {
         },
         deadline,
         task.requirements,
-        { value: bountyAmount }
+        { value: bountyAmount * BigInt(task.maxWorkers) }
       );
 
       const receipt = await tx.wait();
@@ -225,6 +257,53 @@ async function main() {
     }
   }
 
+  console.log(`Creating price-check campaign across ${DEMO_CAMPAIGN.locations.length} shops...`);
+
+  let campaignId: number | undefined;
+  try {
+    const bountyAmount = ethers.parseEther(DEMO_CAMPAIGN.bountyAmount);
+    const budget = bountyAmount * BigInt(DEMO_CAMPAIGN.workersPerLocation)
+      * BigInt(DEMO_CAMPAIGN.locations.length + DEMO_CAMPAIGN.extraLocations);
+
+    const tx = await taskManager.createCampaign(
+      {
+        description: DEMO_CAMPAIGN.description,
+        category: DEMO_CAMPAIGN.category,
+        bountyAmount,
+        workersPerLocation: DEMO_CAMPAIGN.workersPerLocation,
+        deadline: Math.floor(Date.now() / 1000) + DEMO_CAMPAIGN.deadlineHours * 3600,
+        requirements: DEMO_CAMPAIGN.requirements,
+      },
+      DEMO_CAMPAIGN.locations.map((location) => ({
+        latitude: BigInt(Math.floor(location.latitude * 1e6)),
+        longitude: BigInt(Math.floor(location.longitude * 1e6)),
+        radius: BigInt(location.radius),
+      })),
+      { value: budget }
+    );
+
+    const receipt = await tx.wait();
+    for (const log of receipt?.logs ?? []) {
+      try {
+        const parsed = taskManager.interface.parseLog(log);
+        if (parsed?.name === 'CampaignCreated') {
+          campaignId = Number(parsed.args[0]);
+        }
+      } catch {
+        // Not a TaskManager event
+      }
+    }
+
+    if (campaignId !== undefined) {
+      const report = await taskManager.getCampaignReport(campaignId);
+      console.log(`  ✓ Campaign created! ID: ${campaignId}, Tasks: ${report.taskCount}, Budget: ${ethers.formatEther(report.budget)} CELO, Unallocated: ${ethers.formatEther(report.unallocated)} CELO\n`);
+    } else {
+      console.log(`  ⚠ Campaign created but could not extract campaign ID\n`);
+    }
+  } catch (error: any) {
+    console.error(`  ✗ Failed to create campaign: ${error.message}\n`);
+  }
+
   console.log("\n" + "=".repeat(60));
   console.log("DEMO TASKS CREATION SUMMARY");
   console.log("=".repeat(60));
@@ -236,6 +315,9 @@ async function main() {
       console.log(`  ${idx + 1}. Task ID: ${task.taskId} - ${task.description.substring(0, 40)}...`);
     });
   }
+  if (campaignId !== undefined) {
+    console.log(`Campaign ID: ${campaignId} (${DEMO_CAMPAIGN.locations.length} shops)`);
+  }
   console.log("=".repeat(60));
 }
 
@@ -1,14 +1,22 @@
 import hre from "hardhat";
 import * as fs from "fs";
 import * as path from "path";
+import { STABLECOINS } from "./stablecoins";
 
 const { ethers } = hre;
 
+// Canonical Multicall3 deployment, used by the frontends to batch reads
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const HARDHAT_CHAIN_IDS = ["31337", "1337"];
+
 async function main() {
   const [deployer] = await ethers.getSigners();
   console.log("Deploying contracts with the account:", deployer.address);
   console.log("Account balance:", (await ethers.provider.getBalance(deployer.address)).toString());
 
+  // The indexer starts scanning logs from here instead of genesis
+  const startBlock = await ethers.provider.getBlockNumber();
+
   // Deploy contracts in order
   console.log("\n1. Deploying AntiFraud...");
   const AntiFraud = await ethers.getContractFactory("AntiFraud");
@@ -51,10 +59,12 @@ async function main() {
   console.log("  - Setting AntiFraud addresses...");
   await antiFraud.setTaskManager(taskManagerAddress);
   await antiFraud.setVerificationContract(verificationContractAddress);
+  await antiFraud.setBountyPool(bountyPoolAddress);
 
   console.log("  - Setting BountyPool addresses...");
   await bountyPool.setTaskManager(taskManagerAddress);
   await bountyPool.setVerificationContract(verificationContractAddress);
+  await bountyPool.setReputationContract(reputationContractAddress);
 
   console.log("  - Setting VerificationContract addresses...");
   await verificationContract.setBountyPool(bountyPoolAddress);
@@ -68,6 +78,27 @@ async function main() {
 
   console.log("  - Setting TaskManager addresses...");
   await taskManager.setAntiFraud(antiFraudAddress);
+  await taskManager.setBountyPool(bountyPoolAddress);
+  await taskManager.setVerificationContract(verificationContractAddress);
+  await taskManager.setReputationContract(reputationContractAddress);
+
+  console.log("  - Allowlisting stablecoins for bounty escrow...");
+  const chainId = (await ethers.provider.getNetwork()).chainId.toString();
+  for (const [symbol, tokenAddress] of Object.entries(STABLECOINS[chainId] ?? {})) {
+    await bountyPool.setTokenAllowed(tokenAddress, true);
+    console.log(`    ${symbol}: ${tokenAddress}`);
+  }
+
+  // Local chains have no canonical Multicall3, so deploy our stand-in
+  let multicallAddress = MULTICALL3_ADDRESS;
+  if (HARDHAT_CHAIN_IDS.includes(chainId)) {
+    console.log("\n7. Deploying Multicall3 for the local network...");
+    const Multicall3 = await ethers.getContractFactory("Multicall3");
+    const multicall = await Multicall3.deploy();
+    await multicall.waitForDeployment();
+    multicallAddress = await multicall.getAddress();
+    console.log("Multicall3 deployed to:", multicallAddress);
+  }
 
   console.log("\n✅ All contracts deployed and configured!");
 
@@ -76,12 +107,14 @@ async function main() {
     network: (await ethers.provider.getNetwork()).name,
     chainId: (await ethers.provider.getNetwork()).chainId.toString(),
     deployer: deployer.address,
+    startBlock,
     contracts: {
       AntiFraud: antiFraudAddress,
       ReputationContract: reputationContractAddress,
       BountyPool: bountyPoolAddress,
       VerificationContract: verificationContractAddress,
       TaskManager: taskManagerAddress,
+      Multicall3: multicallAddress,
     },
     timestamp: new Date().toISOString(),
   };
@@ -1,6 +1,7 @@
 import hre from "hardhat";
 import * as fs from "fs";
 import * as path from "path";
+import { STABLECOINS } from "./stablecoins";
 
 const RPC_ENDPOINTS = [
   "https://alfajores-forno.celo-testnet.org",
@@ -97,10 +98,12 @@ async function main() {
   console.log("  - Setting AntiFraud addresses...");
   await antiFraud.setTaskManager(taskManagerAddress);
   await antiFraud.setVerificationContract(verificationContractAddress);
+  await antiFraud.setBountyPool(bountyPoolAddress);
 
   console.log("  - Setting BountyPool addresses...");
   await bountyPool.setTaskManager(taskManagerAddress);
   await bountyPool.setVerificationContract(verificationContractAddress);
+  await bountyPool.setReputationContract(reputationContractAddress);
 
   console.log("  - Setting VerificationContract addresses...");
   await verificationContract.setBountyPool(bountyPoolAddress);
@@ -114,6 +117,16 @@ async function main() {
 
   console.log("  - Setting TaskManager addresses...");
   await taskManager.setAntiFraud(antiFraudAddress);
+  await taskManager.setBountyPool(bountyPoolAddress);
+  await taskManager.setVerificationContract(verificationContractAddress);
+  await taskManager.setReputationContract(reputationContractAddress);
+
+  console.log("  - Allowlisting stablecoins for bounty escrow...");
+  const chainId = (await hreEthers.provider.getNetwork()).chainId.toString();
+  for (const [symbol, tokenAddress] of Object.entries(STABLECOINS[chainId] ?? {})) {
+    await bountyPool.setTokenAllowed(tokenAddress, true);
+    console.log(`    ${symbol}: ${tokenAddress}`);
+  }
 
   console.log("\n✅ All contracts deployed and configured!");
 
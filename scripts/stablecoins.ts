@@ -0,0 +1,12 @@
+// Stablecoins accepted for task bounties, keyed by chain ID
+export const STABLECOINS: Record<string, Record<string, string>> = {
+  "42220": {
+    cUSD: "0x765DE816845861e75A25fCA122bb6898B8B1282a",
+    USDC: "0xcebA9300f2b948710d2653dD7B07f33A8B32118C",
+    USDT: "0x48065fbBE25f71C9282ddf5e1cD6D6A887483D5e",
+  },
+  "44787": {
+    cUSD: "0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1",
+    USDC: "0x2F25deB3848C207fc8E0c34035B3Ba7fC157602B",
+  },
+};
@@ -0,0 +1,1485 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace AntiFraud {
+  export type SubmissionRecordStruct = {
+    timestamp: BigNumberish;
+    imageHash: string;
+    metadataHash: BytesLike;
+  };
+
+  export type SubmissionRecordStructOutput = [
+    timestamp: bigint,
+    imageHash: string,
+    metadataHash: string
+  ] & { timestamp: bigint; imageHash: string; metadataHash: string };
+}
+
+export interface AntiFraudInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "DUPLICATE_SIMILARITY_THRESHOLD"
+      | "MAX_SUBMISSIONS_PER_DAY"
+      | "ONE_DAY"
+      | "STAKE_WITHDRAWAL_COOLDOWN"
+      | "blacklistWorker"
+      | "blacklistedWorkers"
+      | "bountyPoolAddress"
+      | "checkAndRecordSubmission"
+      | "checkImageSimilarity"
+      | "claimStakes"
+      | "depositStake"
+      | "forfeitDestination"
+      | "forfeitStake"
+      | "forfeitedFees"
+      | "getAvailableStake"
+      | "getImageHashWorker"
+      | "getTodaySubmissionCount"
+      | "getWorkerStake"
+      | "getWorkerSubmissions"
+      | "imageHashToWorker"
+      | "isImageHashUsed"
+      | "isWorkerBlacklisted"
+      | "lockStake"
+      | "lockedStakes"
+      | "owner"
+      | "pendingWithdrawals"
+      | "releaseStake"
+      | "renounceOwnership"
+      | "requestStakeWithdrawal"
+      | "setBountyPool"
+      | "setForfeitDestination"
+      | "setTaskManager"
+      | "setVerificationContract"
+      | "stakeWithdrawalRequestedAt"
+      | "sweepForfeitedFees"
+      | "taskManagerAddress"
+      | "transferOwnership"
+      | "unblacklistWorker"
+      | "usedImageHashes"
+      | "validateTimestamp"
+      | "verificationContractAddress"
+      | "withdraw"
+      | "withdrawStake"
+      | "withdrawable"
+      | "workerDailySubmissions"
+      | "workerStakes"
+      | "workerSubmissions"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DuplicateDetected"
+      | "ForfeitDestinationUpdated"
+      | "ForfeitWithdrawn"
+      | "ForfeitedFeesSwept"
+      | "ForfeitedStakeCredited"
+      | "OwnershipTransferred"
+      | "RateLimitExceeded"
+      | "StakeDeposited"
+      | "StakeForfeited"
+      | "StakeLocked"
+      | "StakeReleased"
+      | "StakeWithdrawalRequested"
+      | "StakeWithdrawn"
+      | "SubmissionRecorded"
+      | "WorkerBlacklisted"
+      | "WorkerUnblacklisted"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "DUPLICATE_SIMILARITY_THRESHOLD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_SUBMISSIONS_PER_DAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "ONE_DAY", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "STAKE_WITHDRAWAL_COOLDOWN",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "blacklistWorker",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "blacklistedWorkers",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bountyPoolAddress",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkAndRecordSubmission",
+    values: [AddressLike, BigNumberish, string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkImageSimilarity",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimStakes",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositStake",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "forfeitDestination",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "forfeitStake",
+    values: [AddressLike, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "forfeitedFees",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAvailableStake",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getImageHashWorker",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTodaySubmissionCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getWorkerStake",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getWorkerSubmissions",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "imageHashToWorker",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isImageHashUsed",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isWorkerBlacklisted",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lockStake",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lockedStakes",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingWithdrawals",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseStake",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestStakeWithdrawal",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBountyPool",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setForfeitDestination",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTaskManager",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVerificationContract",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "stakeWithdrawalRequestedAt",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "sweepForfeitedFees",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "taskManagerAddress",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unblacklistWorker",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "usedImageHashes",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "validateTimestamp",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verificationContractAddress",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "withdraw", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "withdrawStake",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawable",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "workerDailySubmissions",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "workerStakes",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "workerSubmissions",
+    values: [AddressLike, BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "DUPLICATE_SIMILARITY_THRESHOLD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_SUBMISSIONS_PER_DAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "ONE_DAY", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "STAKE_WITHDRAWAL_COOLDOWN",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "blacklistWorker",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "blacklistedWorkers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "bountyPoolAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "checkAndRecordSubmission",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "checkImageSimilarity",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimStakes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "forfeitDestination",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "forfeitStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "forfeitedFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAvailableStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getImageHashWorker",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTodaySubmissionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getWorkerStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getWorkerSubmissions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "imageHashToWorker",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isImageHashUsed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isWorkerBlacklisted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "lockStake", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lockedStakes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingWithdrawals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestStakeWithdrawal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setBountyPool",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setForfeitDestination",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTaskManager",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setVerificationContract",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "stakeWithdrawalRequestedAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "sweepForfeitedFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "taskManagerAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unblacklistWorker",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "usedImageHashes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "validateTimestamp",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verificationContractAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "workerDailySubmissions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "workerStakes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "workerSubmissions",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace DuplicateDetectedEvent {
+  export type InputTuple = [
+    worker: AddressLike,
+    imageHash: string,
+    originalWorker: AddressLike
+  ];
+  export type OutputTuple = [
+    worker: string,
+    imageHash: string,
+    originalWorker: string
+  ];
+  export interface OutputObject {
+    worker: string;
+    imageHash: string;
+    originalWorker: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ForfeitDestinationUpdatedEvent {
+  export type InputTuple = [destination: BigNumberish];
+  export type OutputTuple = [destination: bigint];
+  export interface OutputObject {
+    destination: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ForfeitWithdrawnEvent {
+  export type InputTuple = [account: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [account: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ForfeitedFeesSweptEvent {
+  export type InputTuple = [bountyPool: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [bountyPool: string, amount: bigint];
+  export interface OutputObject {
+    bountyPool: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ForfeitedStakeCreditedEvent {
+  export type InputTuple = [
+    worker: AddressLike,
+    taskId: BigNumberish,
+    recipient: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    worker: string,
+    taskId: bigint,
+    recipient: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    worker: string;
+    taskId: bigint;
+    recipient: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RateLimitExceededEvent {
+  export type InputTuple = [
+    worker: AddressLike,
+    currentCount: BigNumberish,
+    maxAllowed: BigNumberish
+  ];
+  export type OutputTuple = [
+    worker: string,
+    currentCount: bigint,
+    maxAllowed: bigint
+  ];
+  export interface OutputObject {
+    worker: string;
+    currentCount: bigint;
+    maxAllowed: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeDepositedEvent {
+  export type InputTuple = [
+    worker: AddressLike,
+    amount: BigNumberish,
+    totalStake: BigNumberish
+  ];
+  export type OutputTuple = [
+    worker: string,
+    amount: bigint,
+    totalStake: bigint
+  ];
+  export interface OutputObject {
+    worker: string;
+    amount: bigint;
+    totalStake: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeForfeitedEvent {
+  export type InputTuple = [
+    worker: AddressLike,
+    amount: BigNumberish,
+    reason: string
+  ];
+  export type OutputTuple = [worker: string, amount: bigint, reason: string];
+  export interface OutputObject {
+    worker: string;
+    amount: bigint;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeLockedEvent {
+  export type InputTuple = [
+    worker: AddressLike,
+    taskId: BigNumberish,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [worker: string, taskId: bigint, amount: bigint];
+  export interface OutputObject {
+    worker: string;
+    taskId: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeReleasedEvent {
+  export type InputTuple = [
+    worker: AddressLike,
+    taskId: BigNumberish,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [worker: string, taskId: bigint, amount: bigint];
+  export interface OutputObject {
+    worker: string;
+    taskId: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeWithdrawalRequestedEvent {
+  export type InputTuple = [worker: AddressLike, availableAt: BigNumberish];
+  export type OutputTuple = [worker: string, availableAt: bigint];
+  export interface OutputObject {
+    worker: string;
+    availableAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeWithdrawnEvent {
+  export type InputTuple = [worker: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [worker: string, amount: bigint];
+  export interface OutputObject {
+    worker: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubmissionRecordedEvent {
+  export type InputTuple = [
+    worker: AddressLike,
+    taskId: BigNumberish,
+    imageHash: string,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    worker: string,
+    taskId: bigint,
+    imageHash: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    worker: string;
+    taskId: bigint;
+    imageHash: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WorkerBlacklistedEvent {
+  export type InputTuple = [worker: AddressLike, reason: string];
+  export type OutputTuple = [worker: string, reason: string];
+  export interface OutputObject {
+    worker: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WorkerUnblacklistedEvent {
+  export type InputTuple = [worker: AddressLike];
+  export type OutputTuple = [worker: string];
+  export interface OutputObject {
+    worker: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AntiFraud extends BaseContract {
+  connect(runner?: ContractRunner | null): AntiFraud;
+  waitForDeployment(): Promise<this>;
+
+  interface: AntiFraudInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  DUPLICATE_SIMILARITY_THRESHOLD: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_SUBMISSIONS_PER_DAY: TypedContractMethod<[], [bigint], "view">;
+
+  ONE_DAY: TypedContractMethod<[], [bigint], "view">;
+
+  STAKE_WITHDRAWAL_COOLDOWN: TypedContractMethod<[], [bigint], "view">;
+
+  blacklistWorker: TypedContractMethod<
+    [worker: AddressLike, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  blacklistedWorkers: TypedContractMethod<
+    [arg0: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  bountyPoolAddress: TypedContractMethod<[], [string], "view">;
+
+  checkAndRecordSubmission: TypedContractMethod<
+    [
+      worker: AddressLike,
+      taskId: BigNumberish,
+      imageHash: string,
+      metadataHash: BytesLike
+    ],
+    [boolean],
+    "nonpayable"
+  >;
+
+  checkImageSimilarity: TypedContractMethod<
+    [imageHash: string, similarityThreshold: BigNumberish],
+    [[boolean, string] & { isSimilar: boolean; originalWorker: string }],
+    "view"
+  >;
+
+  claimStakes: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  depositStake: TypedContractMethod<[], [void], "payable">;
+
+  forfeitDestination: TypedContractMethod<[], [bigint], "view">;
+
+  forfeitStake: TypedContractMethod<
+    [worker: AddressLike, taskId: BigNumberish, reason: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  forfeitedFees: TypedContractMethod<[], [bigint], "view">;
+
+  getAvailableStake: TypedContractMethod<
+    [worker: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getImageHashWorker: TypedContractMethod<
+    [imageHash: string],
+    [string],
+    "view"
+  >;
+
+  getTodaySubmissionCount: TypedContractMethod<
+    [worker: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getWorkerStake: TypedContractMethod<[worker: AddressLike], [bigint], "view">;
+
+  getWorkerSubmissions: TypedContractMethod<
+    [worker: AddressLike],
+    [AntiFraud.SubmissionRecordStructOutput[]],
+    "view"
+  >;
+
+  imageHashToWorker: TypedContractMethod<[arg0: string], [string], "view">;
+
+  isImageHashUsed: TypedContractMethod<[imageHash: string], [boolean], "view">;
+
+  isWorkerBlacklisted: TypedContractMethod<
+    [worker: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  lockStake: TypedContractMethod<
+    [worker: AddressLike, taskId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  lockedStakes: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pendingWithdrawals: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  releaseStake: TypedContractMethod<
+    [worker: AddressLike, taskId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  requestStakeWithdrawal: TypedContractMethod<[], [void], "nonpayable">;
+
+  setBountyPool: TypedContractMethod<
+    [_bountyPool: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setForfeitDestination: TypedContractMethod<
+    [destination: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setTaskManager: TypedContractMethod<
+    [_taskManager: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setVerificationContract: TypedContractMethod<
+    [_verificationContract: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  stakeWithdrawalRequestedAt: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  sweepForfeitedFees: TypedContractMethod<[], [bigint], "nonpayable">;
+
+  taskManagerAddress: TypedContractMethod<[], [string], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unblacklistWorker: TypedContractMethod<
+    [worker: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  usedImageHashes: TypedContractMethod<[arg0: string], [boolean], "view">;
+
+  validateTimestamp: TypedContractMethod<
+    [timestamp: BigNumberish, maxAge: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  verificationContractAddress: TypedContractMethod<[], [string], "view">;
+
+  withdraw: TypedContractMethod<[], [void], "nonpayable">;
+
+  withdrawStake: TypedContractMethod<
+    [amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawable: TypedContractMethod<[account: AddressLike], [bigint], "view">;
+
+  workerDailySubmissions: TypedContractMethod<
+    [arg0: AddressLike],
+    [[bigint, bigint] & { date: bigint; count: bigint }],
+    "view"
+  >;
+
+  workerStakes: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  workerSubmissions: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [
+      [bigint, string, string] & {
+        timestamp: bigint;
+        imageHash: string;
+        metadataHash: string;
+      }
+    ],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "DUPLICATE_SIMILARITY_THRESHOLD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SUBMISSIONS_PER_DAY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ONE_DAY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "STAKE_WITHDRAWAL_COOLDOWN"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "blacklistWorker"
+  ): TypedContractMethod<
+    [worker: AddressLike, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "blacklistedWorkers"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "bountyPoolAddress"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "checkAndRecordSubmission"
+  ): TypedContractMethod<
+    [
+      worker: AddressLike,
+      taskId: BigNumberish,
+      imageHash: string,
+      metadataHash: BytesLike
+    ],
+    [boolean],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "checkImageSimilarity"
+  ): TypedContractMethod<
+    [imageHash: string, similarityThreshold: BigNumberish],
+    [[boolean, string] & { isSimilar: boolean; originalWorker: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "claimStakes"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "depositStake"
+  ): TypedContractMethod<[], [void], "payable">;
+  getFunction(
+    nameOrSignature: "forfeitDestination"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "forfeitStake"
+  ): TypedContractMethod<
+    [worker: AddressLike, taskId: BigNumberish, reason: string],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "forfeitedFees"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAvailableStake"
+  ): TypedContractMethod<[worker: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getImageHashWorker"
+  ): TypedContractMethod<[imageHash: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getTodaySubmissionCount"
+  ): TypedContractMethod<[worker: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getWorkerStake"
+  ): TypedContractMethod<[worker: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getWorkerSubmissions"
+  ): TypedContractMethod<
+    [worker: AddressLike],
+    [AntiFraud.SubmissionRecordStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "imageHashToWorker"
+  ): TypedContractMethod<[arg0: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "isImageHashUsed"
+  ): TypedContractMethod<[imageHash: string], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isWorkerBlacklisted"
+  ): TypedContractMethod<[worker: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lockStake"
+  ): TypedContractMethod<
+    [worker: AddressLike, taskId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "lockedStakes"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pendingWithdrawals"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "releaseStake"
+  ): TypedContractMethod<
+    [worker: AddressLike, taskId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestStakeWithdrawal"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setBountyPool"
+  ): TypedContractMethod<[_bountyPool: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setForfeitDestination"
+  ): TypedContractMethod<[destination: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setTaskManager"
+  ): TypedContractMethod<[_taskManager: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setVerificationContract"
+  ): TypedContractMethod<
+    [_verificationContract: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "stakeWithdrawalRequestedAt"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "sweepForfeitedFees"
+  ): TypedContractMethod<[], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "taskManagerAddress"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unblacklistWorker"
+  ): TypedContractMethod<[worker: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "usedImageHashes"
+  ): TypedContractMethod<[arg0: string], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "validateTimestamp"
+  ): TypedContractMethod<
+    [timestamp: BigNumberish, maxAge: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "verificationContractAddress"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawStake"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawable"
+  ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "workerDailySubmissions"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [[bigint, bigint] & { date: bigint; count: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "workerStakes"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "workerSubmissions"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [
+      [bigint, string, string] & {
+        timestamp: bigint;
+        imageHash: string;
+        metadataHash: string;
+      }
+    ],
+    "view"
+  >;
+
+  getEvent(
+    key: "DuplicateDetected"
+  ): TypedContractEvent<
+    DuplicateDetectedEvent.InputTuple,
+    DuplicateDetectedEvent.OutputTuple,
+    DuplicateDetectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ForfeitDestinationUpdated"
+  ): TypedContractEvent<
+    ForfeitDestinationUpdatedEvent.InputTuple,
+    ForfeitDestinationUpdatedEvent.OutputTuple,
+    ForfeitDestinationUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ForfeitWithdrawn"
+  ): TypedContractEvent<
+    ForfeitWithdrawnEvent.InputTuple,
+    ForfeitWithdrawnEvent.OutputTuple,
+    ForfeitWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "ForfeitedFeesSwept"
+  ): TypedContractEvent<
+    ForfeitedFeesSweptEvent.InputTuple,
+    ForfeitedFeesSweptEvent.OutputTuple,
+    ForfeitedFeesSweptEvent.OutputObject
+  >;
+  getEvent(
+    key: "ForfeitedStakeCredited"
+  ): TypedContractEvent<
+    ForfeitedStakeCreditedEvent.InputTuple,
+    ForfeitedStakeCreditedEvent.OutputTuple,
+    ForfeitedStakeCreditedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "RateLimitExceeded"
+  ): TypedContractEvent<
+    RateLimitExceededEvent.InputTuple,
+    RateLimitExceededEvent.OutputTuple,
+    RateLimitExceededEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeDeposited"
+  ): TypedContractEvent<
+    StakeDepositedEvent.InputTuple,
+    StakeDepositedEvent.OutputTuple,
+    StakeDepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeForfeited"
+  ): TypedContractEvent<
+    StakeForfeitedEvent.InputTuple,
+    StakeForfeitedEvent.OutputTuple,
+    StakeForfeitedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeLocked"
+  ): TypedContractEvent<
+    StakeLockedEvent.InputTuple,
+    StakeLockedEvent.OutputTuple,
+    StakeLockedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeReleased"
+  ): TypedContractEvent<
+    StakeReleasedEvent.InputTuple,
+    StakeReleasedEvent.OutputTuple,
+    StakeReleasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeWithdrawalRequested"
+  ): TypedContractEvent<
+    StakeWithdrawalRequestedEvent.InputTuple,
+    StakeWithdrawalRequestedEvent.OutputTuple,
+    StakeWithdrawalRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeWithdrawn"
+  ): TypedContractEvent<
+    StakeWithdrawnEvent.InputTuple,
+    StakeWithdrawnEvent.OutputTuple,
+    StakeWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubmissionRecorded"
+  ): TypedContractEvent<
+    SubmissionRecordedEvent.InputTuple,
+    SubmissionRecordedEvent.OutputTuple,
+    SubmissionRecordedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WorkerBlacklisted"
+  ): TypedContractEvent<
+    WorkerBlacklistedEvent.InputTuple,
+    WorkerBlacklistedEvent.OutputTuple,
+    WorkerBlacklistedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WorkerUnblacklisted"
+  ): TypedContractEvent<
+    WorkerUnblacklistedEvent.InputTuple,
+    WorkerUnblacklistedEvent.OutputTuple,
+    WorkerUnblacklistedEvent.OutputObject
+  >;
+
+  filters: {
+    "DuplicateDetected(address,string,address)": TypedContractEvent<
+      DuplicateDetectedEvent.InputTuple,
+      DuplicateDetectedEvent.OutputTuple,
+      DuplicateDetectedEvent.OutputObject
+    >;
+    DuplicateDetected: TypedContractEvent<
+      DuplicateDetectedEvent.InputTuple,
+      DuplicateDetectedEvent.OutputTuple,
+      DuplicateDetectedEvent.OutputObject
+    >;
+
+    "ForfeitDestinationUpdated(uint8)": TypedContractEvent<
+      ForfeitDestinationUpdatedEvent.InputTuple,
+      ForfeitDestinationUpdatedEvent.OutputTuple,
+      ForfeitDestinationUpdatedEvent.OutputObject
+    >;
+    ForfeitDestinationUpdated: TypedContractEvent<
+      ForfeitDestinationUpdatedEvent.InputTuple,
+      ForfeitDestinationUpdatedEvent.OutputTuple,
+      ForfeitDestinationUpdatedEvent.OutputObject
+    >;
+
+    "ForfeitWithdrawn(address,uint256)": TypedContractEvent<
+      ForfeitWithdrawnEvent.InputTuple,
+      ForfeitWithdrawnEvent.OutputTuple,
+      ForfeitWithdrawnEvent.OutputObject
+    >;
+    ForfeitWithdrawn: TypedContractEvent<
+      ForfeitWithdrawnEvent.InputTuple,
+      ForfeitWithdrawnEvent.OutputTuple,
+      ForfeitWithdrawnEvent.OutputObject
+    >;
+
+    "ForfeitedFeesSwept(address,uint256)": TypedContractEvent<
+      ForfeitedFeesSweptEvent.InputTuple,
+      ForfeitedFeesSweptEvent.OutputTuple,
+      ForfeitedFeesSweptEvent.OutputObject
+    >;
+    ForfeitedFeesSwept: TypedContractEvent<
+      ForfeitedFeesSweptEvent.InputTuple,
+      ForfeitedFeesSweptEvent.OutputTuple,
+      ForfeitedFeesSweptEvent.OutputObject
+    >;
+
+    "ForfeitedStakeCredited(address,uint256,address,uint256)": TypedContractEvent<
+      ForfeitedStakeCreditedEvent.InputTuple,
+      ForfeitedStakeCreditedEvent.OutputTuple,
+      ForfeitedStakeCreditedEvent.OutputObject
+    >;
+    ForfeitedStakeCredited: TypedContractEvent<
+      ForfeitedStakeCreditedEvent.InputTuple,
+      ForfeitedStakeCreditedEvent.OutputTuple,
+      ForfeitedStakeCreditedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "RateLimitExceeded(address,uint256,uint256)": TypedContractEvent<
+      RateLimitExceededEvent.InputTuple,
+      RateLimitExceededEvent.OutputTuple,
+      RateLimitExceededEvent.OutputObject
+    >;
+    RateLimitExceeded: TypedContractEvent<
+      RateLimitExceededEvent.InputTuple,
+      RateLimitExceededEvent.OutputTuple,
+      RateLimitExceededEvent.OutputObject
+    >;
+
+    "StakeDeposited(address,uint256,uint256)": TypedContractEvent<
+      StakeDepositedEvent.InputTuple,
+      StakeDepositedEvent.OutputTuple,
+      StakeDepositedEvent.OutputObject
+    >;
+    StakeDeposited: TypedContractEvent<
+      StakeDepositedEvent.InputTuple,
+      StakeDepositedEvent.OutputTuple,
+      StakeDepositedEvent.OutputObject
+    >;
+
+    "StakeForfeited(address,uint256,string)": TypedContractEvent<
+      StakeForfeitedEvent.InputTuple,
+      StakeForfeitedEvent.OutputTuple,
+      StakeForfeitedEvent.OutputObject
+    >;
+    StakeForfeited: TypedContractEvent<
+      StakeForfeitedEvent.InputTuple,
+      StakeForfeitedEvent.OutputTuple,
+      StakeForfeitedEvent.OutputObject
+    >;
+
+    "StakeLocked(address,uint256,uint256)": TypedContractEvent<
+      StakeLockedEvent.InputTuple,
+      StakeLockedEvent.OutputTuple,
+      StakeLockedEvent.OutputObject
+    >;
+    StakeLocked: TypedContractEvent<
+      StakeLockedEvent.InputTuple,
+      StakeLockedEvent.OutputTuple,
+      StakeLockedEvent.OutputObject
+    >;
+
+    "StakeReleased(address,uint256,uint256)": TypedContractEvent<
+      StakeReleasedEvent.InputTuple,
+      StakeReleasedEvent.OutputTuple,
+      StakeReleasedEvent.OutputObject
+    >;
+    StakeReleased: TypedContractEvent<
+      StakeReleasedEvent.InputTuple,
+      StakeReleasedEvent.OutputTuple,
+      StakeReleasedEvent.OutputObject
+    >;
+
+    "StakeWithdrawalRequested(address,uint256)": TypedContractEvent<
+      StakeWithdrawalRequestedEvent.InputTuple,
+      StakeWithdrawalRequestedEvent.OutputTuple,
+      StakeWithdrawalRequestedEvent.OutputObject
+    >;
+    StakeWithdrawalRequested: TypedContractEvent<
+      StakeWithdrawalRequestedEvent.InputTuple,
+      StakeWithdrawalRequestedEvent.OutputTuple,
+      StakeWithdrawalRequestedEvent.OutputObject
+    >;
+
+    "StakeWithdrawn(address,uint256)": TypedContractEvent<
+      StakeWithdrawnEvent.InputTuple,
+      StakeWithdrawnEvent.OutputTuple,
+      StakeWithdrawnEvent.OutputObject
+    >;
+    StakeWithdrawn: TypedContractEvent<
+      StakeWithdrawnEvent.InputTuple,
+      StakeWithdrawnEvent.OutputTuple,
+      StakeWithdrawnEvent.OutputObject
+    >;
+
+    "SubmissionRecorded(address,uint256,string,uint256)": TypedContractEvent<
+      SubmissionRecordedEvent.InputTuple,
+      SubmissionRecordedEvent.OutputTuple,
+      SubmissionRecordedEvent.OutputObject
+    >;
+    SubmissionRecorded: TypedContractEvent<
+      SubmissionRecordedEvent.InputTuple,
+      SubmissionRecordedEvent.OutputTuple,
+      SubmissionRecordedEvent.OutputObject
+    >;
+
+    "WorkerBlacklisted(address,string)": TypedContractEvent<
+      WorkerBlacklistedEvent.InputTuple,
+      WorkerBlacklistedEvent.OutputTuple,
+      WorkerBlacklistedEvent.OutputObject
+    >;
+    WorkerBlacklisted: TypedContractEvent<
+      WorkerBlacklistedEvent.InputTuple,
+      WorkerBlacklistedEvent.OutputTuple,
+      WorkerBlacklistedEvent.OutputObject
+    >;
+
+    "WorkerUnblacklisted(address)": TypedContractEvent<
+      WorkerUnblacklistedEvent.InputTuple,
+      WorkerUnblacklistedEvent.OutputTuple,
+      WorkerUnblacklistedEvent.OutputObject
+    >;
+    WorkerUnblacklisted: TypedContractEvent<
+      WorkerUnblacklistedEvent.InputTuple,
+      WorkerUnblacklistedEvent.OutputTuple,
+      WorkerUnblacklistedEvent.OutputObject
+    >;
+  };
+}
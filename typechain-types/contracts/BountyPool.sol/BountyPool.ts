@@ -0,0 +1,1736 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface BountyPoolInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "BASIS_POINTS"
+      | "EXPIRED_TASK_FEE_PERCENTAGE"
+      | "PLATFORM_FEE_PERCENTAGE"
+      | "accumulatedFees"
+      | "accumulatedTokenFees"
+      | "allocateCampaignBudget"
+      | "allowedTokens"
+      | "bonusReserves"
+      | "calculateExpiredTaskFee"
+      | "calculatePlatformFee"
+      | "campaignBudgets"
+      | "campaignRefunded"
+      | "campaignSpent"
+      | "campaignTokens"
+      | "depositBounty"
+      | "depositCampaignBudget"
+      | "depositPlatformFees"
+      | "depositTokenBounty"
+      | "depositTokenCampaignBudget"
+      | "distributeReward"
+      | "fundBonusReserve"
+      | "fundTokenBonusReserve"
+      | "getAccumulatedFees"
+      | "getBonusReserve"
+      | "getCampaignBudget"
+      | "getCampaignSpending"
+      | "getTaskBounty"
+      | "getTaskToken"
+      | "owner"
+      | "pendingWithdrawals"
+      | "refundBounty"
+      | "refundCampaignBudget"
+      | "refundCompletedBounty"
+      | "renounceOwnership"
+      | "reputationContractAddress"
+      | "setReputationContract"
+      | "setTaskManager"
+      | "setTokenAllowed"
+      | "setVerificationContract"
+      | "taskBounties"
+      | "taskCampaigns"
+      | "taskManagerAddress"
+      | "taskTokens"
+      | "transferOwnership"
+      | "verificationContractAddress"
+      | "withdraw"
+      | "withdrawBonusReserve"
+      | "withdrawPlatformFees"
+      | "withdrawToken"
+      | "withdrawTokenFees"
+      | "withdrawable"
+      | "withdrawableToken"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BonusReserveFunded"
+      | "BonusReserveWithdrawn"
+      | "BountyDeposited"
+      | "BountyRefunded"
+      | "CampaignBudgetAllocated"
+      | "CampaignBudgetDeposited"
+      | "CampaignBudgetRefunded"
+      | "EarningsCredited"
+      | "EarningsWithdrawn"
+      | "OwnershipTransferred"
+      | "PlatformFeesDeposited"
+      | "PlatformFeesWithdrawn"
+      | "PlatformTokenFeesWithdrawn"
+      | "ReputationBonusPaid"
+      | "ReputationContractUpdated"
+      | "RewardDistributed"
+      | "TaskManagerUpdated"
+      | "TokenAllowlistUpdated"
+      | "TokenBountyDeposited"
+      | "VerificationContractUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "BASIS_POINTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "EXPIRED_TASK_FEE_PERCENTAGE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PLATFORM_FEE_PERCENTAGE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "accumulatedFees",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "accumulatedTokenFees",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allocateCampaignBudget",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowedTokens",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bonusReserves",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "calculateExpiredTaskFee",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "calculatePlatformFee",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "campaignBudgets",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "campaignRefunded",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "campaignSpent",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "campaignTokens",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositBounty",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositCampaignBudget",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositPlatformFees",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositTokenBounty",
+    values: [BigNumberish, AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositTokenCampaignBudget",
+    values: [BigNumberish, AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "distributeReward",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundBonusReserve",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundTokenBonusReserve",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAccumulatedFees",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBonusReserve",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCampaignBudget",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCampaignSpending",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTaskBounty",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTaskToken",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingWithdrawals",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refundBounty",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refundCampaignBudget",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refundCompletedBounty",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reputationContractAddress",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReputationContract",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTaskManager",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTokenAllowed",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVerificationContract",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "taskBounties",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "taskCampaigns",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "taskManagerAddress",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "taskTokens",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verificationContractAddress",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "withdraw", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "withdrawBonusReserve",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawPlatformFees",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawToken",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawTokenFees",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawable",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawableToken",
+    values: [AddressLike, AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "BASIS_POINTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "EXPIRED_TASK_FEE_PERCENTAGE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PLATFORM_FEE_PERCENTAGE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "accumulatedFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "accumulatedTokenFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allocateCampaignBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowedTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "bonusReserves",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "calculateExpiredTaskFee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "calculatePlatformFee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "campaignBudgets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "campaignRefunded",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "campaignSpent",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "campaignTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositBounty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositCampaignBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositPlatformFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositTokenBounty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositTokenCampaignBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "distributeReward",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "fundBonusReserve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "fundTokenBonusReserve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAccumulatedFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBonusReserve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCampaignBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCampaignSpending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTaskBounty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTaskToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingWithdrawals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "refundBounty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "refundCampaignBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "refundCompletedBounty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reputationContractAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setReputationContract",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTaskManager",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTokenAllowed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setVerificationContract",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "taskBounties",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "taskCampaigns",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "taskManagerAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "taskTokens", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verificationContractAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawBonusReserve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawPlatformFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawTokenFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawableToken",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BonusReserveFundedEvent {
+  export type InputTuple = [
+    token: AddressLike,
+    amount: BigNumberish,
+    reserveBalance: BigNumberish
+  ];
+  export type OutputTuple = [
+    token: string,
+    amount: bigint,
+    reserveBalance: bigint
+  ];
+  export interface OutputObject {
+    token: string;
+    amount: bigint;
+    reserveBalance: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BonusReserveWithdrawnEvent {
+  export type InputTuple = [
+    token: AddressLike,
+    amount: BigNumberish,
+    reserveBalance: BigNumberish
+  ];
+  export type OutputTuple = [
+    token: string,
+    amount: bigint,
+    reserveBalance: bigint
+  ];
+  export interface OutputObject {
+    token: string;
+    amount: bigint;
+    reserveBalance: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BountyDepositedEvent {
+  export type InputTuple = [
+    taskId: BigNumberish,
+    creator: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [taskId: bigint, creator: string, amount: bigint];
+  export interface OutputObject {
+    taskId: bigint;
+    creator: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BountyRefundedEvent {
+  export type InputTuple = [
+    taskId: BigNumberish,
+    creator: AddressLike,
+    amount: BigNumberish,
+    fee: BigNumberish
+  ];
+  export type OutputTuple = [
+    taskId: bigint,
+    creator: string,
+    amount: bigint,
+    fee: bigint
+  ];
+  export interface OutputObject {
+    taskId: bigint;
+    creator: string;
+    amount: bigint;
+    fee: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignBudgetAllocatedEvent {
+  export type InputTuple = [
+    campaignId: BigNumberish,
+    taskId: BigNumberish,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    campaignId: bigint,
+    taskId: bigint,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    campaignId: bigint;
+    taskId: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignBudgetDepositedEvent {
+  export type InputTuple = [
+    campaignId: BigNumberish,
+    creator: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    campaignId: bigint,
+    creator: string,
+    token: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    campaignId: bigint;
+    creator: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignBudgetRefundedEvent {
+  export type InputTuple = [
+    campaignId: BigNumberish,
+    creator: AddressLike,
+    amount: BigNumberish,
+    fee: BigNumberish
+  ];
+  export type OutputTuple = [
+    campaignId: bigint,
+    creator: string,
+    amount: bigint,
+    fee: bigint
+  ];
+  export interface OutputObject {
+    campaignId: bigint;
+    creator: string;
+    amount: bigint;
+    fee: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EarningsCreditedEvent {
+  export type InputTuple = [
+    account: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [account: string, token: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EarningsWithdrawnEvent {
+  export type InputTuple = [
+    account: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [account: string, token: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlatformFeesDepositedEvent {
+  export type InputTuple = [from: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [from: string, amount: bigint];
+  export interface OutputObject {
+    from: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlatformFeesWithdrawnEvent {
+  export type InputTuple = [owner: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [owner: string, amount: bigint];
+  export interface OutputObject {
+    owner: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlatformTokenFeesWithdrawnEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [owner: string, token: string, amount: bigint];
+  export interface OutputObject {
+    owner: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReputationBonusPaidEvent {
+  export type InputTuple = [
+    taskId: BigNumberish,
+    worker: AddressLike,
+    token: AddressLike,
+    bonus: BigNumberish,
+    reserveBalance: BigNumberish
+  ];
+  export type OutputTuple = [
+    taskId: bigint,
+    worker: string,
+    token: string,
+    bonus: bigint,
+    reserveBalance: bigint
+  ];
+  export interface OutputObject {
+    taskId: bigint;
+    worker: string;
+    token: string;
+    bonus: bigint;
+    reserveBalance: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReputationContractUpdatedEvent {
+  export type InputTuple = [newReputationContract: AddressLike];
+  export type OutputTuple = [newReputationContract: string];
+  export interface OutputObject {
+    newReputationContract: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardDistributedEvent {
+  export type InputTuple = [
+    taskId: BigNumberish,
+    worker: AddressLike,
+    amount: BigNumberish,
+    fee: BigNumberish
+  ];
+  export type OutputTuple = [
+    taskId: bigint,
+    worker: string,
+    amount: bigint,
+    fee: bigint
+  ];
+  export interface OutputObject {
+    taskId: bigint;
+    worker: string;
+    amount: bigint;
+    fee: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TaskManagerUpdatedEvent {
+  export type InputTuple = [newTaskManager: AddressLike];
+  export type OutputTuple = [newTaskManager: string];
+  export interface OutputObject {
+    newTaskManager: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TokenAllowlistUpdatedEvent {
+  export type InputTuple = [token: AddressLike, allowed: boolean];
+  export type OutputTuple = [token: string, allowed: boolean];
+  export interface OutputObject {
+    token: string;
+    allowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TokenBountyDepositedEvent {
+  export type InputTuple = [
+    taskId: BigNumberish,
+    creator: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    taskId: bigint,
+    creator: string,
+    token: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    taskId: bigint;
+    creator: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VerificationContractUpdatedEvent {
+  export type InputTuple = [newVerificationContract: AddressLike];
+  export type OutputTuple = [newVerificationContract: string];
+  export interface OutputObject {
+    newVerificationContract: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface BountyPool extends BaseContract {
+  connect(runner?: ContractRunner | null): BountyPool;
+  waitForDeployment(): Promise<this>;
+
+  interface: BountyPoolInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  BASIS_POINTS: TypedContractMethod<[], [bigint], "view">;
+
+  EXPIRED_TASK_FEE_PERCENTAGE: TypedContractMethod<[], [bigint], "view">;
+
+  PLATFORM_FEE_PERCENTAGE: TypedContractMethod<[], [bigint], "view">;
+
+  accumulatedFees: TypedContractMethod<[], [bigint], "view">;
+
+  accumulatedTokenFees: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  allocateCampaignBudget: TypedContractMethod<
+    [campaignId: BigNumberish, taskId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  allowedTokens: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  bonusReserves: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  calculateExpiredTaskFee: TypedContractMethod<
+    [amount: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  calculatePlatformFee: TypedContractMethod<
+    [amount: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  campaignBudgets: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  campaignRefunded: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  campaignSpent: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  campaignTokens: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  depositBounty: TypedContractMethod<[taskId: BigNumberish], [void], "payable">;
+
+  depositCampaignBudget: TypedContractMethod<
+    [campaignId: BigNumberish],
+    [void],
+    "payable"
+  >;
+
+  depositPlatformFees: TypedContractMethod<[], [void], "payable">;
+
+  depositTokenBounty: TypedContractMethod<
+    [
+      taskId: BigNumberish,
+      token: AddressLike,
+      creator: AddressLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  depositTokenCampaignBudget: TypedContractMethod<
+    [
+      campaignId: BigNumberish,
+      token: AddressLike,
+      creator: AddressLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  distributeReward: TypedContractMethod<
+    [taskId: BigNumberish, worker: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  fundBonusReserve: TypedContractMethod<[], [void], "payable">;
+
+  fundTokenBonusReserve: TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getAccumulatedFees: TypedContractMethod<[], [bigint], "view">;
+
+  getBonusReserve: TypedContractMethod<[token: AddressLike], [bigint], "view">;
+
+  getCampaignBudget: TypedContractMethod<
+    [campaignId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getCampaignSpending: TypedContractMethod<
+    [campaignId: BigNumberish],
+    [[bigint, bigint] & { spent: bigint; refunded: bigint }],
+    "view"
+  >;
+
+  getTaskBounty: TypedContractMethod<[taskId: BigNumberish], [bigint], "view">;
+
+  getTaskToken: TypedContractMethod<[taskId: BigNumberish], [string], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pendingWithdrawals: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  refundBounty: TypedContractMethod<
+    [taskId: BigNumberish, creator: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  refundCampaignBudget: TypedContractMethod<
+    [campaignId: BigNumberish, creator: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  refundCompletedBounty: TypedContractMethod<
+    [taskId: BigNumberish, creator: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  reputationContractAddress: TypedContractMethod<[], [string], "view">;
+
+  setReputationContract: TypedContractMethod<
+    [_reputationContract: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setTaskManager: TypedContractMethod<
+    [_taskManager: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setTokenAllowed: TypedContractMethod<
+    [token: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setVerificationContract: TypedContractMethod<
+    [_verificationContract: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  taskBounties: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  taskCampaigns: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  taskManagerAddress: TypedContractMethod<[], [string], "view">;
+
+  taskTokens: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  verificationContractAddress: TypedContractMethod<[], [string], "view">;
+
+  withdraw: TypedContractMethod<[], [void], "nonpayable">;
+
+  withdrawBonusReserve: TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawPlatformFees: TypedContractMethod<[], [void], "nonpayable">;
+
+  withdrawToken: TypedContractMethod<
+    [token: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawTokenFees: TypedContractMethod<
+    [token: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawable: TypedContractMethod<[account: AddressLike], [bigint], "view">;
+
+  withdrawableToken: TypedContractMethod<
+    [account: AddressLike, token: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "BASIS_POINTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "EXPIRED_TASK_FEE_PERCENTAGE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PLATFORM_FEE_PERCENTAGE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "accumulatedFees"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "accumulatedTokenFees"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "allocateCampaignBudget"
+  ): TypedContractMethod<
+    [campaignId: BigNumberish, taskId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "allowedTokens"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "bonusReserves"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "calculateExpiredTaskFee"
+  ): TypedContractMethod<[amount: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "calculatePlatformFee"
+  ): TypedContractMethod<[amount: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "campaignBudgets"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "campaignRefunded"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "campaignSpent"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "campaignTokens"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "depositBounty"
+  ): TypedContractMethod<[taskId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "depositCampaignBudget"
+  ): TypedContractMethod<[campaignId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "depositPlatformFees"
+  ): TypedContractMethod<[], [void], "payable">;
+  getFunction(
+    nameOrSignature: "depositTokenBounty"
+  ): TypedContractMethod<
+    [
+      taskId: BigNumberish,
+      token: AddressLike,
+      creator: AddressLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "depositTokenCampaignBudget"
+  ): TypedContractMethod<
+    [
+      campaignId: BigNumberish,
+      token: AddressLike,
+      creator: AddressLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "distributeReward"
+  ): TypedContractMethod<
+    [taskId: BigNumberish, worker: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "fundBonusReserve"
+  ): TypedContractMethod<[], [void], "payable">;
+  getFunction(
+    nameOrSignature: "fundTokenBonusReserve"
+  ): TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getAccumulatedFees"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getBonusReserve"
+  ): TypedContractMethod<[token: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getCampaignBudget"
+  ): TypedContractMethod<[campaignId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getCampaignSpending"
+  ): TypedContractMethod<
+    [campaignId: BigNumberish],
+    [[bigint, bigint] & { spent: bigint; refunded: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTaskBounty"
+  ): TypedContractMethod<[taskId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getTaskToken"
+  ): TypedContractMethod<[taskId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pendingWithdrawals"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "refundBounty"
+  ): TypedContractMethod<
+    [taskId: BigNumberish, creator: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "refundCampaignBudget"
+  ): TypedContractMethod<
+    [campaignId: BigNumberish, creator: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "refundCompletedBounty"
+  ): TypedContractMethod<
+    [taskId: BigNumberish, creator: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reputationContractAddress"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setReputationContract"
+  ): TypedContractMethod<
+    [_reputationContract: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTaskManager"
+  ): TypedContractMethod<[_taskManager: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setTokenAllowed"
+  ): TypedContractMethod<
+    [token: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setVerificationContract"
+  ): TypedContractMethod<
+    [_verificationContract: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "taskBounties"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "taskCampaigns"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "taskManagerAddress"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "taskTokens"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "verificationContractAddress"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawBonusReserve"
+  ): TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "withdrawPlatformFees"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawToken"
+  ): TypedContractMethod<[token: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawTokenFees"
+  ): TypedContractMethod<[token: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawable"
+  ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdrawableToken"
+  ): TypedContractMethod<
+    [account: AddressLike, token: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getEvent(
+    key: "BonusReserveFunded"
+  ): TypedContractEvent<
+    BonusReserveFundedEvent.InputTuple,
+    BonusReserveFundedEvent.OutputTuple,
+    BonusReserveFundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BonusReserveWithdrawn"
+  ): TypedContractEvent<
+    BonusReserveWithdrawnEvent.InputTuple,
+    BonusReserveWithdrawnEvent.OutputTuple,
+    BonusReserveWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "BountyDeposited"
+  ): TypedContractEvent<
+    BountyDepositedEvent.InputTuple,
+    BountyDepositedEvent.OutputTuple,
+    BountyDepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BountyRefunded"
+  ): TypedContractEvent<
+    BountyRefundedEvent.InputTuple,
+    BountyRefundedEvent.OutputTuple,
+    BountyRefundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignBudgetAllocated"
+  ): TypedContractEvent<
+    CampaignBudgetAllocatedEvent.InputTuple,
+    CampaignBudgetAllocatedEvent.OutputTuple,
+    CampaignBudgetAllocatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignBudgetDeposited"
+  ): TypedContractEvent<
+    CampaignBudgetDepositedEvent.InputTuple,
+    CampaignBudgetDepositedEvent.OutputTuple,
+    CampaignBudgetDepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignBudgetRefunded"
+  ): TypedContractEvent<
+    CampaignBudgetRefundedEvent.InputTuple,
+    CampaignBudgetRefundedEvent.OutputTuple,
+    CampaignBudgetRefundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EarningsCredited"
+  ): TypedContractEvent<
+    EarningsCreditedEvent.InputTuple,
+    EarningsCreditedEvent.OutputTuple,
+    EarningsCreditedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EarningsWithdrawn"
+  ): TypedContractEvent<
+    EarningsWithdrawnEvent.InputTuple,
+    EarningsWithdrawnEvent.OutputTuple,
+    EarningsWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlatformFeesDeposited"
+  ): TypedContractEvent<
+    PlatformFeesDepositedEvent.InputTuple,
+    PlatformFeesDepositedEvent.OutputTuple,
+    PlatformFeesDepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlatformFeesWithdrawn"
+  ): TypedContractEvent<
+    PlatformFeesWithdrawnEvent.InputTuple,
+    PlatformFeesWithdrawnEvent.OutputTuple,
+    PlatformFeesWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlatformTokenFeesWithdrawn"
+  ): TypedContractEvent<
+    PlatformTokenFeesWithdrawnEvent.InputTuple,
+    PlatformTokenFeesWithdrawnEvent.OutputTuple,
+    PlatformTokenFeesWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReputationBonusPaid"
+  ): TypedContractEvent<
+    ReputationBonusPaidEvent.InputTuple,
+    ReputationBonusPaidEvent.OutputTuple,
+    ReputationBonusPaidEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReputationContractUpdated"
+  ): TypedContractEvent<
+    ReputationContractUpdatedEvent.InputTuple,
+    ReputationContractUpdatedEvent.OutputTuple,
+    ReputationContractUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardDistributed"
+  ): TypedContractEvent<
+    RewardDistributedEvent.InputTuple,
+    RewardDistributedEvent.OutputTuple,
+    RewardDistributedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TaskManagerUpdated"
+  ): TypedContractEvent<
+    TaskManagerUpdatedEvent.InputTuple,
+    TaskManagerUpdatedEvent.OutputTuple,
+    TaskManagerUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TokenAllowlistUpdated"
+  ): TypedContractEvent<
+    TokenAllowlistUpdatedEvent.InputTuple,
+    TokenAllowlistUpdatedEvent.OutputTuple,
+    TokenAllowlistUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TokenBountyDeposited"
+  ): TypedContractEvent<
+    TokenBountyDepositedEvent.InputTuple,
+    TokenBountyDepositedEvent.OutputTuple,
+    TokenBountyDepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VerificationContractUpdated"
+  ): TypedContractEvent<
+    VerificationContractUpdatedEvent.InputTuple,
+    VerificationContractUpdatedEvent.OutputTuple,
+    VerificationContractUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "BonusReserveFunded(address,uint256,uint256)": TypedContractEvent<
+      BonusReserveFundedEvent.InputTuple,
+      BonusReserveFundedEvent.OutputTuple,
+      BonusReserveFundedEvent.OutputObject
+    >;
+    BonusReserveFunded: TypedContractEvent<
+      BonusReserveFundedEvent.InputTuple,
+      BonusReserveFundedEvent.OutputTuple,
+      BonusReserveFundedEvent.OutputObject
+    >;
+
+    "BonusReserveWithdrawn(address,uint256,uint256)": TypedContractEvent<
+      BonusReserveWithdrawnEvent.InputTuple,
+      BonusReserveWithdrawnEvent.OutputTuple,
+      BonusReserveWithdrawnEvent.OutputObject
+    >;
+    BonusReserveWithdrawn: TypedContractEvent<
+      BonusReserveWithdrawnEvent.InputTuple,
+      BonusReserveWithdrawnEvent.OutputTuple,
+      BonusReserveWithdrawnEvent.OutputObject
+    >;
+
+    "BountyDeposited(uint256,address,uint256)": TypedContractEvent<
+      BountyDepositedEvent.InputTuple,
+      BountyDepositedEvent.OutputTuple,
+      BountyDepositedEvent.OutputObject
+    >;
+    BountyDeposited: TypedContractEvent<
+      BountyDepositedEvent.InputTuple,
+      BountyDepositedEvent.OutputTuple,
+      BountyDepositedEvent.OutputObject
+    >;
+
+    "BountyRefunded(uint256,address,uint256,uint256)": TypedContractEvent<
+      BountyRefundedEvent.InputTuple,
+      BountyRefundedEvent.OutputTuple,
+      BountyRefundedEvent.OutputObject
+    >;
+    BountyRefunded: TypedContractEvent<
+      BountyRefundedEvent.InputTuple,
+      BountyRefundedEvent.OutputTuple,
+      BountyRefundedEvent.OutputObject
+    >;
+
+    "CampaignBudgetAllocated(uint256,uint256,uint256)": TypedContractEvent<
+      CampaignBudgetAllocatedEvent.InputTuple,
+      CampaignBudgetAllocatedEvent.OutputTuple,
+      CampaignBudgetAllocatedEvent.OutputObject
+    >;
+    CampaignBudgetAllocated: TypedContractEvent<
+      CampaignBudgetAllocatedEvent.InputTuple,
+      CampaignBudgetAllocatedEvent.OutputTuple,
+      CampaignBudgetAllocatedEvent.OutputObject
+    >;
+
+    "CampaignBudgetDeposited(uint256,address,address,uint256)": TypedContractEvent<
+      CampaignBudgetDepositedEvent.InputTuple,
+      CampaignBudgetDepositedEvent.OutputTuple,
+      CampaignBudgetDepositedEvent.OutputObject
+    >;
+    CampaignBudgetDeposited: TypedContractEvent<
+      CampaignBudgetDepositedEvent.InputTuple,
+      CampaignBudgetDepositedEvent.OutputTuple,
+      CampaignBudgetDepositedEvent.OutputObject
+    >;
+
+    "CampaignBudgetRefunded(uint256,address,uint256,uint256)": TypedContractEvent<
+      CampaignBudgetRefundedEvent.InputTuple,
+      CampaignBudgetRefundedEvent.OutputTuple,
+      CampaignBudgetRefundedEvent.OutputObject
+    >;
+    CampaignBudgetRefunded: TypedContractEvent<
+      CampaignBudgetRefundedEvent.InputTuple,
+      CampaignBudgetRefundedEvent.OutputTuple,
+      CampaignBudgetRefundedEvent.OutputObject
+    >;
+
+    "EarningsCredited(address,address,uint256)": TypedContractEvent<
+      EarningsCreditedEvent.InputTuple,
+      EarningsCreditedEvent.OutputTuple,
+      EarningsCreditedEvent.OutputObject
+    >;
+    EarningsCredited: TypedContractEvent<
+      EarningsCreditedEvent.InputTuple,
+      EarningsCreditedEvent.OutputTuple,
+      EarningsCreditedEvent.OutputObject
+    >;
+
+    "EarningsWithdrawn(address,address,uint256)": TypedContractEvent<
+      EarningsWithdrawnEvent.InputTuple,
+      EarningsWithdrawnEvent.OutputTuple,
+      EarningsWithdrawnEvent.OutputObject
+    >;
+    EarningsWithdrawn: TypedContractEvent<
+      EarningsWithdrawnEvent.InputTuple,
+      EarningsWithdrawnEvent.OutputTuple,
+      EarningsWithdrawnEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PlatformFeesDeposited(address,uint256)": TypedContractEvent<
+      PlatformFeesDepositedEvent.InputTuple,
+      PlatformFeesDepositedEvent.OutputTuple,
+      PlatformFeesDepositedEvent.OutputObject
+    >;
+    PlatformFeesDeposited: TypedContractEvent<
+      PlatformFeesDepositedEvent.InputTuple,
+      PlatformFeesDepositedEvent.OutputTuple,
+      PlatformFeesDepositedEvent.OutputObject
+    >;
+
+    "PlatformFeesWithdrawn(address,uint256)": TypedContractEvent<
+      PlatformFeesWithdrawnEvent.InputTuple,
+      PlatformFeesWithdrawnEvent.OutputTuple,
+      PlatformFeesWithdrawnEvent.OutputObject
+    >;
+    PlatformFeesWithdrawn: TypedContractEvent<
+      PlatformFeesWithdrawnEvent.InputTuple,
+      PlatformFeesWithdrawnEvent.OutputTuple,
+      PlatformFeesWithdrawnEvent.OutputObject
+    >;
+
+    "PlatformTokenFeesWithdrawn(address,address,uint256)": TypedContractEvent<
+      PlatformTokenFeesWithdrawnEvent.InputTuple,
+      PlatformTokenFeesWithdrawnEvent.OutputTuple,
+      PlatformTokenFeesWithdrawnEvent.OutputObject
+    >;
+    PlatformTokenFeesWithdrawn: TypedContractEvent<
+      PlatformTokenFeesWithdrawnEvent.InputTuple,
+      PlatformTokenFeesWithdrawnEvent.OutputTuple,
+      PlatformTokenFeesWithdrawnEvent.OutputObject
+    >;
+
+    "ReputationBonusPaid(uint256,address,address,uint256,uint256)": TypedContractEvent<
+      ReputationBonusPaidEvent.InputTuple,
+      ReputationBonusPaidEvent.OutputTuple,
+      ReputationBonusPaidEvent.OutputObject
+    >;
+    ReputationBonusPaid: TypedContractEvent<
+      ReputationBonusPaidEvent.InputTuple,
+      ReputationBonusPaidEvent.OutputTuple,
+      ReputationBonusPaidEvent.OutputObject
+    >;
+
+    "ReputationContractUpdated(address)": TypedContractEvent<
+      ReputationContractUpdatedEvent.InputTuple,
+      ReputationContractUpdatedEvent.OutputTuple,
+      ReputationContractUpdatedEvent.OutputObject
+    >;
+    ReputationContractUpdated: TypedContractEvent<
+      ReputationContractUpdatedEvent.InputTuple,
+      ReputationContractUpdatedEvent.OutputTuple,
+      ReputationContractUpdatedEvent.OutputObject
+    >;
+
+    "RewardDistributed(uint256,address,uint256,uint256)": TypedContractEvent<
+      RewardDistributedEvent.InputTuple,
+      RewardDistributedEvent.OutputTuple,
+      RewardDistributedEvent.OutputObject
+    >;
+    RewardDistributed: TypedContractEvent<
+      RewardDistributedEvent.InputTuple,
+      RewardDistributedEvent.OutputTuple,
+      RewardDistributedEvent.OutputObject
+    >;
+
+    "TaskManagerUpdated(address)": TypedContractEvent<
+      TaskManagerUpdatedEvent.InputTuple,
+      TaskManagerUpdatedEvent.OutputTuple,
+      TaskManagerUpdatedEvent.OutputObject
+    >;
+    TaskManagerUpdated: TypedContractEvent<
+      TaskManagerUpdatedEvent.InputTuple,
+      TaskManagerUpdatedEvent.OutputTuple,
+      TaskManagerUpdatedEvent.OutputObject
+    >;
+
+    "TokenAllowlistUpdated(address,bool)": TypedContractEvent<
+      TokenAllowlistUpdatedEvent.InputTuple,
+      TokenAllowlistUpdatedEvent.OutputTuple,
+      TokenAllowlistUpdatedEvent.OutputObject
+    >;
+    TokenAllowlistUpdated: TypedContractEvent<
+      TokenAllowlistUpdatedEvent.InputTuple,
+      TokenAllowlistUpdatedEvent.OutputTuple,
+      TokenAllowlistUpdatedEvent.OutputObject
+    >;
+
+    "TokenBountyDeposited(uint256,address,address,uint256)": TypedContractEvent<
+      TokenBountyDepositedEvent.InputTuple,
+      TokenBountyDepositedEvent.OutputTuple,
+      TokenBountyDepositedEvent.OutputObject
+    >;
+    TokenBountyDeposited: TypedContractEvent<
+      TokenBountyDepositedEvent.InputTuple,
+      TokenBountyDepositedEvent.OutputTuple,
+      TokenBountyDepositedEvent.OutputObject
+    >;
+
+    "VerificationContractUpdated(address)": TypedContractEvent<
+      VerificationContractUpdatedEvent.InputTuple,
+      VerificationContractUpdatedEvent.OutputTuple,
+      VerificationContractUpdatedEvent.OutputObject
+    >;
+    VerificationContractUpdated: TypedContractEvent<
+      VerificationContractUpdatedEvent.InputTuple,
+      VerificationContractUpdatedEvent.OutputTuple,
+      VerificationContractUpdatedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { BountyPool } from "./BountyPool";
+export type { IReputationContract } from "./IReputationContract";
+export type { ITaskManager } from "./ITaskManager";
@@ -30,22 +30,29 @@ export interface BountyPoolInterface extends Interface {
       | "EXPIRED_TASK_FEE_PERCENTAGE"
       | "PLATFORM_FEE_PERCENTAGE"
       | "accumulatedFees"
+      | "accumulatedTokenFees"
+      | "allowedTokens"
       | "calculateExpiredTaskFee"
       | "calculatePlatformFee"
       | "depositBounty"
+      | "depositTokenBounty"
       | "distributeReward"
       | "getAccumulatedFees"
       | "getTaskBounty"
+      | "getTaskToken"
       | "owner"
       | "refundBounty"
       | "renounceOwnership"
       | "setTaskManager"
+      | "setTokenAllowed"
       | "setVerificationContract"
       | "taskBounties"
       | "taskManagerAddress"
+      | "taskTokens"
       | "transferOwnership"
       | "verificationContractAddress"
       | "withdrawPlatformFees"
+      | "withdrawTokenFees"
   ): FunctionFragment;
 
   getEvent(
@@ -54,8 +61,11 @@ export interface BountyPoolInterface extends Interface {
       | "BountyRefunded"
       | "OwnershipTransferred"
       | "PlatformFeesWithdrawn"
+      | "PlatformTokenFeesWithdrawn"
       | "RewardDistributed"
       | "TaskManagerUpdated"
+      | "TokenAllowlistUpdated"
+      | "TokenBountyDeposited"
       | "VerificationContractUpdated"
   ): EventFragment;
 
@@ -75,6 +85,14 @@ export interface BountyPoolInterface extends Interface {
     functionFragment: "accumulatedFees",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "accumulatedTokenFees",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowedTokens",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "calculateExpiredTaskFee",
     values: [BigNumberish]
@@ -87,6 +105,10 @@ export interface BountyPoolInterface extends Interface {
     functionFragment: "depositBounty",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "depositTokenBounty",
+    values: [BigNumberish, AddressLike, AddressLike, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "distributeReward",
     values: [BigNumberish, AddressLike, BigNumberish]
@@ -99,6 +121,10 @@ export interface BountyPoolInterface extends Interface {
     functionFragment: "getTaskBounty",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getTaskToken",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(functionFragment: "owner", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "refundBounty",
@@ -112,6 +138,10 @@ export interface BountyPoolInterface extends Interface {
     functionFragment: "setTaskManager",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setTokenAllowed",
+    values: [AddressLike, boolean]
+  ): string;
   encodeFunctionData(
     functionFragment: "setVerificationContract",
     values: [AddressLike]
@@ -124,6 +154,10 @@ export interface BountyPoolInterface extends Interface {
     functionFragment: "taskManagerAddress",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "taskTokens",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "transferOwnership",
     values: [AddressLike]
@@ -136,6 +170,10 @@ export interface BountyPoolInterface extends Interface {
     functionFragment: "withdrawPlatformFees",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawTokenFees",
+    values: [AddressLike]
+  ): string;
 
   decodeFunctionResult(
     functionFragment: "BASIS_POINTS",
@@ -153,6 +191,14 @@ export interface BountyPoolInterface extends Interface {
     functionFragment: "accumulatedFees",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "accumulatedTokenFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowedTokens",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "calculateExpiredTaskFee",
     data: BytesLike
@@ -165,6 +211,10 @@ export interface BountyPoolInterface extends Interface {
     functionFragment: "depositBounty",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositTokenBounty",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "distributeReward",
     data: BytesLike
@@ -177,6 +227,10 @@ export interface BountyPoolInterface extends Interface {
     functionFragment: "getTaskBounty",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTaskToken",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "refundBounty",
@@ -190,6 +244,10 @@ export interface BountyPoolInterface extends Interface {
     functionFragment: "setTaskManager",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTokenAllowed",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "setVerificationContract",
     data: BytesLike
@@ -202,6 +260,7 @@ export interface BountyPoolInterface extends Interface {
     functionFragment: "taskManagerAddress",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "taskTokens", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "transferOwnership",
     data: BytesLike
@@ -214,6 +273,10 @@ export interface BountyPoolInterface extends Interface {
     functionFragment: "withdrawPlatformFees",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawTokenFees",
+    data: BytesLike
+  ): Result;
 }
 
 export namespace BountyDepositedEvent {
@@ -285,6 +348,24 @@ export namespace PlatformFeesWithdrawnEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace PlatformTokenFeesWithdrawnEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [owner: string, token: string, amount: bigint];
+  export interface OutputObject {
+    owner: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace RewardDistributedEvent {
   export type InputTuple = [
     taskId: BigNumberish,
@@ -322,6 +403,44 @@ export namespace TaskManagerUpdatedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace TokenAllowlistUpdatedEvent {
+  export type InputTuple = [token: AddressLike, allowed: boolean];
+  export type OutputTuple = [token: string, allowed: boolean];
+  export interface OutputObject {
+    token: string;
+    allowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TokenBountyDepositedEvent {
+  export type InputTuple = [
+    taskId: BigNumberish,
+    creator: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    taskId: bigint,
+    creator: string,
+    token: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    taskId: bigint;
+    creator: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace VerificationContractUpdatedEvent {
   export type InputTuple = [newVerificationContract: AddressLike];
   export type OutputTuple = [newVerificationContract: string];
@@ -385,6 +504,14 @@ export interface BountyPool extends BaseContract {
 
   accumulatedFees: TypedContractMethod<[], [bigint], "view">;
 
+  accumulatedTokenFees: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  allowedTokens: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
   calculateExpiredTaskFee: TypedContractMethod<
     [amount: BigNumberish],
     [bigint],
@@ -399,6 +526,17 @@ export interface BountyPool extends BaseContract {
 
   depositBounty: TypedContractMethod<[taskId: BigNumberish], [void], "payable">;
 
+  depositTokenBounty: TypedContractMethod<
+    [
+      taskId: BigNumberish,
+      token: AddressLike,
+      creator: AddressLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
   distributeReward: TypedContractMethod<
     [taskId: BigNumberish, worker: AddressLike, amount: BigNumberish],
     [void],
@@ -409,6 +547,8 @@ export interface BountyPool extends BaseContract {
 
   getTaskBounty: TypedContractMethod<[taskId: BigNumberish], [bigint], "view">;
 
+  getTaskToken: TypedContractMethod<[taskId: BigNumberish], [string], "view">;
+
   owner: TypedContractMethod<[], [string], "view">;
 
   refundBounty: TypedContractMethod<
@@ -425,6 +565,12 @@ export interface BountyPool extends BaseContract {
     "nonpayable"
   >;
 
+  setTokenAllowed: TypedContractMethod<
+    [token: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
   setVerificationContract: TypedContractMethod<
     [_verificationContract: AddressLike],
     [void],
@@ -435,6 +581,8 @@ export interface BountyPool extends BaseContract {
 
   taskManagerAddress: TypedContractMethod<[], [string], "view">;
 
+  taskTokens: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
   transferOwnership: TypedContractMethod<
     [newOwner: AddressLike],
     [void],
@@ -445,6 +593,12 @@ export interface BountyPool extends BaseContract {
 
   withdrawPlatformFees: TypedContractMethod<[], [void], "nonpayable">;
 
+  withdrawTokenFees: TypedContractMethod<
+    [token: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
@@ -461,6 +615,12 @@ export interface BountyPool extends BaseContract {
   getFunction(
     nameOrSignature: "accumulatedFees"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "accumulatedTokenFees"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "allowedTokens"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
   getFunction(
     nameOrSignature: "calculateExpiredTaskFee"
   ): TypedContractMethod<[amount: BigNumberish], [bigint], "view">;
@@ -470,6 +630,18 @@ export interface BountyPool extends BaseContract {
   getFunction(
     nameOrSignature: "depositBounty"
   ): TypedContractMethod<[taskId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "depositTokenBounty"
+  ): TypedContractMethod<
+    [
+      taskId: BigNumberish,
+      token: AddressLike,
+      creator: AddressLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "distributeReward"
   ): TypedContractMethod<
@@ -483,6 +655,9 @@ export interface BountyPool extends BaseContract {
   getFunction(
     nameOrSignature: "getTaskBounty"
   ): TypedContractMethod<[taskId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getTaskToken"
+  ): TypedContractMethod<[taskId: BigNumberish], [string], "view">;
   getFunction(
     nameOrSignature: "owner"
   ): TypedContractMethod<[], [string], "view">;
@@ -499,6 +674,13 @@ export interface BountyPool extends BaseContract {
   getFunction(
     nameOrSignature: "setTaskManager"
   ): TypedContractMethod<[_taskManager: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setTokenAllowed"
+  ): TypedContractMethod<
+    [token: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "setVerificationContract"
   ): TypedContractMethod<
@@ -512,6 +694,9 @@ export interface BountyPool extends BaseContract {
   getFunction(
     nameOrSignature: "taskManagerAddress"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "taskTokens"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
   getFunction(
     nameOrSignature: "transferOwnership"
   ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
@@ -521,6 +706,9 @@ export interface BountyPool extends BaseContract {
   getFunction(
     nameOrSignature: "withdrawPlatformFees"
   ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawTokenFees"
+  ): TypedContractMethod<[token: AddressLike], [void], "nonpayable">;
 
   getEvent(
     key: "BountyDeposited"
@@ -550,6 +738,13 @@ export interface BountyPool extends BaseContract {
     PlatformFeesWithdrawnEvent.OutputTuple,
     PlatformFeesWithdrawnEvent.OutputObject
   >;
+  getEvent(
+    key: "PlatformTokenFeesWithdrawn"
+  ): TypedContractEvent<
+    PlatformTokenFeesWithdrawnEvent.InputTuple,
+    PlatformTokenFeesWithdrawnEvent.OutputTuple,
+    PlatformTokenFeesWithdrawnEvent.OutputObject
+  >;
   getEvent(
     key: "RewardDistributed"
   ): TypedContractEvent<
@@ -564,6 +759,20 @@ export interface BountyPool extends BaseContract {
     TaskManagerUpdatedEvent.OutputTuple,
     TaskManagerUpdatedEvent.OutputObject
   >;
+  getEvent(
+    key: "TokenAllowlistUpdated"
+  ): TypedContractEvent<
+    TokenAllowlistUpdatedEvent.InputTuple,
+    TokenAllowlistUpdatedEvent.OutputTuple,
+    TokenAllowlistUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TokenBountyDeposited"
+  ): TypedContractEvent<
+    TokenBountyDepositedEvent.InputTuple,
+    TokenBountyDepositedEvent.OutputTuple,
+    TokenBountyDepositedEvent.OutputObject
+  >;
   getEvent(
     key: "VerificationContractUpdated"
   ): TypedContractEvent<
@@ -617,6 +826,17 @@ export interface BountyPool extends BaseContract {
       PlatformFeesWithdrawnEvent.OutputObject
     >;
 
+    "PlatformTokenFeesWithdrawn(address,address,uint256)": TypedContractEvent<
+      PlatformTokenFeesWithdrawnEvent.InputTuple,
+      PlatformTokenFeesWithdrawnEvent.OutputTuple,
+      PlatformTokenFeesWithdrawnEvent.OutputObject
+    >;
+    PlatformTokenFeesWithdrawn: TypedContractEvent<
+      PlatformTokenFeesWithdrawnEvent.InputTuple,
+      PlatformTokenFeesWithdrawnEvent.OutputTuple,
+      PlatformTokenFeesWithdrawnEvent.OutputObject
+    >;
+
     "RewardDistributed(uint256,address,uint256,uint256)": TypedContractEvent<
       RewardDistributedEvent.InputTuple,
       RewardDistributedEvent.OutputTuple,
@@ -639,6 +859,28 @@ export interface BountyPool extends BaseContract {
       TaskManagerUpdatedEvent.OutputObject
     >;
 
+    "TokenAllowlistUpdated(address,bool)": TypedContractEvent<
+      TokenAllowlistUpdatedEvent.InputTuple,
+      TokenAllowlistUpdatedEvent.OutputTuple,
+      TokenAllowlistUpdatedEvent.OutputObject
+    >;
+    TokenAllowlistUpdated: TypedContractEvent<
+      TokenAllowlistUpdatedEvent.InputTuple,
+      TokenAllowlistUpdatedEvent.OutputTuple,
+      TokenAllowlistUpdatedEvent.OutputObject
+    >;
+
+    "TokenBountyDeposited(uint256,address,address,uint256)": TypedContractEvent<
+      TokenBountyDepositedEvent.InputTuple,
+      TokenBountyDepositedEvent.OutputTuple,
+      TokenBountyDepositedEvent.OutputObject
+    >;
+    TokenBountyDeposited: TypedContractEvent<
+      TokenBountyDepositedEvent.InputTuple,
+      TokenBountyDepositedEvent.OutputTuple,
+      TokenBountyDepositedEvent.OutputObject
+    >;
+
     "VerificationContractUpdated(address)": TypedContractEvent<
       VerificationContractUpdatedEvent.InputTuple,
       VerificationContractUpdatedEvent.OutputTuple,
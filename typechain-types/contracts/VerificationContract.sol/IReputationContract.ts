@@ -3,6 +3,7 @@
 /* eslint-disable */
 import type {
   BaseContract,
+  BigNumberish,
   BytesLike,
   FunctionFragment,
   Result,
@@ -22,7 +23,9 @@ import type {
 
 export interface IReputationContractInterface extends Interface {
   getFunction(
-    nameOrSignature: "updateVerifierReputation" | "updateWorkerReputation"
+    nameOrSignature:
+      | "updateVerifierReputation"
+      | "updateWorkerReputationWithCategory"
   ): FunctionFragment;
 
   encodeFunctionData(
@@ -30,8 +33,8 @@ export interface IReputationContractInterface extends Interface {
     values: [AddressLike, boolean]
   ): string;
   encodeFunctionData(
-    functionFragment: "updateWorkerReputation",
-    values: [AddressLike, boolean]
+    functionFragment: "updateWorkerReputationWithCategory",
+    values: [AddressLike, BigNumberish, boolean]
   ): string;
 
   decodeFunctionResult(
@@ -39,7 +42,7 @@ export interface IReputationContractInterface extends Interface {
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "updateWorkerReputation",
+    functionFragment: "updateWorkerReputationWithCategory",
     data: BytesLike
   ): Result;
 }
@@ -93,8 +96,8 @@ export interface IReputationContract extends BaseContract {
     "nonpayable"
   >;
 
-  updateWorkerReputation: TypedContractMethod<
-    [worker: AddressLike, successful: boolean],
+  updateWorkerReputationWithCategory: TypedContractMethod<
+    [worker: AddressLike, category: BigNumberish, successful: boolean],
     [void],
     "nonpayable"
   >;
@@ -111,9 +114,9 @@ export interface IReputationContract extends BaseContract {
     "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "updateWorkerReputation"
+    nameOrSignature: "updateWorkerReputationWithCategory"
   ): TypedContractMethod<
-    [worker: AddressLike, successful: boolean],
+    [worker: AddressLike, category: BigNumberish, successful: boolean],
     [void],
     "nonpayable"
   >;
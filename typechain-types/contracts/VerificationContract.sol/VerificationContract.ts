@@ -49,6 +49,7 @@ export declare namespace VerificationContract {
     totalVotes: BigNumberish;
     bountyAmount: BigNumberish;
     rewardDistributed: boolean;
+    category: BigNumberish;
   };
 
   export type SubmissionStructOutput = [
@@ -63,7 +64,8 @@ export declare namespace VerificationContract {
     rejectionCount: bigint,
     totalVotes: bigint,
     bountyAmount: bigint,
-    rewardDistributed: boolean
+    rewardDistributed: boolean,
+    category: bigint
   ] & {
     id: bigint;
     taskId: bigint;
@@ -77,6 +79,7 @@ export declare namespace VerificationContract {
     totalVotes: bigint;
     bountyAmount: bigint;
     rewardDistributed: boolean;
+    category: bigint;
   };
 
   export type VoteStruct = {
@@ -104,26 +107,40 @@ export interface VerificationContractInterface extends Interface {
     nameOrSignature:
       | "BASIS_POINTS"
       | "CONSENSUS_THRESHOLD"
+      | "DISPUTE_RESOLUTION_TIMEOUT"
       | "MAX_VERIFIERS"
       | "REWARD_DISTRIBUTION_DELAY"
       | "VERIFICATION_REWARD_PERCENTAGE"
       | "VERIFICATION_STAKE"
       | "antiFraudAddress"
+      | "arbiters"
       | "bountyPoolAddress"
       | "consensusReachedAt"
+      | "contestedMargin"
       | "createSubmission"
+      | "disputedAt"
       | "distributeVerificationRewards"
+      | "fundVerifierRewardPool"
+      | "getReservedBounty"
       | "getSubmission"
       | "getSubmissionVerifiers"
       | "getVote"
       | "hasConsensus"
+      | "hasSubmitted"
       | "owner"
+      | "pendingWithdrawals"
       | "renounceOwnership"
       | "reputationContractAddress"
+      | "reservedBounty"
+      | "resolveDispute"
+      | "resolveExpiredDispute"
       | "setAntiFraud"
+      | "setArbiter"
       | "setBountyPool"
+      | "setContestedMargin"
       | "setReputationContract"
       | "setTaskManager"
+      | "slashedStakeSurplus"
       | "stakeForVerification"
       | "submissionVerifiers"
       | "submissions"
@@ -131,17 +148,31 @@ export interface VerificationContractInterface extends Interface {
       | "taskManagerAddress"
       | "transferOwnership"
       | "verificationVotes"
+      | "verifierRewardPool"
+      | "withdraw"
+      | "withdrawSlashedStakeSurplus"
+      | "withdrawVerifierRewardPool"
+      | "withdrawable"
   ): FunctionFragment;
 
   getEvent(
     nameOrSignatureOrTopic:
+      | "ArbiterUpdated"
       | "ConsensusReached"
+      | "ContestedMarginUpdated"
       | "DisputeEscalated"
+      | "DisputeResolved"
+      | "EarningsCredited"
+      | "EarningsWithdrawn"
       | "OwnershipTransferred"
       | "RewardDistributed"
+      | "SlashedStakeSurplusWithdrawn"
+      | "SlashedStakesAllocated"
       | "SubmissionCreated"
       | "VerificationRewardsDistributed"
       | "VerificationStaked"
+      | "VerifierRewardPoolFunded"
+      | "VerifierRewardPoolWithdrawn"
       | "VoteSubmitted"
   ): EventFragment;
 
@@ -153,6 +184,10 @@ export interface VerificationContractInterface extends Interface {
     functionFragment: "CONSENSUS_THRESHOLD",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "DISPUTE_RESOLUTION_TIMEOUT",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "MAX_VERIFIERS",
     values?: undefined
@@ -173,6 +208,10 @@ export interface VerificationContractInterface extends Interface {
     functionFragment: "antiFraudAddress",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "arbiters",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "bountyPoolAddress",
     values?: undefined
@@ -181,6 +220,10 @@ export interface VerificationContractInterface extends Interface {
     functionFragment: "consensusReachedAt",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "contestedMargin",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "createSubmission",
     values: [
@@ -188,13 +231,26 @@ export interface VerificationContractInterface extends Interface {
       AddressLike,
       string,
       VerificationContract.LocationStruct,
+      BigNumberish,
       BigNumberish
     ]
   ): string;
+  encodeFunctionData(
+    functionFragment: "disputedAt",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "distributeVerificationRewards",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "fundVerifierRewardPool",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getReservedBounty",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getSubmission",
     values: [BigNumberish]
@@ -211,7 +267,15 @@ export interface VerificationContractInterface extends Interface {
     functionFragment: "hasConsensus",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "hasSubmitted",
+    values: [BigNumberish, AddressLike]
+  ): string;
   encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingWithdrawals",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "renounceOwnership",
     values?: undefined
@@ -220,14 +284,34 @@ export interface VerificationContractInterface extends Interface {
     functionFragment: "reputationContractAddress",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "reservedBounty",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resolveDispute",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resolveExpiredDispute",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "setAntiFraud",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setArbiter",
+    values: [AddressLike, boolean]
+  ): string;
   encodeFunctionData(
     functionFragment: "setBountyPool",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setContestedMargin",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "setReputationContract",
     values: [AddressLike]
@@ -236,6 +320,10 @@ export interface VerificationContractInterface extends Interface {
     functionFragment: "setTaskManager",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "slashedStakeSurplus",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "stakeForVerification",
     values: [BigNumberish]
@@ -264,6 +352,23 @@ export interface VerificationContractInterface extends Interface {
     functionFragment: "verificationVotes",
     values: [BigNumberish, AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "verifierRewardPool",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "withdraw", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "withdrawSlashedStakeSurplus",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawVerifierRewardPool",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawable",
+    values: [AddressLike]
+  ): string;
 
   decodeFunctionResult(
     functionFragment: "BASIS_POINTS",
@@ -273,6 +378,10 @@ export interface VerificationContractInterface extends Interface {
     functionFragment: "CONSENSUS_THRESHOLD",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "DISPUTE_RESOLUTION_TIMEOUT",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "MAX_VERIFIERS",
     data: BytesLike
@@ -293,6 +402,7 @@ export interface VerificationContractInterface extends Interface {
     functionFragment: "antiFraudAddress",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "arbiters", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "bountyPoolAddress",
     data: BytesLike
@@ -301,14 +411,27 @@ export interface VerificationContractInterface extends Interface {
     functionFragment: "consensusReachedAt",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "contestedMargin",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "createSubmission",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "disputedAt", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "distributeVerificationRewards",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "fundVerifierRewardPool",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getReservedBounty",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getSubmission",
     data: BytesLike
@@ -322,7 +445,15 @@ export interface VerificationContractInterface extends Interface {
     functionFragment: "hasConsensus",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasSubmitted",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingWithdrawals",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "renounceOwnership",
     data: BytesLike
@@ -331,14 +462,31 @@ export interface VerificationContractInterface extends Interface {
     functionFragment: "reputationContractAddress",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "reservedBounty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resolveDispute",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resolveExpiredDispute",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "setAntiFraud",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "setArbiter", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "setBountyPool",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "setContestedMargin",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "setReputationContract",
     data: BytesLike
@@ -347,6 +495,10 @@ export interface VerificationContractInterface extends Interface {
     functionFragment: "setTaskManager",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "slashedStakeSurplus",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "stakeForVerification",
     data: BytesLike
@@ -375,6 +527,36 @@ export interface VerificationContractInterface extends Interface {
     functionFragment: "verificationVotes",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "verifierRewardPool",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawSlashedStakeSurplus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawVerifierRewardPool",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawable",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ArbiterUpdatedEvent {
+  export type InputTuple = [arbiter: AddressLike, enabled: boolean];
+  export type OutputTuple = [arbiter: string, enabled: boolean];
+  export interface OutputObject {
+    arbiter: string;
+    enabled: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
 }
 
 export namespace ConsensusReachedEvent {
@@ -399,6 +581,18 @@ export namespace ConsensusReachedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace ContestedMarginUpdatedEvent {
+  export type InputTuple = [margin: BigNumberish];
+  export type OutputTuple = [margin: bigint];
+  export interface OutputObject {
+    margin: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace DisputeEscalatedEvent {
   export type InputTuple = [
     submissionId: BigNumberish,
@@ -415,6 +609,54 @@ export namespace DisputeEscalatedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace DisputeResolvedEvent {
+  export type InputTuple = [
+    submissionId: BigNumberish,
+    arbiter: AddressLike,
+    approved: boolean
+  ];
+  export type OutputTuple = [
+    submissionId: bigint,
+    arbiter: string,
+    approved: boolean
+  ];
+  export interface OutputObject {
+    submissionId: bigint;
+    arbiter: string;
+    approved: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EarningsCreditedEvent {
+  export type InputTuple = [account: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [account: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EarningsWithdrawnEvent {
+  export type InputTuple = [account: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [account: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace OwnershipTransferredEvent {
   export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
   export type OutputTuple = [previousOwner: string, newOwner: string];
@@ -450,6 +692,53 @@ export namespace RewardDistributedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace SlashedStakeSurplusWithdrawnEvent {
+  export type InputTuple = [
+    to: AddressLike,
+    amount: BigNumberish,
+    remainingSurplus: BigNumberish
+  ];
+  export type OutputTuple = [
+    to: string,
+    amount: bigint,
+    remainingSurplus: bigint
+  ];
+  export interface OutputObject {
+    to: string;
+    amount: bigint;
+    remainingSurplus: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SlashedStakesAllocatedEvent {
+  export type InputTuple = [
+    submissionId: BigNumberish,
+    slashedAmount: BigNumberish,
+    rewardPoolUsed: BigNumberish,
+    surplus: BigNumberish
+  ];
+  export type OutputTuple = [
+    submissionId: bigint,
+    slashedAmount: bigint,
+    rewardPoolUsed: bigint,
+    surplus: bigint
+  ];
+  export interface OutputObject {
+    submissionId: bigint;
+    slashedAmount: bigint;
+    rewardPoolUsed: bigint;
+    surplus: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace SubmissionCreatedEvent {
   export type InputTuple = [
     submissionId: BigNumberish,
@@ -513,6 +802,42 @@ export namespace VerificationStakedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace VerifierRewardPoolFundedEvent {
+  export type InputTuple = [
+    from: AddressLike,
+    amount: BigNumberish,
+    poolBalance: BigNumberish
+  ];
+  export type OutputTuple = [from: string, amount: bigint, poolBalance: bigint];
+  export interface OutputObject {
+    from: string;
+    amount: bigint;
+    poolBalance: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VerifierRewardPoolWithdrawnEvent {
+  export type InputTuple = [
+    to: AddressLike,
+    amount: BigNumberish,
+    poolBalance: BigNumberish
+  ];
+  export type OutputTuple = [to: string, amount: bigint, poolBalance: bigint];
+  export interface OutputObject {
+    to: string;
+    amount: bigint;
+    poolBalance: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace VoteSubmittedEvent {
   export type InputTuple = [
     submissionId: BigNumberish,
@@ -582,6 +907,8 @@ export interface VerificationContract extends BaseContract {
 
   CONSENSUS_THRESHOLD: TypedContractMethod<[], [bigint], "view">;
 
+  DISPUTE_RESOLUTION_TIMEOUT: TypedContractMethod<[], [bigint], "view">;
+
   MAX_VERIFIERS: TypedContractMethod<[], [bigint], "view">;
 
   REWARD_DISTRIBUTION_DELAY: TypedContractMethod<[], [bigint], "view">;
@@ -592,6 +919,8 @@ export interface VerificationContract extends BaseContract {
 
   antiFraudAddress: TypedContractMethod<[], [string], "view">;
 
+  arbiters: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
   bountyPoolAddress: TypedContractMethod<[], [string], "view">;
 
   consensusReachedAt: TypedContractMethod<
@@ -600,24 +929,37 @@ export interface VerificationContract extends BaseContract {
     "view"
   >;
 
+  contestedMargin: TypedContractMethod<[], [bigint], "view">;
+
   createSubmission: TypedContractMethod<
     [
       taskId: BigNumberish,
       worker: AddressLike,
       ipfsHash: string,
       location: VerificationContract.LocationStruct,
-      bountyAmount: BigNumberish
+      bountyAmount: BigNumberish,
+      category: BigNumberish
     ],
     [bigint],
     "nonpayable"
   >;
 
+  disputedAt: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
   distributeVerificationRewards: TypedContractMethod<
     [submissionId: BigNumberish],
     [void],
     "nonpayable"
   >;
 
+  fundVerifierRewardPool: TypedContractMethod<[], [void], "payable">;
+
+  getReservedBounty: TypedContractMethod<
+    [taskId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
   getSubmission: TypedContractMethod<
     [submissionId: BigNumberish],
     [VerificationContract.SubmissionStructOutput],
@@ -642,24 +984,62 @@ export interface VerificationContract extends BaseContract {
     "view"
   >;
 
+  hasSubmitted: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
   owner: TypedContractMethod<[], [string], "view">;
 
+  pendingWithdrawals: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
   renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
 
   reputationContractAddress: TypedContractMethod<[], [string], "view">;
 
+  reservedBounty: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  resolveDispute: TypedContractMethod<
+    [submissionId: BigNumberish, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  resolveExpiredDispute: TypedContractMethod<
+    [submissionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   setAntiFraud: TypedContractMethod<
     [_antiFraud: AddressLike],
     [void],
     "nonpayable"
   >;
 
+  setArbiter: TypedContractMethod<
+    [arbiter: AddressLike, enabled: boolean],
+    [void],
+    "nonpayable"
+  >;
+
   setBountyPool: TypedContractMethod<
     [_bountyPool: AddressLike],
     [void],
     "nonpayable"
   >;
 
+  setContestedMargin: TypedContractMethod<
+    [margin: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   setReputationContract: TypedContractMethod<
     [_reputationContract: AddressLike],
     [void],
@@ -672,6 +1052,8 @@ export interface VerificationContract extends BaseContract {
     "nonpayable"
   >;
 
+  slashedStakeSurplus: TypedContractMethod<[], [bigint], "view">;
+
   stakeForVerification: TypedContractMethod<
     [submissionId: BigNumberish],
     [void],
@@ -699,7 +1081,8 @@ export interface VerificationContract extends BaseContract {
         bigint,
         bigint,
         bigint,
-        boolean
+        boolean,
+        bigint
       ] & {
         id: bigint;
         taskId: bigint;
@@ -713,6 +1096,7 @@ export interface VerificationContract extends BaseContract {
         totalVotes: bigint;
         bountyAmount: bigint;
         rewardDistributed: boolean;
+        category: bigint;
       }
     ],
     "view"
@@ -745,6 +1129,24 @@ export interface VerificationContract extends BaseContract {
     "view"
   >;
 
+  verifierRewardPool: TypedContractMethod<[], [bigint], "view">;
+
+  withdraw: TypedContractMethod<[], [void], "nonpayable">;
+
+  withdrawSlashedStakeSurplus: TypedContractMethod<
+    [amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawVerifierRewardPool: TypedContractMethod<
+    [amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawable: TypedContractMethod<[account: AddressLike], [bigint], "view">;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
@@ -755,6 +1157,9 @@ export interface VerificationContract extends BaseContract {
   getFunction(
     nameOrSignature: "CONSENSUS_THRESHOLD"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DISPUTE_RESOLUTION_TIMEOUT"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "MAX_VERIFIERS"
   ): TypedContractMethod<[], [bigint], "view">;
@@ -770,12 +1175,18 @@ export interface VerificationContract extends BaseContract {
   getFunction(
     nameOrSignature: "antiFraudAddress"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "arbiters"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
   getFunction(
     nameOrSignature: "bountyPoolAddress"
   ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "consensusReachedAt"
   ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "contestedMargin"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "createSubmission"
   ): TypedContractMethod<
@@ -784,14 +1195,24 @@ export interface VerificationContract extends BaseContract {
       worker: AddressLike,
       ipfsHash: string,
       location: VerificationContract.LocationStruct,
-      bountyAmount: BigNumberish
+      bountyAmount: BigNumberish,
+      category: BigNumberish
     ],
     [bigint],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "disputedAt"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
   getFunction(
     nameOrSignature: "distributeVerificationRewards"
   ): TypedContractMethod<[submissionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "fundVerifierRewardPool"
+  ): TypedContractMethod<[], [void], "payable">;
+  getFunction(
+    nameOrSignature: "getReservedBounty"
+  ): TypedContractMethod<[taskId: BigNumberish], [bigint], "view">;
   getFunction(
     nameOrSignature: "getSubmission"
   ): TypedContractMethod<
@@ -812,21 +1233,54 @@ export interface VerificationContract extends BaseContract {
   getFunction(
     nameOrSignature: "hasConsensus"
   ): TypedContractMethod<[submissionId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "hasSubmitted"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "owner"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pendingWithdrawals"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
   getFunction(
     nameOrSignature: "renounceOwnership"
   ): TypedContractMethod<[], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "reputationContractAddress"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "reservedBounty"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "resolveDispute"
+  ): TypedContractMethod<
+    [submissionId: BigNumberish, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "resolveExpiredDispute"
+  ): TypedContractMethod<[submissionId: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "setAntiFraud"
   ): TypedContractMethod<[_antiFraud: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setArbiter"
+  ): TypedContractMethod<
+    [arbiter: AddressLike, enabled: boolean],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "setBountyPool"
   ): TypedContractMethod<[_bountyPool: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setContestedMargin"
+  ): TypedContractMethod<[margin: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "setReputationContract"
   ): TypedContractMethod<
@@ -837,6 +1291,9 @@ export interface VerificationContract extends BaseContract {
   getFunction(
     nameOrSignature: "setTaskManager"
   ): TypedContractMethod<[_taskManager: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "slashedStakeSurplus"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "stakeForVerification"
   ): TypedContractMethod<[submissionId: BigNumberish], [void], "payable">;
@@ -864,7 +1321,8 @@ export interface VerificationContract extends BaseContract {
         bigint,
         bigint,
         bigint,
-        boolean
+        boolean,
+        bigint
       ] & {
         id: bigint;
         taskId: bigint;
@@ -878,6 +1336,7 @@ export interface VerificationContract extends BaseContract {
         totalVotes: bigint;
         bountyAmount: bigint;
         rewardDistributed: boolean;
+        category: bigint;
       }
     ],
     "view"
@@ -909,7 +1368,29 @@ export interface VerificationContract extends BaseContract {
     ],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "verifierRewardPool"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawSlashedStakeSurplus"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawVerifierRewardPool"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawable"
+  ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
 
+  getEvent(
+    key: "ArbiterUpdated"
+  ): TypedContractEvent<
+    ArbiterUpdatedEvent.InputTuple,
+    ArbiterUpdatedEvent.OutputTuple,
+    ArbiterUpdatedEvent.OutputObject
+  >;
   getEvent(
     key: "ConsensusReached"
   ): TypedContractEvent<
@@ -917,6 +1398,13 @@ export interface VerificationContract extends BaseContract {
     ConsensusReachedEvent.OutputTuple,
     ConsensusReachedEvent.OutputObject
   >;
+  getEvent(
+    key: "ContestedMarginUpdated"
+  ): TypedContractEvent<
+    ContestedMarginUpdatedEvent.InputTuple,
+    ContestedMarginUpdatedEvent.OutputTuple,
+    ContestedMarginUpdatedEvent.OutputObject
+  >;
   getEvent(
     key: "DisputeEscalated"
   ): TypedContractEvent<
@@ -924,6 +1412,27 @@ export interface VerificationContract extends BaseContract {
     DisputeEscalatedEvent.OutputTuple,
     DisputeEscalatedEvent.OutputObject
   >;
+  getEvent(
+    key: "DisputeResolved"
+  ): TypedContractEvent<
+    DisputeResolvedEvent.InputTuple,
+    DisputeResolvedEvent.OutputTuple,
+    DisputeResolvedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EarningsCredited"
+  ): TypedContractEvent<
+    EarningsCreditedEvent.InputTuple,
+    EarningsCreditedEvent.OutputTuple,
+    EarningsCreditedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EarningsWithdrawn"
+  ): TypedContractEvent<
+    EarningsWithdrawnEvent.InputTuple,
+    EarningsWithdrawnEvent.OutputTuple,
+    EarningsWithdrawnEvent.OutputObject
+  >;
   getEvent(
     key: "OwnershipTransferred"
   ): TypedContractEvent<
@@ -938,6 +1447,20 @@ export interface VerificationContract extends BaseContract {
     RewardDistributedEvent.OutputTuple,
     RewardDistributedEvent.OutputObject
   >;
+  getEvent(
+    key: "SlashedStakeSurplusWithdrawn"
+  ): TypedContractEvent<
+    SlashedStakeSurplusWithdrawnEvent.InputTuple,
+    SlashedStakeSurplusWithdrawnEvent.OutputTuple,
+    SlashedStakeSurplusWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "SlashedStakesAllocated"
+  ): TypedContractEvent<
+    SlashedStakesAllocatedEvent.InputTuple,
+    SlashedStakesAllocatedEvent.OutputTuple,
+    SlashedStakesAllocatedEvent.OutputObject
+  >;
   getEvent(
     key: "SubmissionCreated"
   ): TypedContractEvent<
@@ -959,6 +1482,20 @@ export interface VerificationContract extends BaseContract {
     VerificationStakedEvent.OutputTuple,
     VerificationStakedEvent.OutputObject
   >;
+  getEvent(
+    key: "VerifierRewardPoolFunded"
+  ): TypedContractEvent<
+    VerifierRewardPoolFundedEvent.InputTuple,
+    VerifierRewardPoolFundedEvent.OutputTuple,
+    VerifierRewardPoolFundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VerifierRewardPoolWithdrawn"
+  ): TypedContractEvent<
+    VerifierRewardPoolWithdrawnEvent.InputTuple,
+    VerifierRewardPoolWithdrawnEvent.OutputTuple,
+    VerifierRewardPoolWithdrawnEvent.OutputObject
+  >;
   getEvent(
     key: "VoteSubmitted"
   ): TypedContractEvent<
@@ -968,6 +1505,17 @@ export interface VerificationContract extends BaseContract {
   >;
 
   filters: {
+    "ArbiterUpdated(address,bool)": TypedContractEvent<
+      ArbiterUpdatedEvent.InputTuple,
+      ArbiterUpdatedEvent.OutputTuple,
+      ArbiterUpdatedEvent.OutputObject
+    >;
+    ArbiterUpdated: TypedContractEvent<
+      ArbiterUpdatedEvent.InputTuple,
+      ArbiterUpdatedEvent.OutputTuple,
+      ArbiterUpdatedEvent.OutputObject
+    >;
+
     "ConsensusReached(uint256,uint8,uint256)": TypedContractEvent<
       ConsensusReachedEvent.InputTuple,
       ConsensusReachedEvent.OutputTuple,
@@ -979,6 +1527,17 @@ export interface VerificationContract extends BaseContract {
       ConsensusReachedEvent.OutputObject
     >;
 
+    "ContestedMarginUpdated(uint256)": TypedContractEvent<
+      ContestedMarginUpdatedEvent.InputTuple,
+      ContestedMarginUpdatedEvent.OutputTuple,
+      ContestedMarginUpdatedEvent.OutputObject
+    >;
+    ContestedMarginUpdated: TypedContractEvent<
+      ContestedMarginUpdatedEvent.InputTuple,
+      ContestedMarginUpdatedEvent.OutputTuple,
+      ContestedMarginUpdatedEvent.OutputObject
+    >;
+
     "DisputeEscalated(uint256,uint256)": TypedContractEvent<
       DisputeEscalatedEvent.InputTuple,
       DisputeEscalatedEvent.OutputTuple,
@@ -990,6 +1549,39 @@ export interface VerificationContract extends BaseContract {
       DisputeEscalatedEvent.OutputObject
     >;
 
+    "DisputeResolved(uint256,address,bool)": TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+    DisputeResolved: TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+
+    "EarningsCredited(address,uint256)": TypedContractEvent<
+      EarningsCreditedEvent.InputTuple,
+      EarningsCreditedEvent.OutputTuple,
+      EarningsCreditedEvent.OutputObject
+    >;
+    EarningsCredited: TypedContractEvent<
+      EarningsCreditedEvent.InputTuple,
+      EarningsCreditedEvent.OutputTuple,
+      EarningsCreditedEvent.OutputObject
+    >;
+
+    "EarningsWithdrawn(address,uint256)": TypedContractEvent<
+      EarningsWithdrawnEvent.InputTuple,
+      EarningsWithdrawnEvent.OutputTuple,
+      EarningsWithdrawnEvent.OutputObject
+    >;
+    EarningsWithdrawn: TypedContractEvent<
+      EarningsWithdrawnEvent.InputTuple,
+      EarningsWithdrawnEvent.OutputTuple,
+      EarningsWithdrawnEvent.OutputObject
+    >;
+
     "OwnershipTransferred(address,address)": TypedContractEvent<
       OwnershipTransferredEvent.InputTuple,
       OwnershipTransferredEvent.OutputTuple,
@@ -1012,6 +1604,28 @@ export interface VerificationContract extends BaseContract {
       RewardDistributedEvent.OutputObject
     >;
 
+    "SlashedStakeSurplusWithdrawn(address,uint256,uint256)": TypedContractEvent<
+      SlashedStakeSurplusWithdrawnEvent.InputTuple,
+      SlashedStakeSurplusWithdrawnEvent.OutputTuple,
+      SlashedStakeSurplusWithdrawnEvent.OutputObject
+    >;
+    SlashedStakeSurplusWithdrawn: TypedContractEvent<
+      SlashedStakeSurplusWithdrawnEvent.InputTuple,
+      SlashedStakeSurplusWithdrawnEvent.OutputTuple,
+      SlashedStakeSurplusWithdrawnEvent.OutputObject
+    >;
+
+    "SlashedStakesAllocated(uint256,uint256,uint256,uint256)": TypedContractEvent<
+      SlashedStakesAllocatedEvent.InputTuple,
+      SlashedStakesAllocatedEvent.OutputTuple,
+      SlashedStakesAllocatedEvent.OutputObject
+    >;
+    SlashedStakesAllocated: TypedContractEvent<
+      SlashedStakesAllocatedEvent.InputTuple,
+      SlashedStakesAllocatedEvent.OutputTuple,
+      SlashedStakesAllocatedEvent.OutputObject
+    >;
+
     "SubmissionCreated(uint256,uint256,address,string)": TypedContractEvent<
       SubmissionCreatedEvent.InputTuple,
       SubmissionCreatedEvent.OutputTuple,
@@ -1045,6 +1659,28 @@ export interface VerificationContract extends BaseContract {
       VerificationStakedEvent.OutputObject
     >;
 
+    "VerifierRewardPoolFunded(address,uint256,uint256)": TypedContractEvent<
+      VerifierRewardPoolFundedEvent.InputTuple,
+      VerifierRewardPoolFundedEvent.OutputTuple,
+      VerifierRewardPoolFundedEvent.OutputObject
+    >;
+    VerifierRewardPoolFunded: TypedContractEvent<
+      VerifierRewardPoolFundedEvent.InputTuple,
+      VerifierRewardPoolFundedEvent.OutputTuple,
+      VerifierRewardPoolFundedEvent.OutputObject
+    >;
+
+    "VerifierRewardPoolWithdrawn(address,uint256,uint256)": TypedContractEvent<
+      VerifierRewardPoolWithdrawnEvent.InputTuple,
+      VerifierRewardPoolWithdrawnEvent.OutputTuple,
+      VerifierRewardPoolWithdrawnEvent.OutputObject
+    >;
+    VerifierRewardPoolWithdrawn: TypedContractEvent<
+      VerifierRewardPoolWithdrawnEvent.InputTuple,
+      VerifierRewardPoolWithdrawnEvent.OutputTuple,
+      VerifierRewardPoolWithdrawnEvent.OutputObject
+    >;
+
     "VoteSubmitted(uint256,address,bool)": TypedContractEvent<
       VoteSubmittedEvent.InputTuple,
       VoteSubmittedEvent.OutputTuple,
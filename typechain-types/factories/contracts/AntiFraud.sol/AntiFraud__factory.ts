@@ -0,0 +1,1431 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  AntiFraud,
+  AntiFraudInterface,
+} from "../../../contracts/AntiFraud.sol/AntiFraud";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "imageHash",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "originalWorker",
+        type: "address",
+      },
+    ],
+    name: "DuplicateImageDetected",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "requested",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "available",
+        type: "uint256",
+      },
+    ],
+    name: "InsufficientStakeBalance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "addr",
+        type: "address",
+      },
+    ],
+    name: "InvalidAddress",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidAmount",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "InvalidMetadata",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "NoWithdrawalRequested",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "NothingToWithdraw",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "currentCount",
+        type: "uint256",
+      },
+    ],
+    name: "RateLimitExceededError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReentrancyGuardReentrantCall",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timeRemaining",
+        type: "uint256",
+      },
+    ],
+    name: "StakeCooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "caller",
+        type: "address",
+      },
+    ],
+    name: "UnauthorizedCaller",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "WorkerBlacklistedError",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "imageHash",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "originalWorker",
+        type: "address",
+      },
+    ],
+    name: "DuplicateDetected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "enum AntiFraud.ForfeitDestination",
+        name: "destination",
+        type: "uint8",
+      },
+    ],
+    name: "ForfeitDestinationUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "ForfeitWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bountyPool",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "ForfeitedFeesSwept",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "ForfeitedStakeCredited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "currentCount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxAllowed",
+        type: "uint256",
+      },
+    ],
+    name: "RateLimitExceeded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalStake",
+        type: "uint256",
+      },
+    ],
+    name: "StakeDeposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "StakeForfeited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "StakeLocked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "StakeReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "availableAt",
+        type: "uint256",
+      },
+    ],
+    name: "StakeWithdrawalRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "StakeWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "imageHash",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "SubmissionRecorded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "WorkerBlacklisted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "WorkerUnblacklisted",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DUPLICATE_SIMILARITY_THRESHOLD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SUBMISSIONS_PER_DAY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ONE_DAY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STAKE_WITHDRAWAL_COOLDOWN",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "blacklistWorker",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "blacklistedWorkers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "bountyPoolAddress",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "imageHash",
+        type: "string",
+      },
+      {
+        internalType: "bytes32",
+        name: "metadataHash",
+        type: "bytes32",
+      },
+    ],
+    name: "checkAndRecordSubmission",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "imageHash",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "similarityThreshold",
+        type: "uint256",
+      },
+    ],
+    name: "checkImageSimilarity",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "isSimilar",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "originalWorker",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "claimStakes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "depositStake",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "forfeitDestination",
+    outputs: [
+      {
+        internalType: "enum AntiFraud.ForfeitDestination",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "forfeitStake",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "forfeitedFees",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "getAvailableStake",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "imageHash",
+        type: "string",
+      },
+    ],
+    name: "getImageHashWorker",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "getTodaySubmissionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "getWorkerStake",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "getWorkerSubmissions",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "imageHash",
+            type: "string",
+          },
+          {
+            internalType: "bytes32",
+            name: "metadataHash",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct AntiFraud.SubmissionRecord[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "imageHashToWorker",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "imageHash",
+        type: "string",
+      },
+    ],
+    name: "isImageHashUsed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "isWorkerBlacklisted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "lockStake",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lockedStakes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "pendingWithdrawals",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "releaseStake",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "requestStakeWithdrawal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_bountyPool",
+        type: "address",
+      },
+    ],
+    name: "setBountyPool",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum AntiFraud.ForfeitDestination",
+        name: "destination",
+        type: "uint8",
+      },
+    ],
+    name: "setForfeitDestination",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_taskManager",
+        type: "address",
+      },
+    ],
+    name: "setTaskManager",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_verificationContract",
+        type: "address",
+      },
+    ],
+    name: "setVerificationContract",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "stakeWithdrawalRequestedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "sweepForfeitedFees",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "taskManagerAddress",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "unblacklistWorker",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "usedImageHashes",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxAge",
+        type: "uint256",
+      },
+    ],
+    name: "validateTimestamp",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "verificationContractAddress",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawStake",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "withdrawable",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "workerDailySubmissions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "date",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "workerStakes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "workerSubmissions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "imageHash",
+        type: "string",
+      },
+      {
+        internalType: "bytes32",
+        name: "metadataHash",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b50338061003757604051631e4fbdf760e01b81526000600482015260240160405180910390fd5b6100408161004a565b506001805561009a565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b61252380620000aa6000396000f3fe6080604052600436106102885760003560e01c806364cd72ec1161015a578063b3212e69116100c1578063d78133aa1161007a578063d78133aa1461086c578063e19fbc031461089c578063e7f355eb146108e5578063f2fde38b14610912578063f3f4370314610932578063fb48d6be1461095f57600080fd5b8063b3212e691461077c578063ba179816146107a9578063c04f85f0146107ea578063c164bba0146107ff578063c3634e451461081f578063ce513b6f1461083657600080fd5b80638da5cb5b116101135780638da5cb5b146106bc5780638ddec546146106da57806392417dc7146106fa578063a7c74da514610727578063ae7c247e14610747578063afa66a6f1461076757600080fd5b806364cd72ec146105e65780636de6e59814610625578063715018a61461063a5780637a55f24d1461064f578063863e76db146106855780638d8944ab1461069c57600080fd5b80632992e27b116101fe578063372683e7116101b7578063372683e7146104f95780633ccfd60b1461053157806343b3e2eb146105465780634535f3df14610566578063482c5f3a1461059f5780635cdfcd29146105bf57600080fd5b80632992e27b1461043f5780632ba910051461045f5780632da2e7c51461047f578063327d0a601461049457806333ebed30146104b457806334a042d8146104d957600080fd5b806314f6b1901161025057806314f6b190146103455780631532de2b146103655780632040e70e1461038557806321c0e95d146103b457806325d5971f146103d457806327c17d3e146103f457600080fd5b806303ec0e771461028d57806304ff2f82146102b6578063061c2d2a146102d857806308f9a9ed146103055780630d2d76a21461033d575b600080fd5b34801561029957600080fd5b506102a3600b5481565b6040519081526020015b60405180910390f35b3480156102c257600080fd5b506102d66102d1366004611df4565b61097f565b005b3480156102e457600080fd5b506102a36102f3366004611df4565b60096020526000908152604090205481565b34801561031157600080fd5b50610325610320366004611eb4565b6109d0565b6040516001600160a01b0390911681526020016102ad565b6102d6610a01565b34801561035157600080fd5b506102a3610360366004611df4565b610aab565b34801561037157600080fd5b50600e54610325906001600160a01b031681565b34801561039157600080fd5b506103a56103a0366004611ef1565b610adf565b6040516102ad93929190611f6d565b3480156103c057600080fd5b506102d66103cf366004611df4565b610bae565b3480156103e057600080fd5b506102d66103ef366004611f96565b610c0f565b34801561040057600080fd5b5061042f61040f366004611eb4565b805160208183018101805160048252928201919093012091525460ff1681565b60405190151581526020016102ad565b34801561044b57600080fd5b5061042f61045a366004611faf565b610de3565b34801561046b57600080fd5b506102d661047a366004611fd1565b610e17565b34801561048b57600080fd5b506102a3605f81565b3480156104a057600080fd5b506102d66104af366004611df4565b610f59565b3480156104c057600080fd5b50600d546103259061010090046001600160a01b031681565b3480156104e557600080fd5b50600f54610325906001600160a01b031681565b34801561050557600080fd5b506102a3610514366004612006565b600860209081526000928352604080842090915290825290205481565b34801561053d57600080fd5b506102d6610fb5565b34801561055257600080fd5b5061042f610561366004612036565b6110b1565b34801561057257600080fd5b5061042f610581366004611df4565b6001600160a01b03166000908152600c602052604090205460ff1690565b3480156105ab57600080fd5b506102a36105ba366004611ef1565b61117a565b3480156105cb57600080fd5b50600d546105d99060ff1681565b6040516102ad91906120ad565b3480156105f257600080fd5b506106066106013660046120d5565b611285565b6040805192151583526001600160a01b039091166020830152016102ad565b34801561063157600080fd5b506102d66112f3565b34801561064657600080fd5b506102d6611389565b34801561065b57600080fd5b506102a361066a366004611df4565b6001600160a01b031660009081526006602052604090205490565b34801561069157600080fd5b506102a36201518081565b3480156106a857600080fd5b506102d66106b736600461211a565b61139b565b3480156106c857600080fd5b506000546001600160a01b0316610325565b3480156106e657600080fd5b506102a36106f5366004611df4565b611400565b34801561070657600080fd5b506102a3610715366004611df4565b60076020526000908152604090205481565b34801561073357600080fd5b5061042f610742366004611eb4565b611445565b34801561075357600080fd5b506102a361076236600461213b565b611470565b34801561077357600080fd5b506102a3601481565b34801561078857600080fd5b506102a3610797366004611df4565b60066020526000908152604090205481565b3480156107b557600080fd5b506103256107c4366004611eb4565b80516020818301810180516005825292820191909301209152546001600160a01b031681565b3480156107f657600080fd5b506102a3611604565b34801561080b57600080fd5b506102d661081a366004612194565b61171f565b34801561082b57600080fd5b506102a362093a8081565b34801561084257600080fd5b506102a3610851366004611df4565b6001600160a01b03166000908152600a602052604090205490565b34801561087857600080fd5b5061042f610887366004611df4565b600c6020526000908152604090205460ff1681565b3480156108a857600080fd5b506108d06108b7366004611df4565b6002602052600090815260409020805460019091015482565b604080519283526020830191909152016102ad565b3480156108f157600080fd5b50610905610900366004611df4565b611786565b6040516102ad91906121e4565b34801561091e57600080fd5b506102d661092d366004611df4565b6118a1565b34801561093e57600080fd5b506102a361094d366004611df4565b600a6020526000908152604090205481565b34801561096b57600080fd5b506102d661097a366004611df4565b6118dc565b61098761193e565b6001600160a01b0381166000818152600c6020526040808220805460ff19169055517f5d1486fa181b8555e5156e631ab8de4ca6956c2600ad009f623b98413ee583dc9190a250565b60006005826040516109e29190612265565b908152604051908190036020019020546001600160a01b031692915050565b610a0961196b565b34600003610a2a5760405163162908e360e11b815260040160405180910390fd5b3360009081526006602052604081208054349290610a49908490612297565b90915550503360008181526009602090815260408083208390556006825291829020548251348152918201527f05cce4a371bf9816b1a7594f1d76c98eba4ed025ff3e471234ae598f17899bd4910160405180910390a2610aa960018055565b565b6001600160a01b0381166000908152600760209081526040808320546006909252822054610ad991906122aa565b92915050565b60036020528160005260406000208181548110610afb57600080fd5b906000526020600020906003020160009150915050806000015490806001018054610b25906122bd565b80601f0160208091040260200160405190810160405280929190818152602001828054610b51906122bd565b8015610b9e5780601f10610b7357610100808354040283529160200191610b9e565b820191906000526020600020905b815481529060010190602001808311610b8157829003601f168201915b5050505050908060020154905083565b610bb661193e565b6001600160a01b038116610bed57604051634726455360e11b81526001600160a01b03821660048201526024015b60405180910390fd5b600f80546001600160a01b0319166001600160a01b0392909216919091179055565b610c1761196b565b3360009081526009602052604081205490819003610c4a576040516333ab3ba760e11b8152336004820152602401610be4565b6000610c5962093a8083612297565b905080421015610c985733610c6e42836122aa565b60405163d2eec03d60e01b81526001600160a01b0390921660048301526024820152604401610be4565b336000908152600760209081526040808320546006909252822054610cbd91906122aa565b9050831580610ccb57508084115b15610cf95760405163d3d3e62f60e01b81523360048201526024810185905260448101829052606401610be4565b3360009081526006602052604081208054869290610d189084906122aa565b9091555050336000818152600960205260408082208290555190919086908381818185875af1925050503d8060008114610d6e576040519150601f19603f3d011682016040523d82523d6000602084013e610d73565b606091505b5050905080610d9e57604051630e21dcbb60e11b815233600482015260248101869052604401610be4565b60405185815233907f8108595eb6bad3acefa9da467d90cc2217686d5c5ac85460f8b7849c840645fc9060200160405180910390a250505050610de060018055565b50565b600042831115610df557506000610ad9565b81610e0084426122aa565b1115610e0e57506000610ad9565b50600192915050565b600e546001600160a01b03163314610e445760405163d86ad9cf60e01b8152336004820152602401610be4565b6001600160a01b0383166000908152600760209081526040808320546006909252822054610e7291906122aa565b905080821115610eae5760405163d3d3e62f60e01b81526001600160a01b03851660048201526024810183905260448101829052606401610be4565b6001600160a01b03841660009081526007602052604081208054849290610ed6908490612297565b909155505060008381526008602090815260408083206001600160a01b038816845290915281208054849290610f0d908490612297565b909155505060405182815283906001600160a01b038616907fa5ae833d0bb1dcd632d98a8b70973e8516812898e19bf27b70071ebc8dc52c01906020015b60405180910390a350505050565b610f6161193e565b6001600160a01b038116610f9357604051634726455360e11b81526001600160a01b0382166004820152602401610be4565b600e80546001600160a01b0319166001600160a01b0392909216919091179055565b610fbd61196b565b336000908152600a602052604081205490819003610ff057604051636e34ee0b60e11b8152336004820152602401610be4565b336000818152600a60205260408082208290555190919083908381818185875af1925050503d8060008114611041576040519150601f19603f3d011682016040523d82523d6000602084013e611046565b606091505b505090508061107157604051630e21dcbb60e11b815233600482015260248101839052604401610be4565b60405182815233907f3800a8fda8557dc82a4e1b680a6e1eb5b89203dbe476fddedec1f4d9d6ab9cf59060200160405180910390a25050610aa960018055565b600d5460009061010090046001600160a01b031633148015906110df5750600e546001600160a01b03163314155b156110ff5760405163d86ad9cf60e01b8152336004820152602401610be4565b6001600160a01b0385166000908152600c6020526040902054859060ff161561114657604051630c10e2a560e31b81526001600160a01b0382166004820152602401610be4565b61114f86611995565b6111598685611a70565b61116283611b22565b61116e86868686611b70565b50600195945050505050565b600d5460009061010090046001600160a01b031633148015906111a85750600e546001600160a01b03163314155b156111c85760405163d86ad9cf60e01b8152336004820152602401610be4565b60008281526008602090815260408083206001600160a01b0387168452909152812054908190036111fd576000915050610ad9565b60008381526008602090815260408083206001600160a01b038816845282528083208390556007909152812080548392906112399084906122aa565b909155505060405181815283906001600160a01b038616907ff19d8b33ae9c98771c986a9786b7607e5feae223396359256d996805cdb5be0a9060200160405180910390a39392505050565b6000806004846040516112989190612265565b9081526040519081900360200190205460ff16156112e55760016005856040516112c29190612265565b908152604051908190036020019020549092506001600160a01b031690506112ec565b5060009050805b9250929050565b3360009081526006602052604081205490036113325760405163d3d3e62f60e01b81523360048201526000602482018190526044820152606401610be4565b33600081815260096020526040902042908190557fbca3376eb3aeb1a0cc98dfe0a474292159e6471e99672abde0e4c68d037de20f906113769062093a8090612297565b60405190815260200160405180910390a2565b61139161193e565b610aa96000611c7d565b6113a361193e565b600d805482919060ff1916600183818111156113c1576113c1612097565b02179055507fd4a7145c2403a4a54815a1aafb597a358717d8f8356fa1c2f551449be7e629b6816040516113f591906120ad565b60405180910390a150565b60008061140b611ccd565b6001600160a01b038416600090815260026020526040902080549192509082900361143b57600101549392505050565b5060009392505050565b60006004826040516114579190612265565b9081526040519081900360200190205460ff1692915050565b600061147a61196b565b600d5461010090046001600160a01b031633146114ac5760405163d86ad9cf60e01b8152336004820152602401610be4565b60008381526008602090815260408083206001600160a01b0388168452909152812054908190036114e15760009150506115f4565b60008481526008602090815260408083206001600160a01b0389168452825280832083905560079091528120805483929061151d9084906122aa565b90915550506001600160a01b0385166000908152600660205260408120805483929061154a9084906122aa565b92505081905550846001600160a01b03167f2cf29c4d53c38277a9ad492bd60fccc26b0bf83363383f22bde9bc3c0fa79f64828560405161158c9291906122f7565b60405180910390a260006115a08583611cec565b9050806001600160a01b031685876001600160a01b03167f634e159ce5b19fac04d2886291c139b7aa810efb24eb09fa9c02a0ac4413191f856040516115e891815260200190565b60405180910390a45090505b6115fd60018055565b9392505050565b600061160e61196b565b600f546001600160a01b031661164657600f54604051634726455360e11b81526001600160a01b039091166004820152602401610be4565b600b5490508060000361166c5760405163162908e360e11b815260040160405180910390fd5b6000600b819055600f5460408051635094012b60e11b815290516001600160a01b039092169263a1280256928592600480820193929182900301818588803b1580156116b757600080fd5b505af11580156116cb573d6000803e3d6000fd5b5050600f546040518581526001600160a01b0390911693507fcc31f279142a78be27e30f034157821ec9630a929f7495f9491389192d1be46a9250602001905060405180910390a261171c60018055565b90565b61172761193e565b6001600160a01b0382166000818152600c602052604090819020805460ff19166001179055517ff74fa97e352c4a3426dbc4f571677f91da19b1180c4a06caa1be423792cd24c39061177a908490612310565b60405180910390a25050565b6001600160a01b0381166000908152600360209081526040808320805482518185028101850190935280835260609492939192909184015b828210156118965783829060005260206000209060030201604051806060016040529081600082015481526020016001820180546117fb906122bd565b80601f0160208091040260200160405190810160405280929190818152602001828054611827906122bd565b80156118745780601f1061184957610100808354040283529160200191611874565b820191906000526020600020905b81548152906001019060200180831161185757829003601f168201915b50505050508152602001600282015481525050815260200190600101906117be565b505050509050919050565b6118a961193e565b6001600160a01b0381166118d357604051631e4fbdf760e01b815260006004820152602401610be4565b610de081611c7d565b6118e461193e565b6001600160a01b03811661191657604051634726455360e11b81526001600160a01b0382166004820152602401610be4565b600d80546001600160a01b0390921661010002610100600160a81b0319909216919091179055565b6000546001600160a01b03163314610aa95760405163118cdaa760e01b8152336004820152602401610be4565b60026001540361198e57604051633ee5aeb560e01b815260040160405180910390fd5b6002600155565b600061199f611ccd565b6001600160a01b038316600090815260026020526040902080549192509082146119ce57818155600060018201555b6014816001015410611a5457600181015460408051918252601460208301526001600160a01b038516917f853d8bc84624b52a1a6244e2d8e0961ad8035ee7ed75d6054cd4d49a2c247a42910160405180910390a260018101546040516361d728f960e11b81526001600160a01b03851660048201526024810191909152604401610be4565b600181018054906000611a6683612323565b9190505550505050565b600481604051611a809190612265565b9081526040519081900360200190205460ff1615611b1e576000600582604051611aaa9190612265565b908152604051908190036020018120546001600160a01b0390811692508416907faa3c85c862e47ddd5ec91fd6fb417d704b426f86acab82db01c3f2208722eae790611af9908590859061233c565b60405180910390a281816040516303782f7d60e31b8152600401610be492919061233c565b5050565b80610de05760405163c016d38960e01b815260206004820152601d60248201527f4d6574616461746120686173682063616e6e6f7420626520656d7074790000006044820152606401610be4565b6001600160a01b0384166000908152600360208181526040808420815160608101835242815280840188815292810187905281546001818101845592875293909520855193909402909301918255519091820190611bce90826123b5565b506040820151816002015550506001600483604051611bed9190612265565b908152604051908190036020018120805492151560ff19909316929092179091558490600590611c1e908590612265565b90815260405190819003602001812080546001600160a01b039384166001600160a01b031990911617905584918616907f9ae10898e3d52f581aae6ddba0531ccaf6c21d9ef8593b66359be8227ecc6ff190610f4b9086904290612475565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b600062015180611cdd8142612497565b611ce791906124b9565b905090565b60006001600d5460ff166001811115611d0757611d07612097565b03611db557600e546040516302f784ad60e61b8152600481018590526000916001600160a01b03169063bde12b4090602401602060405180830381865afa158015611d56573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190611d7a91906124d0565b6001600160a01b0381166000908152600a6020526040812080549293508592909190611da7908490612297565b90915550909150610ad99050565b81600b6000828254611dc79190612297565b9091555050600f546001600160a01b03169392505050565b6001600160a01b0381168114610de057600080fd5b600060208284031215611e0657600080fd5b81356115fd81611ddf565b634e487b7160e01b600052604160045260246000fd5b600082601f830112611e3857600080fd5b813567ffffffffffffffff80821115611e5357611e53611e11565b604051601f8301601f19908116603f01168101908282118183101715611e7b57611e7b611e11565b81604052838152866020858801011115611e9457600080fd5b836020870160208301376000602085830101528094505050505092915050565b600060208284031215611ec657600080fd5b813567ffffffffffffffff811115611edd57600080fd5b611ee984828501611e27565b949350505050565b60008060408385031215611f0457600080fd5b8235611f0f81611ddf565b946020939093013593505050565b60005b83811015611f38578181015183820152602001611f20565b50506000910152565b60008151808452611f59816020860160208601611f1d565b601f01601f19169290920160200192915050565b838152606060208201526000611f866060830185611f41565b9050826040830152949350505050565b600060208284031215611fa857600080fd5b5035919050565b60008060408385031215611fc257600080fd5b50508035926020909101359150565b600080600060608486031215611fe657600080fd5b8335611ff181611ddf565b95602085013595506040909401359392505050565b6000806040838503121561201957600080fd5b82359150602083013561202b81611ddf565b809150509250929050565b6000806000806080858703121561204c57600080fd5b843561205781611ddf565b935060208501359250604085013567ffffffffffffffff81111561207a57600080fd5b61208687828801611e27565b949793965093946060013593505050565b634e487b7160e01b600052602160045260246000fd5b60208101600283106120cf57634e487b7160e01b600052602160045260246000fd5b91905290565b600080604083850312156120e857600080fd5b823567ffffffffffffffff8111156120ff57600080fd5b61210b85828601611e27565b95602094909401359450505050565b60006020828403121561212c57600080fd5b8135600281106115fd57600080fd5b60008060006060848603121561215057600080fd5b833561215b81611ddf565b925060208401359150604084013567ffffffffffffffff81111561217e57600080fd5b61218a86828701611e27565b9150509250925092565b600080604083850312156121a757600080fd5b82356121b281611ddf565b9150602083013567ffffffffffffffff8111156121ce57600080fd5b6121da85828601611e27565b9150509250929050565b60006020808301818452808551808352604092508286019150828160051b87010184880160005b8381101561225757603f19898403018552815160608151855288820151818a87015261223982870182611f41565b9289015195890195909552509487019492509086019060010161220b565b509098975050505050505050565b60008251612277818460208701611f1d565b9190910192915050565b634e487b7160e01b600052601160045260246000fd5b80820180821115610ad957610ad9612281565b81810381811115610ad957610ad9612281565b600181811c908216806122d157607f821691505b6020821081036122f157634e487b7160e01b600052602260045260246000fd5b50919050565b828152604060208201526000611ee96040830184611f41565b6020815260006115fd6020830184611f41565b60006001820161233557612335612281565b5060010190565b60408152600061234f6040830185611f41565b905060018060a01b03831660208301529392505050565b601f8211156123b057600081815260208120601f850160051c8101602086101561238d5750805b601f850160051c820191505b818110156123ac57828155600101612399565b5050505b505050565b815167ffffffffffffffff8111156123cf576123cf611e11565b6123e3816123dd84546122bd565b84612366565b602080601f83116001811461241857600084156124005750858301515b600019600386901b1c1916600185901b1785556123ac565b600085815260208120601f198616915b8281101561244757888601518255948401946001909101908401612428565b50858210156124655787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b6040815260006124886040830185611f41565b90508260208301529392505050565b6000826124b457634e487b7160e01b600052601260045260246000fd5b500490565b8082028115828204841417610ad957610ad9612281565b6000602082840312156124e257600080fd5b81516115fd81611ddf56fea2646970667358221220cd62c6b200b707b1e240cb600ef772696ffe4dccb317fae09c1f4dc4c42f283264736f6c63430008140033";
+
+type AntiFraudConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AntiFraudConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class AntiFraud__factory extends ContractFactory {
+  constructor(...args: AntiFraudConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      AntiFraud & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AntiFraud__factory {
+    return super.connect(runner) as AntiFraud__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AntiFraudInterface {
+    return new Interface(_abi) as AntiFraudInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): AntiFraud {
+    return new Contract(address, _abi, runner) as unknown as AntiFraud;
+  }
+}
@@ -0,0 +1,44 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  ITaskManager,
+  ITaskManagerInterface,
+} from "../../../contracts/AntiFraud.sol/ITaskManager";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "getTaskCreator",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class ITaskManager__factory {
+  static readonly abi = _abi;
+  static createInterface(): ITaskManagerInterface {
+    return new Interface(_abi) as ITaskManagerInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ITaskManager {
+    return new Contract(address, _abi, runner) as unknown as ITaskManager;
+  }
+}
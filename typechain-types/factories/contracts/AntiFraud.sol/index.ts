@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { AntiFraud__factory } from "./AntiFraud__factory";
+export { IBountyPool__factory } from "./IBountyPool__factory";
+export { ITaskManager__factory } from "./ITaskManager__factory";
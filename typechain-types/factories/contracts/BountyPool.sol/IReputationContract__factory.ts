@@ -0,0 +1,53 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IReputationContract,
+  IReputationContractInterface,
+} from "../../../contracts/BountyPool.sol/IReputationContract";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "enum TaskCategory",
+        name: "category",
+        type: "uint8",
+      },
+    ],
+    name: "getReputationMultiplier",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class IReputationContract__factory {
+  static readonly abi = _abi;
+  static createInterface(): IReputationContractInterface {
+    return new Interface(_abi) as IReputationContractInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IReputationContract {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as IReputationContract;
+  }
+}
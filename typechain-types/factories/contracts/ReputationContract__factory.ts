@@ -86,7 +86,26 @@ const _abi = [
       },
       {
         indexed: false,
-        internalType: "enum ReputationContract.TaskCategory",
+        internalType: "uint256",
+        name: "newScore",
+        type: "uint256",
+      },
+    ],
+    name: "AbandonedClaimRecorded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum TaskCategory",
         name: "category",
         type: "uint8",
       },
@@ -338,6 +357,25 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getAbandonedClaims",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -346,7 +384,7 @@ const _abi = [
         type: "address",
       },
       {
-        internalType: "enum ReputationContract.TaskCategory",
+        internalType: "enum TaskCategory",
         name: "category",
         type: "uint8",
       },
@@ -424,7 +462,7 @@ const _abi = [
         type: "address",
       },
       {
-        internalType: "enum ReputationContract.TaskCategory",
+        internalType: "enum TaskCategory",
         name: "category",
         type: "uint8",
       },
@@ -505,7 +543,7 @@ const _abi = [
         type: "address",
       },
       {
-        internalType: "enum ReputationContract.TaskCategory",
+        internalType: "enum TaskCategory",
         name: "category",
         type: "uint8",
       },
@@ -566,6 +604,19 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "recordAbandonedClaim",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [],
     name: "renounceOwnership",
@@ -669,7 +720,7 @@ const _abi = [
         type: "address",
       },
       {
-        internalType: "enum ReputationContract.TaskCategory",
+        internalType: "enum TaskCategory",
         name: "category",
         type: "uint8",
       },
@@ -700,7 +751,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561001057600080fd5b50338061003757604051631e4fbdf760e01b81526000600482015260240160405180910390fd5b61004081610046565b50610096565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6110bf806100a56000396000f3fe608060405234801561001057600080fd5b50600436106101cf5760003560e01c80637b05725811610104578063cdc85030116100a2578063e7aeaf2511610071578063e7aeaf25146103ce578063ef2fe5f0146103d7578063f2fde38b146103df578063fb48d6be146103f257600080fd5b8063cdc85030146103aa578063d213c0f2146103bd578063e1f1c4a7146103c5578063e6fc2d8a1461037c57600080fd5b806391321da7116100de57806391321da714610374578063aac38d8c1461037c578063ab92f97e14610384578063cb5103731461039757600080fd5b80637b057258146103485780637bb27c11146103505780638da5cb5b1461036357600080fd5b8063420c843011610171578063697c60451161014b578063697c6045146102ea578063715018a6146102f257806375a67d5c146102fa5780637a00d3c41461030d57600080fd5b8063420c8430146102b15780635dd0cc41146102c4578063686745c3146102d757600080fd5b806319d9d162116101ad57806319d9d1621461023d578063327d0a601461027657806333ebed301461028b57806341cf742c1461029e57600080fd5b8063093cbed5146101d45780630fe3bb74146101fc5780631532de2b14610212575b600080fd5b6101e76101e2366004610ef2565b610405565b60405190151581526020015b60405180910390f35b610204605a81565b6040519081526020016101f3565b600354610225906001600160a01b031681565b6040516001600160a01b0390911681526020016101f3565b61025061024b366004610ef2565b610464565b6040805194855260208501939093529015159183019190915260608201526080016101f3565b610289610284366004610f25565b610501565b005b600254610225906001600160a01b031681565b6101e76102ac366004610f25565b61058a565b6102896102bf366004610f50565b6105b8565b6102046102d2366004610f25565b61070d565b6102896102e5366004610f50565b61075f565b610204600081565b6102896108b6565b610204610308366004610f25565b6108ca565b61032061031b366004610f25565b610924565b604080519586526020860194909452928401919091526060830152608082015260a0016101f3565b610204603281565b61028961035e366004610f25565b61097b565b6000546001600160a01b0316610225565b610204600a81565b610204600581565b610289610392366004610f7a565b610a04565b6102046103a5366004610f25565b610c63565b6102046103b8366004610ef2565b610ccc565b610204606481565b61020461271081565b6102046103e881565b610204605081565b6102896103ed366004610f25565b610d46565b610289610400366004610f25565b610d84565b6001600160a01b03821660009081526001602052604081206005018183600481111561043357610433610fbd565b600481111561044457610444610fbd565b815260208101919091526040016000206002015460ff1690505b92915050565b6001600160a01b038216600090815260016020526040812081908190819081906005018187600481111561049a5761049a610fbd565b60048111156104ab576104ab610fbd565b81526020810191909152604001600020805460018201546002830154919750955060ff1693509050836104df5760006104f5565b836104eb866064610fe9565b6104f59190611000565b91505092959194509250565b610509610e08565b6001600160a01b03811661054057604051634726455360e11b81526001600160a01b03821660048201526024015b60405180910390fd5b600380546001600160a01b0319166001600160a01b0383169081179091556040517f6bda90d69c86c08b1548541b058aa7e292b7a440758ba7a3437fe31f9d72d7c890600090a250565b6001600160a01b0381166000908152600160205260408120548082036105ae575060325b6050111592915050565b6002546001600160a01b031633146105e55760405163d86ad9cf60e01b8152336004820152602401610537565b6001600160a01b0382166000908152600160205260409020805415801561060e57506003810154155b1561061857603281555b60038101805490600061062a83611022565b9190505550811561068c5780546064906106469060059061103b565b1161066b576005816000016000828254610660919061103b565b909155506106709050565b606481555b60048101805490600061068283611022565b91905055506106ba565b80546005116106b55760058160000160008282546106aa919061104e565b909155506106ba9050565b600081555b80546040516001600160a01b038516917fd36a46bea375412f6bf5fcc61b0d647c90f29122b2d0d04edbdfe20edc16a57191610700918615158252602082015260400190565b60405180910390a2505050565b6001600160a01b0381166000908152600160205260408120600381015482036107395750600092915050565b6003810154600482015461074e906064610fe9565b6107589190611000565b9392505050565b6002546001600160a01b0316331461078c5760405163d86ad9cf60e01b8152336004820152602401610537565b6001600160a01b038216600090815260016020526040902080541580156107b557506001810154155b80156107c357506002810154155b156107cd57603281555b811561082a5780546064906107e49060059061103b565b116108095760058160000160008282546107fe919061103b565b9091555061080e9050565b606481555b60018101805490600061082083611022565b9190505550610870565b8054600511610853576005816000016000828254610848919061104e565b909155506108589050565b600081555b60028101805490600061086a83611022565b91905055505b80546040516001600160a01b038516917f7b2bc3ac22e1443bfb50610f409a7b5a81e116516ce36f0a78b0ce1657f2779091610700918615158252602082015260400190565b6108be610e08565b6108c86000610e35565b565b6001600160a01b038116600090815260016020526040812080541580156108f357506001810154155b801561090157506002810154155b801561090f57506003810154155b1561091d5750603292915050565b5492915050565b6001600160a01b03811660009081526001602052604081208054829182918291829115610952578054610955565b60325b600182015460028301546003840154600490940154929a91995097509195509350915050565b6001600160a01b03811660009081526001602052604090208054156109be5760405163f29542a560e01b81526001600160a01b0383166004820152602401610537565b60328082556040519081526001600160a01b038316907e0143ba88ded9808e3f60de522fa585f0874534e7a2fe23b106311a77577f559060200160405180910390a25050565b6002546001600160a01b03163314801590610a2a57506003546001600160a01b03163314155b15610a4a5760405163d86ad9cf60e01b8152336004820152602401610537565b6001600160a01b03831660009081526001602052604090208054158015610a7357506001810154155b8015610a8157506002810154155b15610a8b57603281555b8115610ae8578054606490610aa29060059061103b565b11610ac7576005816000016000828254610abc919061103b565b90915550610acc9050565b606481555b600181018054906000610ade83611022565b9190505550610b2e565b8054600511610b11576005816000016000828254610b06919061104e565b90915550610b169050565b600081555b600281018054906000610b2883611022565b91905055505b6000816005016000856004811115610b4857610b48610fbd565b6004811115610b5957610b59610fbd565b81526020019081526020016000209050806001016000815480929190610b7e90611022565b91905055508215610b9d578054816000610b9783611022565b91905055505b600281015460ff16158015610bb65750610bb681610e85565b15610c0e5760028101805460ff191660011790556040516001600160a01b038616907fa1d6123b5748f3ace0f4fac103a3d76aa48050b31e69390135b174e6f5c9e54790610c05908790611061565b60405180910390a25b81546040516001600160a01b038716917f7b2bc3ac22e1443bfb50610f409a7b5a81e116516ce36f0a78b0ce1657f2779091610c54918715158252602082015260400190565b60405180910390a25050505050565b6001600160a01b0381166000908152600160208190526040822060028101549181015490918391610c94919061103b565b905080600003610ca8575060009392505050565b8082600101546064610cba9190610fe9565b610cc49190611000565b949350505050565b6001600160a01b038216600090815260016020526040812060050181836004811115610cfa57610cfa610fbd565b6004811115610d0b57610d0b610fbd565b815260208101919091526040016000206002015460ff1615610d3c57610d356103e861271061103b565b905061045e565b5061271092915050565b610d4e610e08565b6001600160a01b038116610d7857604051631e4fbdf760e01b815260006004820152602401610537565b610d8181610e35565b50565b610d8c610e08565b6001600160a01b038116610dbe57604051634726455360e11b81526001600160a01b0382166004820152602401610537565b600280546001600160a01b0319166001600160a01b0383169081179091556040517fc94639d1214701da4f99305bbd305a310b09328aaeaea5c8fd49cd2685d4962890600090a250565b6000546001600160a01b031633146108c85760405163118cdaa760e01b8152336004820152602401610537565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6000600a82600101541015610e9c57506000919050565b6001820154825460009190610eb2906064610fe9565b610ebc9190611000565b605a11159392505050565b80356001600160a01b0381168114610ede57600080fd5b919050565b803560058110610ede57600080fd5b60008060408385031215610f0557600080fd5b610f0e83610ec7565b9150610f1c60208401610ee3565b90509250929050565b600060208284031215610f3757600080fd5b61075882610ec7565b80358015158114610ede57600080fd5b60008060408385031215610f6357600080fd5b610f6c83610ec7565b9150610f1c60208401610f40565b600080600060608486031215610f8f57600080fd5b610f9884610ec7565b9250610fa660208501610ee3565b9150610fb460408501610f40565b90509250925092565b634e487b7160e01b600052602160045260246000fd5b634e487b7160e01b600052601160045260246000fd5b808202811582820484141761045e5761045e610fd3565b60008261101d57634e487b7160e01b600052601260045260246000fd5b500490565b60006001820161103457611034610fd3565b5060010190565b8082018082111561045e5761045e610fd3565b8181038181111561045e5761045e610fd3565b602081016005831061108357634e487b7160e01b600052602160045260246000fd5b9190529056fea26469706673582212206f835152cfaa1253477dee92d1c91b7b157fc217fc354087a970a1456ae738df64736f6c63430008140033";
+  "0x608060405234801561001057600080fd5b50338061003757604051631e4fbdf760e01b81526000600482015260240160405180910390fd5b61004081610046565b50610096565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6111f0806100a56000396000f3fe608060405234801561001057600080fd5b50600436106101e55760003560e01c80637a00d3c41161010f578063cdc85030116100a2578063e7aeaf2511610071578063e7aeaf2514610423578063ef2fe5f01461042c578063f2fde38b14610434578063fb48d6be1461044757600080fd5b8063cdc85030146103ff578063d213c0f214610412578063e1f1c4a71461041a578063e6fc2d8a146103d157600080fd5b806391321da7116100de57806391321da7146103c9578063aac38d8c146103d1578063ab92f97e146103d9578063cb510373146103ec57600080fd5b80637a00d3c4146103625780637b0572581461039d5780637bb27c11146103a55780638da5cb5b146103b857600080fd5b806341cf742c11610187578063686745c311610156578063686745c31461032c578063697c60451461033f578063715018a61461034757806375a67d5c1461034f57600080fd5b806341cf742c146102c7578063420c8430146102da5780635d630c42146102ed5780635dd0cc411461031957600080fd5b806319d9d162116101c357806319d9d16214610253578063327d0a601461028c57806333ebed30146102a15780633da1c7fb146102b457600080fd5b8063093cbed5146101ea5780630fe3bb74146102125780631532de2b14610228575b600080fd5b6101fd6101f8366004611023565b61045a565b60405190151581526020015b60405180910390f35b61021a605a81565b604051908152602001610209565b60035461023b906001600160a01b031681565b6040516001600160a01b039091168152602001610209565b610266610261366004611023565b6104b9565b604080519485526020850193909352901515918301919091526060820152608001610209565b61029f61029a366004611056565b610556565b005b60025461023b906001600160a01b031681565b61029f6102c2366004611056565b6105df565b6101fd6102d5366004611056565b6106c1565b61029f6102e8366004611081565b6106fd565b61021a6102fb366004611056565b6001600160a01b031660009081526001602052604090206005015490565b61021a610327366004611056565b61084a565b61029f61033a366004611081565b61089c565b61021a600081565b61029f6109dd565b61021a61035d366004611056565b6109f1565b610375610370366004611056565b610a26565b604080519586526020860194909452928401919091526060830152608082015260a001610209565b61021a603281565b61029f6103b3366004611056565b610a83565b6000546001600160a01b031661023b565b61021a600a81565b61021a600581565b61029f6103e73660046110ab565b610b0b565b61021a6103fa366004611056565b610d54565b61021a61040d366004611023565b610dbd565b61021a606481565b61021a61271081565b61021a6103e881565b61021a605081565b61029f610442366004611056565b610e37565b61029f610455366004611056565b610e75565b6001600160a01b038216600090815260016020526040812060060181836004811115610488576104886110ee565b6004811115610499576104996110ee565b815260208101919091526040016000206002015460ff1690505b92915050565b6001600160a01b03821660009081526001602052604081208190819081908190600601818760048111156104ef576104ef6110ee565b6004811115610500576105006110ee565b81526020810191909152604001600020805460018201546002830154919750955060ff16935090508361053457600061054a565b8361054086606461111a565b61054a9190611131565b91505092959194509250565b61055e610ef9565b6001600160a01b03811661059557604051634726455360e11b81526001600160a01b03821660048201526024015b60405180910390fd5b600380546001600160a01b0319166001600160a01b0383169081179091556040517f6bda90d69c86c08b1548541b058aa7e292b7a440758ba7a3437fe31f9d72d7c890600090a250565b6003546001600160a01b0316331461060c5760405163d86ad9cf60e01b815233600482015260240161058c565b6001600160a01b038116600090815260016020526040902061062d81610f26565b1561063757603281555b80546005116106605760058160000160008282546106559190611153565b909155506106659050565b600081555b60058101805490600061067783611166565b909155505080546040519081526001600160a01b038316907f6c1f7d51a661d9b9c75abc03957ed8b7d9ccfbf65afea68b8da2f99d5c0bf2e3906020015b60405180910390a25050565b6001600160a01b0381166000908152600160205260408120816106e382610f26565b6106ee5781546106f1565b60325b60501115949350505050565b6002546001600160a01b0316331461072a5760405163d86ad9cf60e01b815233600482015260240161058c565b6001600160a01b038216600090815260016020526040902061074b81610f26565b1561075557603281555b60038101805490600061076783611166565b919050555081156107c95780546064906107839060059061117f565b116107a857600581600001600082825461079d919061117f565b909155506107ad9050565b606481555b6004810180549060006107bf83611166565b91905055506107f7565b80546005116107f25760058160000160008282546107e79190611153565b909155506107f79050565b600081555b80546040516001600160a01b038516917fd36a46bea375412f6bf5fcc61b0d647c90f29122b2d0d04edbdfe20edc16a5719161083d918615158252602082015260400190565b60405180910390a2505050565b6001600160a01b0381166000908152600160205260408120600381015482036108765750600092915050565b6003810154600482015461088b90606461111a565b6108959190611131565b9392505050565b6002546001600160a01b031633146108c95760405163d86ad9cf60e01b815233600482015260240161058c565b6001600160a01b03821660009081526001602052604090206108ea81610f26565b156108f457603281555b811561095157805460649061090b9060059061117f565b11610930576005816000016000828254610925919061117f565b909155506109359050565b606481555b60018101805490600061094783611166565b9190505550610997565b805460051161097a57600581600001600082825461096f9190611153565b9091555061097f9050565b600081555b60028101805490600061099183611166565b91905055505b80546040516001600160a01b038516917f7b2bc3ac22e1443bfb50610f409a7b5a81e116516ce36f0a78b0ce1657f277909161083d918615158252602082015260400190565b6109e5610ef9565b6109ef6000610f66565b565b6001600160a01b0381166000908152600160205260408120610a1281610f26565b610a1d578054610895565b60329392505050565b6001600160a01b03811660009081526001602052604081208190819081908190610a4f81610f26565b610a5a578054610a5d565b60325b600182015460028301546003840154600490940154929a91995097509195509350915050565b6001600160a01b0381166000908152600160205260409020610aa481610f26565b610acc5760405163f29542a560e01b81526001600160a01b038316600482015260240161058c565b60328082556040519081526001600160a01b038316907e0143ba88ded9808e3f60de522fa585f0874534e7a2fe23b106311a77577f55906020016106b5565b6002546001600160a01b03163314801590610b3157506003546001600160a01b03163314155b15610b515760405163d86ad9cf60e01b815233600482015260240161058c565b6001600160a01b0383166000908152600160205260409020610b7281610f26565b15610b7c57603281555b8115610bd9578054606490610b939060059061117f565b11610bb8576005816000016000828254610bad919061117f565b90915550610bbd9050565b606481555b600181018054906000610bcf83611166565b9190505550610c1f565b8054600511610c02576005816000016000828254610bf79190611153565b90915550610c079050565b600081555b600281018054906000610c1983611166565b91905055505b6000816006016000856004811115610c3957610c396110ee565b6004811115610c4a57610c4a6110ee565b81526020019081526020016000209050806001016000815480929190610c6f90611166565b91905055508215610c8e578054816000610c8883611166565b91905055505b600281015460ff16158015610ca75750610ca781610fb6565b15610cff5760028101805460ff191660011790556040516001600160a01b038616907fa1d6123b5748f3ace0f4fac103a3d76aa48050b31e69390135b174e6f5c9e54790610cf6908790611192565b60405180910390a25b81546040516001600160a01b038716917f7b2bc3ac22e1443bfb50610f409a7b5a81e116516ce36f0a78b0ce1657f2779091610d45918715158252602082015260400190565b60405180910390a25050505050565b6001600160a01b0381166000908152600160208190526040822060028101549181015490918391610d85919061117f565b905080600003610d99575060009392505050565b8082600101546064610dab919061111a565b610db59190611131565b949350505050565b6001600160a01b038216600090815260016020526040812060060181836004811115610deb57610deb6110ee565b6004811115610dfc57610dfc6110ee565b815260208101919091526040016000206002015460ff1615610e2d57610e266103e861271061117f565b90506104b3565b5061271092915050565b610e3f610ef9565b6001600160a01b038116610e6957604051631e4fbdf760e01b81526000600482015260240161058c565b610e7281610f66565b50565b610e7d610ef9565b6001600160a01b038116610eaf57604051634726455360e11b81526001600160a01b038216600482015260240161058c565b600280546001600160a01b0319166001600160a01b0383169081179091556040517fc94639d1214701da4f99305bbd305a310b09328aaeaea5c8fd49cd2685d4962890600090a250565b6000546001600160a01b031633146109ef5760405163118cdaa760e01b815233600482015260240161058c565b8054600090158015610f3a57506001820154155b8015610f4857506002820154155b8015610f5657506003820154155b80156104b3575050600501541590565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6000600a82600101541015610fcd57506000919050565b6001820154825460009190610fe390606461111a565b610fed9190611131565b605a11159392505050565b80356001600160a01b038116811461100f57600080fd5b919050565b80356005811061100f57600080fd5b6000806040838503121561103657600080fd5b61103f83610ff8565b915061104d60208401611014565b90509250929050565b60006020828403121561106857600080fd5b61089582610ff8565b8035801515811461100f57600080fd5b6000806040838503121561109457600080fd5b61109d83610ff8565b915061104d60208401611071565b6000806000606084860312156110c057600080fd5b6110c984610ff8565b92506110d760208501611014565b91506110e560408501611071565b90509250925092565b634e487b7160e01b600052602160045260246000fd5b634e487b7160e01b600052601160045260246000fd5b80820281158282048414176104b3576104b3611104565b60008261114e57634e487b7160e01b600052601260045260246000fd5b500490565b818103818111156104b3576104b3611104565b60006001820161117857611178611104565b5060010190565b808201808211156104b3576104b3611104565b60208101600583106111b457634e487b7160e01b600052602160045260246000fd5b9190529056fea2646970667358221220440f4e9eb114721f50f4791f8553205868964ec70148a949c98001a26b4c68ac64736f6c63430008140033";
 
 type ReputationContractConstructorParams =
   | [signer?: Signer]
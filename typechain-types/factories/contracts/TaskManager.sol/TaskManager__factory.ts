@@ -20,6 +20,43 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "constructor",
   },
+  {
+    inputs: [],
+    name: "AntiFraudNotSet",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newBountyAmount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "currentBountyAmount",
+        type: "uint256",
+      },
+    ],
+    name: "BountyNotIncreased",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BountyPoolNotSet",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignNotOpen",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -36,6 +73,22 @@ const _abi = [
     name: "DeadlineExpired",
     type: "error",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newDeadline",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "currentDeadline",
+        type: "uint256",
+      },
+    ],
+    name: "DeadlineNotExtended",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -52,6 +105,86 @@ const _abi = [
     name: "InsufficientBounty",
     type: "error",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "required",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "available",
+        type: "uint256",
+      },
+    ],
+    name: "InsufficientCampaignBudget",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "provided",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "required",
+        type: "uint256",
+      },
+    ],
+    name: "InsufficientFunding",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "score",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "required",
+        type: "uint256",
+      },
+    ],
+    name: "InsufficientReputation",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidCampaignId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSchedule",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "scheduleId",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidScheduleId",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -63,6 +196,17 @@ const _abi = [
     name: "InvalidTaskId",
     type: "error",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "additionalWorkers",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidWorkerSlots",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -74,6 +218,60 @@ const _abi = [
     name: "MaxActiveTasksReached",
     type: "error",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        internalType: "enum TaskCategory",
+        name: "badge",
+        type: "uint8",
+      },
+    ],
+    name: "MissingCategoryBadge",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "NativeValueNotAccepted",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "scheduleId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "nextOccurrence",
+        type: "uint256",
+      },
+    ],
+    name: "NoOccurrenceDue",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "NothingToReclaim",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -127,6 +325,27 @@ const _abi = [
     name: "ReentrancyGuardReentrantCall",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "ReputationContractNotSet",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "scheduleId",
+        type: "uint256",
+      },
+    ],
+    name: "ScheduleBackedCampaign",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -134,8 +353,13 @@ const _abi = [
         name: "taskId",
         type: "uint256",
       },
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
     ],
-    name: "TaskNotActive",
+    name: "SubmissionAlreadyMade",
     type: "error",
   },
   {
@@ -151,79 +375,89 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "TaskNotClaimed",
+    name: "SubmissionNotFound",
     type: "error",
   },
   {
     inputs: [
       {
-        internalType: "address",
-        name: "caller",
-        type: "address",
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
       },
     ],
-    name: "UnauthorizedAccess",
+    name: "TaskHasClaims",
     type: "error",
   },
   {
     inputs: [
-      {
-        internalType: "address",
-        name: "worker",
-        type: "address",
-      },
       {
         internalType: "uint256",
         name: "taskId",
         type: "uint256",
       },
     ],
-    name: "WorkerAlreadyClaimed",
+    name: "TaskNotActive",
     type: "error",
   },
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: true,
         internalType: "address",
-        name: "previousOwner",
+        name: "worker",
         type: "address",
       },
       {
-        indexed: true,
-        internalType: "address",
-        name: "newOwner",
-        type: "address",
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
       },
     ],
-    name: "OwnershipTransferred",
-    type: "event",
+    name: "TaskNotClaimed",
+    type: "error",
   },
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: true,
         internalType: "uint256",
         name: "taskId",
         type: "uint256",
       },
+    ],
+    name: "TaskNotClosed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "caller",
+        type: "address",
+      },
+    ],
+    name: "UnauthorizedAccess",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "VerificationContractNotSet",
+    type: "error",
+  },
+  {
+    inputs: [
       {
-        indexed: true,
         internalType: "address",
         name: "worker",
         type: "address",
       },
       {
-        indexed: false,
         internalType: "uint256",
-        name: "claimedAt",
+        name: "taskId",
         type: "uint256",
       },
     ],
-    name: "TaskClaimed",
-    type: "event",
+    name: "WorkerAlreadyClaimed",
+    type: "error",
   },
   {
     anonymous: false,
@@ -240,26 +474,33 @@ const _abi = [
         name: "creator",
         type: "address",
       },
-      {
-        indexed: false,
-        internalType: "enum TaskManager.TaskCategory",
-        name: "category",
-        type: "uint8",
-      },
       {
         indexed: false,
         internalType: "uint256",
-        name: "bountyAmount",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "BountyReclaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
         type: "uint256",
       },
       {
         indexed: false,
         internalType: "uint256",
-        name: "deadline",
+        name: "refundedBudget",
         type: "uint256",
       },
     ],
-    name: "TaskCreated",
+    name: "CampaignClosed",
     type: "event",
   },
   {
@@ -268,17 +509,54 @@ const _abi = [
       {
         indexed: true,
         internalType: "uint256",
-        name: "taskId",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum TaskCategory",
+        name: "category",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bountyAmount",
         type: "uint256",
       },
       {
         indexed: false,
         internalType: "uint256",
-        name: "expiredAt",
+        name: "budget",
         type: "uint256",
       },
     ],
-    name: "TaskExpired",
+    name: "CampaignCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignTaskAdded",
     type: "event",
   },
   {
@@ -298,177 +576,1633 @@ const _abi = [
       },
       {
         indexed: false,
-        internalType: "string",
-        name: "ipfsHash",
-        type: "string",
+        internalType: "bool",
+        name: "timedOut",
+        type: "bool",
       },
+    ],
+    name: "ClaimReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
       {
         indexed: false,
         internalType: "uint256",
-        name: "submittedAt",
+        name: "reputationThreshold",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requiredStake",
         type: "uint256",
       },
     ],
-    name: "TaskSubmitted",
+    name: "CollateralTierUpdated",
     type: "event",
   },
   {
-    inputs: [],
-    name: "MAX_ACTIVE_TASKS_PER_WORKER",
-    outputs: [
+    anonymous: false,
+    inputs: [
       {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "OwnershipTransferred",
+    type: "event",
   },
   {
-    inputs: [],
-    name: "MINIMUM_BOUNTY",
-    outputs: [
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "scheduleId",
+        type: "uint256",
+      },
       {
+        indexed: true,
         internalType: "uint256",
-        name: "",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "startTime",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "interval",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "occurrences",
         type: "uint256",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "ScheduleCreated",
+    type: "event",
   },
   {
-    inputs: [],
-    name: "TASK_COMPLETION_TIMEOUT",
-    outputs: [
+    anonymous: false,
+    inputs: [
       {
+        indexed: true,
         internalType: "uint256",
-        name: "",
+        name: "scheduleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "occurrence",
         type: "uint256",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "ScheduleOccurrenceSkipped",
+    type: "event",
   },
   {
-    inputs: [],
-    name: "antiFraudAddress",
-    outputs: [
+    anonymous: false,
+    inputs: [
       {
-        internalType: "address",
-        name: "",
-        type: "address",
+        indexed: true,
+        internalType: "uint256",
+        name: "scheduleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "occurrence",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "ScheduleOccurrenceSpawned",
+    type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
+        indexed: true,
         internalType: "uint256",
         name: "taskId",
         type: "uint256",
       },
-    ],
-    name: "claimTask",
-    outputs: [
       {
-        internalType: "bool",
-        name: "",
-        type: "bool",
+        indexed: false,
+        internalType: "uint256",
+        name: "verifiedCount",
+        type: "uint256",
       },
     ],
-    stateMutability: "nonpayable",
-    type: "function",
+    name: "SubmissionVerified",
+    type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
-        internalType: "string",
-        name: "description",
-        type: "string",
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
       },
       {
-        internalType: "enum TaskManager.TaskCategory",
-        name: "category",
-        type: "uint8",
+        indexed: false,
+        internalType: "uint256",
+        name: "newBountyAmount",
+        type: "uint256",
       },
       {
+        indexed: false,
         internalType: "uint256",
-        name: "bountyAmount",
+        name: "addedFunding",
         type: "uint256",
       },
+    ],
+    name: "TaskBountyIncreased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
       {
+        indexed: true,
         internalType: "uint256",
-        name: "maxWorkers",
+        name: "taskId",
         type: "uint256",
       },
       {
-        components: [
-          {
-            internalType: "int256",
-            name: "latitude",
-            type: "int256",
-          },
-          {
-            internalType: "int256",
-            name: "longitude",
-            type: "int256",
-          },
-          {
-            internalType: "uint256",
-            name: "radius",
-            type: "uint256",
-          },
-        ],
-        internalType: "struct TaskManager.Location",
-        name: "location",
-        type: "tuple",
+        indexed: false,
+        internalType: "uint256",
+        name: "cancelledAt",
+        type: "uint256",
       },
+    ],
+    name: "TaskCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
       {
+        indexed: true,
         internalType: "uint256",
-        name: "deadline",
+        name: "taskId",
         type: "uint256",
       },
       {
-        components: [
-          {
-            internalType: "uint8",
-            name: "photoCount",
-            type: "uint8",
-          },
-          {
-            internalType: "bool",
-            name: "requiresLocation",
-            type: "bool",
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "claimedAt",
+        type: "uint256",
+      },
+    ],
+    name: "TaskClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "completedAt",
+        type: "uint256",
+      },
+    ],
+    name: "TaskCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum TaskCategory",
+        name: "category",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bountyAmount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    name: "TaskCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newDeadline",
+        type: "uint256",
+      },
+    ],
+    name: "TaskDeadlineExtended",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiredAt",
+        type: "uint256",
+      },
+    ],
+    name: "TaskExpired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requiredStake",
+        type: "uint256",
+      },
+    ],
+    name: "TaskStakeRequirementUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "ipfsHash",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "submittedAt",
+        type: "uint256",
+      },
+    ],
+    name: "TaskSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newMaxWorkers",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "addedFunding",
+        type: "uint256",
+      },
+    ],
+    name: "TaskWorkerSlotsAdded",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_ACTIVE_TASKS_PER_WORKER",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MINIMUM_BOUNTY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TASK_COMPLETION_TIMEOUT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "abandonClaim",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "int256",
+            name: "latitude",
+            type: "int256",
+          },
+          {
+            internalType: "int256",
+            name: "longitude",
+            type: "int256",
+          },
+          {
+            internalType: "uint256",
+            name: "radius",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TaskManager.Location[]",
+        name: "locations",
+        type: "tuple[]",
+      },
+    ],
+    name: "addCampaignLocations",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "additionalWorkers",
+        type: "uint256",
+      },
+    ],
+    name: "addWorkerSlots",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "antiFraudAddress",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "bountyPoolAddress",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelTask",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "claimTask",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    name: "closeCampaign",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "refunded",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "collateralForLowReputation",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "description",
+            type: "string",
+          },
+          {
+            internalType: "enum TaskCategory",
+            name: "category",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "bountyAmount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "workersPerLocation",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "uint8",
+                name: "photoCount",
+                type: "uint8",
+              },
+              {
+                internalType: "bool",
+                name: "requiresLocation",
+                type: "bool",
+              },
+              {
+                internalType: "uint256",
+                name: "minReputation",
+                type: "uint256",
+              },
+              {
+                internalType: "enum TaskCategory",
+                name: "requiredBadge",
+                type: "uint8",
+              },
+              {
+                internalType: "bool",
+                name: "requiresBadge",
+                type: "bool",
+              },
+            ],
+            internalType: "struct TaskManager.TaskRequirements",
+            name: "requirements",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct TaskManager.CampaignParams",
+        name: "params",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "int256",
+            name: "latitude",
+            type: "int256",
+          },
+          {
+            internalType: "int256",
+            name: "longitude",
+            type: "int256",
+          },
+          {
+            internalType: "uint256",
+            name: "radius",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TaskManager.Location[]",
+        name: "locations",
+        type: "tuple[]",
+      },
+    ],
+    name: "createCampaign",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "description",
+            type: "string",
+          },
+          {
+            internalType: "enum TaskCategory",
+            name: "category",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "bountyAmount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "workersPerLocation",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "uint8",
+                name: "photoCount",
+                type: "uint8",
+              },
+              {
+                internalType: "bool",
+                name: "requiresLocation",
+                type: "bool",
+              },
+              {
+                internalType: "uint256",
+                name: "minReputation",
+                type: "uint256",
+              },
+              {
+                internalType: "enum TaskCategory",
+                name: "requiredBadge",
+                type: "uint8",
+              },
+              {
+                internalType: "bool",
+                name: "requiresBadge",
+                type: "bool",
+              },
+            ],
+            internalType: "struct TaskManager.TaskRequirements",
+            name: "requirements",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct TaskManager.CampaignParams",
+        name: "params",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "int256",
+            name: "latitude",
+            type: "int256",
+          },
+          {
+            internalType: "int256",
+            name: "longitude",
+            type: "int256",
+          },
+          {
+            internalType: "uint256",
+            name: "radius",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TaskManager.Location[]",
+        name: "locations",
+        type: "tuple[]",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "budget",
+        type: "uint256",
+      },
+    ],
+    name: "createCampaignWithToken",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "description",
+            type: "string",
+          },
+          {
+            internalType: "enum TaskCategory",
+            name: "category",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "bountyAmount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "workersPerLocation",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "uint8",
+                name: "photoCount",
+                type: "uint8",
+              },
+              {
+                internalType: "bool",
+                name: "requiresLocation",
+                type: "bool",
+              },
+              {
+                internalType: "uint256",
+                name: "minReputation",
+                type: "uint256",
+              },
+              {
+                internalType: "enum TaskCategory",
+                name: "requiredBadge",
+                type: "uint8",
+              },
+              {
+                internalType: "bool",
+                name: "requiresBadge",
+                type: "bool",
+              },
+            ],
+            internalType: "struct TaskManager.TaskRequirements",
+            name: "requirements",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct TaskManager.CampaignParams",
+        name: "params",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "int256",
+            name: "latitude",
+            type: "int256",
+          },
+          {
+            internalType: "int256",
+            name: "longitude",
+            type: "int256",
+          },
+          {
+            internalType: "uint256",
+            name: "radius",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TaskManager.Location",
+        name: "location",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "startTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "interval",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "taskDuration",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "occurrences",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TaskManager.ScheduleTiming",
+        name: "timing",
+        type: "tuple",
+      },
+    ],
+    name: "createSchedule",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "description",
+            type: "string",
+          },
+          {
+            internalType: "enum TaskCategory",
+            name: "category",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "bountyAmount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "workersPerLocation",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "uint8",
+                name: "photoCount",
+                type: "uint8",
+              },
+              {
+                internalType: "bool",
+                name: "requiresLocation",
+                type: "bool",
+              },
+              {
+                internalType: "uint256",
+                name: "minReputation",
+                type: "uint256",
+              },
+              {
+                internalType: "enum TaskCategory",
+                name: "requiredBadge",
+                type: "uint8",
+              },
+              {
+                internalType: "bool",
+                name: "requiresBadge",
+                type: "bool",
+              },
+            ],
+            internalType: "struct TaskManager.TaskRequirements",
+            name: "requirements",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct TaskManager.CampaignParams",
+        name: "params",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "int256",
+            name: "latitude",
+            type: "int256",
+          },
+          {
+            internalType: "int256",
+            name: "longitude",
+            type: "int256",
+          },
+          {
+            internalType: "uint256",
+            name: "radius",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TaskManager.Location",
+        name: "location",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "startTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "interval",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "taskDuration",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "occurrences",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TaskManager.ScheduleTiming",
+        name: "timing",
+        type: "tuple",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "createScheduleWithToken",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "enum TaskCategory",
+        name: "category",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "bountyAmount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxWorkers",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "int256",
+            name: "latitude",
+            type: "int256",
+          },
+          {
+            internalType: "int256",
+            name: "longitude",
+            type: "int256",
+          },
+          {
+            internalType: "uint256",
+            name: "radius",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TaskManager.Location",
+        name: "location",
+        type: "tuple",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint8",
+            name: "photoCount",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "requiresLocation",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "minReputation",
+            type: "uint256",
+          },
+          {
+            internalType: "enum TaskCategory",
+            name: "requiredBadge",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "requiresBadge",
+            type: "bool",
+          },
+        ],
+        internalType: "struct TaskManager.TaskRequirements",
+        name: "requirements",
+        type: "tuple",
+      },
+    ],
+    name: "createTask",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "enum TaskCategory",
+        name: "category",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "bountyAmount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxWorkers",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "int256",
+            name: "latitude",
+            type: "int256",
+          },
+          {
+            internalType: "int256",
+            name: "longitude",
+            type: "int256",
+          },
+          {
+            internalType: "uint256",
+            name: "radius",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TaskManager.Location",
+        name: "location",
+        type: "tuple",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint8",
+            name: "photoCount",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "requiresLocation",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "minReputation",
+            type: "uint256",
+          },
+          {
+            internalType: "enum TaskCategory",
+            name: "requiredBadge",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "requiresBadge",
+            type: "bool",
+          },
+        ],
+        internalType: "struct TaskManager.TaskRequirements",
+        name: "requirements",
+        type: "tuple",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "createTaskWithToken",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "expireTask",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "newDeadline",
+        type: "uint256",
+      },
+    ],
+    name: "extendDeadline",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    name: "getCampaign",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            components: [
+              {
+                internalType: "string",
+                name: "description",
+                type: "string",
+              },
+              {
+                internalType: "enum TaskCategory",
+                name: "category",
+                type: "uint8",
+              },
+              {
+                internalType: "uint256",
+                name: "bountyAmount",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "workersPerLocation",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "deadline",
+                type: "uint256",
+              },
+              {
+                components: [
+                  {
+                    internalType: "uint8",
+                    name: "photoCount",
+                    type: "uint8",
+                  },
+                  {
+                    internalType: "bool",
+                    name: "requiresLocation",
+                    type: "bool",
+                  },
+                  {
+                    internalType: "uint256",
+                    name: "minReputation",
+                    type: "uint256",
+                  },
+                  {
+                    internalType: "enum TaskCategory",
+                    name: "requiredBadge",
+                    type: "uint8",
+                  },
+                  {
+                    internalType: "bool",
+                    name: "requiresBadge",
+                    type: "bool",
+                  },
+                ],
+                internalType: "struct TaskManager.TaskRequirements",
+                name: "requirements",
+                type: "tuple",
+              },
+            ],
+            internalType: "struct TaskManager.CampaignParams",
+            name: "params",
+            type: "tuple",
+          },
+          {
+            internalType: "uint256",
+            name: "budget",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "allocated",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "closed",
+            type: "bool",
+          },
+        ],
+        internalType: "struct TaskManager.Campaign",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    name: "getCampaignReport",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "budget",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "allocated",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "unallocated",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "spent",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "refunded",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "remaining",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "taskCount",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TaskManager.CampaignReport",
+        name: "report",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    name: "getCampaignTasks",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "getClaimEligibility",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "score",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "meetsReputation",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "hasRequiredBadge",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "getReclaimableBounty",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "getRequiredStake",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "scheduleId",
+        type: "uint256",
+      },
+    ],
+    name: "getSchedule",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "campaignId",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "int256",
+                name: "latitude",
+                type: "int256",
+              },
+              {
+                internalType: "int256",
+                name: "longitude",
+                type: "int256",
+              },
+              {
+                internalType: "uint256",
+                name: "radius",
+                type: "uint256",
+              },
+            ],
+            internalType: "struct TaskManager.Location",
+            name: "location",
+            type: "tuple",
+          },
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "startTime",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "interval",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "taskDuration",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "occurrences",
+                type: "uint256",
+              },
+            ],
+            internalType: "struct TaskManager.ScheduleTiming",
+            name: "timing",
+            type: "tuple",
           },
           {
             internalType: "uint256",
-            name: "minReputation",
+            name: "nextOccurrence",
             type: "uint256",
           },
-          {
-            internalType: "enum TaskManager.TaskCategory",
-            name: "requiredBadge",
-            type: "uint8",
-          },
         ],
-        internalType: "struct TaskManager.TaskRequirements",
-        name: "requirements",
-        type: "tuple",
-      },
-    ],
-    name: "createTask",
-    outputs: [
-      {
-        internalType: "uint256",
+        internalType: "struct TaskManager.Schedule",
         name: "",
-        type: "uint256",
+        type: "tuple",
       },
     ],
-    stateMutability: "payable",
+    stateMutability: "view",
     type: "function",
   },
   {
@@ -478,16 +2212,21 @@ const _abi = [
         name: "taskId",
         type: "uint256",
       },
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
     ],
-    name: "expireTask",
+    name: "getSubmissionId",
     outputs: [
       {
-        internalType: "bool",
+        internalType: "uint256",
         name: "",
-        type: "bool",
+        type: "uint256",
       },
     ],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
@@ -518,7 +2257,7 @@ const _abi = [
             type: "string",
           },
           {
-            internalType: "enum TaskManager.TaskCategory",
+            internalType: "enum TaskCategory",
             name: "category",
             type: "uint8",
           },
@@ -582,10 +2321,15 @@ const _abi = [
                 type: "uint256",
               },
               {
-                internalType: "enum TaskManager.TaskCategory",
+                internalType: "enum TaskCategory",
                 name: "requiredBadge",
                 type: "uint8",
               },
+              {
+                internalType: "bool",
+                name: "requiresBadge",
+                type: "bool",
+              },
             ],
             internalType: "struct TaskManager.TaskRequirements",
             name: "requirements",
@@ -623,34 +2367,253 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "getTaskWorkers",
+    name: "getTaskCategory",
+    outputs: [
+      {
+        internalType: "enum TaskCategory",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getTaskCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "getTaskCreator",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "getTaskWorkers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getTasksByCreator",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "page",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum TaskManager.TaskStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getTasksByStatus",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "page",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "getWorkerActiveTasks",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "hasWorkerClaimed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "newBountyAmount",
+        type: "uint256",
+      },
+    ],
+    name: "increaseBounty",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "lowReputationThreshold",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "reclaimBounty",
     outputs: [
       {
-        internalType: "address[]",
+        internalType: "uint256",
         name: "",
-        type: "address[]",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
-        internalType: "address",
-        name: "worker",
-        type: "address",
-      },
-    ],
-    name: "getWorkerActiveTasks",
-    outputs: [
-      {
-        internalType: "uint256[]",
-        name: "",
-        type: "uint256[]",
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
+    name: "recordVerifiedSubmission",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
@@ -660,26 +2623,28 @@ const _abi = [
         name: "taskId",
         type: "uint256",
       },
-      {
-        internalType: "address",
-        name: "worker",
-        type: "address",
-      },
     ],
-    name: "hasWorkerClaimed",
+    name: "releaseExpiredClaims",
     outputs: [
       {
-        internalType: "bool",
-        name: "",
-        type: "bool",
+        internalType: "uint256",
+        name: "released",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [],
-    name: "owner",
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "reputationContractAddress",
     outputs: [
       {
         internalType: "address",
@@ -691,8 +2656,14 @@ const _abi = [
     type: "function",
   },
   {
-    inputs: [],
-    name: "renounceOwnership",
+    inputs: [
+      {
+        internalType: "address",
+        name: "_antiFraud",
+        type: "address",
+      },
+    ],
+    name: "setAntiFraud",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -701,11 +2672,11 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "_antiFraud",
+        name: "_bountyPool",
         type: "address",
       },
     ],
-    name: "setAntiFraud",
+    name: "setBountyPool",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -714,45 +2685,30 @@ const _abi = [
     inputs: [
       {
         internalType: "uint256",
-        name: "taskId",
+        name: "reputationThreshold",
         type: "uint256",
       },
       {
-        internalType: "string",
-        name: "ipfsHash",
-        type: "string",
-      },
-      {
-        components: [
-          {
-            internalType: "int256",
-            name: "latitude",
-            type: "int256",
-          },
-          {
-            internalType: "int256",
-            name: "longitude",
-            type: "int256",
-          },
-          {
-            internalType: "uint256",
-            name: "radius",
-            type: "uint256",
-          },
-        ],
-        internalType: "struct TaskManager.Location",
-        name: "submissionLocation",
-        type: "tuple",
+        internalType: "uint256",
+        name: "requiredStake",
+        type: "uint256",
       },
     ],
-    name: "submitTaskCompletion",
-    outputs: [
+    name: "setCollateralTier",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
+        internalType: "address",
+        name: "_reputationContract",
+        type: "address",
       },
     ],
+    name: "setReputationContract",
+    outputs: [],
     stateMutability: "nonpayable",
     type: "function",
   },
@@ -760,34 +2716,50 @@ const _abi = [
     inputs: [
       {
         internalType: "uint256",
-        name: "",
+        name: "taskId",
         type: "uint256",
       },
       {
-        internalType: "address",
-        name: "",
-        type: "address",
+        internalType: "uint256",
+        name: "requiredStake",
+        type: "uint256",
       },
     ],
-    name: "taskClaims",
-    outputs: [
+    name: "setTaskRequiredStake",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "address",
-        name: "worker",
+        name: "_verificationContract",
         type: "address",
       },
+    ],
+    name: "setVerificationContract",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "claimedAt",
+        name: "scheduleId",
         type: "uint256",
       },
+    ],
+    name: "spawnDue",
+    outputs: [
       {
-        internalType: "bool",
-        name: "completed",
-        type: "bool",
+        internalType: "uint256",
+        name: "spawned",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
@@ -798,17 +2770,17 @@ const _abi = [
         type: "uint256",
       },
       {
-        internalType: "uint256",
+        internalType: "address",
         name: "",
-        type: "uint256",
+        type: "address",
       },
     ],
-    name: "taskWorkers",
+    name: "submissionIds",
     outputs: [
       {
-        internalType: "address",
+        internalType: "uint256",
         name: "",
-        type: "address",
+        type: "uint256",
       },
     ],
     stateMutability: "view",
@@ -818,42 +2790,14 @@ const _abi = [
     inputs: [
       {
         internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    name: "tasks",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "id",
+        name: "taskId",
         type: "uint256",
       },
-      {
-        internalType: "address",
-        name: "creator",
-        type: "address",
-      },
       {
         internalType: "string",
-        name: "description",
+        name: "ipfsHash",
         type: "string",
       },
-      {
-        internalType: "enum TaskManager.TaskCategory",
-        name: "category",
-        type: "uint8",
-      },
-      {
-        internalType: "uint256",
-        name: "bountyAmount",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "maxWorkers",
-        type: "uint256",
-      },
       {
         components: [
           {
@@ -873,59 +2817,68 @@ const _abi = [
           },
         ],
         internalType: "struct TaskManager.Location",
-        name: "location",
+        name: "submissionLocation",
         type: "tuple",
       },
+    ],
+    name: "submitTaskCompletion",
+    outputs: [
       {
         internalType: "uint256",
-        name: "deadline",
+        name: "",
         type: "uint256",
       },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "enum TaskManager.TaskStatus",
-        name: "status",
-        type: "uint8",
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
       },
       {
-        components: [
-          {
-            internalType: "uint8",
-            name: "photoCount",
-            type: "uint8",
-          },
-          {
-            internalType: "bool",
-            name: "requiresLocation",
-            type: "bool",
-          },
-          {
-            internalType: "uint256",
-            name: "minReputation",
-            type: "uint256",
-          },
-          {
-            internalType: "enum TaskManager.TaskCategory",
-            name: "requiredBadge",
-            type: "uint8",
-          },
-        ],
-        internalType: "struct TaskManager.TaskRequirements",
-        name: "requirements",
-        type: "tuple",
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "taskClaims",
+    outputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
       },
       {
         internalType: "uint256",
-        name: "submissionCount",
+        name: "claimedAt",
         type: "uint256",
       },
+      {
+        internalType: "bool",
+        name: "completed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "verifiedCount",
+        name: "",
         type: "uint256",
       },
+    ],
+    name: "taskRequiredStake",
+    outputs: [
       {
         internalType: "uint256",
-        name: "createdAt",
+        name: "",
         type: "uint256",
       },
     ],
@@ -946,25 +2899,14 @@ const _abi = [
     type: "function",
   },
   {
-    inputs: [
+    inputs: [],
+    name: "verificationContractAddress",
+    outputs: [
       {
         internalType: "address",
         name: "",
         type: "address",
       },
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    name: "workerActiveTasks",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
     ],
     stateMutability: "view",
     type: "function",
@@ -972,7 +2914,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561001057600080fd5b50338061003757604051631e4fbdf760e01b81526000600482015260240160405180910390fd5b6100408161004a565b506001805561009a565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b612080806100a96000396000f3fe60806040526004361061011f5760003560e01c8063715018a6116100a05780638dd33495116100645780638dd33495146103b2578063a56686d6146103d2578063c8e627bf146103f2578063d50ddca11461040e578063f2fde38b1461042e57600080fd5b8063715018a6146102ee5780638943adae146103035780638aecde44146103235780638d9776721461035b5780638da5cb5b1461039457600080fd5b80633138d112116100e75780633138d112146101fb57806337392f9c1461021b5780633aeda095146102305780633d1be73d1461024357806362ecc47a146102be57600080fd5b8063017325761461012457806302d64b521461015a57806309437837146101875780631656967a146101a95780631d65e77e146101ce575b600080fd5b34801561013057600080fd5b5061014461013f3660046116b8565b61044e565b60405161015191906116d3565b60405180910390f35b34801561016657600080fd5b5061017a610175366004611717565b6104ba565b6040516101519190611730565b34801561019357600080fd5b506101a76101a23660046116b8565b610525565b005b3480156101b557600080fd5b506101c06201518081565b604051908152602001610151565b3480156101da57600080fd5b506101ee6101e9366004611717565b61059c565b6040516101519190611838565b34801561020757600080fd5b506101c0610216366004611a52565b6107c2565b34801561022757600080fd5b506101c0600381565b6101c061023e366004611ac7565b610abc565b34801561024f57600080fd5b5061029761025e366004611baf565b60056020908152600092835260408084209091529082529020805460018201546002909201546001600160a01b03909116919060ff1683565b604080516001600160a01b0390941684526020840192909252151590820152606001610151565b3480156102ca57600080fd5b506102de6102d9366004611717565b610d7e565b6040519015158152602001610151565b3480156102fa57600080fd5b506101a7610e7e565b34801561030f57600080fd5b506101c061031e366004611bdb565b610e92565b34801561032f57600080fd5b5061034361033e366004611c05565b610ec3565b6040516001600160a01b039091168152602001610151565b34801561036757600080fd5b5061037b610376366004611717565b610efb565b6040516101519d9c9b9a99989796959493929190611c27565b3480156103a057600080fd5b506000546001600160a01b0316610343565b3480156103be57600080fd5b506102de6103cd366004611717565b6110b2565b3480156103de57600080fd5b50600754610343906001600160a01b031681565b3480156103fe57600080fd5b506101c06706f05b59d3b2000081565b34801561041a57600080fd5b506102de610429366004611baf565b61134c565b34801561043a57600080fd5b506101a76104493660046116b8565b61137a565b6001600160a01b0381166000908152600460209081526040918290208054835181840281018401909452808452606093928301828280156104ae57602002820191906000526020600020905b81548152602001906001019080831161049a575b50505050509050919050565b6000818152600660209081526040918290208054835181840281018401909452808452606093928301828280156104ae57602002820191906000526020600020905b81546001600160a01b031681526001909101906020018083116104fc5750505050509050919050565b61052d6113b8565b6001600160a01b03811661057a5760405162461bcd60e51b815260206004820152600f60248201526e496e76616c6964206164647265737360881b60448201526064015b60405180910390fd5b600780546001600160a01b0319166001600160a01b0392909216919091179055565b6105a46115c6565b60008281526003602090815260409182902082516101a0810184528154815260018201546001600160a01b03169281019290925260028101805492939192918401916105ef90611cdd565b80601f016020809104026020016040519081016040528092919081815260200182805461061b90611cdd565b80156106685780601f1061063d57610100808354040283529160200191610668565b820191906000526020600020905b81548152906001019060200180831161064b57829003601f168201915b5050509183525050600382015460209091019060ff16600481111561068f5761068f6117c1565b60048111156106a0576106a06117c1565b81526020016004820154815260200160058201548152602001600682016040518060600160405290816000820154815260200160018201548152602001600282015481525050815260200160098201548152602001600a820160009054906101000a900460ff166004811115610718576107186117c1565b6004811115610729576107296117c1565b815260408051608081018252600b8401805460ff808216845261010090910481161515602084810191909152600c87015494840194909452600d8601549390940193919290916060840191166004811115610786576107866117c1565b6004811115610797576107976117c1565b9052508152600e8201546020820152600f820154604082015260109091015460609091015292915050565b60006107cc6113e5565b6000848152600360205260409020805485146107fe576040516345e2cbed60e01b815260048101869052602401610571565b60008581526005602090815260408083203384529091529020546001600160a01b031661084757604051637645942160e01b815233600482015260248101869052604401610571565b806009015442111561087c5760098101546040516302a07ebf60e31b8152610571918791600401918252602082015260400190565b6000858152600560209081526040808320338452909152902060018101546108a8906201518090611d2d565b4211156108e557856201518082600101546108c39190611d2d565b6040516302a07ebf60e31b815260048101929092526024820152604401610571565b600b820154610100900460ff161561096c57604080516060810182526006840154815260078401546020820152600884015491810191909152610928908561140f565b61096c57600682015460078301548551602087015160405163c92bbbb160e01b81526004810194909452602484019290925260448301526064820152608401610571565b6007546001600160a01b031615610a3557600086338742886000015189602001516040516020016109a296959493929190611d40565b60408051601f198184030181529082905280516020909101206007546343b3e2eb60e01b83529092506001600160a01b0316906343b3e2eb906109ef9033908b908b908790600401611d93565b6020604051808303816000875af1158015610a0e573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610a329190611dcb565b50505b60028101805460ff19166001179055610a4e33876114a2565b600e82018054906000610a6083611de8565b9091555050600e820154604051339088907f30bd2a1da314becc79ac913f35a1ffbeb59f76eaa3c9cacd2f18644badc13d3990610aa0908a904290611e01565b60405180910390a392505050610ab560018055565b9392505050565b60006706f05b59d3b20000861015610af857604051635239e93560e01b8152600481018790526706f05b59d3b200006024820152604401610571565b428311610b22576040516302a07ebf60e31b81526000600482015260248101849052604401610571565b6002805460009182610b3383611de8565b919050559050604051806101a00160405280828152602001336001600160a01b031681526020018a8152602001896004811115610b7257610b726117c1565b815260200188815260200187815260200186815260200185815260200160006004811115610ba257610ba26117c1565b815260208082018690526000604080840182905260608401829052426080909401939093528481526003825282902083518155908301516001820180546001600160a01b0319166001600160a01b03909216919091179055908201516002820190610c0d9082611e72565b50606082015160038201805460ff19166001836004811115610c3157610c316117c1565b0217905550608082015160048083019190915560a0830151600583015560c0830151805160068401556020810151600784015560400151600883015560e08301516009830155610100830151600a830180549192909160ff1916906001908490811115610ca057610ca06117c1565b02179055506101208201518051600b83018054602084015115156101000261ffff1990911660ff909316929092179190911781556040820151600c8401556060820151600d8401805460ff19166001836004811115610d0157610d016117c1565b0217905550505061014082015181600e015561016082015181600f01556101808201518160100155905050336001600160a01b0316817fdd36ea137f5bc626217c017c1a16ba06296baa9a12089dec591179f30651ec4a8a8a88604051610d6a93929190611f32565b60405180910390a398975050505050505050565b600081815260036020526040812080548314610db0576040516345e2cbed60e01b815260048101849052602401610571565b80600901544211610de45760098101546040516302a07ebf60e31b8152610571918591600401918252602082015260400190565b6003600a82015460ff166004811115610dff57610dff6117c1565b1480610e2357506002600a82015460ff166004811115610e2157610e216117c1565b145b15610e315750600092915050565b600a8101805460ff1916600317905560405142815283907f26e873fd14c5453d456aa20c929456ac909a1f33f90961617f3f3982d30979239060200160405180910390a250600192915050565b610e866113b8565b610e906000611576565b565b60046020528160005260406000208181548110610eae57600080fd5b90600052602060002001600091509150505481565b60066020528160005260406000208181548110610edf57600080fd5b6000918252602090912001546001600160a01b03169150829050565b60036020526000908152604090208054600182015460028301805492936001600160a01b0390921692610f2d90611cdd565b80601f0160208091040260200160405190810160405280929190818152602001828054610f5990611cdd565b8015610fa65780601f10610f7b57610100808354040283529160200191610fa6565b820191906000526020600020905b815481529060010190602001808311610f8957829003601f168201915b5050505050908060030160009054906101000a900460ff16908060040154908060050154908060060160405180606001604052908160008201548152602001600182015481526020016002820154815250509080600901549080600a0160009054906101000a900460ff169080600b016040518060800160405290816000820160009054906101000a900460ff1660ff1660ff1681526020016000820160019054906101000a900460ff16151515158152602001600182015481526020016002820160009054906101000a900460ff166004811115611087576110876117c1565b6004811115611098576110986117c1565b905250600e820154600f830154601090930154919290918d565b60006110bc6113e5565b6000828152600360205260409020805483146110ee576040516345e2cbed60e01b815260048101849052602401610571565b6000600a82015460ff166004811115611109576111096117c1565b1461112a57604051632df3979160e01b815260048101849052602401610571565b806009015442111561115f5760098101546040516302a07ebf60e31b8152610571918591600401918252602082015260400190565b60008381526005602090815260408083203384529091529020546001600160a01b0316156111a957604051633cab45f960e21b815233600482015260248101849052604401610571565b336000908152600460205260409020546003116111db57604051633eff331d60e21b8152336004820152602401610571565b60058101546000848152600660205260409020541061121057604051632df3979160e01b815260048101849052602401610571565b60408051606081018252338082524260208084019182526000848601818152898252600583528682208583528352868220955186546001600160a01b03919091166001600160a01b0319918216178755935160018781019190915590516002909601805496151560ff19909716969096179095556004825285812080548087018255908252828220018990558881526006825294852080549485018155855284209092018054909216179055600a82015460ff1660048111156112d5576112d56117c1565b1480156112ef575060008381526006602052604090205415155b1561130457600a8101805460ff191660011790555b604051428152339084907f6d8a5bca396094eff00461dbcb1d176cb6722fd703396e3740f4acfcd740ffc49060200160405180910390a350506001808055919050565b919050565b60008281526005602090815260408083206001600160a01b0385811685529252909120541615155b92915050565b6113826113b8565b6001600160a01b0381166113ac57604051631e4fbdf760e01b815260006004820152602401610571565b6113b581611576565b50565b6000546001600160a01b03163314610e905760405163118cdaa760e01b8152336004820152602401610571565b60026001540361140857604051633ee5aeb560e01b815260040160405180910390fd5b6002600155565b8051825160009182916114229190611f53565b905060008360200151856020015161143a9190611f53565b905060006114488280611f7a565b6114528480611f7a565b61145c9190611faa565b60408701519091506000906114719080611fd2565b905064e8d4a510006402de638a406114898284611fd2565b6114939190611fe9565b90921115979650505050505050565b6001600160a01b0382166000908152600460205260408120905b815481101561157057828282815481106114d8576114d861200b565b90600052602060002001540361155e57815482906114f890600190612021565b815481106115085761150861200b565b90600052602060002001548282815481106115255761152561200b565b90600052602060002001819055508180548061154357611543612034565b60019003818190600052602060002001600090559055611570565b8061156881611de8565b9150506114bc565b50505050565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b604051806101a001604052806000815260200160006001600160a01b031681526020016060815260200160006004811115611603576116036117c1565b8152602001600081526020016000815260200161163a60405180606001604052806000815260200160008152602001600081525090565b81526020016000815260200160006004811115611659576116596117c1565b81526020016116866040805160808101825260008082526020820181905291810182905290606082015290565b81526020016000815260200160008152602001600081525090565b80356001600160a01b038116811461134757600080fd5b6000602082840312156116ca57600080fd5b610ab5826116a1565b6020808252825182820181905260009190848201906040850190845b8181101561170b578351835292840192918401916001016116ef565b50909695505050505050565b60006020828403121561172957600080fd5b5035919050565b6020808252825182820181905260009190848201906040850190845b8181101561170b5783516001600160a01b03168352928401929184019160010161174c565b60005b8381101561178c578181015183820152602001611774565b50506000910152565b600081518084526117ad816020860160208601611771565b601f01601f19169290920160200192915050565b634e487b7160e01b600052602160045260246000fd5b600581106113b557634e487b7160e01b600052602160045260246000fd5b6117fe816117d7565b9052565b60ff815116825260208101511515602083015260408101516040830152606081015161182d816117d7565b806060840152505050565b60208152815160208201526000602083015161185f60408401826001600160a01b03169052565b50604083015161024080606085015261187c610260850183611795565b9150606085015161189060808601826117f5565b50608085015160a085015260a085015160c085015260c08501516118cb60e08601828051825260208082015190830152604090810151910152565b5060e0850151610140818187015261010087015191506101606118f0818801846117f5565b610120880151925061018061190781890185611802565b918801516102008801528701516102208701529095015193019290925250919050565b634e487b7160e01b600052604160045260246000fd5b6040516080810167ffffffffffffffff811182821017156119635761196361192a565b60405290565b600082601f83011261197a57600080fd5b813567ffffffffffffffff808211156119955761199561192a565b604051601f8301601f19908116603f011681019082821181831017156119bd576119bd61192a565b816040528381528660208588010111156119d657600080fd5b836020870160208301376000602085830101528094505050505092915050565b600060608284031215611a0857600080fd5b6040516060810181811067ffffffffffffffff82111715611a2b57611a2b61192a565b80604052508091508235815260208301356020820152604083013560408201525092915050565b600080600060a08486031215611a6757600080fd5b83359250602084013567ffffffffffffffff811115611a8557600080fd5b611a9186828701611969565b925050611aa185604086016119f6565b90509250925092565b80356005811061134757600080fd5b80151581146113b557600080fd5b6000806000806000806000878903610180811215611ae457600080fd5b883567ffffffffffffffff811115611afb57600080fd5b611b078b828c01611969565b985050611b1660208a01611aaa565b96506040890135955060608901359450611b338a60808b016119f6565b935060e08901359250608060ff1982011215611b4e57600080fd5b50611b57611940565b61010089013560ff81168114611b6c57600080fd5b8152610120890135611b7d81611ab9565b60208201526101408901356040820152611b9a6101608a01611aaa565b60608201528091505092959891949750929550565b60008060408385031215611bc257600080fd5b82359150611bd2602084016116a1565b90509250929050565b60008060408385031215611bee57600080fd5b611bf7836116a1565b946020939093013593505050565b60008060408385031215611c1857600080fd5b50508035926020909101359150565b8d81526001600160a01b038d16602082015261024060408201819052600090611c528382018f611795565b915050611c5e8c6117d7565b8b60608301528a60808301528960a0830152611c9160c083018a8051825260208082015190830152604090810151910152565b87610120830152611ca1876117d7565b86610140830152611cb6610160830187611802565b846101e083015283610200830152826102208301529e9d5050505050505050505050505050565b600181811c90821680611cf157607f821691505b602082108103611d1157634e487b7160e01b600052602260045260246000fd5b50919050565b634e487b7160e01b600052601160045260246000fd5b8082018082111561137457611374611d17565b8681526bffffffffffffffffffffffff198660601b16602082015260008551611d70816034850160208a01611771565b603492019182019490945260548101929092526074820152609401949350505050565b60018060a01b0385168152836020820152608060408201526000611dba6080830185611795565b905082606083015295945050505050565b600060208284031215611ddd57600080fd5b8151610ab581611ab9565b600060018201611dfa57611dfa611d17565b5060010190565b604081526000611e146040830185611795565b90508260208301529392505050565b601f821115611e6d57600081815260208120601f850160051c81016020861015611e4a5750805b601f850160051c820191505b81811015611e6957828155600101611e56565b5050505b505050565b815167ffffffffffffffff811115611e8c57611e8c61192a565b611ea081611e9a8454611cdd565b84611e23565b602080601f831160018114611ed55760008415611ebd5750858301515b600019600386901b1c1916600185901b178555611e69565b600085815260208120601f198616915b82811015611f0457888601518255948401946001909101908401611ee5565b5085821015611f225787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b60608101611f3f856117d7565b938152602081019290925260409091015290565b8181036000831280158383131683831282161715611f7357611f73611d17565b5092915050565b80820260008212600160ff1b84141615611f9657611f96611d17565b818105831482151761137457611374611d17565b8082018281126000831280158216821582161715611fca57611fca611d17565b505092915050565b808202811582820484141761137457611374611d17565b60008261200657634e487b7160e01b600052601260045260246000fd5b500490565b634e487b7160e01b600052603260045260246000fd5b8181038181111561137457611374611d17565b634e487b7160e01b600052603160045260246000fdfea26469706673582212206cf719179b74c1a526da4f3a936d7dfbffc48fdc6bc62a697d733f9c7bca9a6464736f6c63430008140033";
+  "0x60806040523480156200001157600080fd5b5033806200003957604051631e4fbdf760e01b81526000600482015260240160405180910390fd5b62000044816200004f565b50600180556200009f565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b615fcd80620000af6000396000f3fe6080604052600436106103815760003560e01c80637caa926d116101d1578063bde12b4011610102578063d50ddca1116100a0578063ec4ca1441161006f578063ec4ca14414610c04578063f2fde38b14610c24578063f68cf4c914610c44578063fb48d6be14610c6457600080fd5b8063d50ddca114610b6b578063d978447914610bb1578063e03d372f14610bd1578063e1fa0c4414610bf157600080fd5b8063c5ca93a7116100dc578063c5ca93a714610a0b578063c8e627bf14610a98578063d24950f514610ab4578063d2d7861414610b2a57600080fd5b8063bde12b401461099d578063c063d36f146109d6578063c17a340e146109f657600080fd5b8063921f1c6b1161016f578063ad7e8daf11610149578063ad7e8daf146108f7578063ae20231a14610925578063b0e1c1e114610945578063b47d10bb1461096557600080fd5b8063921f1c6b146108a45780639584660f146108b7578063a56686d6146108d757600080fd5b80638613176e116101ab5780638613176e1461083357806389251426146108465780638da5cb5b146108665780638dd334951461088457600080fd5b80637caa926d146107d05780637eec20a8146107fd57806385a0e0161461081d57600080fd5b80633d1be73d116102b657806361dd3a8111610254578063715018a611610223578063715018a61461076857806372209c431461077d578063726f29f51461079057806375059e53146107b057600080fd5b806361dd3a81146106ef57806362a4b2811461070f57806362ecc47a146107255780636a31f1701461075557600080fd5b8063543fe4ce11610290578063543fe4ce146106455780635598f8cc14610665578063595163a214610692578063598bf048146106cf57600080fd5b80633d1be73d1461058a57806342683ba4146106055780634288f9441461062557600080fd5b806321c0e95d116103235780633138d112116102fd5780633138d1121461051557806333ebed301461053557806334a042d81461055557806337392f9c1461057557600080fd5b806321c0e95d146104b55780632200da44146104d55780632d1fdef6146104f557600080fd5b8063130248431161035f578063130248431461040b5780631656967a146104395780631d65e77e146104505780631f54f7291461047d57600080fd5b8063017325761461038657806302d64b52146103bc57806309437837146103e9575b600080fd5b34801561039257600080fd5b506103a66103a1366004614ec9565b610c84565b6040516103b39190614f21565b60405180910390f35b3480156103c857600080fd5b506103dc6103d7366004614f34565b610cf0565b6040516103b39190614f4d565b3480156103f557600080fd5b50610409610404366004614ec9565b610d5b565b005b34801561041757600080fd5b5061042b610426366004615275565b610db4565b6040519081526020016103b3565b34801561044557600080fd5b5061042b6201518081565b34801561045c57600080fd5b5061047061046b366004614f34565b610e6a565b6040516103b391906153b7565b34801561048957600080fd5b5060175461049d906001600160a01b031681565b6040516001600160a01b0390911681526020016103b3565b3480156104c157600080fd5b506104096104d0366004614ec9565b6110a6565b3480156104e157600080fd5b5061042b6104f0366004614f34565b6110f6565b34801561050157600080fd5b506104096105103660046154a9565b611289565b34801561052157600080fd5b5061042b6105303660046154cb565b611319565b34801561054157600080fd5b5060165461049d906001600160a01b031681565b34801561056157600080fd5b5060155461049d906001600160a01b031681565b34801561058157600080fd5b5061042b600381565b34801561059657600080fd5b506105de6105a5366004615522565b60056020908152600092835260408084209091529082529020805460018201546002909201546001600160a01b03909116919060ff1683565b604080516001600160a01b03909416845260208401929092521515908201526060016103b3565b34801561061157600080fd5b5061042b610620366004615522565b6116f2565b34801561063157600080fd5b5061042b610640366004615522565b611775565b34801561065157600080fd5b5061042b6106603660046155db565b61182d565b34801561067157600080fd5b50610685610680366004614f34565b6118dc565b6040516103b39190615658565b34801561069e57600080fd5b506106b26106ad366004615522565b611acc565b6040805193845291151560208401521515908201526060016103b3565b3480156106db57600080fd5b5061042b6106ea366004614f34565b611c2c565b3480156106fb57600080fd5b5061040961070a36600461570f565b611d3e565b34801561071b57600080fd5b5061042b60125481565b34801561073157600080fd5b50610745610740366004614f34565b611dd9565b60405190151581526020016103b3565b61042b610763366004615755565b611ef2565b34801561077457600080fd5b50610409611fc1565b61042b61078b3660046157ac565b611fd5565b34801561079c57600080fd5b5061042b6107ab366004615805565b61207c565b3480156107bc57600080fd5b506104096107cb366004614f34565b61217a565b3480156107dc57600080fd5b5061042b6107eb366004614f34565b60086020526000908152604090205481565b34801561080957600080fd5b50610409610818366004614f34565b6121f6565b34801561082957600080fd5b5061042b60135481565b61042b6108413660046158ab565b612300565b34801561085257600080fd5b5061042b610861366004614f34565b612424565b34801561087257600080fd5b506000546001600160a01b031661049d565b34801561089057600080fd5b5061074561089f366004614f34565b612644565b6104096108b23660046154a9565b6128ed565b3480156108c357600080fd5b506104096108d2366004614ec9565b6129d8565b3480156108e357600080fd5b5060145461049d906001600160a01b031681565b34801561090357600080fd5b5061091761091236600461593c565b612a28565b6040516103b3929190615971565b34801561093157600080fd5b506104096109403660046154a9565b612a77565b34801561095157600080fd5b5061042b610960366004614f34565b612b29565b34801561097157600080fd5b5061042b610980366004615522565b600760209081526000928352604080842090915290825290205481565b3480156109a957600080fd5b5061049d6109b8366004614f34565b6000908152600360205260409020600101546001600160a01b031690565b3480156109e257600080fd5b506104096109f1366004614f34565b612c73565b348015610a0257600080fd5b5060025461042b565b348015610a1757600080fd5b50610a2b610a26366004614f34565b612d9e565b60408051825181526020808401518183015283830151805183850152808201516060808501919091529084015160808085019190915281860151805160a08601529283015160c08501529382015160e08401520151610100820152910151610120820152610140016103b3565b348015610aa457600080fd5b5061042b6706f05b59d3b2000081565b348015610ac057600080fd5b50610ad4610acf366004614f34565b612e39565b6040516103b39190600060e082019050825182526020830151602083015260408301516040830152606083015160608301526080830151608083015260a083015160a083015260c083015160c083015292915050565b348015610b3657600080fd5b50610b5e610b45366004614f34565b6000908152600360208190526040909120015460ff1690565b6040516103b39190615993565b348015610b7757600080fd5b50610745610b86366004615522565b60009182526005602090815260408084206001600160a01b0393841685529091529091205416151590565b348015610bbd57600080fd5b506103a6610bcc366004614f34565b612fee565b348015610bdd57600080fd5b50610409610bec3660046154a9565b61304e565b610409610bff3660046154a9565b61309d565b348015610c1057600080fd5b50610917610c1f3660046159a6565b613152565b348015610c3057600080fd5b50610409610c3f366004614ec9565b613179565b348015610c5057600080fd5b5061042b610c5f366004614f34565b6131b4565b348015610c7057600080fd5b50610409610c7f366004614ec9565b6132c4565b6001600160a01b038116600090815260046020908152604091829020805483518184028101840190945280845260609392830182828015610ce457602002820191906000526020600020905b815481526020019060010190808311610cd0575b50505050509050919050565b600081815260066020908152604091829020805483518184028101840190945280845260609392830182828015610ce457602002820191906000526020600020905b81546001600160a01b03168152600190910190602001808311610d325750505050509050919050565b610d63613314565b6001600160a01b038116610d925760405162461bcd60e51b8152600401610d89906159c6565b60405180910390fd5b601480546001600160a01b0319166001600160a01b0392909216919091179055565b6000610dbe613341565b6000610dd38685610dce8661336b565b61342d565b90506000610de187836134f3565b601554604051634115427b60e01b81529192506001600160a01b031690634115427b90610e189084908890339088906004016159ef565b600060405180830381600087803b158015610e3257600080fd5b505af1158015610e46573d6000803e3d6000fd5b50505050610e558187876136a3565b92505050610e6260018055565b949350505050565b610e72614cbc565b60008281526003602090815260409182902082516101a0810184528154815260018201546001600160a01b0316928101929092526002810180549293919291840191610ebd90615a14565b80601f0160208091040260200160405190810160405280929190818152602001828054610ee990615a14565b8015610f365780601f10610f0b57610100808354040283529160200191610f36565b820191906000526020600020905b815481529060010190602001808311610f1957829003601f168201915b5050509183525050600382015460209091019060ff166004811115610f5d57610f5d615339565b6004811115610f6e57610f6e615339565b81526020016004820154815260200160058201548152602001600682016040518060600160405290816000820154815260200160018201548152602001600282015481525050815260200160098201548152602001600a820160009054906101000a900460ff166004811115610fe657610fe6615339565b6004811115610ff757610ff7615339565b81526040805160a081018252600b8401805460ff808216845261010090910481161515602084810191909152600c87015494840194909452600d860154939094019391929091606084019116600481111561105457611054615339565b600481111561106557611065615339565b815260029190910154610100900460ff161515602091820152908252600e83015490820152600f820154604082015260109091015460609091015292915050565b6110ae613314565b6001600160a01b0381166110d45760405162461bcd60e51b8152600401610d89906159c6565b601580546001600160a01b0319166001600160a01b0392909216919091179055565b60008181526003602081905260408220600a015460ff169081600481111561112057611120615339565b141580156111405750600481600481111561113d5761113d615339565b14155b801561115e5750600281600481111561115b5761115b615339565b14155b1561116c5750600092915050565b60155460405163374b9cc160e11b8152600481018590526000916001600160a01b031690636e97398290602401602060405180830381865afa1580156111b6573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906111da9190615a4e565b6016549091506000906001600160a01b031615611263576016546040516317afabf760e21b8152600481018790526001600160a01b0390911690635ebeafdc90602401602060405180830381865afa15801561123a573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061125e9190615a4e565b611266565b60005b9050808211611276576000611280565b6112808183615a7d565b95945050505050565b600061129483613779565b90508060090154821115806112a95750428211155b156112d7576009810154604051638abef46360e01b8152610d89918491600401918252602082015260400190565b6009810182905560405182815283907f8d0f6a4cfd7921441f1ba0ab1151bdf313da035f42337d403b6e756e9d67ef6d906020015b60405180910390a2505050565b6000611323613341565b600061132e85613819565b600086815260056020908152604080832033845290915290208054919250906001600160a01b031661137c57604051637645942160e01b815233600482015260248101879052604401610d89565b600281015460ff16156113ab57604051631b07e6b360e31b815260048101879052336024820152604401610d89565b81600901544211156113e05760098201546040516302a07ebf60e31b8152610d89918891600401918252602082015260400190565b6016546001600160a01b03166114095760405163359b36d560e01b815260040160405180910390fd5b62015180816001015461141c9190615a90565b42111561145957856201518082600101546114379190615a90565b6040516302a07ebf60e31b815260048101929092526024820152604401610d89565b600b820154610100900460ff16156114e05760408051606081018252600684015481526007840154602082015260088401549181019190915261149c908561384b565b6114e057600682015460078301548551602087015160405163c92bbbb160e01b81526004810194909452602484019290925260448301526064820152608401610d89565b6014546001600160a01b0316156115a9576000863387428860000151896020015160405160200161151696959493929190615aa3565b60408051601f198184030181529082905280516020909101206014546343b3e2eb60e01b83529092506001600160a01b0316906343b3e2eb906115639033908b908b908790600401615af6565b6020604051808303816000875af1158015611582573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906115a69190615b2e565b50505b60028101805460ff191660011790556115c233876138de565b600e820180549060006115d483615b4b565b9091555050601654604080516060810182528651815260208088015190820152868201518183015260048086015460038701549351636aead59160e11b81526000956001600160a01b03169463d5d5ab229461163e948e9433948f94919260ff9092169101615b64565b6020604051808303816000875af115801561165d573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906116819190615a4e565b60008881526007602090815260408083203380855292529182902083905590519192509088907f30bd2a1da314becc79ac913f35a1ffbeb59f76eaa3c9cacd2f18644badc13d39906116d6908a904290615bd3565b60405180910390a3925050506116eb60018055565b9392505050565b60008281526005602090815260408083206001600160a01b038516845290915281206002015460ff1661174a5760405163f2c7c6c160e01b81526001600160a01b038316600482015260248101849052604401610d89565b5060008281526007602090815260408083206001600160a01b03851684529091529020545b92915050565b6000828152600860205260408120546013548110801561179f57506017546001600160a01b031615155b156116eb57601754604051631d699f5760e21b81526001600160a01b03858116600483015260009216906375a67d5c90602401602060405180830381865afa1580156117ef573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906118139190615a4e565b90506012548110156118255760135491505b509392505050565b6000611837613341565b61185285604001516118488561336b565b87608001516139b2565b600061185e86846134f3565b601554604051634115427b60e01b81529192506001600160a01b031690634115427b906118959084908890339089906004016159ef565b600060405180830381600087803b1580156118af57600080fd5b505af11580156118c3573d6000803e3d6000fd5b505050506118d18186613a35565b9050610e6260018055565b6118e4614d98565b6000828152600a6020908152604091829020825160c080820185528254825260018301546001600160a01b031693820193909352835192830184526002820180549194929392850192918290829061193b90615a14565b80601f016020809104026020016040519081016040528092919081815260200182805461196790615a14565b80156119b45780601f10611989576101008083540402835291602001916119b4565b820191906000526020600020905b81548152906001019060200180831161199757829003601f168201915b5050509183525050600182015460209091019060ff1660048111156119db576119db615339565b60048111156119ec576119ec615339565b815260028201546020808301919091526003830154604080840191909152600480850154606080860191909152825160a08101845260058701805460ff808216845261010090910481161515968301969096526006880154948201949094526007870154608090960195909491850192911690811115611a6e57611a6e615339565b6004811115611a7f57611a7f615339565b81526002919091015460ff6101009091048116151560209283015291909252928452600a8501549084015250600b8301546040830152600c90920154909116151560609091015292915050565b600082815260036020526040812060175482918291600b909101906001600160a01b0316611b175760018101546002909101546000945090159250610100900460ff16159050611c25565b601754604051631d699f5760e21b81526001600160a01b0387811660048301529091169081906375a67d5c90602401602060405180830381865afa158015611b63573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190611b879190615a4e565b600183015460028401549196508610159450610100900460ff161580611c205750600282015460405163093cbed560e01b81526001600160a01b0383169163093cbed591611bdf918a9160ff90911690600401615be6565b602060405180830381865afa158015611bfc573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190611c209190615b2e565b925050505b9250925092565b6000611c36613341565b6000611c4183613819565b60018101549091506001600160a01b03163314611c7357604051633733be5960e21b8152336004820152602401610d89565b6003600a82015460ff166004811115611c8e57611c8e615339565b14158015611cb557506004600a82015460ff166004811115611cb257611cb2615339565b14155b8015611cda57506002600a82015460ff166004811115611cd757611cd7615339565b14155b15611cfb5760405163fdc9c05160e01b815260048101849052602401610d89565b6000611d0684613b59565b905080600003611d2c57604051632d924c8b60e01b815260048101859052602401610d89565b9150505b611d3960018055565b919050565b611d46613341565b6000611d5183613ce4565b6000848152600e60205260409020549091508015611d8c57604051637136adcd60e11b81526004810185905260248101829052604401610d89565b60068201544210611dc05760068201546040516302a07ebf60e31b8152600060048201526024810191909152604401610d89565b611dca8484613a35565b5050611dd560018055565b5050565b6000611de3613341565b6000611dee83613819565b905080600901544211611e245760098101546040516302a07ebf60e31b8152610d89918591600401918252602082015260400190565b6003600a82015460ff166004811115611e3f57611e3f615339565b1480611e6357506002600a82015460ff166004811115611e6157611e61615339565b145b80611e8657506004600a82015460ff166004811115611e8457611e84615339565b145b15611e95576000915050611d30565b611ea0816003613d6f565b827f26e873fd14c5453d456aa20c929456ac909a1f33f90961617f3f3982d309792342604051611ed291815260200190565b60405180910390a2611ee383613b59565b506001915050611d3960018055565b6000611efc613341565b6000611f1185846706f05b59d3b2000061342d565b905080341015611f3c57604051622f087f60ea1b815234600482015260248101829052604401610d89565b6000611f4886346134f3565b60155460405163774b41cf60e11b8152600481018390529192506001600160a01b03169063ee96839e9034906024016000604051808303818588803b158015611f9057600080fd5b505af1158015611fa4573d6000803e3d6000fd5b5050505050611fb48186866136a3565b925050506116eb60018055565b611fc9613314565b611fd36000613e89565b565b6000611fdf613341565b611ffa83604001516706f05b59d3b2000085608001516139b2565b600061200684346134f3565b60155460405163774b41cf60e11b8152600481018390529192506001600160a01b03169063ee96839e9034906024016000604051808303818588803b15801561204e57600080fd5b505af1158015612062573d6000803e3d6000fd5b50505050506120718184613a35565b905061176f60018055565b6000612086613341565b612099876120938461336b565b866139b2565b60006120ab338b8b8b8b8b8b8b613ed9565b6015549091506001600160a01b0316632389ecf18285336120cc8c8e615c0c565b6040518563ffffffff1660e01b81526004016120eb94939291906159ef565b600060405180830381600087803b15801561210557600080fd5b505af1158015612119573d6000803e3d6000fd5b50505050336001600160a01b0316817fdd36ea137f5bc626217c017c1a16ba06296baa9a12089dec591179f30651ec4a8b8b8960405161215b93929190615c23565b60405180910390a3905061216e60018055565b98975050505050505050565b612182613341565b6000818152600560209081526040808320338452909152902080546001600160a01b031615806121b65750600281015460ff165b156121dd57604051637645942160e01b815233600482015260248101839052604401610d89565b6121e98233600061416c565b506121f360018055565b50565b6121fe613341565b600061220982613819565b60018101549091506001600160a01b0316331461223b57604051633733be5960e21b8152336004820152602401610d89565b6000828152600660205260409020541561226b57604051630106a07f60e11b815260048101839052602401610d89565b6000600a82015460ff16600481111561228657612286615339565b146122a757604051632df3979160e01b815260048101839052602401610d89565b6122b2816004613d6f565b817f58716386e17644e69ff7358e3317a395f4523fcd0fb9cc227ee68d117ebbfbfc426040516122e491815260200190565b60405180910390a26122f582613b59565b50506121f360018055565b600061230a613341565b61231d866706f05b59d3b20000856139b2565b60006123298688615c0c565b90508034101561235457604051622f087f60ea1b815234600482015260248101829052604401610d89565b6000612366338b8b8b8b8b8b8b613ed9565b601554604051635d75365960e01b8152600481018390529192506001600160a01b031690635d7536599034906024016000604051808303818588803b1580156123ae57600080fd5b505af11580156123c2573d6000803e3d6000fd5b5050505050336001600160a01b0316817fdd36ea137f5bc626217c017c1a16ba06296baa9a12089dec591179f30651ec4a8b8b8960405161240593929190615c23565b60405180910390a391505061241960018055565b979650505050505050565b600061242e613341565b6000828152600d60205260408120805490910361246157604051634b4d882760e11b815260048101849052602401610d89565b60018101546000818152600a60205260409020600c015460ff161561249c57604051633625215360e21b815260048101829052602401610d89565b6040805160808101825260058401548152600684015460208201526007840154918101919091526008830154606082015260098301545b81606001518110156126015760008260200151826124f19190615c0c565b83516124fd9190615a90565b90504281111561250d5750612601565b600083604001518261251f9190615a90565b9050428111156125b25760006125628688600201604051806060016040529081600082015481526020016001820154815260200160028201548152505084614357565b905080897f1268be513200be7d49b089a38b11e7c265cf40f67782e3dc2d6eb839fb921aec8660405161259791815260200190565b60405180910390a3876125a981615b4b565b985050506125ed565b877fe9865b8c7ed6c4570f184d50c216bde44e3a56dd593f5033e14413afe5971df6846040516125e491815260200190565b60405180910390a25b826125f781615b4b565b93505050506124d3565b8360090154810361262f5760405163163578d160e01b81526004810187905260248101829052604401610d89565b60099093019290925550611d39905060018055565b600061264e613341565b600061265983613819565b90506000600a82015460ff16600481111561267657612676615339565b1415801561269d57506001600a82015460ff16600481111561269a5761269a615339565b14155b156126be57604051632df3979160e01b815260048101849052602401610d89565b80600901544211156126f35760098101546040516302a07ebf60e31b8152610d89918591600401918252602082015260400190565b60008381526005602090815260408083203384529091529020546001600160a01b03161561273d57604051633cab45f960e21b815233600482015260248101849052604401610d89565b3360009081526004602052604090205460031161276f57604051633eff331d60e21b8152336004820152602401610d89565b61277c81600b01336145f8565b6005810154600084815260066020526040902054106127b157604051632df3979160e01b815260048101849052602401610d89565b6127bb83336147b8565b60408051606081018252338082524260208084019182526000848601818152898252600583528682208583528352868220955186546001600160a01b03919091166001600160a01b0319918216178755935160018781019190915590516002909601805496151560ff19909716969096179095556004825285812080548087018255908252828220018990558881526006825294852080549485018155855284209092018054909216179055600a82015460ff16600481111561288057612880615339565b14801561289a575060008381526006602052604090205415155b156128aa576128aa816001613d6f565b604051428152339084907f6d8a5bca396094eff00461dbcb1d176cb6722fd703396e3740f4acfcd740ffc49060200160405180910390a350506001808055919050565b6128f5613341565b600061290083613779565b90508060040154821161293357600480820154604051632b5590c760e21b81529182018490526024820152604401610d89565b6000816005015482600e01541061294b57600061295f565b81600e0154826005015461295f9190615a7d565b9050600061298785838560040154876129789190615a7d565b6129829190615c0c565b61486e565b60048401859055604080518681526020810183905291925086917f38160e853744e01657560216faa2215813381a696767c1ff39dcdb3ab139764c910160405180910390a2505050611dd560018055565b6129e0613314565b6001600160a01b038116612a065760405162461bcd60e51b8152600401610d89906159c6565b601780546001600160a01b0319166001600160a01b0392909216919091179055565b60606000612a6b600f6000876004811115612a4557612a45615339565b6004811115612a5657612a56615339565b81526020019081526020016000208585614a13565b91509150935093915050565b6000612a8283613819565b60018101549091506001600160a01b03163314612ab457604051633733be5960e21b8152336004820152602401610d89565b60008381526006602052604090205415612ae457604051630106a07f60e11b815260048101849052602401610d89565b600083815260086020526040908190208390555183907f9613b5339eb4c7049b0ce42d2a6c30732b6594a730a786d89b3d5eafe8a74e149061130c9085815260200190565b6000612b33613341565b6000612b3e83613ce4565b600c8101805460ff19166001179055601554604051637c7cc10560e01b8152600481018690529192506001600160a01b031690637c7cc10590602401602060405180830381865afa158015612b97573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190612bbb9190615a4e565b91508115612c2f5760155460405163263e85b560e21b815260048101859052336024820152604481018490526001600160a01b03909116906398fa16d490606401600060405180830381600087803b158015612c1657600080fd5b505af1158015612c2a573d6000803e3d6000fd5b505050505b827f55468ddebce251685ac34a730dbdcef0b68719d769c74914843abf493b24deef83604051612c6191815260200190565b60405180910390a250611d3960018055565b612c7b613341565b6016546001600160a01b03163314612ca857604051633733be5960e21b8152336004820152602401610d89565b6000612cb382613819565b600f810180549192506000612cc783615b4b565b9190505550817fb7560d7503a9d775aa70514d9d32968a1ea04c45047697f629fc0e0d2f17043782600f0154604051612d0291815260200190565b60405180910390a2806005015481600f015410158015612d5c57506000600a82015460ff166004811115612d3857612d38615339565b1480612d5c57506001600a82015460ff166004811115612d5a57612d5a615339565b145b156121e957612d6c816002613d6f565b817ff9c405f91e34dcd1dc136cf6992ada4a8c24a2803e0fab7546364c64dac7ba2b426040516122e491815260200190565b612da6614dd4565b506000908152600d6020908152604091829020825160a08101845281548152600182015481840152835160608082018652600284015482526003840154828601526004840154828701528286019190915284516080808201875260058501548252600685015495820195909552600784015495810195909552600883015485820152810193909352600901549082015290565b612e796040518060e00160405280600081526020016000815260200160008152602001600081526020016000815260200160008152602001600081525090565b6000828152600a602052604081208054909103612eac57604051633eedee0f60e01b815260048101849052602401610d89565b6015546040516327599bc960e01b81526004810185905260009182916001600160a01b03909116906327599bc9906024016040805180830381865afa158015612ef9573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190612f1d9190615c44565b600a8501548652600b8501546020870152601554604051637c7cc10560e01b8152600481018990529294509092506001600160a01b031690637c7cc10590602401602060405180830381865afa158015612f7b573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190612f9f9190615a4e565b60408501526060840182905260808401819052600a8301548190612fc4908490615a7d565b612fce9190615a7d565b60a08501525050506000918252600b60205260409091205460c082015290565b6000818152600b6020908152604091829020805483518184028101840190945280845260609392830182828015610ce45760200282019190600052602060002090815481526020019060010190808311610cd05750505050509050919050565b613056613314565b6012829055601381905560408051838152602081018390527ffe26a2baee083c8075e64cdf9b091c1b622ddde59839bbc1c392ab965ab17dde910160405180910390a15050565b6130a5613341565b60006130b083613779565b9050816000036130d65760405163b893ef8b60e01b815260048101839052602401610d89565b60006130ec848484600401546129829190615c0c565b9050828260050160008282546131029190615a90565b90915550506005820154604080519182526020820183905285917f2b8f118c26da83c6a7ba242f643411538dd532880646c507de0a5cfa6f984531910160405180910390a25050611dd560018055565b6001600160a01b038316600090815260116020526040812060609190612a6b908585614a13565b613181613314565b6001600160a01b0381166131ab57604051631e4fbdf760e01b815260006004820152602401610d89565b6121f381613e89565b60006131be613341565b6131c782613819565b50600082815260066020526040902080545b80156132b957600084815260056020526040812081846131fa600186615a7d565b8154811061320a5761320a615c68565b60009182526020808320909101546001600160a01b031683528201929092526040019020600281015490915060ff1615801561325757506201518081600101546132549190615a90565b42115b156132a657613298858461326c600186615a7d565b8154811061327c5761327c615c68565b6000918252602090912001546001600160a01b0316600161416c565b836132a281615b4b565b9450505b50806132b181615c7e565b9150506131d9565b5050611d3960018055565b6132cc613314565b6001600160a01b0381166132f25760405162461bcd60e51b8152600401610d89906159c6565b601680546001600160a01b0319166001600160a01b0392909216919091179055565b6000546001600160a01b03163314611fd35760405163118cdaa760e01b8152336004820152602401610d89565b60026001540361336457604051633ee5aeb560e01b815260040160405180910390fd5b6002600155565b600080826001600160a01b031663313ce5676040518163ffffffff1660e01b8152600401602060405180830381865afa1580156133ac573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906133d09190615c95565b905060128160ff1610613405576133e8601282615cb2565b6133f390600a615daf565b6116eb906706f05b59d3b20000615c0c565b613410816012615cb2565b61341b90600a615daf565b6116eb906706f05b59d3b20000615dbe565b600082606001516000148061344457506040830151155b8061346057506001836060015111801561346057506020830151155b1561347e57604051631b742d9d60e31b815260040160405180910390fd5b82604001518360200151600185606001516134999190615a7d565b6134a39190615c0c565b84516134af9190615a90565b6134b99190615a90565b6080850181905260408501516134d09184906139b2565b8260600151846060015185604001516134e99190615c0c565b610e629190615c0c565b6000826060015160000361351d5760405163b893ef8b60e01b815260006004820152602401610d89565b600060096000815461352e90615b4b565b91829055506000818152600a602052604090208181556001810180546001600160a01b031916331790558551919250908590600283019081906135719082615e26565b50602082015160018083018054909160ff199091169083600481111561359957613599615339565b021790555060408281015160028301556060808401516003840155608084015160048085019190915560a08501518051600586018054602084015115156101000261ffff1990911660ff90931692909217919091178155938101516006860155918201516007850180549394939192909160ff191690600190849081111561362357613623615339565b021790555060809190910151600290910180549115156101000261ff00199092169190911790555050600a810184905560208501516040808701519051339285927f9700079d967eb07e70df8dd7017b498276c44270f65268841e8d8714ac34b5ae926136939291908a90615c23565b60405180910390a3509392505050565b600080600c600081546136b590615b4b565b91829055506000818152600d60209081526040808320848155600181018a90558851600282015588830151600382015588820151600482015587516005820155878301805160068301558883015160078301556060808a01805160088501558c8752600e86529584902087905589519151955184519283529482019590955291820192909252929350913391889185917ffecee040aa117e51096bd8893e18f06f4e52cb785162e554d79221c85f03ac5c910160405180910390a450949350505050565b600061378482613819565b60018101549091506001600160a01b031633146137b657604051633733be5960e21b8152336004820152602401610d89565b6000600a82015460ff1660048111156137d1576137d1615339565b141580156137f857506001600a82015460ff1660048111156137f5576137f5615339565b14155b15611d3957604051632df3979160e01b815260048101839052602401610d89565b600081815260036020526040902080548214611d39576040516345e2cbed60e01b815260048101839052602401610d89565b80518251600091829161385e9190615ee5565b90506000836020015185602001516138769190615ee5565b905060006138848280615f0c565b61388e8480615f0c565b6138989190615f3c565b60408701519091506000906138ad9080615c0c565b905064e8d4a510006402de638a406138c58284615c0c565b6138cf9190615dbe565b90921115979650505050505050565b6001600160a01b0382166000908152600460205260408120905b81548110156139ac578282828154811061391457613914615c68565b90600052602060002001540361399a578154829061393490600190615a7d565b8154811061394457613944615c68565b906000526020600020015482828154811061396157613961615c68565b90600052602060002001819055508180548061397f5761397f615f64565b600190038181906000526020600020016000905590556139ac565b806139a481615b4b565b9150506138f8565b50505050565b818310156139dd57604051635239e93560e01b81526004810184905260248101839052604401610d89565b428111613a07576040516302a07ebf60e31b81526000600482015260248101829052604401610d89565b6015546001600160a01b0316613a3057604051630d96a74d60e21b815260040160405180910390fd5b505050565b6000828152600a6020526040812082516005820154600483015460029093019392613a609190615c0c565b613a6a9190615c0c565b601554604051637c7cc10560e01b8152600481018790529192506000916001600160a01b0390911690637c7cc10590602401602060405180830381865afa158015613ab9573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190613add9190615a4e565b905080821115613b0a576040516306211d1f60e21b81526004810183905260248101829052604401610d89565b60005b8451811015613b5157613b3e86868381518110613b2c57613b2c615c68565b60200260200101518660040154614357565b5080613b4981615b4b565b915050613b0d565b505050505050565b600080613b65836110f6565b905080600003613b785750600092915050565b60008381526003602052604090206001810154600a909101546001600160a01b039091169060029060ff166004811115613bb457613bb4615339565b03613c2b5760155460405163e816cc7f60e01b8152600481018690526001600160a01b038381166024830152604482018590529091169063e816cc7f90606401600060405180830381600087803b158015613c0e57600080fd5b505af1158015613c22573d6000803e3d6000fd5b50505050613c99565b601554604051630efaba0d60e01b8152600481018690526001600160a01b0383811660248301526044820185905290911690630efaba0d90606401600060405180830381600087803b158015613c8057600080fd5b505af1158015613c94573d6000803e3d6000fd5b505050505b806001600160a01b0316847f5a8841a3b2be9e8c07ef649de5939c166c5e617003f0c1e2eff026ab90dab1e884604051613cd591815260200190565b60405180910390a35092915050565b6000818152600a602052604081208054909103613d1757604051633eedee0f60e01b815260048101839052602401610d89565b60018101546001600160a01b03163314613d4657604051633733be5960e21b8152336004820152602401610d89565b600c81015460ff1615611d3957604051633625215360e21b815260048101839052602401610d89565b600a820154600090600f90829060ff166004811115613d9057613d90615339565b6004811115613da157613da1615339565b815260208082019290925260409081016000908120865482526010909352908120548254929350918390613dd790600190615a7d565b81548110613de757613de7615c68565b9060005260206000200154905080838381548110613e0757613e07615c68565b60009182526020808320909101929092558281526010909152604090208290558254839080613e3857613e38615f64565b60019003818190600052602060002001600090559055613e5c856000015485614b06565b600a8501805485919060ff19166001836004811115613e7d57613e7d615339565b02179055505050505050565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b600084600003613eff5760405163b893ef8b60e01b815260006004820152602401610d89565b6002805460009182613f1083615b4b565b919050559050604051806101a001604052808281526020018b6001600160a01b031681526020018a8152602001896004811115613f4f57613f4f615339565b815260200188815260200187815260200186815260200185815260200160006004811115613f7f57613f7f615339565b815260208082018690526000604080840182905260608401829052426080909401939093528481526003825282902083518155908301516001820180546001600160a01b0319166001600160a01b03909216919091179055908201516002820190613fea9082615e26565b50606082015160038201805460ff1916600183600481111561400e5761400e615339565b0217905550608082015160048083019190915560a0830151600583015560c0830151805160068401556020810151600784015560400151600883015560e08301516009830155610100830151600a830180549192909160ff191690600190849081111561407d5761407d615339565b02179055506101208201518051600b83018054602084015115156101000261ffff1990911660ff909316929092179190911781556040820151600c8401556060820151600d8401805460ff191660018360048111156140de576140de615339565b021790555060809190910151600290910180549115156101000261ff0019909216919091179055610140820151600e820155610160820151600f82015561018090910151601090910155614133816000614b06565b6001600160a01b038a16600090815260116020908152604082208054600181018255908352912001819055905098975050505050505050565b6000838152600360209081526040808320600583528184206001600160a01b0387168552909252822080546001600160a01b031916815560018101929092556002909101805460ff191690556141c283856138de565b6141cc8484614ba6565b6001600a82015460ff1660048111156141e7576141e7615339565b1480156142005750600084815260066020526040902054155b1561421057614210816000613d6f565b6014546001600160a01b03161561429a576014546040516324162f9d60e11b81526001600160a01b038581166004830152602482018790529091169063482c5f3a906044016020604051808303816000875af1158015614274573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906142989190615a4e565b505b6017546001600160a01b03161561430b57601754604051633da1c7fb60e01b81526001600160a01b03858116600483015290911690633da1c7fb90602401600060405180830381600087803b1580156142f257600080fd5b505af1158015614306573d6000803e3d6000fd5b505050505b826001600160a01b0316847f3aa3ca474eeae35e5e921185f6a96e95c1bb3ce75fac34942c5865440a2615e084604051614349911515815260200190565b60405180910390a350505050565b6000838152600a6020526040812060058101546004820154600283019184916143809190615c0c565b600184015483549192506144bb916001600160a01b039091169084906143a590615a14565b80601f01602080910402602001604051908101604052809291908181526020018280546143d190615a14565b801561441e5780601f106143f35761010080835404028352916020019161441e565b820191906000526020600020905b81548152906001019060200180831161440157829003601f168201915b505050506001860154600287015460038801546040805160a08101825260058b01805460ff808216845261010090910481161515602084015260068d01549383019390935260078c01549583169650939492938f938f93606084019116600481111561448c5761448c615339565b600481111561449d5761449d615339565b815260029190910154610100900460ff161515602090910152613ed9565b60155460405163705ce5ad60e01b8152600481018a905260248101839052604481018490529195506001600160a01b03169063705ce5ad90606401600060405180830381600087803b15801561451057600080fd5b505af1158015614524573d6000803e3d6000fd5b505050508083600b01600082825461453c9190615a90565b90915550506000878152600b60209081526040808320805460018181018355918552929093209091018690558482015491840154600285015491516001600160a01b039093169287927fdd36ea137f5bc626217c017c1a16ba06296baa9a12089dec591179f30651ec4a926145b99260ff90911691908b90615c23565b60405180910390a3604051849088907fc386f705c92c6b4702871a959e94c3cdf5a20516584652df6e39fd16131ca4f490600090a35050509392505050565b600182015415801561461457506002820154610100900460ff16155b1561461d575050565b6017546001600160a01b03166146465760405163ba330c3160e01b815260040160405180910390fd5b601754604051631d699f5760e21b81526001600160a01b0383811660048301529091169060009082906375a67d5c90602401602060405180830381865afa158015614695573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906146b99190615a4e565b905083600101548110156146ff5760018401546040516312d9b3ff60e01b81526001600160a01b0385166004820152602481018390526044810191909152606401610d89565b6002840154610100900460ff16801561478d5750600284015460405163093cbed560e01b81526001600160a01b0384169163093cbed59161474a91879160ff90911690600401615be6565b602060405180830381865afa158015614767573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061478b9190615b2e565b155b156139ac576002840154604051630ba43a4f60e31b8152610d8991859160ff90911690600401615be6565b60006147c48383611775565b9050806000036147d357505050565b6014546001600160a01b03166147fc5760405163318c702f60e01b815260040160405180910390fd5b601454604051632ba9100560e01b81526001600160a01b038481166004830152602482018690526044820184905290911690632ba9100590606401600060405180830381600087803b15801561485157600080fd5b505af1158015614865573d6000803e3d6000fd5b50505050505050565b601554604051635789fa2560e11b81526004810184905260009182916001600160a01b039091169063af13f44a90602401602060405180830381865afa1580156148bc573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906148e09190615f7a565b90506001600160a01b038116614982578234101561491957604051622f087f60ea1b815234600482015260248101849052604401610d89565b601554604051635d75365960e01b8152600481018690526001600160a01b0390911690635d7536599034906024016000604051808303818588803b15801561496057600080fd5b505af1158015614974573d6000803e3d6000fd5b50505050503491505061176f565b34156149a357604051632898910160e01b8152346004820152602401610d89565b601554604051632389ecf160e01b81526001600160a01b0390911690632389ecf1906149d99087908590339089906004016159ef565b600060405180830381600087803b1580156149f357600080fd5b505af1158015614a07573d6000803e3d6000fd5b50949695505050505050565b8254606090600081851015614a3157614a2c8583615a7d565b614a34565b60005b905083811115614a415750825b806001600160401b03811115614a5957614a59614f9a565b604051908082528060200260200182016040528015614a82578160200160208202803683370190505b50925060005b81811015614afc57868187614a9e600187615a7d565b614aa89190615a7d565b614ab29190615a7d565b81548110614ac257614ac2615c68565b9060005260206000200154848281518110614adf57614adf615c68565b602090810291909101015280614af481615b4b565b915050614a88565b5050935093915050565b600f6000826004811115614b1c57614b1c615339565b6004811115614b2d57614b2d615339565b8152602001908152602001600020805490506010600084815260200190815260200160002081905550600f6000826004811115614b6c57614b6c615339565b6004811115614b7d57614b7d615339565b815260208082019290925260400160009081208054600181018255908252919020019190915550565b6000828152600660205260408120905b81548110156139ac57826001600160a01b0316828281548110614bdb57614bdb615c68565b6000918252602090912001546001600160a01b031603614caa5781548290614c0590600190615a7d565b81548110614c1557614c15615c68565b9060005260206000200160009054906101000a90046001600160a01b0316828281548110614c4557614c45615c68565b9060005260206000200160006101000a8154816001600160a01b0302191690836001600160a01b0316021790555081805480614c8357614c83615f64565b600082815260209020810160001990810180546001600160a01b03191690550190556139ac565b80614cb481615b4b565b915050614bb6565b604051806101a001604052806000815260200160006001600160a01b031681526020016060815260200160006004811115614cf957614cf9615339565b81526020016000815260200160008152602001614d3060405180606001604052806000815260200160008152602001600081525090565b81526020016000815260200160006004811115614d4f57614d4f615339565b81526040805160a0810182526000808252602082810182905292820181905260608201819052608082015291019081526020016000815260200160008152602001600081525090565b6040805160c08101825260008082526020820152908101614db7614e4e565b815260200160008152602001600081526020016000151581525090565b6040518060a001604052806000815260200160008152602001614e1160405180606001604052806000815260200160008152602001600081525090565b8152602001614e416040518060800160405280600081526020016000815260200160008152602001600081525090565b8152602001600081525090565b6040805160c08101909152606081526020810160008152602001600081526020016000815260200160008152602001614eaf6040805160a0810182526000808252602082018190529181018290529060608201908152600060209091015290565b905290565b6001600160a01b03811681146121f357600080fd5b600060208284031215614edb57600080fd5b81356116eb81614eb4565b600081518084526020808501945080840160005b83811015614f1657815187529582019590820190600101614efa565b509495945050505050565b6020815260006116eb6020830184614ee6565b600060208284031215614f4657600080fd5b5035919050565b6020808252825182820181905260009190848201906040850190845b81811015614f8e5783516001600160a01b031683529284019291840191600101614f69565b50909695505050505050565b634e487b7160e01b600052604160045260246000fd5b604051601f8201601f191681016001600160401b0381118282101715614fd857614fd8614f9a565b604052919050565b600082601f830112614ff157600080fd5b81356001600160401b0381111561500a5761500a614f9a565b61501d601f8201601f1916602001614fb0565b81815284602083860101111561503257600080fd5b816020850160208301376000918101602001919091529392505050565b600581106121f357600080fd5b60ff811681146121f357600080fd5b80151581146121f357600080fd5b600060a0828403121561508b57600080fd5b60405160a081018181106001600160401b03821117156150ad576150ad614f9a565b60405290508082356150be8161505c565b815260208301356150ce8161506b565b60208201526040838101359082015260608301356150eb8161504f565b606082015260808301356150fe8161506b565b6080919091015292915050565b6000610140828403121561511e57600080fd5b60405160c081016001600160401b03828210818311171561514157615141614f9a565b81604052829350843591508082111561515957600080fd5b5061516685828601614fe0565b82525060208301356151778161504f565b806020830152506040830135604082015260608301356060820152608083013560808201526151a98460a08501615079565b60a08201525092915050565b6000606082840312156151c757600080fd5b604051606081018181106001600160401b03821117156151e9576151e9614f9a565b80604052508091508235815260208301356020820152604083013560408201525092915050565b60006080828403121561522257600080fd5b604051608081018181106001600160401b038211171561524457615244614f9a565b8060405250809150823581526020830135602082015260408301356040820152606083013560608201525092915050565b600080600080610120858703121561528c57600080fd5b84356001600160401b038111156152a257600080fd5b6152ae8782880161510b565b9450506152be86602087016151b5565b92506152cd8660808701615210565b91506101008501356152de81614eb4565b939692955090935050565b60005b838110156153045781810151838201526020016152ec565b50506000910152565b600081518084526153258160208601602086016152e9565b601f01601f19169290920160200192915050565b634e487b7160e01b600052602160045260246000fd5b600581106121f357634e487b7160e01b600052602160045260246000fd5b6153768161534f565b9052565b60ff81511682526020810151151560208301526040810151604083015260608101516153a58161534f565b60608301526080908101511515910152565b6020815281516020820152600060208301516153de60408401826001600160a01b03169052565b5060408301516102608060608501526153fb61028085018361530d565b9150606085015161540f608086018261536d565b50608085015160a085015260a085015160c085015260c085015161544a60e08601828051825260208082015190830152604090810151910152565b5060e08501516101408181870152610100870151915061016061546f8188018461536d565b61012088015192506101806154868189018561537a565b918801516102208801528701516102408701529095015193019290925250919050565b600080604083850312156154bc57600080fd5b50508035926020909101359150565b600080600060a084860312156154e057600080fd5b8335925060208401356001600160401b038111156154fd57600080fd5b61550986828701614fe0565b92505061551985604086016151b5565b90509250925092565b6000806040838503121561553557600080fd5b82359150602083013561554781614eb4565b809150509250929050565b600082601f83011261556357600080fd5b813560206001600160401b0382111561557e5761557e614f9a565b61558c818360051b01614fb0565b828152606092830285018201928282019190878511156155ab57600080fd5b8387015b858110156155ce576155c189826151b5565b84529284019281016155af565b5090979650505050505050565b600080600080608085870312156155f157600080fd5b84356001600160401b038082111561560857600080fd5b6156148883890161510b565b9550602087013591508082111561562a57600080fd5b5061563787828801615552565b935050604085013561564881614eb4565b9396929550929360600135925050565b602081528151602082015260018060a01b0360208301511660408201526000604083015160c0606084015280516101408060e086015261569c61022086018361530d565b915060208301516156ac8161534f565b6101008601526040830151610120860152606083015190850152608082015161016085015260a090910151906156e661018085018361537a565b60608501516080850152608085015160a085015260a08501519150610e6260c085018315159052565b6000806040838503121561572257600080fd5b8235915060208301356001600160401b0381111561573f57600080fd5b61574b85828601615552565b9150509250929050565b6000806000610100848603121561576b57600080fd5b83356001600160401b0381111561578157600080fd5b61578d8682870161510b565b93505061579d85602086016151b5565b91506155198560808601615210565b600080604083850312156157bf57600080fd5b82356001600160401b03808211156157d657600080fd5b6157e28683870161510b565b935060208501359150808211156157f857600080fd5b5061574b85828601615552565b6000806000806000806000806101c0898b03121561582257600080fd5b88356001600160401b0381111561583857600080fd5b6158448b828c01614fe0565b98505060208901356158558161504f565b965060408901359550606089013594506158728a60808b016151b5565b935060e089013592506158898a6101008b01615079565b91506101a089013561589a81614eb4565b809150509295985092959890939650565b60008060008060008060006101a0888a0312156158c757600080fd5b87356001600160401b038111156158dd57600080fd5b6158e98a828b01614fe0565b97505060208801356158fa8161504f565b955060408801359450606088013593506159178960808a016151b5565b925060e0880135915061592e896101008a01615079565b905092959891949750929550565b60008060006060848603121561595157600080fd5b833561595c8161504f565b95602085013595506040909401359392505050565b6040815260006159846040830185614ee6565b90508260208301529392505050565b602081016159a08361534f565b91905290565b6000806000606084860312156159bb57600080fd5b833561595c81614eb4565b6020808252600f908201526e496e76616c6964206164647265737360881b604082015260600190565b9384526001600160a01b03928316602085015291166040830152606082015260800190565b600181811c90821680615a2857607f821691505b602082108103615a4857634e487b7160e01b600052602260045260246000fd5b50919050565b600060208284031215615a6057600080fd5b5051919050565b634e487b7160e01b600052601160045260246000fd5b8181038181111561176f5761176f615a67565b8082018082111561176f5761176f615a67565b8681526bffffffffffffffffffffffff198660601b16602082015260008551615ad3816034850160208a016152e9565b603492019182019490945260548101929092526074820152609401949350505050565b60018060a01b0385168152836020820152608060408201526000615b1d608083018561530d565b905082606083015295945050505050565b600060208284031215615b4057600080fd5b81516116eb8161506b565b600060018201615b5d57615b5d615a67565b5060010190565b8681526001600160a01b038616602082015261010060408201819052600090615b8f8382018861530d565b8651606085015260208701516080850152604087015160a08501529150615bb39050565b8360c0830152615bc28361534f565b8260e0830152979650505050505050565b604081526000615984604083018561530d565b6001600160a01b038316815260408101615bff8361534f565b8260208301529392505050565b808202811582820484141761176f5761176f615a67565b60608101615c308561534f565b938152602081019290925260409091015290565b60008060408385031215615c5757600080fd5b505080516020909101519092909150565b634e487b7160e01b600052603260045260246000fd5b600081615c8d57615c8d615a67565b506000190190565b600060208284031215615ca757600080fd5b81516116eb8161505c565b60ff828116828216039081111561176f5761176f615a67565b600181815b80851115615d06578160001904821115615cec57615cec615a67565b80851615615cf957918102915b93841c9390800290615cd0565b509250929050565b600082615d1d5750600161176f565b81615d2a5750600061176f565b8160018114615d405760028114615d4a57615d66565b600191505061176f565b60ff841115615d5b57615d5b615a67565b50506001821b61176f565b5060208310610133831016604e8410600b8410161715615d89575081810a61176f565b615d938383615ccb565b8060001904821115615da757615da7615a67565b029392505050565b60006116eb60ff841683615d0e565b600082615ddb57634e487b7160e01b600052601260045260246000fd5b500490565b601f821115613a3057600081815260208120601f850160051c81016020861015615e075750805b601f850160051c820191505b81811015613b5157828155600101615e13565b81516001600160401b03811115615e3f57615e3f614f9a565b615e5381615e4d8454615a14565b84615de0565b602080601f831160018114615e885760008415615e705750858301515b600019600386901b1c1916600185901b178555613b51565b600085815260208120601f198616915b82811015615eb757888601518255948401946001909101908401615e98565b5085821015615ed55787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b8181036000831280158383131683831282161715615f0557615f05615a67565b5092915050565b80820260008212600160ff1b84141615615f2857615f28615a67565b818105831482151761176f5761176f615a67565b8082018281126000831280158216821582161715615f5c57615f5c615a67565b505092915050565b634e487b7160e01b600052603160045260246000fd5b600060208284031215615f8c57600080fd5b81516116eb81614eb456fea264697066735822122013c2d1431a2992bac02712af718f2ba65ab5ebb67482730ee64292d7d595854c64736f6c63430008140033";
 
 type TaskManagerConstructorParams =
   | [signer?: Signer]
@@ -20,6 +20,22 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "constructor",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "submissionId",
+        type: "uint256",
+      },
+    ],
+    name: "AlreadyStaked",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -58,6 +74,54 @@ const _abi = [
     name: "ConsensusNotReached",
     type: "error",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "submissionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timeRemaining",
+        type: "uint256",
+      },
+    ],
+    name: "DisputeTimeoutNotReached",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "DuplicateSubmission",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requested",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "available",
+        type: "uint256",
+      },
+    ],
+    name: "InsufficientBalance",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -85,6 +149,17 @@ const _abi = [
     name: "InvalidAddress",
     type: "error",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "margin",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidContestedMargin",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -96,6 +171,28 @@ const _abi = [
     name: "MaxVerifiersReached",
     type: "error",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "submissionId",
+        type: "uint256",
+      },
+    ],
+    name: "NotDisputed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "NothingToWithdraw",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -161,6 +258,22 @@ const _abi = [
     name: "SubmissionNotFound",
     type: "error",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "TransferFailed",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -183,6 +296,25 @@ const _abi = [
     name: "WorkerCannotVerifyOwnSubmission",
     type: "error",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "arbiter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "ArbiterUpdated",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -208,6 +340,19 @@ const _abi = [
     name: "ConsensusReached",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "margin",
+        type: "uint256",
+      },
+    ],
+    name: "ContestedMarginUpdated",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -227,6 +372,69 @@ const _abi = [
     name: "DisputeEscalated",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "submissionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "arbiter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "DisputeResolved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "EarningsCredited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "EarningsWithdrawn",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -271,6 +479,62 @@ const _abi = [
     name: "RewardDistributed",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "remainingSurplus",
+        type: "uint256",
+      },
+    ],
+    name: "SlashedStakeSurplusWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "submissionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "slashedAmount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "rewardPoolUsed",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "surplus",
+        type: "uint256",
+      },
+    ],
+    name: "SlashedStakesAllocated",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -346,6 +610,56 @@ const _abi = [
     name: "VerificationStaked",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "poolBalance",
+        type: "uint256",
+      },
+    ],
+    name: "VerifierRewardPoolFunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "poolBalance",
+        type: "uint256",
+      },
+    ],
+    name: "VerifierRewardPoolWithdrawn",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -397,6 +711,19 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "DISPUTE_RESOLUTION_TIMEOUT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "MAX_VERIFIERS",
@@ -462,6 +789,25 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "arbiters",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "bountyPoolAddress",
@@ -494,6 +840,19 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "contestedMargin",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -538,6 +897,11 @@ const _abi = [
         name: "bountyAmount",
         type: "uint256",
       },
+      {
+        internalType: "enum TaskCategory",
+        name: "category",
+        type: "uint8",
+      },
     ],
     name: "createSubmission",
     outputs: [
@@ -550,6 +914,25 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "disputedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -563,6 +946,32 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "fundVerifierRewardPool",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "getReservedBounty",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -652,6 +1061,11 @@ const _abi = [
             name: "rewardDistributed",
             type: "bool",
           },
+          {
+            internalType: "enum TaskCategory",
+            name: "category",
+            type: "uint8",
+          },
         ],
         internalType: "struct VerificationContract.Submission",
         name: "",
@@ -745,6 +1159,30 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasSubmitted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "owner",
@@ -758,6 +1196,25 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "pendingWithdrawals",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "renounceOwnership",
@@ -778,6 +1235,56 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "reservedBounty",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "submissionId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "resolveDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "submissionId",
+        type: "uint256",
+      },
+    ],
+    name: "resolveExpiredDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -791,6 +1298,24 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "arbiter",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "setArbiter",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -804,6 +1329,19 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "margin",
+        type: "uint256",
+      },
+    ],
+    name: "setContestedMargin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -830,6 +1368,19 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "slashedStakeSurplus",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -954,6 +1505,11 @@ const _abi = [
         name: "rewardDistributed",
         type: "bool",
       },
+      {
+        internalType: "enum TaskCategory",
+        name: "category",
+        type: "uint8",
+      },
     ],
     stateMutability: "view",
     type: "function",
@@ -1046,6 +1602,71 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "verifierRewardPool",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawSlashedStakeSurplus",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawVerifierRewardPool",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "withdrawable",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     stateMutability: "payable",
     type: "receive",
@@ -1053,7 +1674,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561001057600080fd5b50338061003757604051631e4fbdf760e01b81526000600482015260240160405180910390fd5b6100408161004a565b506001805561009a565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b61232d806100a96000396000f3fe6080604052600436106101c65760003560e01c806383d80a49116100f7578063bc3f931f11610095578063f2fde38b11610064578063f2fde38b146105c9578063f3b1a77c146105e9578063fc459034146105fc578063fc76473c1461061257600080fd5b8063bc3f931f1461051a578063bca125f014610571578063deb800f114610586578063e1f1c4a7146105b357600080fd5b8063a0ab486d116100d1578063a0ab486d14610431578063a56686d6146104a6578063ad73349e146104c6578063b090cb81146104fe57600080fd5b806383d80a49146103d35780638da5cb5b146103f35780639584660f1461041157600080fd5b80633e8686cc11610164578063676f927b1161013e578063676f927b14610351578063715018a6146103715780637a4516b9146103865780637f8ae7dd146103a657600080fd5b80633e8686cc146102e157806347f66cc91461030e57806366b174951461032e57600080fd5b806321c0e95d116101a057806321c0e95d14610251578063327d0a601461027157806334a042d8146102915780633947c5b0146102b157600080fd5b806309437837146101d25780631532de2b146101f45780631f54f7291461023157600080fd5b366101cd57005b600080fd5b3480156101de57600080fd5b506101f26101ed366004611c68565b610628565b005b34801561020057600080fd5b50600954610214906001600160a01b031681565b6040516001600160a01b0390911681526020015b60405180910390f35b34801561023d57600080fd5b50600854610214906001600160a01b031681565b34801561025d57600080fd5b506101f261026c366004611c68565b610689565b34801561027d57600080fd5b506101f261028c366004611c68565b6106e5565b34801561029d57600080fd5b50600754610214906001600160a01b031681565b3480156102bd57600080fd5b506102d16102cc366004611c83565b610741565b6040519015158152602001610228565b3480156102ed57600080fd5b506103016102fc366004611c83565b6108fa565b6040516102289190611d1a565b34801561031a57600080fd5b506101f2610329366004611c83565b610a81565b34801561033a57600080fd5b50610343600781565b604051908152602001610228565b34801561035d57600080fd5b506101f261036c366004611e96565b610cc0565b34801561037d57600080fd5b506101f2610e2e565b34801561039257600080fd5b506102146103a1366004611ef4565b610e42565b3480156103b257600080fd5b506103c66103c1366004611c83565b610e7a565b6040516102289190611f16565b3480156103df57600080fd5b506103436103ee366004611f63565b610ee6565b3480156103ff57600080fd5b506000546001600160a01b0316610214565b34801561041d57600080fd5b506101f261042c366004611c68565b6110dc565b34801561043d57600080fd5b5061048461044c366004612019565b600460209081526000928352604080842090915290825290208054600182015460029092015460ff8083169361010090930416919084565b6040805194151585529215156020850152918301526060820152608001610228565b3480156104b257600080fd5b50600a54610214906001600160a01b031681565b3480156104d257600080fd5b506104e66104e1366004611c83565b611138565b6040516102289c9b9a99989796959493929190612045565b34801561050a57600080fd5b5061034367016345785d8a000081565b34801561052657600080fd5b5061053a610535366004612019565b611253565b6040516102289190815115158152602080830151151590820152604080830151908201526060918201519181019190915260800190565b34801561057d57600080fd5b50610343600381565b34801561059257600080fd5b506103436105a1366004611c83565b60066020526000908152604090205481565b3480156105bf57600080fd5b5061034361271081565b3480156105d557600080fd5b506101f26105e4366004611c68565b6112d4565b6101f26105f7366004611c83565b61130f565b34801561060857600080fd5b5061034361012c81565b34801561061e57600080fd5b506103436103e881565b610630611516565b6001600160a01b03811661066757604051634726455360e11b81526001600160a01b03821660048201526024015b60405180910390fd5b600a80546001600160a01b0319166001600160a01b0392909216919091179055565b610691611516565b6001600160a01b0381166106c357604051634726455360e11b81526001600160a01b038216600482015260240161065e565b600780546001600160a01b0319166001600160a01b0392909216919091179055565b6106ed611516565b6001600160a01b03811661071f57604051634726455360e11b81526001600160a01b038216600482015260240161065e565b600980546001600160a01b0319166001600160a01b0392909216919091179055565b60008181526003602081815260408084208151610180810183528154815260018201549381019390935260028101546001600160a01b03169183019190915291820180548493916060840191610796906120e5565b80601f01602080910402602001604051908101604052809291908181526020018280546107c2906120e5565b801561080f5780601f106107e45761010080835404028352916020019161080f565b820191906000526020600020905b8154815290600101906020018083116107f257829003601f168201915b5050509183525050600482015460208083019190915260408051606080820183526005860154825260068601549382019390935260078501548183015290830152600883015491019060ff16600381111561086c5761086c611ce2565b600381111561087d5761087d611ce2565b815260098201546020820152600a8201546040820152600b8201546060820152600c8201546080820152600d9091015460ff16151560a090910152905060018160c0015160038111156108d2576108d2611ce2565b14806108f3575060028160c0015160038111156108f1576108f1611ce2565b145b9392505050565b610902611bbe565b6000828152600360208181526040928390208351610180810185528154815260018201549281019290925260028101546001600160a01b0316938201939093529082018054919291606084019190610959906120e5565b80601f0160208091040260200160405190810160405280929190818152602001828054610985906120e5565b80156109d25780601f106109a7576101008083540402835291602001916109d2565b820191906000526020600020905b8154815290600101906020018083116109b557829003601f168201915b5050509183525050600482015460208083019190915260408051606080820183526005860154825260068601549382019390935260078501548183015290830152600883015491019060ff166003811115610a2f57610a2f611ce2565b6003811115610a4057610a40611ce2565b815260098201546020820152600a8201546040820152600b8201546060820152600c8201546080820152600d9091015460ff16151560a09091015292915050565b610a89611543565b600081815260036020526040902080548214610abb576040516311be967760e01b81526004810183905260240161065e565b6001600882015460ff166003811115610ad657610ad6611ce2565b14158015610afd57506002600882015460ff166003811115610afa57610afa611ce2565b14155b15610b1e576040516315610a9d60e31b81526004810183905260240161065e565b600d81015460ff1615610b4757604051637b608be760e01b81526004810183905260240161065e565b600082815260066020526040812054610b609042612135565b905061012c811015610b9b5782610b798261012c612135565b604051635874ccef60e11b81526004810192909252602482015260440161065e565b600d8201805460ff19166001908117909155600883015460ff166003811115610bc657610bc6611ce2565b148015610bdd57506007546001600160a01b031615155b15610ca95760075460018301546002840154600c85015460405163f8f4645760e01b815260048101939093526001600160a01b03918216602484015260448301529091169063f8f4645790606401600060405180830381600087803b158015610c4557600080fd5b505af1158015610c59573d6000803e3d6000fd5b505050506002820154600c8301546040519081526001600160a01b039091169084907fab7542bafced3da2d8c881cb2dd1de859fac7c20d3650d2902ad389a64e088839060200160405180910390a35b610cb28361156d565b5050610cbd60018055565b50565b610cc8611543565b60008381526003602090815260408083206004835281842033855290925290912081548514610d0d576040516311be967760e01b81526004810186905260240161065e565b8060020154600003610d43576040516322df051360e11b81526000600482015267016345785d8a0000602482015260440161065e565b805460ff1615610d6f57604051631bdd6e5960e11b81523360048201526024810186905260440161065e565b8054600161ffff199091166101008615150217811782554290820155600b82018054906000610d9d83612148565b91905055508315610dc457600982018054906000610dba83612148565b9190505550610ddc565b600a82018054906000610dd683612148565b91905055505b6040518415158152339086907f7ae256270c354f1f830c52697713782ce51539e910d41781cbb063a49c42c0f99060200160405180910390a3610e1e856118b6565b5050610e2960018055565b505050565b610e36611516565b610e406000611b6e565b565b60056020528160005260406000208181548110610e5e57600080fd5b6000918252602090912001546001600160a01b03169150829050565b600081815260056020908152604091829020805483518184028101840190945280845260609392830182828015610eda57602002820191906000526020600020905b81546001600160a01b03168152600190910190602001808311610ebc575b50505050509050919050565b6009546000906001600160a01b03163314610f165760405163d86ad9cf60e01b815233600482015260240161065e565b6002805460009182610f2783612148565b919050559050604051806101800160405280828152602001888152602001876001600160a01b0316815260200186815260200142815260200185815260200160006003811115610f7957610f79611ce2565b815260006020808301829052604080840183905260608085018490526080850189905260a0909401839052858352600380835292819020855181559185015160018301558401516002820180546001600160a01b0319166001600160a01b039092169190911790559183015190820190610ff390826121a7565b506080820151600482015560a0820151805160058301556020810151600683015560400151600782015560c082015160088201805460ff1916600183600381111561104057611040611ce2565b021790555060e08201516009820155610100820151600a820155610120820151600b820155610140820151600c82015561016090910151600d909101805460ff19169115159190911790556040516001600160a01b03871690889083907f9d9ec53e54f6385ec09428208c029bd27eb96263fc7b5da62db98ecc7d3f015c906110ca908a90612267565b60405180910390a49695505050505050565b6110e4611516565b6001600160a01b03811661111657604051634726455360e11b81526001600160a01b038216600482015260240161065e565b600880546001600160a01b0319166001600160a01b0392909216919091179055565b60036020819052600091825260409091208054600182015460028301549383018054929491936001600160a01b0390921692611173906120e5565b80601f016020809104026020016040519081016040528092919081815260200182805461119f906120e5565b80156111ec5780601f106111c1576101008083540402835291602001916111ec565b820191906000526020600020905b8154815290600101906020018083116111cf57829003601f168201915b50505050600483015460408051606081018252600586015481526006860154602082015260078601549181019190915260088501546009860154600a870154600b880154600c890154600d909901549798959794965060ff9384169592949193909291168c565b6040805160808082018352600080835260208084018290528385018290526060938401829052868252600481528482206001600160a01b038716835281529084902084519283018552805460ff8082161515855261010090910416151591830191909152600181015493820193909352600290920154908201525b92915050565b6112dc611516565b6001600160a01b03811661130657604051631e4fbdf760e01b81526000600482015260240161065e565b610cbd81611b6e565b611317611543565b600081815260036020526040902080548214611349576040516311be967760e01b81526004810183905260240161065e565b6000600882015460ff16600381111561136457611364611ce2565b1415801561138b57506003600882015460ff16600381111561138857611388611ce2565b14155b156113ab57604051625a2f6960e91b81526004810183905260240161065e565b600082815260046020908152604080832033845290915290205460ff16156113ef57604051631bdd6e5960e11b81523360048201526024810183905260440161065e565b60008281526005602052604090205460071161142157604051637c16836360e11b81526004810183905260240161065e565b60028101546001600160a01b03163303611450576040516328aa55f360e11b815233600482015260240161065e565b67016345785d8a0000341015611489576040516322df051360e11b815234600482015267016345785d8a0000602482015260440161065e565b6000828152600460209081526040808320338085529083528184203460029091018190558685526005845282852080546001810182559086529484902090940180546001600160a01b0319168217905590519283529184917f1cb6731e751af9a263790c7ed7a6b5e9aa62e45a3618c7bdbfc7994ff32fcce3910160405180910390a350610cbd60018055565b6000546001600160a01b03163314610e405760405163118cdaa760e01b815233600482015260240161065e565b60026001540361156657604051633ee5aeb560e01b815260040160405180910390fd5b6002600155565b60008181526003602090815260408083206005835281842080548351818602810186019094528084529194939091908301828280156115d557602002820191906000526020600020905b81546001600160a01b031681526001909101906020018083116115b7575b50505050509050600080600160038111156115f2576115f2611ce2565b600885015460ff16600381111561160b5761160b611ce2565b14905060005b835181101561187457600084828151811061162e5761162e61227a565b60209081029190910181015160008981526004835260408082206001600160a01b03841683529093529190912080549192509060ff1661166f575050611862565b805460ff6101009091041615158415151480156117e65760006127106103e8846002015461169d9190612290565b6116a791906122a7565b83600201546116b691906122c9565b90506116c281886122c9565b96506000846001600160a01b03168260405160006040518083038185875af1925050503d8060008114611711576040519150601f19603f3d011682016040523d82523d6000602084013e611716565b606091505b50509050806117675760405162461bcd60e51b815260206004820152601f60248201527f566572696669657220726577617264207472616e73666572206661696c656400604482015260640161065e565b6008546001600160a01b0316156117df57600854604051630420c84360e41b81526001600160a01b038781166004830152600160248301529091169063420c843090604401600060405180830381600087803b1580156117c657600080fd5b505af11580156117da573d6000803e3d6000fd5b505050505b505061185e565b6008546001600160a01b03161561185e57600854604051630420c84360e41b81526001600160a01b038581166004830152600060248301529091169063420c843090604401600060405180830381600087803b15801561184557600080fd5b505af1158015611859573d6000803e3d6000fd5b505050505b5050505b8061186c81612148565b915050611611565b50847f1261fc60efbc713a45ab737027cf0074a591cd295a66a6d4bc8fcdbb723884a7836040516118a791815260200190565b60405180910390a25050505050565b600081815260036020819052604090912060098101549091116119b25760088101805460ff19166001908117909155600083815260066020526040908190204290819055905184927fd7830f7c957a68cba7fcbaebb353384e5d4a2f633ff00a04a3ed57f34ddb896a92611929926122dc565b60405180910390a26008546001600160a01b0316156119ae57600854600282015460405163686745c360e01b81526001600160a01b0391821660048201526001602482015291169063686745c3906044015b600060405180830381600087803b15801561199557600080fd5b505af11580156119a9573d6000803e3d6000fd5b505050505b5050565b600381600a015410611b155760088101805460ff19166002908117909155600083815260066020526040908190204290819055905184927fd7830f7c957a68cba7fcbaebb353384e5d4a2f633ff00a04a3ed57f34ddb896a92611a14926122dc565b60405180910390a26008546001600160a01b031615611a9857600854600282015460405163686745c360e01b81526001600160a01b0391821660048201526000602482015291169063686745c390604401600060405180830381600087803b158015611a7f57600080fd5b505af1158015611a93573d6000803e3d6000fd5b505050505b600a546001600160a01b0316156119ae57600a54600282015460408051637a23654960e01b81526001600160a01b0392831660048201526024810191909152602060448201527f5375626d697373696f6e2072656a656374656420627920636f6e73656e7375736064820152911690637a2365499060840161197b565b600781600b0154106119ae5760088101805460ff19166003179055600b81015460405190815282907f366e7dd2cab048eaff199cb82b06661733696643e03b462e0b2635552275ed149060200160405180910390a25050565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b604051806101800160405280600081526020016000815260200160006001600160a01b031681526020016060815260200160008152602001611c1a60405180606001604052806000815260200160008152602001600081525090565b815260200160008152602001600081526020016000815260200160008152602001600081526020016000151581525090565b80356001600160a01b0381168114611c6357600080fd5b919050565b600060208284031215611c7a57600080fd5b6108f382611c4c565b600060208284031215611c9557600080fd5b5035919050565b6000815180845260005b81811015611cc257602081850181015186830182015201611ca6565b506000602082860101526020601f19601f83011685010191505092915050565b634e487b7160e01b600052602160045260246000fd5b60048110611d1657634e487b7160e01b600052602160045260246000fd5b9052565b60208152815160208201526020820151604082015260006040830151611d4b60608401826001600160a01b03169052565b5060608301516101c0806080850152611d686101e0850183611c9c565b9150608085015160a085015260a0850151611d9a60c08601828051825260208082015190830152604090810151910152565b5060c0850151610120611daf81870183611cf8565b60e08701516101408781019190915261010088015161016080890191909152918801516101808801528701516101a087015290950151151593019290925250919050565b634e487b7160e01b600052604160045260246000fd5b600082601f830112611e1a57600080fd5b813567ffffffffffffffff80821115611e3557611e35611df3565b604051601f8301601f19908116603f01168101908282118183101715611e5d57611e5d611df3565b81604052838152866020858801011115611e7657600080fd5b836020870160208301376000602085830101528094505050505092915050565b600080600060608486031215611eab57600080fd5b8335925060208401358015158114611ec257600080fd5b9150604084013567ffffffffffffffff811115611ede57600080fd5b611eea86828701611e09565b9150509250925092565b60008060408385031215611f0757600080fd5b50508035926020909101359150565b6020808252825182820181905260009190848201906040850190845b81811015611f575783516001600160a01b031683529284019291840191600101611f32565b50909695505050505050565b600080600080600085870360e0811215611f7c57600080fd5b86359550611f8c60208801611c4c565b9450604087013567ffffffffffffffff80821115611fa957600080fd5b611fb58a838b01611e09565b95506060605f1984011215611fc957600080fd5b60405192506060830191508282108183111715611fe857611fe8611df3565b506040908152606088013582526080880135602083015260a0880135908201529497939650919460c0013592915050565b6000806040838503121561202c57600080fd5b8235915061203c60208401611c4c565b90509250929050565b8c8152602081018c90526001600160a01b038b1660408201526101c0606082018190526000906120778382018d611c9c565b608084018c90528a5160a085015260208b015160c085015260408b015160e085015291506120a29050565b6120b0610100830189611cf8565b61012082019690965261014081019490945261016084019290925261018083015215156101a090910152979650505050505050565b600181811c908216806120f957607f821691505b60208210810361211957634e487b7160e01b600052602260045260246000fd5b50919050565b634e487b7160e01b600052601160045260246000fd5b818103818111156112ce576112ce61211f565b60006001820161215a5761215a61211f565b5060010190565b601f821115610e2957600081815260208120601f850160051c810160208610156121885750805b601f850160051c820191505b818110156119a957828155600101612194565b815167ffffffffffffffff8111156121c1576121c1611df3565b6121d5816121cf84546120e5565b84612161565b602080601f83116001811461220a57600084156121f25750858301515b600019600386901b1c1916600185901b1785556119a9565b600085815260208120601f198616915b828110156122395788860151825594840194600190910190840161221a565b50858210156122575787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b6020815260006108f36020830184611c9c565b634e487b7160e01b600052603260045260246000fd5b80820281158282048414176112ce576112ce61211f565b6000826122c457634e487b7160e01b600052601260045260246000fd5b500490565b808201808211156112ce576112ce61211f565b604081016122ea8285611cf8565b826020830152939250505056fea264697066735822122024c97e4acfda1238d56812d1496249be2a9b0da3d19f84321f0b8d0b46367a9364736f6c63430008140033";
+  "0x60806040523480156200001157600080fd5b5033806200003957604051631e4fbdf760e01b81526000600482015260240160405180910390fd5b62000044816200004f565b50600180556200009f565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6133df80620000af6000396000f3fe6080604052600436106102975760003560e01c80638da5cb5b1161015a578063c2d0ae88116100c1578063f2fde38b1161007a578063f2fde38b146108e9578063f3b1a77c14610909578063f3f437031461091c578063fc45903414610949578063fc76473c1461095f578063fd1464241461097557600080fd5b8063c2d0ae8814610828578063ce513b6f14610830578063d20b257f14610866578063d5d5ab2214610886578063deb800f1146108a6578063e1f1c4a7146108d357600080fd5b8063a57d380611610113578063a57d380614610716578063ad73349e14610751578063b090cb811461078a578063b324df48146107a6578063bc3f931f146107bc578063bca125f01461081357600080fd5b80638da5cb5b1461060d578063922b50251461062b5780639584660f1461064b578063a0ab486d1461066b578063a1c06879146106e0578063a56686d6146106f657600080fd5b806347f66cc9116101fe5780636adcf77d116101b75780636adcf77d1461052e578063715018a61461055b5780637a4516b9146105705780637bf2bb10146105905780637ced0917146105c05780637f8ae7dd146105e057600080fd5b806347f66cc91461045a57806357cee3fe1461047a5780635ebeafdc146104b557806366b17495146104e2578063676f927b146104f757806369b88cbf1461051757600080fd5b8063327d0a6011610250578063327d0a601461038857806334a042d8146103a857806334b25ee2146103c85780633947c5b0146103e85780633ccfd60b146104185780633e8686cc1461042d57600080fd5b806309437837146102ab5780631532de2b146102cb5780631f54f7291461030857806321c0e95d1461032857806324d679cf1461034857806326972b011461036857600080fd5b366102a6576102a461098b565b005b600080fd5b3480156102b757600080fd5b506102a46102c6366004612c1b565b6109e8565b3480156102d757600080fd5b506011546102eb906001600160a01b031681565b6040516001600160a01b0390911681526020015b60405180910390f35b34801561031457600080fd5b506010546102eb906001600160a01b031681565b34801561033457600080fd5b506102a4610343366004612c1b565b610a49565b34801561035457600080fd5b506102a4610363366004612c36565b610aa5565b34801561037457600080fd5b506102a4610383366004612c5f565b610b76565b34801561039457600080fd5b506102a46103a3366004612c1b565b610c10565b3480156103b457600080fd5b50600f546102eb906001600160a01b031681565b3480156103d457600080fd5b506102a46103e3366004612c92565b610c6c565b3480156103f457600080fd5b50610408610403366004612c36565b610cff565b60405190151581526020016102ff565b34801561042457600080fd5b506102a4610eea565b34801561043957600080fd5b5061044d610448366004612c36565b610fe8565b6040516102ff9190612d35565b34801561046657600080fd5b506102a4610475366004612c36565b6111a1565b34801561048657600080fd5b506104a7610495366004612c36565b60076020526000908152604090205481565b6040519081526020016102ff565b3480156104c157600080fd5b506104a76104d0366004612c36565b60009081526007602052604090205490565b3480156104ee57600080fd5b506104a7600781565b34801561050357600080fd5b506102a4610512366004612ef4565b61140a565b34801561052357600080fd5b506104a762093a8081565b34801561053a57600080fd5b506104a7610549366004612c36565b60096020526000908152604090205481565b34801561056757600080fd5b506102a46115b3565b34801561057c57600080fd5b506102eb61058b366004612f4b565b6115c5565b34801561059c57600080fd5b506104086105ab366004612c1b565b600a6020526000908152604090205460ff1681565b3480156105cc57600080fd5b506102a46105db366004612c36565b6115fd565b3480156105ec57600080fd5b506106006105fb366004612c36565b61174c565b6040516102ff9190612f6d565b34801561061957600080fd5b506000546001600160a01b03166102eb565b34801561063757600080fd5b506102a4610646366004612c36565b6117b8565b34801561065757600080fd5b506102a4610666366004612c1b565b61181f565b34801561067757600080fd5b506106be610686366004612fba565b600460209081526000928352604080842090915290825290208054600182015460029092015460ff8083169361010090930416919084565b60408051941515855292151560208501529183015260608201526080016102ff565b3480156106ec57600080fd5b506104a7600b5481565b34801561070257600080fd5b506012546102eb906001600160a01b031681565b34801561072257600080fd5b50610408610731366004612fba565b600860209081526000928352604080842090915290825290205460ff1681565b34801561075d57600080fd5b5061077161076c366004612c36565b61187b565b6040516102ff9d9c9b9a99989796959493929190612fdd565b34801561079657600080fd5b506104a767016345785d8a000081565b3480156107b257600080fd5b506104a7600d5481565b3480156107c857600080fd5b506107dc6107d7366004612fba565b6119a0565b6040516102ff9190815115158152602080830151151590820152604080830151908201526060918201519181019190915260800190565b34801561081f57600080fd5b506104a7600381565b6102a461098b565b34801561083c57600080fd5b506104a761084b366004612c1b565b6001600160a01b03166000908152600e602052604090205490565b34801561087257600080fd5b506102a4610881366004612c36565b611a21565b34801561089257600080fd5b506104a76108a136600461309c565b611b36565b3480156108b257600080fd5b506104a76108c1366004612c36565b60066020526000908152604090205481565b3480156108df57600080fd5b506104a761271081565b3480156108f557600080fd5b506102a4610904366004612c1b565b611e19565b6102a4610917366004612c36565b611e54565b34801561092857600080fd5b506104a7610937366004612c1b565b600e6020526000908152604090205481565b34801561095557600080fd5b506104a761012c81565b34801561096b57600080fd5b506104a76103e881565b34801561098157600080fd5b506104a7600c5481565b34600c600082825461099d919061315f565b9091555050600c5460405133917f64be619248638ae236904c7b9ade36edab7c113fba421487440be693871f59d3916109de91348252602082015260400190565b60405180910390a2565b6109f0612058565b6001600160a01b038116610a2757604051634726455360e11b81526001600160a01b03821660048201526024015b60405180910390fd5b601280546001600160a01b0319166001600160a01b0392909216919091179055565b610a51612058565b6001600160a01b038116610a8357604051634726455360e11b81526001600160a01b0382166004820152602401610a1e565b600f80546001600160a01b0319166001600160a01b0392909216919091179055565b610aad612085565b610ab6816120af565b600081815260096020526040812054610ad39062093a809061315f565b905080421015610b0a5781610ae84283613172565b604051635393528b60e11b815260048101929092526024820152604401610a1e565b6000828152600360205260409020600a810154600982015411610b2d848261211d565b604051811515815260009085907f8fdd4548a8481406b6e29c0d6f25e27cd72502f79f4adf409468502e7920dabc9060200160405180910390a3505050610b7360018055565b50565b610b7e612058565b6001600160a01b038216610bb057604051634726455360e11b81526001600160a01b0383166004820152602401610a1e565b6001600160a01b0382166000818152600a6020908152604091829020805460ff191685151590811790915591519182527f61a8b2faa6feff43ac96a02588ac0d3056c651056f001a83e9f057ac479f4ba591015b60405180910390a25050565b610c18612058565b6001600160a01b038116610c4a57604051634726455360e11b81526001600160a01b0382166004820152602401610a1e565b601180546001600160a01b0319166001600160a01b0392909216919091179055565b610c74612085565b336000908152600a602052604090205460ff16610ca65760405163d86ad9cf60e01b8152336004820152602401610a1e565b610caf826120af565b610cb9828261211d565b6040518115158152339083907f8fdd4548a8481406b6e29c0d6f25e27cd72502f79f4adf409468502e7920dabc9060200160405180910390a3610cfb60018055565b5050565b600081815260036020818152604080842081516101a0810183528154815260018201549381019390935260028101546001600160a01b03169183019190915291820180548493916060840191610d5490613185565b80601f0160208091040260200160405190810160405280929190818152602001828054610d8090613185565b8015610dcd5780601f10610da257610100808354040283529160200191610dcd565b820191906000526020600020905b815481529060010190602001808311610db057829003601f168201915b5050509183525050600482015460208083019190915260408051606080820183526005860154825260068601549382019390935260078501548183015290830152600883015491019060ff166003811115610e2a57610e2a612cfb565b6003811115610e3b57610e3b612cfb565b815260098201546020820152600a8201546040820152600b8201546060820152600c8201546080820152600d82015460ff808216151560a084015260c090920191610100909104166004811115610e9457610e94612cfb565b6004811115610ea557610ea5612cfb565b905250905060018160c001516003811115610ec257610ec2612cfb565b1480610ee3575060028160c001516003811115610ee157610ee1612cfb565b145b9392505050565b610ef2612085565b336000908152600e602052604081205490819003610f2557604051636e34ee0b60e11b8152336004820152602401610a1e565b336000818152600e60205260408082208290555190919083908381818185875af1925050503d8060008114610f76576040519150601f19603f3d011682016040523d82523d6000602084013e610f7b565b606091505b5050905080610fa657604051630e21dcbb60e11b815233600482015260248101839052604401610a1e565b60405182815233907f48dc35af7b45e2a81fffad55f6e2fafacdb1d3d0d50d24ebdc16324f5ba757f19060200160405180910390a25050610fe660018055565b565b610ff0612b5a565b60008281526003602081815260409283902083516101a0810185528154815260018201549281019290925260028101546001600160a01b031693820193909352908201805491929160608401919061104790613185565b80601f016020809104026020016040519081016040528092919081815260200182805461107390613185565b80156110c05780601f10611095576101008083540402835291602001916110c0565b820191906000526020600020905b8154815290600101906020018083116110a357829003601f168201915b5050509183525050600482015460208083019190915260408051606080820183526005860154825260068601549382019390935260078501548183015290830152600883015491019060ff16600381111561111d5761111d612cfb565b600381111561112e5761112e612cfb565b815260098201546020820152600a8201546040820152600b8201546060820152600c8201546080820152600d82015460ff808216151560a084015260c09092019161010090910416600481111561118757611187612cfb565b600481111561119857611198612cfb565b90525092915050565b6111a9612085565b6000818152600360205260409020805482146111db576040516311be967760e01b815260048101839052602401610a1e565b6001600882015460ff1660038111156111f6576111f6612cfb565b1415801561121d57506002600882015460ff16600381111561121a5761121a612cfb565b14155b1561123e576040516315610a9d60e31b815260048101839052602401610a1e565b600d81015460ff161561126757604051637b608be760e01b815260048101839052602401610a1e565b6000828152600660205260408120546112809042613172565b905061012c8110156112bb57826112998261012c613172565b604051635874ccef60e11b815260048101929092526024820152604401610a1e565b600d8201805460ff19166001908117909155600883015460ff1660038111156112e6576112e6612cfb565b1480156112fd5750600f546001600160a01b031615155b156113f657600c82015460018301546000908152600760205260408120805490919061132a908490613172565b9091555050600f5460018301546002840154600c85015460405163f8f4645760e01b815260048101939093526001600160a01b03918216602484015260448301529091169063f8f4645790606401600060405180830381600087803b15801561139257600080fd5b505af11580156113a6573d6000803e3d6000fd5b505050506002820154600c8301546040519081526001600160a01b039091169084907fab7542bafced3da2d8c881cb2dd1de859fac7c20d3650d2902ad389a64e088839060200160405180910390a35b6113ff8361250f565b5050610b7360018055565b611412612085565b60008381526003602090815260408083206004835281842033855290925290912081548514611457576040516311be967760e01b815260048101869052602401610a1e565b806002015460000361148d576040516322df051360e11b81526000600482015267016345785d8a00006024820152604401610a1e565b805460ff16156114b957604051631bdd6e5960e11b815233600482015260248101869052604401610a1e565b6000600883015460ff1660038111156114d4576114d4612cfb565b146114f457604051625a2f6960e91b815260048101869052602401610a1e565b8054600161ffff199091166101008615150217811782554290820155600b82018054906000611522836131bf565b919050555083156115495760098201805490600061153f836131bf565b9190505550611561565b600a8201805490600061155b836131bf565b91905055505b6040518415158152339086907f7ae256270c354f1f830c52697713782ce51539e910d41781cbb063a49c42c0f99060200160405180910390a36115a385612945565b50506115ae60018055565b505050565b6115bb612058565b610fe66000612a20565b600560205281600052604060002081815481106115e157600080fd5b6000918252602090912001546001600160a01b03169150829050565b611605612058565b61160d612085565b600c5481111561163e57600c5460405163cf47918160e01b8152610a1e918391600401918252602082015260400190565b80600c60008282546116509190613172565b9091555050600080546040516001600160a01b039091169083908381818185875af1925050503d80600081146116a2576040519150601f19603f3d011682016040523d82523d6000602084013e6116a7565b606091505b50509050806116e9576000546001600160a01b03165b604051630e21dcbb60e11b81526001600160a01b03909116600482015260248101839052604401610a1e565b6000546001600160a01b03166001600160a01b03167f69450b10871b77c394417b1b4d4e06f64c3c67c18fd2410d216e09d377415a2f83600c5460405161173a929190918252602082015260400190565b60405180910390a250610b7360018055565b6000818152600560209081526040918290208054835181840281018401909452808452606093928301828280156117ac57602002820191906000526020600020905b81546001600160a01b0316815260019091019060200180831161178e575b50505050509050919050565b6117c0612058565b600381106117e45760405163339e1e9d60e11b815260048101829052602401610a1e565b600b8190556040518181527fab664279f324126e7bd3c84518769134e9e11796c566b5ad3c6f36156473be329060200160405180910390a150565b611827612058565b6001600160a01b03811661185957604051634726455360e11b81526001600160a01b0382166004820152602401610a1e565b601080546001600160a01b0319166001600160a01b0392909216919091179055565b60036020819052600091825260409091208054600182015460028301549383018054929491936001600160a01b03909216926118b690613185565b80601f01602080910402602001604051908101604052809291908181526020018280546118e290613185565b801561192f5780601f106119045761010080835404028352916020019161192f565b820191906000526020600020905b81548152906001019060200180831161191257829003601f168201915b50505050600483015460408051606081018252600586015481526006860154602082015260078601549181019190915260088501546009860154600a870154600b880154600c890154600d909901549798959794965060ff938416959294919390929181811691610100909104168d565b6040805160808082018352600080835260208084018290528385018290526060938401829052868252600481528482206001600160a01b038716835281529084902084519283018552805460ff8082161515855261010090910416151591830191909152600181015493820193909352600290920154908201525b92915050565b611a29612058565b611a31612085565b600d54811115611a6257600d5460405163cf47918160e01b8152610a1e918391600401918252602082015260400190565b80600d6000828254611a749190613172565b9091555050600080546040516001600160a01b039091169083908381818185875af1925050503d8060008114611ac6576040519150601f19603f3d011682016040523d82523d6000602084013e611acb565b606091505b5050905080611ae5576000546001600160a01b03166116bd565b6000546001600160a01b03166001600160a01b03167fb76365f3542284b0e10a23972bb6741514767cbe3960bf13252e7e191f680ba183600d5460405161173a929190918252602082015260400190565b6011546000906001600160a01b03163314611b665760405163d86ad9cf60e01b8152336004820152602401610a1e565b60008781526008602090815260408083206001600160a01b038a16845290915290205460ff1615611bbc57604051630a51affb60e21b8152600481018890526001600160a01b0387166024820152604401610a1e565b60008781526008602090815260408083206001600160a01b038a1684529091528120805460ff19166001179055600280549082611bf8836131bf565b919050559050604051806101a00160405280828152602001898152602001886001600160a01b0316815260200187815260200142815260200186815260200160006003811115611c4a57611c4a612cfb565b8152602001600081526020016000815260200160008152602001858152602001600015158152602001846004811115611c8557611c85612cfb565b905260008281526003602081815260409283902084518155908401516001820155918301516002830180546001600160a01b0319166001600160a01b03909216919091179055606083015190820190611cde9082613226565b506080820151600482015560a0820151805160058301556020810151600683015560400151600782015560c082015160088201805460ff19166001836003811115611d2b57611d2b612cfb565b021790555060e0820151600982015561010080830151600a830155610120830151600b830155610140830151600c830155610160830151600d8301805491151560ff1983168117825561018086015193919261ff001990911661ffff199091161790836004811115611d9f57611d9f612cfb565b0217905550505060008881526007602052604081208054869290611dc490849061315f565b92505081905550866001600160a01b031688827f9d9ec53e54f6385ec09428208c029bd27eb96263fc7b5da62db98ecc7d3f015c89604051611e0691906132e6565b60405180910390a4979650505050505050565b611e21612058565b6001600160a01b038116611e4b57604051631e4fbdf760e01b815260006004820152602401610a1e565b610b7381612a20565b611e5c612085565b600081815260036020526040902080548214611e8e576040516311be967760e01b815260048101839052602401610a1e565b6000600882015460ff166003811115611ea957611ea9612cfb565b14611ec957604051625a2f6960e91b815260048101839052602401610a1e565b60008281526004602090815260408083203384529091529020805460ff1615611f0e57604051631bdd6e5960e11b815233600482015260248101849052604401610a1e565b600281015415611f3a5760405163664cdb5f60e01b815233600482015260248101849052604401610a1e565b600083815260056020526040902054600711611f6c57604051637c16836360e11b815260048101849052602401610a1e565b60028201546001600160a01b03163303611f9b576040516328aa55f360e11b8152336004820152602401610a1e565b67016345785d8a0000341015611fd4576040516322df051360e11b815234600482015267016345785d8a00006024820152604401610a1e565b346002820181905560008481526005602090815260408083208054600181018255908452919092200180546001600160a01b031916339081179091559051909185917f1cb6731e751af9a263790c7ed7a6b5e9aa62e45a3618c7bdbfc7994ff32fcce3916120459190815260200190565b60405180910390a35050610b7360018055565b6000546001600160a01b03163314610fe65760405163118cdaa760e01b8152336004820152602401610a1e565b6002600154036120a857604051633ee5aeb560e01b815260040160405180910390fd5b6002600155565b6000818152600360205260409020805482146120e1576040516311be967760e01b815260048101839052602401610a1e565b6003600882015460ff1660038111156120fc576120fc612cfb565b14610cfb5760405163bcdd74eb60e01b815260048101839052602401610a1e565b6000828152600360205260409020811561232e5760088101805460ff19166001908117909155600084815260066020526040908190204290819055905185927fd7830f7c957a68cba7fcbaebb353384e5d4a2f633ff00a04a3ed57f34ddb896a92612187926132f9565b60405180910390a26010546001600160a01b03161561221b576010546002820154600d8301546040516355c97cbf60e11b81526001600160a01b039384169363ab92f97e936121e89391169161010090910460ff1690600190600401613314565b600060405180830381600087803b15801561220257600080fd5b505af1158015612216573d6000803e3d6000fd5b505050505b6012546001600160a01b0316156122af57601254600282015460018301546040516324162f9d60e11b81526001600160a01b039283166004820152602481019190915291169063482c5f3a906044016020604051808303816000875af1158015612289573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906122ad9190613341565b505b6011546001600160a01b0316156115ae57601154600182015460405163c063d36f60e01b81526001600160a01b039092169163c063d36f916122f79160040190815260200190565b600060405180830381600087803b15801561231157600080fd5b505af1158015612325573d6000803e3d6000fd5b50505050505050565b60088101805460ff191660021790556000838152600660209081526040808320429055600c8401546001850154845260079092528220805491929091612375908490613172565b92505081905550827fd7830f7c957a68cba7fcbaebb353384e5d4a2f633ff00a04a3ed57f34ddb896a6002426040516123af9291906132f9565b60405180910390a26010546001600160a01b031615612443576010546002820154600d8301546040516355c97cbf60e11b81526001600160a01b039384169363ab92f97e936124109391169161010090910460ff1690600090600401613314565b600060405180830381600087803b15801561242a57600080fd5b505af115801561243e573d6000803e3d6000fd5b505050505b6012546001600160a01b0316156115ae576012546002820154600183015460405163573e123f60e11b81526001600160a01b039283166004820152602481019190915260606044820152602060648201527f5375626d697373696f6e2072656a656374656420627920636f6e73656e737573608482015291169063ae7c247e9060a4016020604051808303816000875af11580156124e5573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906125099190613341565b50505050565b600081815260036020908152604080832060058352818420805483518186028101860190945280845291949390919083018282801561257757602002820191906000526020600020905b81546001600160a01b03168152600190910190602001808311612559575b5050505050905060006001600381111561259357612593612cfb565b600884015460ff1660038111156125ac576125ac612cfb565b14905060008060005b8451811015612668576000878152600460205260408120865182908890859081106125e2576125e261335a565b6020908102919091018101516001600160a01b03168252810191909152604001600020805490915060ff166126175750612656565b805485151561010090910460ff1615150361264257600281015461263b908561315f565b9350612654565b6002810154612651908461315f565b92505b505b80612660816131bf565b9150506125b5565b506000806126768484612a70565b9150915060008060005b885181101561288a57600089828151811061269d5761269d61335a565b60209081029190910181015160008e81526004835260408082206001600160a01b03841683529093529190912080549192509060ff16612707576002810154156127005760028101546126f0908661315f565b9450612700828260020154612af2565b5050612878565b805460ff6101009091041615158a15151480156127fc5760008a83600201548a6127319190613370565b61273b9190613387565b9050612747818761315f565b9550808360020154612759919061315f565b612763908861315f565b965061277e84828560020154612779919061315f565b612af2565b6010546001600160a01b0316156127f657601054604051630420c84360e41b81526001600160a01b038681166004830152600160248301529091169063420c843090604401600060405180830381600087803b1580156127dd57600080fd5b505af11580156127f1573d6000803e3d6000fd5b505050505b50612874565b6010546001600160a01b03161561287457601054604051630420c84360e41b81526001600160a01b038581166004830152600060248301529091169063420c843090604401600060405180830381600087803b15801561285b57600080fd5b505af115801561286f573d6000803e3d6000fd5b505050505b5050505b80612882816131bf565b915050612680565b50600081612898858861315f565b6128a29190613172565b905080600d60008282546128b6919061315f565b909155505060408051878152602081018690529081018290528b907fa86a68c6f0bb9cba8185448c6bd42f29ec2adf69f2a9f15acd2b83ce59ede8b39060600160405180910390a28a7f1261fc60efbc713a45ab737027cf0074a591cd295a66a6d4bc8fcdbb723884a78460405161293091815260200190565b60405180910390a25050505050505050505050565b60008181526003602081905260409091206009810154600a8201549192909190821080156129735750600381105b1561297e5750505050565b6000818311612996576129918383613172565b6129a0565b6129a08284613172565b9050600b548111612a0d5760088401805460ff19166003179055600085815260096020908152604091829020429055600b860154915191825286917f366e7dd2cab048eaff199cb82b06661733696643e03b462e0b2635552275ed14910160405180910390a25050505050565b612a198583851161211d565b5050505050565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b60008080612710612a836103e887613370565b612a8d9190613387565b9050808410612aa157915060009050612aeb565b6000612aad8583613172565b9050600c548110612ac057600c54612ac2565b805b925082600c6000828254612ad69190613172565b90915550612ae69050838661315f565b935050505b9250929050565b6001600160a01b0382166000908152600e602052604081208054839290612b1a90849061315f565b90915550506040518181526001600160a01b038316907fd10ba912a205167341ec37c567bc6385ce219f1c9044ee190d82aa390171802090602001610c04565b604051806101a00160405280600081526020016000815260200160006001600160a01b031681526020016060815260200160008152602001612bb660405180606001604052806000815260200160008152602001600081525090565b8152602001600081526020016000815260200160008152602001600081526020016000815260200160001515815260200160006004811115612bfa57612bfa612cfb565b905290565b80356001600160a01b0381168114612c1657600080fd5b919050565b600060208284031215612c2d57600080fd5b610ee382612bff565b600060208284031215612c4857600080fd5b5035919050565b80358015158114612c1657600080fd5b60008060408385031215612c7257600080fd5b612c7b83612bff565b9150612c8960208401612c4f565b90509250929050565b60008060408385031215612ca557600080fd5b82359150612c8960208401612c4f565b6000815180845260005b81811015612cdb57602081850181015186830182015201612cbf565b506000602082860101526020601f19601f83011685010191505092915050565b634e487b7160e01b600052602160045260246000fd5b60048110612d2157612d21612cfb565b9052565b60058110612d2157612d21612cfb565b60208152815160208201526020820151604082015260006040830151612d6660608401826001600160a01b03169052565b5060608301516101e0806080850152612d83610200850183612cb5565b9150608085015160a085015260a0850151612db560c08601828051825260208082015190830152604090810151910152565b5060c0850151610120612dca81870183612d11565b60e087015161014087810191909152610100880151610160808901919091529188015161018080890191909152908801516101a08801529087015115156101c08701528601519050612e1e82860182612d25565b5090949350505050565b634e487b7160e01b600052604160045260246000fd5b6040516060810167ffffffffffffffff81118282101715612e6157612e61612e28565b60405290565b600082601f830112612e7857600080fd5b813567ffffffffffffffff80821115612e9357612e93612e28565b604051601f8301601f19908116603f01168101908282118183101715612ebb57612ebb612e28565b81604052838152866020858801011115612ed457600080fd5b836020870160208301376000602085830101528094505050505092915050565b600080600060608486031215612f0957600080fd5b83359250612f1960208501612c4f565b9150604084013567ffffffffffffffff811115612f3557600080fd5b612f4186828701612e67565b9150509250925092565b60008060408385031215612f5e57600080fd5b50508035926020909101359150565b6020808252825182820181905260009190848201906040850190845b81811015612fae5783516001600160a01b031683529284019291840191600101612f89565b50909695505050505050565b60008060408385031215612fcd57600080fd5b82359150612c8960208401612bff565b8d8152602081018d90526001600160a01b038c1660408201526101e06060820181905260009061300f8382018e612cb5565b608084018d90528b5160a085015260208c015160c085015260408c015160e0850152915061303a9050565b61304861010083018a612d11565b876101208301528661014083015285610160830152846101808301528315156101a083015261307b6101c0830184612d25565b9e9d5050505050505050505050505050565b803560058110612c1657600080fd5b6000806000806000808688036101008112156130b757600080fd5b873596506130c760208901612bff565b9550604088013567ffffffffffffffff8111156130e357600080fd5b6130ef8a828b01612e67565b9550506060605f198201121561310457600080fd5b5061310d612e3e565b606088013581526080880135602082015260a08801356040820152925060c0870135915061313d60e0880161308d565b90509295509295509295565b634e487b7160e01b600052601160045260246000fd5b80820180821115611a1b57611a1b613149565b81810381811115611a1b57611a1b613149565b600181811c9082168061319957607f821691505b6020821081036131b957634e487b7160e01b600052602260045260246000fd5b50919050565b6000600182016131d1576131d1613149565b5060010190565b601f8211156115ae57600081815260208120601f850160051c810160208610156131ff5750805b601f850160051c820191505b8181101561321e5782815560010161320b565b505050505050565b815167ffffffffffffffff81111561324057613240612e28565b6132548161324e8454613185565b846131d8565b602080601f83116001811461328957600084156132715750858301515b600019600386901b1c1916600185901b17855561321e565b600085815260208120601f198616915b828110156132b857888601518255948401946001909101908401613299565b50858210156132d65787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b602081526000610ee36020830184612cb5565b604081016133078285612d11565b8260208301529392505050565b6001600160a01b0384168152606081016133316020830185612d25565b8215156040830152949350505050565b60006020828403121561335357600080fd5b5051919050565b634e487b7160e01b600052603260045260246000fd5b8082028115828204841417611a1b57611a1b613149565b6000826133a457634e487b7160e01b600052601260045260246000fd5b50049056fea2646970667358221220afe600669cdfa61fa90420463a378c918f8c2f2e619b420190f68f4bb9f369e264736f6c63430008140033";
 
 type VerificationContractConstructorParams =
   | [signer?: Signer]
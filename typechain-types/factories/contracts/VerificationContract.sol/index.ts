@@ -4,4 +4,5 @@
 export { IAntiFraud__factory } from "./IAntiFraud__factory";
 export { IBountyPool__factory } from "./IBountyPool__factory";
 export { IReputationContract__factory } from "./IReputationContract__factory";
+export { ITaskManager__factory } from "./ITaskManager__factory";
 export { VerificationContract__factory } from "./VerificationContract__factory";
@@ -1,8 +1,9 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as antiFraudSol from "./AntiFraud.sol";
+export * as bountyPoolSol from "./BountyPool.sol";
 export * as taskManagerSol from "./TaskManager.sol";
 export * as verificationContractSol from "./VerificationContract.sol";
-export { AntiFraud__factory } from "./AntiFraud__factory";
-export { BountyPool__factory } from "./BountyPool__factory";
+export * as mocks from "./mocks";
 export { ReputationContract__factory } from "./ReputationContract__factory";
@@ -0,0 +1,99 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockTaskManager,
+  MockTaskManagerInterface,
+} from "../../../contracts/mocks/MockTaskManager";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "recordVerifiedSubmission",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "verifiedCounts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b5061010b806100206000396000f3fe6080604052348015600f57600080fd5b506004361060325760003560e01c8063c063d36f146037578063d0ee47cd146048575b600080fd5b604660423660046097565b6077565b005b606560533660046097565b60006020819052908152604090205481565b60405190815260200160405180910390f35b6000818152602081905260408120805491608f8360af565b919050555050565b60006020828403121560a857600080fd5b5035919050565b60006001820160ce57634e487b7160e01b600052601160045260246000fd5b506001019056fea264697066735822122002939298b5ad755ca0dc733f7a1e2876b8a0749fe510d0a40dfa4fc259e9e5e964736f6c63430008140033";
+
+type MockTaskManagerConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockTaskManagerConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockTaskManager__factory extends ContractFactory {
+  constructor(...args: MockTaskManagerConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MockTaskManager & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockTaskManager__factory {
+    return super.connect(runner) as MockTaskManager__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockTaskManagerInterface {
+    return new Interface(_abi) as MockTaskManagerInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockTaskManager {
+    return new Contract(address, _abi, runner) as unknown as MockTaskManager;
+  }
+}
@@ -0,0 +1,123 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  Multicall3,
+  Multicall3Interface,
+} from "../../../contracts/mocks/Multicall3";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "CallFailed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "target",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "allowFailure",
+            type: "bool",
+          },
+          {
+            internalType: "bytes",
+            name: "callData",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Multicall3.Call3[]",
+        name: "calls",
+        type: "tuple[]",
+      },
+    ],
+    name: "aggregate3",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "success",
+            type: "bool",
+          },
+          {
+            internalType: "bytes",
+            name: "returnData",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Multicall3.Result[]",
+        name: "returnData",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b506104af806100206000396000f3fe60806040526004361061001e5760003560e01c806382ad56cb14610023575b600080fd5b610036610031366004610235565b61004c565b60405161004391906102aa565b60405180910390f35b60608167ffffffffffffffff81111561006757610067610356565b6040519080825280602002602001820160405280156100ad57816020015b6040805180820190915260008152606060208201528152602001906001900390816100855790505b50905060005b8281101561022e576000808585848181106100d0576100d061036c565b90506020028101906100e29190610382565b6100f09060208101906103a2565b6001600160a01b031686868581811061010b5761010b61036c565b905060200281019061011d9190610382565b61012b9060408101906103d2565b604051610139929190610420565b6000604051808303816000865af19150503d8060008114610176576040519150601f19603f3d011682016040523d82523d6000602084013e61017b565b606091505b5091509150811580156101c0575085858481811061019b5761019b61036c565b90506020028101906101ad9190610382565b6101be906040810190602001610430565b155b156101e5576040516307f3476960e31b81526004810184905260240160405180910390fd5b604051806040016040528083151581526020018281525084848151811061020e5761020e61036c565b60200260200101819052505050808061022690610452565b9150506100b3565b5092915050565b6000806020838503121561024857600080fd5b823567ffffffffffffffff8082111561026057600080fd5b818501915085601f83011261027457600080fd5b81358181111561028357600080fd5b8660208260051b850101111561029857600080fd5b60209290920196919550909350505050565b60006020808301818452808551808352604092508286019150828160051b8701018488016000805b8481101561034757898403603f1901865282518051151585528801518885018890528051888601819052835b8181101561031a578281018b0151878201606001528a016102fe565b508581016060908101859052978a0197601f909101601f19169095019094019350918701916001016102d2565b50919998505050505050505050565b634e487b7160e01b600052604160045260246000fd5b634e487b7160e01b600052603260045260246000fd5b60008235605e1983360301811261039857600080fd5b9190910192915050565b6000602082840312156103b457600080fd5b81356001600160a01b03811681146103cb57600080fd5b9392505050565b6000808335601e198436030181126103e957600080fd5b83018035915067ffffffffffffffff82111561040457600080fd5b60200191503681900382131561041957600080fd5b9250929050565b8183823760009101908152919050565b60006020828403121561044257600080fd5b813580151581146103cb57600080fd5b60006001820161047257634e487b7160e01b600052601160045260246000fd5b506001019056fea264697066735822122047f4296d9def3fcdd2a72f756832df4c2489ca6632bf9926c45bbe3e21ac239564736f6c63430008140033";
+
+type Multicall3ConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: Multicall3ConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class Multicall3__factory extends ContractFactory {
+  constructor(...args: Multicall3ConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      Multicall3 & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): Multicall3__factory {
+    return super.connect(runner) as Multicall3__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): Multicall3Interface {
+    return new Interface(_abi) as Multicall3Interface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): Multicall3 {
+    return new Contract(address, _abi, runner) as unknown as Multicall3;
+  }
+}
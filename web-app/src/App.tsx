@@ -2,10 +2,12 @@ import { useEffect } from 'react';
 import { Routes, Route, Link, useLocation } from 'react-router-dom';
 import { useDispatch } from 'react-redux';
 import { AppDispatch } from './store';
-import { connectWallet } from './store/slices/walletSlice';
+import { connectWallet, disconnect } from './store/slices/walletSlice';
+import { startLiveUpdates } from './store/liveUpdates';
 import { blockchainService } from './services/blockchain';
 import TaskFeedScreen from './screens/TaskFeedScreen';
 import TaskDetailScreen from './screens/TaskDetailScreen';
+import SubmitTaskScreen from './screens/SubmitTaskScreen';
 import CreateTaskScreen from './screens/CreateTaskScreen';
 import WalletScreen from './screens/WalletScreen';
 import ProfileScreen from './screens/ProfileScreen';
@@ -61,6 +63,34 @@ function App() {
     }).catch(console.error);
   }, [dispatch]);
 
+  useEffect(() => dispatch(startLiveUpdates()), [dispatch]);
+
+  useEffect(() => {
+    const ethereum = (window as any).ethereum;
+    if (!ethereum?.on) {
+      return;
+    }
+
+    // Reconnecting reloads the contracts, which moves event listeners to the new account or chain
+    const handleAccountsChanged = (accounts: string[]) => {
+      if (accounts.length === 0) {
+        dispatch(disconnect());
+      } else {
+        dispatch(connectWallet());
+      }
+    };
+    const handleChainChanged = () => {
+      dispatch(connectWallet());
+    };
+
+    ethereum.on('accountsChanged', handleAccountsChanged);
+    ethereum.on('chainChanged', handleChainChanged);
+    return () => {
+      ethereum.removeListener('accountsChanged', handleAccountsChanged);
+      ethereum.removeListener('chainChanged', handleChainChanged);
+    };
+  }, [dispatch]);
+
   return (
     <div className="app">
       <nav className="navbar">
@@ -107,6 +137,7 @@ function App() {
         <Routes>
           <Route path="/" element={<TaskFeedScreen />} />
           <Route path="/task/:taskId" element={<TaskDetailScreen />} />
+          <Route path="/task/:taskId/submit" element={<SubmitTaskScreen />} />
           <Route path="/create-task" element={<CreateTaskScreen />} />
           <Route path="/verification" element={<VerificationScreen />} />
           <Route path="/wallet" element={<WalletScreen />} />
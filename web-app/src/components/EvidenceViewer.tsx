@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { Verification } from '../store/slices/verificationSlice';
+import { ipfsService } from '../services/ipfs';
+import { locationService } from '../services/location';
+
+interface EvidenceViewerProps {
+  verification: Verification;
+}
+
+// Submissions are an IPFS directory holding the photos and a metadata.json that lists them
+export default function EvidenceViewer({ verification }: EvidenceViewerProps) {
+  const [metadata, setMetadata] = useState<Record<string, any> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMetadata(null);
+    setError(null);
+
+    fetch(ipfsService.getGatewayUrl(verification.ipfsHash, 'metadata.json'))
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`metadata.json not found (${response.status})`);
+        }
+        return response.json();
+      })
+      .then((data) => {
+        if (!cancelled) setMetadata(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message || 'Failed to load evidence');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [verification.ipfsHash]);
+
+  const { location, taskLocation } = verification;
+  const distance = locationService.calculateDistance(
+    location.latitude,
+    location.longitude,
+    taskLocation.latitude,
+    taskLocation.longitude
+  );
+  const insideGeofence = distance <= taskLocation.radius;
+  const photos: string[] = Array.isArray(metadata?.photos) ? metadata!.photos : [];
+  const details = Object.entries(metadata ?? {}).filter(
+    ([key, value]) => key !== 'photos' && (typeof value !== 'object' || value === null)
+  );
+
+  return (
+    <div className="evidence-viewer">
+      <div className="detail-section">
+        <label className="detail-label">Photos</label>
+        {error && (
+          <p className="detail-value">
+            {error}.{' '}
+            <a href={ipfsService.getGatewayUrl(verification.ipfsHash)} target="_blank" rel="noreferrer">
+              Open the submission on IPFS
+            </a>
+          </p>
+        )}
+        {!metadata && !error && <p className="detail-value">Loading evidence...</p>}
+        {metadata && photos.length === 0 && <p className="detail-value">No photos listed in metadata.json</p>}
+        <div className="evidence-photos">
+          {photos.map((name) => {
+            const url = ipfsService.getGatewayUrl(verification.ipfsHash, name);
+            return (
+              <a key={name} href={url} target="_blank" rel="noreferrer">
+                <img src={url} alt={name} />
+              </a>
+            );
+          })}
+        </div>
+      </div>
+
+      {details.length > 0 && (
+        <div className="detail-section">
+          <label className="detail-label">Metadata</label>
+          {details.map(([key, value]) => (
+            <div key={key} className="created-task">
+              <span>{key}</span>
+              <span>{String(value)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="detail-section">
+        <label className="detail-label">Location</label>
+        <p className="detail-value">
+          {insideGeofence ? '✓ ' : '✗ '}
+          {Math.round(distance)} m from the task location (geofence {taskLocation.radius} m)
+        </p>
+        <a
+          href={`https://www.openstreetmap.org/?mlat=${location.latitude}&mlon=${location.longitude}#map=17/${location.latitude}/${location.longitude}`}
+          target="_blank"
+          rel="noreferrer"
+        >
+          View on map ({location.latitude.toFixed(5)}, {location.longitude.toFixed(5)})
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -28,6 +28,10 @@ export default function TaskCard({ task, onClick }: TaskCardProps) {
         </div>
       </div>
 
+      <p className="task-progress">
+        {task.verifiedCount}/{task.maxWorkers} verified
+      </p>
+
       {task.distance !== undefined && (
         <p className="task-distance">{task.distance.toFixed(0)}m away</p>
       )}
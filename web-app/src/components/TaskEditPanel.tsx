@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '../store';
+import {
+  CreatedTask,
+  extendTaskDeadline,
+  increaseTaskBounty,
+  addTaskWorkerSlots,
+} from '../store/slices/taskSlice';
+
+interface TaskEditPanelProps {
+  task: CreatedTask;
+  address: string;
+}
+
+export default function TaskEditPanel({ task, address }: TaskEditPanelProps) {
+  const dispatch = useDispatch<AppDispatch>();
+  const [deadline, setDeadline] = useState(
+    new Date(Math.max(task.deadline * 1000, Date.now()) + 24 * 60 * 60 * 1000).toISOString().slice(0, 16)
+  );
+  const [bountyAmount, setBountyAmount] = useState(task.bountyAmount);
+  const [additionalWorkers, setAdditionalWorkers] = useState('1');
+  const [saving, setSaving] = useState(false);
+
+  // Same funding rules as TaskManager: a bounty increase covers slots without a submission,
+  // new slots are funded at the current bounty
+  const openSlots = task.maxWorkers - task.submissionCount;
+  const bountyTopUp = Math.max(parseFloat(bountyAmount || '0') - parseFloat(task.bountyAmount), 0) * openSlots;
+  const slotsTopUp = parseFloat(task.bountyAmount) * (parseInt(additionalWorkers) || 0);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setSaving(true);
+    try {
+      await action();
+      alert(success);
+    } catch (error: any) {
+      alert(error || 'Failed to update task');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExtendDeadline = () => {
+    const newDeadline = Math.floor(new Date(deadline).getTime() / 1000);
+    if (newDeadline <= task.deadline || newDeadline <= Date.now() / 1000) {
+      alert('The new deadline must be later than the current one and in the future');
+      return;
+    }
+    run(
+      () => dispatch(extendTaskDeadline({ taskId: task.id, deadline: newDeadline, address })).unwrap(),
+      'Deadline extended.'
+    );
+  };
+
+  const handleIncreaseBounty = () => {
+    if (!(parseFloat(bountyAmount) > parseFloat(task.bountyAmount))) {
+      alert(`The new bounty must be higher than ${task.bountyAmount} ${task.currency}`);
+      return;
+    }
+    run(
+      () => dispatch(increaseTaskBounty({ taskId: task.id, bountyAmount, currency: task.currency, address })).unwrap(),
+      'Bounty increased.'
+    );
+  };
+
+  const handleAddWorkerSlots = () => {
+    const count = parseInt(additionalWorkers);
+    if (!(count > 0)) {
+      alert('Add at least one worker slot');
+      return;
+    }
+    run(
+      () => dispatch(addTaskWorkerSlots({ taskId: task.id, additionalWorkers: count, address })).unwrap(),
+      'Worker slots added.'
+    );
+  };
+
+  return (
+    <div className="task-edit-panel">
+      <div className="form-group">
+        <label className="form-label">Deadline</label>
+        <div className="task-edit-row">
+          <input
+            type="datetime-local"
+            className="form-input"
+            value={deadline}
+            onChange={(e) => setDeadline(e.target.value)}
+          />
+          <button className="reclaim-button" onClick={handleExtendDeadline} disabled={saving}>
+            Extend
+          </button>
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label className="form-label">Bounty per Worker ({task.currency})</label>
+        <div className="task-edit-row">
+          <input
+            type="number"
+            className="form-input"
+            value={bountyAmount}
+            onChange={(e) => setBountyAmount(e.target.value)}
+            min={task.bountyAmount}
+            step="0.01"
+          />
+          <button className="reclaim-button" onClick={handleIncreaseBounty} disabled={saving}>
+            Raise
+          </button>
+        </div>
+        <small>Top-up: {bountyTopUp.toFixed(2)} {task.currency} for {openSlots} open slot(s)</small>
+      </div>
+
+      <div className="form-group">
+        <label className="form-label">Add Worker Slots (currently {task.maxWorkers})</label>
+        <div className="task-edit-row">
+          <input
+            type="number"
+            className="form-input"
+            value={additionalWorkers}
+            onChange={(e) => setAdditionalWorkers(e.target.value)}
+            min="1"
+          />
+          <button className="reclaim-button" onClick={handleAddWorkerSlots} disabled={saving}>
+            Add
+          </button>
+        </div>
+        <small>Top-up: {slotsTopUp.toFixed(2)} {task.currency}</small>
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState, AppDispatch } from '../store';
-import { createTask } from '../store/slices/taskSlice';
+import { createTask, createSchedule } from '../store/slices/taskSlice';
 import { locationService } from '../services/location';
+import { StablecoinSymbol } from '../services/minipay';
 import './Screen.css';
 
 export default function CreateTaskScreen() {
@@ -15,7 +16,7 @@ export default function CreateTaskScreen() {
     description: '',
     category: '0',
     bountyAmount: '0.5',
-    currency: 'CELO', // 'CELO' or 'cUSD'
+    currency: 'CELO', // 'CELO', 'cUSD', 'USDC' or 'USDT'
     maxWorkers: '5',
     latitude: '',
     longitude: '',
@@ -24,7 +25,10 @@ export default function CreateTaskScreen() {
     photoCount: '1',
     requiresLocation: true,
     minReputation: '0',
-    requiredBadge: '0',
+    requiredBadge: '', // '' = no badge required
+    repeat: false,
+    repeatIntervalDays: '7',
+    occurrences: '4',
   });
   
   const [, setUseCurrentLocation] = useState(false);
@@ -59,7 +63,7 @@ export default function CreateTaskScreen() {
     }
 
     if (parseFloat(formData.bountyAmount) < 0.5) {
-      alert('Minimum bounty is 0.5 cUSD');
+      alert(`Minimum bounty is 0.5 ${formData.currency}`);
       return;
     }
 
@@ -69,29 +73,51 @@ export default function CreateTaskScreen() {
       return;
     }
 
+    const occurrences = parseInt(formData.occurrences);
+    if (formData.repeat && !(occurrences >= 2)) {
+      alert('A repeating task needs at least 2 occurrences');
+      return;
+    }
+
+    const taskParams = {
+      description: formData.description,
+      category: parseInt(formData.category),
+      bountyAmount: formData.bountyAmount,
+      currency: formData.currency as 'CELO' | StablecoinSymbol,
+      maxWorkers: parseInt(formData.maxWorkers),
+      location: {
+        latitude: parseFloat(formData.latitude),
+        longitude: parseFloat(formData.longitude),
+        radius: parseInt(formData.radius),
+      },
+      deadline: deadline,
+      requirements: {
+        photoCount: parseInt(formData.photoCount),
+        requiresLocation: formData.requiresLocation,
+        minReputation: parseInt(formData.minReputation),
+        requiredBadge: formData.requiredBadge === '' ? 0 : parseInt(formData.requiredBadge),
+        requiresBadge: formData.requiredBadge !== '',
+      },
+    };
+
     setCreating(true);
     try {
-      const result = await dispatch(createTask({
-        description: formData.description,
-        category: parseInt(formData.category),
-        bountyAmount: formData.bountyAmount,
-        currency: formData.currency as 'CELO' | 'cUSD',
-        maxWorkers: parseInt(formData.maxWorkers),
-        location: {
-          latitude: parseFloat(formData.latitude),
-          longitude: parseFloat(formData.longitude),
-          radius: parseInt(formData.radius),
-        },
-        deadline: deadline,
-        requirements: {
-          photoCount: parseInt(formData.photoCount),
-          requiresLocation: formData.requiresLocation,
-          minReputation: parseInt(formData.minReputation),
-          requiredBadge: parseInt(formData.requiredBadge),
-        },
-      })).unwrap();
+      if (formData.repeat) {
+        const result = await dispatch(createSchedule({
+          ...taskParams,
+          intervalDays: parseInt(formData.repeatIntervalDays),
+          occurrences,
+        })).unwrap();
+
+        alert(
+          `Schedule created! Schedule ID: ${result.scheduleId}\n${result.budget} ${result.currency} funds ${occurrences} occurrences.` +
+            (result.firstTaskId === null ? '' : `\nFirst occurrence: Task ID ${result.firstTaskId}`)
+        );
+      } else {
+        const result = await dispatch(createTask(taskParams)).unwrap();
 
-      alert(`Task created successfully! Task ID: ${result.taskId}`);
+        alert(`Task created successfully! Task ID: ${result.taskId}\n${result.escrowedAmount} ${result.currency} held in escrow.`);
+      }
       navigate('/');
     } catch (error: any) {
       // Provide more helpful error messages
@@ -112,6 +138,9 @@ export default function CreateTaskScreen() {
     }
   };
 
+  const occurrenceEscrow = (parseFloat(formData.bountyAmount || '0') * parseInt(formData.maxWorkers || '0')) || 0;
+  const totalEscrow = formData.repeat ? occurrenceEscrow * (parseInt(formData.occurrences) || 0) : occurrenceEscrow;
+
   const categories = [
     'Photo Verification',
     'Location Check',
@@ -170,7 +199,7 @@ export default function CreateTaskScreen() {
 
         <div className="form-row">
           <div className="form-group">
-            <label className="form-label">Bounty Amount *</label>
+            <label className="form-label">Bounty per Worker *</label>
             <input
               type="number"
               className="form-input"
@@ -193,8 +222,10 @@ export default function CreateTaskScreen() {
             >
               <option value="CELO">CELO</option>
               <option value="cUSD">cUSD</option>
+              <option value="USDC">USDC</option>
+              <option value="USDT">USDT</option>
             </select>
-            <small>Choose payment currency</small>
+            <small>Stablecoin bounties need a one-time token approval before the task is created</small>
           </div>
 
           <div className="form-group">
@@ -289,6 +320,22 @@ export default function CreateTaskScreen() {
               />
             </div>
           </div>
+          <div className="form-group">
+            <label className="form-label">Required Badge</label>
+            <select
+              className="form-input"
+              value={formData.requiredBadge}
+              onChange={(e) => setFormData({ ...formData, requiredBadge: e.target.value })}
+            >
+              <option value="">No badge required</option>
+              {categories.map((cat, idx) => (
+                <option key={idx} value={idx}>
+                  {cat}
+                </option>
+              ))}
+            </select>
+            <small>Only workers holding this category badge can claim the task</small>
+          </div>
           <label className="checkbox-label">
             <input
               type="checkbox"
@@ -299,12 +346,62 @@ export default function CreateTaskScreen() {
           </label>
         </div>
 
+        <div className="form-group">
+          <label className="form-label">Repeat</label>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={formData.repeat}
+              onChange={(e) => setFormData({ ...formData, repeat: e.target.checked })}
+            />
+            Repeat this task on a schedule
+          </label>
+          {formData.repeat && (
+            <>
+              <div className="form-row">
+                <div className="form-group">
+                  <label className="form-label">Every</label>
+                  <select
+                    className="form-input"
+                    value={formData.repeatIntervalDays}
+                    onChange={(e) => setFormData({ ...formData, repeatIntervalDays: e.target.value })}
+                  >
+                    <option value="1">Day</option>
+                    <option value="7">Week</option>
+                    <option value="14">2 Weeks</option>
+                    <option value="28">4 Weeks</option>
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label className="form-label">Occurrences</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    value={formData.occurrences}
+                    onChange={(e) => setFormData({ ...formData, occurrences: e.target.value })}
+                    min="2"
+                    max="52"
+                  />
+                </div>
+              </div>
+              <small>
+                The first occurrence opens now and runs until the deadline above; each later one opens one interval
+                after the previous and stays open just as long. All {formData.occurrences} occurrences are funded up
+                front ({occurrenceEscrow} {formData.currency} each) and anyone can open due ones, so keepers can run
+                the schedule for you.
+              </small>
+            </>
+          )}
+        </div>
+
         <button
           type="submit"
           className="claim-button"
           disabled={creating}
         >
-          {creating ? 'Creating Task...' : `Create Task (${formData.bountyAmount} ${formData.currency})`}
+          {creating
+            ? 'Creating Task...'
+            : `${formData.repeat ? 'Create Schedule' : 'Create Task'} (${totalEscrow} ${formData.currency} escrow)`}
         </button>
       </form>
     </div>
@@ -1,7 +1,17 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState, AppDispatch } from '../store';
 import { fetchReputation, fetchActiveTasks } from '../store/slices/userSlice';
+import {
+  fetchCreatedTasks,
+  fetchCreatedCampaigns,
+  reclaimTaskFunds,
+  cancelTask,
+  closeCampaign,
+  CreatedTask,
+  CreatedCampaign,
+} from '../store/slices/taskSlice';
+import TaskEditPanel from '../components/TaskEditPanel';
 import './Screen.css';
 
 export default function ProfileScreen() {
@@ -10,14 +20,64 @@ export default function ProfileScreen() {
   const { reputation, tasksCompleted, tasksRejected, totalEarnings, badges, activeTasks, loading } = useSelector(
     (state: RootState) => state.user
   );
+  const { createdTasks, createdCampaigns } = useSelector((state: RootState) => state.tasks);
+  const [pendingTaskId, setPendingTaskId] = useState<number | null>(null);
+  const [editingTaskId, setEditingTaskId] = useState<number | null>(null);
+  const [pendingCampaignId, setPendingCampaignId] = useState<number | null>(null);
 
   useEffect(() => {
     if (address) {
       dispatch(fetchReputation(address));
       dispatch(fetchActiveTasks(address));
+      dispatch(fetchCreatedTasks(address));
+      dispatch(fetchCreatedCampaigns(address));
     }
   }, [address, dispatch]);
 
+  const handleReclaim = async (task: CreatedTask) => {
+    if (!address) return;
+    setPendingTaskId(task.id);
+    try {
+      await dispatch(reclaimTaskFunds({ taskId: task.id, awaitingExpiry: task.awaitingExpiry, address })).unwrap();
+      // Only refunds of tasks that did not complete carry the platform fee
+      alert(
+        task.status === 2
+          ? 'Leftover funds reclaimed.'
+          : 'Funds reclaimed. A 5% platform fee was deducted from the refund.'
+      );
+    } catch (error: any) {
+      alert(error || 'Failed to reclaim funds');
+    } finally {
+      setPendingTaskId(null);
+    }
+  };
+
+  const handleCancel = async (task: CreatedTask) => {
+    if (!address) return;
+    if (!window.confirm('Cancel this task? The escrow is refunded minus a 5% platform fee.')) return;
+    setPendingTaskId(task.id);
+    try {
+      await dispatch(cancelTask({ taskId: task.id, address })).unwrap();
+    } catch (error: any) {
+      alert(error || 'Failed to cancel task');
+    } finally {
+      setPendingTaskId(null);
+    }
+  };
+
+  const handleCloseCampaign = async (campaign: CreatedCampaign) => {
+    if (!address) return;
+    if (!window.confirm('Close this campaign? Its unallocated budget is refunded minus a 5% platform fee.')) return;
+    setPendingCampaignId(campaign.id);
+    try {
+      await dispatch(closeCampaign({ campaignId: campaign.id, address })).unwrap();
+    } catch (error: any) {
+      alert(error || 'Failed to close campaign');
+    } finally {
+      setPendingCampaignId(null);
+    }
+  };
+
   const successRate =
     tasksCompleted + tasksRejected > 0
       ? ((tasksCompleted / (tasksCompleted + tasksRejected)) * 100).toFixed(1)
@@ -32,6 +92,7 @@ export default function ProfileScreen() {
   }
 
   const categories = ['Photo Verification', 'Location Check', 'Survey', 'Price Monitoring', 'Business Hours'];
+  const statusLabels = ['Active', 'In Progress', 'Completed', 'Expired', 'Cancelled'];
 
   return (
     <div className="screen">
@@ -78,6 +139,86 @@ export default function ProfileScreen() {
         </div>
       )}
 
+      {createdCampaigns.length > 0 && (
+        <div className="detail-section">
+          <label className="detail-label">My Campaigns</label>
+          {createdCampaigns.map((campaign) => (
+            <div key={campaign.id} className="created-task">
+              <div>
+                <p className="detail-value">{campaign.description}</p>
+                <small>
+                  {campaign.closed ? 'Closed' : 'Open'} · {campaign.taskCount} location(s) ·{' '}
+                  {campaign.spent} of {campaign.budget} {campaign.currency} spent · {campaign.remaining}{' '}
+                  {campaign.currency} remaining
+                </small>
+              </div>
+              {!campaign.closed && (
+                <button
+                  className="reclaim-button"
+                  onClick={() => handleCloseCampaign(campaign)}
+                  disabled={pendingCampaignId === campaign.id}
+                >
+                  {pendingCampaignId === campaign.id ? 'Closing...' : 'Close Campaign'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {createdTasks.length > 0 && (
+        <div className="detail-section">
+          <label className="detail-label">My Tasks</label>
+          {createdTasks.map((task) => {
+            const canReclaim = task.awaitingExpiry || parseFloat(task.reclaimable) > 0;
+            const canCancel = task.status === 0 && !task.awaitingExpiry;
+            const canEdit = task.status === 0 || task.status === 1;
+
+            return (
+              <div key={task.id}>
+                <div className="created-task">
+                  <div>
+                    <p className="detail-value">{task.description}</p>
+                    <small>
+                      {task.awaitingExpiry ? 'Expired' : statusLabels[task.status]} · {task.escrowed} {task.currency} in escrow
+                    </small>
+                  </div>
+                  {canReclaim && (
+                    <button
+                      className="reclaim-button"
+                      onClick={() => handleReclaim(task)}
+                      disabled={pendingTaskId === task.id}
+                    >
+                      {pendingTaskId === task.id
+                        ? 'Reclaiming...'
+                        : task.status === 2 ? 'Reclaim Leftover Funds' : 'Expired — Reclaim Funds'}
+                    </button>
+                  )}
+                  {canCancel && (
+                    <button
+                      className="reclaim-button"
+                      onClick={() => handleCancel(task)}
+                      disabled={pendingTaskId === task.id}
+                    >
+                      {pendingTaskId === task.id ? 'Cancelling...' : 'Cancel Task'}
+                    </button>
+                  )}
+                  {canEdit && (
+                    <button
+                      className="reclaim-button"
+                      onClick={() => setEditingTaskId(editingTaskId === task.id ? null : task.id)}
+                    >
+                      {editingTaskId === task.id ? 'Close' : 'Edit'}
+                    </button>
+                  )}
+                </div>
+                {editingTaskId === task.id && address && <TaskEditPanel task={task} address={address} />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       <div className="detail-section">
         <label className="detail-label">Account</label>
         <p className="address-text">{address || 'Not connected'}</p>
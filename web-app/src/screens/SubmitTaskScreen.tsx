@@ -0,0 +1,268 @@
+import { useEffect, useRef, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState, AppDispatch } from '../store';
+import { submitTask } from '../store/slices/taskSlice';
+import { blockchainService } from '../services/blockchain';
+import { cameraService, PhotoData } from '../services/camera';
+import { locationService, LocationData } from '../services/location';
+import { ipfsService } from '../services/ipfs';
+import './Screen.css';
+
+type SubmitStep = 'idle' | 'uploading' | 'submitting';
+
+export default function SubmitTaskScreen() {
+  const { taskId } = useParams<{ taskId: string }>();
+  const navigate = useNavigate();
+  const dispatch = useDispatch<AppDispatch>();
+  const { address } = useSelector((state: RootState) => state.wallet);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [task, setTask] = useState<{
+    description: string;
+    photoCount: number;
+    requiresLocation: boolean;
+    location: { latitude: number; longitude: number; radius: number };
+  } | null>(null);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [photos, setPhotos] = useState<PhotoData[]>([]);
+  const [location, setLocation] = useState<LocationData | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [step, setStep] = useState<SubmitStep>('idle');
+
+  useEffect(() => {
+    if (taskId) {
+      loadTask(Number(taskId));
+    }
+  }, [taskId]);
+
+  // Release the camera when leaving the screen
+  useEffect(() => () => stopCamera(), []);
+
+  const loadTask = async (id: number) => {
+    try {
+      const taskManager = blockchainService.getTaskManager();
+      const taskData = await blockchainService.read(taskManager, 'getTask', id);
+      setTask({
+        description: taskData.description,
+        photoCount: Number(taskData.requirements.photoCount),
+        requiresLocation: taskData.requirements.requiresLocation,
+        location: {
+          latitude: Number(taskData.location.latitude) / 1e6,
+          longitude: Number(taskData.location.longitude) / 1e6,
+          radius: Number(taskData.location.radius),
+        },
+      });
+    } catch (error) {
+      console.error('Failed to load task:', error);
+      alert('Failed to load task. Make sure contracts are deployed and addresses are set.');
+    }
+  };
+
+  const startCamera = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = stream;
+      setCameraOn(true);
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+      }
+    } catch (error) {
+      console.error('Camera unavailable:', error);
+      alert('Camera access is required to photograph the task');
+    }
+  };
+
+  function stopCamera() {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setCameraOn(false);
+  }
+
+  const handleCapture = async () => {
+    if (!videoRef.current) return;
+    try {
+      const photo = await cameraService.capturePhoto(videoRef.current);
+      const uri = await cameraService.compressImage(photo.uri);
+      const captured = [...photos, { ...photo, uri, base64: uri.split(',')[1] }];
+      setPhotos(captured);
+      if (task && captured.length >= task.photoCount) {
+        stopCamera();
+      }
+    } catch (error: any) {
+      alert(error.message || 'Failed to capture photo');
+    }
+  };
+
+  const handleLocate = async () => {
+    setLocating(true);
+    try {
+      setLocation(await locationService.getCurrentLocation());
+    } catch (error: any) {
+      alert(error.message || 'Failed to get your location');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!task || !taskId) return;
+    if (!address) {
+      alert('Please connect your wallet first');
+      navigate('/wallet');
+      return;
+    }
+
+    try {
+      setStep('uploading');
+      const files = await Promise.all(
+        photos.map(async (photo, index) => {
+          const blob = await (await fetch(photo.uri)).blob();
+          return new File([blob], `photo-${index + 1}.jpg`, { type: 'image/jpeg' });
+        })
+      );
+      const metadata = {
+        taskId: Number(taskId),
+        worker: address,
+        photos: files.map((file) => file.name),
+        photoHashes: await Promise.all(photos.map((photo) => cameraService.generateImageHash(photo.uri))),
+        capturedAt: new Date(photos[0]?.timestamp ?? Date.now()).toISOString(),
+        latitude: location?.latitude ?? null,
+        longitude: location?.longitude ?? null,
+        accuracy: location?.accuracy ?? null,
+        submittedAt: new Date().toISOString(),
+      };
+      const ipfsHash = await ipfsService.uploadMultipleImages(files, metadata);
+
+      setStep('submitting');
+      // Contract format: coordinates scaled by 1e6, radius unused for submissions
+      const submissionLocation = {
+        latitude: BigInt(Math.floor((location?.latitude ?? 0) * 1e6)),
+        longitude: BigInt(Math.floor((location?.longitude ?? 0) * 1e6)),
+        radius: 0n,
+      };
+      await dispatch(submitTask({ taskId: Number(taskId), ipfsHash, location: submissionLocation })).unwrap();
+
+      alert('Submission sent! It will be paid out once verifiers approve it.');
+      navigate(`/task/${taskId}`);
+    } catch (error: any) {
+      alert(error?.message || error || 'Failed to submit task');
+    } finally {
+      setStep('idle');
+    }
+  };
+
+  if (!task) {
+    return (
+      <div className="screen">
+        <div className="loading">Loading task...</div>
+      </div>
+    );
+  }
+
+  const photosComplete = photos.length >= task.photoCount;
+  const withinRadius = location
+    ? locationService.isWithinRadius(
+        location.latitude,
+        location.longitude,
+        task.location.latitude,
+        task.location.longitude,
+        task.location.radius
+      )
+    : false;
+  const locationOk = !task.requiresLocation || withinRadius;
+  const distance = location
+    ? locationService.calculateDistance(
+        location.latitude,
+        location.longitude,
+        task.location.latitude,
+        task.location.longitude
+      )
+    : null;
+
+  return (
+    <div className="screen">
+      <button className="back-button" onClick={() => navigate(`/task/${taskId}`)}>
+        ← Back
+      </button>
+
+      <h1>Submit: {task.description}</h1>
+
+      <div className="detail-section">
+        <label className="detail-label">
+          1. Photos ({photos.length}/{task.photoCount})
+        </label>
+        <video
+          ref={videoRef}
+          className="camera-preview"
+          autoPlay
+          playsInline
+          muted
+          style={{ display: cameraOn ? 'block' : 'none' }}
+        />
+        {!photosComplete && (
+          <div className="task-edit-row">
+            {cameraOn ? (
+              <button className="location-button" onClick={handleCapture}>
+                Capture photo
+              </button>
+            ) : (
+              <button className="location-button" onClick={startCamera}>
+                Open camera
+              </button>
+            )}
+          </div>
+        )}
+        <div className="evidence-photos">
+          {photos.map((photo, index) => (
+            <div key={photo.timestamp} className="photo-thumb">
+              <img src={photo.uri} alt={`Photo ${index + 1}`} />
+              <button
+                className="back-button"
+                onClick={() => setPhotos(photos.filter((_, i) => i !== index))}
+                disabled={step !== 'idle'}
+              >
+                Retake
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="detail-section">
+        <label className="detail-label">
+          2. Location {task.requiresLocation ? `(within ${task.location.radius} m required)` : '(optional)'}
+        </label>
+        <button className="location-button" onClick={handleLocate} disabled={locating}>
+          {locating ? 'Locating...' : location ? 'Update my location' : 'Use my location'}
+        </button>
+        {location && distance !== null && (
+          <p className="detail-value">
+            {withinRadius ? '✓ ' : '✗ '}
+            {Math.round(distance)} m from the task location
+            {location.accuracy ? ` (±${Math.round(location.accuracy)} m)` : ''}
+          </p>
+        )}
+        {location && task.requiresLocation && !withinRadius && (
+          <p className="empty-subtext">Move inside the task area before submitting.</p>
+        )}
+      </div>
+
+      <button
+        className="claim-button"
+        onClick={handleSubmit}
+        disabled={step !== 'idle' || !photosComplete || !locationOk}
+      >
+        {step === 'uploading'
+          ? 'Uploading to IPFS...'
+          : step === 'submitting'
+            ? 'Submitting...'
+            : !photosComplete
+              ? `Take ${task.photoCount - photos.length} more photo(s)`
+              : !locationOk
+                ? 'Location check required'
+                : 'Submit for verification'}
+      </button>
+    </div>
+  );
+}
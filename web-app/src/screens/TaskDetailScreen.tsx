@@ -3,6 +3,7 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState, AppDispatch } from '../store';
 import { claimTask } from '../store/slices/taskSlice';
+import { fetchActiveTasks } from '../store/slices/userSlice';
 import { blockchainService } from '../services/blockchain';
 import './Screen.css';
 
@@ -12,9 +13,15 @@ export default function TaskDetailScreen() {
   const dispatch = useDispatch<AppDispatch>();
   const { claimedTasks } = useSelector((state: RootState) => state.tasks);
   const { address } = useSelector((state: RootState) => state.wallet);
+  const { activeTasks } = useSelector((state: RootState) => state.user);
   const [task, setTask] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [claiming, setClaiming] = useState(false);
+  const [eligibility, setEligibility] = useState<{
+    score: number;
+    meetsReputation: boolean;
+    hasRequiredBadge: boolean;
+  } | null>(null);
 
   useEffect(() => {
     if (taskId) {
@@ -22,10 +29,31 @@ export default function TaskDetailScreen() {
     }
   }, [taskId]);
 
+  useEffect(() => {
+    if (taskId && address) {
+      loadEligibility(Number(taskId), address);
+      dispatch(fetchActiveTasks(address));
+    }
+  }, [taskId, address, dispatch]);
+
+  const loadEligibility = async (id: number, worker: string) => {
+    try {
+      const taskManager = blockchainService.getTaskManager();
+      const result = await blockchainService.read(taskManager, 'getClaimEligibility', id, worker);
+      setEligibility({
+        score: Number(result.score),
+        meetsReputation: result.meetsReputation,
+        hasRequiredBadge: result.hasRequiredBadge,
+      });
+    } catch (error) {
+      console.error('Failed to check claim eligibility:', error);
+    }
+  };
+
   const loadTask = async (id: number) => {
     try {
       const taskManager = blockchainService.getTaskManager();
-      const taskData = await taskManager.getTask(id);
+      const taskData = await blockchainService.read(taskManager, 'getTask', id);
       setTask({
         id: Number(taskData.id),
         description: taskData.description,
@@ -33,6 +61,9 @@ export default function TaskDetailScreen() {
         deadline: Number(taskData.deadline),
         category: taskData.category,
         status: taskData.status,
+        minReputation: Number(taskData.requirements.minReputation),
+        requiredBadge: Number(taskData.requirements.requiredBadge),
+        requiresBadge: taskData.requirements.requiresBadge,
       });
     } catch (error) {
       console.error('Failed to load task:', error);
@@ -90,7 +121,10 @@ export default function TaskDetailScreen() {
     );
   }
 
-  const isClaimed = taskId ? claimedTasks.includes(Number(taskId)) : false;
+  // Claimed this session, or still in the worker's on-chain active list
+  const isClaimed = taskId ? claimedTasks.includes(Number(taskId)) || activeTasks.includes(Number(taskId)) : false;
+  const qualifies = !eligibility || (eligibility.meetsReputation && eligibility.hasRequiredBadge);
+  const categories = ['Photo Verification', 'Location Check', 'Survey', 'Price Monitoring', 'Business Hours'];
   const deadlineDate = new Date(task.deadline * 1000);
   const bountyAmount = parseFloat(task.bountyAmount) / 1e18;
 
@@ -117,18 +151,42 @@ export default function TaskDetailScreen() {
         <p className="detail-value">Category {task.category}</p>
       </div>
 
+      {(task.minReputation > 0 || task.requiresBadge) && (
+        <div className="detail-section">
+          <label className="detail-label">Requirements</label>
+          {task.minReputation > 0 && (
+            <p className="detail-value">
+              {eligibility && (eligibility.meetsReputation ? '✓ ' : '✗ ')}
+              Reputation {task.minReputation}+
+              {eligibility && ` (yours: ${eligibility.score})`}
+            </p>
+          )}
+          {task.requiresBadge && (
+            <p className="detail-value">
+              {eligibility && (eligibility.hasRequiredBadge ? '✓ ' : '✗ ')}
+              {categories[task.requiredBadge]} badge
+            </p>
+          )}
+        </div>
+      )}
+
       {!isClaimed ? (
         <button
           className="claim-button"
           onClick={handleClaim}
-          disabled={claiming}
+          disabled={claiming || !qualifies}
         >
-          {claiming ? 'Claiming...' : 'Claim Task'}
+          {claiming ? 'Claiming...' : qualifies ? 'Claim Task' : 'You do not meet the requirements'}
         </button>
       ) : (
-        <div className="claimed-badge">
-          <span>Task Claimed</span>
-        </div>
+        <>
+          <div className="claimed-badge">
+            <span>Task Claimed</span>
+          </div>
+          <button className="claim-button" onClick={() => navigate(`/task/${taskId}/submit`)}>
+            Submit Completion
+          </button>
+        </>
       )}
     </div>
   );
@@ -1,28 +1,46 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState, AppDispatch } from '../store';
-import { fetchTasks } from '../store/slices/taskSlice';
+import { fetchTasks, fetchMoreTasks, TASK_PAGE_SIZE } from '../store/slices/taskSlice';
 import TaskCard from '../components/TaskCard';
 import './Screen.css';
 
 export default function TaskFeedScreen() {
   const dispatch = useDispatch<AppDispatch>();
   const navigate = useNavigate();
-  const { tasks, loading } = useSelector((state: RootState) => state.tasks);
+  const { tasks, tasksCursor, loading, loadingMore } = useSelector((state: RootState) => state.tasks);
+  const loadedCount = useRef(0);
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  loadedCount.current = tasks.length;
 
   useEffect(() => {
     // Fetch tasks from blockchain
     dispatch(fetchTasks());
     
-    // Set up periodic refresh every 30 seconds
+    // Set up periodic refresh every 30 seconds, keeping every page scrolled in so far
     const interval = setInterval(() => {
-      dispatch(fetchTasks());
+      dispatch(fetchTasks(Math.max(loadedCount.current, TASK_PAGE_SIZE)));
     }, 30000);
     
     return () => clearInterval(interval);
   }, [dispatch]);
 
+  // Infinite scroll: load the next page when the end of the list comes into view
+  useEffect(() => {
+    if (!sentinel.current || !tasksCursor || loadingMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        dispatch(fetchMoreTasks());
+      }
+    });
+    observer.observe(sentinel.current);
+
+    return () => observer.disconnect();
+  }, [dispatch, tasksCursor, loadingMore, tasks.length]);
+
   const handleTaskClick = (taskId: number) => {
     navigate(`/task/${taskId}`);
   };
@@ -52,6 +70,11 @@ export default function TaskFeedScreen() {
               onClick={() => handleTaskClick(task.id)}
             />
           ))}
+          {tasksCursor && (
+            <div ref={sentinel} className="loading">
+              {loadingMore ? 'Loading more tasks...' : ''}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -1,16 +1,191 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import { ethers } from 'ethers';
+import { RootState, AppDispatch } from '../store';
+import {
+  Verification,
+  fetchPendingVerifications,
+  stakeForVerification,
+  submitVote,
+} from '../store/slices/verificationSlice';
+import { blockchainService } from '../services/blockchain';
+import EvidenceViewer from '../components/EvidenceViewer';
 import './Screen.css';
 
+// Mirrors VerificationContract's CONSENSUS_THRESHOLD and MAX_VERIFIERS
+const CONSENSUS_THRESHOLD = 3;
+const MAX_VERIFIERS = 7;
+const DISPUTED = 3;
+
 export default function VerificationScreen() {
+  const navigate = useNavigate();
+  const dispatch = useDispatch<AppDispatch>();
+  const { pendingVerifications, loading, error } = useSelector((state: RootState) => state.verification);
+  const { address } = useSelector((state: RootState) => state.wallet);
+  const [stakeAmount, setStakeAmount] = useState<bigint | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [feedback, setFeedback] = useState<Record<number, string>>({});
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  useEffect(() => {
+    dispatch(fetchPendingVerifications());
+  }, [address, dispatch]);
+
+  useEffect(() => {
+    loadStakeAmount();
+  }, []);
+
+  const loadStakeAmount = async () => {
+    try {
+      const verificationContract = blockchainService.getVerificationContract();
+      setStakeAmount(await blockchainService.read(verificationContract, 'VERIFICATION_STAKE'));
+    } catch (error) {
+      console.error('Failed to load verification stake:', error);
+    }
+  };
+
+  const run = async (submissionId: number, action: () => Promise<unknown>, success: string) => {
+    setBusyId(submissionId);
+    try {
+      await action();
+      alert(success);
+    } catch (error: any) {
+      alert(error || 'Transaction failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleStake = (verification: Verification) => {
+    if (!address) {
+      alert('Please connect your wallet first');
+      navigate('/wallet');
+      return;
+    }
+    if (stakeAmount === null) {
+      alert('Verification stake not loaded yet, please try again');
+      return;
+    }
+    run(
+      verification.id,
+      async () => {
+        await dispatch(stakeForVerification({ submissionId: verification.id, stakeAmount: stakeAmount.toString() })).unwrap();
+        setExpandedId(verification.id);
+      },
+      'Stake placed. Review the evidence and cast your vote.'
+    );
+  };
+
+  const handleVote = (verification: Verification, approved: boolean) => {
+    run(
+      verification.id,
+      () =>
+        dispatch(
+          submitVote({ submissionId: verification.id, approved, feedback: feedback[verification.id] ?? '' })
+        ).unwrap(),
+      'Vote submitted!'
+    );
+  };
+
+  const renderActions = (verification: Verification) => {
+    const busy = busyId === verification.id;
+
+    // Disputed submissions take no more stakes or votes; the counts above stay visible
+    if (verification.status === DISPUTED) {
+      return <p className="detail-value">Disputed: awaiting arbiter ruling</p>;
+    }
+    if (verification.voted) {
+      return <div className="claimed-badge"><span>Vote submitted</span></div>;
+    }
+    if (!verification.staked) {
+      const full = verification.verifierCount >= MAX_VERIFIERS;
+      return (
+        <button className="claim-button" onClick={() => handleStake(verification)} disabled={busy || full}>
+          {busy
+            ? 'Staking...'
+            : full
+              ? 'Verifier slots are full'
+              : `Stake ${stakeAmount !== null ? ethers.formatEther(stakeAmount) : '...'} CELO to verify`}
+        </button>
+      );
+    }
+    return (
+      <div className="vote-actions">
+        <textarea
+          className="form-input"
+          placeholder="Feedback for the worker (optional)"
+          value={feedback[verification.id] ?? ''}
+          onChange={(e) => setFeedback({ ...feedback, [verification.id]: e.target.value })}
+          rows={2}
+        />
+        <div className="task-edit-row">
+          <button className="approve-button" onClick={() => handleVote(verification, true)} disabled={busy}>
+            Approve
+          </button>
+          <button className="reject-button" onClick={() => handleVote(verification, false)} disabled={busy}>
+            Reject
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="screen">
       <h1>Verification Queue</h1>
       <p>Review and verify task submissions to earn rewards</p>
-      <div className="empty-state">
-        <p className="empty-text">No pending verifications</p>
-        <p className="empty-subtext">
-          When tasks are submitted, they will appear here for verification
-        </p>
-      </div>
+
+      {loading && pendingVerifications.length === 0 ? (
+        <div className="loading">Loading submissions...</div>
+      ) : error ? (
+        <div className="empty-state">
+          <p className="empty-text">Could not load the verification queue</p>
+          <p className="empty-subtext">{error}</p>
+        </div>
+      ) : pendingVerifications.length === 0 ? (
+        <div className="empty-state">
+          <p className="empty-text">No pending verifications</p>
+          <p className="empty-subtext">
+            When tasks are submitted, they will appear here for verification
+          </p>
+        </div>
+      ) : (
+        <div className="task-list">
+          {pendingVerifications.map((verification) => (
+            <div key={verification.id} className="verification-card">
+              <div className="created-task">
+                <div>
+                  <strong>{verification.taskDescription}</strong>
+                  <p className="empty-subtext">
+                    Submission #{verification.id} by {verification.worker.slice(0, 6)}...{verification.worker.slice(-4)}
+                    {' · '}
+                    {new Date(verification.timestamp * 1000).toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  className="back-button"
+                  onClick={() => setExpandedId(expandedId === verification.id ? null : verification.id)}
+                >
+                  {expandedId === verification.id ? 'Hide evidence' : 'Review evidence'}
+                </button>
+              </div>
+
+              <div className="detail-section">
+                <label className="detail-label">Votes</label>
+                <p className="detail-value">
+                  {verification.approvalCount} approve · {verification.rejectionCount} reject
+                  {' '}({CONSENSUS_THRESHOLD} needed) · {verification.verifierCount}/{MAX_VERIFIERS} verifiers staked
+                </p>
+              </div>
+
+              {expandedId === verification.id && <EvidenceViewer verification={verification} />}
+
+              {renderActions(verification)}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState, AppDispatch } from '../store';
-import { fetchBalance, connectWallet } from '../store/slices/walletSlice';
+import { fetchBalance, connectWallet, claimEarnings } from '../store/slices/walletSlice';
 import { blockchainService } from '../services/blockchain';
 import { minipayService } from '../services/minipay';
 import type { TokenInfo } from '../services/minipay';
@@ -9,7 +9,7 @@ import './Screen.css';
 
 export default function WalletScreen() {
   const dispatch = useDispatch<AppDispatch>();
-  const { address, balance, pendingBalance, verifiedBalance, connected, loading } = useSelector(
+  const { address, balance, pendingBalance, verifiedBalance, claimable, connected, loading, claiming } = useSelector(
     (state: RootState) => state.wallet
   );
   const [connecting, setConnecting] = useState(false);
@@ -62,6 +62,15 @@ export default function WalletScreen() {
     }
   };
 
+  const handleClaimEarnings = async () => {
+    try {
+      await dispatch(claimEarnings()).unwrap();
+      alert('Earnings claimed successfully!');
+    } catch (error: any) {
+      alert(error || 'Failed to claim earnings');
+    }
+  };
+
   return (
     <div className="screen">
       {!connected ? (
@@ -135,6 +144,28 @@ export default function WalletScreen() {
             <label className="detail-label">Verified</label>
             <p className="detail-value">{verifiedBalance || balance} cUSD</p>
           </div>
+
+          {claimable.length > 0 && (
+            <div className="detail-section">
+              <label className="detail-label">Claimable Earnings</label>
+              {claimable.map((earning) => (
+                <div key={`${earning.source}-${earning.currency}`} className="created-task">
+                  <span>{earning.source === 'verification' ? 'Verification rewards' : 'Task rewards & refunds'}</span>
+                  <span style={{ fontWeight: 'bold' }}>
+                    {parseFloat(earning.amount).toFixed(4)} {earning.currency}
+                  </span>
+                </div>
+              ))}
+              <button
+                className="reclaim-button"
+                onClick={handleClaimEarnings}
+                disabled={claiming}
+                style={{ marginTop: '10px' }}
+              >
+                {claiming ? 'Claiming...' : 'Claim Earnings'}
+              </button>
+            </div>
+          )}
         </>
       )}
     </div>
@@ -1,22 +1,59 @@
 import { ethers } from 'ethers';
-import { TaskManager } from '../../typechain-types/contracts/TaskManager';
-import { TaskManager__factory } from '../../typechain-types/factories/contracts/TaskManager__factory';
-import { BountyPool } from '../../typechain-types/contracts/BountyPool';
-import { BountyPool__factory } from '../../typechain-types/factories/contracts/BountyPool__factory';
+import { TaskManager } from '../../typechain-types/contracts/TaskManager.sol/TaskManager';
+import { TaskManager__factory } from '../../typechain-types/factories/contracts/TaskManager.sol/TaskManager__factory';
+import { BountyPool } from '../../typechain-types/contracts/BountyPool.sol/BountyPool';
+import { BountyPool__factory } from '../../typechain-types/factories/contracts/BountyPool.sol/BountyPool__factory';
 import { ReputationContract } from '../../typechain-types/contracts/ReputationContract';
 import { ReputationContract__factory } from '../../typechain-types/factories/contracts/ReputationContract__factory';
 import { VerificationContract } from '../../typechain-types/contracts/VerificationContract.sol/VerificationContract';
 import { VerificationContract__factory } from '../../typechain-types/factories/contracts/VerificationContract.sol/VerificationContract__factory';
-import { minipayService } from './minipay';
+import { minipayService, StablecoinSymbol, TOKEN_DECIMALS } from './minipay';
+import { MulticallBatcher, MULTICALL3_ADDRESS, ViewArgs, ViewResult } from './multicall';
+import { indexerService } from './indexer';
 
 const ALFAJORES_RPC = 'https://alfajores-forno.celo-testnet.org';
 const CELO_RPC = 'https://forno.celo.org';
+const CREATOR_TASK_PAGE_SIZE = 50;
+const EVENT_POLL_INTERVAL_MS = 15000;
+const WS_CONNECT_TIMEOUT_MS = 5000;
+// VerificationStatus values listed in the verification queue: PENDING and DISPUTED
+const QUEUE_STATUSES = [0, 3];
+
+// Websocket endpoints used for live contract events, keyed by chain ID
+const WS_RPC_URLS: Record<string, string> = {
+  '42220': 'wss://forno.celo.org/ws',
+  '44787': 'wss://alfajores-forno.celo-testnet.org/ws',
+  '31337': 'ws://127.0.0.1:8545',
+};
 
 export interface ContractAddresses {
   taskManager: string;
   bountyPool: string;
   reputationContract: string;
   verificationContract: string;
+  multicall?: string; // Defaults to the canonical Multicall3 address
+}
+
+// Position in the open-task feed: an index in TaskManager's ACTIVE (0) or IN_PROGRESS (1) status set
+export interface TaskPageCursor {
+  status: 0 | 1;
+  offset: number;
+}
+
+// A credited balance waiting to be withdrawn from BountyPool or VerificationContract
+export interface ClaimableEarning {
+  source: 'bounties' | 'verification';
+  currency: 'CELO' | StablecoinSymbol;
+  amount: string;
+}
+
+// Callbacks for the contract events the app follows live
+export interface ContractEventHandlers {
+  onTaskCreated: (taskId: number, creator: string) => void;
+  onTaskClaimed: (taskId: number, worker: string) => void;
+  onTaskSubmitted: (taskId: number, worker: string) => void;
+  onVoteSubmitted: (submissionId: number, verifier: string, approved: boolean) => void;
+  onConsensusReached: (submissionId: number, status: number) => void;
 }
 
 class BlockchainService {
@@ -27,6 +64,12 @@ class BlockchainService {
   private bountyPool: BountyPool | null = null;
   private reputationContract: ReputationContract | null = null;
   private verificationContract: VerificationContract | null = null;
+  private reads: MulticallBatcher | null = null;
+  private eventHandlers: ContractEventHandlers | null = null;
+  private stopEventStream: (() => void) | null = null;
+  private eventStreamId = 0;
+  // Block the contracts were deployed at, where log-scan fallbacks start
+  private deploymentBlock = 0;
 
   async initialize(rpcUrl?: string, addresses?: ContractAddresses) {
     // If no RPC URL provided, we'll detect it from deployments.json in loadContracts
@@ -100,7 +143,9 @@ class BlockchainService {
             bountyPool: deployment.contracts.BountyPool,
             reputationContract: deployment.contracts.ReputationContract,
             verificationContract: deployment.contracts.VerificationContract,
+            multicall: deployment.contracts.Multicall3,
           };
+          this.deploymentBlock = deployment.startBlock ?? 0;
           
           // Set the correct RPC based on the deployment network
           const chainId = deployment.chainId ? parseInt(deployment.chainId) : null;
@@ -147,6 +192,154 @@ class BlockchainService {
       this.addresses.verificationContract,
       contractSigner
     );
+
+    this.reads = new MulticallBatcher(this.provider, this.addresses.multicall ?? MULTICALL3_ADDRESS);
+
+    // Listeners are bound to the previous provider and contracts, so rebuild them
+    this.restartEventStream();
+  }
+
+  // Delivers live contract events to the handlers until the returned function is called.
+  // Uses a websocket subscription when the chain has one, otherwise polls for logs.
+  subscribeToEvents(handlers: ContractEventHandlers): () => void {
+    this.eventHandlers = handlers;
+    this.restartEventStream();
+    return () => {
+      if (this.eventHandlers === handlers) {
+        this.eventHandlers = null;
+        this.closeEventStream();
+      }
+    };
+  }
+
+  private closeEventStream() {
+    // Invalidates streams that are still connecting
+    this.eventStreamId++;
+    this.stopEventStream?.();
+    this.stopEventStream = null;
+  }
+
+  private restartEventStream() {
+    this.closeEventStream();
+    if (!this.eventHandlers || !this.provider || !this.addresses) {
+      return;
+    }
+    this.openEventStream(this.provider, this.addresses, this.eventStreamId).catch((error) => {
+      console.error('Failed to subscribe to contract events:', error);
+    });
+  }
+
+  private async openEventStream(provider: ethers.Provider, addresses: ContractAddresses, streamId: number) {
+    const taskManager = this.getTaskManager();
+    const verificationContract = this.getVerificationContract();
+    const filter = {
+      address: [addresses.taskManager, addresses.verificationContract],
+      topics: [[
+        taskManager.interface.getEvent('TaskCreated').topicHash,
+        taskManager.interface.getEvent('TaskClaimed').topicHash,
+        taskManager.interface.getEvent('TaskSubmitted').topicHash,
+        verificationContract.interface.getEvent('VoteSubmitted').topicHash,
+        verificationContract.interface.getEvent('ConsensusReached').topicHash,
+      ]],
+    };
+
+    const { chainId } = await provider.getNetwork();
+    const wsProvider = await this.connectWebSocket(WS_RPC_URLS[chainId.toString()]);
+    if (wsProvider) {
+      await wsProvider.on(filter, (log: ethers.Log) => this.handleEventLog(log));
+      if (streamId !== this.eventStreamId) {
+        wsProvider.destroy();
+        return;
+      }
+      this.stopEventStream = () => wsProvider.destroy();
+      return;
+    }
+
+    console.warn('No websocket RPC available, polling for contract events');
+    let fromBlock = (await provider.getBlockNumber()) + 1;
+    if (streamId !== this.eventStreamId) {
+      return;
+    }
+
+    let polling = false;
+    const timer = setInterval(async () => {
+      if (polling) {
+        return;
+      }
+      polling = true;
+      try {
+        const toBlock = await provider.getBlockNumber();
+        if (toBlock >= fromBlock) {
+          const logs = await provider.getLogs({ ...filter, fromBlock, toBlock });
+          fromBlock = toBlock + 1;
+          logs.forEach((log) => this.handleEventLog(log));
+        }
+      } catch (error) {
+        console.error('Polling contract events failed:', error);
+      } finally {
+        polling = false;
+      }
+    }, EVENT_POLL_INTERVAL_MS);
+    this.stopEventStream = () => clearInterval(timer);
+  }
+
+  private async connectWebSocket(url: string | undefined): Promise<ethers.WebSocketProvider | null> {
+    if (!url) {
+      return null;
+    }
+    const wsProvider = new ethers.WebSocketProvider(url);
+    try {
+      await Promise.race([
+        wsProvider.getBlockNumber(),
+        new Promise((_, reject) => setTimeout(() => reject(new Error('Websocket connection timed out')), WS_CONNECT_TIMEOUT_MS)),
+      ]);
+      return wsProvider;
+    } catch (error) {
+      console.warn(`Websocket RPC ${url} unavailable:`, error);
+      wsProvider.destroy();
+      return null;
+    }
+  }
+
+  private handleEventLog(log: ethers.Log) {
+    const handlers = this.eventHandlers;
+    if (!handlers || !this.addresses) {
+      return;
+    }
+    const contract = log.address.toLowerCase() === this.addresses.taskManager.toLowerCase()
+      ? this.getTaskManager()
+      : this.getVerificationContract();
+    const event = contract.interface.parseLog(log);
+
+    switch (event?.name) {
+      case 'TaskCreated':
+        handlers.onTaskCreated(Number(event.args.taskId), event.args.creator);
+        break;
+      case 'TaskClaimed':
+        handlers.onTaskClaimed(Number(event.args.taskId), event.args.worker);
+        break;
+      case 'TaskSubmitted':
+        handlers.onTaskSubmitted(Number(event.args.taskId), event.args.worker);
+        break;
+      case 'VoteSubmitted':
+        handlers.onVoteSubmitted(Number(event.args.submissionId), event.args.verifier, event.args.approved);
+        break;
+      case 'ConsensusReached':
+        handlers.onConsensusReached(Number(event.args.submissionId), Number(event.args.status));
+        break;
+    }
+  }
+
+  // Batched view call: reads issued in the same tick share one Multicall3 request
+  read<C extends ethers.BaseContract, K extends keyof C & string>(
+    contract: C,
+    method: K,
+    ...args: ViewArgs<C[K]>
+  ): Promise<ViewResult<C[K]>> {
+    if (!this.reads) {
+      throw new Error('Contracts not loaded');
+    }
+    return this.reads.read(contract, method, args);
   }
 
   setAddresses(addresses: ContractAddresses) {
@@ -163,49 +356,385 @@ class BlockchainService {
     return this.taskManager;
   }
 
-  async getAllTasks(): Promise<any[]> {
+  // Open tasks are paged from the ACTIVE index first, then from IN_PROGRESS
+  async getOpenTasksPage(
+    cursor: TaskPageCursor,
+    limit: number
+  ): Promise<{ tasks: any[]; nextCursor: TaskPageCursor | null }> {
+    const tasks: any[] = [];
+    let { status, offset } = cursor;
+    let nextCursor: TaskPageCursor | null = null;
+
+    for (;;) {
+      const page = await this.getTasksByStatus(status, offset, limit - tasks.length);
+      tasks.push(...page.tasks);
+      offset += page.tasks.length;
+
+      if (offset < page.total) {
+        nextCursor = { status, offset };
+        break;
+      }
+      if (status === 1) {
+        break;
+      }
+      status = 1;
+      offset = 0;
+      if (tasks.length === limit) {
+        nextCursor = { status, offset };
+        break;
+      }
+    }
+
+    return { tasks: tasks.filter((task) => task !== null), nextCursor };
+  }
+
+  // Served by the indexer when one is configured, otherwise read from TaskManager's status index.
+  // Tasks that fail to load stay in the page as null so offsets keep matching the index.
+  private async getTasksByStatus(status: number, offset: number, limit: number): Promise<{ tasks: any[]; total: number }> {
+    if (indexerService) {
+      const page = await indexerService.getTasks({ status }, offset, limit);
+      const tasks = page.items.map((task) => ({
+        id: task.id,
+        creator: task.creator,
+        description: task.description,
+        category: task.category,
+        bountyAmount: task.bountyAmount,
+        maxWorkers: task.maxWorkers,
+        location: {
+          latitude: task.location.latitude / 1e6,
+          longitude: task.location.longitude / 1e6,
+          radius: task.location.radius,
+        },
+        deadline: task.deadline,
+        status: task.status,
+        submissionCount: task.submissionCount,
+        verifiedCount: task.verifiedCount,
+        createdAt: task.createdAt,
+      }));
+      return { tasks, total: page.total };
+    }
+
     const taskManager = this.getTaskManager();
-    
-    // Query TaskCreated events to get all task IDs
-    const filter = taskManager.filters.TaskCreated();
-    const events = await taskManager.queryFilter(filter);
-    
-    // Fetch task details for each task ID
+    const [taskIds, total] = await this.read(taskManager, 'getTasksByStatus', status, offset, limit);
+
     const tasks = await Promise.all(
-      events.map(async (event) => {
-        const taskId = Number(event.args[0]);
+      taskIds.map(Number).map(async (taskId) => {
         try {
-          const task = await taskManager.getTask(taskId);
+          return await this.getFeedTask(taskId);
+        } catch (error) {
+          console.error(`Failed to fetch task ${taskId}:`, error);
+          return null;
+        }
+      })
+    );
+
+    return { tasks, total: Number(total) };
+  }
+
+  // A task in the shape the feed shows it
+  async getFeedTask(taskId: number) {
+    const task = await this.read(this.getTaskManager(), 'getTask', taskId);
+    return {
+      id: taskId,
+      creator: task.creator,
+      description: task.description,
+      category: Number(task.category),
+      bountyAmount: task.bountyAmount.toString(),
+      maxWorkers: Number(task.maxWorkers),
+      location: {
+        latitude: Number(task.location.latitude) / 1e6,
+        longitude: Number(task.location.longitude) / 1e6,
+        radius: Number(task.location.radius),
+      },
+      deadline: Number(task.deadline),
+      status: Number(task.status),
+      submissionCount: Number(task.submissionCount),
+      verifiedCount: Number(task.verifiedCount),
+      createdAt: Number(task.createdAt),
+    };
+  }
+
+  async getCreatorTasks(creatorAddress: string): Promise<any[]> {
+    const taskManager = this.getTaskManager();
+    const bountyPool = this.getBountyPool();
+
+    // Read the creator's task index in pages rather than scanning TaskCreated events
+    const taskIds: number[] = [];
+    for (;;) {
+      const [page, total] = await this.read(taskManager, 'getTasksByCreator', creatorAddress, taskIds.length, CREATOR_TASK_PAGE_SIZE);
+      taskIds.push(...page.map(Number));
+      if (page.length === 0 || taskIds.length >= Number(total)) {
+        break;
+      }
+    }
+    const now = Math.floor(Date.now() / 1000);
+
+    const tasks = await Promise.all(
+      taskIds.map(async (taskId) => {
+        try {
+          const [task, reclaimable, escrowed, token] = await Promise.all([
+            this.read(taskManager, 'getTask', taskId),
+            this.read(taskManager, 'getReclaimableBounty', taskId),
+            this.read(bountyPool, 'getTaskBounty', taskId),
+            this.read(bountyPool, 'getTaskToken', taskId),
+          ]);
+          const status = Number(task.status);
+          const currency = token === ethers.ZeroAddress ? 'CELO' : minipayService.getTokenSymbol(token) ?? 'tokens';
+          const decimals = currency === 'CELO' || currency === 'tokens' ? 18 : TOKEN_DECIMALS[currency];
+
           return {
             id: taskId,
-            creator: task.creator,
             description: task.description,
-            category: Number(task.category),
-            bountyAmount: task.bountyAmount.toString(),
+            deadline: Number(task.deadline),
+            status,
+            bountyAmount: ethers.formatUnits(task.bountyAmount, decimals),
             maxWorkers: Number(task.maxWorkers),
+            submissionCount: Number(task.submissionCount),
+            currency,
+            escrowed: ethers.formatUnits(escrowed, decimals),
+            reclaimable: ethers.formatUnits(reclaimable, decimals),
+            // Past its deadline but nobody has called expireTask yet
+            awaitingExpiry: (status === 0 || status === 1) && Number(task.deadline) < now,
+          };
+        } catch (error) {
+          console.error(`Failed to fetch task ${taskId}:`, error);
+          return null;
+        }
+      })
+    );
+
+    return tasks
+      .filter((task) => task !== null)
+      .sort((a, b) => b!.id - a!.id);
+  }
+
+  async getCreatorCampaigns(creatorAddress: string): Promise<any[]> {
+    const taskManager = this.getTaskManager();
+    const bountyPool = this.getBountyPool();
+
+    // Campaign IDs come from the indexer when configured, otherwise from a CampaignCreated log scan
+    const campaignIds = indexerService
+      ? (await indexerService.getCampaigns(creatorAddress)).map((campaign) => campaign.id)
+      : (await taskManager.queryFilter(taskManager.filters.CampaignCreated(undefined, creatorAddress), this.deploymentBlock))
+          .map((event) => Number(event.args[0]));
+
+    const campaigns = await Promise.all(
+      campaignIds.map(async (campaignId) => {
+        try {
+          const [campaign, report, token] = await Promise.all([
+            this.read(taskManager, 'getCampaign', campaignId),
+            this.read(taskManager, 'getCampaignReport', campaignId),
+            this.read(bountyPool, 'campaignTokens', campaignId),
+          ]);
+          const currency = token === ethers.ZeroAddress ? 'CELO' : minipayService.getTokenSymbol(token) ?? 'tokens';
+          const decimals = currency === 'CELO' || currency === 'tokens' ? 18 : TOKEN_DECIMALS[currency];
+
+          return {
+            id: campaignId,
+            description: campaign.params.description,
+            deadline: Number(campaign.params.deadline),
+            closed: campaign.closed,
+            currency,
+            taskCount: Number(report.taskCount),
+            budget: ethers.formatUnits(report.budget, decimals),
+            unallocated: ethers.formatUnits(report.unallocated, decimals),
+            spent: ethers.formatUnits(report.spent, decimals),
+            refunded: ethers.formatUnits(report.refunded, decimals),
+            remaining: ethers.formatUnits(report.remaining, decimals),
+          };
+        } catch (error) {
+          console.error(`Failed to fetch campaign ${campaignId}:`, error);
+          return null;
+        }
+      })
+    );
+
+    return campaigns
+      .filter((campaign) => campaign !== null)
+      .sort((a, b) => b!.id - a!.id);
+  }
+
+  // Submissions still open for staking and voting (PENDING) or awaiting an arbiter's ruling
+  // (DISPUTED, shown read-only), excluding the viewer's own work.
+  // Staked/voted reflect the viewer's position on each submission.
+  async getVerificationQueue(viewer: string | null): Promise<any[]> {
+    const verificationContract = this.getVerificationContract();
+    const taskManager = this.getTaskManager();
+
+    // Queued submission IDs come from the indexer when configured, otherwise from a SubmissionCreated log scan.
+    // Either way the status is re-read from the contract below, as the index may lag the chain.
+    const submissionIds = indexerService
+      ? (await Promise.all(QUEUE_STATUSES.map((status) => indexerService!.getSubmissions({ status }))))
+          .flat()
+          .map((submission) => submission.id)
+      : (await verificationContract.queryFilter(verificationContract.filters.SubmissionCreated(), this.deploymentBlock))
+          .map((event) => Number(event.args.submissionId));
+
+    const submissions = await Promise.all(
+      submissionIds.map(async (submissionId) => {
+        try {
+          const [submission, verifiers] = await Promise.all([
+            this.read(verificationContract, 'getSubmission', submissionId),
+            this.read(verificationContract, 'getSubmissionVerifiers', submissionId),
+          ]);
+          const status = Number(submission.status);
+          if (!QUEUE_STATUSES.includes(status) || (viewer && submission.worker.toLowerCase() === viewer.toLowerCase())) {
+            return null;
+          }
+
+          const [task, vote] = await Promise.all([
+            this.read(taskManager, 'getTask', Number(submission.taskId)),
+            viewer ? this.read(verificationContract, 'getVote', submissionId, viewer) : null,
+          ]);
+
+          return {
+            id: submissionId,
+            taskId: Number(submission.taskId),
+            taskDescription: task.description,
+            worker: submission.worker,
+            ipfsHash: submission.ipfsHash,
+            timestamp: Number(submission.timestamp),
+            status,
+            approvalCount: Number(submission.approvalCount),
+            rejectionCount: Number(submission.rejectionCount),
+            verifierCount: verifiers.length,
             location: {
+              latitude: Number(submission.location.latitude) / 1e6,
+              longitude: Number(submission.location.longitude) / 1e6,
+            },
+            taskLocation: {
               latitude: Number(task.location.latitude) / 1e6,
               longitude: Number(task.location.longitude) / 1e6,
               radius: Number(task.location.radius),
             },
-            deadline: Number(task.deadline),
-            status: Number(task.status),
-            submissionCount: Number(task.submissionCount),
-            verifiedCount: Number(task.verifiedCount),
-            createdAt: Number(task.createdAt),
+            staked: !!vote && vote.stake > 0n,
+            voted: !!vote && vote.hasVoted,
           };
         } catch (error) {
-          console.error(`Failed to fetch task ${taskId}:`, error);
+          console.error(`Failed to fetch submission ${submissionId}:`, error);
           return null;
         }
       })
     );
-    
-    // Filter out nulls and expired tasks
-    return tasks
-      .filter((task) => task !== null)
-      .filter((task) => task!.status === 0 || task!.status === 1) // ACTIVE or IN_PROGRESS
-      .sort((a, b) => Number(b!.deadline) - Number(a!.deadline)); // Sort by deadline descending
+
+    return submissions
+      .filter((submission) => submission !== null)
+      .sort((a, b) => a!.timestamp - b!.timestamp);
+  }
+
+  async closeCampaign(campaignId: number): Promise<void> {
+    const tx = await this.getTaskManager().closeCampaign(campaignId);
+    await tx.wait();
+  }
+
+  async reclaimTaskFunds(taskId: number, awaitingExpiry: boolean): Promise<void> {
+    const taskManager = this.getTaskManager();
+
+    // Expiring the task refunds its unreserved escrow in the same transaction;
+    // already-closed tasks reclaim whatever pending submissions have since released
+    const tx = awaitingExpiry
+      ? await taskManager.expireTask(taskId)
+      : await taskManager.reclaimBounty(taskId);
+    await tx.wait();
+  }
+
+  async cancelTask(taskId: number): Promise<void> {
+    const taskManager = this.getTaskManager();
+    const tx = await taskManager.cancelTask(taskId);
+    await tx.wait();
+  }
+
+  async extendTaskDeadline(taskId: number, newDeadline: number): Promise<void> {
+    const tx = await this.getTaskManager().extendDeadline(taskId, newDeadline);
+    await tx.wait();
+  }
+
+  async increaseTaskBounty(taskId: number, newBountyAmount: bigint): Promise<void> {
+    const taskManager = this.getTaskManager();
+    const task = await taskManager.getTask(taskId);
+
+    // Only slots without a submission yet are topped up to the new bounty
+    const topUp = (newBountyAmount - task.bountyAmount) * (task.maxWorkers - task.submissionCount);
+    const value = await this.prepareTopUp(taskId, topUp);
+
+    const tx = await taskManager.increaseBounty(taskId, newBountyAmount, { value });
+    await tx.wait();
+  }
+
+  async addTaskWorkerSlots(taskId: number, additionalWorkers: number): Promise<void> {
+    const taskManager = this.getTaskManager();
+    const task = await taskManager.getTask(taskId);
+
+    const value = await this.prepareTopUp(taskId, task.bountyAmount * BigInt(additionalWorkers));
+
+    const tx = await taskManager.addWorkerSlots(taskId, additionalWorkers, { value });
+    await tx.wait();
+  }
+
+  // Token top-ups are pulled by BountyPool, so approve them and send no CELO;
+  // native top-ups are sent as the transaction value
+  private async prepareTopUp(taskId: number, amount: bigint): Promise<bigint> {
+    const bountyPool = this.getBountyPool();
+    const token = await bountyPool.getTaskToken(taskId);
+    if (token === ethers.ZeroAddress) {
+      return amount;
+    }
+
+    const symbol = minipayService.getTokenSymbol(token);
+    if (!symbol) {
+      throw new Error(`Task ${taskId} is funded with an unsupported token`);
+    }
+    await minipayService.ensureAllowance(symbol, await bountyPool.getAddress(), amount);
+    return BigInt(0);
+  }
+
+  async getClaimableEarnings(account: string): Promise<ClaimableEarning[]> {
+    const bountyPool = this.getBountyPool();
+    const verificationContract = this.getVerificationContract();
+    const earnings: ClaimableEarning[] = [];
+    const symbols = Object.keys(TOKEN_DECIMALS) as StablecoinSymbol[];
+
+    // Rewards and refunds are credited in the task's funding token
+    const [bounties, verification, ...tokenAmounts] = await Promise.all([
+      this.read(bountyPool, 'withdrawable', account),
+      this.read(verificationContract, 'withdrawable', account),
+      ...symbols.map((symbol) => this.read(bountyPool, 'withdrawableToken', account, minipayService.getTokenAddress(symbol))),
+    ]);
+
+    if (bounties > BigInt(0)) {
+      earnings.push({ source: 'bounties', currency: 'CELO', amount: ethers.formatEther(bounties) });
+    }
+    symbols.forEach((symbol, index) => {
+      if (tokenAmounts[index] > BigInt(0)) {
+        earnings.push({ source: 'bounties', currency: symbol, amount: ethers.formatUnits(tokenAmounts[index], TOKEN_DECIMALS[symbol]) });
+      }
+    });
+
+    if (verification > BigInt(0)) {
+      earnings.push({ source: 'verification', currency: 'CELO', amount: ethers.formatEther(verification) });
+    }
+
+    return earnings;
+  }
+
+  async claimEarnings(): Promise<void> {
+    const account = await this.getAccount();
+    if (!account) {
+      throw new Error('Wallet not connected');
+    }
+
+    // One withdrawal per credited balance; each pays out the full amount
+    for (const earning of await this.getClaimableEarnings(account)) {
+      let tx;
+      if (earning.source === 'verification') {
+        tx = await this.getVerificationContract().withdraw();
+      } else if (earning.currency === 'CELO') {
+        tx = await this.getBountyPool().withdraw();
+      } else {
+        tx = await this.getBountyPool().withdrawToken(minipayService.getTokenAddress(earning.currency));
+      }
+      await tx.wait();
+    }
   }
 
   async getWorkerActiveTasks(workerAddress: string): Promise<number[]> {
@@ -218,7 +747,7 @@ class BlockchainService {
       
       // Try to call the method - handle case where it might not exist or return empty
       try {
-        const activeTasks = await taskManager.getWorkerActiveTasks(workerAddress);
+        const activeTasks = await this.read(taskManager, 'getWorkerActiveTasks', workerAddress);
         if (!activeTasks || activeTasks.length === 0) {
           return [];
         }
@@ -241,113 +770,50 @@ class BlockchainService {
     description: string,
     category: number,
     bountyAmount: bigint,
-    currency: 'CELO' | 'cUSD',
+    currency: 'CELO' | StablecoinSymbol,
     maxWorkers: number,
     location: { latitude: bigint; longitude: bigint; radius: bigint },
     deadline: number,
-    requirements: { photoCount: number; requiresLocation: boolean; minReputation: number; requiredBadge: number }
-  ): Promise<bigint> {
+    requirements: { photoCount: number; requiresLocation: boolean; minReputation: number; requiredBadge: number; requiresBadge: boolean }
+  ): Promise<{ taskId: bigint; escrowedAmount: bigint }> {
     if (!this.signer) {
       throw new Error('Wallet not connected');
     }
 
+    if (currency !== 'CELO') {
+      return this.createTaskWithToken(
+        description,
+        category,
+        bountyAmount,
+        currency,
+        maxWorkers,
+        location,
+        deadline,
+        requirements
+      );
+    }
+
     const address = await this.signer.getAddress();
     const taskManager = this.getTaskManager();
     const bountyPool = this.getBountyPool();
-    const bountyPoolAddress = await bountyPool.getAddress();
-    
-    // Handle cUSD payments
-    if (currency === 'cUSD') {
-      // Check cUSD balance
-      if (!minipayService.isAvailable()) {
-        throw new Error('MiniPay not available. cUSD payments require MiniPay or MetaMask.');
-      }
-      
-      await minipayService.initialize();
-      const cusdBalance = await minipayService.getTokenBalance('cUSD');
-      const bountyAmountFormatted = ethers.formatEther(bountyAmount);
-      
-      if (parseFloat(cusdBalance) < parseFloat(bountyAmountFormatted)) {
-        throw new Error(
-          `Insufficient cUSD. You need ${bountyAmountFormatted} cUSD but you only have ${cusdBalance} cUSD. Please add more cUSD to your wallet.`
-        );
-      }
-      
-      // Transfer cUSD to BountyPool contract
-      const cusdTx = await minipayService.transferToken('cUSD', bountyPoolAddress, bountyAmountFormatted);
-      await cusdTx.wait();
-      
-      // Check CELO balance for gas
-      const celoBalance = await this.provider!.getBalance(address);
-      const estimatedGas = BigInt(500000);
-      const feeData = await this.provider!.getFeeData();
-      const gasPrice = feeData.gasPrice || BigInt(0);
-      const estimatedGasCost = estimatedGas * gasPrice;
-      
-      if (celoBalance < estimatedGasCost) {
-        const balanceFormatted = ethers.formatEther(celoBalance);
-        const neededFormatted = ethers.formatEther(estimatedGasCost);
-        throw new Error(
-          `Insufficient CELO for gas. You need ${neededFormatted} CELO for gas fees, but you only have ${balanceFormatted} CELO. Please add CELO to your wallet.`
-        );
-      }
-      
-      // Create task with 0 value since cUSD was already transferred
-      // Note: This assumes the contract can handle 0 value when cUSD is already in the pool
-      // You may need to modify the contract to support this, or use a different approach
-      try {
-        const tx = await taskManager.createTask(
-          description,
-          category,
-          bountyAmount, // Still pass the amount for validation
-          maxWorkers,
-          location,
-          deadline,
-          requirements,
-          { value: 0 } // No native currency sent
-        );
-        const receipt = await tx.wait();
-        
-        // Extract task ID from event
-        const taskCreatedEvent = receipt?.logs.find((log: any) => {
-          try {
-            const parsed = taskManager.interface.parseLog(log);
-            return parsed?.name === 'TaskCreated';
-          } catch {
-            return false;
-          }
-        });
-        
-        if (taskCreatedEvent) {
-          const parsed = taskManager.interface.parseLog(taskCreatedEvent);
-          return parsed?.args[0] as bigint;
-        }
-        
-        throw new Error('Task created but could not extract task ID');
-      } catch (error: any) {
-        // If contract rejects 0 value, we need to handle it differently
-        if (error.message?.includes('InsufficientBounty') || error.message?.includes('value')) {
-          throw new Error('Contract does not support cUSD payments with 0 value. Please use CELO or update the contract.');
-        }
-        throw error;
-      }
-    }
-    
-    // Handle CELO payments (original flow)
+
+    // The contract escrows the bounty for every worker slot up front
+    const totalEscrow = bountyAmount * BigInt(maxWorkers);
+
     // Check balance before attempting transaction
     const balance = await this.provider!.getBalance(address);
     const estimatedGas = BigInt(500000); // Rough estimate for gas
     const feeData = await this.provider!.getFeeData();
     const gasPrice = feeData.gasPrice || BigInt(0);
     const estimatedGasCost = estimatedGas * gasPrice;
-    const totalNeeded = bountyAmount + estimatedGasCost;
+    const totalNeeded = totalEscrow + estimatedGasCost;
 
     if (balance < totalNeeded) {
       const balanceFormatted = ethers.formatEther(balance);
       const neededFormatted = ethers.formatEther(totalNeeded);
-      const bountyFormatted = ethers.formatEther(bountyAmount);
+      const escrowFormatted = ethers.formatEther(totalEscrow);
       throw new Error(
-        `Insufficient funds. You need ${neededFormatted} CELO (${bountyFormatted} for bounty + gas fees), but you only have ${balanceFormatted} CELO. Please add more funds to your wallet.`
+        `Insufficient funds. You need ${neededFormatted} CELO (${escrowFormatted} for the bounty escrow + gas fees), but you only have ${balanceFormatted} CELO. Please add more funds to your wallet.`
       );
     }
     
@@ -360,39 +826,170 @@ class BlockchainService {
         location,
         deadline,
         requirements,
-        { value: bountyAmount }
+        { value: totalEscrow }
       );
       const receipt = await tx.wait();
       
       // Extract task ID from event
-      const taskCreatedEvent = receipt?.logs.find((log: any) => {
-        try {
-          const parsed = taskManager.interface.parseLog(log);
-          return parsed?.name === 'TaskCreated';
-        } catch {
-          return false;
-        }
-      });
-      
-      if (taskCreatedEvent) {
-        const parsed = taskManager.interface.parseLog(taskCreatedEvent);
-        return parsed?.args[0] as bigint;
+      const taskCreated = this.findReceiptEvent(receipt, taskManager.interface, 'TaskCreated');
+      if (!taskCreated) {
+        throw new Error('Task created but could not extract task ID');
       }
-      
-      throw new Error('Task created but could not extract task ID');
+      const taskId = taskCreated.args[0] as bigint;
+
+      // Confirm the bounty landed in escrow
+      const deposit = this.findReceiptEvent(receipt, bountyPool.interface, 'BountyDeposited');
+      if (!deposit || (deposit.args[0] as bigint) !== taskId) {
+        throw new Error(`Task ${taskId} created but the bounty deposit could not be confirmed`);
+      }
+
+      return { taskId, escrowedAmount: deposit.args[2] as bigint };
     } catch (error: any) {
       // Provide more helpful error messages
       if (error.message?.includes('insufficient funds') || error.code === 'INSUFFICIENT_FUNDS') {
         const balanceFormatted = ethers.formatEther(balance);
-        const bountyFormatted = ethers.formatEther(bountyAmount);
+        const escrowFormatted = ethers.formatEther(totalEscrow);
         throw new Error(
-          `Insufficient funds. You need at least ${bountyFormatted} cUSD for the bounty plus gas fees, but you only have ${balanceFormatted} CELO. Please add more funds.`
+          `Insufficient funds. You need at least ${escrowFormatted} CELO for the bounty escrow plus gas fees, but you only have ${balanceFormatted} CELO. Please add more funds.`
         );
       }
       throw error;
     }
   }
 
+  private async createTaskWithToken(
+    description: string,
+    category: number,
+    bountyAmount: bigint,
+    currency: StablecoinSymbol,
+    maxWorkers: number,
+    location: { latitude: bigint; longitude: bigint; radius: bigint },
+    deadline: number,
+    requirements: { photoCount: number; requiresLocation: boolean; minReputation: number; requiredBadge: number; requiresBadge: boolean }
+  ): Promise<{ taskId: bigint; escrowedAmount: bigint }> {
+    const taskManager = this.getTaskManager();
+    const bountyPool = this.getBountyPool();
+    const decimals = TOKEN_DECIMALS[currency];
+
+    // The contract escrows the bounty for every worker slot up front
+    const totalEscrow = bountyAmount * BigInt(maxWorkers);
+
+    const balance = ethers.parseUnits(await minipayService.getTokenBalance(currency), decimals);
+    if (balance < totalEscrow) {
+      throw new Error(
+        `Insufficient funds. You need ${ethers.formatUnits(totalEscrow, decimals)} ${currency} for the bounty escrow, but you only have ${ethers.formatUnits(balance, decimals)} ${currency}.`
+      );
+    }
+
+    // BountyPool pulls the escrow with transferFrom, so it needs an allowance first
+    await minipayService.ensureAllowance(currency, await bountyPool.getAddress(), totalEscrow);
+
+    const tx = await taskManager.createTaskWithToken(
+      description,
+      category,
+      bountyAmount,
+      maxWorkers,
+      location,
+      deadline,
+      requirements,
+      minipayService.getTokenAddress(currency)
+    );
+    const receipt = await tx.wait();
+
+    const taskCreated = this.findReceiptEvent(receipt, taskManager.interface, 'TaskCreated');
+    if (!taskCreated) {
+      throw new Error('Task created but could not extract task ID');
+    }
+    const taskId = taskCreated.args[0] as bigint;
+
+    const deposit = this.findReceiptEvent(receipt, bountyPool.interface, 'TokenBountyDeposited');
+    if (!deposit || (deposit.args[0] as bigint) !== taskId) {
+      throw new Error(`Task ${taskId} created but the bounty deposit could not be confirmed`);
+    }
+
+    return { taskId, escrowedAmount: deposit.args[3] as bigint };
+  }
+
+  // Pre-funds every occurrence; the first one opens at the current block and stays open
+  // until `deadline`, and each later one opens `interval` seconds after the previous
+  async createSchedule(
+    params: {
+      description: string;
+      category: number;
+      bountyAmount: bigint;
+      workersPerLocation: number;
+      requirements: { photoCount: number; requiresLocation: boolean; minReputation: number; requiredBadge: number; requiresBadge: boolean };
+    },
+    currency: 'CELO' | StablecoinSymbol,
+    location: { latitude: bigint; longitude: bigint; radius: bigint },
+    deadline: number,
+    interval: number,
+    occurrences: number
+  ): Promise<{ scheduleId: bigint; budget: bigint; firstTaskId: bigint | null }> {
+    if (!this.signer) {
+      throw new Error('Wallet not connected');
+    }
+
+    const taskManager = this.getTaskManager();
+    const bountyPool = this.getBountyPool();
+
+    // Use chain time so the first occurrence is due as soon as the schedule exists
+    const startTime = (await this.provider!.getBlock('latest'))!.timestamp;
+    const timing = { startTime, interval, taskDuration: deadline - startTime, occurrences };
+    const campaignParams = { ...params, deadline: 0 }; // Derived from the timing on-chain
+    const budget = params.bountyAmount * BigInt(params.workersPerLocation) * BigInt(occurrences);
+
+    let tx;
+    if (currency === 'CELO') {
+      tx = await taskManager.createSchedule(campaignParams, location, timing, { value: budget });
+    } else {
+      await minipayService.ensureAllowance(currency, await bountyPool.getAddress(), budget);
+      tx = await taskManager.createScheduleWithToken(
+        campaignParams,
+        location,
+        timing,
+        minipayService.getTokenAddress(currency)
+      );
+    }
+    const receipt = await tx.wait();
+
+    const scheduleCreated = this.findReceiptEvent(receipt, taskManager.interface, 'ScheduleCreated');
+    if (!scheduleCreated) {
+      throw new Error('Schedule created but could not extract schedule ID');
+    }
+    const scheduleId = scheduleCreated.args[0] as bigint;
+
+    // Open the first occurrence now rather than waiting for a keeper
+    let firstTaskId: bigint | null = null;
+    try {
+      const spawnReceipt = await (await taskManager.spawnDue(scheduleId)).wait();
+      const spawned = this.findReceiptEvent(spawnReceipt, taskManager.interface, 'ScheduleOccurrenceSpawned');
+      firstTaskId = spawned ? (spawned.args[2] as bigint) : null;
+    } catch (error) {
+      console.warn(`Schedule ${scheduleId} created; its first occurrence will be spawned by a keeper`, error);
+    }
+
+    return { scheduleId, budget, firstTaskId };
+  }
+
+  private findReceiptEvent(
+    receipt: ethers.TransactionReceipt | null,
+    contractInterface: ethers.Interface,
+    eventName: string
+  ): ethers.LogDescription | null {
+    for (const log of receipt?.logs ?? []) {
+      try {
+        const parsed = contractInterface.parseLog(log);
+        if (parsed?.name === eventName) {
+          return parsed;
+        }
+      } catch {
+        // Log belongs to another contract
+      }
+    }
+    return null;
+  }
+
   getBountyPool(): BountyPool {
     if (!this.bountyPool) {
       throw new Error('BountyPool contract not loaded');
@@ -445,7 +1042,7 @@ class BlockchainService {
       // Get worker's active tasks - handle case where method might not be available
       let activeTasks: bigint[] = [];
       try {
-        activeTasks = await taskManager.getWorkerActiveTasks(workerAddress);
+        activeTasks = await this.read(taskManager, 'getWorkerActiveTasks', workerAddress);
       } catch (error: any) {
         // If method doesn't exist or returns empty, return 0
         if (error.code === 'BAD_DATA' || error.message?.includes('could not decode')) {
@@ -460,22 +1057,25 @@ class BlockchainService {
         return '0';
       }
       
-      // Sum up bounties for active tasks
-      let totalPending = BigInt(0);
-      for (const taskId of activeTasks) {
-        try {
-          const task = await taskManager.getTask(Number(taskId));
-          // If task is still active/in progress and not verified, add to pending
-          // Convert bigint status to number for comparison
-          const statusNum = Number(task.status);
-          if (statusNum === 0 || statusNum === 1) {
-            const bounty = await bountyPool.getTaskBounty(Number(taskId));
-            totalPending += bounty;
+      // Sum up bounties for active tasks; every task and bounty read goes out in one batch
+      const pending = await Promise.all(
+        activeTasks.map(async (taskId) => {
+          try {
+            const [task, bounty] = await Promise.all([
+              this.read(taskManager, 'getTask', taskId),
+              this.read(bountyPool, 'getTaskBounty', taskId),
+            ]);
+            // If task is still active/in progress and not verified, add to pending
+            // Convert bigint status to number for comparison
+            const statusNum = Number(task.status);
+            return statusNum === 0 || statusNum === 1 ? bounty : BigInt(0);
+          } catch (error) {
+            // Task might not exist, continue
+            return BigInt(0);
           }
-        } catch (error) {
-          // Task might not exist, continue
-        }
-      }
+        })
+      );
+      const totalPending = pending.reduce((sum, bounty) => sum + bounty, BigInt(0));
       
       return ethers.formatEther(totalPending);
     } catch (error) {
@@ -0,0 +1,90 @@
+// Client for the event indexer in indexer/. Set VITE_INDEXER_URL (e.g. http://localhost:4000)
+// to read task, campaign and submission lists from it instead of the chain; leave it unset to
+// read contracts and scan logs directly.
+
+// The indexer's maximum page size
+const PAGE_SIZE = 100;
+
+export interface IndexerPage<T> {
+  items: T[];
+  total: number;
+}
+
+// Amounts are wei strings and coordinates microdegrees, as stored on-chain
+export interface IndexedTask {
+  id: number;
+  creator: string;
+  description: string;
+  category: number;
+  bountyAmount: string;
+  maxWorkers: number;
+  location: { latitude: number; longitude: number; radius: number };
+  deadline: number;
+  status: number;
+  submissionCount: number;
+  verifiedCount: number;
+  createdAt: number;
+  token: string;
+  campaignId: number | null;
+}
+
+export interface IndexedCampaign {
+  id: number;
+  creator: string;
+  closed: boolean;
+}
+
+export interface IndexedSubmission {
+  id: number;
+  taskId: number;
+  worker: string;
+  status: number;
+}
+
+class IndexerService {
+  constructor(private baseUrl: string) {}
+
+  private async get<T>(path: string, params: Record<string, string | number | undefined>): Promise<T> {
+    const url = new URL(path, this.baseUrl);
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    });
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`Indexer request failed: ${body?.error ?? response.statusText}`);
+    }
+    return response.json();
+  }
+
+  // Follows the pages of a list endpoint until every matching item is loaded
+  private async getAll<T>(path: string, filters: Record<string, string | number | undefined>): Promise<T[]> {
+    const items: T[] = [];
+    for (;;) {
+      const page = await this.get<IndexerPage<T>>(path, { ...filters, offset: items.length, limit: PAGE_SIZE });
+      items.push(...page.items);
+      if (page.items.length === 0 || items.length >= page.total) {
+        return items;
+      }
+    }
+  }
+
+  getTasks(filters: { status?: number; creator?: string }, offset: number, limit: number): Promise<IndexerPage<IndexedTask>> {
+    return this.get('/api/tasks', { ...filters, offset, limit });
+  }
+
+  getCampaigns(creator: string): Promise<IndexedCampaign[]> {
+    return this.getAll('/api/campaigns', { creator });
+  }
+
+  getSubmissions(filters: { status?: number; worker?: string }): Promise<IndexedSubmission[]> {
+    return this.getAll('/api/submissions', filters);
+  }
+}
+
+const INDEXER_URL = import.meta.env.VITE_INDEXER_URL;
+
+export const indexerService = INDEXER_URL ? new IndexerService(INDEXER_URL) : null;
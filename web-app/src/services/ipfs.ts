@@ -62,3 +62,9 @@ class IPFSService {
 
 export const ipfsService = new IPFSService();
 
+// Uploads need a web3.storage token; reading through the gateway works without one
+const WEB3_STORAGE_TOKEN = import.meta.env.VITE_WEB3_STORAGE_TOKEN;
+if (WEB3_STORAGE_TOKEN) {
+  ipfsService.initialize(WEB3_STORAGE_TOKEN);
+}
+
@@ -4,10 +4,19 @@ import { ethers } from 'ethers';
 const TOKEN_ADDRESSES = {
   CELO: '0x471EcE3750Da237f93B8E339c536989b8978a438',
   cUSD: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
-  USDC: '0xceba9300f2b5b6e3B8F8F8F8F8F8F8F8F8F8F8F8', // Update with actual USDC address
+  USDC: '0xcebA9300f2b948710d2653dD7B07f33A8B32118C',
   USDT: '0x48065fbBE25f71C9282ddf5e1cD6D6A887483D5e',
 };
 
+export type StablecoinSymbol = 'cUSD' | 'USDC' | 'USDT';
+
+// Decimals of the stablecoins accepted for task bounties
+export const TOKEN_DECIMALS: Record<StablecoinSymbol, number> = {
+  cUSD: 18,
+  USDC: 6,
+  USDT: 6,
+};
+
 // ERC20 ABI for token operations
 const ERC20_ABI = [
   'function balanceOf(address owner) view returns (uint256)',
@@ -78,7 +87,7 @@ class MiniPayService {
   /**
    * Get token balance (cUSD, USDC, USDT)
    */
-  async getTokenBalance(tokenSymbol: 'cUSD' | 'USDC' | 'USDT'): Promise<string> {
+  async getTokenBalance(tokenSymbol: StablecoinSymbol): Promise<string> {
     if (!this.provider) {
       await this.initialize();
     }
@@ -147,11 +156,50 @@ class MiniPayService {
     return tokens;
   }
 
+  /**
+   * Get the contract address of a token (cUSD, USDC, USDT)
+   */
+  getTokenAddress(tokenSymbol: StablecoinSymbol): string {
+    return TOKEN_ADDRESSES[tokenSymbol];
+  }
+
+  /**
+   * Look up which stablecoin a token address belongs to
+   */
+  getTokenSymbol(tokenAddress: string): StablecoinSymbol | null {
+    const symbols = Object.keys(TOKEN_DECIMALS) as StablecoinSymbol[];
+    return symbols.find((symbol) => TOKEN_ADDRESSES[symbol].toLowerCase() === tokenAddress.toLowerCase()) ?? null;
+  }
+
+  /**
+   * Approve a spender for at least `amount` of a token, skipping the
+   * transaction when the existing allowance already covers it
+   */
+  async ensureAllowance(
+    tokenSymbol: StablecoinSymbol,
+    spender: string,
+    amount: bigint
+  ): Promise<void> {
+    if (!this.signer) {
+      await this.initialize();
+    }
+
+    const owner = await this.getAddress();
+    const contract = new ethers.Contract(TOKEN_ADDRESSES[tokenSymbol], ERC20_ABI, this.signer!);
+    const allowance: bigint = await contract.allowance(owner, spender);
+    if (allowance >= amount) {
+      return;
+    }
+
+    const tx = await contract.approve(spender, amount);
+    await tx.wait();
+  }
+
   /**
    * Transfer tokens (cUSD, USDC, USDT)
    */
   async transferToken(
-    tokenSymbol: 'cUSD' | 'USDC' | 'USDT',
+    tokenSymbol: StablecoinSymbol,
     to: string,
     amount: string
   ): Promise<ethers.ContractTransactionResponse> {
@@ -0,0 +1,119 @@
+import { ethers } from 'ethers';
+import { Multicall3 } from '../../typechain-types/contracts/mocks/Multicall3';
+import { Multicall3__factory } from '../../typechain-types/factories/contracts/mocks/Multicall3__factory';
+
+// Canonical Multicall3 deployment on Celo mainnet and Alfajores; local chains use the
+// address deploy.ts records in deployments.json
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// Keeps a single eth_call well under node gas caps
+const MAX_CALLS_PER_BATCH = 100;
+
+// Argument and result types of a typechain view method
+export type ViewArgs<M> = M extends { staticCall: (...args: infer A) => Promise<any> } ? A : never;
+export type ViewResult<M> = M extends { staticCall: (...args: any[]) => Promise<infer R> } ? R : never;
+
+interface PendingRead {
+  target: string;
+  callData: string;
+  contractInterface: ethers.Interface;
+  method: string;
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+}
+
+// Coalesces view calls made in the same tick into one Multicall3 aggregate3 request,
+// so a render that fires a dozen reads costs one round trip
+export class MulticallBatcher {
+  private queue: PendingRead[] = [];
+  private multicall: Multicall3 | null;
+
+  constructor(private provider: ethers.Provider, multicallAddress: string | null) {
+    this.multicall = multicallAddress ? Multicall3__factory.connect(multicallAddress, provider) : null;
+  }
+
+  read<C extends ethers.BaseContract, K extends keyof C & string>(
+    contract: C,
+    method: K,
+    args: ViewArgs<C[K]>
+  ): Promise<ViewResult<C[K]>> {
+    return new Promise((resolve, reject) => {
+      if (this.queue.length === 0) {
+        setTimeout(() => this.flush(), 0);
+      }
+      this.queue.push({
+        target: contract.target as string,
+        callData: contract.interface.encodeFunctionData(method, args),
+        contractInterface: contract.interface,
+        method,
+        resolve,
+        reject,
+      });
+    });
+  }
+
+  private async flush() {
+    const pending = this.queue;
+    this.queue = [];
+
+    for (let i = 0; i < pending.length; i += MAX_CALLS_PER_BATCH) {
+      const batch = pending.slice(i, i + MAX_CALLS_PER_BATCH);
+      try {
+        await this.execute(batch);
+      } catch (error: any) {
+        batch.forEach((read) => read.reject(error));
+      }
+    }
+  }
+
+  private async execute(batch: PendingRead[]): Promise<void> {
+    if (!this.multicall) {
+      await Promise.all(
+        batch.map(async (read) => {
+          try {
+            const returnData = await this.provider.call({ to: read.target, data: read.callData });
+            read.resolve(this.decode(read, returnData));
+          } catch (error: any) {
+            read.reject(error);
+          }
+        })
+      );
+      return;
+    }
+
+    let results: Multicall3.ResultStructOutput[];
+    try {
+      results = await this.multicall.aggregate3.staticCall(
+        batch.map((read) => ({ target: read.target, allowFailure: true, callData: read.callData }))
+      );
+    } catch (error: any) {
+      // No Multicall3 at the configured address: fall back to one eth_call per read
+      if (error.code === 'BAD_DATA') {
+        console.warn('Multicall3 unavailable, reading contracts individually');
+        this.multicall = null;
+        return this.execute(batch);
+      }
+      throw error;
+    }
+
+    results.forEach((result, index) => {
+      const read = batch[index];
+      if (!result.success) {
+        const reason = read.contractInterface.parseError(result.returnData);
+        read.reject(new Error(reason ? `${read.method} reverted with ${reason.name}(${reason.args.join(', ')})` : `${read.method} reverted`));
+        return;
+      }
+      try {
+        read.resolve(this.decode(read, result.returnData));
+      } catch (error: any) {
+        read.reject(error);
+      }
+    });
+  }
+
+  // Unwrap single return values the way ethers contract calls do
+  private decode(read: PendingRead, returnData: string) {
+    const result = read.contractInterface.decodeFunctionResult(read.method, returnData);
+    return result.length === 1 ? result[0] : result;
+  }
+}
@@ -0,0 +1,55 @@
+import type { AppDispatch, RootState } from './index';
+import { blockchainService } from '../services/blockchain';
+import { refreshTask } from './slices/taskSlice';
+import { fetchActiveTasks, fetchReputation } from './slices/userSlice';
+import { consensusReached, fetchPendingVerifications, voteRecorded } from './slices/verificationSlice';
+import { fetchBalance } from './slices/walletSlice';
+
+const isSameAddress = (a: string | null, b: string) => !!a && a.toLowerCase() === b.toLowerCase();
+
+// Keeps the store in sync with contract events; returns a function that stops listening
+export const startLiveUpdates = () => (dispatch: AppDispatch, getState: () => RootState) =>
+  blockchainService.subscribeToEvents({
+    onTaskCreated: (taskId) => {
+      dispatch(refreshTask({ taskId, isNew: true }));
+    },
+    onTaskClaimed: (taskId, worker) => {
+      dispatch(refreshTask({ taskId }));
+      const { address } = getState().wallet;
+      if (isSameAddress(address, worker)) {
+        dispatch(fetchActiveTasks(address!));
+      }
+    },
+    onTaskSubmitted: (taskId, worker) => {
+      dispatch(refreshTask({ taskId }));
+      dispatch(fetchPendingVerifications());
+      const { address } = getState().wallet;
+      if (isSameAddress(address, worker)) {
+        dispatch(fetchActiveTasks(address!));
+      }
+    },
+    onVoteSubmitted: (submissionId, _verifier, approved) => {
+      dispatch(voteRecorded({ submissionId, approved }));
+    },
+    onConsensusReached: async (submissionId, status) => {
+      dispatch(consensusReached({ submissionId, status }));
+      try {
+        const verificationContract = blockchainService.getVerificationContract();
+        const submission = await blockchainService.read(verificationContract, 'getSubmission', submissionId);
+        dispatch(refreshTask({ taskId: Number(submission.taskId) }));
+
+        // Rewards and reputation change for the worker and everyone who voted
+        const { address } = getState().wallet;
+        if (!address) {
+          return;
+        }
+        const vote = await blockchainService.read(verificationContract, 'getVote', submissionId, address);
+        if (isSameAddress(address, submission.worker) || vote.hasVoted) {
+          dispatch(fetchReputation(address));
+          dispatch(fetchBalance());
+        }
+      } catch (error) {
+        console.error(`Failed to refresh submission ${submissionId}:`, error);
+      }
+    },
+  });
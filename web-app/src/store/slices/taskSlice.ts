@@ -1,6 +1,7 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { ethers } from 'ethers';
-import { blockchainService } from '../../services/blockchain';
+import { blockchainService, TaskPageCursor } from '../../services/blockchain';
+import { StablecoinSymbol, TOKEN_DECIMALS } from '../../services/minipay';
 
 export interface Task {
   id: number;
@@ -21,8 +22,43 @@ export interface Task {
   distance?: number;
 }
 
+export interface CreatedTask {
+  id: number;
+  description: string;
+  deadline: number;
+  status: number;
+  bountyAmount: string;
+  maxWorkers: number;
+  submissionCount: number;
+  currency: string;
+  escrowed: string;
+  reclaimable: string;
+  awaitingExpiry: boolean;
+}
+
+// Spent and refunded amounts are before platform fees
+export interface CreatedCampaign {
+  id: number;
+  description: string;
+  deadline: number;
+  closed: boolean;
+  currency: string;
+  taskCount: number;
+  budget: string;
+  unallocated: string;
+  spent: string;
+  refunded: string;
+  remaining: string;
+}
+
+export const TASK_PAGE_SIZE = 20;
+
 interface TaskState {
   tasks: Task[];
+  tasksCursor: TaskPageCursor | null; // null once every open task is loaded
+  loadingMore: boolean;
+  createdTasks: CreatedTask[];
+  createdCampaigns: CreatedCampaign[];
   activeTasks: number[];
   claimedTasks: number[];
   loading: boolean;
@@ -31,20 +67,54 @@ interface TaskState {
 
 const initialState: TaskState = {
   tasks: [],
+  tasksCursor: null,
+  loadingMore: false,
+  createdTasks: [],
+  createdCampaigns: [],
   activeTasks: [],
   claimedTasks: [],
   loading: false,
   error: null,
 };
 
-export const fetchTasks = createAsyncThunk('tasks/fetchTasks', async (_, { rejectWithValue }) => {
-  try {
-    const tasks = await blockchainService.getAllTasks();
-    return tasks;
-  } catch (error: any) {
-    return rejectWithValue(error.message || 'Failed to fetch tasks');
+// Loads the feed from the top; pass the number of tasks already shown to refresh them all
+export const fetchTasks = createAsyncThunk(
+  'tasks/fetchTasks',
+  async (limit: number | undefined, { rejectWithValue }) => {
+    try {
+      return await blockchainService.getOpenTasksPage({ status: 0, offset: 0 }, limit ?? TASK_PAGE_SIZE);
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to fetch tasks');
+    }
   }
-});
+);
+
+export const fetchMoreTasks = createAsyncThunk(
+  'tasks/fetchMoreTasks',
+  async (_, { getState, rejectWithValue }) => {
+    const { tasksCursor } = (getState() as { tasks: TaskState }).tasks;
+    if (!tasksCursor) {
+      return { tasks: [], nextCursor: null };
+    }
+    try {
+      return await blockchainService.getOpenTasksPage(tasksCursor, TASK_PAGE_SIZE);
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to fetch more tasks');
+    }
+  }
+);
+
+// Re-reads one task after a contract event; new tasks are added to the top of the feed
+export const refreshTask = createAsyncThunk(
+  'tasks/refreshTask',
+  async ({ taskId }: { taskId: number; isNew?: boolean }, { rejectWithValue }) => {
+    try {
+      return await blockchainService.getFeedTask(taskId);
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to refresh task');
+    }
+  }
+);
 
 export const claimTask = createAsyncThunk(
   'tasks/claimTask',
@@ -84,16 +154,18 @@ export const createTask = createAsyncThunk(
       description: string;
       category: number;
       bountyAmount: string;
-      currency: 'CELO' | 'cUSD';
+      currency: 'CELO' | StablecoinSymbol;
       maxWorkers: number;
       location: { latitude: number; longitude: number; radius: number };
       deadline: number;
-      requirements: { photoCount: number; requiresLocation: boolean; minReputation: number; requiredBadge: number };
+      requirements: { photoCount: number; requiresLocation: boolean; minReputation: number; requiredBadge: number; requiresBadge: boolean };
     },
     { rejectWithValue }
   ) => {
     try {
-      const bountyWei = ethers.parseEther(bountyAmount);
+      // Stablecoin bounties are denominated in the token's own decimals
+      const decimals = currency === 'CELO' ? 18 : TOKEN_DECIMALS[currency];
+      const bountyWei = ethers.parseUnits(bountyAmount, decimals);
       
       // Convert location to contract format (scaled by 1e6)
       const contractLocation = {
@@ -102,7 +174,7 @@ export const createTask = createAsyncThunk(
         radius: BigInt(location.radius),
       };
 
-      const taskId = await blockchainService.createTask(
+      const { taskId, escrowedAmount } = await blockchainService.createTask(
         description,
         category,
         bountyWei,
@@ -113,13 +185,81 @@ export const createTask = createAsyncThunk(
         requirements
       );
 
-      return { taskId: Number(taskId), description, bountyAmount, currency };
+      return {
+        taskId: Number(taskId),
+        description,
+        bountyAmount,
+        currency,
+        escrowedAmount: ethers.formatUnits(escrowedAmount, decimals),
+      };
     } catch (error: any) {
       return rejectWithValue(error.message || 'Failed to create task');
     }
   }
 );
 
+export const createSchedule = createAsyncThunk(
+  'tasks/createSchedule',
+  async (
+    {
+      description,
+      category,
+      bountyAmount,
+      currency,
+      maxWorkers,
+      location,
+      deadline,
+      requirements,
+      intervalDays,
+      occurrences,
+    }: {
+      description: string;
+      category: number;
+      bountyAmount: string;
+      currency: 'CELO' | StablecoinSymbol;
+      maxWorkers: number;
+      location: { latitude: number; longitude: number; radius: number };
+      deadline: number;
+      requirements: { photoCount: number; requiresLocation: boolean; minReputation: number; requiredBadge: number; requiresBadge: boolean };
+      intervalDays: number;
+      occurrences: number;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      const decimals = currency === 'CELO' ? 18 : TOKEN_DECIMALS[currency];
+
+      const { scheduleId, budget, firstTaskId } = await blockchainService.createSchedule(
+        {
+          description,
+          category,
+          bountyAmount: ethers.parseUnits(bountyAmount, decimals),
+          workersPerLocation: maxWorkers,
+          requirements,
+        },
+        currency,
+        {
+          latitude: BigInt(Math.floor(location.latitude * 1e6)),
+          longitude: BigInt(Math.floor(location.longitude * 1e6)),
+          radius: BigInt(location.radius),
+        },
+        deadline,
+        intervalDays * 24 * 60 * 60,
+        occurrences
+      );
+
+      return {
+        scheduleId: Number(scheduleId),
+        firstTaskId: firstTaskId === null ? null : Number(firstTaskId),
+        currency,
+        budget: ethers.formatUnits(budget, decimals),
+      };
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to create schedule');
+    }
+  }
+);
+
 export const submitTask = createAsyncThunk(
   'tasks/submitTask',
   async (
@@ -130,13 +270,131 @@ export const submitTask = createAsyncThunk(
       const taskManager = blockchainService.getTaskManager();
       const tx = await taskManager.submitTaskCompletion(taskId, ipfsHash, location);
       await tx.wait();
-      return { taskId, ipfsHash };
+
+      // Look up the verification queue entry created for this submission
+      const address = await blockchainService.getAccount();
+      const submissionId = address ? Number(await blockchainService.read(taskManager, 'getSubmissionId', taskId, address)) : null;
+
+      return { taskId, ipfsHash, submissionId };
     } catch (error: any) {
       return rejectWithValue(error.message);
     }
   }
 );
 
+export const fetchCreatedTasks = createAsyncThunk(
+  'tasks/fetchCreatedTasks',
+  async (address: string, { rejectWithValue }) => {
+    try {
+      return (await blockchainService.getCreatorTasks(address)) as CreatedTask[];
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to fetch your tasks');
+    }
+  }
+);
+
+export const fetchCreatedCampaigns = createAsyncThunk(
+  'tasks/fetchCreatedCampaigns',
+  async (address: string, { rejectWithValue }) => {
+    try {
+      return (await blockchainService.getCreatorCampaigns(address)) as CreatedCampaign[];
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to fetch your campaigns');
+    }
+  }
+);
+
+export const closeCampaign = createAsyncThunk(
+  'tasks/closeCampaign',
+  async ({ campaignId, address }: { campaignId: number; address: string }, { rejectWithValue, dispatch }) => {
+    try {
+      await blockchainService.closeCampaign(campaignId);
+      dispatch(fetchCreatedCampaigns(address));
+      return campaignId;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to close campaign');
+    }
+  }
+);
+
+export const reclaimTaskFunds = createAsyncThunk(
+  'tasks/reclaimTaskFunds',
+  async (
+    { taskId, awaitingExpiry, address }: { taskId: number; awaitingExpiry: boolean; address: string },
+    { rejectWithValue, dispatch }
+  ) => {
+    try {
+      await blockchainService.reclaimTaskFunds(taskId, awaitingExpiry);
+      dispatch(fetchCreatedTasks(address));
+      return taskId;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to reclaim funds');
+    }
+  }
+);
+
+export const cancelTask = createAsyncThunk(
+  'tasks/cancelTask',
+  async ({ taskId, address }: { taskId: number; address: string }, { rejectWithValue, dispatch }) => {
+    try {
+      await blockchainService.cancelTask(taskId);
+      dispatch(fetchCreatedTasks(address));
+      return taskId;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to cancel task');
+    }
+  }
+);
+
+export const extendTaskDeadline = createAsyncThunk(
+  'tasks/extendTaskDeadline',
+  async (
+    { taskId, deadline, address }: { taskId: number; deadline: number; address: string },
+    { rejectWithValue, dispatch }
+  ) => {
+    try {
+      await blockchainService.extendTaskDeadline(taskId, deadline);
+      dispatch(fetchCreatedTasks(address));
+      return taskId;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to extend deadline');
+    }
+  }
+);
+
+export const increaseTaskBounty = createAsyncThunk(
+  'tasks/increaseTaskBounty',
+  async (
+    { taskId, bountyAmount, currency, address }: { taskId: number; bountyAmount: string; currency: string; address: string },
+    { rejectWithValue, dispatch }
+  ) => {
+    try {
+      const decimals = currency in TOKEN_DECIMALS ? TOKEN_DECIMALS[currency as StablecoinSymbol] : 18;
+      await blockchainService.increaseTaskBounty(taskId, ethers.parseUnits(bountyAmount, decimals));
+      dispatch(fetchCreatedTasks(address));
+      return taskId;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to increase bounty');
+    }
+  }
+);
+
+export const addTaskWorkerSlots = createAsyncThunk(
+  'tasks/addTaskWorkerSlots',
+  async (
+    { taskId, additionalWorkers, address }: { taskId: number; additionalWorkers: number; address: string },
+    { rejectWithValue, dispatch }
+  ) => {
+    try {
+      await blockchainService.addTaskWorkerSlots(taskId, additionalWorkers);
+      dispatch(fetchCreatedTasks(address));
+      return taskId;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to add worker slots');
+    }
+  }
+);
+
 const taskSlice = createSlice({
   name: 'tasks',
   initialState,
@@ -168,12 +426,47 @@ const taskSlice = createSlice({
       })
       .addCase(fetchTasks.fulfilled, (state, action) => {
         state.loading = false;
-        state.tasks = action.payload;
+        state.tasks = action.payload.tasks;
+        state.tasksCursor = action.payload.nextCursor;
       })
       .addCase(fetchTasks.rejected, (state, action) => {
         state.loading = false;
         state.error = action.error.message || 'Failed to fetch tasks';
       })
+      .addCase(fetchMoreTasks.pending, (state) => {
+        state.loadingMore = true;
+      })
+      .addCase(fetchMoreTasks.fulfilled, (state, action) => {
+        state.loadingMore = false;
+        // Status changes can shift a task into a later page, so skip ones already shown
+        const shown = new Set(state.tasks.map((task) => task.id));
+        state.tasks.push(...action.payload.tasks.filter((task) => !shown.has(task.id)));
+        state.tasksCursor = action.payload.nextCursor;
+      })
+      .addCase(fetchMoreTasks.rejected, (state, action) => {
+        state.loadingMore = false;
+        state.error = action.payload as string;
+      })
+      .addCase(refreshTask.fulfilled, (state, action) => {
+        const task = action.payload;
+        const index = state.tasks.findIndex((t) => t.id === task.id);
+        // The feed lists ACTIVE and IN_PROGRESS tasks
+        if (task.status > 1) {
+          if (index !== -1) {
+            state.tasks.splice(index, 1);
+          }
+        } else if (index !== -1) {
+          state.tasks[index] = { ...task, distance: state.tasks[index].distance };
+        } else if (action.meta.arg.isNew) {
+          state.tasks.unshift(task);
+        }
+      })
+      .addCase(fetchCreatedTasks.fulfilled, (state, action) => {
+        state.createdTasks = action.payload;
+      })
+      .addCase(fetchCreatedCampaigns.fulfilled, (state, action) => {
+        state.createdCampaigns = action.payload;
+      })
       .addCase(claimTask.fulfilled, (state, action) => {
         state.claimedTasks.push(action.payload);
       })
@@ -191,6 +484,17 @@ const taskSlice = createSlice({
       .addCase(createTask.rejected, (state, action) => {
         state.loading = false;
         state.error = action.payload as string;
+      })
+      .addCase(createSchedule.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(createSchedule.fulfilled, (state) => {
+        state.loading = false;
+      })
+      .addCase(createSchedule.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
       });
   },
 });
@@ -28,21 +28,20 @@ export const fetchReputation = createAsyncThunk(
   async (address: string, { rejectWithValue }) => {
     try {
       const reputationContract = blockchainService.getReputationContract();
-      const score = await reputationContract.getReputationScore(address);
-      const data = await reputationContract.getReputationData(address);
-      
-      // Fetch badges for all categories
-      const badges: number[] = [];
-      for (let i = 0; i < 5; i++) {
-        try {
-          const hasBadge = await reputationContract.hasCategoryBadge(address, i);
-          if (hasBadge) {
-            badges.push(i);
-          }
-        } catch (error) {
-          // Category might not have badge, continue
-        }
-      }
+      const categories = [0, 1, 2, 3, 4];
+
+      // Score, stats and every category badge go out in one batched request
+      const [score, data, badgeFlags] = await Promise.all([
+        blockchainService.read(reputationContract, 'getReputationScore', address),
+        blockchainService.read(reputationContract, 'getReputationData', address),
+        Promise.all(
+          categories.map((category) =>
+            // Category might not have badge, continue
+            blockchainService.read(reputationContract, 'hasCategoryBadge', address, category).catch(() => false)
+          )
+        ),
+      ]);
+      const badges = categories.filter((_, index) => badgeFlags[index]);
       
       return {
         score: Number(score),
@@ -1,14 +1,22 @@
-import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { blockchainService } from '../../services/blockchain';
 
-interface Verification {
+// Coordinates are in degrees; status is VerificationContract's VerificationStatus
+export interface Verification {
   id: number;
   taskId: number;
+  taskDescription: string;
   worker: string;
   ipfsHash: string;
+  timestamp: number;
   status: number;
   approvalCount: number;
   rejectionCount: number;
+  verifierCount: number;
+  location: { latitude: number; longitude: number };
+  taskLocation: { latitude: number; longitude: number; radius: number };
+  staked: boolean;
+  voted: boolean;
 }
 
 interface VerificationState {
@@ -27,9 +35,13 @@ const initialState: VerificationState = {
 
 export const fetchPendingVerifications = createAsyncThunk(
   'verification/fetchPending',
-  async () => {
-    // In production, fetch from contract events
-    return [];
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const { address } = (getState() as { wallet: { address: string | null } }).wallet;
+      return (await blockchainService.getVerificationQueue(address)) as Verification[];
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to fetch verification queue');
+    }
   }
 );
 
@@ -84,21 +96,62 @@ const verificationSlice = createSlice({
         state.pendingVerifications[index] = action.payload;
       }
     },
+    voteRecorded: (state, action: PayloadAction<{ submissionId: number; approved: boolean }>) => {
+      const { submissionId, approved } = action.payload;
+      [...state.pendingVerifications, ...state.myVerifications]
+        .filter((v) => v.id === submissionId)
+        .forEach((v) => {
+          if (approved) {
+            v.approvalCount++;
+          } else {
+            v.rejectionCount++;
+          }
+        });
+    },
+    consensusReached: (state, action: PayloadAction<{ submissionId: number; status: number }>) => {
+      const { submissionId, status } = action.payload;
+      state.pendingVerifications = state.pendingVerifications.filter((v) => v.id !== submissionId);
+      state.myVerifications
+        .filter((v) => v.id === submissionId)
+        .forEach((v) => {
+          v.status = status;
+        });
+    },
   },
   extraReducers: (builder) => {
     builder
+      .addCase(fetchPendingVerifications.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
       .addCase(fetchPendingVerifications.fulfilled, (state, action) => {
+        state.loading = false;
         state.pendingVerifications = action.payload;
+        state.myVerifications = action.payload.filter((v) => v.staked);
+      })
+      .addCase(fetchPendingVerifications.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
       })
-      .addCase(stakeForVerification.fulfilled, (_state, _action) => {
-        // Update verification state
+      .addCase(stakeForVerification.fulfilled, (state, action) => {
+        const verification = state.pendingVerifications.find((v) => v.id === action.payload);
+        if (verification) {
+          verification.staked = true;
+          verification.verifierCount++;
+          state.myVerifications.push({ ...verification });
+        }
       })
-      .addCase(submitVote.fulfilled, (_state, _action) => {
-        // Update verification state
+      .addCase(submitVote.fulfilled, (state, action) => {
+        // Vote counts arrive with the VoteSubmitted event
+        [...state.pendingVerifications, ...state.myVerifications]
+          .filter((v) => v.id === action.payload.submissionId)
+          .forEach((v) => {
+            v.voted = true;
+          });
       });
   },
 });
 
-export const { addVerification, updateVerification } = verificationSlice.actions;
+export const { addVerification, updateVerification, voteRecorded, consensusReached } = verificationSlice.actions;
 export default verificationSlice.reducer;
 
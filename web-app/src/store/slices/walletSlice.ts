@@ -1,13 +1,16 @@
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
 import { blockchainService } from '../../services/blockchain';
+import type { ClaimableEarning } from '../../services/blockchain';
 
 interface WalletState {
   address: string | null;
   balance: string;
   pendingBalance: string;
   verifiedBalance: string;
+  claimable: ClaimableEarning[];
   connected: boolean;
   loading: boolean;
+  claiming: boolean;
   error: string | null;
 }
 
@@ -16,8 +19,10 @@ const initialState: WalletState = {
   balance: '0',
   pendingBalance: '0',
   verifiedBalance: '0',
+  claimable: [],
   connected: false,
   loading: false,
+  claiming: false,
   error: null,
 };
 
@@ -32,7 +37,8 @@ export const connectWallet = createAsyncThunk(
       }
       const balance = await blockchainService.getBalance();
       const pendingBalance = await blockchainService.getPendingBalance(address);
-      return { address, balance, pendingBalance };
+      const claimable = await blockchainService.getClaimableEarnings(address);
+      return { address, balance, pendingBalance, claimable };
     } catch (error: any) {
       return rejectWithValue(error?.message || 'Failed to connect wallet');
     }
@@ -45,12 +51,22 @@ export const fetchBalance = createAsyncThunk('wallet/fetchBalance', async (_, {
     const address = state.wallet.address;
     const balance = await blockchainService.getBalance();
     const pendingBalance = address ? await blockchainService.getPendingBalance(address) : '0';
-    return { balance, pendingBalance };
+    const claimable = address ? await blockchainService.getClaimableEarnings(address) : [];
+    return { balance, pendingBalance, claimable };
   } catch (error: any) {
     return rejectWithValue(error.message || 'Failed to fetch balance');
   }
 });
 
+export const claimEarnings = createAsyncThunk('wallet/claimEarnings', async (_, { rejectWithValue, dispatch }) => {
+  try {
+    await blockchainService.claimEarnings();
+    await dispatch(fetchBalance());
+  } catch (error: any) {
+    return rejectWithValue(error.message || 'Failed to claim earnings');
+  }
+});
+
 const walletSlice = createSlice({
   name: 'wallet',
   initialState,
@@ -58,6 +74,7 @@ const walletSlice = createSlice({
     disconnect: (state) => {
       state.address = null;
       state.balance = '0';
+      state.claimable = [];
       state.connected = false;
     },
     updateBalance: (state, action) => {
@@ -76,6 +93,7 @@ const walletSlice = createSlice({
         state.balance = action.payload.balance;
         state.pendingBalance = action.payload.pendingBalance;
         state.verifiedBalance = action.payload.balance;
+        state.claimable = action.payload.claimable;
         state.connected = true;
       })
       .addCase(connectWallet.rejected, (state, action) => {
@@ -86,6 +104,18 @@ const walletSlice = createSlice({
         state.balance = action.payload.balance;
         state.pendingBalance = action.payload.pendingBalance;
         state.verifiedBalance = action.payload.balance; // Verified = current balance
+        state.claimable = action.payload.claimable;
+      })
+      .addCase(claimEarnings.pending, (state) => {
+        state.claiming = true;
+        state.error = null;
+      })
+      .addCase(claimEarnings.fulfilled, (state) => {
+        state.claiming = false;
+      })
+      .addCase(claimEarnings.rejected, (state, action) => {
+        state.claiming = false;
+        state.error = action.payload as string;
       });
   },
 });
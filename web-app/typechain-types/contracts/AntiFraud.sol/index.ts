@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { AntiFraud } from "./AntiFraud";
+export type { IBountyPool } from "./IBountyPool";
+export type { ITaskManager } from "./ITaskManager";
@@ -36,6 +36,7 @@ export interface ReputationContractInterface extends Interface {
       | "REPUTATION_DECREASE"
       | "REPUTATION_INCREASE"
       | "REPUTATION_MULTIPLIER_PERCENTAGE"
+      | "getAbandonedClaims"
       | "getCategoryStats"
       | "getReputationData"
       | "getReputationMultiplier"
@@ -46,6 +47,7 @@ export interface ReputationContractInterface extends Interface {
       | "hasPriorityAccess"
       | "initializeReputation"
       | "owner"
+      | "recordAbandonedClaim"
       | "renounceOwnership"
       | "setTaskManager"
       | "setVerificationContract"
@@ -59,6 +61,7 @@ export interface ReputationContractInterface extends Interface {
 
   getEvent(
     nameOrSignatureOrTopic:
+      | "AbandonedClaimRecorded"
       | "CategoryBadgeAwarded"
       | "OwnershipTransferred"
       | "ReputationInitialized"
@@ -108,6 +111,10 @@ export interface ReputationContractInterface extends Interface {
     functionFragment: "REPUTATION_MULTIPLIER_PERCENTAGE",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "getAbandonedClaims",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "getCategoryStats",
     values: [AddressLike, BigNumberish]
@@ -145,6 +152,10 @@ export interface ReputationContractInterface extends Interface {
     values: [AddressLike]
   ): string;
   encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "recordAbandonedClaim",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "renounceOwnership",
     values?: undefined
@@ -222,6 +233,10 @@ export interface ReputationContractInterface extends Interface {
     functionFragment: "REPUTATION_MULTIPLIER_PERCENTAGE",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAbandonedClaims",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getCategoryStats",
     data: BytesLike
@@ -259,6 +274,10 @@ export interface ReputationContractInterface extends Interface {
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recordAbandonedClaim",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "renounceOwnership",
     data: BytesLike
@@ -297,6 +316,19 @@ export interface ReputationContractInterface extends Interface {
   ): Result;
 }
 
+export namespace AbandonedClaimRecordedEvent {
+  export type InputTuple = [worker: AddressLike, newScore: BigNumberish];
+  export type OutputTuple = [worker: string, newScore: bigint];
+  export interface OutputObject {
+    worker: string;
+    newScore: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace CategoryBadgeAwardedEvent {
   export type InputTuple = [worker: AddressLike, category: BigNumberish];
   export type OutputTuple = [worker: string, category: bigint];
@@ -467,6 +499,12 @@ export interface ReputationContract extends BaseContract {
 
   REPUTATION_MULTIPLIER_PERCENTAGE: TypedContractMethod<[], [bigint], "view">;
 
+  getAbandonedClaims: TypedContractMethod<
+    [user: AddressLike],
+    [bigint],
+    "view"
+  >;
+
   getCategoryStats: TypedContractMethod<
     [user: AddressLike, category: BigNumberish],
     [
@@ -534,6 +572,12 @@ export interface ReputationContract extends BaseContract {
 
   owner: TypedContractMethod<[], [string], "view">;
 
+  recordAbandonedClaim: TypedContractMethod<
+    [worker: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
   renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
 
   setTaskManager: TypedContractMethod<
@@ -610,6 +654,9 @@ export interface ReputationContract extends BaseContract {
   getFunction(
     nameOrSignature: "REPUTATION_MULTIPLIER_PERCENTAGE"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAbandonedClaims"
+  ): TypedContractMethod<[user: AddressLike], [bigint], "view">;
   getFunction(
     nameOrSignature: "getCategoryStats"
   ): TypedContractMethod<
@@ -671,6 +718,9 @@ export interface ReputationContract extends BaseContract {
   getFunction(
     nameOrSignature: "owner"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "recordAbandonedClaim"
+  ): TypedContractMethod<[worker: AddressLike], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "renounceOwnership"
   ): TypedContractMethod<[], [void], "nonpayable">;
@@ -715,6 +765,13 @@ export interface ReputationContract extends BaseContract {
     nameOrSignature: "verificationContractAddress"
   ): TypedContractMethod<[], [string], "view">;
 
+  getEvent(
+    key: "AbandonedClaimRecorded"
+  ): TypedContractEvent<
+    AbandonedClaimRecordedEvent.InputTuple,
+    AbandonedClaimRecordedEvent.OutputTuple,
+    AbandonedClaimRecordedEvent.OutputObject
+  >;
   getEvent(
     key: "CategoryBadgeAwarded"
   ): TypedContractEvent<
@@ -766,6 +823,17 @@ export interface ReputationContract extends BaseContract {
   >;
 
   filters: {
+    "AbandonedClaimRecorded(address,uint256)": TypedContractEvent<
+      AbandonedClaimRecordedEvent.InputTuple,
+      AbandonedClaimRecordedEvent.OutputTuple,
+      AbandonedClaimRecordedEvent.OutputObject
+    >;
+    AbandonedClaimRecorded: TypedContractEvent<
+      AbandonedClaimRecordedEvent.InputTuple,
+      AbandonedClaimRecordedEvent.OutputTuple,
+      AbandonedClaimRecordedEvent.OutputObject
+    >;
+
     "CategoryBadgeAwarded(address,uint8)": TypedContractEvent<
       CategoryBadgeAwardedEvent.InputTuple,
       CategoryBadgeAwardedEvent.OutputTuple,
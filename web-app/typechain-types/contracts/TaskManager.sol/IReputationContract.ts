@@ -0,0 +1,139 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface IReputationContractInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "getReputationScore"
+      | "hasCategoryBadge"
+      | "recordAbandonedClaim"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "getReputationScore",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasCategoryBadge",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordAbandonedClaim",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "getReputationScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasCategoryBadge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordAbandonedClaim",
+    data: BytesLike
+  ): Result;
+}
+
+export interface IReputationContract extends BaseContract {
+  connect(runner?: ContractRunner | null): IReputationContract;
+  waitForDeployment(): Promise<this>;
+
+  interface: IReputationContractInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getReputationScore: TypedContractMethod<
+    [user: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  hasCategoryBadge: TypedContractMethod<
+    [user: AddressLike, category: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  recordAbandonedClaim: TypedContractMethod<
+    [worker: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "getReputationScore"
+  ): TypedContractMethod<[user: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "hasCategoryBadge"
+  ): TypedContractMethod<
+    [user: AddressLike, category: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "recordAbandonedClaim"
+  ): TypedContractMethod<[worker: AddressLike], [void], "nonpayable">;
+
+  filters: {};
+}
@@ -41,18 +41,140 @@ export declare namespace TaskManager {
     requiresLocation: boolean;
     minReputation: BigNumberish;
     requiredBadge: BigNumberish;
+    requiresBadge: boolean;
   };
 
   export type TaskRequirementsStructOutput = [
     photoCount: bigint,
     requiresLocation: boolean,
     minReputation: bigint,
-    requiredBadge: bigint
+    requiredBadge: bigint,
+    requiresBadge: boolean
   ] & {
     photoCount: bigint;
     requiresLocation: boolean;
     minReputation: bigint;
     requiredBadge: bigint;
+    requiresBadge: boolean;
+  };
+
+  export type CampaignParamsStruct = {
+    description: string;
+    category: BigNumberish;
+    bountyAmount: BigNumberish;
+    workersPerLocation: BigNumberish;
+    deadline: BigNumberish;
+    requirements: TaskManager.TaskRequirementsStruct;
+  };
+
+  export type CampaignParamsStructOutput = [
+    description: string,
+    category: bigint,
+    bountyAmount: bigint,
+    workersPerLocation: bigint,
+    deadline: bigint,
+    requirements: TaskManager.TaskRequirementsStructOutput
+  ] & {
+    description: string;
+    category: bigint;
+    bountyAmount: bigint;
+    workersPerLocation: bigint;
+    deadline: bigint;
+    requirements: TaskManager.TaskRequirementsStructOutput;
+  };
+
+  export type ScheduleTimingStruct = {
+    startTime: BigNumberish;
+    interval: BigNumberish;
+    taskDuration: BigNumberish;
+    occurrences: BigNumberish;
+  };
+
+  export type ScheduleTimingStructOutput = [
+    startTime: bigint,
+    interval: bigint,
+    taskDuration: bigint,
+    occurrences: bigint
+  ] & {
+    startTime: bigint;
+    interval: bigint;
+    taskDuration: bigint;
+    occurrences: bigint;
+  };
+
+  export type CampaignStruct = {
+    id: BigNumberish;
+    creator: AddressLike;
+    params: TaskManager.CampaignParamsStruct;
+    budget: BigNumberish;
+    allocated: BigNumberish;
+    closed: boolean;
+  };
+
+  export type CampaignStructOutput = [
+    id: bigint,
+    creator: string,
+    params: TaskManager.CampaignParamsStructOutput,
+    budget: bigint,
+    allocated: bigint,
+    closed: boolean
+  ] & {
+    id: bigint;
+    creator: string;
+    params: TaskManager.CampaignParamsStructOutput;
+    budget: bigint;
+    allocated: bigint;
+    closed: boolean;
+  };
+
+  export type CampaignReportStruct = {
+    budget: BigNumberish;
+    allocated: BigNumberish;
+    unallocated: BigNumberish;
+    spent: BigNumberish;
+    refunded: BigNumberish;
+    remaining: BigNumberish;
+    taskCount: BigNumberish;
+  };
+
+  export type CampaignReportStructOutput = [
+    budget: bigint,
+    allocated: bigint,
+    unallocated: bigint,
+    spent: bigint,
+    refunded: bigint,
+    remaining: bigint,
+    taskCount: bigint
+  ] & {
+    budget: bigint;
+    allocated: bigint;
+    unallocated: bigint;
+    spent: bigint;
+    refunded: bigint;
+    remaining: bigint;
+    taskCount: bigint;
+  };
+
+  export type ScheduleStruct = {
+    id: BigNumberish;
+    campaignId: BigNumberish;
+    location: TaskManager.LocationStruct;
+    timing: TaskManager.ScheduleTimingStruct;
+    nextOccurrence: BigNumberish;
+  };
+
+  export type ScheduleStructOutput = [
+    id: bigint,
+    campaignId: bigint,
+    location: TaskManager.LocationStructOutput,
+    timing: TaskManager.ScheduleTimingStructOutput,
+    nextOccurrence: bigint
+  ] & {
+    id: bigint;
+    campaignId: bigint;
+    location: TaskManager.LocationStructOutput;
+    timing: TaskManager.ScheduleTimingStructOutput;
+    nextOccurrence: bigint;
   };
 
   export type TaskStruct = {
@@ -108,32 +230,86 @@ export interface TaskManagerInterface extends Interface {
       | "MAX_ACTIVE_TASKS_PER_WORKER"
       | "MINIMUM_BOUNTY"
       | "TASK_COMPLETION_TIMEOUT"
+      | "abandonClaim"
+      | "addCampaignLocations"
+      | "addWorkerSlots"
       | "antiFraudAddress"
+      | "bountyPoolAddress"
+      | "cancelTask"
       | "claimTask"
+      | "closeCampaign"
+      | "collateralForLowReputation"
+      | "createCampaign"
+      | "createCampaignWithToken"
+      | "createSchedule"
+      | "createScheduleWithToken"
       | "createTask"
+      | "createTaskWithToken"
       | "expireTask"
+      | "extendDeadline"
+      | "getCampaign"
+      | "getCampaignReport"
+      | "getCampaignTasks"
+      | "getClaimEligibility"
+      | "getReclaimableBounty"
+      | "getRequiredStake"
+      | "getSchedule"
+      | "getSubmissionId"
       | "getTask"
+      | "getTaskCategory"
+      | "getTaskCount"
+      | "getTaskCreator"
       | "getTaskWorkers"
+      | "getTasksByCreator"
+      | "getTasksByStatus"
       | "getWorkerActiveTasks"
       | "hasWorkerClaimed"
+      | "increaseBounty"
+      | "lowReputationThreshold"
       | "owner"
+      | "reclaimBounty"
+      | "recordVerifiedSubmission"
+      | "releaseExpiredClaims"
       | "renounceOwnership"
+      | "reputationContractAddress"
       | "setAntiFraud"
+      | "setBountyPool"
+      | "setCollateralTier"
+      | "setReputationContract"
+      | "setTaskRequiredStake"
+      | "setVerificationContract"
+      | "spawnDue"
+      | "submissionIds"
       | "submitTaskCompletion"
       | "taskClaims"
-      | "taskWorkers"
-      | "tasks"
+      | "taskRequiredStake"
       | "transferOwnership"
-      | "workerActiveTasks"
+      | "verificationContractAddress"
   ): FunctionFragment;
 
   getEvent(
     nameOrSignatureOrTopic:
+      | "BountyReclaimed"
+      | "CampaignClosed"
+      | "CampaignCreated"
+      | "CampaignTaskAdded"
+      | "ClaimReleased"
+      | "CollateralTierUpdated"
       | "OwnershipTransferred"
+      | "ScheduleCreated"
+      | "ScheduleOccurrenceSkipped"
+      | "ScheduleOccurrenceSpawned"
+      | "SubmissionVerified"
+      | "TaskBountyIncreased"
+      | "TaskCancelled"
       | "TaskClaimed"
+      | "TaskCompleted"
       | "TaskCreated"
+      | "TaskDeadlineExtended"
       | "TaskExpired"
+      | "TaskStakeRequirementUpdated"
       | "TaskSubmitted"
+      | "TaskWorkerSlotsAdded"
   ): EventFragment;
 
   encodeFunctionData(
@@ -148,14 +324,72 @@ export interface TaskManagerInterface extends Interface {
     functionFragment: "TASK_COMPLETION_TIMEOUT",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "abandonClaim",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addCampaignLocations",
+    values: [BigNumberish, TaskManager.LocationStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addWorkerSlots",
+    values: [BigNumberish, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "antiFraudAddress",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "bountyPoolAddress",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelTask",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "claimTask",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "closeCampaign",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "collateralForLowReputation",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createCampaign",
+    values: [TaskManager.CampaignParamsStruct, TaskManager.LocationStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createCampaignWithToken",
+    values: [
+      TaskManager.CampaignParamsStruct,
+      TaskManager.LocationStruct[],
+      AddressLike,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createSchedule",
+    values: [
+      TaskManager.CampaignParamsStruct,
+      TaskManager.LocationStruct,
+      TaskManager.ScheduleTimingStruct
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createScheduleWithToken",
+    values: [
+      TaskManager.CampaignParamsStruct,
+      TaskManager.LocationStruct,
+      TaskManager.ScheduleTimingStruct,
+      AddressLike
+    ]
+  ): string;
   encodeFunctionData(
     functionFragment: "createTask",
     values: [
@@ -168,18 +402,87 @@ export interface TaskManagerInterface extends Interface {
       TaskManager.TaskRequirementsStruct
     ]
   ): string;
+  encodeFunctionData(
+    functionFragment: "createTaskWithToken",
+    values: [
+      string,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      TaskManager.LocationStruct,
+      BigNumberish,
+      TaskManager.TaskRequirementsStruct,
+      AddressLike
+    ]
+  ): string;
   encodeFunctionData(
     functionFragment: "expireTask",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "extendDeadline",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCampaign",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCampaignReport",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCampaignTasks",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getClaimEligibility",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getReclaimableBounty",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRequiredStake",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSchedule",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubmissionId",
+    values: [BigNumberish, AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "getTask",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getTaskCategory",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTaskCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTaskCreator",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getTaskWorkers",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getTasksByCreator",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTasksByStatus",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getWorkerActiveTasks",
     values: [AddressLike]
@@ -188,15 +491,67 @@ export interface TaskManagerInterface extends Interface {
     functionFragment: "hasWorkerClaimed",
     values: [BigNumberish, AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "increaseBounty",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lowReputationThreshold",
+    values?: undefined
+  ): string;
   encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "reclaimBounty",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordVerifiedSubmission",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseExpiredClaims",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "renounceOwnership",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "reputationContractAddress",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "setAntiFraud",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setBountyPool",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCollateralTier",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReputationContract",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTaskRequiredStake",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVerificationContract",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "spawnDue",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submissionIds",
+    values: [BigNumberish, AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "submitTaskCompletion",
     values: [BigNumberish, string, TaskManager.LocationStruct]
@@ -206,17 +561,16 @@ export interface TaskManagerInterface extends Interface {
     values: [BigNumberish, AddressLike]
   ): string;
   encodeFunctionData(
-    functionFragment: "taskWorkers",
-    values: [BigNumberish, BigNumberish]
+    functionFragment: "taskRequiredStake",
+    values: [BigNumberish]
   ): string;
-  encodeFunctionData(functionFragment: "tasks", values: [BigNumberish]): string;
   encodeFunctionData(
     functionFragment: "transferOwnership",
     values: [AddressLike]
   ): string;
   encodeFunctionData(
-    functionFragment: "workerActiveTasks",
-    values: [AddressLike, BigNumberish]
+    functionFragment: "verificationContractAddress",
+    values?: undefined
   ): string;
 
   decodeFunctionResult(
@@ -231,58 +585,319 @@ export interface TaskManagerInterface extends Interface {
     functionFragment: "TASK_COMPLETION_TIMEOUT",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "abandonClaim",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addCampaignLocations",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addWorkerSlots",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "antiFraudAddress",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "bountyPoolAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "cancelTask", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "claimTask", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "closeCampaign",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "collateralForLowReputation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createCampaign",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createCampaignWithToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createSchedule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createScheduleWithToken",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "createTask", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "createTaskWithToken",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "expireTask", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "extendDeadline",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCampaign",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCampaignReport",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCampaignTasks",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getClaimEligibility",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getReclaimableBounty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRequiredStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSchedule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubmissionId",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "getTask", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "getTaskWorkers",
+    functionFragment: "getTaskCategory",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "getWorkerActiveTasks",
+    functionFragment: "getTaskCount",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "hasWorkerClaimed",
+    functionFragment: "getTaskCreator",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "renounceOwnership",
+    functionFragment: "getTaskWorkers",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "setAntiFraud",
+    functionFragment: "getTasksByCreator",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "submitTaskCompletion",
+    functionFragment: "getTasksByStatus",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "taskClaims", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "taskWorkers",
+    functionFragment: "getWorkerActiveTasks",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "tasks", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "transferOwnership",
+    functionFragment: "hasWorkerClaimed",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "workerActiveTasks",
+    functionFragment: "increaseBounty",
     data: BytesLike
   ): Result;
-}
-
-export namespace OwnershipTransferredEvent {
-  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
-  export type OutputTuple = [previousOwner: string, newOwner: string];
+  decodeFunctionResult(
+    functionFragment: "lowReputationThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "reclaimBounty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordVerifiedSubmission",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseExpiredClaims",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reputationContractAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAntiFraud",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setBountyPool",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCollateralTier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setReputationContract",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTaskRequiredStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setVerificationContract",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "spawnDue", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "submissionIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitTaskCompletion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "taskClaims", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "taskRequiredStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verificationContractAddress",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BountyReclaimedEvent {
+  export type InputTuple = [
+    taskId: BigNumberish,
+    creator: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [taskId: bigint, creator: string, amount: bigint];
+  export interface OutputObject {
+    taskId: bigint;
+    creator: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignClosedEvent {
+  export type InputTuple = [
+    campaignId: BigNumberish,
+    refundedBudget: BigNumberish
+  ];
+  export type OutputTuple = [campaignId: bigint, refundedBudget: bigint];
+  export interface OutputObject {
+    campaignId: bigint;
+    refundedBudget: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignCreatedEvent {
+  export type InputTuple = [
+    campaignId: BigNumberish,
+    creator: AddressLike,
+    category: BigNumberish,
+    bountyAmount: BigNumberish,
+    budget: BigNumberish
+  ];
+  export type OutputTuple = [
+    campaignId: bigint,
+    creator: string,
+    category: bigint,
+    bountyAmount: bigint,
+    budget: bigint
+  ];
+  export interface OutputObject {
+    campaignId: bigint;
+    creator: string;
+    category: bigint;
+    bountyAmount: bigint;
+    budget: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignTaskAddedEvent {
+  export type InputTuple = [campaignId: BigNumberish, taskId: BigNumberish];
+  export type OutputTuple = [campaignId: bigint, taskId: bigint];
+  export interface OutputObject {
+    campaignId: bigint;
+    taskId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ClaimReleasedEvent {
+  export type InputTuple = [
+    taskId: BigNumberish,
+    worker: AddressLike,
+    timedOut: boolean
+  ];
+  export type OutputTuple = [taskId: bigint, worker: string, timedOut: boolean];
+  export interface OutputObject {
+    taskId: bigint;
+    worker: string;
+    timedOut: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CollateralTierUpdatedEvent {
+  export type InputTuple = [
+    reputationThreshold: BigNumberish,
+    requiredStake: BigNumberish
+  ];
+  export type OutputTuple = [
+    reputationThreshold: bigint,
+    requiredStake: bigint
+  ];
+  export interface OutputObject {
+    reputationThreshold: bigint;
+    requiredStake: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
   export interface OutputObject {
     previousOwner: string;
     newOwner: string;
@@ -293,6 +908,120 @@ export namespace OwnershipTransferredEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace ScheduleCreatedEvent {
+  export type InputTuple = [
+    scheduleId: BigNumberish,
+    campaignId: BigNumberish,
+    creator: AddressLike,
+    startTime: BigNumberish,
+    interval: BigNumberish,
+    occurrences: BigNumberish
+  ];
+  export type OutputTuple = [
+    scheduleId: bigint,
+    campaignId: bigint,
+    creator: string,
+    startTime: bigint,
+    interval: bigint,
+    occurrences: bigint
+  ];
+  export interface OutputObject {
+    scheduleId: bigint;
+    campaignId: bigint;
+    creator: string;
+    startTime: bigint;
+    interval: bigint;
+    occurrences: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScheduleOccurrenceSkippedEvent {
+  export type InputTuple = [scheduleId: BigNumberish, occurrence: BigNumberish];
+  export type OutputTuple = [scheduleId: bigint, occurrence: bigint];
+  export interface OutputObject {
+    scheduleId: bigint;
+    occurrence: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScheduleOccurrenceSpawnedEvent {
+  export type InputTuple = [
+    scheduleId: BigNumberish,
+    occurrence: BigNumberish,
+    taskId: BigNumberish
+  ];
+  export type OutputTuple = [
+    scheduleId: bigint,
+    occurrence: bigint,
+    taskId: bigint
+  ];
+  export interface OutputObject {
+    scheduleId: bigint;
+    occurrence: bigint;
+    taskId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubmissionVerifiedEvent {
+  export type InputTuple = [taskId: BigNumberish, verifiedCount: BigNumberish];
+  export type OutputTuple = [taskId: bigint, verifiedCount: bigint];
+  export interface OutputObject {
+    taskId: bigint;
+    verifiedCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TaskBountyIncreasedEvent {
+  export type InputTuple = [
+    taskId: BigNumberish,
+    newBountyAmount: BigNumberish,
+    addedFunding: BigNumberish
+  ];
+  export type OutputTuple = [
+    taskId: bigint,
+    newBountyAmount: bigint,
+    addedFunding: bigint
+  ];
+  export interface OutputObject {
+    taskId: bigint;
+    newBountyAmount: bigint;
+    addedFunding: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TaskCancelledEvent {
+  export type InputTuple = [taskId: BigNumberish, cancelledAt: BigNumberish];
+  export type OutputTuple = [taskId: bigint, cancelledAt: bigint];
+  export interface OutputObject {
+    taskId: bigint;
+    cancelledAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace TaskClaimedEvent {
   export type InputTuple = [
     taskId: BigNumberish,
@@ -311,6 +1040,19 @@ export namespace TaskClaimedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace TaskCompletedEvent {
+  export type InputTuple = [taskId: BigNumberish, completedAt: BigNumberish];
+  export type OutputTuple = [taskId: bigint, completedAt: bigint];
+  export interface OutputObject {
+    taskId: bigint;
+    completedAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace TaskCreatedEvent {
   export type InputTuple = [
     taskId: BigNumberish,
@@ -339,6 +1081,19 @@ export namespace TaskCreatedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace TaskDeadlineExtendedEvent {
+  export type InputTuple = [taskId: BigNumberish, newDeadline: BigNumberish];
+  export type OutputTuple = [taskId: bigint, newDeadline: bigint];
+  export interface OutputObject {
+    taskId: bigint;
+    newDeadline: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace TaskExpiredEvent {
   export type InputTuple = [taskId: BigNumberish, expiredAt: BigNumberish];
   export type OutputTuple = [taskId: bigint, expiredAt: bigint];
@@ -352,6 +1107,19 @@ export namespace TaskExpiredEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace TaskStakeRequirementUpdatedEvent {
+  export type InputTuple = [taskId: BigNumberish, requiredStake: BigNumberish];
+  export type OutputTuple = [taskId: bigint, requiredStake: bigint];
+  export interface OutputObject {
+    taskId: bigint;
+    requiredStake: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace TaskSubmittedEvent {
   export type InputTuple = [
     taskId: BigNumberish,
@@ -377,6 +1145,28 @@ export namespace TaskSubmittedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace TaskWorkerSlotsAddedEvent {
+  export type InputTuple = [
+    taskId: BigNumberish,
+    newMaxWorkers: BigNumberish,
+    addedFunding: BigNumberish
+  ];
+  export type OutputTuple = [
+    taskId: bigint,
+    newMaxWorkers: bigint,
+    addedFunding: bigint
+  ];
+  export interface OutputObject {
+    taskId: bigint;
+    newMaxWorkers: bigint;
+    addedFunding: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export interface TaskManager extends BaseContract {
   connect(runner?: ContractRunner | null): TaskManager;
   waitForDeployment(): Promise<this>;
@@ -426,14 +1216,85 @@ export interface TaskManager extends BaseContract {
 
   TASK_COMPLETION_TIMEOUT: TypedContractMethod<[], [bigint], "view">;
 
+  abandonClaim: TypedContractMethod<
+    [taskId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  addCampaignLocations: TypedContractMethod<
+    [campaignId: BigNumberish, locations: TaskManager.LocationStruct[]],
+    [void],
+    "nonpayable"
+  >;
+
+  addWorkerSlots: TypedContractMethod<
+    [taskId: BigNumberish, additionalWorkers: BigNumberish],
+    [void],
+    "payable"
+  >;
+
   antiFraudAddress: TypedContractMethod<[], [string], "view">;
 
+  bountyPoolAddress: TypedContractMethod<[], [string], "view">;
+
+  cancelTask: TypedContractMethod<[taskId: BigNumberish], [void], "nonpayable">;
+
   claimTask: TypedContractMethod<
     [taskId: BigNumberish],
     [boolean],
     "nonpayable"
   >;
 
+  closeCampaign: TypedContractMethod<
+    [campaignId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  collateralForLowReputation: TypedContractMethod<[], [bigint], "view">;
+
+  createCampaign: TypedContractMethod<
+    [
+      params: TaskManager.CampaignParamsStruct,
+      locations: TaskManager.LocationStruct[]
+    ],
+    [bigint],
+    "payable"
+  >;
+
+  createCampaignWithToken: TypedContractMethod<
+    [
+      params: TaskManager.CampaignParamsStruct,
+      locations: TaskManager.LocationStruct[],
+      token: AddressLike,
+      budget: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createSchedule: TypedContractMethod<
+    [
+      params: TaskManager.CampaignParamsStruct,
+      location: TaskManager.LocationStruct,
+      timing: TaskManager.ScheduleTimingStruct
+    ],
+    [bigint],
+    "payable"
+  >;
+
+  createScheduleWithToken: TypedContractMethod<
+    [
+      params: TaskManager.CampaignParamsStruct,
+      location: TaskManager.LocationStruct,
+      timing: TaskManager.ScheduleTimingStruct,
+      token: AddressLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
   createTask: TypedContractMethod<
     [
       description: string,
@@ -448,24 +1309,121 @@ export interface TaskManager extends BaseContract {
     "payable"
   >;
 
+  createTaskWithToken: TypedContractMethod<
+    [
+      description: string,
+      category: BigNumberish,
+      bountyAmount: BigNumberish,
+      maxWorkers: BigNumberish,
+      location: TaskManager.LocationStruct,
+      deadline: BigNumberish,
+      requirements: TaskManager.TaskRequirementsStruct,
+      token: AddressLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
   expireTask: TypedContractMethod<
     [taskId: BigNumberish],
     [boolean],
     "nonpayable"
   >;
 
+  extendDeadline: TypedContractMethod<
+    [taskId: BigNumberish, newDeadline: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getCampaign: TypedContractMethod<
+    [campaignId: BigNumberish],
+    [TaskManager.CampaignStructOutput],
+    "view"
+  >;
+
+  getCampaignReport: TypedContractMethod<
+    [campaignId: BigNumberish],
+    [TaskManager.CampaignReportStructOutput],
+    "view"
+  >;
+
+  getCampaignTasks: TypedContractMethod<
+    [campaignId: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getClaimEligibility: TypedContractMethod<
+    [taskId: BigNumberish, worker: AddressLike],
+    [
+      [bigint, boolean, boolean] & {
+        score: bigint;
+        meetsReputation: boolean;
+        hasRequiredBadge: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getReclaimableBounty: TypedContractMethod<
+    [taskId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getRequiredStake: TypedContractMethod<
+    [taskId: BigNumberish, worker: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getSchedule: TypedContractMethod<
+    [scheduleId: BigNumberish],
+    [TaskManager.ScheduleStructOutput],
+    "view"
+  >;
+
+  getSubmissionId: TypedContractMethod<
+    [taskId: BigNumberish, worker: AddressLike],
+    [bigint],
+    "view"
+  >;
+
   getTask: TypedContractMethod<
     [taskId: BigNumberish],
     [TaskManager.TaskStructOutput],
     "view"
   >;
 
+  getTaskCategory: TypedContractMethod<
+    [taskId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getTaskCount: TypedContractMethod<[], [bigint], "view">;
+
+  getTaskCreator: TypedContractMethod<[taskId: BigNumberish], [string], "view">;
+
   getTaskWorkers: TypedContractMethod<
     [taskId: BigNumberish],
     [string[]],
     "view"
   >;
 
+  getTasksByCreator: TypedContractMethod<
+    [creator: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [[bigint[], bigint] & { page: bigint[]; total: bigint }],
+    "view"
+  >;
+
+  getTasksByStatus: TypedContractMethod<
+    [status: BigNumberish, offset: BigNumberish, limit: BigNumberish],
+    [[bigint[], bigint] & { page: bigint[]; total: bigint }],
+    "view"
+  >;
+
   getWorkerActiveTasks: TypedContractMethod<
     [worker: AddressLike],
     [bigint[]],
@@ -478,16 +1436,86 @@ export interface TaskManager extends BaseContract {
     "view"
   >;
 
+  increaseBounty: TypedContractMethod<
+    [taskId: BigNumberish, newBountyAmount: BigNumberish],
+    [void],
+    "payable"
+  >;
+
+  lowReputationThreshold: TypedContractMethod<[], [bigint], "view">;
+
   owner: TypedContractMethod<[], [string], "view">;
 
+  reclaimBounty: TypedContractMethod<
+    [taskId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  recordVerifiedSubmission: TypedContractMethod<
+    [taskId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  releaseExpiredClaims: TypedContractMethod<
+    [taskId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
   renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
 
+  reputationContractAddress: TypedContractMethod<[], [string], "view">;
+
   setAntiFraud: TypedContractMethod<
     [_antiFraud: AddressLike],
     [void],
     "nonpayable"
   >;
 
+  setBountyPool: TypedContractMethod<
+    [_bountyPool: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setCollateralTier: TypedContractMethod<
+    [reputationThreshold: BigNumberish, requiredStake: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setReputationContract: TypedContractMethod<
+    [_reputationContract: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setTaskRequiredStake: TypedContractMethod<
+    [taskId: BigNumberish, requiredStake: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setVerificationContract: TypedContractMethod<
+    [_verificationContract: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  spawnDue: TypedContractMethod<
+    [scheduleId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  submissionIds: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
   submitTaskCompletion: TypedContractMethod<
     [
       taskId: BigNumberish,
@@ -510,45 +1538,9 @@ export interface TaskManager extends BaseContract {
     "view"
   >;
 
-  taskWorkers: TypedContractMethod<
-    [arg0: BigNumberish, arg1: BigNumberish],
-    [string],
-    "view"
-  >;
-
-  tasks: TypedContractMethod<
+  taskRequiredStake: TypedContractMethod<
     [arg0: BigNumberish],
-    [
-      [
-        bigint,
-        string,
-        string,
-        bigint,
-        bigint,
-        bigint,
-        TaskManager.LocationStructOutput,
-        bigint,
-        bigint,
-        TaskManager.TaskRequirementsStructOutput,
-        bigint,
-        bigint,
-        bigint
-      ] & {
-        id: bigint;
-        creator: string;
-        description: string;
-        category: bigint;
-        bountyAmount: bigint;
-        maxWorkers: bigint;
-        location: TaskManager.LocationStructOutput;
-        deadline: bigint;
-        status: bigint;
-        requirements: TaskManager.TaskRequirementsStructOutput;
-        submissionCount: bigint;
-        verifiedCount: bigint;
-        createdAt: bigint;
-      }
-    ],
+    [bigint],
     "view"
   >;
 
@@ -558,11 +1550,7 @@ export interface TaskManager extends BaseContract {
     "nonpayable"
   >;
 
-  workerActiveTasks: TypedContractMethod<
-    [arg0: AddressLike, arg1: BigNumberish],
-    [bigint],
-    "view"
-  >;
+  verificationContractAddress: TypedContractMethod<[], [string], "view">;
 
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
@@ -577,12 +1565,86 @@ export interface TaskManager extends BaseContract {
   getFunction(
     nameOrSignature: "TASK_COMPLETION_TIMEOUT"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "abandonClaim"
+  ): TypedContractMethod<[taskId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addCampaignLocations"
+  ): TypedContractMethod<
+    [campaignId: BigNumberish, locations: TaskManager.LocationStruct[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "addWorkerSlots"
+  ): TypedContractMethod<
+    [taskId: BigNumberish, additionalWorkers: BigNumberish],
+    [void],
+    "payable"
+  >;
   getFunction(
     nameOrSignature: "antiFraudAddress"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "bountyPoolAddress"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "cancelTask"
+  ): TypedContractMethod<[taskId: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "claimTask"
   ): TypedContractMethod<[taskId: BigNumberish], [boolean], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeCampaign"
+  ): TypedContractMethod<[campaignId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "collateralForLowReputation"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createCampaign"
+  ): TypedContractMethod<
+    [
+      params: TaskManager.CampaignParamsStruct,
+      locations: TaskManager.LocationStruct[]
+    ],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "createCampaignWithToken"
+  ): TypedContractMethod<
+    [
+      params: TaskManager.CampaignParamsStruct,
+      locations: TaskManager.LocationStruct[],
+      token: AddressLike,
+      budget: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createSchedule"
+  ): TypedContractMethod<
+    [
+      params: TaskManager.CampaignParamsStruct,
+      location: TaskManager.LocationStruct,
+      timing: TaskManager.ScheduleTimingStruct
+    ],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "createScheduleWithToken"
+  ): TypedContractMethod<
+    [
+      params: TaskManager.CampaignParamsStruct,
+      location: TaskManager.LocationStruct,
+      timing: TaskManager.ScheduleTimingStruct,
+      token: AddressLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "createTask"
   ): TypedContractMethod<
@@ -598,9 +1660,86 @@ export interface TaskManager extends BaseContract {
     [bigint],
     "payable"
   >;
+  getFunction(
+    nameOrSignature: "createTaskWithToken"
+  ): TypedContractMethod<
+    [
+      description: string,
+      category: BigNumberish,
+      bountyAmount: BigNumberish,
+      maxWorkers: BigNumberish,
+      location: TaskManager.LocationStruct,
+      deadline: BigNumberish,
+      requirements: TaskManager.TaskRequirementsStruct,
+      token: AddressLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "expireTask"
   ): TypedContractMethod<[taskId: BigNumberish], [boolean], "nonpayable">;
+  getFunction(
+    nameOrSignature: "extendDeadline"
+  ): TypedContractMethod<
+    [taskId: BigNumberish, newDeadline: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getCampaign"
+  ): TypedContractMethod<
+    [campaignId: BigNumberish],
+    [TaskManager.CampaignStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCampaignReport"
+  ): TypedContractMethod<
+    [campaignId: BigNumberish],
+    [TaskManager.CampaignReportStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCampaignTasks"
+  ): TypedContractMethod<[campaignId: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getClaimEligibility"
+  ): TypedContractMethod<
+    [taskId: BigNumberish, worker: AddressLike],
+    [
+      [bigint, boolean, boolean] & {
+        score: bigint;
+        meetsReputation: boolean;
+        hasRequiredBadge: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getReclaimableBounty"
+  ): TypedContractMethod<[taskId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getRequiredStake"
+  ): TypedContractMethod<
+    [taskId: BigNumberish, worker: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSchedule"
+  ): TypedContractMethod<
+    [scheduleId: BigNumberish],
+    [TaskManager.ScheduleStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSubmissionId"
+  ): TypedContractMethod<
+    [taskId: BigNumberish, worker: AddressLike],
+    [bigint],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "getTask"
   ): TypedContractMethod<
@@ -608,9 +1747,32 @@ export interface TaskManager extends BaseContract {
     [TaskManager.TaskStructOutput],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "getTaskCategory"
+  ): TypedContractMethod<[taskId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getTaskCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getTaskCreator"
+  ): TypedContractMethod<[taskId: BigNumberish], [string], "view">;
   getFunction(
     nameOrSignature: "getTaskWorkers"
   ): TypedContractMethod<[taskId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getTasksByCreator"
+  ): TypedContractMethod<
+    [creator: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [[bigint[], bigint] & { page: bigint[]; total: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTasksByStatus"
+  ): TypedContractMethod<
+    [status: BigNumberish, offset: BigNumberish, limit: BigNumberish],
+    [[bigint[], bigint] & { page: bigint[]; total: bigint }],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "getWorkerActiveTasks"
   ): TypedContractMethod<[worker: AddressLike], [bigint[]], "view">;
@@ -621,15 +1783,78 @@ export interface TaskManager extends BaseContract {
     [boolean],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "increaseBounty"
+  ): TypedContractMethod<
+    [taskId: BigNumberish, newBountyAmount: BigNumberish],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "lowReputationThreshold"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "owner"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "reclaimBounty"
+  ): TypedContractMethod<[taskId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "recordVerifiedSubmission"
+  ): TypedContractMethod<[taskId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "releaseExpiredClaims"
+  ): TypedContractMethod<[taskId: BigNumberish], [bigint], "nonpayable">;
   getFunction(
     nameOrSignature: "renounceOwnership"
   ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reputationContractAddress"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "setAntiFraud"
   ): TypedContractMethod<[_antiFraud: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setBountyPool"
+  ): TypedContractMethod<[_bountyPool: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCollateralTier"
+  ): TypedContractMethod<
+    [reputationThreshold: BigNumberish, requiredStake: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setReputationContract"
+  ): TypedContractMethod<
+    [_reputationContract: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTaskRequiredStake"
+  ): TypedContractMethod<
+    [taskId: BigNumberish, requiredStake: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setVerificationContract"
+  ): TypedContractMethod<
+    [_verificationContract: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "spawnDue"
+  ): TypedContractMethod<[scheduleId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submissionIds"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "submitTaskCompletion"
   ): TypedContractMethod<
@@ -655,60 +1880,57 @@ export interface TaskManager extends BaseContract {
     "view"
   >;
   getFunction(
-    nameOrSignature: "taskWorkers"
-  ): TypedContractMethod<
-    [arg0: BigNumberish, arg1: BigNumberish],
-    [string],
-    "view"
-  >;
-  getFunction(
-    nameOrSignature: "tasks"
-  ): TypedContractMethod<
-    [arg0: BigNumberish],
-    [
-      [
-        bigint,
-        string,
-        string,
-        bigint,
-        bigint,
-        bigint,
-        TaskManager.LocationStructOutput,
-        bigint,
-        bigint,
-        TaskManager.TaskRequirementsStructOutput,
-        bigint,
-        bigint,
-        bigint
-      ] & {
-        id: bigint;
-        creator: string;
-        description: string;
-        category: bigint;
-        bountyAmount: bigint;
-        maxWorkers: bigint;
-        location: TaskManager.LocationStructOutput;
-        deadline: bigint;
-        status: bigint;
-        requirements: TaskManager.TaskRequirementsStructOutput;
-        submissionCount: bigint;
-        verifiedCount: bigint;
-        createdAt: bigint;
-      }
-    ],
-    "view"
-  >;
+    nameOrSignature: "taskRequiredStake"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
   getFunction(
     nameOrSignature: "transferOwnership"
   ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
   getFunction(
-    nameOrSignature: "workerActiveTasks"
-  ): TypedContractMethod<
-    [arg0: AddressLike, arg1: BigNumberish],
-    [bigint],
-    "view"
-  >;
+    nameOrSignature: "verificationContractAddress"
+  ): TypedContractMethod<[], [string], "view">;
 
+  getEvent(
+    key: "BountyReclaimed"
+  ): TypedContractEvent<
+    BountyReclaimedEvent.InputTuple,
+    BountyReclaimedEvent.OutputTuple,
+    BountyReclaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignClosed"
+  ): TypedContractEvent<
+    CampaignClosedEvent.InputTuple,
+    CampaignClosedEvent.OutputTuple,
+    CampaignClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignCreated"
+  ): TypedContractEvent<
+    CampaignCreatedEvent.InputTuple,
+    CampaignCreatedEvent.OutputTuple,
+    CampaignCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignTaskAdded"
+  ): TypedContractEvent<
+    CampaignTaskAddedEvent.InputTuple,
+    CampaignTaskAddedEvent.OutputTuple,
+    CampaignTaskAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ClaimReleased"
+  ): TypedContractEvent<
+    ClaimReleasedEvent.InputTuple,
+    ClaimReleasedEvent.OutputTuple,
+    ClaimReleasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CollateralTierUpdated"
+  ): TypedContractEvent<
+    CollateralTierUpdatedEvent.InputTuple,
+    CollateralTierUpdatedEvent.OutputTuple,
+    CollateralTierUpdatedEvent.OutputObject
+  >;
   getEvent(
     key: "OwnershipTransferred"
   ): TypedContractEvent<
@@ -716,6 +1938,48 @@ export interface TaskManager extends BaseContract {
     OwnershipTransferredEvent.OutputTuple,
     OwnershipTransferredEvent.OutputObject
   >;
+  getEvent(
+    key: "ScheduleCreated"
+  ): TypedContractEvent<
+    ScheduleCreatedEvent.InputTuple,
+    ScheduleCreatedEvent.OutputTuple,
+    ScheduleCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScheduleOccurrenceSkipped"
+  ): TypedContractEvent<
+    ScheduleOccurrenceSkippedEvent.InputTuple,
+    ScheduleOccurrenceSkippedEvent.OutputTuple,
+    ScheduleOccurrenceSkippedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScheduleOccurrenceSpawned"
+  ): TypedContractEvent<
+    ScheduleOccurrenceSpawnedEvent.InputTuple,
+    ScheduleOccurrenceSpawnedEvent.OutputTuple,
+    ScheduleOccurrenceSpawnedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubmissionVerified"
+  ): TypedContractEvent<
+    SubmissionVerifiedEvent.InputTuple,
+    SubmissionVerifiedEvent.OutputTuple,
+    SubmissionVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TaskBountyIncreased"
+  ): TypedContractEvent<
+    TaskBountyIncreasedEvent.InputTuple,
+    TaskBountyIncreasedEvent.OutputTuple,
+    TaskBountyIncreasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TaskCancelled"
+  ): TypedContractEvent<
+    TaskCancelledEvent.InputTuple,
+    TaskCancelledEvent.OutputTuple,
+    TaskCancelledEvent.OutputObject
+  >;
   getEvent(
     key: "TaskClaimed"
   ): TypedContractEvent<
@@ -723,6 +1987,13 @@ export interface TaskManager extends BaseContract {
     TaskClaimedEvent.OutputTuple,
     TaskClaimedEvent.OutputObject
   >;
+  getEvent(
+    key: "TaskCompleted"
+  ): TypedContractEvent<
+    TaskCompletedEvent.InputTuple,
+    TaskCompletedEvent.OutputTuple,
+    TaskCompletedEvent.OutputObject
+  >;
   getEvent(
     key: "TaskCreated"
   ): TypedContractEvent<
@@ -730,6 +2001,13 @@ export interface TaskManager extends BaseContract {
     TaskCreatedEvent.OutputTuple,
     TaskCreatedEvent.OutputObject
   >;
+  getEvent(
+    key: "TaskDeadlineExtended"
+  ): TypedContractEvent<
+    TaskDeadlineExtendedEvent.InputTuple,
+    TaskDeadlineExtendedEvent.OutputTuple,
+    TaskDeadlineExtendedEvent.OutputObject
+  >;
   getEvent(
     key: "TaskExpired"
   ): TypedContractEvent<
@@ -737,6 +2015,13 @@ export interface TaskManager extends BaseContract {
     TaskExpiredEvent.OutputTuple,
     TaskExpiredEvent.OutputObject
   >;
+  getEvent(
+    key: "TaskStakeRequirementUpdated"
+  ): TypedContractEvent<
+    TaskStakeRequirementUpdatedEvent.InputTuple,
+    TaskStakeRequirementUpdatedEvent.OutputTuple,
+    TaskStakeRequirementUpdatedEvent.OutputObject
+  >;
   getEvent(
     key: "TaskSubmitted"
   ): TypedContractEvent<
@@ -744,8 +2029,81 @@ export interface TaskManager extends BaseContract {
     TaskSubmittedEvent.OutputTuple,
     TaskSubmittedEvent.OutputObject
   >;
+  getEvent(
+    key: "TaskWorkerSlotsAdded"
+  ): TypedContractEvent<
+    TaskWorkerSlotsAddedEvent.InputTuple,
+    TaskWorkerSlotsAddedEvent.OutputTuple,
+    TaskWorkerSlotsAddedEvent.OutputObject
+  >;
 
   filters: {
+    "BountyReclaimed(uint256,address,uint256)": TypedContractEvent<
+      BountyReclaimedEvent.InputTuple,
+      BountyReclaimedEvent.OutputTuple,
+      BountyReclaimedEvent.OutputObject
+    >;
+    BountyReclaimed: TypedContractEvent<
+      BountyReclaimedEvent.InputTuple,
+      BountyReclaimedEvent.OutputTuple,
+      BountyReclaimedEvent.OutputObject
+    >;
+
+    "CampaignClosed(uint256,uint256)": TypedContractEvent<
+      CampaignClosedEvent.InputTuple,
+      CampaignClosedEvent.OutputTuple,
+      CampaignClosedEvent.OutputObject
+    >;
+    CampaignClosed: TypedContractEvent<
+      CampaignClosedEvent.InputTuple,
+      CampaignClosedEvent.OutputTuple,
+      CampaignClosedEvent.OutputObject
+    >;
+
+    "CampaignCreated(uint256,address,uint8,uint256,uint256)": TypedContractEvent<
+      CampaignCreatedEvent.InputTuple,
+      CampaignCreatedEvent.OutputTuple,
+      CampaignCreatedEvent.OutputObject
+    >;
+    CampaignCreated: TypedContractEvent<
+      CampaignCreatedEvent.InputTuple,
+      CampaignCreatedEvent.OutputTuple,
+      CampaignCreatedEvent.OutputObject
+    >;
+
+    "CampaignTaskAdded(uint256,uint256)": TypedContractEvent<
+      CampaignTaskAddedEvent.InputTuple,
+      CampaignTaskAddedEvent.OutputTuple,
+      CampaignTaskAddedEvent.OutputObject
+    >;
+    CampaignTaskAdded: TypedContractEvent<
+      CampaignTaskAddedEvent.InputTuple,
+      CampaignTaskAddedEvent.OutputTuple,
+      CampaignTaskAddedEvent.OutputObject
+    >;
+
+    "ClaimReleased(uint256,address,bool)": TypedContractEvent<
+      ClaimReleasedEvent.InputTuple,
+      ClaimReleasedEvent.OutputTuple,
+      ClaimReleasedEvent.OutputObject
+    >;
+    ClaimReleased: TypedContractEvent<
+      ClaimReleasedEvent.InputTuple,
+      ClaimReleasedEvent.OutputTuple,
+      ClaimReleasedEvent.OutputObject
+    >;
+
+    "CollateralTierUpdated(uint256,uint256)": TypedContractEvent<
+      CollateralTierUpdatedEvent.InputTuple,
+      CollateralTierUpdatedEvent.OutputTuple,
+      CollateralTierUpdatedEvent.OutputObject
+    >;
+    CollateralTierUpdated: TypedContractEvent<
+      CollateralTierUpdatedEvent.InputTuple,
+      CollateralTierUpdatedEvent.OutputTuple,
+      CollateralTierUpdatedEvent.OutputObject
+    >;
+
     "OwnershipTransferred(address,address)": TypedContractEvent<
       OwnershipTransferredEvent.InputTuple,
       OwnershipTransferredEvent.OutputTuple,
@@ -757,6 +2115,72 @@ export interface TaskManager extends BaseContract {
       OwnershipTransferredEvent.OutputObject
     >;
 
+    "ScheduleCreated(uint256,uint256,address,uint256,uint256,uint256)": TypedContractEvent<
+      ScheduleCreatedEvent.InputTuple,
+      ScheduleCreatedEvent.OutputTuple,
+      ScheduleCreatedEvent.OutputObject
+    >;
+    ScheduleCreated: TypedContractEvent<
+      ScheduleCreatedEvent.InputTuple,
+      ScheduleCreatedEvent.OutputTuple,
+      ScheduleCreatedEvent.OutputObject
+    >;
+
+    "ScheduleOccurrenceSkipped(uint256,uint256)": TypedContractEvent<
+      ScheduleOccurrenceSkippedEvent.InputTuple,
+      ScheduleOccurrenceSkippedEvent.OutputTuple,
+      ScheduleOccurrenceSkippedEvent.OutputObject
+    >;
+    ScheduleOccurrenceSkipped: TypedContractEvent<
+      ScheduleOccurrenceSkippedEvent.InputTuple,
+      ScheduleOccurrenceSkippedEvent.OutputTuple,
+      ScheduleOccurrenceSkippedEvent.OutputObject
+    >;
+
+    "ScheduleOccurrenceSpawned(uint256,uint256,uint256)": TypedContractEvent<
+      ScheduleOccurrenceSpawnedEvent.InputTuple,
+      ScheduleOccurrenceSpawnedEvent.OutputTuple,
+      ScheduleOccurrenceSpawnedEvent.OutputObject
+    >;
+    ScheduleOccurrenceSpawned: TypedContractEvent<
+      ScheduleOccurrenceSpawnedEvent.InputTuple,
+      ScheduleOccurrenceSpawnedEvent.OutputTuple,
+      ScheduleOccurrenceSpawnedEvent.OutputObject
+    >;
+
+    "SubmissionVerified(uint256,uint256)": TypedContractEvent<
+      SubmissionVerifiedEvent.InputTuple,
+      SubmissionVerifiedEvent.OutputTuple,
+      SubmissionVerifiedEvent.OutputObject
+    >;
+    SubmissionVerified: TypedContractEvent<
+      SubmissionVerifiedEvent.InputTuple,
+      SubmissionVerifiedEvent.OutputTuple,
+      SubmissionVerifiedEvent.OutputObject
+    >;
+
+    "TaskBountyIncreased(uint256,uint256,uint256)": TypedContractEvent<
+      TaskBountyIncreasedEvent.InputTuple,
+      TaskBountyIncreasedEvent.OutputTuple,
+      TaskBountyIncreasedEvent.OutputObject
+    >;
+    TaskBountyIncreased: TypedContractEvent<
+      TaskBountyIncreasedEvent.InputTuple,
+      TaskBountyIncreasedEvent.OutputTuple,
+      TaskBountyIncreasedEvent.OutputObject
+    >;
+
+    "TaskCancelled(uint256,uint256)": TypedContractEvent<
+      TaskCancelledEvent.InputTuple,
+      TaskCancelledEvent.OutputTuple,
+      TaskCancelledEvent.OutputObject
+    >;
+    TaskCancelled: TypedContractEvent<
+      TaskCancelledEvent.InputTuple,
+      TaskCancelledEvent.OutputTuple,
+      TaskCancelledEvent.OutputObject
+    >;
+
     "TaskClaimed(uint256,address,uint256)": TypedContractEvent<
       TaskClaimedEvent.InputTuple,
       TaskClaimedEvent.OutputTuple,
@@ -768,6 +2192,17 @@ export interface TaskManager extends BaseContract {
       TaskClaimedEvent.OutputObject
     >;
 
+    "TaskCompleted(uint256,uint256)": TypedContractEvent<
+      TaskCompletedEvent.InputTuple,
+      TaskCompletedEvent.OutputTuple,
+      TaskCompletedEvent.OutputObject
+    >;
+    TaskCompleted: TypedContractEvent<
+      TaskCompletedEvent.InputTuple,
+      TaskCompletedEvent.OutputTuple,
+      TaskCompletedEvent.OutputObject
+    >;
+
     "TaskCreated(uint256,address,uint8,uint256,uint256)": TypedContractEvent<
       TaskCreatedEvent.InputTuple,
       TaskCreatedEvent.OutputTuple,
@@ -779,6 +2214,17 @@ export interface TaskManager extends BaseContract {
       TaskCreatedEvent.OutputObject
     >;
 
+    "TaskDeadlineExtended(uint256,uint256)": TypedContractEvent<
+      TaskDeadlineExtendedEvent.InputTuple,
+      TaskDeadlineExtendedEvent.OutputTuple,
+      TaskDeadlineExtendedEvent.OutputObject
+    >;
+    TaskDeadlineExtended: TypedContractEvent<
+      TaskDeadlineExtendedEvent.InputTuple,
+      TaskDeadlineExtendedEvent.OutputTuple,
+      TaskDeadlineExtendedEvent.OutputObject
+    >;
+
     "TaskExpired(uint256,uint256)": TypedContractEvent<
       TaskExpiredEvent.InputTuple,
       TaskExpiredEvent.OutputTuple,
@@ -790,6 +2236,17 @@ export interface TaskManager extends BaseContract {
       TaskExpiredEvent.OutputObject
     >;
 
+    "TaskStakeRequirementUpdated(uint256,uint256)": TypedContractEvent<
+      TaskStakeRequirementUpdatedEvent.InputTuple,
+      TaskStakeRequirementUpdatedEvent.OutputTuple,
+      TaskStakeRequirementUpdatedEvent.OutputObject
+    >;
+    TaskStakeRequirementUpdated: TypedContractEvent<
+      TaskStakeRequirementUpdatedEvent.InputTuple,
+      TaskStakeRequirementUpdatedEvent.OutputTuple,
+      TaskStakeRequirementUpdatedEvent.OutputObject
+    >;
+
     "TaskSubmitted(uint256,address,string,uint256)": TypedContractEvent<
       TaskSubmittedEvent.InputTuple,
       TaskSubmittedEvent.OutputTuple,
@@ -800,5 +2257,16 @@ export interface TaskManager extends BaseContract {
       TaskSubmittedEvent.OutputTuple,
       TaskSubmittedEvent.OutputObject
     >;
+
+    "TaskWorkerSlotsAdded(uint256,uint256,uint256)": TypedContractEvent<
+      TaskWorkerSlotsAddedEvent.InputTuple,
+      TaskWorkerSlotsAddedEvent.OutputTuple,
+      TaskWorkerSlotsAddedEvent.OutputObject
+    >;
+    TaskWorkerSlotsAdded: TypedContractEvent<
+      TaskWorkerSlotsAddedEvent.InputTuple,
+      TaskWorkerSlotsAddedEvent.OutputTuple,
+      TaskWorkerSlotsAddedEvent.OutputObject
+    >;
   };
 }
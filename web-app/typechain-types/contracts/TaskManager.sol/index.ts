@@ -2,4 +2,7 @@
 /* tslint:disable */
 /* eslint-disable */
 export type { IAntiFraud } from "./IAntiFraud";
+export type { IBountyPool } from "./IBountyPool";
+export type { IReputationContract } from "./IReputationContract";
+export type { IVerificationContract } from "./IVerificationContract";
 export type { TaskManager } from "./TaskManager";
@@ -3,6 +3,7 @@
 /* eslint-disable */
 import type {
   BaseContract,
+  BigNumberish,
   BytesLike,
   FunctionFragment,
   Result,
@@ -21,17 +22,27 @@ import type {
 } from "../../common";
 
 export interface IAntiFraudInterface extends Interface {
-  getFunction(nameOrSignature: "forfeitStake"): FunctionFragment;
+  getFunction(
+    nameOrSignature: "forfeitStake" | "releaseStake"
+  ): FunctionFragment;
 
   encodeFunctionData(
     functionFragment: "forfeitStake",
-    values: [AddressLike, string]
+    values: [AddressLike, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseStake",
+    values: [AddressLike, BigNumberish]
   ): string;
 
   decodeFunctionResult(
     functionFragment: "forfeitStake",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseStake",
+    data: BytesLike
+  ): Result;
 }
 
 export interface IAntiFraud extends BaseContract {
@@ -78,8 +89,14 @@ export interface IAntiFraud extends BaseContract {
   ): Promise<this>;
 
   forfeitStake: TypedContractMethod<
-    [worker: AddressLike, reason: string],
-    [void],
+    [worker: AddressLike, taskId: BigNumberish, reason: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  releaseStake: TypedContractMethod<
+    [worker: AddressLike, taskId: BigNumberish],
+    [bigint],
     "nonpayable"
   >;
 
@@ -90,8 +107,15 @@ export interface IAntiFraud extends BaseContract {
   getFunction(
     nameOrSignature: "forfeitStake"
   ): TypedContractMethod<
-    [worker: AddressLike, reason: string],
-    [void],
+    [worker: AddressLike, taskId: BigNumberish, reason: string],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "releaseStake"
+  ): TypedContractMethod<
+    [worker: AddressLike, taskId: BigNumberish],
+    [bigint],
     "nonpayable"
   >;
 
@@ -1,10 +1,14 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as antiFraudSol from "./AntiFraud.sol";
+export type { antiFraudSol };
+import type * as bountyPoolSol from "./BountyPool.sol";
+export type { bountyPoolSol };
 import type * as taskManagerSol from "./TaskManager.sol";
 export type { taskManagerSol };
 import type * as verificationContractSol from "./VerificationContract.sol";
 export type { verificationContractSol };
-export type { AntiFraud } from "./AntiFraud";
-export type { BountyPool } from "./BountyPool";
+import type * as mocks from "./mocks";
+export type { mocks };
 export type { ReputationContract } from "./ReputationContract";
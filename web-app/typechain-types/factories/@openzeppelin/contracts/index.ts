@@ -2,4 +2,6 @@
 /* tslint:disable */
 /* eslint-disable */
 export * as access from "./access";
+export * as interfaces from "./interfaces";
+export * as token from "./token";
 export * as utils from "./utils";
@@ -0,0 +1,29 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IBountyPool,
+  IBountyPoolInterface,
+} from "../../../contracts/AntiFraud.sol/IBountyPool";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "depositPlatformFees",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+] as const;
+
+export class IBountyPool__factory {
+  static readonly abi = _abi;
+  static createInterface(): IBountyPoolInterface {
+    return new Interface(_abi) as IBountyPoolInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): IBountyPool {
+    return new Contract(address, _abi, runner) as unknown as IBountyPool;
+  }
+}
@@ -0,0 +1,1623 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  BountyPool,
+  BountyPoolInterface,
+} from "../../../contracts/BountyPool.sol/BountyPool";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "requested",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "available",
+        type: "uint256",
+      },
+    ],
+    name: "InsufficientBonusReserve",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "required",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "available",
+        type: "uint256",
+      },
+    ],
+    name: "InsufficientBounty",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "required",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "available",
+        type: "uint256",
+      },
+    ],
+    name: "InsufficientCampaignBudget",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "addr",
+        type: "address",
+      },
+    ],
+    name: "InvalidAddress",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoFeesToWithdraw",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "NothingToWithdraw",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReentrancyGuardReentrantCall",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "SafeERC20FailedOperation",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "expected",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "provided",
+        type: "address",
+      },
+    ],
+    name: "TokenMismatch",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "TokenNotAllowed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "caller",
+        type: "address",
+      },
+    ],
+    name: "UnauthorizedCaller",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "reserveBalance",
+        type: "uint256",
+      },
+    ],
+    name: "BonusReserveFunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "reserveBalance",
+        type: "uint256",
+      },
+    ],
+    name: "BonusReserveWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "BountyDeposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "fee",
+        type: "uint256",
+      },
+    ],
+    name: "BountyRefunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignBudgetAllocated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignBudgetDeposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "fee",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignBudgetRefunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "EarningsCredited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "EarningsWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PlatformFeesDeposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PlatformFeesWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PlatformTokenFeesWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bonus",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "reserveBalance",
+        type: "uint256",
+      },
+    ],
+    name: "ReputationBonusPaid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newReputationContract",
+        type: "address",
+      },
+    ],
+    name: "ReputationContractUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "fee",
+        type: "uint256",
+      },
+    ],
+    name: "RewardDistributed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newTaskManager",
+        type: "address",
+      },
+    ],
+    name: "TaskManagerUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "TokenAllowlistUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "TokenBountyDeposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newVerificationContract",
+        type: "address",
+      },
+    ],
+    name: "VerificationContractUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "BASIS_POINTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "EXPIRED_TASK_FEE_PERCENTAGE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PLATFORM_FEE_PERCENTAGE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "accumulatedFees",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "accumulatedTokenFees",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "allocateCampaignBudget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "allowedTokens",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "bonusReserves",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "calculateExpiredTaskFee",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "calculatePlatformFee",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "campaignBudgets",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "campaignRefunded",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "campaignSpent",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "campaignTokens",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "depositBounty",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    name: "depositCampaignBudget",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "depositPlatformFees",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "depositTokenBounty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "depositTokenCampaignBudget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "distributeReward",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "fundBonusReserve",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "fundTokenBonusReserve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAccumulatedFees",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "getBonusReserve",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    name: "getCampaignBudget",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    name: "getCampaignSpending",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "spent",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "refunded",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "getTaskBounty",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "getTaskToken",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "pendingWithdrawals",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "refundBounty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "refundCampaignBudget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "refundCompletedBounty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "reputationContractAddress",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_reputationContract",
+        type: "address",
+      },
+    ],
+    name: "setReputationContract",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_taskManager",
+        type: "address",
+      },
+    ],
+    name: "setTaskManager",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "setTokenAllowed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_verificationContract",
+        type: "address",
+      },
+    ],
+    name: "setVerificationContract",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "taskBounties",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "taskCampaigns",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "taskManagerAddress",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "taskTokens",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "verificationContractAddress",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawBonusReserve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdrawPlatformFees",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "withdrawToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "withdrawTokenFees",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "withdrawable",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "withdrawableToken",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    stateMutability: "payable",
+    type: "receive",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b50338061003757604051631e4fbdf760e01b81526000600482015260240160405180910390fd5b6100408161004a565b506001805561009a565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b61261680620000aa6000396000f3fe6080604052600436106103035760003560e01c80637c7cc10511610190578063d02fa7a3116100dc578063eb93850a11610095578063f2fde38b1161006f578063f2fde38b14610a16578063f62722a014610a36578063f8f4645714610a56578063fb48d6be14610a7657600080fd5b8063eb93850a14610997578063ee96839e146109cd578063f0b96f7b146109e057600080fd5b8063d02fa7a3146108b4578063d0b7830b146108d4578063e1f1c4a7146108e9578063e744092e146108ff578063e816cc7f1461093f578063e831be581461095f57600080fd5b806398fa16d411610149578063a9d9257511610123578063a9d92575146107f0578063af13f44a14610810578063b653eb1714610846578063ce513b6f1461087357600080fd5b806398fa16d41461079b578063a1280256146107bb578063a71795c3146107c357600080fd5b80637c7cc105146106b657806389476069146106e35780638da5cb5b14610703578063948fc2aa1461072157806394a116b71461074e5780639584660f1461077b57600080fd5b8063389e65481161024f5780635d753659116102085780636e973982116101e25780636e9739821461061e578063705ce5ad1461064b57806370f4bbca1461066b578063715018a6146106a157600080fd5b80635d753659146105b05780635df45a37146105c357806363a6953f146105d857600080fd5b8063389e6548146104eb5780633cba359e1461050b5780633ccfd60b146105385780634115427b1461054d5780634a8d6c8b1461056d578063587f5ed71461059a57600080fd5b80631f54f729116102bc5780632389ecf1116102965780632389ecf11461043c57806327599bc91461045c578063327d0a60146104ab57806333ebed30146104cb57600080fd5b80631f54f729146103e7578063226ab1cc1461040757806323701b111461040f57600080fd5b80630cbab4f71461030f5780630efaba0d146103425780631532de2b14610364578063155482321461039c57806315f69012146103b157806317ff1ec7146103d157600080fd5b3661030a57005b600080fd5b34801561031b57600080fd5b5061032f61032a366004612368565b610a96565b6040519081526020015b60405180910390f35b34801561034e57600080fd5b5061036261035d36600461239d565b610ab6565b005b34801561037057600080fd5b50600e54610384906001600160a01b031681565b6040516001600160a01b039091168152602001610339565b3480156103a857600080fd5b5061032f60fa81565b3480156103bd57600080fd5b506103626103cc3660046123d2565b610b22565b3480156103dd57600080fd5b5061032f6101f481565b3480156103f357600080fd5b50601054610384906001600160a01b031681565b610362610bbb565b34801561041b57600080fd5b5061032f61042a366004612368565b600b6020526000908152604090205481565b34801561044857600080fd5b5061036261045736600461240e565b610c73565b34801561046857600080fd5b50610496610477366004612368565b6000908152600b6020908152604080832054600c909252909120549091565b60408051928352602083019190915201610339565b3480156104b757600080fd5b506103626104c6366004612452565b610e25565b3480156104d757600080fd5b50600f54610384906001600160a01b031681565b3480156104f757600080fd5b5061036261050636600461246d565b610ea9565b34801561051757600080fd5b5061032f610526366004612452565b60056020526000908152604090205481565b34801561054457600080fd5b50610362610fc5565b34801561055957600080fd5b5061036261056836600461240e565b610fe2565b34801561057957600080fd5b5061032f610588366004612368565b60086020526000908152604090205481565b3480156105a657600080fd5b5061032f600d5481565b6103626105be366004612368565b6110fd565b3480156105cf57600080fd5b50600d5461032f565b3480156105e457600080fd5b5061032f6105f3366004612497565b6001600160a01b03918216600090815260076020908152604080832093909416825291909152205490565b34801561062a57600080fd5b5061032f610639366004612368565b60009081526002602052604090205490565b34801561065757600080fd5b506103626106663660046124ca565b611202565b34801561067757600080fd5b5061032f610686366004612452565b6001600160a01b031660009081526006602052604090205490565b3480156106ad57600080fd5b50610362611344565b3480156106c257600080fd5b5061032f6106d1366004612368565b60009081526008602052604090205490565b3480156106ef57600080fd5b506103626106fe366004612452565b611356565b34801561070f57600080fd5b506000546001600160a01b0316610384565b34801561072d57600080fd5b5061032f61073c366004612368565b60026020526000908152604090205481565b34801561075a57600080fd5b5061032f610769366004612368565b600a6020526000908152604090205481565b34801561078757600080fd5b50610362610796366004612452565b611373565b3480156107a757600080fd5b506103626107b636600461239d565b6113f7565b61036261156f565b3480156107cf57600080fd5b5061032f6107de366004612452565b60066020526000908152604090205481565b3480156107fc57600080fd5b5061036261080b36600461246d565b6115b8565b34801561081c57600080fd5b5061038461082b366004612368565b6000908152600360205260409020546001600160a01b031690565b34801561085257600080fd5b5061032f610861366004612368565b600c6020526000908152604090205481565b34801561087f57600080fd5b5061032f61088e366004612452565b6001600160a01b0316600090815260076020908152604080832083805290915290205490565b3480156108c057600080fd5b5061032f6108cf366004612368565b61169d565b3480156108e057600080fd5b506103626116ae565b3480156108f557600080fd5b5061032f61271081565b34801561090b57600080fd5b5061092f61091a366004612452565b60046020526000908152604090205460ff1681565b6040519015158152602001610339565b34801561094b57600080fd5b5061036261095a36600461239d565b6117cb565b34801561096b57600080fd5b5061032f61097a366004612497565b600760209081526000928352604080842090915290825290205481565b3480156109a357600080fd5b506103846109b2366004612368565b6003602052600090815260409020546001600160a01b031681565b6103626109db366004612368565b61180d565b3480156109ec57600080fd5b506103846109fb366004612368565b6009602052600090815260409020546001600160a01b031681565b348015610a2257600080fd5b50610362610a31366004612452565b61189a565b348015610a4257600080fd5b50610362610a51366004612452565b6118d5565b348015610a6257600080fd5b50610362610a7136600461239d565b6119c6565b348015610a8257600080fd5b50610362610a91366004612452565b611b8e565b6000612710610aa660fa8461250c565b610ab09190612523565b92915050565b610abe611c12565b600e546001600160a01b03163314610af05760405163d86ad9cf60e01b81523360048201526024015b60405180910390fd5b610b14838383612710610b056101f48361250c565b610b0f9190612523565b611c3c565b610b1d60018055565b505050565b610b2a611d9a565b6001600160a01b038216610b5c57604051634726455360e11b81526001600160a01b0383166004820152602401610ae7565b6001600160a01b038216600081815260046020908152604091829020805460ff191685151590811790915591519182527f1da521c13439ac6ab125c52e0da7dd7de929f09e58aa0f89ebe3dbb12e63a52b910160405180910390a25050565b610bc3611d9a565b600080805260066020527f54cdd369e4e8a8515e52ca72ec816c2101831ad1f18bf44102ed171459c9b4f88054349290610bfe908490612545565b9091555050600080805260066020527f54cdd369e4e8a8515e52ca72ec816c2101831ad1f18bf44102ed171459c9b4f8546040517f5055b2be1cf9ec44050f137f87f0196d8313e1b92b383687c5fa48ca9d46116491610c6991349190918252602082015260400190565b60405180910390a2565b610c7b611c12565b600e546001600160a01b03163314610ca85760405163d86ad9cf60e01b8152336004820152602401610ae7565b6001600160a01b03831660009081526004602052604090205460ff16610cec5760405163094403b760e41b81526001600160a01b0384166004820152602401610ae7565b60008481526002602052604090205415801590610d2357506000848152600360205260409020546001600160a01b03848116911614155b15610d6c57600084815260036020526040908190205490516306118d6160e21b8152600481018690526001600160a01b0391821660248201529084166044820152606401610ae7565b600084815260036020908152604080832080546001600160a01b0319166001600160a01b038816179055600290915281208054839290610dad908490612545565b90915550610dc890506001600160a01b038416833084611dc7565b826001600160a01b0316826001600160a01b0316857f8ed697fa891dca292b28bf11d3645a82b5ad2ed0560838586e084918201c61bb84604051610e0e91815260200190565b60405180910390a4610e1f60018055565b50505050565b610e2d611d9a565b6001600160a01b038116610e5f57604051634726455360e11b81526001600160a01b0382166004820152602401610ae7565b600e80546001600160a01b0319166001600160a01b0383169081179091556040517f6bda90d69c86c08b1548541b058aa7e292b7a440758ba7a3437fe31f9d72d7c890600090a250565b610eb1611c12565b610eb9611d9a565b6001600160a01b038216600090815260066020526040902054811115610f1c576001600160a01b038216600081815260066020526040908190205490516367802f9160e01b81526004810192909252602482018390526044820152606401610ae7565b6001600160a01b03821660009081526006602052604081208054839290610f44908490612558565b90915550610f66905082610f606000546001600160a01b031690565b83611e2e565b6001600160a01b038216600081815260066020908152604091829020548251858152918201527faf5edfba63dbcc1d3ee8f151b03d8350c02551257147e2c2e5ffd5af1726ca1f91015b60405180910390a2610fc160018055565b5050565b610fcd611c12565b610fd76000611ed6565b610fe060018055565b565b610fea611c12565b600e546001600160a01b031633146110175760405163d86ad9cf60e01b8152336004820152602401610ae7565b6001600160a01b03831660009081526004602052604090205460ff1661105b5760405163094403b760e41b81526001600160a01b0384166004820152602401610ae7565b600084815260096020908152604080832080546001600160a01b0319166001600160a01b03881617905560089091528120805483929061109c908490612545565b909155506110b790506001600160a01b038416833084611dc7565b826001600160a01b0316826001600160a01b0316857f929f89fb76a4d870d274ed80d10272cb9983f4ad12159d88c949f7e05fa849e784604051610e0e91815260200190565b600e546001600160a01b0316331461112a5760405163d86ad9cf60e01b8152336004820152602401610ae7565b6000818152600260205260409020541580159061115d57506000818152600360205260409020546001600160a01b031615155b156111a5576000818152600360205260408082205490516306118d6160e21b8152600481018490526001600160a01b0390911660248201526044810191909152606401610ae7565b600081815260026020526040812080543492906111c3908490612545565b9091555050604051348152329082907fb1d5d5e7bd3f095106c77c1574721fffe610c6e6421a2604e93dbc81d634c65c9060200160405180910390a350565b600e546001600160a01b0316331461122f5760405163d86ad9cf60e01b8152336004820152602401610ae7565b60008381526008602052604090205481111561128057600083815260086020526040908190205490516350158fe960e01b815260048101859052602481018390526044810191909152606401610ae7565b6000838152600860205260408120805483929061129e908490612558565b9091555050600082815260026020526040812080548392906112c1908490612545565b90915550506000838152600960209081526040808320548584526003835281842080546001600160a01b0319166001600160a01b03909216919091179055600a8252918290208590559051828152839185917f4af69d47250fdd6329208f62517411933ca45ff638c0b88b989458f39f81dc6891015b60405180910390a3505050565b61134c611d9a565b610fe06000611fa0565b61135e611c12565b61136781611ed6565b61137060018055565b50565b61137b611d9a565b6001600160a01b0381166113ad57604051634726455360e11b81526001600160a01b0382166004820152602401610ae7565b601080546001600160a01b0319166001600160a01b0383169081179091556040517fb48fa9bf541befcb145fb17ed9591349d15db698f48943730a3e93592b4011e490600090a250565b6113ff611c12565b600e546001600160a01b0316331461142c5760405163d86ad9cf60e01b8152336004820152602401610ae7565b60008381526008602052604090205481111561147d57600083815260086020526040908190205490516350158fe960e01b815260048101859052602481018390526044810191909152606401610ae7565b600061271061148e6101f48461250c565b6114989190612523565b6000858152600960209081526040808320546008909252822080549394506001600160a01b03909116928592906114d0908490612558565b90915550506000858152600c6020526040812080548592906114f3908490612545565b9091555061150390508183611ff0565b61151781856115128587612558565b61204c565b6001600160a01b038416857f1f9ae2880d32325c21c6378d72104f17c0187de74c6dacc0505066c8e8c8170761154d8587612558565b60408051918252602082018790520160405180910390a35050610b1d60018055565b34600d60008282546115819190612545565b909155505060405134815233907f35e811eda5b669d0ef1c593acf63c08e625b5f39c9f817f799872f73ba8f095f90602001610c69565b6115c0611c12565b6115c8611d9a565b6001600160a01b03821660009081526004602052604090205460ff1661160c5760405163094403b760e41b81526001600160a01b0383166004820152602401610ae7565b6001600160a01b03821660009081526006602052604081208054839290611634908490612545565b9091555061164f90506001600160a01b038316333084611dc7565b6001600160a01b038216600081815260066020908152604091829020548251858152918201527f5055b2be1cf9ec44050f137f87f0196d8313e1b92b383687c5fa48ca9d4611649101610fb0565b6000612710610aa66101f48461250c565b6116b6611c12565b6116be611d9a565b600d5460008190036116e357604051630d00db4d60e31b815260040160405180910390fd5b6000600d81905580546040516001600160a01b039091169083908381818185875af1925050503d8060008114611735576040519150601f19603f3d011682016040523d82523d6000602084013e61173a565b606091505b505090508061177257600054604051630e21dcbb60e11b81526001600160a01b03909116600482015260248101839052604401610ae7565b6000546001600160a01b03166001600160a01b03167ffc7ad544ff6a06d6499925723d25b6fe70457a42939995b1d3d6f560fe336333836040516117b891815260200190565b60405180910390a25050610fe060018055565b6117d3611c12565b600e546001600160a01b031633146118005760405163d86ad9cf60e01b8152336004820152602401610ae7565b610b148383836000611c3c565b600e546001600160a01b0316331461183a5760405163d86ad9cf60e01b8152336004820152602401610ae7565b60008181526008602052604081208054349290611858908490612545565b9091555050604051348152600090329083907f929f89fb76a4d870d274ed80d10272cb9983f4ad12159d88c949f7e05fa849e79060200160405180910390a450565b6118a2611d9a565b6001600160a01b0381166118cc57604051631e4fbdf760e01b815260006004820152602401610ae7565b61137081611fa0565b6118dd611c12565b6118e5611d9a565b6001600160a01b0381166000908152600560205260408120549081900361191f57604051630d00db4d60e31b815260040160405180910390fd5b6001600160a01b03821660009081526005602052604081205561195e61194d6000546001600160a01b031690565b6001600160a01b03841690836120cf565b816001600160a01b031661197a6000546001600160a01b031690565b6001600160a01b03167fe4c56e5cfe7212944e9aeecccf26a639585032615273fc170906b509510652b1836040516119b491815260200190565b60405180910390a35061137060018055565b6119ce611c12565b600f546001600160a01b031633146119fb5760405163d86ad9cf60e01b8152336004820152602401610ae7565b600083815260026020526040902054811115611a4c5760008381526002602052604090819020549051637c80dd8760e11b815260048101859052602481018390526044810191909152606401610ae7565b6000612710611a5c60fa8461250c565b611a669190612523565b90506000611a748284612558565b905082600260008781526020019081526020016000206000828254611a999190612558565b90915550506000858152600a602052604090205415611ae3576000858152600a60209081526040808320548352600b90915281208054859290611add908490612545565b90915550505b600085815260036020526040902054611b05906001600160a01b031683611ff0565b6000611b12868686612100565b600087815260036020526040902054909150611b3c906001600160a01b0316866115128486612545565b60408051838152602081018590526001600160a01b0387169188917f602ab809fa82d3a742a4f9a33cdd154988d8b0f578ee4dc91de3dc412bf026b9910160405180910390a3505050610b1d60018055565b611b96611d9a565b6001600160a01b038116611bc857604051634726455360e11b81526001600160a01b0382166004820152602401610ae7565b600f80546001600160a01b0319166001600160a01b0383169081179091556040517fc94639d1214701da4f99305bbd305a310b09328aaeaea5c8fd49cd2685d4962890600090a250565b600260015403611c3557604051633ee5aeb560e01b815260040160405180910390fd5b6002600155565b600084815260026020526040902054821115611c8d5760008481526002602052604090819020549051637c80dd8760e11b815260048101869052602481018490526044810191909152606401610ae7565b6000611c998284612558565b905082600260008781526020019081526020016000206000828254611cbe9190612558565b90915550506000858152600a602052604090205415611d08576000858152600a60209081526040808320548352600c90915281208054859290611d02908490612545565b90915550505b600085815260036020526040902054611d2a906001600160a01b031683611ff0565b600085815260036020526040902054611d4d906001600160a01b0316858361204c565b60408051828152602081018490526001600160a01b0386169187917f86cb66faabc06bafd75e6b3e987a6e463a3d8ec871056b659e5e7b566d92ad54910160405180910390a35050505050565b6000546001600160a01b03163314610fe05760405163118cdaa760e01b8152336004820152602401610ae7565b6040516001600160a01b038481166024830152838116604483015260648201839052610e1f9186918216906323b872dd906084015b604051602081830303815290604052915060e01b6020820180516001600160e01b0383818316178352505050506122f7565b6001600160a01b038316611ec2576000826001600160a01b03168260405160006040518083038185875af1925050503d8060008114611e89576040519150601f19603f3d011682016040523d82523d6000602084013e611e8e565b606091505b5050905080610e1f57604051630e21dcbb60e11b81526001600160a01b038416600482015260248101839052604401610ae7565b610b1d6001600160a01b03841683836120cf565b3360009081526007602090815260408083206001600160a01b038516845290915281205490819003611f2c57604051635623329f60e11b81523360048201526001600160a01b0383166024820152604401610ae7565b3360008181526007602090815260408083206001600160a01b0387168452909152812055611f5c90839083611e2e565b6040518181526001600160a01b0383169033907f0c8584df0a37548f26644c41809e5f908b58e8888dd441691e8a2174ec89f3059060200160405180910390a35050565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6001600160a01b03821661201b5780600d60008282546120109190612545565b90915550610fc19050565b6001600160a01b03821660009081526005602052604081208054839290612043908490612545565b90915550505050565b6001600160a01b03808316600090815260076020908152604080832093871683529290529081208054839290612083908490612545565b92505081905550826001600160a01b0316826001600160a01b03167fe3c5b1fb7a8a5a1b7d9d6a92a85d37bcd5a0026d79b842f24c51f647f228599b8360405161133791815260200190565b6040516001600160a01b03838116602483015260448201839052610b1d91859182169063a9059cbb90606401611dfc565b6000838152600360209081526040808320546001600160a01b0316808452600690925282205480158061213c57506010546001600160a01b0316155b1561214c576000925050506122f0565b600e546040516334b5e18560e21b8152600481018890526000916001600160a01b03169063d2d7861490602401602060405180830381865afa158015612196573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906121ba919061256b565b601054604051630cdc850360e41b81529192506000916001600160a01b039091169063cdc85030906121f2908a90869060040161258c565b602060405180830381865afa15801561220f573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061223391906125c7565b9050612710811161224b5760009450505050506122f0565b600061271061225a8184612558565b612264908961250c565b61226e9190612523565b90508381111561227b5750825b6122858185612558565b6001600160a01b0380871660008181526006602052604090209290925589168a7f28f6127fdc45a7b6144b4842cb8730d05e38692e66576db6bd41cad8558b39d3846122d1818a612558565b6040805192835260208301919091520160405180910390a49450505050505b9392505050565b600080602060008451602086016000885af18061231a576040513d6000823e3d81fd5b50506000513d9150811561233257806001141561233f565b6001600160a01b0384163b155b15610e1f57604051635274afe760e01b81526001600160a01b0385166004820152602401610ae7565b60006020828403121561237a57600080fd5b5035919050565b80356001600160a01b038116811461239857600080fd5b919050565b6000806000606084860312156123b257600080fd5b833592506123c260208501612381565b9150604084013590509250925092565b600080604083850312156123e557600080fd5b6123ee83612381565b91506020830135801515811461240357600080fd5b809150509250929050565b6000806000806080858703121561242457600080fd5b8435935061243460208601612381565b925061244260408601612381565b9396929550929360600135925050565b60006020828403121561246457600080fd5b6122f082612381565b6000806040838503121561248057600080fd5b61248983612381565b946020939093013593505050565b600080604083850312156124aa57600080fd5b6124b383612381565b91506124c160208401612381565b90509250929050565b6000806000606084860312156124df57600080fd5b505081359360208301359350604090920135919050565b634e487b7160e01b600052601160045260246000fd5b8082028115828204841417610ab057610ab06124f6565b60008261254057634e487b7160e01b600052601260045260246000fd5b500490565b80820180821115610ab057610ab06124f6565b81810381811115610ab057610ab06124f6565b60006020828403121561257d57600080fd5b8151600581106122f057600080fd5b6001600160a01b038316815260408101600583106125ba57634e487b7160e01b600052602160045260246000fd5b8260208301529392505050565b6000602082840312156125d957600080fd5b505191905056fea264697066735822122052c470fcfd2ee85f0dc6b036c120e6c6b1efb32f8af19ee0ca65c0b232fb182764736f6c63430008140033";
+
+type BountyPoolConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: BountyPoolConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class BountyPool__factory extends ContractFactory {
+  constructor(...args: BountyPoolConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      BountyPool & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): BountyPool__factory {
+    return super.connect(runner) as BountyPool__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): BountyPoolInterface {
+    return new Interface(_abi) as BountyPoolInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): BountyPool {
+    return new Contract(address, _abi, runner) as unknown as BountyPool;
+  }
+}
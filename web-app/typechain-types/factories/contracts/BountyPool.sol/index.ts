@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { BountyPool__factory } from "./BountyPool__factory";
+export { IReputationContract__factory } from "./IReputationContract__factory";
+export { ITaskManager__factory } from "./ITaskManager__factory";
@@ -84,6 +84,49 @@ const _abi = [
     name: "ReentrancyGuardReentrantCall",
     type: "error",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "SafeERC20FailedOperation",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "expected",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "provided",
+        type: "address",
+      },
+    ],
+    name: "TokenMismatch",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "TokenNotAllowed",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -205,6 +248,31 @@ const _abi = [
     name: "PlatformFeesWithdrawn",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PlatformTokenFeesWithdrawn",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -249,6 +317,56 @@ const _abi = [
     name: "TaskManagerUpdated",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "TokenAllowlistUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "TokenBountyDeposited",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -314,6 +432,44 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "accumulatedTokenFees",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "allowedTokens",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -365,6 +521,34 @@ const _abi = [
     stateMutability: "payable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "depositTokenBounty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -420,6 +604,25 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "getTaskToken",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "owner",
@@ -476,6 +679,24 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "setTokenAllowed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -521,6 +742,25 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "taskTokens",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -554,6 +794,19 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "withdrawTokenFees",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     stateMutability: "payable",
     type: "receive",
@@ -561,7 +814,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561001057600080fd5b50338061003757604051631e4fbdf760e01b81526000600482015260240160405180910390fd5b6100408161004a565b506001805561009a565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b610c38806100a96000396000f3fe6080604052600436106101235760003560e01c80636e973982116100a0578063d0b7830b11610064578063d0b7830b14610312578063e1f1c4a714610327578063f2fde38b1461033d578063f8f464571461035d578063fb48d6be1461037d57600080fd5b80636e97398214610265578063715018a6146102925780638da5cb5b146102a7578063948fc2aa146102c5578063d02fa7a3146102f257600080fd5b8063327d0a60116100e7578063327d0a60146101e757806333ebed3014610207578063587f5ed7146102275780635d7536591461023d5780635df45a371461025057600080fd5b80630cbab4f71461012f5780630efaba0d146101625780631532de2b1461018457806315548232146101bc57806317ff1ec7146101d157600080fd5b3661012a57005b600080fd5b34801561013b57600080fd5b5061014f61014a366004610b01565b61039d565b6040519081526020015b60405180910390f35b34801561016e57600080fd5b5061018261017d366004610b36565b6103bd565b005b34801561019057600080fd5b506004546101a4906001600160a01b031681565b6040516001600160a01b039091168152602001610159565b3480156101c857600080fd5b5061014f60fa81565b3480156101dd57600080fd5b5061014f6101f481565b3480156101f357600080fd5b50610182610202366004610b6b565b610590565b34801561021357600080fd5b506005546101a4906001600160a01b031681565b34801561023357600080fd5b5061014f60035481565b61018261024b366004610b01565b610614565b34801561025c57600080fd5b5060035461014f565b34801561027157600080fd5b5061014f610280366004610b01565b60009081526002602052604090205490565b34801561029e57600080fd5b5061018261069e565b3480156102b357600080fd5b506000546001600160a01b03166101a4565b3480156102d157600080fd5b5061014f6102e0366004610b01565b60026020526000908152604090205481565b3480156102fe57600080fd5b5061014f61030d366004610b01565b6106b2565b34801561031e57600080fd5b506101826106c3565b34801561033357600080fd5b5061014f61271081565b34801561034957600080fd5b50610182610358366004610b6b565b6107e0565b34801561036957600080fd5b50610182610378366004610b36565b61081e565b34801561038957600080fd5b50610182610398366004610b6b565b6109d6565b60006127106103ad60fa84610ba3565b6103b79190610bba565b92915050565b6103c5610a5a565b6004546001600160a01b031633146103f75760405163d86ad9cf60e01b81523360048201526024015b60405180910390fd5b6000838152600260205260409020548111156104485760008381526002602052604090819020549051637c80dd8760e11b8152600481018590526024810183905260448101919091526064016103ee565b60006127106104596101f484610ba3565b6104639190610bba565b905060006104718284610bdc565b9050826002600087815260200190815260200160002060008282546104969190610bdc565b9250508190555081600360008282546104af9190610bef565b90915550506040516000906001600160a01b0386169083908381818185875af1925050503d80600081146104ff576040519150601f19603f3d011682016040523d82523d6000602084013e610504565b606091505b505090508061053857604051630e21dcbb60e11b81526001600160a01b0386166004820152602481018390526044016103ee565b60408051838152602081018590526001600160a01b0387169188917f86cb66faabc06bafd75e6b3e987a6e463a3d8ec871056b659e5e7b566d92ad5491015b60405180910390a350505061058b60018055565b505050565b610598610a84565b6001600160a01b0381166105ca57604051634726455360e11b81526001600160a01b03821660048201526024016103ee565b600480546001600160a01b0319166001600160a01b0383169081179091556040517f6bda90d69c86c08b1548541b058aa7e292b7a440758ba7a3437fe31f9d72d7c890600090a250565b6004546001600160a01b031633146106415760405163d86ad9cf60e01b81523360048201526024016103ee565b6000818152600260205260408120805434929061065f908490610bef565b9091555050604051348152329082907fb1d5d5e7bd3f095106c77c1574721fffe610c6e6421a2604e93dbc81d634c65c9060200160405180910390a350565b6106a6610a84565b6106b06000610ab1565b565b60006127106103ad6101f484610ba3565b6106cb610a5a565b6106d3610a84565b60035460008190036106f857604051630d00db4d60e31b815260040160405180910390fd5b6000600381905580546040516001600160a01b039091169083908381818185875af1925050503d806000811461074a576040519150601f19603f3d011682016040523d82523d6000602084013e61074f565b606091505b505090508061078757600054604051630e21dcbb60e11b81526001600160a01b039091166004820152602481018390526044016103ee565b6000546001600160a01b03166001600160a01b03167ffc7ad544ff6a06d6499925723d25b6fe70457a42939995b1d3d6f560fe336333836040516107cd91815260200190565b60405180910390a250506106b060018055565b6107e8610a84565b6001600160a01b03811661081257604051631e4fbdf760e01b8152600060048201526024016103ee565b61081b81610ab1565b50565b610826610a5a565b6005546001600160a01b031633146108535760405163d86ad9cf60e01b81523360048201526024016103ee565b6000838152600260205260409020548111156108a45760008381526002602052604090819020549051637c80dd8760e11b8152600481018590526024810183905260448101919091526064016103ee565b60006127106108b460fa84610ba3565b6108be9190610bba565b905060006108cc8284610bdc565b9050826002600087815260200190815260200160002060008282546108f19190610bdc565b92505081905550816003600082825461090a9190610bef565b90915550506040516000906001600160a01b0386169083908381818185875af1925050503d806000811461095a576040519150601f19603f3d011682016040523d82523d6000602084013e61095f565b606091505b505090508061099357604051630e21dcbb60e11b81526001600160a01b0386166004820152602481018390526044016103ee565b60408051838152602081018590526001600160a01b0387169188917f602ab809fa82d3a742a4f9a33cdd154988d8b0f578ee4dc91de3dc412bf026b99101610577565b6109de610a84565b6001600160a01b038116610a1057604051634726455360e11b81526001600160a01b03821660048201526024016103ee565b600580546001600160a01b0319166001600160a01b0383169081179091556040517fc94639d1214701da4f99305bbd305a310b09328aaeaea5c8fd49cd2685d4962890600090a250565b600260015403610a7d57604051633ee5aeb560e01b815260040160405180910390fd5b6002600155565b6000546001600160a01b031633146106b05760405163118cdaa760e01b81523360048201526024016103ee565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b600060208284031215610b1357600080fd5b5035919050565b80356001600160a01b0381168114610b3157600080fd5b919050565b600080600060608486031215610b4b57600080fd5b83359250610b5b60208501610b1a565b9150604084013590509250925092565b600060208284031215610b7d57600080fd5b610b8682610b1a565b9392505050565b634e487b7160e01b600052601160045260246000fd5b80820281158282048414176103b7576103b7610b8d565b600082610bd757634e487b7160e01b600052601260045260246000fd5b500490565b818103818111156103b7576103b7610b8d565b808201808211156103b7576103b7610b8d56fea26469706673582212202deb6df5d7e692740242ea25c9171755126c17393ecd9c33d23ba09b88cb1d8c64736f6c63430008140033";
+  "0x608060405234801561001057600080fd5b50338061003757604051631e4fbdf760e01b81526000600482015260240160405180910390fd5b6100408161004a565b506001805561009a565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b611382806100a96000396000f3fe6080604052600436106101a05760003560e01c80636e973982116100ec578063e1f1c4a71161008a578063f2fde38b11610064578063f2fde38b146104d3578063f62722a0146104f3578063f8f4645714610513578063fb48d6be1461053357600080fd5b8063e1f1c4a714610447578063e744092e1461045d578063eb93850a1461049d57600080fd5b8063948fc2aa116100c6578063948fc2aa146103af578063af13f44a146103dc578063d02fa7a314610412578063d0b7830b1461043257600080fd5b80636e9739821461034f578063715018a61461037c5780638da5cb5b1461039157600080fd5b80632389ecf1116101595780633cba359e116101335780633cba359e146102e4578063587f5ed7146103115780635d753659146103275780635df45a371461033a57600080fd5b80632389ecf114610284578063327d0a60146102a457806333ebed30146102c457600080fd5b80630cbab4f7146101ac5780630efaba0d146101df5780631532de2b14610201578063155482321461023957806315f690121461024e57806317ff1ec71461026e57600080fd5b366101a757005b600080fd5b3480156101b857600080fd5b506101cc6101c73660046111cb565b610553565b6040519081526020015b60405180910390f35b3480156101eb57600080fd5b506101ff6101fa366004611200565b610573565b005b34801561020d57600080fd5b50600754610221906001600160a01b031681565b6040516001600160a01b0390911681526020016101d6565b34801561024557600080fd5b506101cc60fa81565b34801561025a57600080fd5b506101ff610269366004611235565b6106ed565b34801561027a57600080fd5b506101cc6101f481565b34801561029057600080fd5b506101ff61029f366004611271565b610786565b3480156102b057600080fd5b506101ff6102bf3660046112b5565b610938565b3480156102d057600080fd5b50600854610221906001600160a01b031681565b3480156102f057600080fd5b506101cc6102ff3660046112b5565b60056020526000908152604090205481565b34801561031d57600080fd5b506101cc60065481565b6101ff6103353660046111cb565b6109bc565b34801561034657600080fd5b506006546101cc565b34801561035b57600080fd5b506101cc61036a3660046111cb565b60009081526002602052604090205490565b34801561038857600080fd5b506101ff610ac1565b34801561039d57600080fd5b506000546001600160a01b0316610221565b3480156103bb57600080fd5b506101cc6103ca3660046111cb565b60026020526000908152604090205481565b3480156103e857600080fd5b506102216103f73660046111cb565b6000908152600360205260409020546001600160a01b031690565b34801561041e57600080fd5b506101cc61042d3660046111cb565b610ad5565b34801561043e57600080fd5b506101ff610ae6565b34801561045357600080fd5b506101cc61271081565b34801561046957600080fd5b5061048d6104783660046112b5565b60046020526000908152604090205460ff1681565b60405190151581526020016101d6565b3480156104a957600080fd5b506102216104b83660046111cb565b6003602052600090815260409020546001600160a01b031681565b3480156104df57600080fd5b506101ff6104ee3660046112b5565b610c03565b3480156104ff57600080fd5b506101ff61050e3660046112b5565b610c41565b34801561051f57600080fd5b506101ff61052e366004611200565b610d32565b34801561053f57600080fd5b506101ff61054e3660046112b5565b610e92565b600061271061056360fa846112ed565b61056d9190611304565b92915050565b61057b610f16565b6007546001600160a01b031633146105ad5760405163d86ad9cf60e01b81523360048201526024015b60405180910390fd5b6000838152600260205260409020548111156105fe5760008381526002602052604090819020549051637c80dd8760e11b8152600481018590526024810183905260448101919091526064016105a4565b600061271061060f6101f4846112ed565b6106199190611304565b905060006106278284611326565b90508260026000878152602001908152602001600020600082825461064c9190611326565b9091555050600085815260036020526040902054610673906001600160a01b031683610f40565b600085815260036020526040902054610696906001600160a01b03168583610f9d565b60408051828152602081018490526001600160a01b0386169187917f86cb66faabc06bafd75e6b3e987a6e463a3d8ec871056b659e5e7b566d92ad5491015b60405180910390a350506106e860018055565b505050565b6106f5611045565b6001600160a01b03821661072757604051634726455360e11b81526001600160a01b03831660048201526024016105a4565b6001600160a01b038216600081815260046020908152604091829020805460ff191685151590811790915591519182527f1da521c13439ac6ab125c52e0da7dd7de929f09e58aa0f89ebe3dbb12e63a52b910160405180910390a25050565b61078e610f16565b6007546001600160a01b031633146107bb5760405163d86ad9cf60e01b81523360048201526024016105a4565b6001600160a01b03831660009081526004602052604090205460ff166107ff5760405163094403b760e41b81526001600160a01b03841660048201526024016105a4565b6000848152600260205260409020541580159061083657506000848152600360205260409020546001600160a01b03848116911614155b1561087f57600084815260036020526040908190205490516306118d6160e21b8152600481018690526001600160a01b03918216602482015290841660448201526064016105a4565b600084815260036020908152604080832080546001600160a01b0319166001600160a01b0388161790556002909152812080548392906108c0908490611339565b909155506108db90506001600160a01b038416833084611072565b826001600160a01b0316826001600160a01b0316857f8ed697fa891dca292b28bf11d3645a82b5ad2ed0560838586e084918201c61bb8460405161092191815260200190565b60405180910390a461093260018055565b50505050565b610940611045565b6001600160a01b03811661097257604051634726455360e11b81526001600160a01b03821660048201526024016105a4565b600780546001600160a01b0319166001600160a01b0383169081179091556040517f6bda90d69c86c08b1548541b058aa7e292b7a440758ba7a3437fe31f9d72d7c890600090a250565b6007546001600160a01b031633146109e95760405163d86ad9cf60e01b81523360048201526024016105a4565b60008181526002602052604090205415801590610a1c57506000818152600360205260409020546001600160a01b031615155b15610a64576000818152600360205260408082205490516306118d6160e21b8152600481018490526001600160a01b03909116602482015260448101919091526064016105a4565b60008181526002602052604081208054349290610a82908490611339565b9091555050604051348152329082907fb1d5d5e7bd3f095106c77c1574721fffe610c6e6421a2604e93dbc81d634c65c9060200160405180910390a350565b610ac9611045565b610ad360006110d9565b565b60006127106105636101f4846112ed565b610aee610f16565b610af6611045565b6006546000819003610b1b57604051630d00db4d60e31b815260040160405180910390fd5b6000600681905580546040516001600160a01b039091169083908381818185875af1925050503d8060008114610b6d576040519150601f19603f3d011682016040523d82523d6000602084013e610b72565b606091505b5050905080610baa57600054604051630e21dcbb60e11b81526001600160a01b039091166004820152602481018390526044016105a4565b6000546001600160a01b03166001600160a01b03167ffc7ad544ff6a06d6499925723d25b6fe70457a42939995b1d3d6f560fe33633383604051610bf091815260200190565b60405180910390a25050610ad360018055565b610c0b611045565b6001600160a01b038116610c3557604051631e4fbdf760e01b8152600060048201526024016105a4565b610c3e816110d9565b50565b610c49610f16565b610c51611045565b6001600160a01b03811660009081526005602052604081205490819003610c8b57604051630d00db4d60e31b815260040160405180910390fd5b6001600160a01b038216600090815260056020526040812055610cca610cb96000546001600160a01b031690565b6001600160a01b0384169083611129565b816001600160a01b0316610ce66000546001600160a01b031690565b6001600160a01b03167fe4c56e5cfe7212944e9aeecccf26a639585032615273fc170906b509510652b183604051610d2091815260200190565b60405180910390a350610c3e60018055565b610d3a610f16565b6008546001600160a01b03163314610d675760405163d86ad9cf60e01b81523360048201526024016105a4565b600083815260026020526040902054811115610db85760008381526002602052604090819020549051637c80dd8760e11b8152600481018590526024810183905260448101919091526064016105a4565b6000612710610dc860fa846112ed565b610dd29190611304565b90506000610de08284611326565b905082600260008781526020019081526020016000206000828254610e059190611326565b9091555050600085815260036020526040902054610e2c906001600160a01b031683610f40565b600085815260036020526040902054610e4f906001600160a01b03168583610f9d565b60408051828152602081018490526001600160a01b0386169187917f602ab809fa82d3a742a4f9a33cdd154988d8b0f578ee4dc91de3dc412bf026b991016106d5565b610e9a611045565b6001600160a01b038116610ecc57604051634726455360e11b81526001600160a01b03821660048201526024016105a4565b600880546001600160a01b0319166001600160a01b0383169081179091556040517fc94639d1214701da4f99305bbd305a310b09328aaeaea5c8fd49cd2685d4962890600090a250565b600260015403610f3957604051633ee5aeb560e01b815260040160405180910390fd5b6002600155565b6001600160a01b038216610f6b578060066000828254610f609190611339565b90915550610f999050565b6001600160a01b03821660009081526005602052604081208054839290610f93908490611339565b90915550505b5050565b6001600160a01b038316611031576000826001600160a01b03168260405160006040518083038185875af1925050503d8060008114610ff8576040519150601f19603f3d011682016040523d82523d6000602084013e610ffd565b606091505b505090508061093257604051630e21dcbb60e11b81526001600160a01b0384166004820152602481018390526044016105a4565b6106e86001600160a01b0384168383611129565b6000546001600160a01b03163314610ad35760405163118cdaa760e01b81523360048201526024016105a4565b6040516001600160a01b0384811660248301528381166044830152606482018390526109329186918216906323b872dd906084015b604051602081830303815290604052915060e01b6020820180516001600160e01b03838183161783525050505061115a565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6040516001600160a01b038381166024830152604482018390526106e891859182169063a9059cbb906064016110a7565b600080602060008451602086016000885af18061117d576040513d6000823e3d81fd5b50506000513d915081156111955780600114156111a2565b6001600160a01b0384163b155b1561093257604051635274afe760e01b81526001600160a01b03851660048201526024016105a4565b6000602082840312156111dd57600080fd5b5035919050565b80356001600160a01b03811681146111fb57600080fd5b919050565b60008060006060848603121561121557600080fd5b83359250611225602085016111e4565b9150604084013590509250925092565b6000806040838503121561124857600080fd5b611251836111e4565b91506020830135801515811461126657600080fd5b809150509250929050565b6000806000806080858703121561128757600080fd5b84359350611297602086016111e4565b92506112a5604086016111e4565b9396929550929360600135925050565b6000602082840312156112c757600080fd5b6112d0826111e4565b9392505050565b634e487b7160e01b600052601160045260246000fd5b808202811582820484141761056d5761056d6112d7565b60008261132157634e487b7160e01b600052601260045260246000fd5b500490565b8181038181111561056d5761056d6112d7565b8082018082111561056d5761056d6112d756fea26469706673582212208702f52a4aa9ae4aabcd59795449692e3ef404c19d9471499568dbcb87cf4aa964736f6c63430008140033";
 
 type BountyPoolConstructorParams =
   | [signer?: Signer]
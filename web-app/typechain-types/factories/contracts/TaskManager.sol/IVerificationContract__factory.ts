@@ -0,0 +1,109 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IVerificationContract,
+  IVerificationContractInterface,
+} from "../../../contracts/TaskManager.sol/IVerificationContract";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "ipfsHash",
+        type: "string",
+      },
+      {
+        components: [
+          {
+            internalType: "int256",
+            name: "latitude",
+            type: "int256",
+          },
+          {
+            internalType: "int256",
+            name: "longitude",
+            type: "int256",
+          },
+          {
+            internalType: "uint256",
+            name: "radius",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct IVerificationContract.Location",
+        name: "location",
+        type: "tuple",
+      },
+      {
+        internalType: "uint256",
+        name: "bountyAmount",
+        type: "uint256",
+      },
+      {
+        internalType: "enum TaskCategory",
+        name: "category",
+        type: "uint8",
+      },
+    ],
+    name: "createSubmission",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "taskId",
+        type: "uint256",
+      },
+    ],
+    name: "getReservedBounty",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class IVerificationContract__factory {
+  static readonly abi = _abi;
+  static createInterface(): IVerificationContractInterface {
+    return new Interface(_abi) as IVerificationContractInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IVerificationContract {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as IVerificationContract;
+  }
+}
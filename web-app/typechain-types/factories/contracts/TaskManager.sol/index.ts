@@ -2,4 +2,7 @@
 /* tslint:disable */
 /* eslint-disable */
 export { IAntiFraud__factory } from "./IAntiFraud__factory";
+export { IBountyPool__factory } from "./IBountyPool__factory";
+export { IReputationContract__factory } from "./IReputationContract__factory";
+export { IVerificationContract__factory } from "./IVerificationContract__factory";
 export { TaskManager__factory } from "./TaskManager__factory";
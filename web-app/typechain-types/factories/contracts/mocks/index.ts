@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { MockERC20__factory } from "./MockERC20__factory";
+export { MockTaskManager__factory } from "./MockTaskManager__factory";
+export { Multicall3__factory } from "./Multicall3__factory";
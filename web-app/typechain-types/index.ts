@@ -8,21 +8,49 @@ export type { contracts };
 export * as factories from "./factories";
 export type { Ownable } from "./@openzeppelin/contracts/access/Ownable";
 export { Ownable__factory } from "./factories/@openzeppelin/contracts/access/Ownable__factory";
+export type { IERC1155Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC1155Errors";
+export { IERC1155Errors__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC1155Errors__factory";
+export type { IERC20Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC20Errors";
+export { IERC20Errors__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC20Errors__factory";
+export type { IERC721Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC721Errors";
+export { IERC721Errors__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC721Errors__factory";
+export type { IERC1363 } from "./@openzeppelin/contracts/interfaces/IERC1363";
+export { IERC1363__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC1363__factory";
+export type { ERC20 } from "./@openzeppelin/contracts/token/ERC20/ERC20";
+export { ERC20__factory } from "./factories/@openzeppelin/contracts/token/ERC20/ERC20__factory";
+export type { IERC20Metadata } from "./@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata";
+export { IERC20Metadata__factory } from "./factories/@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata__factory";
+export type { IERC20 } from "./@openzeppelin/contracts/token/ERC20/IERC20";
+export { IERC20__factory } from "./factories/@openzeppelin/contracts/token/ERC20/IERC20__factory";
+export type { SafeERC20 } from "./@openzeppelin/contracts/token/ERC20/utils/SafeERC20";
+export { SafeERC20__factory } from "./factories/@openzeppelin/contracts/token/ERC20/utils/SafeERC20__factory";
+export type { IERC165 } from "./@openzeppelin/contracts/utils/introspection/IERC165";
+export { IERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/IERC165__factory";
 export type { ReentrancyGuard } from "./@openzeppelin/contracts/utils/ReentrancyGuard";
 export { ReentrancyGuard__factory } from "./factories/@openzeppelin/contracts/utils/ReentrancyGuard__factory";
-export type { AntiFraud } from "./contracts/AntiFraud";
-export { AntiFraud__factory } from "./factories/contracts/AntiFraud__factory";
-export type { BountyPool } from "./contracts/BountyPool";
-export { BountyPool__factory } from "./factories/contracts/BountyPool__factory";
+export type { AntiFraud } from "./contracts/AntiFraud.sol/AntiFraud";
+export { AntiFraud__factory } from "./factories/contracts/AntiFraud.sol/AntiFraud__factory";
+export type { IBountyPool } from "./contracts/AntiFraud.sol/IBountyPool";
+export { IBountyPool__factory } from "./factories/contracts/AntiFraud.sol/IBountyPool__factory";
+export type { ITaskManager } from "./contracts/AntiFraud.sol/ITaskManager";
+export { ITaskManager__factory } from "./factories/contracts/AntiFraud.sol/ITaskManager__factory";
+export type { BountyPool } from "./contracts/BountyPool.sol/BountyPool";
+export { BountyPool__factory } from "./factories/contracts/BountyPool.sol/BountyPool__factory";
+export type { IReputationContract } from "./contracts/BountyPool.sol/IReputationContract";
+export { IReputationContract__factory } from "./factories/contracts/BountyPool.sol/IReputationContract__factory";
+export type { MockERC20 } from "./contracts/mocks/MockERC20";
+export { MockERC20__factory } from "./factories/contracts/mocks/MockERC20__factory";
+export type { MockTaskManager } from "./contracts/mocks/MockTaskManager";
+export { MockTaskManager__factory } from "./factories/contracts/mocks/MockTaskManager__factory";
+export type { Multicall3 } from "./contracts/mocks/Multicall3";
+export { Multicall3__factory } from "./factories/contracts/mocks/Multicall3__factory";
 export type { ReputationContract } from "./contracts/ReputationContract";
 export { ReputationContract__factory } from "./factories/contracts/ReputationContract__factory";
 export type { IAntiFraud } from "./contracts/TaskManager.sol/IAntiFraud";
 export { IAntiFraud__factory } from "./factories/contracts/TaskManager.sol/IAntiFraud__factory";
+export type { IVerificationContract } from "./contracts/TaskManager.sol/IVerificationContract";
+export { IVerificationContract__factory } from "./factories/contracts/TaskManager.sol/IVerificationContract__factory";
 export type { TaskManager } from "./contracts/TaskManager.sol/TaskManager";
 export { TaskManager__factory } from "./factories/contracts/TaskManager.sol/TaskManager__factory";
-export type { IBountyPool } from "./contracts/VerificationContract.sol/IBountyPool";
-export { IBountyPool__factory } from "./factories/contracts/VerificationContract.sol/IBountyPool__factory";
-export type { IReputationContract } from "./contracts/VerificationContract.sol/IReputationContract";
-export { IReputationContract__factory } from "./factories/contracts/VerificationContract.sol/IReputationContract__factory";
 export type { VerificationContract } from "./contracts/VerificationContract.sol/VerificationContract";
 export { VerificationContract__factory } from "./factories/contracts/VerificationContract.sol/VerificationContract__factory";